@@ -6,6 +6,7 @@ import { AuthModule } from '@/modules/auth/auth.module';
 import { UserModule } from '@/modules/user/user.module';
 import { CentersModule } from '@/modules/centers/centers.module';
 import { LevelsModule } from '@/modules/levels/levels.module';
+import { AcademicTermsModule } from '@/modules/academic-terms/academic-terms.module';
 import { SubjectsModule } from '@/modules/subjects/subjects.module';
 import { ClassesModule } from '@/modules/classes/classes.module';
 import { SessionsModule } from '@/modules/sessions/sessions.module';
@@ -34,6 +35,7 @@ import { HealthModule } from './modules/health';
 import { UserProfileModule } from './modules/user-profile/user-profile.module';
 import { StaffModule } from './modules/staff/staff.module';
 import { StudentsModule } from './modules/students/students.module';
+import { ParentsModule } from './modules/parents/parents.module';
 import { TeachersModule } from './modules/teachers/teachers.module';
 import { RequestContextService } from './shared/common/services/request-context.service';
 import { EnterpriseLoggerService } from './shared/common/services/enterprise-logger.service';
@@ -89,11 +91,13 @@ import { SettingsModule } from './modules/settings/settings.module';
     UserProfileModule,
     StaffModule,
     StudentsModule,
+    ParentsModule,
     TeachersModule,
     AdminModule,
     AccessControlModule,
     CentersModule,
     LevelsModule,
+    AcademicTermsModule,
     SubjectsModule,
     ClassesModule,
     SessionsModule,
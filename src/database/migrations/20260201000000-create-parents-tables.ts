@@ -0,0 +1,190 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateParentsTables20260201000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Parent profile reference table (mirrors students/teachers)
+    await queryRunner.createTable(
+      new Table({
+        name: 'parents',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'parent_student_links',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'parentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'verifiedAt',
+            type: 'timestamptz',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'parent_student_links',
+      new TableIndex({
+        name: 'IDX_parent_student_links_parent_student',
+        columnNames: ['parentUserProfileId', 'studentUserProfileId'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'parent_student_links',
+      new TableIndex({
+        name: 'IDX_parent_student_links_studentUserProfileId',
+        columnNames: ['studentUserProfileId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'parent_student_links',
+      new TableForeignKey({
+        columnNames: ['parentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'parent_student_links',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    for (const tableName of ['parents', 'parent_student_links']) {
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['createdByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'RESTRICT',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['updatedByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    for (const tableName of ['parent_student_links', 'parents']) {
+      const table = await queryRunner.getTable(tableName);
+      if (table) {
+        for (const fk of table.foreignKeys) {
+          await queryRunner.dropForeignKey(tableName, fk);
+        }
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'parent_student_links',
+      'IDX_parent_student_links_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'parent_student_links',
+      'IDX_parent_student_links_parent_student',
+    );
+
+    // Drop tables
+    await queryRunner.dropTable('parent_student_links');
+    await queryRunner.dropTable('parents');
+  }
+}
@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddParentPermissions20260201000001 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Insert PARENT permissions if they don't exist
+    const permissions = [
+      { action: 'parent:create', scope: 'CENTER' },
+      { action: 'parent:import-profile', scope: 'CENTER' },
+      { action: 'parent:update', scope: 'ADMIN' },
+      { action: 'parent:delete', scope: 'ADMIN' },
+      { action: 'parent:restore', scope: 'ADMIN' },
+      { action: 'parent:activate', scope: 'ADMIN' },
+    ];
+
+    for (const permission of permissions) {
+      // Check if permission already exists
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // Only insert if it doesn't exist
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove PARENT permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN (
+        'parent:create',
+        'parent:import-profile',
+        'parent:update',
+        'parent:delete',
+        'parent:restore',
+        'parent:activate'
+      );
+    `);
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+  TableColumn,
+} from 'typeorm';
+
+export class AddGroupCapacityAndWaitlist20260202000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const groupsTable = await queryRunner.getTable('groups');
+    if (groupsTable && !groupsTable.findColumnByName('maxCapacity')) {
+      await queryRunner.addColumn(
+        'groups',
+        new TableColumn({
+          name: 'maxCapacity',
+          type: 'int',
+          isNullable: true,
+        }),
+      );
+    }
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'group_waitlist_entries',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'groupId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'classId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'joinedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'group_waitlist_entries',
+      new TableIndex({
+        name: 'IDX_group_waitlist_entries_groupId_joinedAt',
+        columnNames: ['groupId', 'joinedAt'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'group_waitlist_entries',
+      new TableIndex({
+        name: 'IDX_group_waitlist_entries_groupId_studentUserProfileId',
+        columnNames: ['groupId', 'studentUserProfileId'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'group_waitlist_entries',
+      new TableIndex({
+        name: 'IDX_group_waitlist_entries_studentUserProfileId',
+        columnNames: ['studentUserProfileId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'group_waitlist_entries',
+      new TableIndex({
+        name: 'IDX_group_waitlist_entries_centerId_branchId',
+        columnNames: ['centerId', 'branchId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'group_waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['groupId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'groups',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'group_waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'group_waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'group_waitlist_entries',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const table = await queryRunner.getTable('group_waitlist_entries');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('group_waitlist_entries', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'group_waitlist_entries',
+      'IDX_group_waitlist_entries_centerId_branchId',
+    );
+    await queryRunner.dropIndex(
+      'group_waitlist_entries',
+      'IDX_group_waitlist_entries_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'group_waitlist_entries',
+      'IDX_group_waitlist_entries_groupId_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'group_waitlist_entries',
+      'IDX_group_waitlist_entries_groupId_joinedAt',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('group_waitlist_entries');
+
+    const groupsTable = await queryRunner.getTable('groups');
+    if (groupsTable?.findColumnByName('maxCapacity')) {
+      await queryRunner.dropColumn('groups', 'maxCapacity');
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+  TableColumn,
+} from 'typeorm';
+
+export class AddRoomsAndRoomBookings20260203000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'rooms',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'capacity',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'isActive',
+            type: 'boolean',
+            isNullable: false,
+            default: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'deletedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'rooms',
+      new TableIndex({
+        name: 'IDX_rooms_branchId',
+        columnNames: ['branchId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'rooms',
+      new TableIndex({
+        name: 'IDX_rooms_centerId_branchId',
+        columnNames: ['centerId', 'branchId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'rooms',
+      new TableIndex({
+        name: 'IDX_rooms_branchId_name',
+        columnNames: ['branchId', 'name'],
+        isUnique: true,
+        where: '"deletedAt" IS NULL',
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'rooms',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'rooms',
+      new TableForeignKey({
+        columnNames: ['branchId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'branches',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'rooms',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'rooms',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'rooms',
+      new TableForeignKey({
+        columnNames: ['deletedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    for (const tableName of ['schedule_items', 'sessions']) {
+      const table = await queryRunner.getTable(tableName);
+      if (table && !table.findColumnByName('roomId')) {
+        await queryRunner.addColumn(
+          tableName,
+          new TableColumn({
+            name: 'roomId',
+            type: 'uuid',
+            isNullable: true,
+          }),
+        );
+      }
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          name: `FK_${tableName}_roomId`,
+          columnNames: ['roomId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'rooms',
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+
+    await queryRunner.createIndex(
+      'schedule_items',
+      new TableIndex({
+        name: 'IDX_schedule_items_roomId_day',
+        columnNames: ['roomId', 'day'],
+      }),
+    );
+    await queryRunner.createIndex(
+      'sessions',
+      new TableIndex({
+        name: 'IDX_sessions_roomId_startTime',
+        columnNames: ['roomId', 'startTime'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('sessions', 'IDX_sessions_roomId_startTime');
+    await queryRunner.dropIndex(
+      'schedule_items',
+      'IDX_schedule_items_roomId_day',
+    );
+
+    for (const tableName of ['sessions', 'schedule_items']) {
+      const table = await queryRunner.getTable(tableName);
+      if (table?.findColumnByName('roomId')) {
+        await queryRunner.dropForeignKey(tableName, `FK_${tableName}_roomId`);
+        await queryRunner.dropColumn(tableName, 'roomId');
+      }
+    }
+
+    // Drop foreign keys
+    const table = await queryRunner.getTable('rooms');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('rooms', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex('rooms', 'IDX_rooms_branchId_name');
+    await queryRunner.dropIndex('rooms', 'IDX_rooms_centerId_branchId');
+    await queryRunner.dropIndex('rooms', 'IDX_rooms_branchId');
+
+    // Drop table
+    await queryRunner.dropTable('rooms');
+  }
+}
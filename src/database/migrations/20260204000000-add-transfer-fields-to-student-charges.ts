@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddTransferFieldsToStudentCharges20260204000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Track charges carried over to another class on group transfer
+    await queryRunner.addColumns('student_charges', [
+      new TableColumn({
+        name: 'transferredFromClassId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'transferredAt',
+        type: 'timestamptz',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('student_charges', 'transferredAt');
+    await queryRunner.dropColumn('student_charges', 'transferredFromClassId');
+  }
+}
@@ -0,0 +1,253 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+  TableColumn,
+} from 'typeorm';
+
+export class CreateAcademicTerms20260205000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'academic_terms',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'startDate',
+            type: 'timestamptz',
+            isNullable: false,
+          },
+          {
+            name: 'endDate',
+            type: 'timestamptz',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            default: "'PLANNED'",
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'deletedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'academic_terms',
+      new TableIndex({
+        name: 'IDX_academic_terms_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'academic_terms',
+      new TableIndex({
+        name: 'IDX_academic_terms_centerId_status',
+        columnNames: ['centerId', 'status'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'academic_terms',
+      new TableIndex({
+        name: 'IDX_academic_terms_name_centerId',
+        columnNames: ['name', 'centerId'],
+        isUnique: true,
+        where: '"deletedAt" IS NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'academic_terms',
+      new TableIndex({
+        name: 'IDX_academic_terms_startDate_createdAt',
+        columnNames: ['startDate', 'createdAt'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'academic_terms',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'academic_terms',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'academic_terms',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'academic_terms',
+      new TableForeignKey({
+        columnNames: ['deletedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // Scope classes to academic terms
+    await queryRunner.addColumn(
+      'classes',
+      new TableColumn({
+        name: 'termId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.createForeignKey(
+      'classes',
+      new TableForeignKey({
+        name: 'FK_classes_termId',
+        columnNames: ['termId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'academic_terms',
+        onDelete: 'SET NULL',
+      }),
+    );
+    await queryRunner.createIndex(
+      'classes',
+      new TableIndex({
+        name: 'IDX_classes_termId',
+        columnNames: ['termId'],
+      }),
+    );
+
+    // Class names are unique per term, classes without a term keep the old rule
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_classes_name_centerId_branchId";`,
+    );
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_classes_name_centerId_branchId"
+      ON "classes" ("name", "centerId", "branchId")
+      WHERE "deletedAt" IS NULL AND "termId" IS NULL;
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_classes_name_centerId_branchId_termId"
+      ON "classes" ("name", "centerId", "branchId", "termId")
+      WHERE "deletedAt" IS NULL AND "termId" IS NOT NULL;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_classes_name_centerId_branchId_termId";`,
+    );
+    await queryRunner.query(
+      `DROP INDEX IF EXISTS "IDX_classes_name_centerId_branchId";`,
+    );
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "IDX_classes_name_centerId_branchId"
+      ON "classes" ("name", "centerId", "branchId")
+      WHERE "deletedAt" IS NULL;
+    `);
+
+    await queryRunner.dropIndex('classes', 'IDX_classes_termId');
+    await queryRunner.dropForeignKey('classes', 'FK_classes_termId');
+    await queryRunner.dropColumn('classes', 'termId');
+
+    // Drop foreign keys
+    const table = await queryRunner.getTable('academic_terms');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('academic_terms', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'academic_terms',
+      'IDX_academic_terms_startDate_createdAt',
+    );
+    await queryRunner.dropIndex(
+      'academic_terms',
+      'IDX_academic_terms_name_centerId',
+    );
+    await queryRunner.dropIndex(
+      'academic_terms',
+      'IDX_academic_terms_centerId_status',
+    );
+    await queryRunner.dropIndex(
+      'academic_terms',
+      'IDX_academic_terms_centerId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('academic_terms');
+  }
+}
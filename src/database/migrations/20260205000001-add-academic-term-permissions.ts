@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAcademicTermPermissions20260205000001
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Insert ACADEMIC_TERMS permissions if they don't exist
+    const permissions = [
+      { action: 'academic-terms:read', scope: 'CENTER' },
+      { action: 'academic-terms:create', scope: 'CENTER' },
+      { action: 'academic-terms:update', scope: 'CENTER' },
+      { action: 'academic-terms:delete', scope: 'CENTER' },
+      { action: 'academic-terms:roll-over', scope: 'CENTER' },
+    ];
+
+    for (const permission of permissions) {
+      // Check if permission already exists
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // Only insert if it doesn't exist
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove ACADEMIC_TERMS permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN (
+        'academic-terms:read',
+        'academic-terms:create',
+        'academic-terms:update',
+        'academic-terms:delete',
+        'academic-terms:roll-over'
+      );
+    `);
+  }
+}
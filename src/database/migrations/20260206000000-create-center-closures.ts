@@ -0,0 +1,220 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateCenterClosures20260206000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'center_closures',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'startDate',
+            type: 'date',
+            isNullable: false,
+          },
+          {
+            name: 'endDate',
+            type: 'date',
+            isNullable: false,
+          },
+          {
+            name: 'source',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            default: "'MANUAL'",
+          },
+          {
+            name: 'externalUid',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'deletedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'center_closures',
+      new TableIndex({
+        name: 'IDX_center_closures_centerId_startDate_endDate',
+        columnNames: ['centerId', 'startDate', 'endDate'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'center_closures',
+      new TableIndex({
+        name: 'IDX_center_closures_branchId',
+        columnNames: ['branchId'],
+      }),
+    );
+
+    // Imported UIDs are unique per branch, and per center for center-wide closures
+    await queryRunner.createIndex(
+      'center_closures',
+      new TableIndex({
+        name: 'IDX_center_closures_centerId_branchId_externalUid',
+        columnNames: ['centerId', 'branchId', 'externalUid'],
+        isUnique: true,
+        where:
+          '"deletedAt" IS NULL AND "externalUid" IS NOT NULL AND "branchId" IS NOT NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'center_closures',
+      new TableIndex({
+        name: 'IDX_center_closures_centerId_externalUid',
+        columnNames: ['centerId', 'externalUid'],
+        isUnique: true,
+        where:
+          '"deletedAt" IS NULL AND "externalUid" IS NOT NULL AND "branchId" IS NULL',
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'center_closures',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'center_closures',
+      new TableForeignKey({
+        columnNames: ['branchId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'branches',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'center_closures',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'center_closures',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'center_closures',
+      new TableForeignKey({
+        columnNames: ['deletedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const table = await queryRunner.getTable('center_closures');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('center_closures', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'center_closures',
+      'IDX_center_closures_centerId_externalUid',
+    );
+    await queryRunner.dropIndex(
+      'center_closures',
+      'IDX_center_closures_centerId_branchId_externalUid',
+    );
+    await queryRunner.dropIndex(
+      'center_closures',
+      'IDX_center_closures_branchId',
+    );
+    await queryRunner.dropIndex(
+      'center_closures',
+      'IDX_center_closures_centerId_startDate_endDate',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('center_closures');
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddMakeupSessions20260207000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Link a makeup session to the canceled session it replaces
+    await queryRunner.addColumn(
+      'sessions',
+      new TableColumn({
+        name: 'makeupForSessionId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'sessions',
+      new TableForeignKey({
+        name: 'FK_sessions_makeupForSessionId',
+        columnNames: ['makeupForSessionId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'sessions',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // A canceled session can only be made up once
+    await queryRunner.createIndex(
+      'sessions',
+      new TableIndex({
+        name: 'IDX_sessions_makeupForSessionId',
+        columnNames: ['makeupForSessionId'],
+        isUnique: true,
+        where: '"makeupForSessionId" IS NOT NULL',
+      }),
+    );
+
+    // Track session charges carried over from a canceled session to its makeup
+    await queryRunner.addColumn(
+      'student_charges',
+      new TableColumn({
+        name: 'carriedOverFromSessionId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('student_charges', 'carriedOverFromSessionId');
+
+    await queryRunner.dropIndex('sessions', 'IDX_sessions_makeupForSessionId');
+    await queryRunner.dropForeignKey(
+      'sessions',
+      'FK_sessions_makeupForSessionId',
+    );
+    await queryRunner.dropColumn('sessions', 'makeupForSessionId');
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddSessionSubstituteTeacher20260208000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Teacher covering a single session instead of the class teacher
+    await queryRunner.addColumn(
+      'sessions',
+      new TableColumn({
+        name: 'substituteTeacherUserProfileId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'sessions',
+      new TableForeignKey({
+        name: 'FK_sessions_substituteTeacherUserProfileId',
+        columnNames: ['substituteTeacherUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'sessions',
+      new TableIndex({
+        name: 'IDX_sessions_substituteTeacherUserProfileId_startTime',
+        columnNames: ['substituteTeacherUserProfileId', 'startTime'],
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex(
+      'sessions',
+      'IDX_sessions_substituteTeacherUserProfileId_startTime',
+    );
+    await queryRunner.dropForeignKey(
+      'sessions',
+      'FK_sessions_substituteTeacherUserProfileId',
+    );
+    await queryRunner.dropColumn('sessions', 'substituteTeacherUserProfileId');
+  }
+}
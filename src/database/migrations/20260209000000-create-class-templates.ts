@@ -0,0 +1,233 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateClassTemplates20260209000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'class_templates',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'levelId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'subjectId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'duration',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'studentPaymentStrategy',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'teacherPaymentStrategy',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'scheduleItems',
+            type: 'jsonb',
+            isNullable: false,
+            default: "'[]'",
+          },
+          {
+            name: 'maxCapacity',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'deletedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'class_templates',
+      new TableIndex({
+        name: 'IDX_class_templates_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'class_templates',
+      new TableIndex({
+        name: 'IDX_class_templates_name_centerId',
+        columnNames: ['name', 'centerId'],
+        isUnique: true,
+        where: '"deletedAt" IS NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'class_templates',
+      new TableIndex({
+        name: 'IDX_class_templates_levelId',
+        columnNames: ['levelId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'class_templates',
+      new TableIndex({
+        name: 'IDX_class_templates_subjectId',
+        columnNames: ['subjectId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'class_templates',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'class_templates',
+      new TableForeignKey({
+        columnNames: ['levelId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'levels',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'class_templates',
+      new TableForeignKey({
+        columnNames: ['subjectId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'subjects',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'class_templates',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'class_templates',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'class_templates',
+      new TableForeignKey({
+        columnNames: ['deletedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const table = await queryRunner.getTable('class_templates');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('class_templates', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'class_templates',
+      'IDX_class_templates_subjectId',
+    );
+    await queryRunner.dropIndex(
+      'class_templates',
+      'IDX_class_templates_levelId',
+    );
+    await queryRunner.dropIndex(
+      'class_templates',
+      'IDX_class_templates_name_centerId',
+    );
+    await queryRunner.dropIndex(
+      'class_templates',
+      'IDX_class_templates_centerId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('class_templates');
+  }
+}
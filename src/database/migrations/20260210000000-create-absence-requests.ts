@@ -0,0 +1,369 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateAbsenceRequests20260210000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'absence_requests',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'requestedByUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'reason',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            default: "'PENDING'",
+          },
+          {
+            name: 'attachmentFileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'reviewedByUserProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'reviewedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'reviewNote',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'absence_requests',
+      new TableIndex({
+        name: 'IDX_absence_requests_centerId_status',
+        columnNames: ['centerId', 'status'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'absence_requests',
+      new TableIndex({
+        name: 'IDX_absence_requests_studentUserProfileId',
+        columnNames: ['studentUserProfileId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['requestedByUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['attachmentFileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'files',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['reviewedByUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_requests',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'absence_request_sessions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'absenceRequestId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'groupId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'startTime',
+            type: 'timestamptz',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'absence_request_sessions',
+      new TableIndex({
+        name: 'IDX_absence_request_sessions_absenceRequestId_groupId_startTime',
+        columnNames: ['absenceRequestId', 'groupId', 'startTime'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'absence_request_sessions',
+      new TableIndex({
+        name: 'IDX_absence_request_sessions_groupId_startTime',
+        columnNames: ['groupId', 'startTime'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'absence_request_sessions',
+      new TableForeignKey({
+        columnNames: ['absenceRequestId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'absence_requests',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_request_sessions',
+      new TableForeignKey({
+        columnNames: ['groupId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'groups',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_request_sessions',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'absence_request_sessions',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // Insert ATTENDANCE permissions if they don't exist
+    const permissions = [
+      { action: 'attendance:review-absence-requests', scope: 'CENTER' },
+    ];
+
+    for (const permission of permissions) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove ATTENDANCE permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN ('attendance:review-absence-requests');
+    `);
+
+    // Drop foreign keys
+    const sessionsTable = await queryRunner.getTable(
+      'absence_request_sessions',
+    );
+    if (sessionsTable) {
+      for (const fk of sessionsTable.foreignKeys) {
+        await queryRunner.dropForeignKey('absence_request_sessions', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'absence_request_sessions',
+      'IDX_absence_request_sessions_groupId_startTime',
+    );
+    await queryRunner.dropIndex(
+      'absence_request_sessions',
+      'IDX_absence_request_sessions_absenceRequestId_groupId_startTime',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('absence_request_sessions');
+
+    // Drop foreign keys
+    const requestsTable = await queryRunner.getTable('absence_requests');
+    if (requestsTable) {
+      for (const fk of requestsTable.foreignKeys) {
+        await queryRunner.dropForeignKey('absence_requests', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'absence_requests',
+      'IDX_absence_requests_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'absence_requests',
+      'IDX_absence_requests_centerId_status',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('absence_requests');
+  }
+}
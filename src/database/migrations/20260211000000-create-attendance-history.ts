@@ -0,0 +1,204 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateAttendanceHistory20260211000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'attendance_history',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'attendanceId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'sessionId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'previousStatus',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'newStatus',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'changedByUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'reason',
+            type: 'text',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'attendance_history',
+      new TableIndex({
+        name: 'IDX_attendance_history_attendanceId',
+        columnNames: ['attendanceId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'attendance_history',
+      new TableIndex({
+        name: 'IDX_attendance_history_sessionId',
+        columnNames: ['sessionId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'attendance_history',
+      new TableForeignKey({
+        columnNames: ['attendanceId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'attendance',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_history',
+      new TableForeignKey({
+        columnNames: ['sessionId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'sessions',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_history',
+      new TableForeignKey({
+        columnNames: ['changedByUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_history',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_history',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // Insert ATTENDANCE permissions if they don't exist
+    const permissions = [{ action: 'attendance:correct', scope: 'CENTER' }];
+
+    for (const permission of permissions) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove ATTENDANCE permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN ('attendance:correct');
+    `);
+
+    // Drop foreign keys
+    const table = await queryRunner.getTable('attendance_history');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('attendance_history', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'attendance_history',
+      'IDX_attendance_history_sessionId',
+    );
+    await queryRunner.dropIndex(
+      'attendance_history',
+      'IDX_attendance_history_attendanceId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('attendance_history');
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateAttendancePolicies20260212000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'attendance_policies',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'classId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'lateGraceMinutes',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'absentAfterMinutes',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'checkInCutoffMinutes',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'autoMarkAbsentOnFinish',
+            type: 'boolean',
+            isNullable: false,
+            default: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'attendance_policies',
+      new TableIndex({
+        name: 'IDX_attendance_policies_centerId',
+        columnNames: ['centerId'],
+        isUnique: true,
+        where: '"classId" IS NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'attendance_policies',
+      new TableIndex({
+        name: 'IDX_attendance_policies_classId',
+        columnNames: ['classId'],
+        isUnique: true,
+        where: '"classId" IS NOT NULL',
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'attendance_policies',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_policies',
+      new TableForeignKey({
+        columnNames: ['classId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'classes',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_policies',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_policies',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // Insert ATTENDANCE permissions if they don't exist
+    const permissions = [
+      { action: 'attendance:manage-policies', scope: 'CENTER' },
+    ];
+
+    for (const permission of permissions) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove ATTENDANCE permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN ('attendance:manage-policies');
+    `);
+
+    // Drop foreign keys
+    const table = await queryRunner.getTable('attendance_policies');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('attendance_policies', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'attendance_policies',
+      'IDX_attendance_policies_classId',
+    );
+    await queryRunner.dropIndex(
+      'attendance_policies',
+      'IDX_attendance_policies_centerId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('attendance_policies');
+  }
+}
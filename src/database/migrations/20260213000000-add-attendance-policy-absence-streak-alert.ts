@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddAttendancePolicyAbsenceStreakAlert20260213000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Consecutive absences that trigger the absence streak notification
+    await queryRunner.addColumn(
+      'attendance_policies',
+      new TableColumn({
+        name: 'absenceStreakAlertThreshold',
+        type: 'int',
+        isNullable: false,
+        default: 3,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn(
+      'attendance_policies',
+      'absenceStreakAlertThreshold',
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  TableColumn,
+  TableIndex,
+} from 'typeorm';
+
+export class AddAttendanceOfflineSyncFields20260214000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Device capture time of scans uploaded by offline sync
+    await queryRunner.addColumn(
+      'attendance',
+      new TableColumn({
+        name: 'capturedAt',
+        type: 'timestamptz',
+        isNullable: true,
+      }),
+    );
+
+    // Client-generated key so a re-uploaded scan is applied once
+    await queryRunner.addColumn(
+      'attendance',
+      new TableColumn({
+        name: 'idempotencyKey',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+    );
+
+    // Auto ABSENT rows an offline scan captured before the finish replaces
+    await queryRunner.addColumn(
+      'attendance',
+      new TableColumn({
+        name: 'autoMarkedAbsent',
+        type: 'boolean',
+        default: false,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'attendance',
+      new TableIndex({
+        name: 'IDX_attendance_idempotencyKey',
+        columnNames: ['idempotencyKey'],
+        isUnique: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex('attendance', 'IDX_attendance_idempotencyKey');
+    await queryRunner.dropColumn('attendance', 'autoMarkedAbsent');
+    await queryRunner.dropColumn('attendance', 'idempotencyKey');
+    await queryRunner.dropColumn('attendance', 'capturedAt');
+  }
+}
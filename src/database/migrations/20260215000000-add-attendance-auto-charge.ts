@@ -0,0 +1,191 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+  TableColumn,
+} from 'typeorm';
+
+export class AddAttendanceAutoCharge20260215000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Opt-in wallet charge of unpaid sessions when attendance is marked
+    await queryRunner.addColumn(
+      'attendance_policies',
+      new TableColumn({
+        name: 'autoChargeSessionFromWallet',
+        type: 'boolean',
+        isNullable: false,
+        default: false,
+      }),
+    );
+
+    // Last failed auto-charge per student and session, shown to staff
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'attendance_charge_failures',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'sessionId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'reason',
+            type: 'varchar',
+            length: '40',
+            isNullable: false,
+          },
+          {
+            name: 'errorCode',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'attendance_charge_failures',
+      new TableIndex({
+        name: 'IDX_attendance_charge_failures_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'attendance_charge_failures',
+      new TableIndex({
+        name: 'IDX_attendance_charge_failures_sessionId_studentUserProfileId',
+        columnNames: ['sessionId', 'studentUserProfileId'],
+        isUnique: true,
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'attendance_charge_failures',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_charge_failures',
+      new TableForeignKey({
+        columnNames: ['sessionId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'sessions',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_charge_failures',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_charge_failures',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'attendance_charge_failures',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const failuresTable = await queryRunner.getTable(
+      'attendance_charge_failures',
+    );
+    if (failuresTable) {
+      for (const fk of failuresTable.foreignKeys) {
+        await queryRunner.dropForeignKey('attendance_charge_failures', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'attendance_charge_failures',
+      'IDX_attendance_charge_failures_sessionId_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'attendance_charge_failures',
+      'IDX_attendance_charge_failures_centerId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('attendance_charge_failures');
+
+    await queryRunner.dropColumn(
+      'attendance_policies',
+      'autoChargeSessionFromWallet',
+    );
+  }
+}
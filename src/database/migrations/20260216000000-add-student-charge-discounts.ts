@@ -0,0 +1,337 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+  TableColumn,
+} from 'typeorm';
+
+export class AddStudentChargeDiscounts20260216000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Discount audit on charges: existing charges had no discounts
+    await queryRunner.addColumns('student_charges', [
+      new TableColumn({
+        name: 'originalAmount',
+        type: 'decimal',
+        precision: 10,
+        scale: 2,
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'discountAmount',
+        type: 'decimal',
+        precision: 10,
+        scale: 2,
+        isNullable: false,
+        default: 0,
+      }),
+      new TableColumn({
+        name: 'appliedDiscounts',
+        type: 'jsonb',
+        isNullable: false,
+        default: "'[]'",
+      }),
+    ]);
+    await queryRunner.query(
+      `UPDATE student_charges SET "originalAmount" = amount`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE student_charges ALTER COLUMN "originalAmount" SET NOT NULL`,
+    );
+
+    // Center-defined discount rules
+    await queryRunner.createTable(
+      new Table({
+        name: 'discount_rules',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'kind',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'valueType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'value',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'chargeTypes',
+            type: 'jsonb',
+            isNullable: false,
+          },
+          {
+            name: 'classId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'minSiblings',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'promoCode',
+            type: 'varchar',
+            length: '50',
+            isNullable: true,
+          },
+          {
+            name: 'maxUses',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'usedCount',
+            type: 'int',
+            isNullable: false,
+            default: 0,
+          },
+          {
+            name: 'startsAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'expiresAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'isActive',
+            type: 'boolean',
+            isNullable: false,
+            default: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'deletedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'deletedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'discount_rules',
+      new TableIndex({
+        name: 'IDX_discount_rules_centerId_kind',
+        columnNames: ['centerId', 'kind'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'discount_rules',
+      new TableIndex({
+        name: 'IDX_discount_rules_studentUserProfileId',
+        columnNames: ['studentUserProfileId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'discount_rules',
+      new TableIndex({
+        name: 'IDX_discount_rules_centerId_promoCode',
+        columnNames: ['centerId', 'promoCode'],
+        isUnique: true,
+        where: '"deletedAt" IS NULL AND "promoCode" IS NOT NULL',
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'discount_rules',
+      new TableIndex({
+        name: 'IDX_discount_rules_createdAt',
+        columnNames: ['createdAt'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'discount_rules',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'discount_rules',
+      new TableForeignKey({
+        columnNames: ['classId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'classes',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'discount_rules',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'discount_rules',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'discount_rules',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'discount_rules',
+      new TableForeignKey({
+        columnNames: ['deletedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    // Insert STUDENT_BILLING permissions if they don't exist
+    const permissions = [
+      { action: 'student-billing:manage-discounts', scope: 'CENTER' },
+    ];
+
+    for (const permission of permissions) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove STUDENT_BILLING permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN ('student-billing:manage-discounts');
+    `);
+
+    // Drop foreign keys
+    const table = await queryRunner.getTable('discount_rules');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('discount_rules', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'discount_rules',
+      'IDX_discount_rules_createdAt',
+    );
+    await queryRunner.dropIndex(
+      'discount_rules',
+      'IDX_discount_rules_centerId_promoCode',
+    );
+    await queryRunner.dropIndex(
+      'discount_rules',
+      'IDX_discount_rules_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'discount_rules',
+      'IDX_discount_rules_centerId_kind',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('discount_rules');
+
+    await queryRunner.dropColumns('student_charges', [
+      'appliedDiscounts',
+      'discountAmount',
+      'originalAmount',
+    ]);
+  }
+}
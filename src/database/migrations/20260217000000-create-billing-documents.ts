@@ -0,0 +1,315 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateBillingDocuments20260217000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'billing_documents',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentChargeId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'paymentId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'documentType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'documentNumber',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'issuedAt',
+            type: 'timestamptz',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'billing_documents',
+      new TableIndex({
+        name: 'IDX_billing_documents_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'billing_documents',
+      new TableIndex({
+        name: 'IDX_billing_documents_studentChargeId',
+        columnNames: ['studentChargeId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'billing_documents',
+      new TableIndex({
+        name: 'IDX_billing_documents_studentUserProfileId',
+        columnNames: ['studentUserProfileId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'billing_documents',
+      new TableIndex({
+        name: 'IDX_billing_documents_branchId_documentNumber',
+        columnNames: ['branchId', 'documentNumber'],
+        isUnique: true,
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['branchId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'branches',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['studentChargeId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'student_charges',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['paymentId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'payments',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_documents',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'billing_document_counters',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'documentType',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'yearYY',
+            type: 'varchar',
+            length: '2',
+            isNullable: false,
+          },
+          {
+            name: 'currentValue',
+            type: 'int',
+            isNullable: false,
+            default: 0,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'billing_document_counters',
+      new TableIndex({
+        name: 'IDX_billing_document_counters_branchId_documentType_yearYY',
+        columnNames: ['branchId', 'documentType', 'yearYY'],
+        isUnique: true,
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'billing_document_counters',
+      new TableForeignKey({
+        columnNames: ['branchId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'branches',
+        onDelete: 'CASCADE',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const countersTable = await queryRunner.getTable(
+      'billing_document_counters',
+    );
+    if (countersTable) {
+      for (const fk of countersTable.foreignKeys) {
+        await queryRunner.dropForeignKey('billing_document_counters', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'billing_document_counters',
+      'IDX_billing_document_counters_branchId_documentType_yearYY',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('billing_document_counters');
+
+    // Drop foreign keys
+    const table = await queryRunner.getTable('billing_documents');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('billing_documents', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'billing_documents',
+      'IDX_billing_documents_branchId_documentNumber',
+    );
+    await queryRunner.dropIndex(
+      'billing_documents',
+      'IDX_billing_documents_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'billing_documents',
+      'IDX_billing_documents_studentChargeId',
+    );
+    await queryRunner.dropIndex(
+      'billing_documents',
+      'IDX_billing_documents_centerId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('billing_documents');
+  }
+}
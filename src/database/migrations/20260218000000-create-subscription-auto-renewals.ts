@@ -0,0 +1,227 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateSubscriptionAutoRenewals20260218000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'subscription_auto_renewals',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'classId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'isActive',
+            type: 'boolean',
+            isNullable: false,
+            default: true,
+          },
+          {
+            name: 'periodMonth',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'periodYear',
+            type: 'int',
+            isNullable: true,
+          },
+          {
+            name: 'failedAttempts',
+            type: 'int',
+            isNullable: false,
+            default: 0,
+          },
+          {
+            name: 'lastFailureReason',
+            type: 'varchar',
+            length: '40',
+            isNullable: true,
+          },
+          {
+            name: 'lastErrorCode',
+            type: 'varchar',
+            length: '20',
+            isNullable: true,
+          },
+          {
+            name: 'lastAttemptAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'lastRenewedChargeId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'subscription_auto_renewals',
+      new TableIndex({
+        name: 'IDX_subscription_auto_renewals_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'subscription_auto_renewals',
+      new TableIndex({
+        name: 'IDX_subscription_auto_renewals_studentUserProfileId_classId',
+        columnNames: ['studentUserProfileId', 'classId'],
+        isUnique: true,
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['branchId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'branches',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['classId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'classes',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['lastRenewedChargeId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'student_charges',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'subscription_auto_renewals',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const table = await queryRunner.getTable('subscription_auto_renewals');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('subscription_auto_renewals', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'subscription_auto_renewals',
+      'IDX_subscription_auto_renewals_studentUserProfileId_classId',
+    );
+    await queryRunner.dropIndex(
+      'subscription_auto_renewals',
+      'IDX_subscription_auto_renewals_centerId',
+    );
+
+    // Drop table
+    await queryRunner.dropTable('subscription_auto_renewals');
+  }
+}
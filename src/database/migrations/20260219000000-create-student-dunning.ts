@@ -0,0 +1,284 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateStudentDunning20260219000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'dunning_schedules',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'isEnabled',
+            type: 'boolean',
+            isNullable: false,
+            default: false,
+          },
+          {
+            name: 'steps',
+            type: 'jsonb',
+            isNullable: false,
+            default: "'[]'",
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'student_charge_reminders',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentChargeId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'afterDays',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'level',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'remainingAmount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'dunning_schedules',
+      new TableIndex({
+        name: 'IDX_dunning_schedules_centerId',
+        columnNames: ['centerId'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'student_charge_reminders',
+      new TableIndex({
+        name: 'IDX_student_charge_reminders_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'student_charge_reminders',
+      new TableIndex({
+        name: 'IDX_student_charge_reminders_studentChargeId_afterDays',
+        columnNames: ['studentChargeId', 'afterDays'],
+        isUnique: true,
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'dunning_schedules',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_reminders',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_reminders',
+      new TableForeignKey({
+        columnNames: ['studentChargeId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'student_charges',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_reminders',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    for (const tableName of ['dunning_schedules', 'student_charge_reminders']) {
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['createdByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'RESTRICT',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['updatedByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+
+    // Insert STUDENT_BILLING permissions if they don't exist
+    const permissions = [
+      { action: 'student-billing:manage-dunning', scope: 'CENTER' },
+    ];
+
+    for (const permission of permissions) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove STUDENT_BILLING permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN ('student-billing:manage-dunning');
+    `);
+
+    // Drop foreign keys
+    for (const tableName of ['student_charge_reminders', 'dunning_schedules']) {
+      const table = await queryRunner.getTable(tableName);
+      if (table) {
+        for (const fk of table.foreignKeys) {
+          await queryRunner.dropForeignKey(tableName, fk);
+        }
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'student_charge_reminders',
+      'IDX_student_charge_reminders_studentChargeId_afterDays',
+    );
+    await queryRunner.dropIndex(
+      'student_charge_reminders',
+      'IDX_student_charge_reminders_centerId',
+    );
+    await queryRunner.dropIndex(
+      'dunning_schedules',
+      'IDX_dunning_schedules_centerId',
+    );
+
+    // Drop tables
+    await queryRunner.dropTable('student_charge_reminders');
+    await queryRunner.dropTable('dunning_schedules');
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddStudentChargePartialRefunds20260220000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Refunded totals on charges: refunds so far were all-or-nothing
+    await queryRunner.addColumn(
+      'student_charges',
+      new TableColumn({
+        name: 'totalRefunded',
+        type: 'decimal',
+        precision: 10,
+        scale: 2,
+        isNullable: false,
+        default: 0,
+      }),
+    );
+    await queryRunner.query(
+      `UPDATE student_charges SET "totalRefunded" = "totalPaid" WHERE status = 'REFUNDED'`,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'student_charge_refunds',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentChargeId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'destination',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+          },
+          {
+            name: 'reason',
+            type: 'text',
+            isNullable: true,
+          },
+          {
+            name: 'paymentId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'gatewayRefundId',
+            type: 'varchar',
+            length: '255',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'student_charge_refunds',
+      new TableIndex({
+        name: 'IDX_student_charge_refunds_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'student_charge_refunds',
+      new TableIndex({
+        name: 'IDX_student_charge_refunds_studentChargeId',
+        columnNames: ['studentChargeId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['branchId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'branches',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['studentChargeId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'student_charges',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['paymentId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'payments',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_refunds',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const table = await queryRunner.getTable('student_charge_refunds');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('student_charge_refunds', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'student_charge_refunds',
+      'IDX_student_charge_refunds_studentChargeId',
+    );
+    await queryRunner.dropIndex(
+      'student_charge_refunds',
+      'IDX_student_charge_refunds_centerId',
+    );
+
+    // Drop table and column
+    await queryRunner.dropTable('student_charge_refunds');
+    await queryRunner.dropColumn('student_charges', 'totalRefunded');
+  }
+}
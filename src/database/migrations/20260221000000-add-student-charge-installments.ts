@@ -0,0 +1,222 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddStudentChargeInstallments20260221000000
+  implements MigrationInterface
+{
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Installment plans on student payment strategies
+    await queryRunner.addColumns('student_payment_strategies', [
+      new TableColumn({
+        name: 'installmentPlan',
+        type: 'jsonb',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'installmentGraceDays',
+        type: 'int',
+        isNullable: false,
+        default: 0,
+      }),
+      new TableColumn({
+        name: 'blockAttendanceWhenOverdue',
+        type: 'boolean',
+        isNullable: false,
+        default: false,
+      }),
+    ]);
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'student_charge_installments',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentChargeId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'sequence',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'paidAmount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+            default: 0,
+          },
+          {
+            name: 'dueDate',
+            type: 'date',
+            isNullable: false,
+          },
+          {
+            name: 'status',
+            type: 'varchar',
+            length: '20',
+            isNullable: false,
+            default: "'PENDING'",
+          },
+          {
+            name: 'paidAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'student_charge_installments',
+      new TableIndex({
+        name: 'IDX_student_charge_installments_centerId_status',
+        columnNames: ['centerId', 'status'],
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'student_charge_installments',
+      new TableIndex({
+        name: 'IDX_student_charge_installments_studentChargeId_sequence',
+        columnNames: ['studentChargeId', 'sequence'],
+        isUnique: true,
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'student_charge_installments',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_installments',
+      new TableForeignKey({
+        columnNames: ['studentChargeId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'student_charges',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_installments',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_installments',
+      new TableForeignKey({
+        columnNames: ['createdByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'RESTRICT',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'student_charge_installments',
+      new TableForeignKey({
+        columnNames: ['updatedByProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop foreign keys
+    const table = await queryRunner.getTable('student_charge_installments');
+    if (table) {
+      for (const fk of table.foreignKeys) {
+        await queryRunner.dropForeignKey('student_charge_installments', fk);
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'student_charge_installments',
+      'IDX_student_charge_installments_studentChargeId_sequence',
+    );
+    await queryRunner.dropIndex(
+      'student_charge_installments',
+      'IDX_student_charge_installments_centerId_status',
+    );
+
+    // Drop table and columns
+    await queryRunner.dropTable('student_charge_installments');
+    await queryRunner.dropColumns('student_payment_strategies', [
+      'installmentPlan',
+      'installmentGraceDays',
+      'blockAttendanceWhenOverdue',
+    ]);
+  }
+}
@@ -0,0 +1,281 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class CreateBillingAccounts20260222000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'billing_accounts',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'name',
+            type: 'varchar',
+            length: '255',
+            isNullable: false,
+          },
+          {
+            name: 'payerUserProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+          {
+            name: 'payMemberCharges',
+            type: 'boolean',
+            isNullable: false,
+            default: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'billing_account_members',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'billingAccountId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'studentUserProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    await queryRunner.createIndex(
+      'billing_accounts',
+      new TableIndex({
+        name: 'IDX_billing_accounts_centerId',
+        columnNames: ['centerId'],
+      }),
+    );
+
+    // A student belongs to at most one billing account per center
+    await queryRunner.createIndex(
+      'billing_account_members',
+      new TableIndex({
+        name: 'IDX_billing_account_members_centerId_studentUserProfileId',
+        columnNames: ['centerId', 'studentUserProfileId'],
+        isUnique: true,
+      }),
+    );
+
+    await queryRunner.createIndex(
+      'billing_account_members',
+      new TableIndex({
+        name: 'IDX_billing_account_members_billingAccountId',
+        columnNames: ['billingAccountId'],
+      }),
+    );
+
+    // Create foreign keys
+    await queryRunner.createForeignKey(
+      'billing_accounts',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_accounts',
+      new TableForeignKey({
+        columnNames: ['payerUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_account_members',
+      new TableForeignKey({
+        columnNames: ['centerId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'centers',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_account_members',
+      new TableForeignKey({
+        columnNames: ['billingAccountId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'billing_accounts',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    await queryRunner.createForeignKey(
+      'billing_account_members',
+      new TableForeignKey({
+        columnNames: ['studentUserProfileId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'user_profiles',
+        onDelete: 'CASCADE',
+      }),
+    );
+
+    for (const tableName of ['billing_accounts', 'billing_account_members']) {
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['createdByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'RESTRICT',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['updatedByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+
+    // Insert STUDENT_BILLING permissions if they don't exist
+    const permissions = [
+      { action: 'student-billing:manage-billing-accounts', scope: 'CENTER' },
+    ];
+
+    for (const permission of permissions) {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const existing = await queryRunner.query(
+        `SELECT id FROM permissions WHERE action = $1`,
+        [permission.action],
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      if (existing.length === 0) {
+        await queryRunner.query(
+          `INSERT INTO permissions (action, scope, "createdAt") VALUES ($1, $2, NOW())`,
+          [permission.action, permission.scope],
+        );
+      }
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Remove STUDENT_BILLING permissions
+    await queryRunner.query(`
+      DELETE FROM permissions
+      WHERE action IN ('student-billing:manage-billing-accounts');
+    `);
+
+    // Drop foreign keys
+    for (const tableName of ['billing_account_members', 'billing_accounts']) {
+      const table = await queryRunner.getTable(tableName);
+      if (table) {
+        for (const fk of table.foreignKeys) {
+          await queryRunner.dropForeignKey(tableName, fk);
+        }
+      }
+    }
+
+    // Drop indexes
+    await queryRunner.dropIndex(
+      'billing_account_members',
+      'IDX_billing_account_members_billingAccountId',
+    );
+    await queryRunner.dropIndex(
+      'billing_account_members',
+      'IDX_billing_account_members_centerId_studentUserProfileId',
+    );
+    await queryRunner.dropIndex(
+      'billing_accounts',
+      'IDX_billing_accounts_centerId',
+    );
+
+    // Drop tables
+    await queryRunner.dropTable('billing_account_members');
+    await queryRunner.dropTable('billing_accounts');
+  }
+}
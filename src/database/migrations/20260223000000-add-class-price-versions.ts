@@ -0,0 +1,374 @@
+import {
+  MigrationInterface,
+  QueryRunner,
+  Table,
+  TableColumn,
+  TableForeignKey,
+  TableIndex,
+} from 'typeorm';
+
+export class AddClassPriceVersions20260223000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: 'student_price_versions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'classId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'versionNumber',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'effectiveFrom',
+            type: 'date',
+            isNullable: false,
+          },
+          {
+            name: 'sessionPrice',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: true,
+          },
+          {
+            name: 'monthPrice',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: true,
+          },
+          {
+            name: 'classPrice',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: true,
+          },
+          {
+            name: 'grandfatherExistingStudents',
+            type: 'boolean',
+            isNullable: false,
+            default: false,
+          },
+          {
+            name: 'appliedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: 'teacher_price_versions',
+        columns: [
+          {
+            name: 'id',
+            type: 'uuid',
+            isPrimary: true,
+            generationStrategy: 'uuid',
+            default: 'uuid_generate_v4()',
+          },
+          {
+            name: 'classId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'centerId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'branchId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'versionNumber',
+            type: 'int',
+            isNullable: false,
+          },
+          {
+            name: 'effectiveFrom',
+            type: 'date',
+            isNullable: false,
+          },
+          {
+            name: 'per',
+            type: 'enum',
+            enum: ['student', 'hour', 'session', 'month', 'class'],
+            isNullable: false,
+          },
+          {
+            name: 'amount',
+            type: 'decimal',
+            precision: 10,
+            scale: 2,
+            isNullable: false,
+          },
+          {
+            name: 'appliedAt',
+            type: 'timestamptz',
+            isNullable: true,
+          },
+          {
+            name: 'createdAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'updatedAt',
+            type: 'timestamptz',
+            isNullable: false,
+            default: 'CURRENT_TIMESTAMP',
+          },
+          {
+            name: 'createdByProfileId',
+            type: 'uuid',
+            isNullable: false,
+          },
+          {
+            name: 'updatedByProfileId',
+            type: 'uuid',
+            isNullable: true,
+          },
+        ],
+      }),
+      true,
+    );
+
+    // Create indexes
+    for (const tableName of [
+      'student_price_versions',
+      'teacher_price_versions',
+    ]) {
+      await queryRunner.createIndex(
+        tableName,
+        new TableIndex({
+          name: `IDX_${tableName}_classId_versionNumber`,
+          columnNames: ['classId', 'versionNumber'],
+          isUnique: true,
+        }),
+      );
+
+      await queryRunner.createIndex(
+        tableName,
+        new TableIndex({
+          name: `IDX_${tableName}_classId_effectiveFrom`,
+          columnNames: ['classId', 'effectiveFrom'],
+        }),
+      );
+    }
+
+    // Create foreign keys
+    for (const tableName of [
+      'student_price_versions',
+      'teacher_price_versions',
+    ]) {
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['classId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'classes',
+          onDelete: 'CASCADE',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['centerId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'centers',
+          onDelete: 'CASCADE',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['branchId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'branches',
+          onDelete: 'CASCADE',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['createdByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'RESTRICT',
+        }),
+      );
+
+      await queryRunner.createForeignKey(
+        tableName,
+        new TableForeignKey({
+          columnNames: ['updatedByProfileId'],
+          referencedColumnNames: ['id'],
+          referencedTableName: 'user_profiles',
+          onDelete: 'SET NULL',
+        }),
+      );
+    }
+
+    // Current prices of existing classes become their first version
+    await queryRunner.query(`
+      INSERT INTO student_price_versions
+        ("classId", "centerId", "branchId", "versionNumber", "effectiveFrom",
+         "sessionPrice", "monthPrice", "classPrice", "appliedAt",
+         "createdByProfileId")
+      SELECT strategy."classId", strategy."centerId", strategy."branchId", 1,
+        (strategy."createdAt" AT TIME ZONE center.timezone)::date,
+        CASE WHEN strategy."includeSession" THEN strategy."sessionPrice" END,
+        CASE WHEN strategy."includeMonth" THEN strategy."monthPrice" END,
+        CASE WHEN strategy."includeClass" THEN strategy."classPrice" END,
+        strategy."updatedAt", strategy."createdByProfileId"
+      FROM student_payment_strategies strategy
+      INNER JOIN centers center ON center.id = strategy."centerId"
+    `);
+    await queryRunner.query(`
+      INSERT INTO teacher_price_versions
+        ("classId", "centerId", "branchId", "versionNumber", "effectiveFrom",
+         per, amount, "appliedAt", "createdByProfileId")
+      SELECT strategy."classId", strategy."centerId", strategy."branchId", 1,
+        (strategy."createdAt" AT TIME ZONE center.timezone)::date,
+        strategy.per::text::teacher_price_versions_per_enum, strategy.amount,
+        strategy."updatedAt", strategy."createdByProfileId"
+      FROM teacher_payment_strategies strategy
+      INNER JOIN centers center ON center.id = strategy."centerId"
+    `);
+
+    // Charges and payouts reference the version they were priced with
+    await queryRunner.addColumn(
+      'student_charges',
+      new TableColumn({
+        name: 'studentPriceVersionId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.createForeignKey(
+      'student_charges',
+      new TableForeignKey({
+        columnNames: ['studentPriceVersionId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'student_price_versions',
+        onDelete: 'SET NULL',
+      }),
+    );
+
+    await queryRunner.addColumn(
+      'teacher_payout_records',
+      new TableColumn({
+        name: 'teacherPriceVersionId',
+        type: 'uuid',
+        isNullable: true,
+      }),
+    );
+    await queryRunner.createForeignKey(
+      'teacher_payout_records',
+      new TableForeignKey({
+        columnNames: ['teacherPriceVersionId'],
+        referencedColumnNames: ['id'],
+        referencedTableName: 'teacher_price_versions',
+        onDelete: 'SET NULL',
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Drop version references from charges and payouts
+    for (const [tableName, columnName] of [
+      ['student_charges', 'studentPriceVersionId'],
+      ['teacher_payout_records', 'teacherPriceVersionId'],
+    ]) {
+      const table = await queryRunner.getTable(tableName);
+      const fk = table?.foreignKeys.find((foreignKey) =>
+        foreignKey.columnNames.includes(columnName),
+      );
+      if (fk) {
+        await queryRunner.dropForeignKey(tableName, fk);
+      }
+      await queryRunner.dropColumn(tableName, columnName);
+    }
+
+    for (const tableName of [
+      'teacher_price_versions',
+      'student_price_versions',
+    ]) {
+      // Drop foreign keys
+      const table = await queryRunner.getTable(tableName);
+      if (table) {
+        for (const fk of table.foreignKeys) {
+          await queryRunner.dropForeignKey(tableName, fk);
+        }
+      }
+
+      // Drop indexes
+      await queryRunner.dropIndex(
+        tableName,
+        `IDX_${tableName}_classId_effectiveFrom`,
+      );
+      await queryRunner.dropIndex(
+        tableName,
+        `IDX_${tableName}_classId_versionNumber`,
+      );
+
+      // Drop table
+      await queryRunner.dropTable(tableName);
+    }
+  }
+}
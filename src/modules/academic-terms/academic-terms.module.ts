@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AcademicTerm } from './entities/academic-term.entity';
+import { AcademicTermsService } from './services/academic-terms.service';
+import { AcademicTermsRepository } from './repositories/academic-terms.repository';
+import { AcademicTermsController } from './controllers/academic-terms.controller';
+import { AccessControlModule } from '@/modules/access-control/access-control.module';
+import { SharedModule } from '@/shared/shared.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([AcademicTerm]),
+    AccessControlModule,
+    SharedModule,
+  ],
+  controllers: [AcademicTermsController],
+  providers: [AcademicTermsService, AcademicTermsRepository],
+  exports: [AcademicTermsService, AcademicTermsRepository],
+})
+export class AcademicTermsModule {}
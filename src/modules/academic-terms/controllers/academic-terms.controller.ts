@@ -0,0 +1,148 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { AcademicTermsService } from '../services/academic-terms.service';
+import { CreateAcademicTermDto } from '../dto/create-academic-term.dto';
+import { UpdateAcademicTermDto } from '../dto/update-academic-term.dto';
+import { PaginateAcademicTermsDto } from '../dto/paginate-academic-terms.dto';
+import { AcademicTermResponseDto } from '../dto/academic-term-response.dto';
+import { AcademicTermIdParamDto } from '../dto/academic-term-id-param.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Academic Terms')
+@Controller('academic-terms')
+@ManagerialOnly()
+export class AcademicTermsController {
+  constructor(private readonly academicTermsService: AcademicTermsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get all academic terms for a center with pagination',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Academic terms retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.ACADEMIC_TERMS.READ)
+  @SerializeOptions({ type: AcademicTermResponseDto })
+  async paginateAcademicTerms(
+    @Query() paginateDto: PaginateAcademicTermsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.academicTermsService.paginateAcademicTerms(
+      paginateDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':termId')
+  @ApiOperation({ summary: 'Get a specific academic term' })
+  @ApiParam({ name: 'termId', description: 'Academic term ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Academic term retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Academic term not found',
+  })
+  @Permissions(PERMISSIONS.ACADEMIC_TERMS.READ)
+  @SerializeOptions({ type: AcademicTermResponseDto })
+  async getAcademicTerm(
+    @Param() params: AcademicTermIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.academicTermsService.getAcademicTerm(
+      params.termId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new academic term' })
+  @ApiResponse({
+    status: 201,
+    description: 'Academic term created successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+  })
+  @Permissions(PERMISSIONS.ACADEMIC_TERMS.CREATE)
+  @Transactional()
+  @SerializeOptions({ type: AcademicTermResponseDto })
+  async createAcademicTerm(
+    @Body() dto: CreateAcademicTermDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.academicTermsService.createAcademicTerm(
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Put(':termId')
+  @ApiOperation({ summary: 'Update an academic term' })
+  @ApiParam({ name: 'termId', description: 'Academic term ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Academic term updated successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Academic term not found',
+  })
+  @Permissions(PERMISSIONS.ACADEMIC_TERMS.UPDATE)
+  @Transactional()
+  @SerializeOptions({ type: AcademicTermResponseDto })
+  async updateAcademicTerm(
+    @Param() params: AcademicTermIdParamDto,
+    @Body() dto: UpdateAcademicTermDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.academicTermsService.updateAcademicTerm(
+      params.termId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':termId')
+  @ApiOperation({ summary: 'Delete an academic term' })
+  @ApiParam({ name: 'termId', description: 'Academic term ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Academic term deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Academic term not found',
+  })
+  @Permissions(PERMISSIONS.ACADEMIC_TERMS.DELETE)
+  @Transactional()
+  async deleteAcademicTerm(
+    @Param() params: AcademicTermIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.academicTermsService.deleteAcademicTerm(params.termId, actor);
+    return ControllerResponse.success(null);
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { AcademicTerm } from '../entities/academic-term.entity';
+
+export class AcademicTermIdParamDto {
+  @ApiProperty({
+    description: 'Academic term ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(AcademicTerm)
+  termId: string;
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { AcademicTermStatus } from '../enums/academic-term-status.enum';
+
+export class AcademicTermResponseDto {
+  @ApiProperty({ description: 'Academic term ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Center ID' })
+  @Expose()
+  centerId: string;
+
+  @ApiProperty({ description: 'Term name' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Term start date' })
+  @Expose()
+  startDate: Date;
+
+  @ApiProperty({ description: 'Term end date' })
+  @Expose()
+  endDate: Date;
+
+  @ApiProperty({ description: 'Term status', enum: AcademicTermStatus })
+  @Expose()
+  status: AcademicTermStatus;
+
+  @ApiProperty({ description: 'Created at timestamp' })
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Updated at timestamp' })
+  @Expose()
+  updatedAt: Date;
+}
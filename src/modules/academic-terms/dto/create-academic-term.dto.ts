@@ -0,0 +1,43 @@
+import { IsString, MaxLength, IsOptional, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { IsoUtcDate } from '@/shared/common/decorators/is-iso-datetime.decorator';
+import { AcademicTermStatus } from '../enums/academic-term-status.enum';
+
+export class CreateAcademicTermDto {
+  @ApiProperty({
+    description: 'Name of the academic term',
+    example: '2025/2026 - Term 1',
+    maxLength: 255,
+  })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description:
+      'Term start date (ISO 8601 format with timezone, e.g., 2025-09-01T00:00:00+02:00)',
+    example: '2025-09-01T00:00:00+02:00',
+    type: Date,
+  })
+  @IsoUtcDate()
+  startDate: Date;
+
+  @ApiProperty({
+    description:
+      'Term end date (ISO 8601 format with timezone, e.g., 2026-01-31T23:59:59+02:00)',
+    example: '2026-01-31T23:59:59+02:00',
+    type: Date,
+  })
+  @IsoUtcDate()
+  endDate: Date;
+
+  @ApiProperty({
+    description: 'Term status',
+    enum: AcademicTermStatus,
+    required: false,
+    default: AcademicTermStatus.PLANNED,
+  })
+  @IsOptional()
+  @IsEnum(AcademicTermStatus)
+  status?: AcademicTermStatus;
+}
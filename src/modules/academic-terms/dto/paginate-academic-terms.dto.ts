@@ -0,0 +1,15 @@
+import { IsOptional, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+import { AcademicTermStatus } from '../enums/academic-term-status.enum';
+
+export class PaginateAcademicTermsDto extends BasePaginationDto {
+  @ApiProperty({
+    description: 'Filter by term status',
+    enum: AcademicTermStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AcademicTermStatus)
+  status?: AcademicTermStatus;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  OneToMany,
+} from 'typeorm';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { Class } from '@/modules/classes/entities/class.entity';
+import { SoftBaseEntity } from '@/shared/common/entities/soft-base.entity';
+import { AcademicTermStatus } from '../enums/academic-term-status.enum';
+
+@Entity('academic_terms')
+@Index(['centerId'])
+@Index(['centerId', 'status'])
+@Index(['name', 'centerId'], { where: '"deletedAt" IS NULL', unique: true })
+@Index(['startDate', 'createdAt']) // For chronological sorting
+export class AcademicTerm extends SoftBaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'timestamptz' })
+  startDate: Date;
+
+  @Column({ type: 'timestamptz' })
+  endDate: Date;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: AcademicTermStatus.PLANNED,
+  })
+  status: AcademicTermStatus;
+
+  // Relations
+  @ManyToOne(() => Center, (center) => center.academicTerms, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @OneToMany(() => Class, (classEntity) => classEntity.term)
+  classes: Class[];
+}
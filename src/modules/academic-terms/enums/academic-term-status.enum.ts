@@ -0,0 +1,5 @@
+export enum AcademicTermStatus {
+  PLANNED = 'PLANNED', // Upcoming term, classes can be prepared
+  ACTIVE = 'ACTIVE', // Current term
+  CLOSED = 'CLOSED', // Finished term, no new classes
+}
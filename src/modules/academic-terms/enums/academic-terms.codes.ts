@@ -0,0 +1,12 @@
+/**
+ * Academic term-related error codes (TRM_xxx)
+ * Range: TRM_001 - TRM_049
+ */
+export enum AcademicTermErrorCode {
+  ACADEMIC_TERM_NOT_FOUND = 'TRM_001',
+  ACADEMIC_TERM_NAME_ALREADY_EXISTS = 'TRM_002',
+  ACADEMIC_TERM_INVALID_DATE_RANGE = 'TRM_003',
+  ACADEMIC_TERM_CLOSED = 'TRM_004',
+  ACADEMIC_TERM_HAS_CLASSES = 'TRM_005',
+  ACADEMIC_TERM_ROLLOVER_SAME_TERM = 'TRM_006',
+}
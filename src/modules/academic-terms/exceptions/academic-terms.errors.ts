@@ -0,0 +1,43 @@
+import {
+  DomainException,
+  BaseErrorHelpers,
+} from '@/shared/common/exceptions/domain.exception';
+import { AcademicTermErrorCode } from '../enums/academic-terms.codes';
+
+/**
+ * Academic term module error helpers
+ * Clean, simple, and maintainable error creation
+ */
+export class AcademicTermsErrors extends BaseErrorHelpers {
+  static academicTermNotFound(): DomainException {
+    return this.createNoDetails(AcademicTermErrorCode.ACADEMIC_TERM_NOT_FOUND);
+  }
+
+  static academicTermNameAlreadyExists(): DomainException {
+    return this.createNoDetails(
+      AcademicTermErrorCode.ACADEMIC_TERM_NAME_ALREADY_EXISTS,
+    );
+  }
+
+  static academicTermInvalidDateRange(): DomainException {
+    return this.createNoDetails(
+      AcademicTermErrorCode.ACADEMIC_TERM_INVALID_DATE_RANGE,
+    );
+  }
+
+  static academicTermClosed(): DomainException {
+    return this.createNoDetails(AcademicTermErrorCode.ACADEMIC_TERM_CLOSED);
+  }
+
+  static academicTermHasClasses(): DomainException {
+    return this.createNoDetails(
+      AcademicTermErrorCode.ACADEMIC_TERM_HAS_CLASSES,
+    );
+  }
+
+  static academicTermRolloverSameTerm(): DomainException {
+    return this.createNoDetails(
+      AcademicTermErrorCode.ACADEMIC_TERM_ROLLOVER_SAME_TERM,
+    );
+  }
+}
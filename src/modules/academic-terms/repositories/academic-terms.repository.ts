@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { AcademicTerm } from '../entities/academic-term.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { PaginateAcademicTermsDto } from '../dto/paginate-academic-terms.dto';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { ACADEMIC_TERM_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
+import { Class } from '@/modules/classes/entities/class.entity';
+
+@Injectable()
+export class AcademicTermsRepository extends BaseRepository<AcademicTerm> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof AcademicTerm {
+    return AcademicTerm;
+  }
+
+  async paginateAcademicTerms(
+    paginateDto: PaginateAcademicTermsDto,
+    centerId: string,
+  ): Promise<Pagination<AcademicTerm>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('term')
+      .where('term.centerId = :centerId', { centerId });
+
+    if (paginateDto.status) {
+      queryBuilder.andWhere('term.status = :status', {
+        status: paginateDto.status,
+      });
+    }
+
+    return this.paginate(
+      paginateDto,
+      ACADEMIC_TERM_PAGINATION_COLUMNS,
+      'academic-terms',
+      queryBuilder,
+    );
+  }
+
+  async findByCenterAndName(
+    centerId: string,
+    name: string,
+  ): Promise<AcademicTerm | null> {
+    return this.getRepository().findOne({
+      where: { centerId, name },
+    });
+  }
+
+  /**
+   * Count classes (including soft-deleted) that still reference the term
+   */
+  async countClassesInTerm(termId: string): Promise<number> {
+    return this.getEntityManager().count(Class, {
+      where: { termId },
+      withDeleted: true,
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { AcademicTermsRepository } from '../repositories/academic-terms.repository';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { AcademicTermsErrors } from '../exceptions/academic-terms.errors';
+import { CreateAcademicTermDto } from '../dto/create-academic-term.dto';
+import { UpdateAcademicTermDto } from '../dto/update-academic-term.dto';
+import { PaginateAcademicTermsDto } from '../dto/paginate-academic-terms.dto';
+import { AcademicTerm } from '../entities/academic-term.entity';
+import { AcademicTermStatus } from '../enums/academic-term-status.enum';
+
+@Injectable()
+export class AcademicTermsService extends BaseService {
+  constructor(
+    private readonly academicTermsRepository: AcademicTermsRepository,
+  ) {
+    super();
+  }
+
+  async paginateAcademicTerms(
+    paginateDto: PaginateAcademicTermsDto,
+    actor: ActorUser,
+  ): Promise<Pagination<AcademicTerm>> {
+    return this.academicTermsRepository.paginateAcademicTerms(
+      paginateDto,
+      actor.centerId!,
+    );
+  }
+
+  async getAcademicTerm(
+    termId: string,
+    actor: ActorUser,
+  ): Promise<AcademicTerm> {
+    const term = await this.academicTermsRepository.findOne(termId);
+    if (!term || term.centerId !== actor.centerId) {
+      throw AcademicTermsErrors.academicTermNotFound();
+    }
+
+    return term;
+  }
+
+  async createAcademicTerm(
+    dto: CreateAcademicTermDto,
+    actor: ActorUser,
+  ): Promise<AcademicTerm> {
+    this.validateDateRange(dto.startDate, dto.endDate);
+    await this.ensureNameAvailable(actor.centerId!, dto.name);
+
+    return this.academicTermsRepository.create({
+      ...dto,
+      status: dto.status ?? AcademicTermStatus.PLANNED,
+      centerId: actor.centerId!,
+    });
+  }
+
+  async updateAcademicTerm(
+    termId: string,
+    dto: UpdateAcademicTermDto,
+    actor: ActorUser,
+  ): Promise<AcademicTerm> {
+    const term = await this.getAcademicTerm(termId, actor);
+
+    this.validateDateRange(
+      dto.startDate ?? term.startDate,
+      dto.endDate ?? term.endDate,
+    );
+
+    if (dto.name !== undefined && dto.name !== term.name) {
+      await this.ensureNameAvailable(term.centerId, dto.name);
+    }
+
+    return this.academicTermsRepository.updateThrow(termId, dto);
+  }
+
+  async deleteAcademicTerm(termId: string, actor: ActorUser): Promise<void> {
+    await this.getAcademicTerm(termId, actor);
+
+    const classesCount =
+      await this.academicTermsRepository.countClassesInTerm(termId);
+    if (classesCount > 0) {
+      throw AcademicTermsErrors.academicTermHasClasses();
+    }
+
+    await this.academicTermsRepository.softRemove(termId);
+  }
+
+  /**
+   * Get a term that classes can be added to.
+   * Closed terms are read-only.
+   *
+   * @param termId - Academic term ID
+   * @param actor - The user performing the action
+   * @returns The academic term
+   * @throws AcademicTermsErrors.academicTermNotFound() if term doesn't exist in actor's center
+   * @throws AcademicTermsErrors.academicTermClosed() if term is closed
+   */
+  async getOpenAcademicTerm(
+    termId: string,
+    actor: ActorUser,
+  ): Promise<AcademicTerm> {
+    const term = await this.getAcademicTerm(termId, actor);
+    if (term.status === AcademicTermStatus.CLOSED) {
+      throw AcademicTermsErrors.academicTermClosed();
+    }
+
+    return term;
+  }
+
+  private validateDateRange(startDate: Date, endDate: Date): void {
+    if (endDate.getTime() <= startDate.getTime()) {
+      throw AcademicTermsErrors.academicTermInvalidDateRange();
+    }
+  }
+
+  private async ensureNameAvailable(
+    centerId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.academicTermsRepository.findByCenterAndName(
+      centerId,
+      name,
+    );
+    if (existing) {
+      throw AcademicTermsErrors.academicTermNameAlreadyExists();
+    }
+  }
+}
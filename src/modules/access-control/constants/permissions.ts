@@ -143,6 +143,36 @@ export const PERMISSIONS = {
     },
   },
 
+  // ===== PARENT MANAGEMENT PERMISSIONS =====
+  PARENT: {
+    // center scope
+    CREATE: {
+      action: 'parent:create',
+      scope: PermissionScope.CENTER,
+    },
+    IMPORT_PROFILE: {
+      action: 'parent:import-profile',
+      scope: PermissionScope.CENTER,
+    },
+    // admin scope
+    UPDATE: {
+      action: 'parent:update',
+      scope: PermissionScope.ADMIN,
+    },
+    DELETE: {
+      action: 'parent:delete',
+      scope: PermissionScope.ADMIN,
+    },
+    RESTORE: {
+      action: 'parent:restore',
+      scope: PermissionScope.ADMIN,
+    },
+    ACTIVATE: {
+      action: 'parent:activate',
+      scope: PermissionScope.ADMIN,
+    },
+  },
+
   // ===== TEACHER MANAGEMENT PERMISSIONS =====
   TEACHER: {
     // center scope
@@ -397,6 +427,30 @@ export const PERMISSIONS = {
     },
   },
 
+  // ===== ACADEMIC TERMS PERMISSIONS =====
+  ACADEMIC_TERMS: {
+    READ: {
+      action: 'academic-terms:read',
+      scope: PermissionScope.CENTER,
+    },
+    CREATE: {
+      action: 'academic-terms:create',
+      scope: PermissionScope.CENTER,
+    },
+    UPDATE: {
+      action: 'academic-terms:update',
+      scope: PermissionScope.CENTER,
+    },
+    DELETE: {
+      action: 'academic-terms:delete',
+      scope: PermissionScope.CENTER,
+    },
+    ROLL_OVER: {
+      action: 'academic-terms:roll-over',
+      scope: PermissionScope.CENTER,
+    },
+  },
+
   // ===== SUBJECTS PERMISSIONS =====
   SUBJECTS: {
     READ: {
@@ -529,6 +583,22 @@ export const PERMISSIONS = {
     },
   },
 
+  // ===== ATTENDANCE PERMISSIONS =====
+  ATTENDANCE: {
+    REVIEW_ABSENCE_REQUESTS: {
+      action: 'attendance:review-absence-requests',
+      scope: PermissionScope.CENTER,
+    },
+    CORRECT: {
+      action: 'attendance:correct',
+      scope: PermissionScope.CENTER,
+    },
+    MANAGE_POLICIES: {
+      action: 'attendance:manage-policies',
+      scope: PermissionScope.CENTER,
+    },
+  },
+
   // ===== STUDENT BILLING PERMISSIONS =====
   STUDENT_BILLING: {
     READ_STUDENT_CHARGE: {
@@ -543,6 +613,18 @@ export const PERMISSIONS = {
       action: 'student-billing:refund-billing',
       scope: PermissionScope.CENTER,
     },
+    MANAGE_DISCOUNTS: {
+      action: 'student-billing:manage-discounts',
+      scope: PermissionScope.CENTER,
+    },
+    MANAGE_DUNNING: {
+      action: 'student-billing:manage-dunning',
+      scope: PermissionScope.CENTER,
+    },
+    MANAGE_BILLING_ACCOUNTS: {
+      action: 'student-billing:manage-billing-accounts',
+      scope: PermissionScope.CENTER,
+    },
   },
 
   // ===== TEACHER PAYOUTS PERMISSIONS =====
@@ -121,6 +121,9 @@ export class UserProfilePermissionService extends BaseService {
             permissionKey as keyof typeof PERMISSIONS.TEACHER
           ];
       }
+    } else if (profileType === ProfileType.PARENT) {
+      requiredPermission =
+        PERMISSIONS.PARENT[permissionKey as keyof typeof PERMISSIONS.PARENT];
     } else {
       throw AccessControlErrors.invalidProfileType();
     }
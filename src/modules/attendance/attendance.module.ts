@@ -1,9 +1,28 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Attendance } from './entities/attendance.entity';
+import { AbsenceRequest } from './entities/absence-request.entity';
+import { AbsenceRequestSession } from './entities/absence-request-session.entity';
+import { AttendanceHistory } from './entities/attendance-history.entity';
+import { AttendancePolicy } from './entities/attendance-policy.entity';
+import { AttendanceChargeFailure } from './entities/attendance-charge-failure.entity';
 import { AttendanceRepository } from './repositories/attendance.repository';
+import { AbsenceRequestsRepository } from './repositories/absence-requests.repository';
+import { AbsenceRequestSessionsRepository } from './repositories/absence-request-sessions.repository';
+import { AttendanceHistoryRepository } from './repositories/attendance-history.repository';
+import { AttendancePoliciesRepository } from './repositories/attendance-policies.repository';
+import { AttendanceChargeFailuresRepository } from './repositories/attendance-charge-failures.repository';
+import { AttendancePoliciesService } from './services/attendance-policies.service';
+import { AttendancePoliciesController } from './controllers/attendance-policies.controller';
+import { AttendanceAnalyticsService } from './services/attendance-analytics.service';
+import { AttendanceAnalyticsController } from './controllers/attendance-analytics.controller';
 import { AttendanceService } from './services/attendance.service';
 import { AttendanceController } from './controllers/attendance.controller';
+import { AttendanceCheckInController } from './controllers/attendance-check-in.controller';
+import { AttendanceCheckInTokenService } from './services/attendance-check-in-token.service';
+import { AbsenceRequestsService } from './services/absence-requests.service';
+import { AbsenceRequestsController } from './controllers/absence-requests.controller';
+import { StudentAbsenceRequestsController } from './controllers/student-absence-requests.controller';
 import { SessionsModule } from '@/modules/sessions/sessions.module';
 import { ClassesModule } from '@/modules/classes/classes.module';
 import { CentersModule } from '@/modules/centers/centers.module';
@@ -12,10 +31,19 @@ import { UserProfileModule } from '@/modules/user-profile/user-profile.module';
 import { Session } from '@/modules/sessions/entities/session.entity';
 import { StudentBillingModule } from '@/modules/student-billing/student-billing.module';
 import { SessionAttendanceListener } from './listeners/session-attendance-listener';
+import { AbsenceStreakListener } from './listeners/absence-streak.listener';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Attendance, Session]),
+    TypeOrmModule.forFeature([
+      Attendance,
+      AttendanceHistory,
+      AttendancePolicy,
+      AttendanceChargeFailure,
+      AbsenceRequest,
+      AbsenceRequestSession,
+      Session,
+    ]),
     forwardRef(() => SessionsModule),
     forwardRef(() => ClassesModule),
     CentersModule,
@@ -23,12 +51,29 @@ import { SessionAttendanceListener } from './listeners/session-attendance-listen
     UserProfileModule,
     StudentBillingModule,
   ],
-  controllers: [AttendanceController],
+  controllers: [
+    AttendanceController,
+    AttendanceCheckInController,
+    AbsenceRequestsController,
+    StudentAbsenceRequestsController,
+    AttendancePoliciesController,
+    AttendanceAnalyticsController,
+  ],
   providers: [
     AttendanceRepository,
     AttendanceService,
+    AttendanceCheckInTokenService,
+    AbsenceRequestsService,
+    AbsenceRequestsRepository,
+    AbsenceRequestSessionsRepository,
+    AttendanceHistoryRepository,
+    AttendancePoliciesService,
+    AttendancePoliciesRepository,
+    AttendanceChargeFailuresRepository,
+    AttendanceAnalyticsService,
     SessionAttendanceListener,
+    AbsenceStreakListener,
   ],
-  exports: [AttendanceService, AttendanceRepository],
+  exports: [AttendanceService, AttendanceRepository, AbsenceRequestsService],
 })
 export class AttendanceModule {}
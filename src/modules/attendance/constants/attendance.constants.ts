@@ -1 +1,30 @@
+/** Late grace window used when neither the class nor the center has a policy */
 export const ATTENDANCE_LATE_GRACE_MINUTES = 10;
+
+/** Seconds each rotating self check-in QR token is displayed before rotating */
+export const ATTENDANCE_CHECK_IN_TOKEN_ROTATION_SECONDS = 10;
+
+/** Number of rotation windows a token stays valid (covers scan latency) */
+export const ATTENDANCE_CHECK_IN_TOKEN_VALID_WINDOWS = 2;
+
+/** Maximum size of an absence request attachment (5MB) */
+export const ABSENCE_REQUEST_ATTACHMENT_MAX_SIZE = 5 * 1024 * 1024;
+
+/** Default thresholds of the class at-risk students list */
+export const ATTENDANCE_AT_RISK_DEFAULT_CONSECUTIVE_ABSENCES = 3;
+export const ATTENDANCE_AT_RISK_DEFAULT_MIN_ATTENDANCE_RATE = 75; // percent
+export const ATTENDANCE_AT_RISK_DEFAULT_MAX_LATE_RATE = 30; // percent
+export const ATTENDANCE_AT_RISK_DEFAULT_MIN_SESSIONS = 3;
+
+/** Consecutive absences that notify the student and parents when no policy sets it */
+export const ATTENDANCE_ABSENCE_STREAK_ALERT_THRESHOLD = 3;
+
+/** Maximum number of scans accepted in one offline sync batch */
+export const ATTENDANCE_OFFLINE_SYNC_MAX_ITEMS = 500;
+
+/** Device clock drift tolerated for the capture time of offline scans */
+export const ATTENDANCE_OFFLINE_CLOCK_SKEW_SECONDS = 300;
+
+/** History reason of an auto ABSENT row replaced by an offline scan */
+export const ATTENDANCE_OFFLINE_SCAN_CORRECTION_REASON =
+  'Offline scan captured before the session finished';
@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { AbsenceRequestsService } from '../services/absence-requests.service';
+import { PaginateAbsenceRequestsDto } from '../dto/paginate-absence-requests.dto';
+import { AbsenceRequestIdParamDto } from '../dto/absence-request-id-param.dto';
+import { ReviewAbsenceRequestDto } from '../dto/review-absence-request.dto';
+import { AbsenceRequestResponseDto } from '../dto/absence-request-response.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Absence Requests')
+@Controller('attendance/absence-requests')
+@ManagerialOnly()
+export class AbsenceRequestsController {
+  constructor(
+    private readonly absenceRequestsService: AbsenceRequestsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get absence requests of the center' })
+  @ApiResponse({
+    status: 200,
+    description: 'Absence requests retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.ATTENDANCE.REVIEW_ABSENCE_REQUESTS)
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async paginateAbsenceRequests(
+    @Query() paginateDto: PaginateAbsenceRequestsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.absenceRequestsService.paginateAbsenceRequests(
+      paginateDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':absenceRequestId')
+  @ApiOperation({ summary: 'Get an absence request with its attachment URL' })
+  @ApiParam({ name: 'absenceRequestId', description: 'Absence request ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Absence request retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Absence request not found' })
+  @Permissions(PERMISSIONS.ATTENDANCE.REVIEW_ABSENCE_REQUESTS)
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async getAbsenceRequest(
+    @Param() params: AbsenceRequestIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.absenceRequestsService.getAbsenceRequest(
+      params.absenceRequestId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post(':absenceRequestId/approve')
+  @ApiOperation({
+    summary: 'Approve an absence request',
+    description:
+      'Requested sessions are marked EXCUSED instead of ABSENT for the student',
+  })
+  @ApiParam({ name: 'absenceRequestId', description: 'Absence request ID' })
+  @ApiResponse({ status: 200, description: 'Absence request approved' })
+  @Permissions(PERMISSIONS.ATTENDANCE.REVIEW_ABSENCE_REQUESTS)
+  @Transactional()
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async approveAbsenceRequest(
+    @Param() params: AbsenceRequestIdParamDto,
+    @Body() dto: ReviewAbsenceRequestDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.absenceRequestsService.approveAbsenceRequest(
+      params.absenceRequestId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post(':absenceRequestId/reject')
+  @ApiOperation({ summary: 'Reject an absence request' })
+  @ApiParam({ name: 'absenceRequestId', description: 'Absence request ID' })
+  @ApiResponse({ status: 200, description: 'Absence request rejected' })
+  @Permissions(PERMISSIONS.ATTENDANCE.REVIEW_ABSENCE_REQUESTS)
+  @Transactional()
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async rejectAbsenceRequest(
+    @Param() params: AbsenceRequestIdParamDto,
+    @Body() dto: ReviewAbsenceRequestDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.absenceRequestsService.rejectAbsenceRequest(
+      params.absenceRequestId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AttendanceAnalyticsService } from '../services/attendance-analytics.service';
+import { StudentIdParamDto } from '../dto/student-id-param.dto';
+import { StudentAttendanceAnalyticsQueryDto } from '../dto/student-attendance-analytics-query.dto';
+import { AtRiskStudentsQueryDto } from '../dto/at-risk-students-query.dto';
+import {
+  AtRiskStudentDto,
+  GroupAttendanceAnalyticsDto,
+  StudentAttendanceAnalyticsDto,
+} from '../dto/attendance-analytics-response.dto';
+import { GroupIdParamDto } from '@/modules/classes/dto/group-id-param.dto';
+import { ClassIdParamDto } from '@/modules/classes/dto/class-id-param.dto';
+import { DateRangeDto } from '@/shared/common/dto/date-range.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Attendance Analytics')
+@Controller('attendance/analytics')
+@ManagerialOnly()
+export class AttendanceAnalyticsController {
+  constructor(
+    private readonly attendanceAnalyticsService: AttendanceAnalyticsService,
+  ) {}
+
+  @Get('students/:studentUserProfileId')
+  @ApiOperation({
+    summary: 'Get attendance analytics of a student',
+    description:
+      'Attendance rate, consecutive-absence streaks and monthly lateness trend over a date range',
+  })
+  @ApiResponse({ status: 200, description: 'Analytics retrieved successfully' })
+  @Permissions(PERMISSIONS.SESSIONS.READ)
+  @SerializeOptions({ type: StudentAttendanceAnalyticsDto })
+  async getStudentAnalytics(
+    @Param() params: StudentIdParamDto,
+    @Query() query: StudentAttendanceAnalyticsQueryDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceAnalyticsService.getStudentAnalytics(
+      params.studentUserProfileId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('groups/:groupId')
+  @ApiOperation({
+    summary: 'Get attendance analytics of a group',
+    description:
+      'Group attendance rate and monthly trend, with rates and streaks per student',
+  })
+  @ApiResponse({ status: 200, description: 'Analytics retrieved successfully' })
+  @Permissions(PERMISSIONS.SESSIONS.READ)
+  @SerializeOptions({ type: GroupAttendanceAnalyticsDto })
+  async getGroupAnalytics(
+    @Param() params: GroupIdParamDto,
+    @Query() query: DateRangeDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceAnalyticsService.getGroupAnalytics(
+      params.groupId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('classes/:classId/at-risk')
+  @ApiOperation({
+    summary: 'List at-risk students of a class',
+    description:
+      'Students crossing the consecutive-absence, attendance-rate or lateness thresholds, most at risk first',
+  })
+  @ApiResponse({ status: 200, description: 'At-risk students retrieved' })
+  @Permissions(PERMISSIONS.SESSIONS.READ)
+  @SerializeOptions({ type: AtRiskStudentDto })
+  async getClassAtRiskStudents(
+    @Param() params: ClassIdParamDto,
+    @Query() query: AtRiskStudentsQueryDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceAnalyticsService.getClassAtRiskStudents(
+      params.classId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
@@ -0,0 +1,28 @@
+import { Body, Controller, Post, SerializeOptions } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AttendanceService } from '../services/attendance.service';
+import { SelfCheckInDto } from '../dto/self-check-in.dto';
+import { AttendanceResponseDto } from '../dto/attendance-response.dto';
+import { GetUser, StudentOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Attendance')
+@Controller('attendance')
+@StudentOnly()
+export class AttendanceCheckInController {
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  @Post('check-in')
+  @ApiOperation({
+    summary: 'Mark own attendance by scanning the session QR code',
+    description:
+      'Student self check-in using the rotating token shown while the session is checking in',
+  })
+  @ApiResponse({ status: 200, description: 'Attendance recorded successfully' })
+  @SerializeOptions({ type: AttendanceResponseDto })
+  async checkIn(@Body() dto: SelfCheckInDto, @GetUser() actor: ActorUser) {
+    const result = await this.attendanceService.selfCheckIn(dto, actor);
+    return ControllerResponse.success(result);
+  }
+}
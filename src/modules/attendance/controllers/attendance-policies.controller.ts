@@ -0,0 +1,126 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Put,
+  SerializeOptions,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { AttendancePoliciesService } from '../services/attendance-policies.service';
+import { AttendancePolicyDto } from '../dto/attendance-policy.dto';
+import { AttendancePolicyResponseDto } from '../dto/attendance-policy-response.dto';
+import { ClassIdParamDto } from '@/modules/classes/dto/class-id-param.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Attendance Policies')
+@Controller('attendance/policies')
+@ManagerialOnly()
+export class AttendancePoliciesController {
+  constructor(
+    private readonly attendancePoliciesService: AttendancePoliciesService,
+  ) {}
+
+  @Get('center')
+  @ApiOperation({ summary: 'Get the center default attendance policy' })
+  @ApiResponse({ status: 200, description: 'Policy retrieved successfully' })
+  @Permissions(PERMISSIONS.CLASSES.READ)
+  @SerializeOptions({ type: AttendancePolicyResponseDto })
+  async getCenterPolicy(@GetUser() actor: ActorUser) {
+    const result = await this.attendancePoliciesService.getCenterPolicy(actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Put('center')
+  @ApiOperation({
+    summary: 'Set the center default attendance policy',
+    description: 'Applies to every class without its own policy',
+  })
+  @ApiBody({ type: AttendancePolicyDto })
+  @ApiResponse({ status: 200, description: 'Policy saved successfully' })
+  @Permissions(PERMISSIONS.ATTENDANCE.MANAGE_POLICIES)
+  @Transactional()
+  @SerializeOptions({ type: AttendancePolicyResponseDto })
+  async upsertCenterPolicy(
+    @Body() dto: AttendancePolicyDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendancePoliciesService.upsertCenterPolicy(
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('classes/:classId')
+  @ApiOperation({ summary: 'Get the effective attendance policy of a class' })
+  @ApiParam({ name: 'classId', description: 'Class ID' })
+  @ApiResponse({ status: 200, description: 'Policy retrieved successfully' })
+  @Permissions(PERMISSIONS.CLASSES.READ)
+  @SerializeOptions({ type: AttendancePolicyResponseDto })
+  async getClassPolicy(
+    @Param() params: ClassIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendancePoliciesService.getClassPolicy(
+      params.classId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Put('classes/:classId')
+  @ApiOperation({ summary: 'Set the attendance policy of a class' })
+  @ApiParam({ name: 'classId', description: 'Class ID' })
+  @ApiBody({ type: AttendancePolicyDto })
+  @ApiResponse({ status: 200, description: 'Policy saved successfully' })
+  @Permissions(PERMISSIONS.ATTENDANCE.MANAGE_POLICIES)
+  @Transactional()
+  @SerializeOptions({ type: AttendancePolicyResponseDto })
+  async upsertClassPolicy(
+    @Param() params: ClassIdParamDto,
+    @Body() dto: AttendancePolicyDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendancePoliciesService.upsertClassPolicy(
+      params.classId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete('classes/:classId')
+  @ApiOperation({
+    summary: 'Remove the attendance policy of a class',
+    description: 'The class falls back to the center default policy',
+  })
+  @ApiParam({ name: 'classId', description: 'Class ID' })
+  @ApiResponse({ status: 200, description: 'Policy removed successfully' })
+  @ApiResponse({ status: 404, description: 'Class has no own policy' })
+  @Permissions(PERMISSIONS.ATTENDANCE.MANAGE_POLICIES)
+  @Transactional()
+  @SerializeOptions({ type: AttendancePolicyResponseDto })
+  async removeClassPolicy(
+    @Param() params: ClassIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendancePoliciesService.removeClassPolicy(
+      params.classId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
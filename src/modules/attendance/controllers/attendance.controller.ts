@@ -1,4 +1,12 @@
-import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { Transactional } from '@nestjs-cls/transactional';
 import { AttendanceService } from '../services/attendance.service';
@@ -17,6 +25,14 @@ import { PaginateSessionRosterDto } from '../dto/paginate-session-roster.dto';
 import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
 import { SessionAttendanceStatsDto } from '../dto/session-attendance-stats.dto';
 import { MarkAllAbsentResponseDto } from '../dto/mark-all-absent-response.dto';
+import { CheckInTokenResponseDto } from '../dto/check-in-token-response.dto';
+import { AttendanceIdParamDto } from '../dto/attendance-id-param.dto';
+import { CorrectAttendanceDto } from '../dto/correct-attendance.dto';
+import { AttendanceHistoryResponseDto } from '../dto/attendance-history-response.dto';
+import { SyncOfflineAttendanceDto } from '../dto/sync-offline-attendance.dto';
+import { SyncOfflineAttendanceResponseDto } from '../dto/sync-offline-attendance-response.dto';
+import { AutoChargeFailureReason } from '../enums/auto-charge-failure-reason.enum';
+import { AutoChargeFailureSummary } from '../interfaces/auto-charge-failure.interface';
 
 @ApiTags('Attendance')
 @Controller('attendance')
@@ -43,6 +59,27 @@ export class AttendanceController {
     return ControllerResponse.success(result);
   }
 
+  // No @Transactional(): every scan commits on its own
+  @Post('sync')
+  @ApiOperation({
+    summary: 'Sync attendance scans captured offline',
+    description:
+      'Applies scans in capture order using their capture time for the status. Scans are idempotent by key and each gets its own result.',
+  })
+  @ApiResponse({ status: 200, description: 'Batch processed' })
+  @Permissions(PERMISSIONS.SESSIONS.UPDATE)
+  @SerializeOptions({ type: SyncOfflineAttendanceResponseDto })
+  async syncOffline(
+    @Body() dto: SyncOfflineAttendanceDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceService.syncOfflineAttendance(
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Get('sessions/:sessionId/roster')
   @ApiOperation({ summary: 'Get session roster with attendance (if any)' })
   @ApiResponse({ status: 200, description: 'Roster retrieved successfully' })
@@ -77,6 +114,26 @@ export class AttendanceController {
     return ControllerResponse.success(result);
   }
 
+  @Get('sessions/:sessionId/check-in-token')
+  @ApiOperation({
+    summary: 'Get the current rotating QR token for student self check-in',
+    description:
+      'Token rotates every few seconds; clients should refetch it at rotatesAt',
+  })
+  @ApiResponse({ status: 200, description: 'Token issued successfully' })
+  @Permissions(PERMISSIONS.SESSIONS.UPDATE)
+  @SerializeOptions({ type: CheckInTokenResponseDto })
+  async checkInToken(
+    @Param() params: AttendanceSessionIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceService.getCheckInToken(
+      params.sessionId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Get('sessions/:sessionId/unmarked-students')
   @ApiOperation({
     summary: 'Get students who have no attendance records for the session',
@@ -95,6 +152,20 @@ export class AttendanceController {
               studentUserProfileId: { type: 'string' },
               fullName: { type: 'string' },
               studentCode: { type: 'string' },
+              chargeFailure: {
+                type: 'object',
+                nullable: true,
+                description:
+                  'Last failed wallet auto-charge for this session, if any',
+                properties: {
+                  reason: {
+                    type: 'string',
+                    enum: Object.values(AutoChargeFailureReason),
+                  },
+                  errorCode: { type: 'string' },
+                  failedAt: { type: 'string', format: 'date-time' },
+                },
+              },
             },
           },
         },
@@ -131,6 +202,7 @@ export class AttendanceController {
         studentUserProfileId: string;
         fullName: string;
         studentCode?: string;
+        chargeFailure?: AutoChargeFailureSummary;
       }>
     >
   > {
@@ -162,4 +234,46 @@ export class AttendanceController {
     );
     return ControllerResponse.success(result);
   }
+
+  @Patch(':attendanceId')
+  @ApiOperation({
+    summary: 'Correct the status of an attendance record',
+    description:
+      'Records the change with its reason in the attendance history and refreshes the session counters if the session already finished',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Attendance corrected successfully',
+  })
+  @Permissions(PERMISSIONS.ATTENDANCE.CORRECT)
+  @Transactional()
+  @SerializeOptions({ type: AttendanceResponseDto })
+  async correct(
+    @Param() params: AttendanceIdParamDto,
+    @Body() dto: CorrectAttendanceDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceService.correctAttendance(
+      params.attendanceId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':attendanceId/history')
+  @ApiOperation({ summary: 'Get the change history of an attendance record' })
+  @ApiResponse({ status: 200, description: 'History retrieved successfully' })
+  @Permissions(PERMISSIONS.SESSIONS.READ)
+  @SerializeOptions({ type: AttendanceHistoryResponseDto })
+  async history(
+    @Param() params: AttendanceIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.attendanceService.getAttendanceHistory(
+      params.attendanceId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
 }
@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  Get,
+  MaxFileSizeValidator,
+  ParseFilePipe,
+  Post,
+  Query,
+  SerializeOptions,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Transactional } from '@nestjs-cls/transactional';
+import { AbsenceRequestsService } from '../services/absence-requests.service';
+import { CreateAbsenceRequestDto } from '../dto/create-absence-request.dto';
+import { PaginateAbsenceRequestsDto } from '../dto/paginate-absence-requests.dto';
+import { AbsenceRequestResponseDto } from '../dto/absence-request-response.dto';
+import { ABSENCE_REQUEST_ATTACHMENT_MAX_SIZE } from '../constants/attendance.constants';
+import { GetUser, StudentOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+import { createFileValidationException } from '@/modules/file/exceptions/file.errors';
+
+@ApiTags('Absence Requests')
+@Controller('attendance/student/absence-requests')
+@StudentOnly()
+export class StudentAbsenceRequestsController {
+  constructor(
+    private readonly absenceRequestsService: AbsenceRequestsService,
+  ) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Request to be excused from upcoming sessions',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['sessionIds', 'reason'],
+      properties: {
+        sessionIds: {
+          type: 'string',
+          description: 'Comma-separated session IDs (UUID or virtual ID)',
+        },
+        reason: { type: 'string' },
+        attachment: {
+          type: 'string',
+          format: 'binary',
+          description: 'Optional supporting document',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Absence request submitted' })
+  @UseInterceptors(FileInterceptor('attachment'))
+  @Transactional()
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async createAbsenceRequest(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({
+            maxSize: ABSENCE_REQUEST_ATTACHMENT_MAX_SIZE,
+          }),
+        ],
+        fileIsRequired: false,
+        exceptionFactory: createFileValidationException,
+      }),
+    )
+    attachment: Express.Multer.File | undefined,
+    @Body() dto: CreateAbsenceRequestDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.absenceRequestsService.createAbsenceRequest(
+      actor.userProfileId,
+      dto,
+      attachment,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get own absence requests' })
+  @ApiResponse({
+    status: 200,
+    description: 'Absence requests retrieved successfully',
+  })
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async paginateAbsenceRequests(
+    @Query() paginateDto: PaginateAbsenceRequestsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result =
+      await this.absenceRequestsService.paginateStudentAbsenceRequests(
+        actor.userProfileId,
+        paginateDto,
+        'attendance/student/absence-requests',
+      );
+    return ControllerResponse.success(result);
+  }
+}
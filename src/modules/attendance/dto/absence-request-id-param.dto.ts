@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class AbsenceRequestIdParamDto {
+  @ApiProperty({ description: 'Absence request ID' })
+  @IsUUID()
+  absenceRequestId: string;
+}
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { AbsenceRequestStatus } from '../enums/absence-request-status.enum';
+
+export class AbsenceRequestSessionResponseDto {
+  @ApiProperty({ description: 'Group ID' })
+  @Expose()
+  groupId: string;
+
+  @ApiProperty({ description: 'Session start time' })
+  @Expose()
+  startTime: Date;
+}
+
+export class AbsenceRequestResponseDto {
+  @ApiProperty({ description: 'Absence request ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Center ID' })
+  @Expose()
+  centerId: string;
+
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ description: 'Student or parent who submitted the request' })
+  @Expose()
+  requestedByUserProfileId: string;
+
+  @ApiProperty({ description: 'Reason for the absence' })
+  @Expose()
+  reason: string;
+
+  @ApiProperty({ enum: AbsenceRequestStatus })
+  @Expose()
+  status: AbsenceRequestStatus;
+
+  @ApiProperty({ description: 'Attachment file ID', required: false })
+  @Expose()
+  attachmentFileId?: string | null;
+
+  @ApiProperty({
+    description: 'Temporary attachment download URL (detail view only)',
+    required: false,
+  })
+  @Expose()
+  attachmentUrl?: string;
+
+  @ApiProperty({ description: 'Reviewer user profile ID', required: false })
+  @Expose()
+  reviewedByUserProfileId?: string | null;
+
+  @ApiProperty({ description: 'Review time', required: false })
+  @Expose()
+  reviewedAt?: Date | null;
+
+  @ApiProperty({ description: 'Review note', required: false })
+  @Expose()
+  reviewNote?: string | null;
+
+  @ApiProperty({ type: [AbsenceRequestSessionResponseDto] })
+  @Expose()
+  @Type(() => AbsenceRequestSessionResponseDto)
+  sessions: AbsenceRequestSessionResponseDto[];
+
+  @ApiProperty({ description: 'Creation date' })
+  @Expose()
+  createdAt: Date;
+}
@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { DateRangeDto } from '@/shared/common/dto/date-range.dto';
+import {
+  ATTENDANCE_AT_RISK_DEFAULT_CONSECUTIVE_ABSENCES,
+  ATTENDANCE_AT_RISK_DEFAULT_MAX_LATE_RATE,
+  ATTENDANCE_AT_RISK_DEFAULT_MIN_ATTENDANCE_RATE,
+  ATTENDANCE_AT_RISK_DEFAULT_MIN_SESSIONS,
+} from '../constants/attendance.constants';
+
+export class AtRiskStudentsQueryDto extends DateRangeDto {
+  @ApiProperty({
+    description: 'Flag students with at least this many consecutive absences',
+    default: ATTENDANCE_AT_RISK_DEFAULT_CONSECUTIVE_ABSENCES,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  consecutiveAbsences?: number;
+
+  @ApiProperty({
+    description: 'Flag students whose attendance rate (%) is below this',
+    default: ATTENDANCE_AT_RISK_DEFAULT_MIN_ATTENDANCE_RATE,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minAttendanceRate?: number;
+
+  @ApiProperty({
+    description: 'Flag students whose late rate (%) is above this',
+    default: ATTENDANCE_AT_RISK_DEFAULT_MAX_LATE_RATE,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  maxLateRate?: number;
+
+  @ApiProperty({
+    description:
+      'Ignore rate thresholds for students with fewer recorded sessions',
+    default: ATTENDANCE_AT_RISK_DEFAULT_MIN_SESSIONS,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  minSessions?: number;
+}
@@ -0,0 +1,158 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { AtRiskReason } from '../enums/at-risk-reason.enum';
+
+export class AttendanceSummaryDto {
+  @ApiProperty({ description: 'Sessions with an attendance record' })
+  @Expose()
+  totalSessions: number;
+
+  @ApiProperty({ description: 'Count of PRESENT attendance records' })
+  @Expose()
+  present: number;
+
+  @ApiProperty({ description: 'Count of LATE attendance records' })
+  @Expose()
+  late: number;
+
+  @ApiProperty({ description: 'Count of ABSENT attendance records' })
+  @Expose()
+  absent: number;
+
+  @ApiProperty({ description: 'Count of EXCUSED attendance records' })
+  @Expose()
+  excused: number;
+
+  @ApiProperty({
+    description: 'Attended (present or late) percent, excused excluded',
+    nullable: true,
+  })
+  @Expose()
+  attendanceRate: number | null;
+
+  @ApiProperty({
+    description: 'Percent of attended sessions that were late',
+    nullable: true,
+  })
+  @Expose()
+  lateRate: number | null;
+}
+
+export class AttendanceTrendPointDto extends AttendanceSummaryDto {
+  @ApiProperty({
+    description: 'Month in the center timezone',
+    example: '2024-03',
+  })
+  @Expose()
+  period: string;
+}
+
+export class AbsenceStreaksDto {
+  @ApiProperty({ description: 'Consecutive absences up to the last session' })
+  @Expose()
+  current: number;
+
+  @ApiProperty({ description: 'Longest run of consecutive absences' })
+  @Expose()
+  longest: number;
+}
+
+export class GroupAttendanceBreakdownDto {
+  @ApiProperty({ description: 'Group ID' })
+  @Expose()
+  groupId: string;
+
+  @ApiProperty({ type: AttendanceSummaryDto })
+  @Expose()
+  @Type(() => AttendanceSummaryDto)
+  summary: AttendanceSummaryDto;
+
+  @ApiProperty({ type: AbsenceStreaksDto })
+  @Expose()
+  @Type(() => AbsenceStreaksDto)
+  absenceStreaks: AbsenceStreaksDto;
+}
+
+export class StudentAttendanceAnalyticsDto {
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ type: AttendanceSummaryDto })
+  @Expose()
+  @Type(() => AttendanceSummaryDto)
+  summary: AttendanceSummaryDto;
+
+  @ApiProperty({
+    type: AbsenceStreaksDto,
+    description: 'Longest streak across groups; current is the highest',
+  })
+  @Expose()
+  @Type(() => AbsenceStreaksDto)
+  absenceStreaks: AbsenceStreaksDto;
+
+  @ApiProperty({ type: [AttendanceTrendPointDto] })
+  @Expose()
+  @Type(() => AttendanceTrendPointDto)
+  trend: AttendanceTrendPointDto[];
+
+  @ApiProperty({ type: [GroupAttendanceBreakdownDto] })
+  @Expose()
+  @Type(() => GroupAttendanceBreakdownDto)
+  groups: GroupAttendanceBreakdownDto[];
+}
+
+export class GroupStudentAttendanceDto {
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ description: 'Student full name' })
+  @Expose()
+  fullName: string;
+
+  @ApiProperty({ description: 'Student code', nullable: true })
+  @Expose()
+  studentCode: string | null;
+
+  @ApiProperty({ type: AttendanceSummaryDto })
+  @Expose()
+  @Type(() => AttendanceSummaryDto)
+  summary: AttendanceSummaryDto;
+
+  @ApiProperty({ type: AbsenceStreaksDto })
+  @Expose()
+  @Type(() => AbsenceStreaksDto)
+  absenceStreaks: AbsenceStreaksDto;
+}
+
+export class GroupAttendanceAnalyticsDto {
+  @ApiProperty({ description: 'Group ID' })
+  @Expose()
+  groupId: string;
+
+  @ApiProperty({ type: AttendanceSummaryDto })
+  @Expose()
+  @Type(() => AttendanceSummaryDto)
+  summary: AttendanceSummaryDto;
+
+  @ApiProperty({ type: [AttendanceTrendPointDto] })
+  @Expose()
+  @Type(() => AttendanceTrendPointDto)
+  trend: AttendanceTrendPointDto[];
+
+  @ApiProperty({ type: [GroupStudentAttendanceDto] })
+  @Expose()
+  @Type(() => GroupStudentAttendanceDto)
+  students: GroupStudentAttendanceDto[];
+}
+
+export class AtRiskStudentDto extends GroupStudentAttendanceDto {
+  @ApiProperty({
+    enum: AtRiskReason,
+    isArray: true,
+    description: 'Thresholds the student crossed',
+  })
+  @Expose()
+  reasons: AtRiskReason[];
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { AttendanceStatus } from '../enums/attendance-status.enum';
+
+export class AttendanceHistoryResponseDto {
+  @ApiProperty({ description: 'History entry ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Attendance record ID' })
+  @Expose()
+  attendanceId: string;
+
+  @ApiProperty({ description: 'Session ID' })
+  @Expose()
+  sessionId: string;
+
+  @ApiProperty({ description: 'Student userProfileId' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ enum: AttendanceStatus })
+  @Expose()
+  previousStatus: AttendanceStatus;
+
+  @ApiProperty({ enum: AttendanceStatus })
+  @Expose()
+  newStatus: AttendanceStatus;
+
+  @ApiProperty({ description: 'Who made the change' })
+  @Expose()
+  changedByUserProfileId: string;
+
+  @ApiProperty({ description: 'Reason given for the change' })
+  @Expose()
+  reason: string;
+
+  @ApiProperty({ description: 'When the change was made' })
+  @Expose()
+  createdAt: Date;
+}
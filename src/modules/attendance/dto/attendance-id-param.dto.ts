@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class AttendanceIdParamDto {
+  @ApiProperty({ description: 'Attendance record ID (UUID)' })
+  @IsUUID()
+  attendanceId: string;
+}
@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { AttendancePolicySource } from '../enums/attendance-policy-source.enum';
+
+export class AttendancePolicyResponseDto {
+  @ApiProperty({ description: 'Late grace window in minutes' })
+  @Expose()
+  lateGraceMinutes: number;
+
+  @ApiProperty({
+    description: 'Absent cutoff in minutes',
+    nullable: true,
+  })
+  @Expose()
+  absentAfterMinutes: number | null;
+
+  @ApiProperty({
+    description: 'Hard check-in cutoff in minutes',
+    nullable: true,
+  })
+  @Expose()
+  checkInCutoffMinutes: number | null;
+
+  @ApiProperty({ description: 'Auto mark-all-absent when session finishes' })
+  @Expose()
+  autoMarkAbsentOnFinish: boolean;
+
+  @ApiProperty({ description: 'Consecutive absences that notify' })
+  @Expose()
+  absenceStreakAlertThreshold: number;
+
+  @ApiProperty({ description: 'Charge unpaid sessions to the student wallet' })
+  @Expose()
+  autoChargeSessionFromWallet: boolean;
+
+  @ApiProperty({
+    enum: AttendancePolicySource,
+    description: 'Where the effective policy comes from',
+  })
+  @Expose()
+  source: AttendancePolicySource;
+}
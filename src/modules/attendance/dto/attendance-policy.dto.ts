@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class AttendancePolicyDto {
+  @ApiProperty({
+    description: 'Minutes after session start before a check-in counts as LATE',
+    example: 10,
+    minimum: 0,
+    maximum: 240,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(240)
+  lateGraceMinutes: number;
+
+  @ApiProperty({
+    description:
+      'Minutes after session start before a check-in counts as ABSENT (must not be below lateGraceMinutes)',
+    example: 30,
+    minimum: 0,
+    maximum: 600,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(600)
+  absentAfterMinutes?: number | null;
+
+  @ApiProperty({
+    description:
+      'Minutes after session start after which check-in is blocked (must not be below the other offsets)',
+    example: 45,
+    minimum: 0,
+    maximum: 600,
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(600)
+  checkInCutoffMinutes?: number | null;
+
+  @ApiProperty({
+    description: 'Mark all unmarked students absent when the session finishes',
+    example: false,
+  })
+  @IsBoolean()
+  autoMarkAbsentOnFinish: boolean;
+
+  @ApiProperty({
+    description:
+      'Consecutive absences that notify the student and parents (defaults to 3)',
+    example: 3,
+    minimum: 1,
+    maximum: 50,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  absenceStreakAlertThreshold?: number;
+
+  @ApiProperty({
+    description:
+      'Charge the session price to the student wallet when attendance is marked and the student has not paid (wallet may go negative down to the maxNegativeBalance setting)',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  autoChargeSessionFromWallet?: boolean;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+
+export class CheckInTokenResponseDto {
+  @ApiProperty({ description: 'Session ID' })
+  @Expose()
+  sessionId: string;
+
+  @ApiProperty({ description: 'Signed token to encode in the QR code' })
+  @Expose()
+  token: string;
+
+  @ApiProperty({ description: 'When a new token should be fetched' })
+  @Expose()
+  rotatesAt: Date;
+
+  @ApiProperty({ description: 'When this token stops being accepted' })
+  @Expose()
+  expiresAt: Date;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { AttendanceStatus } from '../enums/attendance-status.enum';
+
+export class CorrectAttendanceDto {
+  @ApiProperty({ enum: AttendanceStatus, description: 'Corrected status' })
+  @IsEnum(AttendanceStatus)
+  status: AttendanceStatus;
+
+  @ApiProperty({
+    description: 'Why the attendance is being corrected',
+    maxLength: 1000,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
@@ -2,11 +2,18 @@ import { ApiProperty } from '@nestjs/swagger';
 
 export class MarkAllAbsentResponseDto {
   @ApiProperty({
-    description: 'Number of students marked as absent',
+    description: 'Number of unmarked students that got an attendance record',
     example: 5,
   })
   markedCount: number;
 
+  @ApiProperty({
+    description:
+      'How many of them were marked EXCUSED due to an approved absence request',
+    example: 1,
+  })
+  excusedCount: number;
+
   @ApiProperty({
     description: 'Session ID',
     example: 'uuid-session-id',
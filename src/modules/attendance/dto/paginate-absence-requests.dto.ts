@@ -0,0 +1,23 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+import { AbsenceRequestStatus } from '../enums/absence-request-status.enum';
+
+export class PaginateAbsenceRequestsDto extends BasePaginationDto {
+  @ApiProperty({
+    description: 'Filter by request status',
+    enum: AbsenceRequestStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AbsenceRequestStatus)
+  status?: AbsenceRequestStatus;
+
+  @ApiProperty({
+    description: 'Filter by student user profile ID',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  studentUserProfileId?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class SelfCheckInDto {
+  @ApiProperty({ description: 'Real session UUID' })
+  @IsUUID()
+  sessionId: string;
+
+  @ApiProperty({
+    description: 'Rotating check-in token scanned from the session QR code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  token: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { BelongsToBranch } from '@/shared/common/decorators/belongs-to-branch.decorator';
+import { DateRangeDto } from '@/shared/common/dto/date-range.dto';
+import { Class } from '@/modules/classes/entities/class.entity';
+
+export class StudentAttendanceAnalyticsQueryDto extends DateRangeDto {
+  @ApiProperty({
+    description: 'Limit the analytics to one class',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToBranch(Class)
+  classId?: string;
+}
@@ -0,0 +1,70 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { AttendanceResponseDto } from './attendance-response.dto';
+import { OfflineAttendanceItemStatus } from '../enums/offline-attendance-item-status.enum';
+import { AllErrorCodes } from '@/shared/common/enums/error-codes';
+
+export class OfflineAttendanceItemResultDto {
+  @ApiProperty({ description: 'Idempotency key of the scan' })
+  @Expose()
+  idempotencyKey: string;
+
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ enum: OfflineAttendanceItemStatus })
+  @Expose()
+  status: OfflineAttendanceItemStatus;
+
+  @ApiProperty({
+    type: AttendanceResponseDto,
+    description: 'Recorded attendance (RECORDED and DUPLICATE only)',
+    required: false,
+  })
+  @Expose()
+  @Type(() => AttendanceResponseDto)
+  attendance?: AttendanceResponseDto;
+
+  @ApiProperty({
+    description: 'Error code when the scan was not applied',
+    required: false,
+    example: 'ATD_012',
+  })
+  @Expose()
+  errorCode?: AllErrorCodes;
+
+  @ApiProperty({ description: 'Structured error details', required: false })
+  @Expose()
+  details?: unknown;
+}
+
+export class SyncOfflineAttendanceResponseDto {
+  @ApiProperty({ description: 'Session ID' })
+  @Expose()
+  sessionId: string;
+
+  @ApiProperty({ description: 'Number of scans in the batch' })
+  @Expose()
+  total: number;
+
+  @ApiProperty({ description: 'Number of scans recorded by this batch' })
+  @Expose()
+  recorded: number;
+
+  @ApiProperty({ description: 'Number of scans already applied earlier' })
+  @Expose()
+  duplicates: number;
+
+  @ApiProperty({ description: 'Number of scans that were not applied' })
+  @Expose()
+  failed: number;
+
+  @ApiProperty({
+    type: [OfflineAttendanceItemResultDto],
+    description: 'Per-scan results in capture order',
+  })
+  @Expose()
+  @Type(() => OfflineAttendanceItemResultDto)
+  items: OfflineAttendanceItemResultDto[];
+}
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { IsoUtcDate } from '@/shared/common/decorators/is-iso-datetime.decorator';
+import { ATTENDANCE_OFFLINE_SYNC_MAX_ITEMS } from '../constants/attendance.constants';
+
+export class OfflineAttendanceScanDto {
+  @ApiProperty({
+    description: 'Client-generated key; re-uploading the same key is a no-op',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  idempotencyKey: string;
+
+  @ApiProperty({ description: 'Student user profile ID (UUID)' })
+  @IsUUID()
+  studentUserProfileId: string;
+
+  @ApiProperty({
+    description:
+      'When the scan was captured on the device (ISO 8601 with timezone)',
+    example: '2024-01-01T10:05:00+02:00',
+    type: Date,
+  })
+  @IsoUtcDate()
+  capturedAt: Date;
+}
+
+export class SyncOfflineAttendanceDto {
+  @ApiProperty({ description: 'Real session UUID' })
+  @IsUUID()
+  sessionId: string;
+
+  @ApiProperty({
+    type: [OfflineAttendanceScanDto],
+    maxItems: ATTENDANCE_OFFLINE_SYNC_MAX_ITEMS,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(ATTENDANCE_OFFLINE_SYNC_MAX_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => OfflineAttendanceScanDto)
+  scans: OfflineAttendanceScanDto[];
+}
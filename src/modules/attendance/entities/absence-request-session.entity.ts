@@ -0,0 +1,34 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Group } from '@/modules/classes/entities/group.entity';
+import { AbsenceRequest } from './absence-request.entity';
+
+/**
+ * A session covered by an absence request.
+ * Stored as group + start time so virtual (not yet materialized)
+ * sessions can be requested too.
+ */
+@Entity('absence_request_sessions')
+@Index(['absenceRequestId', 'groupId', 'startTime'], { unique: true })
+@Index(['groupId', 'startTime'])
+export class AbsenceRequestSession extends BaseEntity {
+  @Column({ type: 'uuid' })
+  absenceRequestId: string;
+
+  @Column({ type: 'uuid' })
+  groupId: string;
+
+  @Column({ type: 'timestamptz' })
+  startTime: Date;
+
+  // Relations
+  @ManyToOne(() => AbsenceRequest, (request) => request.sessions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'absenceRequestId' })
+  absenceRequest: AbsenceRequest;
+
+  @ManyToOne(() => Group, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'groupId' })
+  group: Group;
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { File } from '@/modules/file/entities/file.entity';
+import { AbsenceRequestStatus } from '../enums/absence-request-status.enum';
+import { AbsenceRequestSession } from './absence-request-session.entity';
+
+/**
+ * Request to excuse a student from one or more upcoming sessions.
+ * Submitted by the student or a linked parent and reviewed by staff.
+ */
+@Entity('absence_requests')
+@Index(['centerId', 'status'])
+@Index(['studentUserProfileId'])
+export class AbsenceRequest extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'uuid' })
+  requestedByUserProfileId: string; // student or parent
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: AbsenceRequestStatus.PENDING,
+  })
+  status: AbsenceRequestStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  attachmentFileId?: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  reviewedByUserProfileId?: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  reviewedAt?: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  reviewNote?: string | null;
+
+  // Relations
+  @ManyToOne(() => Center, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student: UserProfile;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'requestedByUserProfileId' })
+  requestedBy: UserProfile;
+
+  @ManyToOne(() => File, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'attachmentFileId' })
+  attachment?: File;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'reviewedByUserProfileId' })
+  reviewedBy?: UserProfile;
+
+  @OneToMany(() => AbsenceRequestSession, (item) => item.absenceRequest)
+  sessions: AbsenceRequestSession[];
+}
@@ -0,0 +1,38 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { AutoChargeFailureReason } from '../enums/auto-charge-failure-reason.enum';
+
+/**
+ * Last failed wallet auto-charge of a student for a session.
+ * Lets staff see why a student could not be marked; updatedAt is the last attempt.
+ */
+@Entity('attendance_charge_failures')
+@Index(['centerId'])
+@Index(['sessionId', 'studentUserProfileId'], { unique: true })
+export class AttendanceChargeFailure extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  sessionId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'varchar', length: 40 })
+  reason: AutoChargeFailureReason;
+
+  @Column({ type: 'varchar', length: 20 })
+  errorCode: string;
+
+  // Relations
+  @ManyToOne(() => Session, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: Session;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student: UserProfile;
+}
@@ -0,0 +1,49 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { AttendanceStatus } from '../enums/attendance-status.enum';
+import { Attendance } from './attendance.entity';
+
+/**
+ * Audit trail of status changes made to an attendance record
+ * after it was first marked.
+ */
+@Entity('attendance_history')
+@Index(['attendanceId'])
+@Index(['sessionId'])
+export class AttendanceHistory extends BaseEntity {
+  @Column({ type: 'uuid' })
+  attendanceId: string;
+
+  @Column({ type: 'uuid' })
+  sessionId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  previousStatus: AttendanceStatus;
+
+  @Column({ type: 'varchar', length: 20 })
+  newStatus: AttendanceStatus;
+
+  @Column({ type: 'uuid' })
+  changedByUserProfileId: string;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  // Relations
+  @ManyToOne(() => Attendance, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'attendanceId' })
+  attendance: Attendance;
+
+  @ManyToOne(() => Session, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: Session;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'changedByUserProfileId' })
+  changedBy: UserProfile;
+}
@@ -0,0 +1,46 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { Class } from '@/modules/classes/entities/class.entity';
+
+/**
+ * Attendance rules of a class, or the center-wide default when classId is null.
+ * All offsets are minutes after the session start time.
+ */
+@Entity('attendance_policies')
+@Index(['centerId'], { unique: true, where: '"classId" IS NULL' })
+@Index(['classId'], { unique: true, where: '"classId" IS NOT NULL' })
+export class AttendancePolicy extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  classId?: string | null; // null = center default
+
+  @Column({ type: 'int' })
+  lateGraceMinutes: number; // check-ins after this are LATE
+
+  @Column({ type: 'int', nullable: true })
+  absentAfterMinutes?: number | null; // check-ins after this are ABSENT
+
+  @Column({ type: 'int', nullable: true })
+  checkInCutoffMinutes?: number | null; // check-ins after this are rejected
+
+  @Column({ type: 'boolean', default: false })
+  autoMarkAbsentOnFinish: boolean;
+
+  @Column({ type: 'int', default: 3 })
+  absenceStreakAlertThreshold: number; // consecutive absences that notify
+
+  @Column({ type: 'boolean', default: false })
+  autoChargeSessionFromWallet: boolean; // pay-per-session students only
+
+  // Relations
+  @ManyToOne(() => Center, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @ManyToOne(() => Class, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'classId' })
+  class?: Class;
+}
@@ -36,6 +36,19 @@ export class Attendance extends BaseEntity {
   @Column({ type: 'uuid', nullable: true })
   markedByUserProfileId?: string;
 
+  // Offline sync: when the scan was captured on the device
+  @Column({ type: 'timestamptz', nullable: true })
+  capturedAt?: Date;
+
+  // Offline sync: client-generated key so re-uploaded scans apply once
+  @Column({ type: 'varchar', length: 255, nullable: true, unique: true })
+  idempotencyKey?: string;
+
+  // ABSENT row created by the auto mark-absent on session finish, cleared
+  // once the status is changed
+  @Column({ type: 'boolean', default: false })
+  autoMarkedAbsent: boolean;
+
   // Relations
   @ManyToOne(() => Session, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'sessionId' })
@@ -0,0 +1,5 @@
+export enum AbsenceRequestStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
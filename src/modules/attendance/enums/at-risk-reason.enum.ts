@@ -0,0 +1,8 @@
+/**
+ * Why a student appears in the at-risk list of a class
+ */
+export enum AtRiskReason {
+  CONSECUTIVE_ABSENCES = 'CONSECUTIVE_ABSENCES',
+  LOW_ATTENDANCE_RATE = 'LOW_ATTENDANCE_RATE',
+  FREQUENT_LATENESS = 'FREQUENT_LATENESS',
+}
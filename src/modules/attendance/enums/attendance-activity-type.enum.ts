@@ -0,0 +1,6 @@
+export enum AttendanceActivityType {
+  ATTENDANCE_SELF_CHECK_IN = 'ATTENDANCE_SELF_CHECK_IN',
+  ATTENDANCE_CHECK_IN_TOKEN_REJECTED = 'ATTENDANCE_CHECK_IN_TOKEN_REJECTED',
+  ATTENDANCE_CORRECTED = 'ATTENDANCE_CORRECTED',
+  ATTENDANCE_OFFLINE_SYNCED = 'ATTENDANCE_OFFLINE_SYNCED',
+}
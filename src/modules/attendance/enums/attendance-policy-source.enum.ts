@@ -0,0 +1,8 @@
+/**
+ * Where the effective attendance policy of a class comes from
+ */
+export enum AttendancePolicySource {
+  CLASS = 'CLASS',
+  CENTER = 'CENTER',
+  DEFAULT = 'DEFAULT',
+}
@@ -2,5 +2,5 @@ export enum AttendanceStatus {
   PRESENT = 'PRESENT',
   LATE = 'LATE',
   ABSENT = 'ABSENT',
-  EXCUSED = 'EXCUSED', // reserved for future
+  EXCUSED = 'EXCUSED', // approved absence request
 }
@@ -9,4 +9,19 @@ export enum AttendanceErrorCode {
   ATTENDANCE_PAYMENT_REQUIRED = 'ATD_012',
   ATTENDANCE_ALREADY_EXISTS = 'ATD_015',
   ATTENDANCE_CREATION_FAILED = 'ATD_016',
+  ATTENDANCE_CHECK_IN_TOKEN_INVALID = 'ATD_017',
+  ATTENDANCE_CHECK_IN_TOKEN_EXPIRED = 'ATD_018',
+  ATTENDANCE_CHECK_IN_TOKEN_REPLAYED = 'ATD_019',
+  ABSENCE_REQUEST_NOT_FOUND = 'ATD_020',
+  ABSENCE_REQUEST_NOT_PENDING = 'ATD_021',
+  ABSENCE_REQUEST_SESSION_NOT_UPCOMING = 'ATD_022',
+  ABSENCE_REQUEST_SESSIONS_DIFFERENT_CENTERS = 'ATD_023',
+  ABSENCE_REQUEST_ALREADY_EXISTS = 'ATD_024',
+  ATTENDANCE_NOT_FOUND = 'ATD_025',
+  ATTENDANCE_STATUS_UNCHANGED = 'ATD_026',
+  ATTENDANCE_CHECK_IN_CLOSED = 'ATD_027',
+  ATTENDANCE_POLICY_INVALID = 'ATD_028',
+  ATTENDANCE_POLICY_NOT_FOUND = 'ATD_029',
+  ATTENDANCE_CAPTURED_IN_FUTURE = 'ATD_030',
+  ATTENDANCE_AUTO_CHARGE_FAILED = 'ATD_031',
 }
@@ -0,0 +1,10 @@
+/**
+ * Why charging a session to the student wallet on attendance failed
+ */
+export enum AutoChargeFailureReason {
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE', // beyond maxNegativeBalance
+  SESSION_CHARGES_NOT_ALLOWED = 'SESSION_CHARGES_NOT_ALLOWED',
+  WALLET_NOT_FOUND = 'WALLET_NOT_FOUND',
+  STUDENT_INACTIVE = 'STUDENT_INACTIVE',
+  OTHER = 'OTHER',
+}
@@ -0,0 +1,6 @@
+export enum CheckInTokenRejectionReason {
+  MALFORMED = 'MALFORMED',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  EXPIRED = 'EXPIRED',
+  REPLAYED = 'REPLAYED',
+}
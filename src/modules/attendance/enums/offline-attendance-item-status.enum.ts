@@ -0,0 +1,11 @@
+/**
+ * Outcome of one scan in an offline attendance sync batch
+ */
+export enum OfflineAttendanceItemStatus {
+  RECORDED = 'RECORDED',
+  DUPLICATE = 'DUPLICATE', // idempotency key already applied
+  ALREADY_MARKED = 'ALREADY_MARKED',
+  NOT_ENROLLED = 'NOT_ENROLLED',
+  PAYMENT_REQUIRED = 'PAYMENT_REQUIRED',
+  REJECTED = 'REJECTED',
+}
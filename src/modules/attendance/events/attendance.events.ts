@@ -13,3 +13,16 @@ export class StudentsMarkedAbsentEvent {
     public readonly actor: ActorUser,
   ) {}
 }
+
+/**
+ * Emitted when a student's consecutive absences in a group reach
+ * the attendance policy threshold. Used to notify the student and parents.
+ */
+export class AbsenceStreakReachedEvent {
+  constructor(
+    public readonly studentUserProfileId: string,
+    public readonly groupId: string,
+    public readonly centerId: string,
+    public readonly consecutiveAbsences: number,
+  ) {}
+}
@@ -3,6 +3,7 @@ import {
   BaseErrorHelpers,
 } from '@/shared/common/exceptions/domain.exception';
 import { AttendanceErrorCode } from '../enums/attendance.codes';
+import { AutoChargeFailureReason } from '../enums/auto-charge-failure-reason.enum';
 
 /**
  * Attendance module error helpers
@@ -76,4 +77,92 @@ export class AttendanceErrors extends BaseErrorHelpers {
   static attendanceCreationFailed(): DomainException {
     return this.createNoDetails(AttendanceErrorCode.ATTENDANCE_CREATION_FAILED);
   }
+
+  // Self check-in token errors
+  static attendanceCheckInTokenInvalid(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ATTENDANCE_CHECK_IN_TOKEN_INVALID,
+    );
+  }
+
+  static attendanceCheckInTokenExpired(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ATTENDANCE_CHECK_IN_TOKEN_EXPIRED,
+    );
+  }
+
+  static attendanceCheckInTokenReplayed(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ATTENDANCE_CHECK_IN_TOKEN_REPLAYED,
+    );
+  }
+
+  // Absence request errors
+  static absenceRequestNotFound(): DomainException {
+    return this.createNoDetails(AttendanceErrorCode.ABSENCE_REQUEST_NOT_FOUND);
+  }
+
+  static absenceRequestNotPending(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ABSENCE_REQUEST_NOT_PENDING,
+    );
+  }
+
+  static absenceRequestSessionNotUpcoming(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ABSENCE_REQUEST_SESSION_NOT_UPCOMING,
+    );
+  }
+
+  static absenceRequestSessionsDifferentCenters(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ABSENCE_REQUEST_SESSIONS_DIFFERENT_CENTERS,
+    );
+  }
+
+  static absenceRequestAlreadyExists(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ABSENCE_REQUEST_ALREADY_EXISTS,
+    );
+  }
+
+  static attendanceNotFound(): DomainException {
+    return this.createNoDetails(AttendanceErrorCode.ATTENDANCE_NOT_FOUND);
+  }
+
+  static attendanceStatusUnchanged(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ATTENDANCE_STATUS_UNCHANGED,
+    );
+  }
+
+  static attendanceCheckInClosed(): DomainException {
+    return this.createNoDetails(AttendanceErrorCode.ATTENDANCE_CHECK_IN_CLOSED);
+  }
+
+  static attendancePolicyInvalid(): DomainException {
+    return this.createNoDetails(AttendanceErrorCode.ATTENDANCE_POLICY_INVALID);
+  }
+
+  static attendancePolicyNotFound(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ATTENDANCE_POLICY_NOT_FOUND,
+    );
+  }
+
+  static attendanceAutoChargeFailed(
+    reason: AutoChargeFailureReason,
+    chargeErrorCode: string,
+  ): DomainException {
+    return this.createWithDetails(
+      AttendanceErrorCode.ATTENDANCE_AUTO_CHARGE_FAILED,
+      { reason, chargeErrorCode },
+    );
+  }
+
+  static attendanceCapturedInFuture(): DomainException {
+    return this.createNoDetails(
+      AttendanceErrorCode.ATTENDANCE_CAPTURED_IN_FUTURE,
+    );
+  }
 }
@@ -0,0 +1,15 @@
+import { AttendancePolicySource } from '../enums/attendance-policy-source.enum';
+
+/**
+ * Attendance policy applied to a session after falling back
+ * from class to center to the built-in defaults
+ */
+export interface EffectiveAttendancePolicy {
+  lateGraceMinutes: number;
+  absentAfterMinutes: number | null;
+  checkInCutoffMinutes: number | null;
+  autoMarkAbsentOnFinish: boolean;
+  absenceStreakAlertThreshold: number;
+  autoChargeSessionFromWallet: boolean;
+  source: AttendancePolicySource;
+}
@@ -0,0 +1,10 @@
+import { AutoChargeFailureReason } from '../enums/auto-charge-failure-reason.enum';
+
+/**
+ * Last failed wallet auto-charge of an unmarked student
+ */
+export interface AutoChargeFailureSummary {
+  reason: AutoChargeFailureReason;
+  errorCode: string;
+  failedAt: Date;
+}
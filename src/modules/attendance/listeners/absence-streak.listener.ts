@@ -0,0 +1,33 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { AttendanceAnalyticsService } from '../services/attendance-analytics.service';
+import { AttendanceEvents } from '@/shared/events/attendance.events.enum';
+import { StudentsMarkedAbsentEvent } from '../events/attendance.events';
+
+/**
+ * Listener for absence events
+ * Detects students reaching the consecutive-absence alert threshold
+ */
+@Injectable()
+export class AbsenceStreakListener {
+  private readonly logger = new Logger(AbsenceStreakListener.name);
+
+  constructor(
+    private readonly attendanceAnalyticsService: AttendanceAnalyticsService,
+  ) {}
+
+  @OnEvent(AttendanceEvents.MARKED_ABSENT)
+  async onStudentsMarkedAbsent(
+    event: StudentsMarkedAbsentEvent,
+  ): Promise<void> {
+    try {
+      await this.attendanceAnalyticsService.detectAbsenceStreaks(event);
+    } catch (error) {
+      // A missed alert must not fail marking students absent
+      this.logger.error(
+        `Failed to detect absence streaks for session ${event.sessionId}`,
+        error,
+      );
+    }
+  }
+}
@@ -1,47 +1,38 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
-import { AttendanceRepository } from '../repositories/attendance.repository';
-import { SessionsRepository } from '@/modules/sessions/repositories/sessions.repository';
+import { AttendanceService } from '../services/attendance.service';
 import { SessionEvents } from '@/shared/events/sessions.events.enum';
 import { SessionFinishedEvent } from '@/modules/sessions/events/session.events';
 
 /**
  * Listener for session attendance events
- * Calculates and stores attendance statistics when sessions finish
+ * Applies auto mark-all-absent and stores attendance statistics when sessions finish
  */
 @Injectable()
 export class SessionAttendanceListener {
   private readonly logger = new Logger(SessionAttendanceListener.name);
 
-  constructor(
-    private readonly attendanceRepository: AttendanceRepository,
-    private readonly sessionsRepository: SessionsRepository,
-  ) {}
+  constructor(private readonly attendanceService: AttendanceService) {}
 
   /**
    * Calculate and store attendance statistics when a session finishes
    */
   @OnEvent(SessionEvents.FINISHED)
   async onSessionFinished(event: SessionFinishedEvent): Promise<void> {
-    const { session } = event;
+    const { session, actor } = event;
 
     try {
-      // Calculate attendance statistics for the finished session
-      const attendanceStats =
-        await this.attendanceRepository.calculateSessionAttendanceStats({
-          sessionId: session.id,
-          groupId: session.groupId,
-        });
-
-      const { present, late, excused, absent } = attendanceStats;
+      await this.attendanceService.autoMarkAbsentOnFinish(session, actor);
+    } catch (error) {
+      // Unmarked students stay unmarked; staff can still run mark-all-absent
+      this.logger.error(
+        `Failed to auto mark absent students for session ${session.id}`,
+        error,
+      );
+    }
 
-      // Update the session with attendance statistics
-      await this.sessionsRepository.update(session.id, {
-        presentCount: present,
-        lateCount: late,
-        excusedCount: excused,
-        absentCount: absent,
-      });
+    try {
+      await this.attendanceService.refreshSessionAttendanceCounts(session);
     } catch (error) {
       // Log error but don't fail the session finish process
       this.logger.error(
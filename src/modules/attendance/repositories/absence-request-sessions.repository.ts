@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { AbsenceRequestSession } from '../entities/absence-request-session.entity';
+
+@Injectable()
+export class AbsenceRequestSessionsRepository extends BaseRepository<AbsenceRequestSession> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof AbsenceRequestSession {
+    return AbsenceRequestSession;
+  }
+}
@@ -0,0 +1,135 @@
+import { Injectable } from '@nestjs/common';
+import { Brackets, In } from 'typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { ABSENCE_REQUEST_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
+import { AbsenceRequest } from '../entities/absence-request.entity';
+import { AbsenceRequestStatus } from '../enums/absence-request-status.enum';
+import { PaginateAbsenceRequestsDto } from '../dto/paginate-absence-requests.dto';
+
+@Injectable()
+export class AbsenceRequestsRepository extends BaseRepository<AbsenceRequest> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof AbsenceRequest {
+    return AbsenceRequest;
+  }
+
+  /**
+   * Paginate absence requests with their requested sessions
+   * @param filters - Center (staff view) and/or student (student/parent view)
+   * @param route - Route used for pagination links
+   */
+  async paginateAbsenceRequests(
+    paginateDto: PaginateAbsenceRequestsDto,
+    filters: { centerId?: string; studentUserProfileId?: string },
+    route: string,
+  ): Promise<Pagination<AbsenceRequest>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('absenceRequest')
+      .leftJoinAndSelect('absenceRequest.sessions', 'sessions');
+
+    if (filters.centerId) {
+      queryBuilder.andWhere('absenceRequest.centerId = :centerId', {
+        centerId: filters.centerId,
+      });
+    }
+
+    const studentUserProfileId =
+      filters.studentUserProfileId ?? paginateDto.studentUserProfileId;
+    if (studentUserProfileId) {
+      queryBuilder.andWhere(
+        'absenceRequest.studentUserProfileId = :studentUserProfileId',
+        { studentUserProfileId },
+      );
+    }
+
+    if (paginateDto.status) {
+      queryBuilder.andWhere('absenceRequest.status = :status', {
+        status: paginateDto.status,
+      });
+    }
+
+    return this.paginate(
+      paginateDto,
+      ABSENCE_REQUEST_PAGINATION_COLUMNS,
+      route,
+      queryBuilder,
+    );
+  }
+
+  async findWithSessions(id: string): Promise<AbsenceRequest | null> {
+    return this.getRepository().findOne({
+      where: { id },
+      relations: ['sessions'],
+    });
+  }
+
+  /**
+   * Check whether the student already has a pending or approved request
+   * covering any of the given sessions
+   */
+  async hasOpenRequestForSessions(
+    studentUserProfileId: string,
+    sessions: { groupId: string; startTime: Date }[],
+  ): Promise<boolean> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('absenceRequest')
+      .innerJoin('absenceRequest.sessions', 'sessions')
+      .where('absenceRequest.studentUserProfileId = :studentUserProfileId', {
+        studentUserProfileId,
+      })
+      .andWhere('absenceRequest.status IN (:...statuses)', {
+        statuses: [AbsenceRequestStatus.PENDING, AbsenceRequestStatus.APPROVED],
+      })
+      .andWhere(
+        new Brackets((qb) => {
+          sessions.forEach((session, index) => {
+            qb.orWhere(
+              `(sessions.groupId = :groupId${index} AND sessions.startTime = :startTime${index})`,
+              {
+                [`groupId${index}`]: session.groupId,
+                [`startTime${index}`]: session.startTime,
+              },
+            );
+          });
+        }),
+      );
+
+    return (await queryBuilder.getCount()) > 0;
+  }
+
+  /**
+   * Students with an approved absence request for a session
+   * @param groupId - Session group ID
+   * @param startTime - Session start time
+   * @param studentUserProfileIds - Students to check
+   */
+  async findExcusedStudentIds(
+    groupId: string,
+    startTime: Date,
+    studentUserProfileIds: string[],
+  ): Promise<Set<string>> {
+    if (studentUserProfileIds.length === 0) {
+      return new Set();
+    }
+
+    const requests = await this.getRepository().find({
+      select: { studentUserProfileId: true },
+      where: {
+        status: AbsenceRequestStatus.APPROVED,
+        studentUserProfileId: In(studentUserProfileIds),
+        sessions: { groupId, startTime },
+      },
+      relations: ['sessions'],
+    });
+
+    return new Set(requests.map((r) => r.studentUserProfileId));
+  }
+}
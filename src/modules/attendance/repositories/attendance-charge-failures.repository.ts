@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { AttendanceChargeFailure } from '../entities/attendance-charge-failure.entity';
+
+@Injectable()
+export class AttendanceChargeFailuresRepository extends BaseRepository<AttendanceChargeFailure> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof AttendanceChargeFailure {
+    return AttendanceChargeFailure;
+  }
+
+  async findBySessionAndStudent(
+    sessionId: string,
+    studentUserProfileId: string,
+  ): Promise<AttendanceChargeFailure | null> {
+    return this.getRepository().findOne({
+      where: { sessionId, studentUserProfileId },
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { AttendanceHistory } from '../entities/attendance-history.entity';
+
+@Injectable()
+export class AttendanceHistoryRepository extends BaseRepository<AttendanceHistory> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof AttendanceHistory {
+    return AttendanceHistory;
+  }
+
+  async findByAttendanceId(attendanceId: string): Promise<AttendanceHistory[]> {
+    return this.getRepository().find({
+      where: { attendanceId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { IsNull } from 'typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { AttendancePolicy } from '../entities/attendance-policy.entity';
+
+@Injectable()
+export class AttendancePoliciesRepository extends BaseRepository<AttendancePolicy> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof AttendancePolicy {
+    return AttendancePolicy;
+  }
+
+  async findByClassId(classId: string): Promise<AttendancePolicy | null> {
+    return this.getRepository().findOne({
+      where: { classId },
+    });
+  }
+
+  async findCenterDefault(centerId: string): Promise<AttendancePolicy | null> {
+    return this.getRepository().findOne({
+      where: { centerId, classId: IsNull() },
+    });
+  }
+}
@@ -5,6 +5,11 @@ import { TransactionHost } from '@nestjs-cls/transactional';
 import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
 import { AttendanceStatus } from '../enums/attendance-status.enum';
 import { Pagination } from '@/shared/common/types/pagination.types';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+import { STUDENT_ATTENDANCE_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
+import { AttendanceTimelineEntry } from '../utils/attendance-analytics.util';
+import { AutoChargeFailureSummary } from '../interfaces/auto-charge-failure.interface';
+import { AutoChargeFailureReason } from '../enums/auto-charge-failure-reason.enum';
 
 interface RosterRow {
   studentUserProfileId: string;
@@ -35,6 +40,15 @@ export class AttendanceRepository extends BaseRepository<Attendance> {
     });
   }
 
+  async findByIdempotencyKey(
+    idempotencyKey: string,
+    centerId: string,
+  ): Promise<Attendance | null> {
+    return this.getRepository().findOne({
+      where: { idempotencyKey, centerId },
+    });
+  }
+
   async findBySessionId(sessionId: string): Promise<Attendance[]> {
     return this.getRepository().find({
       where: { sessionId },
@@ -157,6 +171,122 @@ export class AttendanceRepository extends BaseRepository<Attendance> {
     };
   }
 
+  /**
+   * Paginate the attendance history of a single student across all sessions.
+   * Used by the parent-facing API.
+   *
+   * @param studentUserProfileId - Student user profile ID
+   * @param paginateDto - Pagination parameters with optional status filter
+   * @returns Paginated attendance records with session and group names
+   */
+  async paginateStudentAttendance(
+    studentUserProfileId: string,
+    paginateDto: BasePaginationDto & { status?: AttendanceStatus },
+  ): Promise<Pagination<Attendance>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('attendance')
+      .leftJoin('attendance.session', 'session')
+      .leftJoin('attendance.group', 'group')
+      .leftJoin('group.class', 'class')
+      .addSelect([
+        'session.id',
+        'session.title',
+        'session.startTime',
+        'session.endTime',
+        'session.status',
+        'group.id',
+        'group.name',
+        'class.id',
+        'class.name',
+      ])
+      .where('attendance.studentUserProfileId = :studentUserProfileId', {
+        studentUserProfileId,
+      });
+
+    if (paginateDto.status) {
+      queryBuilder.andWhere('attendance.status = :status', {
+        status: paginateDto.status,
+      });
+    }
+
+    return this.paginate(
+      paginateDto,
+      STUDENT_ATTENDANCE_PAGINATION_COLUMNS,
+      `/parents/children/${studentUserProfileId}/attendance`,
+      queryBuilder,
+    );
+  }
+
+  /**
+   * Attendance records with their session start time, oldest first.
+   * Feeds the per-student, per-group and at-risk analytics.
+   */
+  async findAttendanceTimeline(filters: {
+    centerId: string;
+    studentUserProfileIds?: string[];
+    groupId?: string;
+    classId?: string;
+    dateFrom?: Date;
+    dateTo?: Date;
+  }): Promise<AttendanceTimelineEntry[]> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('attendance')
+      .innerJoin('attendance.session', 'session')
+      .innerJoin('attendance.group', 'group')
+      .innerJoin('attendance.student', 'student')
+      .innerJoin('student.user', 'studentUser')
+      .innerJoin('centers', 'center', 'center.id = attendance.centerId')
+      .select([
+        'attendance.studentUserProfileId AS "studentUserProfileId"',
+        'studentUser.name AS "fullName"',
+        'student.code AS "studentCode"',
+        'attendance.groupId AS "groupId"',
+        'attendance.sessionId AS "sessionId"',
+        'session.startTime AS "startTime"',
+        'attendance.status AS "status"',
+        `TO_CHAR("session"."startTime" AT TIME ZONE "center"."timezone", 'YYYY-MM') AS "period"`,
+      ])
+      .where('attendance.centerId = :centerId', {
+        centerId: filters.centerId,
+      });
+
+    if (filters.studentUserProfileIds) {
+      queryBuilder.andWhere(
+        'attendance.studentUserProfileId IN (:...studentUserProfileIds)',
+        { studentUserProfileIds: filters.studentUserProfileIds },
+      );
+    }
+    if (filters.groupId) {
+      queryBuilder.andWhere('attendance.groupId = :groupId', {
+        groupId: filters.groupId,
+      });
+    }
+    if (filters.classId) {
+      queryBuilder.andWhere('group.classId = :classId', {
+        classId: filters.classId,
+      });
+    }
+    if (filters.dateFrom) {
+      queryBuilder.andWhere('session.startTime >= :dateFrom', {
+        dateFrom: filters.dateFrom,
+      });
+    }
+    if (filters.dateTo) {
+      queryBuilder.andWhere('session.startTime <= :dateTo', {
+        dateTo: filters.dateTo,
+      });
+    }
+
+    const rows = await queryBuilder
+      .orderBy('session.startTime', 'ASC')
+      .getRawMany<AttendanceTimelineEntry>();
+
+    return rows.map((row) => ({
+      ...row,
+      startTime: new Date(row.startTime),
+    }));
+  }
+
   async calculateSessionAttendanceStats(params: {
     sessionId: string;
     groupId: string;
@@ -226,6 +356,7 @@ export class AttendanceRepository extends BaseRepository<Attendance> {
       studentUserProfileId: string;
       fullName: string;
       studentCode?: string;
+      chargeFailure?: AutoChargeFailureSummary;
     }>
   > {
     const { sessionId, groupId, search } = params;
@@ -271,6 +402,9 @@ export class AttendanceRepository extends BaseRepository<Attendance> {
         'gs.studentUserProfileId as studentUserProfileId',
         'u.name as fullName',
         'up.code as studentCode',
+        'cf.reason as chargeFailureReason',
+        'cf.errorCode as chargeFailureCode',
+        'cf.updatedAt as chargeFailedAt',
       ])
       .innerJoin(
         'user_profiles',
@@ -284,6 +418,12 @@ export class AttendanceRepository extends BaseRepository<Attendance> {
         'a.sessionId = :sessionId AND a.studentUserProfileId = gs.studentUserProfileId',
         { sessionId },
       )
+      .leftJoin(
+        'attendance_charge_failures',
+        'cf',
+        'cf.sessionId = :sessionId AND cf.studentUserProfileId = gs.studentUserProfileId',
+        { sessionId },
+      )
       .where('gs.groupId = :groupId', { groupId })
       .andWhere('gs.leftAt IS NULL')
       .andWhere('a.studentUserProfileId IS NULL');
@@ -301,13 +441,29 @@ export class AttendanceRepository extends BaseRepository<Attendance> {
     // Add ordering and pagination
     dataQuery = dataQuery.orderBy('u.name', 'ASC').skip(skip).take(limit);
 
-    const rawResults = await dataQuery.getRawMany();
+    const rawResults = await dataQuery.getRawMany<{
+      studentuserprofileid: string;
+      fullname: string;
+      studentcode: string | null;
+      chargefailurereason: AutoChargeFailureReason | null;
+      chargefailurecode: string | null;
+      chargefailedat: Date | null;
+    }>();
 
     // Map to response format
-    const items = rawResults.map((row: any) => ({
+    const items = rawResults.map((row) => ({
       studentUserProfileId: row.studentuserprofileid,
       fullName: row.fullname,
       studentCode: row.studentcode || undefined,
+      // Set when the wallet auto-charge failed for this session
+      chargeFailure:
+        row.chargefailurereason && row.chargefailurecode && row.chargefailedat
+          ? {
+              reason: row.chargefailurereason,
+              errorCode: row.chargefailurecode,
+              failedAt: row.chargefailedat,
+            }
+          : undefined,
     }));
 
     const totalPages = Math.ceil(totalItems / limit);
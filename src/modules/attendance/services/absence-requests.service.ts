@@ -0,0 +1,353 @@
+import { Injectable } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { FileService } from '@/modules/file/services/file.service';
+import { SessionsRepository } from '@/modules/sessions/repositories/sessions.repository';
+import { SessionStatus } from '@/modules/sessions/enums/session-status.enum';
+import { SessionsErrors } from '@/modules/sessions/exceptions/sessions.errors';
+import { parseVirtualSessionId } from '@/modules/sessions/utils/virtual-session-id.util';
+import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
+import { GroupStudentsRepository } from '@/modules/classes/repositories/group-students.repository';
+import { AbsenceRequestsRepository } from '../repositories/absence-requests.repository';
+import { AbsenceRequestSessionsRepository } from '../repositories/absence-request-sessions.repository';
+import { AttendanceRepository } from '../repositories/attendance.repository';
+import { AttendanceService } from './attendance.service';
+import { AbsenceRequest } from '../entities/absence-request.entity';
+import { AbsenceRequestSession } from '../entities/absence-request-session.entity';
+import { AbsenceRequestStatus } from '../enums/absence-request-status.enum';
+import { AttendanceStatus } from '../enums/attendance-status.enum';
+import { AttendanceErrors } from '../exceptions/attendance.errors';
+import { CreateAbsenceRequestDto } from '../dto/create-absence-request.dto';
+import { ReviewAbsenceRequestDto } from '../dto/review-absence-request.dto';
+import { PaginateAbsenceRequestsDto } from '../dto/paginate-absence-requests.dto';
+
+interface RequestedSession {
+  centerId: string;
+  groupId: string;
+  startTime: Date;
+}
+
+@Injectable()
+export class AbsenceRequestsService extends BaseService {
+  constructor(
+    private readonly absenceRequestsRepository: AbsenceRequestsRepository,
+    private readonly absenceRequestSessionsRepository: AbsenceRequestSessionsRepository,
+    private readonly attendanceRepository: AttendanceRepository,
+    private readonly attendanceService: AttendanceService,
+    private readonly sessionsRepository: SessionsRepository,
+    private readonly groupsRepository: GroupsRepository,
+    private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly fileService: FileService,
+  ) {
+    super();
+  }
+
+  /**
+   * Submit an absence request for upcoming sessions of a student.
+   * Called for the student themself or by a parent after the child link check.
+   *
+   * @param studentUserProfileId - Student being excused
+   * @param dto - Requested sessions and reason
+   * @param attachment - Optional supporting document (e.g. medical note)
+   * @param actor - Student or parent submitting the request
+   */
+  async createAbsenceRequest(
+    studentUserProfileId: string,
+    dto: CreateAbsenceRequestDto,
+    attachment: Express.Multer.File | undefined,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest> {
+    const requested: RequestedSession[] = [];
+    for (const sessionId of new Set(dto.sessionIds)) {
+      requested.push(
+        await this.resolveUpcomingSession(
+          sessionId,
+          studentUserProfileId,
+          actor,
+        ),
+      );
+    }
+
+    const centerIds = new Set(requested.map((s) => s.centerId));
+    if (centerIds.size > 1) {
+      throw AttendanceErrors.absenceRequestSessionsDifferentCenters();
+    }
+
+    const hasOpenRequest =
+      await this.absenceRequestsRepository.hasOpenRequestForSessions(
+        studentUserProfileId,
+        requested,
+      );
+    if (hasOpenRequest) {
+      throw AttendanceErrors.absenceRequestAlreadyExists();
+    }
+
+    const request = await this.absenceRequestsRepository.create({
+      centerId: requested[0].centerId,
+      studentUserProfileId,
+      requestedByUserProfileId: actor.userProfileId,
+      reason: dto.reason,
+      status: AbsenceRequestStatus.PENDING,
+    });
+
+    for (const session of requested) {
+      await this.absenceRequestSessionsRepository.create({
+        absenceRequestId: request.id,
+        groupId: session.groupId,
+        startTime: session.startTime,
+      });
+    }
+
+    if (attachment) {
+      const file = await this.fileService.uploadFile(attachment, {
+        entityType: 'absence_request',
+        entityId: request.id,
+        fileType: 'absence_attachment',
+        description: 'Absence request attachment',
+      });
+      await this.absenceRequestsRepository.update(request.id, {
+        attachmentFileId: file.id,
+      });
+    }
+
+    return this.findRequestOrThrow(request.id);
+  }
+
+  async paginateAbsenceRequests(
+    paginateDto: PaginateAbsenceRequestsDto,
+    actor: ActorUser,
+  ): Promise<Pagination<AbsenceRequest>> {
+    return this.absenceRequestsRepository.paginateAbsenceRequests(
+      paginateDto,
+      { centerId: actor.centerId! },
+      'attendance/absence-requests',
+    );
+  }
+
+  /**
+   * Paginate the requests of a single student (student and parent views)
+   */
+  async paginateStudentAbsenceRequests(
+    studentUserProfileId: string,
+    paginateDto: PaginateAbsenceRequestsDto,
+    route: string,
+  ): Promise<Pagination<AbsenceRequest>> {
+    return this.absenceRequestsRepository.paginateAbsenceRequests(
+      paginateDto,
+      { studentUserProfileId },
+      route,
+    );
+  }
+
+  /**
+   * Get a request of the actor's center with a temporary attachment URL
+   */
+  async getAbsenceRequest(
+    absenceRequestId: string,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest & { attachmentUrl?: string }> {
+    const request = await this.findCenterRequestOrThrow(
+      absenceRequestId,
+      actor,
+    );
+
+    if (!request.attachmentFileId) {
+      return request;
+    }
+
+    const attachmentUrl = await this.fileService.getPresignedUrl(
+      request.attachmentFileId,
+    );
+    return Object.assign(request, { attachmentUrl });
+  }
+
+  /**
+   * Approve a pending request.
+   * Future sessions get EXCUSED rows when absences are marked; absences
+   * already recorded for the requested sessions are turned into EXCUSED.
+   */
+  async approveAbsenceRequest(
+    absenceRequestId: string,
+    dto: ReviewAbsenceRequestDto,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest> {
+    const request = await this.reviewRequest(
+      absenceRequestId,
+      AbsenceRequestStatus.APPROVED,
+      dto,
+      actor,
+    );
+
+    for (const item of request.sessions) {
+      await this.excuseRecordedAbsence(item, request, actor);
+    }
+
+    return request;
+  }
+
+  async rejectAbsenceRequest(
+    absenceRequestId: string,
+    dto: ReviewAbsenceRequestDto,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest> {
+    return this.reviewRequest(
+      absenceRequestId,
+      AbsenceRequestStatus.REJECTED,
+      dto,
+      actor,
+    );
+  }
+
+  private async reviewRequest(
+    absenceRequestId: string,
+    status: AbsenceRequestStatus.APPROVED | AbsenceRequestStatus.REJECTED,
+    dto: ReviewAbsenceRequestDto,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest> {
+    const request = await this.findCenterRequestOrThrow(
+      absenceRequestId,
+      actor,
+    );
+
+    if (request.status !== AbsenceRequestStatus.PENDING) {
+      throw AttendanceErrors.absenceRequestNotPending();
+    }
+
+    await this.absenceRequestsRepository.update(request.id, {
+      status,
+      reviewedByUserProfileId: actor.userProfileId,
+      reviewedAt: new Date(),
+      reviewNote: dto.note ?? null,
+    });
+
+    return this.findRequestOrThrow(request.id);
+  }
+
+  /**
+   * Turn an ABSENT row of a requested session into EXCUSED,
+   * recorded in the attendance history like any other correction
+   */
+  private async excuseRecordedAbsence(
+    item: AbsenceRequestSession,
+    request: AbsenceRequest,
+    actor: ActorUser,
+  ): Promise<void> {
+    const session = await this.sessionsRepository.findByGroupIdAndStartTime(
+      item.groupId,
+      item.startTime,
+    );
+    if (!session) {
+      return;
+    }
+
+    const attendance = await this.attendanceRepository.findBySessionAndStudent(
+      session.id,
+      request.studentUserProfileId,
+    );
+    if (!attendance || attendance.status !== AttendanceStatus.ABSENT) {
+      return;
+    }
+
+    await this.attendanceService.changeAttendanceStatus(
+      attendance,
+      session,
+      AttendanceStatus.EXCUSED,
+      `Approved absence request ${request.id}`,
+      actor,
+    );
+  }
+
+  /**
+   * Resolve a real or virtual session ID to an upcoming group slot
+   * the student is enrolled in
+   */
+  private async resolveUpcomingSession(
+    sessionId: string,
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<RequestedSession> {
+    let groupId: string;
+    let startTime: Date;
+
+    const virtual = parseVirtualSessionId(sessionId);
+    if (virtual) {
+      const match =
+        await this.sessionsRepository.findMatchingScheduleItemForCancelSession(
+          virtual.groupId,
+          virtual.startTime,
+        );
+      if (!match) {
+        throw SessionsErrors.sessionNotFound();
+      }
+      if (
+        match.existingSessionStatus &&
+        !this.isUpcomingStatus(match.existingSessionStatus)
+      ) {
+        throw AttendanceErrors.absenceRequestSessionNotUpcoming();
+      }
+      groupId = virtual.groupId;
+      startTime = match.calculatedStartTime;
+    } else {
+      const session = isUUID(sessionId)
+        ? await this.sessionsRepository.findOne(sessionId)
+        : null;
+      if (!session) {
+        throw SessionsErrors.sessionNotFound();
+      }
+      if (!this.isUpcomingStatus(session.status)) {
+        throw AttendanceErrors.absenceRequestSessionNotUpcoming();
+      }
+      groupId = session.groupId;
+      startTime = session.startTime;
+    }
+
+    if (startTime.getTime() <= Date.now()) {
+      throw AttendanceErrors.absenceRequestSessionNotUpcoming();
+    }
+
+    const group = await this.groupsRepository.findOne(groupId);
+    if (!group || (actor.centerId && group.centerId !== actor.centerId)) {
+      throw SessionsErrors.sessionNotFound();
+    }
+
+    const membership = await this.groupStudentsRepository.findByGroupAndStudent(
+      groupId,
+      studentUserProfileId,
+    );
+    if (!membership) {
+      throw AttendanceErrors.attendanceStudentNotEnrolled();
+    }
+
+    return { centerId: group.centerId, groupId, startTime };
+  }
+
+  private isUpcomingStatus(status: SessionStatus): boolean {
+    return (
+      status === SessionStatus.SCHEDULED || status === SessionStatus.CHECKING_IN
+    );
+  }
+
+  private async findCenterRequestOrThrow(
+    absenceRequestId: string,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest> {
+    const request = await this.findRequestOrThrow(absenceRequestId);
+    if (request.centerId !== actor.centerId) {
+      throw AttendanceErrors.absenceRequestNotFound();
+    }
+    return request;
+  }
+
+  private async findRequestOrThrow(
+    absenceRequestId: string,
+  ): Promise<AbsenceRequest> {
+    const request =
+      await this.absenceRequestsRepository.findWithSessions(absenceRequestId);
+    if (!request) {
+      throw AttendanceErrors.absenceRequestNotFound();
+    }
+    return request;
+  }
+}
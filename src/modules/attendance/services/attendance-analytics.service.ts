@@ -0,0 +1,259 @@
+import { Injectable } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
+import { ClassAccessService } from '@/modules/classes/services/class-access.service';
+import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { AttendanceEvents } from '@/shared/events/attendance.events.enum';
+import { AttendanceRepository } from '../repositories/attendance.repository';
+import { AttendancePoliciesService } from './attendance-policies.service';
+import {
+  AbsenceStreakReachedEvent,
+  StudentsMarkedAbsentEvent,
+} from '../events/attendance.events';
+import { StudentAttendanceAnalyticsQueryDto } from '../dto/student-attendance-analytics-query.dto';
+import { AtRiskStudentsQueryDto } from '../dto/at-risk-students-query.dto';
+import { DateRangeDto } from '@/shared/common/dto/date-range.dto';
+import {
+  AtRiskStudentDto,
+  GroupAttendanceAnalyticsDto,
+  GroupStudentAttendanceDto,
+  StudentAttendanceAnalyticsDto,
+} from '../dto/attendance-analytics-response.dto';
+import { AtRiskReason } from '../enums/at-risk-reason.enum';
+import {
+  AttendanceTimelineEntry,
+  buildMonthlyTrend,
+  computeAbsenceStreaks,
+  groupEntriesBy,
+  summarizeAttendance,
+} from '../utils/attendance-analytics.util';
+import {
+  ATTENDANCE_AT_RISK_DEFAULT_CONSECUTIVE_ABSENCES,
+  ATTENDANCE_AT_RISK_DEFAULT_MAX_LATE_RATE,
+  ATTENDANCE_AT_RISK_DEFAULT_MIN_ATTENDANCE_RATE,
+  ATTENDANCE_AT_RISK_DEFAULT_MIN_SESSIONS,
+} from '../constants/attendance.constants';
+
+@Injectable()
+export class AttendanceAnalyticsService extends BaseService {
+  constructor(
+    private readonly attendanceRepository: AttendanceRepository,
+    private readonly attendancePoliciesService: AttendancePoliciesService,
+    private readonly classesRepository: ClassesRepository,
+    private readonly groupsRepository: GroupsRepository,
+    private readonly branchAccessService: BranchAccessService,
+    private readonly classAccessService: ClassAccessService,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  /**
+   * Attendance rate, absence streaks and monthly trend of one student,
+   * optionally limited to one class
+   */
+  async getStudentAnalytics(
+    studentUserProfileId: string,
+    query: StudentAttendanceAnalyticsQueryDto,
+    actor: ActorUser,
+  ): Promise<StudentAttendanceAnalyticsDto> {
+    if (query.classId) {
+      await this.findClassAndValidateAccess(query.classId, actor);
+    }
+
+    const entries = await this.attendanceRepository.findAttendanceTimeline({
+      centerId: actor.centerId!,
+      studentUserProfileIds: [studentUserProfileId],
+      classId: query.classId,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+    });
+
+    // Streaks are only meaningful inside one group's session sequence
+    const groups = [...groupEntriesBy(entries, (e) => e.groupId)].map(
+      ([groupId, groupEntries]) => ({
+        groupId,
+        summary: summarizeAttendance(groupEntries),
+        absenceStreaks: computeAbsenceStreaks(groupEntries),
+      }),
+    );
+
+    return {
+      studentUserProfileId,
+      summary: summarizeAttendance(entries),
+      absenceStreaks: {
+        current: Math.max(0, ...groups.map((g) => g.absenceStreaks.current)),
+        longest: Math.max(0, ...groups.map((g) => g.absenceStreaks.longest)),
+      },
+      trend: buildMonthlyTrend(entries),
+      groups,
+    };
+  }
+
+  /**
+   * Attendance rate and monthly trend of a group, with a row per student
+   */
+  async getGroupAnalytics(
+    groupId: string,
+    query: DateRangeDto,
+    actor: ActorUser,
+  ): Promise<GroupAttendanceAnalyticsDto> {
+    const group = await this.groupsRepository.findByIdOrThrow(groupId);
+    await this.validateClassAccess(group.classId, group.branchId, actor);
+
+    const entries = await this.attendanceRepository.findAttendanceTimeline({
+      centerId: actor.centerId!,
+      groupId,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+    });
+
+    return {
+      groupId,
+      summary: summarizeAttendance(entries),
+      trend: buildMonthlyTrend(entries),
+      students: this.summarizeStudents(entries),
+    };
+  }
+
+  /**
+   * Students of a class crossing any of the at-risk thresholds,
+   * longest current absence streak first, then lowest attendance rate
+   */
+  async getClassAtRiskStudents(
+    classId: string,
+    query: AtRiskStudentsQueryDto,
+    actor: ActorUser,
+  ): Promise<AtRiskStudentDto[]> {
+    await this.findClassAndValidateAccess(classId, actor);
+
+    const consecutiveAbsences =
+      query.consecutiveAbsences ??
+      ATTENDANCE_AT_RISK_DEFAULT_CONSECUTIVE_ABSENCES;
+    const minAttendanceRate =
+      query.minAttendanceRate ?? ATTENDANCE_AT_RISK_DEFAULT_MIN_ATTENDANCE_RATE;
+    const maxLateRate =
+      query.maxLateRate ?? ATTENDANCE_AT_RISK_DEFAULT_MAX_LATE_RATE;
+    const minSessions =
+      query.minSessions ?? ATTENDANCE_AT_RISK_DEFAULT_MIN_SESSIONS;
+
+    const entries = await this.attendanceRepository.findAttendanceTimeline({
+      centerId: actor.centerId!,
+      classId,
+      dateFrom: query.dateFrom,
+      dateTo: query.dateTo,
+    });
+
+    const atRisk: AtRiskStudentDto[] = [];
+
+    for (const student of this.summarizeStudents(entries)) {
+      const reasons: AtRiskReason[] = [];
+      const { summary, absenceStreaks } = student;
+
+      if (absenceStreaks.current >= consecutiveAbsences) {
+        reasons.push(AtRiskReason.CONSECUTIVE_ABSENCES);
+      }
+
+      // Rates over a handful of sessions are too noisy to flag on
+      if (summary.totalSessions >= minSessions) {
+        if (
+          summary.attendanceRate !== null &&
+          summary.attendanceRate < minAttendanceRate
+        ) {
+          reasons.push(AtRiskReason.LOW_ATTENDANCE_RATE);
+        }
+        if (summary.lateRate !== null && summary.lateRate > maxLateRate) {
+          reasons.push(AtRiskReason.FREQUENT_LATENESS);
+        }
+      }
+
+      if (reasons.length > 0) {
+        atRisk.push({ ...student, reasons });
+      }
+    }
+
+    return atRisk.sort(
+      (a, b) =>
+        b.absenceStreaks.current - a.absenceStreaks.current ||
+        (a.summary.attendanceRate ?? 100) - (b.summary.attendanceRate ?? 100),
+    );
+  }
+
+  /**
+   * Emit AbsenceStreakReachedEvent for students whose consecutive absences
+   * in the group just reached the policy threshold. Firing only on the exact
+   * threshold notifies once per streak instead of on every later absence.
+   */
+  async detectAbsenceStreaks(event: StudentsMarkedAbsentEvent): Promise<void> {
+    const group = await this.groupsRepository.findByIdOrThrow(event.groupId);
+    const policy = await this.attendancePoliciesService.resolvePolicy(
+      event.centerId,
+      group.classId,
+    );
+
+    const entries = await this.attendanceRepository.findAttendanceTimeline({
+      centerId: event.centerId,
+      groupId: event.groupId,
+      studentUserProfileIds: event.studentUserProfileIds,
+    });
+
+    const byStudent = groupEntriesBy(entries, (e) => e.studentUserProfileId);
+
+    for (const [studentUserProfileId, studentEntries] of byStudent) {
+      const { current } = computeAbsenceStreaks(studentEntries);
+      if (current !== policy.absenceStreakAlertThreshold) {
+        continue;
+      }
+
+      await this.typeSafeEventEmitter.emitAsync(
+        AttendanceEvents.ABSENCE_STREAK_REACHED,
+        new AbsenceStreakReachedEvent(
+          studentUserProfileId,
+          event.groupId,
+          event.centerId,
+          current,
+        ),
+      );
+    }
+  }
+
+  private summarizeStudents(
+    entries: AttendanceTimelineEntry[],
+  ): GroupStudentAttendanceDto[] {
+    const byStudent = groupEntriesBy(entries, (e) => e.studentUserProfileId);
+
+    return [...byStudent.values()].map((studentEntries) => ({
+      studentUserProfileId: studentEntries[0].studentUserProfileId,
+      fullName: studentEntries[0].fullName,
+      studentCode: studentEntries[0].studentCode,
+      summary: summarizeAttendance(studentEntries),
+      absenceStreaks: computeAbsenceStreaks(studentEntries),
+    }));
+  }
+
+  private async findClassAndValidateAccess(classId: string, actor: ActorUser) {
+    const classEntity = await this.classesRepository.findOneOrThrow(classId);
+    await this.validateClassAccess(classEntity.id, classEntity.branchId, actor);
+    return classEntity;
+  }
+
+  private async validateClassAccess(
+    classId: string,
+    branchId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: actor.centerId!,
+      branchId,
+    });
+
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId,
+    });
+  }
+}
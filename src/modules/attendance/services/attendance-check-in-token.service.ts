@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Config } from '@/shared/config/config';
+import { RedisService } from '@/shared/modules/redis/redis.service';
+import { ActivityLogService } from '@/shared/modules/activity-log/services/activity-log.service';
+import { AttendanceErrors } from '../exceptions/attendance.errors';
+import { AttendanceActivityType } from '../enums/attendance-activity-type.enum';
+import { CheckInTokenRejectionReason } from '../enums/check-in-token-rejection-reason.enum';
+import {
+  ATTENDANCE_CHECK_IN_TOKEN_ROTATION_SECONDS,
+  ATTENDANCE_CHECK_IN_TOKEN_VALID_WINDOWS,
+} from '../constants/attendance.constants';
+
+export interface IssuedCheckInToken {
+  token: string;
+  rotatesAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Issues and verifies rotating self check-in tokens.
+ * A token is `<window>.<signature>` where the signature is an HMAC of the
+ * session ID and the rotation window, so it cannot be reused for another
+ * session and expires after a few rotations.
+ */
+@Injectable()
+export class AttendanceCheckInTokenService {
+  private readonly logger = new Logger(AttendanceCheckInTokenService.name);
+  private readonly rotationMs =
+    ATTENDANCE_CHECK_IN_TOKEN_ROTATION_SECONDS * 1000;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly activityLogService: ActivityLogService,
+  ) {}
+
+  issueToken(sessionId: string, now: Date = new Date()): IssuedCheckInToken {
+    const window = this.getWindow(now);
+
+    return {
+      token: `${window}.${this.sign(sessionId, window)}`,
+      rotatesAt: new Date((window + 1) * this.rotationMs),
+      expiresAt: new Date(
+        (window + ATTENDANCE_CHECK_IN_TOKEN_VALID_WINDOWS) * this.rotationMs,
+      ),
+    };
+  }
+
+  /**
+   * Verify a scanned token for a student and consume it.
+   * Rejected tokens are written to the activity log before throwing.
+   *
+   * @throws AttendanceErrors.attendanceCheckInTokenInvalid() if malformed or forged
+   * @throws AttendanceErrors.attendanceCheckInTokenExpired() if too old
+   * @throws AttendanceErrors.attendanceCheckInTokenReplayed() if already used by the student
+   */
+  async verifyAndConsumeToken(
+    sessionId: string,
+    token: string,
+    studentUserProfileId: string,
+  ): Promise<void> {
+    const [windowPart, signature, ...rest] = token.split('.');
+    const window = Number(windowPart);
+
+    if (!signature || rest.length > 0 || !Number.isSafeInteger(window)) {
+      await this.reject(
+        sessionId,
+        studentUserProfileId,
+        CheckInTokenRejectionReason.MALFORMED,
+      );
+      throw AttendanceErrors.attendanceCheckInTokenInvalid();
+    }
+
+    if (!this.isSignatureValid(sessionId, window, signature)) {
+      await this.reject(
+        sessionId,
+        studentUserProfileId,
+        CheckInTokenRejectionReason.INVALID_SIGNATURE,
+      );
+      throw AttendanceErrors.attendanceCheckInTokenInvalid();
+    }
+
+    const currentWindow = this.getWindow(new Date());
+    if (
+      window > currentWindow ||
+      currentWindow - window >= ATTENDANCE_CHECK_IN_TOKEN_VALID_WINDOWS
+    ) {
+      await this.reject(
+        sessionId,
+        studentUserProfileId,
+        CheckInTokenRejectionReason.EXPIRED,
+        { window, currentWindow },
+      );
+      throw AttendanceErrors.attendanceCheckInTokenExpired();
+    }
+
+    if (await this.isReplayed(sessionId, window, studentUserProfileId)) {
+      await this.reject(
+        sessionId,
+        studentUserProfileId,
+        CheckInTokenRejectionReason.REPLAYED,
+        { window },
+      );
+      throw AttendanceErrors.attendanceCheckInTokenReplayed();
+    }
+  }
+
+  private getWindow(date: Date): number {
+    return Math.floor(date.getTime() / this.rotationMs);
+  }
+
+  private sign(sessionId: string, window: number): string {
+    return createHmac('sha256', Config.attendance.checkInSecret)
+      .update(`${sessionId}:${window}`)
+      .digest('base64url');
+  }
+
+  private isSignatureValid(
+    sessionId: string,
+    window: number,
+    signature: string,
+  ): boolean {
+    const expected = Buffer.from(this.sign(sessionId, window));
+    const actual = Buffer.from(signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * Atomically mark the token as used by the student.
+   * Returns true if the student already used this token.
+   */
+  private async isReplayed(
+    sessionId: string,
+    window: number,
+    studentUserProfileId: string,
+  ): Promise<boolean> {
+    const key = `${Config.redis.keyPrefix}:attendance:check-in:${sessionId}:${window}:${studentUserProfileId}`;
+    const ttlSeconds =
+      ATTENDANCE_CHECK_IN_TOKEN_ROTATION_SECONDS *
+      (ATTENDANCE_CHECK_IN_TOKEN_VALID_WINDOWS + 1);
+
+    try {
+      const result = await this.redisService
+        .getClient()
+        .set(key, Date.now().toString(), 'EX', ttlSeconds, 'NX');
+      return result === null;
+    } catch (error) {
+      // Fail open - the attendance unique constraint still prevents duplicates
+      this.logger.error(
+        `Failed to record check-in token use for session ${sessionId}`,
+        error instanceof Error ? error.stack : String(error),
+      );
+      return false;
+    }
+  }
+
+  private async reject(
+    sessionId: string,
+    studentUserProfileId: string,
+    reason: CheckInTokenRejectionReason,
+    metadata: Record<string, unknown> = {},
+  ): Promise<void> {
+    this.logger.warn(
+      `Rejected check-in token for session ${sessionId}: ${reason}`,
+      { studentUserProfileId },
+    );
+
+    await this.activityLogService.log(
+      AttendanceActivityType.ATTENDANCE_CHECK_IN_TOKEN_REJECTED,
+      { sessionId, reason, ...metadata },
+      null,
+      studentUserProfileId,
+    );
+  }
+}
@@ -0,0 +1,216 @@
+import { Injectable } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { ClassAccessService } from '@/modules/classes/services/class-access.service';
+import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
+import { AttendancePoliciesRepository } from '../repositories/attendance-policies.repository';
+import { AttendancePolicy } from '../entities/attendance-policy.entity';
+import { AttendancePolicyDto } from '../dto/attendance-policy.dto';
+import { EffectiveAttendancePolicy } from '../interfaces/attendance-policy.interface';
+import { AttendancePolicySource } from '../enums/attendance-policy-source.enum';
+import { AttendanceErrors } from '../exceptions/attendance.errors';
+import {
+  ATTENDANCE_ABSENCE_STREAK_ALERT_THRESHOLD,
+  ATTENDANCE_LATE_GRACE_MINUTES,
+} from '../constants/attendance.constants';
+
+@Injectable()
+export class AttendancePoliciesService extends BaseService {
+  constructor(
+    private readonly attendancePoliciesRepository: AttendancePoliciesRepository,
+    private readonly classesRepository: ClassesRepository,
+    private readonly branchAccessService: BranchAccessService,
+    private readonly classAccessService: ClassAccessService,
+  ) {
+    super();
+  }
+
+  /**
+   * Resolve the policy applied to a class: its own policy,
+   * else the center default, else the built-in defaults.
+   */
+  async resolvePolicy(
+    centerId: string,
+    classId: string,
+  ): Promise<EffectiveAttendancePolicy> {
+    const classPolicy =
+      await this.attendancePoliciesRepository.findByClassId(classId);
+    if (classPolicy) {
+      return this.toEffectivePolicy(classPolicy, AttendancePolicySource.CLASS);
+    }
+
+    return this.resolveCenterPolicy(centerId);
+  }
+
+  async getCenterPolicy(actor: ActorUser): Promise<EffectiveAttendancePolicy> {
+    return this.resolveCenterPolicy(actor.centerId!);
+  }
+
+  /**
+   * Create or replace the center-wide default policy
+   */
+  async upsertCenterPolicy(
+    dto: AttendancePolicyDto,
+    actor: ActorUser,
+  ): Promise<EffectiveAttendancePolicy> {
+    this.validatePolicy(dto);
+
+    const existing = await this.attendancePoliciesRepository.findCenterDefault(
+      actor.centerId!,
+    );
+    const policy = await this.savePolicy(existing, dto, {
+      centerId: actor.centerId!,
+      classId: null,
+    });
+
+    return this.toEffectivePolicy(policy, AttendancePolicySource.CENTER);
+  }
+
+  async getClassPolicy(
+    classId: string,
+    actor: ActorUser,
+  ): Promise<EffectiveAttendancePolicy> {
+    const classEntity = await this.findClassAndValidateAccess(classId, actor);
+    return this.resolvePolicy(classEntity.centerId, classEntity.id);
+  }
+
+  /**
+   * Create or replace the policy of a class, overriding the center default
+   */
+  async upsertClassPolicy(
+    classId: string,
+    dto: AttendancePolicyDto,
+    actor: ActorUser,
+  ): Promise<EffectiveAttendancePolicy> {
+    this.validatePolicy(dto);
+
+    const classEntity = await this.findClassAndValidateAccess(classId, actor);
+    const existing =
+      await this.attendancePoliciesRepository.findByClassId(classId);
+    const policy = await this.savePolicy(existing, dto, {
+      centerId: classEntity.centerId,
+      classId: classEntity.id,
+    });
+
+    return this.toEffectivePolicy(policy, AttendancePolicySource.CLASS);
+  }
+
+  /**
+   * Remove the policy of a class so it falls back to the center default
+   */
+  async removeClassPolicy(
+    classId: string,
+    actor: ActorUser,
+  ): Promise<EffectiveAttendancePolicy> {
+    const classEntity = await this.findClassAndValidateAccess(classId, actor);
+    const existing =
+      await this.attendancePoliciesRepository.findByClassId(classId);
+
+    if (!existing) {
+      throw AttendanceErrors.attendancePolicyNotFound();
+    }
+
+    await this.attendancePoliciesRepository.remove(existing.id);
+
+    return this.resolvePolicy(classEntity.centerId, classEntity.id);
+  }
+
+  private async resolveCenterPolicy(
+    centerId: string,
+  ): Promise<EffectiveAttendancePolicy> {
+    const centerPolicy =
+      await this.attendancePoliciesRepository.findCenterDefault(centerId);
+    if (centerPolicy) {
+      return this.toEffectivePolicy(
+        centerPolicy,
+        AttendancePolicySource.CENTER,
+      );
+    }
+
+    return {
+      lateGraceMinutes: ATTENDANCE_LATE_GRACE_MINUTES,
+      absentAfterMinutes: null,
+      checkInCutoffMinutes: null,
+      autoMarkAbsentOnFinish: false,
+      absenceStreakAlertThreshold: ATTENDANCE_ABSENCE_STREAK_ALERT_THRESHOLD,
+      autoChargeSessionFromWallet: false,
+      source: AttendancePolicySource.DEFAULT,
+    };
+  }
+
+  /**
+   * Offsets must not decrease: late grace <= absent cutoff <= check-in cutoff
+   */
+  private validatePolicy(dto: AttendancePolicyDto): void {
+    const absentAfter = dto.absentAfterMinutes ?? null;
+    const cutoff = dto.checkInCutoffMinutes ?? null;
+
+    if (absentAfter !== null && absentAfter < dto.lateGraceMinutes) {
+      throw AttendanceErrors.attendancePolicyInvalid();
+    }
+
+    if (
+      cutoff !== null &&
+      (cutoff < dto.lateGraceMinutes ||
+        (absentAfter !== null && cutoff < absentAfter))
+    ) {
+      throw AttendanceErrors.attendancePolicyInvalid();
+    }
+  }
+
+  private async savePolicy(
+    existing: AttendancePolicy | null,
+    dto: AttendancePolicyDto,
+    scope: { centerId: string; classId: string | null },
+  ): Promise<AttendancePolicy> {
+    const data = {
+      lateGraceMinutes: dto.lateGraceMinutes,
+      absentAfterMinutes: dto.absentAfterMinutes ?? null,
+      checkInCutoffMinutes: dto.checkInCutoffMinutes ?? null,
+      autoMarkAbsentOnFinish: dto.autoMarkAbsentOnFinish,
+      absenceStreakAlertThreshold:
+        dto.absenceStreakAlertThreshold ??
+        ATTENDANCE_ABSENCE_STREAK_ALERT_THRESHOLD,
+      autoChargeSessionFromWallet: dto.autoChargeSessionFromWallet ?? false,
+    };
+
+    if (existing) {
+      return this.attendancePoliciesRepository.updateThrow(existing.id, data);
+    }
+
+    return this.attendancePoliciesRepository.create({ ...scope, ...data });
+  }
+
+  private async findClassAndValidateAccess(classId: string, actor: ActorUser) {
+    const classEntity = await this.classesRepository.findOneOrThrow(classId);
+
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: actor.centerId!,
+      branchId: classEntity.branchId,
+    });
+
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId: classEntity.id,
+    });
+
+    return classEntity;
+  }
+
+  private toEffectivePolicy(
+    policy: AttendancePolicy,
+    source: AttendancePolicySource,
+  ): EffectiveAttendancePolicy {
+    return {
+      lateGraceMinutes: policy.lateGraceMinutes,
+      absentAfterMinutes: policy.absentAfterMinutes ?? null,
+      checkInCutoffMinutes: policy.checkInCutoffMinutes ?? null,
+      autoMarkAbsentOnFinish: policy.autoMarkAbsentOnFinish,
+      absenceStreakAlertThreshold: policy.absenceStreakAlertThreshold,
+      autoChargeSessionFromWallet: policy.autoChargeSessionFromWallet,
+      source,
+    };
+  }
+}
@@ -10,7 +10,6 @@ import { BranchAccessService } from '@/modules/centers/services/branch-access.se
 import { ClassAccessService } from '@/modules/classes/services/class-access.service';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { AttendanceStatus } from '../enums/attendance-status.enum';
-import { ATTENDANCE_LATE_GRACE_MINUTES } from '../constants/attendance.constants';
 import { Attendance } from '../entities/attendance.entity';
 import { UserService } from '@/modules/user/services/user.service';
 import { SessionRosterStudentDto } from '../dto/session-roster-response.dto';
@@ -25,6 +24,42 @@ import { StudentBillingService } from '@/modules/student-billing/services/studen
 import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
 import { AttendanceEvents } from '@/shared/events/attendance.events.enum';
 import { StudentsMarkedAbsentEvent } from '../events/attendance.events';
+import { Propagation, Transactional } from '@nestjs-cls/transactional';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { Group } from '@/modules/classes/entities/group.entity';
+import { SessionsErrors } from '@/modules/sessions/exceptions/sessions.errors';
+import { ActivityLogService } from '@/shared/modules/activity-log/services/activity-log.service';
+import { AttendanceCheckInTokenService } from './attendance-check-in-token.service';
+import { AttendanceActivityType } from '../enums/attendance-activity-type.enum';
+import { CheckInTokenResponseDto } from '../dto/check-in-token-response.dto';
+import { SelfCheckInDto } from '../dto/self-check-in.dto';
+import { AbsenceRequestsRepository } from '../repositories/absence-requests.repository';
+import { AttendanceHistoryRepository } from '../repositories/attendance-history.repository';
+import { AttendanceHistory } from '../entities/attendance-history.entity';
+import { CorrectAttendanceDto } from '../dto/correct-attendance.dto';
+import { AttendancePoliciesService } from './attendance-policies.service';
+import { EffectiveAttendancePolicy } from '../interfaces/attendance-policy.interface';
+import {
+  OfflineAttendanceScanDto,
+  SyncOfflineAttendanceDto,
+} from '../dto/sync-offline-attendance.dto';
+import {
+  OfflineAttendanceItemResultDto,
+  SyncOfflineAttendanceResponseDto,
+} from '../dto/sync-offline-attendance-response.dto';
+import { OfflineAttendanceItemStatus } from '../enums/offline-attendance-item-status.enum';
+import { AttendanceErrorCode } from '../enums/attendance.codes';
+import {
+  ATTENDANCE_OFFLINE_CLOCK_SKEW_SECONDS,
+  ATTENDANCE_OFFLINE_SCAN_CORRECTION_REASON,
+} from '../constants/attendance.constants';
+import { DomainException } from '@/shared/common/exceptions/domain.exception';
+import { AttendanceChargeFailuresRepository } from '../repositories/attendance-charge-failures.repository';
+import { AutoChargeFailureReason } from '../enums/auto-charge-failure-reason.enum';
+import { AutoChargeFailureSummary } from '../interfaces/auto-charge-failure.interface';
+import { FinanceErrorCode } from '@/modules/finance/enums/finance.codes';
+import { StudentBillingErrorCode } from '@/modules/student-billing/enums/student-billing.codes';
+import { UserProfileErrorCode } from '@/modules/user-profile/enums/user-profile.codes';
 
 @Injectable()
 export class AttendanceService {
@@ -40,15 +75,25 @@ export class AttendanceService {
     private readonly userProfileRepository: UserProfileRepository,
     private readonly studentBillingService: StudentBillingService,
     private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+    private readonly checkInTokenService: AttendanceCheckInTokenService,
+    private readonly activityLogService: ActivityLogService,
+    private readonly absenceRequestsRepository: AbsenceRequestsRepository,
+    private readonly attendanceHistoryRepository: AttendanceHistoryRepository,
+    private readonly attendancePoliciesService: AttendancePoliciesService,
+    private readonly attendanceChargeFailuresRepository: AttendanceChargeFailuresRepository,
   ) {}
 
-  private async validateSessionAndAccess(sessionId: string, actor: ActorUser) {
+  private async validateSessionAndAccess(
+    sessionId: string,
+    actor: ActorUser,
+    allowedStatuses: SessionStatus[] = [
+      SessionStatus.CHECKING_IN,
+      SessionStatus.CONDUCTING,
+    ],
+  ) {
     const session = await this.sessionsRepository.findOneOrThrow(sessionId);
 
-    if (
-      session.status !== SessionStatus.CHECKING_IN &&
-      session.status !== SessionStatus.CONDUCTING
-    ) {
+    if (!allowedStatuses.includes(session.status)) {
       throw AttendanceErrors.attendanceSessionNotActive();
     }
 
@@ -62,17 +107,31 @@ export class AttendanceService {
       branchId: group.branchId,
     });
 
-    await this.classAccessService.validateClassAccess({
+    await this.classAccessService.validateSessionAccess({
       userProfileId: actor.userProfileId,
       classId: group.classId,
+      sessionId: session.id,
     });
 
     return { session, group };
   }
 
-  private computeStatus(now: Date, scheduledStartTime: Date): AttendanceStatus {
-    const graceMs = ATTENDANCE_LATE_GRACE_MINUTES * 60 * 1000;
-    return now.getTime() > scheduledStartTime.getTime() + graceMs
+  private computeStatus(
+    now: Date,
+    scheduledStartTime: Date,
+    policy: EffectiveAttendancePolicy,
+  ): AttendanceStatus {
+    const minutesLate =
+      (now.getTime() - scheduledStartTime.getTime()) / (60 * 1000);
+
+    if (
+      policy.absentAfterMinutes !== null &&
+      minutesLate > policy.absentAfterMinutes
+    ) {
+      return AttendanceStatus.ABSENT;
+    }
+
+    return minutesLate > policy.lateGraceMinutes
       ? AttendanceStatus.LATE
       : AttendanceStatus.PRESENT;
   }
@@ -156,6 +215,260 @@ export class AttendanceService {
       actor,
     );
 
+    return this.recordAttendance(session, group, userProfileId, actor);
+  }
+
+  /**
+   * Issue the current rotating QR token for student self check-in.
+   * Only available while the session is CHECKING_IN.
+   */
+  async getCheckInToken(
+    sessionId: string,
+    actor: ActorUser,
+  ): Promise<CheckInTokenResponseDto> {
+    const { session } = await this.validateSessionAndAccess(sessionId, actor);
+
+    if (session.status !== SessionStatus.CHECKING_IN) {
+      throw AttendanceErrors.attendanceSessionNotActive();
+    }
+
+    return {
+      sessionId: session.id,
+      ...this.checkInTokenService.issueToken(session.id),
+    };
+  }
+
+  /**
+   * Mark the acting student present (or late) using a scanned QR token.
+   * The token is verified outside the attendance transaction so rejected
+   * attempts stay in the activity log.
+   */
+  async selfCheckIn(
+    dto: SelfCheckInDto,
+    actor: ActorUser,
+  ): Promise<AttendanceResponseDto> {
+    await this.checkInTokenService.verifyAndConsumeToken(
+      dto.sessionId,
+      dto.token,
+      actor.userProfileId,
+    );
+
+    return this.checkInStudent(dto.sessionId, actor);
+  }
+
+  @Transactional()
+  private async checkInStudent(
+    sessionId: string,
+    actor: ActorUser,
+  ): Promise<AttendanceResponseDto> {
+    const session = await this.sessionsRepository.findOneOrThrow(sessionId);
+    if (session.centerId !== actor.centerId) {
+      throw SessionsErrors.sessionNotFound();
+    }
+
+    if (session.status !== SessionStatus.CHECKING_IN) {
+      throw AttendanceErrors.attendanceSessionNotActive();
+    }
+
+    const group = await this.groupsRepository.findByIdOrThrow(session.groupId, [
+      'class',
+    ]);
+
+    const attendance = await this.recordAttendance(
+      session,
+      group,
+      actor.userProfileId,
+      actor,
+    );
+
+    await this.activityLogService.log(
+      AttendanceActivityType.ATTENDANCE_SELF_CHECK_IN,
+      { sessionId, attendanceId: attendance.id, status: attendance.status },
+      null,
+      actor.userProfileId,
+    );
+
+    return attendance;
+  }
+
+  /**
+   * Apply scans captured while the branch was offline, oldest first.
+   * Each scan commits on its own and gets its own result, so duplicates and
+   * rejected scans do not fail the rest of the batch.
+   * The session may already be FINISHED by the time the device reconnects;
+   * scans captured before the finish replace the absences it auto-marked.
+   */
+  async syncOfflineAttendance(
+    dto: SyncOfflineAttendanceDto,
+    actor: ActorUser,
+  ): Promise<SyncOfflineAttendanceResponseDto> {
+    const { session, group } = await this.validateSessionAndAccess(
+      dto.sessionId,
+      actor,
+      [
+        SessionStatus.CHECKING_IN,
+        SessionStatus.CONDUCTING,
+        SessionStatus.FINISHED,
+      ],
+    );
+
+    const scans = [...dto.scans].sort(
+      (a, b) => a.capturedAt.getTime() - b.capturedAt.getTime(),
+    );
+
+    const items: OfflineAttendanceItemResultDto[] = [];
+    for (const scan of scans) {
+      items.push(await this.applyOfflineScan(session, group, scan, actor));
+    }
+
+    const recorded = items.filter(
+      (item) => item.status === OfflineAttendanceItemStatus.RECORDED,
+    ).length;
+    const duplicates = items.filter(
+      (item) => item.status === OfflineAttendanceItemStatus.DUPLICATE,
+    ).length;
+    const failed = items.length - recorded - duplicates;
+
+    if (recorded > 0 && session.status === SessionStatus.FINISHED) {
+      await this.refreshSessionAttendanceCounts(session);
+    }
+
+    await this.activityLogService.log(
+      AttendanceActivityType.ATTENDANCE_OFFLINE_SYNCED,
+      {
+        sessionId: session.id,
+        total: items.length,
+        recorded,
+        duplicates,
+        failed,
+      },
+    );
+
+    return {
+      sessionId: session.id,
+      total: items.length,
+      recorded,
+      duplicates,
+      failed,
+      items,
+    };
+  }
+
+  private async applyOfflineScan(
+    session: Session,
+    group: Group,
+    scan: OfflineAttendanceScanDto,
+    actor: ActorUser,
+  ): Promise<OfflineAttendanceItemResultDto> {
+    const result = {
+      idempotencyKey: scan.idempotencyKey,
+      studentUserProfileId: scan.studentUserProfileId,
+    };
+
+    const existing = await this.attendanceRepository.findByIdempotencyKey(
+      scan.idempotencyKey,
+      session.centerId,
+    );
+    if (existing) {
+      return {
+        ...result,
+        status: OfflineAttendanceItemStatus.DUPLICATE,
+        attendance: await this.toAttendanceResponseDto(
+          existing,
+          existing.studentUserProfileId,
+          actor,
+        ),
+      };
+    }
+
+    try {
+      const attendance = await this.recordOfflineScan(
+        session,
+        group,
+        scan,
+        actor,
+      );
+      return {
+        ...result,
+        status: OfflineAttendanceItemStatus.RECORDED,
+        attendance,
+      };
+    } catch (error) {
+      // Unexpected errors still fail the request; scans applied before it
+      // are committed and come back as DUPLICATE when the batch is retried
+      if (!(error instanceof DomainException)) {
+        throw error;
+      }
+
+      return {
+        ...result,
+        status: this.toOfflineItemStatus(error.errorCode),
+        errorCode: error.errorCode,
+        details: error.details,
+      };
+    }
+  }
+
+  @Transactional()
+  private async recordOfflineScan(
+    session: Session,
+    group: Group,
+    scan: OfflineAttendanceScanDto,
+    actor: ActorUser,
+  ): Promise<AttendanceResponseDto> {
+    const now = Date.now();
+    if (
+      scan.capturedAt.getTime() >
+      now + ATTENDANCE_OFFLINE_CLOCK_SKEW_SECONDS * 1000
+    ) {
+      throw AttendanceErrors.attendanceCapturedInFuture();
+    }
+
+    return this.recordAttendance(
+      session,
+      group,
+      scan.studentUserProfileId,
+      actor,
+      {
+        // Small device clock drift ahead of the server counts as now
+        capturedAt: new Date(Math.min(scan.capturedAt.getTime(), now)),
+        idempotencyKey: scan.idempotencyKey,
+      },
+    );
+  }
+
+  private toOfflineItemStatus(
+    errorCode: DomainException['errorCode'],
+  ): OfflineAttendanceItemStatus {
+    switch (errorCode) {
+      case AttendanceErrorCode.ATTENDANCE_ALREADY_EXISTS:
+        return OfflineAttendanceItemStatus.ALREADY_MARKED;
+      case AttendanceErrorCode.ATTENDANCE_STUDENT_NOT_ENROLLED:
+        return OfflineAttendanceItemStatus.NOT_ENROLLED;
+      case AttendanceErrorCode.ATTENDANCE_PAYMENT_REQUIRED:
+      case AttendanceErrorCode.ATTENDANCE_AUTO_CHARGE_FAILED:
+        return OfflineAttendanceItemStatus.PAYMENT_REQUIRED;
+      default:
+        return OfflineAttendanceItemStatus.REJECTED;
+    }
+  }
+
+  /**
+   * Create the attendance record of a student.
+   * Offline scans pass their capture time, which is used instead of the
+   * current time for the status and the check-in cutoff. An offline scan
+   * captured before the session finished replaces the ABSENT row the auto
+   * mark-absent wrote on finish.
+   */
+  private async recordAttendance(
+    session: Session,
+    group: Group,
+    userProfileId: string,
+    actor: ActorUser,
+    offline?: { capturedAt: Date; idempotencyKey: string },
+  ): Promise<AttendanceResponseDto> {
+    const sessionId = session.id;
+
     const membership = await this.groupStudentsRepository.findByGroupAndStudent(
       group.id,
       userProfileId,
@@ -165,6 +478,11 @@ export class AttendanceService {
       throw AttendanceErrors.attendanceStudentNotEnrolled();
     }
 
+    const policy = await this.attendancePoliciesService.resolvePolicy(
+      session.centerId,
+      group.classId,
+    );
+
     // Check billing access - student must have paid for this session or have active monthly subscription
     const hasBillingAccess =
       await this.studentBillingService.checkStudentAccess(
@@ -173,25 +491,54 @@ export class AttendanceService {
         sessionId,
       );
 
-    if (!hasBillingAccess) {
+    if (!hasBillingAccess && !policy.autoChargeSessionFromWallet) {
       // Get payment strategy details for better error message
       const paymentStrategy =
         await this.studentBillingService.getClassPaymentStrategy(group.classId);
       throw AttendanceErrors.attendancePaymentRequired(paymentStrategy);
     }
 
-    const now = new Date();
-    const status = this.computeStatus(now, session.startTime);
+    const now = offline?.capturedAt ?? new Date();
+    if (
+      policy.checkInCutoffMinutes !== null &&
+      now.getTime() >
+        session.startTime.getTime() + policy.checkInCutoffMinutes * 60 * 1000
+    ) {
+      throw AttendanceErrors.attendanceCheckInClosed();
+    }
+
+    const status = this.computeStatus(now, session.startTime, policy);
 
     const existing = await this.attendanceRepository.findBySessionAndStudent(
       sessionId,
       userProfileId,
     );
 
-    if (existing) {
+    if (
+      existing &&
+      !(
+        offline &&
+        this.isReplaceableAutoAbsence(existing, session, offline.capturedAt)
+      )
+    ) {
       throw AttendanceErrors.attendanceAlreadyExists();
     }
 
+    // Charge last so a rejected check-in never reaches the wallet
+    if (!hasBillingAccess) {
+      await this.chargeSessionFromWallet(session, userProfileId, actor);
+    }
+
+    if (existing && offline) {
+      const replaced = await this.replaceAutoMarkedAbsence(
+        existing,
+        status,
+        actor,
+        offline,
+      );
+      return this.toAttendanceResponseDto(replaced, userProfileId, actor);
+    }
+
     // Create attendance record with race condition protection
     const attendanceData = {
       centerId: session.centerId,
@@ -201,6 +548,8 @@ export class AttendanceService {
       studentUserProfileId: userProfileId,
       status,
       markedByUserProfileId: actor.userProfileId,
+      capturedAt: offline?.capturedAt,
+      idempotencyKey: offline?.idempotencyKey,
     };
 
     let attendance: Attendance;
@@ -232,6 +581,135 @@ export class AttendanceService {
     return this.toAttendanceResponseDto(attendance, userProfileId, actor);
   }
 
+  private isReplaceableAutoAbsence(
+    attendance: Attendance,
+    session: Session,
+    capturedAt: Date,
+  ): boolean {
+    return (
+      attendance.autoMarkedAbsent &&
+      attendance.status === AttendanceStatus.ABSENT &&
+      !!session.actualFinishTime &&
+      capturedAt.getTime() < session.actualFinishTime.getTime()
+    );
+  }
+
+  /**
+   * Give an auto ABSENT row the status and capture details of an offline
+   * scan, kept in the attendance history as a correction
+   */
+  private async replaceAutoMarkedAbsence(
+    attendance: Attendance,
+    status: AttendanceStatus,
+    actor: ActorUser,
+    offline: { capturedAt: Date; idempotencyKey: string },
+  ): Promise<Attendance> {
+    const updated = await this.attendanceRepository.updateThrow(attendance.id, {
+      status,
+      markedByUserProfileId: actor.userProfileId,
+      capturedAt: offline.capturedAt,
+      idempotencyKey: offline.idempotencyKey,
+      autoMarkedAbsent: false,
+    });
+
+    await this.attendanceHistoryRepository.create({
+      attendanceId: attendance.id,
+      sessionId: attendance.sessionId,
+      studentUserProfileId: attendance.studentUserProfileId,
+      previousStatus: attendance.status,
+      newStatus: status,
+      changedByUserProfileId: actor.userProfileId,
+      reason: ATTENDANCE_OFFLINE_SCAN_CORRECTION_REASON,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Charge an unpaid session to the student wallet for classes whose policy
+   * opts in. The failure reason is saved outside the attendance transaction
+   * so staff still see it in the unmarked students list.
+   */
+  private async chargeSessionFromWallet(
+    session: Session,
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    try {
+      await this.studentBillingService.createAttendanceSessionCharge(
+        studentUserProfileId,
+        session.id,
+        actor,
+      );
+    } catch (error) {
+      if (!(error instanceof DomainException)) {
+        throw error;
+      }
+
+      const reason = this.toAutoChargeFailureReason(error.errorCode);
+      await this.saveChargeFailure(
+        session,
+        studentUserProfileId,
+        reason,
+        error.errorCode,
+      );
+      throw AttendanceErrors.attendanceAutoChargeFailed(
+        reason,
+        error.errorCode,
+      );
+    }
+  }
+
+  @Transactional(Propagation.RequiresNew)
+  private async saveChargeFailure(
+    session: Session,
+    studentUserProfileId: string,
+    reason: AutoChargeFailureReason,
+    errorCode: string,
+  ): Promise<void> {
+    const existing =
+      await this.attendanceChargeFailuresRepository.findBySessionAndStudent(
+        session.id,
+        studentUserProfileId,
+      );
+
+    if (existing) {
+      await this.attendanceChargeFailuresRepository.update(existing.id, {
+        reason,
+        errorCode,
+      });
+      return;
+    }
+
+    await this.attendanceChargeFailuresRepository.create({
+      centerId: session.centerId,
+      sessionId: session.id,
+      studentUserProfileId,
+      reason,
+      errorCode,
+    });
+  }
+
+  private toAutoChargeFailureReason(
+    errorCode: DomainException['errorCode'],
+  ): AutoChargeFailureReason {
+    switch (errorCode) {
+      case FinanceErrorCode.INSUFFICIENT_WALLET_BALANCE:
+      case FinanceErrorCode.MAX_NEGATIVE_BALANCE_EXCEEDED:
+        return AutoChargeFailureReason.INSUFFICIENT_BALANCE;
+      case FinanceErrorCode.WALLET_NOT_FOUND:
+        return AutoChargeFailureReason.WALLET_NOT_FOUND;
+      case StudentBillingErrorCode.SUBSCRIPTION_PAYMENT_STRATEGY_MISSING:
+      case StudentBillingErrorCode.SESSION_CHARGES_NOT_ALLOWED:
+      case StudentBillingErrorCode.SESSION_PAYMENTS_NOT_CONFIGURED:
+        return AutoChargeFailureReason.SESSION_CHARGES_NOT_ALLOWED;
+      case UserProfileErrorCode.USER_PROFILE_INACTIVE:
+        return AutoChargeFailureReason.STUDENT_INACTIVE;
+      default:
+        return AutoChargeFailureReason.OTHER;
+    }
+  }
+
   async getSessionRoster(
     sessionId: string,
     query: PaginateSessionRosterDto,
@@ -248,9 +726,10 @@ export class AttendanceService {
       branchId: group.branchId,
     });
 
-    await this.classAccessService.validateClassAccess({
+    await this.classAccessService.validateSessionAccess({
       userProfileId: actor.userProfileId,
       classId: group.classId,
+      sessionId: session.id,
     });
 
     const roster = await this.attendanceRepository.paginateRosterWithAttendance(
@@ -282,9 +761,10 @@ export class AttendanceService {
       branchId: group.branchId,
     });
 
-    await this.classAccessService.validateClassAccess({
+    await this.classAccessService.validateSessionAccess({
       userProfileId: actor.userProfileId,
       classId: group.classId,
+      sessionId: session.id,
     });
 
     const stats = {
@@ -309,11 +789,40 @@ export class AttendanceService {
   async markAllAbsent(
     sessionId: string,
     actor: ActorUser,
-  ): Promise<{ markedCount: number; sessionId: string }> {
+  ): Promise<{ markedCount: number; excusedCount: number; sessionId: string }> {
     // Validate session and access
-    await this.validateSessionAndAccess(sessionId, actor);
+    const { session } = await this.validateSessionAndAccess(sessionId, actor);
 
-    const session = await this.sessionsRepository.findOneOrThrow(sessionId);
+    return this.markUnmarkedStudentsAbsent(session, actor);
+  }
+
+  /**
+   * Run mark-all-absent for a session that just finished
+   * when its attendance policy asks for it
+   */
+  async autoMarkAbsentOnFinish(
+    session: Session,
+    actor: ActorUser,
+  ): Promise<void> {
+    const group = await this.groupsRepository.findByIdOrThrow(session.groupId);
+    const policy = await this.attendancePoliciesService.resolvePolicy(
+      session.centerId,
+      group.classId,
+    );
+
+    if (!policy.autoMarkAbsentOnFinish) {
+      return;
+    }
+
+    await this.markUnmarkedStudentsAbsent(session, actor, true);
+  }
+
+  private async markUnmarkedStudentsAbsent(
+    session: Session,
+    actor: ActorUser,
+    autoMarked = false,
+  ): Promise<{ markedCount: number; excusedCount: number; sessionId: string }> {
+    const sessionId = session.id;
 
     // Get all unmarked students (no pagination for bulk operation)
     const unmarkedResult =
@@ -326,42 +835,267 @@ export class AttendanceService {
     const unmarkedStudents = unmarkedResult.items;
 
     if (unmarkedStudents.length === 0) {
-      return { markedCount: 0, sessionId };
+      return { markedCount: 0, excusedCount: 0, sessionId };
     }
 
-    // Create ABSENT records for all unmarked students
+    // Students with an approved absence request are EXCUSED instead of ABSENT
+    const excusedIds =
+      await this.absenceRequestsRepository.findExcusedStudentIds(
+        session.groupId,
+        session.startTime,
+        unmarkedStudents.map((s) => s.studentUserProfileId),
+      );
+
     const attendanceRecords: Partial<Attendance>[] = unmarkedStudents.map(
-      (student) => ({
-        centerId: session.centerId,
-        branchId: session.branchId,
-        groupId: session.groupId,
-        sessionId,
-        studentUserProfileId: student.studentUserProfileId,
-        status: AttendanceStatus.ABSENT,
-        markedByUserProfileId: actor.userProfileId,
-      }),
+      (student) => {
+        const excused = excusedIds.has(student.studentUserProfileId);
+        return {
+          centerId: session.centerId,
+          branchId: session.branchId,
+          groupId: session.groupId,
+          sessionId,
+          studentUserProfileId: student.studentUserProfileId,
+          status: excused ? AttendanceStatus.EXCUSED : AttendanceStatus.ABSENT,
+          markedByUserProfileId: actor.userProfileId,
+          autoMarkedAbsent: autoMarked && !excused,
+        };
+      },
     );
 
     // Bulk insert attendance records
     await this.attendanceRepository.bulkInsert(attendanceRecords);
 
+    const absentIds = unmarkedStudents
+      .map((s) => s.studentUserProfileId)
+      .filter((id) => !excusedIds.has(id));
+
     this.logger.log(
-      `Marked ${attendanceRecords.length} students as absent for session ${sessionId}`,
+      `Marked ${absentIds.length} students as absent and ${excusedIds.size} as excused for session ${sessionId}`,
       { actorId: actor.userProfileId },
     );
 
-    await this.typeSafeEventEmitter.emitAsync(
-      AttendanceEvents.MARKED_ABSENT,
-      new StudentsMarkedAbsentEvent(
-        sessionId,
-        session.groupId,
-        session.centerId,
-        unmarkedStudents.map((s) => s.studentUserProfileId),
+    if (absentIds.length > 0) {
+      await this.typeSafeEventEmitter.emitAsync(
+        AttendanceEvents.MARKED_ABSENT,
+        new StudentsMarkedAbsentEvent(
+          sessionId,
+          session.groupId,
+          session.centerId,
+          absentIds,
+          actor,
+        ),
+      );
+    }
+
+    return {
+      markedCount: attendanceRecords.length,
+      excusedCount: excusedIds.size,
+      sessionId,
+    };
+  }
+
+  /**
+   * Correct the status of an existing attendance record.
+   * Allowed while attendance is open and after the session finished.
+   * Correcting an absence into PRESENT or LATE goes through the same billing
+   * check as recording attendance, including the wallet auto-charge.
+   */
+  async correctAttendance(
+    attendanceId: string,
+    dto: CorrectAttendanceDto,
+    actor: ActorUser,
+  ): Promise<AttendanceResponseDto> {
+    const { attendance, session } = await this.findAttendanceWithAccess(
+      attendanceId,
+      actor,
+    );
+
+    if (
+      session.status !== SessionStatus.CHECKING_IN &&
+      session.status !== SessionStatus.CONDUCTING &&
+      session.status !== SessionStatus.FINISHED
+    ) {
+      throw AttendanceErrors.attendanceSessionNotActive();
+    }
+
+    if (attendance.status === dto.status) {
+      throw AttendanceErrors.attendanceStatusUnchanged();
+    }
+
+    if (
+      !this.isAttendedStatus(attendance.status) &&
+      this.isAttendedStatus(dto.status)
+    ) {
+      await this.ensureSessionPaid(
+        session,
+        attendance.studentUserProfileId,
         actor,
-      ),
+      );
+    }
+
+    const previousStatus = attendance.status;
+    const updated = await this.changeAttendanceStatus(
+      attendance,
+      session,
+      dto.status,
+      dto.reason,
+      actor,
+    );
+
+    await this.activityLogService.log(
+      AttendanceActivityType.ATTENDANCE_CORRECTED,
+      {
+        sessionId: session.id,
+        attendanceId: attendance.id,
+        previousStatus,
+        newStatus: dto.status,
+        reason: dto.reason,
+      },
+      null,
+      attendance.studentUserProfileId,
+    );
+
+    return this.toAttendanceResponseDto(
+      updated,
+      attendance.studentUserProfileId,
+      actor,
+    );
+  }
+
+  async getAttendanceHistory(
+    attendanceId: string,
+    actor: ActorUser,
+  ): Promise<AttendanceHistory[]> {
+    await this.findAttendanceWithAccess(attendanceId, actor);
+    return this.attendanceHistoryRepository.findByAttendanceId(attendanceId);
+  }
+
+  /**
+   * Change the status of an attendance record and keep the change in its
+   * history. Counters of a FINISHED session are refreshed since they are
+   * no longer recalculated on their own.
+   */
+  async changeAttendanceStatus(
+    attendance: Attendance,
+    session: Session,
+    status: AttendanceStatus,
+    reason: string,
+    actor: ActorUser,
+  ): Promise<Attendance> {
+    const updated = await this.attendanceRepository.updateThrow(attendance.id, {
+      status,
+      autoMarkedAbsent: false,
+    });
+
+    await this.attendanceHistoryRepository.create({
+      attendanceId: attendance.id,
+      sessionId: attendance.sessionId,
+      studentUserProfileId: attendance.studentUserProfileId,
+      previousStatus: attendance.status,
+      newStatus: status,
+      changedByUserProfileId: actor.userProfileId,
+      reason,
+    });
+
+    if (session.status === SessionStatus.FINISHED) {
+      await this.refreshSessionAttendanceCounts(session);
+    }
+
+    return updated;
+  }
+
+  private isAttendedStatus(status: AttendanceStatus): boolean {
+    return (
+      status === AttendanceStatus.PRESENT || status === AttendanceStatus.LATE
+    );
+  }
+
+  /**
+   * Billing check of recordAttendance for a student who was not counted as
+   * attending the session yet
+   *
+   * @throws AttendanceErrors.attendancePaymentRequired() if the session is unpaid and the policy does not auto-charge
+   * @throws AttendanceErrors.attendanceAutoChargeFailed() if the wallet auto-charge fails
+   */
+  private async ensureSessionPaid(
+    session: Session,
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    const hasBillingAccess =
+      await this.studentBillingService.checkStudentAccess(
+        studentUserProfileId,
+        session.classId,
+        session.id,
+      );
+    if (hasBillingAccess) {
+      return;
+    }
+
+    const policy = await this.attendancePoliciesService.resolvePolicy(
+      session.centerId,
+      session.classId,
+    );
+    if (!policy.autoChargeSessionFromWallet) {
+      const paymentStrategy =
+        await this.studentBillingService.getClassPaymentStrategy(
+          session.classId,
+        );
+      throw AttendanceErrors.attendancePaymentRequired(paymentStrategy);
+    }
+
+    await this.chargeSessionFromWallet(session, studentUserProfileId, actor);
+  }
+
+  private async findAttendanceWithAccess(
+    attendanceId: string,
+    actor: ActorUser,
+  ): Promise<{ attendance: Attendance; session: Session }> {
+    const attendance = await this.attendanceRepository.findOne(attendanceId);
+    if (!attendance || attendance.centerId !== actor.centerId) {
+      throw AttendanceErrors.attendanceNotFound();
+    }
+
+    const session = await this.sessionsRepository.findOneOrThrow(
+      attendance.sessionId,
+    );
+    const group = await this.groupsRepository.findByIdOrThrow(
+      attendance.groupId,
+      ['class'],
     );
 
-    return { markedCount: attendanceRecords.length, sessionId };
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: attendance.centerId,
+      branchId: group.branchId,
+    });
+
+    await this.classAccessService.validateSessionAccess({
+      userProfileId: actor.userProfileId,
+      classId: group.classId,
+      sessionId: session.id,
+    });
+
+    return { attendance, session };
+  }
+
+  /**
+   * Recalculate and store the attendance counters of a session.
+   * Used when the session finishes and when attendance changes afterwards.
+   */
+  async refreshSessionAttendanceCounts(session: Session): Promise<void> {
+    const { present, late, excused, absent } =
+      await this.attendanceRepository.calculateSessionAttendanceStats({
+        sessionId: session.id,
+        groupId: session.groupId,
+      });
+
+    await this.sessionsRepository.update(session.id, {
+      presentCount: present,
+      lateCount: late,
+      excusedCount: excused,
+      absentCount: absent,
+    });
   }
 
   async getUnmarkedStudents(
@@ -373,6 +1107,7 @@ export class AttendanceService {
       studentUserProfileId: string;
       fullName: string;
       studentCode?: string;
+      chargeFailure?: AutoChargeFailureSummary;
     }>
   > {
     // Validate session and access
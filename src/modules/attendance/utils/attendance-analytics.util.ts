@@ -0,0 +1,134 @@
+import { AttendanceStatus } from '../enums/attendance-status.enum';
+
+/**
+ * One attendance record with the data the analytics need,
+ * as returned by AttendanceRepository.findAttendanceTimeline
+ */
+export interface AttendanceTimelineEntry {
+  studentUserProfileId: string;
+  fullName: string;
+  studentCode: string | null;
+  groupId: string;
+  sessionId: string;
+  startTime: Date;
+  status: AttendanceStatus;
+  period: string; // YYYY-MM in the center timezone
+}
+
+export interface AttendanceSummary {
+  totalSessions: number;
+  present: number;
+  late: number;
+  absent: number;
+  excused: number;
+  attendanceRate: number | null; // percent of non-excused sessions attended
+  lateRate: number | null; // percent of attended sessions that were late
+}
+
+export interface AbsenceStreaks {
+  current: number;
+  longest: number;
+}
+
+function toPercent(part: number, total: number): number | null {
+  if (total === 0) {
+    return null;
+  }
+  return Math.round((part / total) * 10000) / 100;
+}
+
+export function summarizeAttendance(
+  entries: AttendanceTimelineEntry[],
+): AttendanceSummary {
+  let present = 0;
+  let late = 0;
+  let absent = 0;
+  let excused = 0;
+
+  for (const entry of entries) {
+    switch (entry.status) {
+      case AttendanceStatus.PRESENT:
+        present++;
+        break;
+      case AttendanceStatus.LATE:
+        late++;
+        break;
+      case AttendanceStatus.ABSENT:
+        absent++;
+        break;
+      case AttendanceStatus.EXCUSED:
+        excused++;
+        break;
+    }
+  }
+
+  const attended = present + late;
+
+  return {
+    totalSessions: entries.length,
+    present,
+    late,
+    absent,
+    excused,
+    attendanceRate: toPercent(attended, attended + absent),
+    lateRate: toPercent(late, attended),
+  };
+}
+
+/**
+ * Consecutive ABSENT records in chronological entries.
+ * EXCUSED records neither extend nor break a streak.
+ */
+export function computeAbsenceStreaks(
+  entries: AttendanceTimelineEntry[],
+): AbsenceStreaks {
+  let current = 0;
+  let longest = 0;
+
+  for (const entry of entries) {
+    if (entry.status === AttendanceStatus.EXCUSED) {
+      continue;
+    }
+
+    current = entry.status === AttendanceStatus.ABSENT ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Monthly attendance summaries, oldest month first
+ */
+export function buildMonthlyTrend(
+  entries: AttendanceTimelineEntry[],
+): Array<AttendanceSummary & { period: string }> {
+  const byPeriod = groupEntriesBy(entries, (entry) => entry.period);
+
+  return [...byPeriod.entries()].map(([period, periodEntries]) => ({
+    period,
+    ...summarizeAttendance(periodEntries),
+  }));
+}
+
+/**
+ * Group entries by a key, keeping the chronological order inside each group
+ */
+export function groupEntriesBy(
+  entries: AttendanceTimelineEntry[],
+  keyOf: (entry: AttendanceTimelineEntry) => string,
+): Map<string, AttendanceTimelineEntry[]> {
+  const groups = new Map<string, AttendanceTimelineEntry[]>();
+
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  return groups;
+}
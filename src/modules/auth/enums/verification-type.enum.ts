@@ -4,4 +4,5 @@ export enum VerificationType {
   TWO_FACTOR_AUTH = 'TWO_FACTOR_AUTH', // 2FA setup/enable/disable
   LOGIN_OTP = 'LOGIN_OTP', // OTP for login with 2FA
   IMPORT_USER_OTP = 'IMPORT_USER_OTP', // OTP for user import
+  PARENT_LINK_OTP = 'PARENT_LINK_OTP', // OTP sent to a student to confirm a parent link
 }
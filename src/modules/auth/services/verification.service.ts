@@ -74,6 +74,7 @@ export class VerificationService extends BaseService {
         case VerificationType.TWO_FACTOR_AUTH:
         case VerificationType.LOGIN_OTP:
         case VerificationType.IMPORT_USER_OTP:
+        case VerificationType.PARENT_LINK_OTP:
           expiresAt = this.getDefaultOtpExpiration();
           break;
         default:
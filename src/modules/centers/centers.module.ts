@@ -6,9 +6,15 @@ import { BranchAccessService } from './services/branch-access.service';
 import { Center } from './entities/center.entity';
 import { Branch } from './entities/branch.entity';
 import { BranchAccess } from './entities/branch-access.entity';
+import { Room } from './entities/room.entity';
+import { CenterClosure } from './entities/center-closure.entity';
 import { CentersRepository } from './repositories/centers.repository';
 import { BranchesRepository } from './repositories/branches.repository';
 import { BranchAccessRepository } from './repositories/branch-access.repository';
+import { RoomsRepository } from './repositories/rooms.repository';
+import { RoomsService } from './services/rooms.service';
+import { CenterClosuresRepository } from './repositories/center-closures.repository';
+import { CenterClosuresService } from './services/center-closures.service';
 import { AccessControlModule } from '@/modules/access-control/access-control.module';
 import { UserModule } from '@/modules/user/user.module';
 import { UserProfileModule } from '@/modules/user-profile/user-profile.module';
@@ -19,12 +25,20 @@ import { BranchesActionsController } from './controllers/branches-actions.contro
 import { CentersAccessController } from './controllers/centers-access.controller';
 import { CentersAccessActionsController } from './controllers/centers-access-actions.controller';
 import { BranchesAccessController } from './controllers/branches-access.controller';
+import { RoomsController } from './controllers/rooms.controller';
+import { CenterClosuresController } from './controllers/center-closures.controller';
 import { BranchListener } from './listeners/branch.listener';
 import { BelongsToBranchConstraint } from '@/shared/common/validators/belongs-to-branch.constraint';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Center, Branch, BranchAccess]),
+    TypeOrmModule.forFeature([
+      Center,
+      Branch,
+      BranchAccess,
+      Room,
+      CenterClosure,
+    ]),
     forwardRef(() => AccessControlModule),
     forwardRef(() => UserModule),
     forwardRef(() => UserProfileModule),
@@ -37,6 +51,8 @@ import { BelongsToBranchConstraint } from '@/shared/common/validators/belongs-to
     CentersAccessController,
     CentersAccessActionsController,
     CentersController,
+    RoomsController,
+    CenterClosuresController,
   ],
   providers: [
     CentersService,
@@ -45,6 +61,10 @@ import { BelongsToBranchConstraint } from '@/shared/common/validators/belongs-to
     CentersRepository,
     BranchesRepository,
     BranchAccessRepository,
+    RoomsService,
+    RoomsRepository,
+    CenterClosuresService,
+    CenterClosuresRepository,
     BranchListener,
     BelongsToBranchConstraint,
   ],
@@ -55,6 +75,10 @@ import { BelongsToBranchConstraint } from '@/shared/common/validators/belongs-to
     CentersRepository,
     BranchesRepository,
     BranchAccessRepository,
+    RoomsService,
+    RoomsRepository,
+    CenterClosuresService,
+    CenterClosuresRepository,
     BelongsToBranchConstraint,
   ],
 })
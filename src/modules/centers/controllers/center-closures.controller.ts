@@ -0,0 +1,179 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Transactional } from '@nestjs-cls/transactional';
+import { CenterClosuresService } from '../services/center-closures.service';
+import { CreateCenterClosureDto } from '../dto/create-center-closure.dto';
+import { ListCenterClosuresDto } from '../dto/list-center-closures.dto';
+import { ImportCenterClosuresDto } from '../dto/import-center-closures.dto';
+import { CenterClosureIdParamDto } from '../dto/center-closure-id-param.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+import { createFileValidationException } from '@/modules/file/exceptions/file.errors';
+
+@ApiTags('Centers - Closures')
+@Controller('centers/closures')
+@ManagerialOnly()
+export class CenterClosuresController {
+  constructor(private readonly centerClosuresService: CenterClosuresService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get holidays and closures of the center' })
+  @ApiResponse({
+    status: 200,
+    description: 'Closures retrieved successfully',
+  })
+  async listClosures(
+    @Query() query: ListCenterClosuresDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.centerClosuresService.listClosures(query, actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':closureId')
+  @ApiOperation({ summary: 'Get a specific closure' })
+  @ApiParam({ name: 'closureId', description: 'Closure ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Closure retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Closure not found',
+  })
+  async getClosure(
+    @Param() params: CenterClosureIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.centerClosuresService.getClosure(
+      params.closureId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a holiday or closure',
+    description:
+      'Closes the center (or a single branch) for a day or a date range. Scheduled sessions falling on it are canceled.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Closure created successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid date range',
+  })
+  @Permissions(PERMISSIONS.BRANCHES.UPDATE)
+  @Transactional()
+  async createClosure(
+    @Body() dto: CreateCenterClosureDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.centerClosuresService.createClosure(dto, actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Post('import')
+  @ApiOperation({
+    summary: 'Import closures from an iCalendar file',
+    description:
+      'Creates a closure for every event of a .ics holiday calendar. Events imported before are skipped.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'iCalendar (.ics) file',
+        },
+        branchId: { type: 'string', format: 'uuid' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Closures imported successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid calendar file',
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  @Permissions(PERMISSIONS.BRANCHES.UPDATE)
+  @Transactional()
+  async importClosures(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 1024 * 1024 }), // 1MB
+        ],
+        fileIsRequired: true,
+        exceptionFactory: createFileValidationException,
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() dto: ImportCenterClosuresDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.centerClosuresService.importClosures(
+      file.buffer.toString('utf-8'),
+      dto.branchId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':closureId')
+  @ApiOperation({
+    summary: 'Delete a closure',
+    description:
+      'Soft deletes the closure. Sessions canceled because of it are not restored.',
+  })
+  @ApiParam({ name: 'closureId', description: 'Closure ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Closure deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Closure not found',
+  })
+  @Permissions(PERMISSIONS.BRANCHES.UPDATE)
+  @Transactional()
+  async deleteClosure(
+    @Param() params: CenterClosureIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.centerClosuresService.deleteClosure(params.closureId, actor);
+    return ControllerResponse.success(null);
+  }
+}
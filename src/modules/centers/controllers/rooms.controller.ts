@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { RoomsService } from '../services/rooms.service';
+import { CreateRoomDto } from '../dto/create-room.dto';
+import { UpdateRoomDto } from '../dto/update-room.dto';
+import { ListRoomsDto } from '../dto/list-rooms.dto';
+import { RoomIdParamDto } from '../dto/room-id-param.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Centers - Rooms')
+@Controller('centers/rooms')
+@ManagerialOnly()
+export class RoomsController {
+  constructor(private readonly roomsService: RoomsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all rooms of a branch' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rooms retrieved successfully',
+  })
+  async listRooms(@Query() query: ListRoomsDto, @GetUser() actor: ActorUser) {
+    const result = await this.roomsService.listRooms(query.branchId, actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':roomId')
+  @ApiOperation({ summary: 'Get a specific room' })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Room retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room not found',
+  })
+  async getRoom(@Param() params: RoomIdParamDto, @GetUser() actor: ActorUser) {
+    const result = await this.roomsService.getRoom(params.roomId, actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a room in a branch' })
+  @ApiResponse({
+    status: 201,
+    description: 'Room created successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data or duplicate room name',
+  })
+  @Permissions(PERMISSIONS.BRANCHES.UPDATE)
+  @Transactional()
+  async createRoom(@Body() dto: CreateRoomDto, @GetUser() actor: ActorUser) {
+    const result = await this.roomsService.createRoom(dto, actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Put(':roomId')
+  @ApiOperation({ summary: 'Update a room' })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Room updated successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room not found',
+  })
+  @Permissions(PERMISSIONS.BRANCHES.UPDATE)
+  @Transactional()
+  async updateRoom(
+    @Param() params: RoomIdParamDto,
+    @Body() dto: UpdateRoomDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.roomsService.updateRoom(
+      params.roomId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':roomId')
+  @ApiOperation({
+    summary: 'Delete a room',
+    description:
+      'Soft deletes the room. Existing schedule items and sessions keep their room reference.',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Room deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room not found',
+  })
+  @Permissions(PERMISSIONS.BRANCHES.UPDATE)
+  @Transactional()
+  async deleteRoom(
+    @Param() params: RoomIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.roomsService.deleteRoom(params.roomId, actor);
+    return ControllerResponse.success(null);
+  }
+}
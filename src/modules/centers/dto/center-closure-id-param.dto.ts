@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { CenterClosure } from '../entities/center-closure.entity';
+
+export class CenterClosureIdParamDto {
+  @ApiProperty({
+    description: 'Closure ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(CenterClosure)
+  closureId: string;
+}
@@ -0,0 +1,51 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { Branch } from '../entities/branch.entity';
+
+export class CreateCenterClosureDto {
+  @ApiPropertyOptional({
+    description:
+      'Branch the closure applies to (omit to close every branch of the center)',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(Branch)
+  branchId?: string;
+
+  @ApiProperty({
+    description: 'Holiday or closure name',
+    example: 'Eid al-Fitr',
+    maxLength: 255,
+  })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'First closed day (YYYY-MM-DD, center timezone)',
+    example: '2026-03-20',
+  })
+  @IsDateString({ strict: true })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'startDate must be YYYY-MM-DD' })
+  startDate: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last closed day, inclusive (YYYY-MM-DD, center timezone). Defaults to startDate for one-off days',
+    example: '2026-03-22',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'endDate must be YYYY-MM-DD' })
+  endDate?: string;
+}
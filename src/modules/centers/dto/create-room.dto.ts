@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { Branch } from '../entities/branch.entity';
+
+export class CreateRoomDto {
+  @ApiProperty({
+    description: 'Branch the room belongs to',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(Branch)
+  branchId: string;
+
+  @ApiProperty({
+    description: 'Room name (unique within the branch)',
+    example: 'Room A',
+    maxLength: 255,
+  })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of seats in the room',
+    example: 30,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether the room is available for scheduling',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
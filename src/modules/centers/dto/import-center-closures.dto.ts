@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { Branch } from '../entities/branch.entity';
+
+export class ImportCenterClosuresDto {
+  @ApiPropertyOptional({
+    description:
+      'Branch the imported closures apply to (omit to close every branch of the center)',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(Branch)
+  branchId?: string;
+}
@@ -0,0 +1,35 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsUUID, Matches } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { Branch } from '../entities/branch.entity';
+
+export class ListCenterClosuresDto {
+  @ApiPropertyOptional({
+    description:
+      'Only closures affecting this branch (center-wide closures are included)',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(Branch)
+  branchId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only closures ending on or after this day (YYYY-MM-DD)',
+    example: '2026-01-01',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'from must be YYYY-MM-DD' })
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only closures starting on or before this day (YYYY-MM-DD)',
+    example: '2026-12-31',
+  })
+  @IsOptional()
+  @IsDateString({ strict: true })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'to must be YYYY-MM-DD' })
+  to?: string;
+}
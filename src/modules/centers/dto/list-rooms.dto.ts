@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { Branch } from '../entities/branch.entity';
+
+export class ListRoomsDto {
+  @ApiProperty({
+    description: 'Branch ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(Branch)
+  branchId: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToBranch } from '@/shared/common/decorators/belongs-to-branch.decorator';
+import { Room } from '../entities/room.entity';
+
+export class RoomIdParamDto {
+  @ApiProperty({
+    description: 'Room ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToBranch(Room)
+  roomId: string;
+}
@@ -17,6 +17,7 @@ import { Session } from '@/modules/sessions/entities/session.entity';
 import { StudentCharge } from '@/modules/student-billing/entities/student-charge.entity';
 import { TeacherPayoutRecord } from '@/modules/teacher-payouts/entities/teacher-payout-record.entity';
 import { ClassStaff } from '@/modules/classes/entities/class-staff.entity';
+import { Room } from './room.entity';
 
 @Entity('branches')
 @Index(['centerId'])
@@ -74,6 +75,9 @@ export class Branch extends SoftBaseEntity {
   @OneToMany(() => ClassStaff, (classStaff) => classStaff.branch)
   classStaff: ClassStaff[];
 
+  @OneToMany(() => Room, (room) => room.branch)
+  rooms: Room[];
+
   // virtual fields
   name: string;
 
@@ -0,0 +1,58 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { SoftBaseEntity } from '@/shared/common/entities/soft-base.entity';
+import { Branch } from './branch.entity';
+import { Center } from './center.entity';
+import { ClosureSource } from '../enums/closure-source.enum';
+
+/**
+ * Holiday or closure of a center (or a single branch) on one or more days.
+ * Dates are calendar days in the center timezone, both ends inclusive.
+ */
+@Entity('center_closures')
+@Index(['centerId', 'startDate', 'endDate'])
+@Index(['branchId'])
+@Index(['centerId', 'branchId', 'externalUid'], {
+  unique: true,
+  where:
+    '"deletedAt" IS NULL AND "externalUid" IS NOT NULL AND "branchId" IS NOT NULL',
+})
+@Index(['centerId', 'externalUid'], {
+  unique: true,
+  where:
+    '"deletedAt" IS NULL AND "externalUid" IS NOT NULL AND "branchId" IS NULL',
+})
+export class CenterClosure extends SoftBaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  branchId?: string | null; // null = closure applies to every branch of the center
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'date' })
+  startDate: string; // YYYY-MM-DD
+
+  @Column({ type: 'date' })
+  endDate: string; // YYYY-MM-DD, inclusive
+
+  @Column({ type: 'varchar', length: 20, default: ClosureSource.MANUAL })
+  source: ClosureSource;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  externalUid?: string | null; // iCalendar UID, prevents duplicate imports
+
+  // Relations
+  @ManyToOne(() => Center, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @ManyToOne(() => Branch, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'branchId' })
+  branch?: Branch;
+}
@@ -6,6 +6,7 @@ import { CenterAccess } from '@/modules/access-control/entities/center-access.en
 import { Branch } from './branch.entity';
 import { BranchAccess } from './branch-access.entity';
 import { Level } from '@/modules/levels/entities/level.entity';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
 import { Subject } from '@/modules/subjects/entities/subject.entity';
 import { Class } from '@/modules/classes/entities/class.entity';
 import { Group } from '@/modules/classes/entities/group.entity';
@@ -75,6 +76,9 @@ export class Center extends SoftBaseEntity {
   @OneToMany(() => Level, (level) => level.center)
   levels: Level[];
 
+  @OneToMany(() => AcademicTerm, (academicTerm) => academicTerm.center)
+  academicTerms: AcademicTerm[];
+
   @OneToMany(() => Subject, (subject) => subject.center)
   subjects: Subject[];
 
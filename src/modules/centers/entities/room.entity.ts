@@ -0,0 +1,56 @@
+import {
+  Entity,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  OneToMany,
+} from 'typeorm';
+import { SoftBaseEntity } from '@/shared/common/entities/soft-base.entity';
+import { Branch } from './branch.entity';
+import { Center } from './center.entity';
+import { ScheduleItem } from '@/modules/classes/entities/schedule-item.entity';
+import { Session } from '@/modules/sessions/entities/session.entity';
+
+@Entity('rooms')
+@Index(['branchId'])
+@Index(['centerId', 'branchId'])
+@Index(['branchId', 'name'], {
+  unique: true,
+  where: '"deletedAt" IS NULL',
+})
+export class Room extends SoftBaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string; // Denormalized from Branch for access control and fast filtering
+
+  @Column({ type: 'uuid' })
+  branchId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'int', nullable: true })
+  capacity?: number | null; // Seats in the room (null = not tracked)
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  // Relations
+  @ManyToOne(() => Branch, (branch) => branch.rooms, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'branchId' })
+  branch: Branch;
+
+  @ManyToOne(() => Center, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @OneToMany(() => ScheduleItem, (scheduleItem) => scheduleItem.room)
+  scheduleItems: ScheduleItem[];
+
+  @OneToMany(() => Session, (session) => session.room)
+  sessions: Session[];
+}
@@ -25,4 +25,15 @@ export enum CentersErrorCode {
   // Inactive entity errors
   CENTER_INACTIVE = 'CTR_CTR_004',
   BRANCH_INACTIVE = 'CTR_BRN_002',
+
+  // Room errors
+  ROOM_NOT_FOUND = 'CTR_ROM_001',
+  ROOM_INACTIVE = 'CTR_ROM_002',
+  ROOM_NAME_ALREADY_EXISTS = 'CTR_ROM_003',
+  ROOM_NOT_IN_BRANCH = 'CTR_ROM_004',
+
+  // Closure errors
+  CLOSURE_NOT_FOUND = 'CTR_CLO_001',
+  CLOSURE_INVALID_DATE_RANGE = 'CTR_CLO_002',
+  CLOSURE_INVALID_CALENDAR_FILE = 'CTR_CLO_003',
 }
@@ -0,0 +1,4 @@
+export enum ClosureSource {
+  MANUAL = 'MANUAL',
+  ICS_IMPORT = 'ICS_IMPORT',
+}
@@ -1,4 +1,5 @@
 import { Center } from '@/modules/centers/entities/center.entity';
+import { CenterClosure } from '@/modules/centers/entities/center-closure.entity';
 import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { CreateUserDto } from '@/modules/user/dto/create-user.dto';
@@ -89,3 +90,17 @@ export class AssignCenterOwnerEvent extends BaseEvent {
     super(actor);
   }
 }
+
+/**
+ * Event (result-focused, output-oriented)
+ * Represents the fact that holiday/closure days were added to a center.
+ */
+export class CenterClosuresCreatedEvent extends BaseEvent {
+  constructor(
+    public readonly closures: CenterClosure[],
+    actor: ActorUser,
+    public readonly centerId: string,
+  ) {
+    super(actor);
+  }
+}
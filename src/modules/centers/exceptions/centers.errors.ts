@@ -77,4 +77,34 @@ export class CentersErrors extends BaseErrorHelpers {
   static branchInactive(): DomainException {
     return this.createNoDetails(CentersErrorCode.BRANCH_INACTIVE);
   }
+
+  // Room errors
+  static roomNotFound(): DomainException {
+    return this.createNoDetails(CentersErrorCode.ROOM_NOT_FOUND);
+  }
+
+  static roomInactive(): DomainException {
+    return this.createNoDetails(CentersErrorCode.ROOM_INACTIVE);
+  }
+
+  static roomNameAlreadyExists(): DomainException {
+    return this.createNoDetails(CentersErrorCode.ROOM_NAME_ALREADY_EXISTS);
+  }
+
+  static roomNotInBranch(): DomainException {
+    return this.createNoDetails(CentersErrorCode.ROOM_NOT_IN_BRANCH);
+  }
+
+  // Closure errors
+  static closureNotFound(): DomainException {
+    return this.createNoDetails(CentersErrorCode.CLOSURE_NOT_FOUND);
+  }
+
+  static closureInvalidDateRange(): DomainException {
+    return this.createNoDetails(CentersErrorCode.CLOSURE_INVALID_DATE_RANGE);
+  }
+
+  static closureInvalidCalendarFile(): DomainException {
+    return this.createNoDetails(CentersErrorCode.CLOSURE_INVALID_CALENDAR_FILE);
+  }
 }
@@ -0,0 +1,81 @@
+import { Injectable } from '@nestjs/common';
+import { CenterClosure } from '../entities/center-closure.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { In, IsNull } from 'typeorm';
+
+@Injectable()
+export class CenterClosuresRepository extends BaseRepository<CenterClosure> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof CenterClosure {
+    return CenterClosure;
+  }
+
+  /**
+   * Find closures of a center overlapping a day range, ordered by start date.
+   * When branchId is given, only center-wide closures and closures of that branch are returned.
+   *
+   * @param centerId - Center ID
+   * @param filters.from - First day of the range (YYYY-MM-DD, inclusive)
+   * @param filters.to - Last day of the range (YYYY-MM-DD, inclusive)
+   */
+  async findForCenter(
+    centerId: string,
+    filters: { branchId?: string; from?: string; to?: string } = {},
+  ): Promise<CenterClosure[]> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('closure')
+      .where('closure.centerId = :centerId', { centerId })
+      .orderBy('closure.startDate', 'ASC');
+
+    if (filters.branchId) {
+      queryBuilder.andWhere(
+        '(closure.branchId IS NULL OR closure.branchId = :branchId)',
+        { branchId: filters.branchId },
+      );
+    }
+
+    if (filters.from) {
+      queryBuilder.andWhere('closure.endDate >= :from', { from: filters.from });
+    }
+
+    if (filters.to) {
+      queryBuilder.andWhere('closure.startDate <= :to', { to: filters.to });
+    }
+
+    return queryBuilder.getMany();
+  }
+
+  /**
+   * Imported UIDs already used by closures of the branch, or by center-wide
+   * closures when no branch is given
+   */
+  async findExternalUids(
+    centerId: string,
+    branchId: string | null,
+    uids: string[],
+  ): Promise<string[]> {
+    if (uids.length === 0) {
+      return [];
+    }
+
+    const closures = await this.getRepository().find({
+      select: ['externalUid'],
+      where: {
+        centerId,
+        branchId: branchId ?? IsNull(),
+        externalUid: In(uids),
+      },
+    });
+
+    return closures
+      .map((closure) => closure.externalUid)
+      .filter((uid): uid is string => !!uid);
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { Room } from '../entities/room.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { In } from 'typeorm';
+
+@Injectable()
+export class RoomsRepository extends BaseRepository<Room> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof Room {
+    return Room;
+  }
+
+  /**
+   * Find all rooms of a branch ordered by name
+   */
+  async findByBranchId(branchId: string): Promise<Room[]> {
+    return this.getRepository().find({
+      where: { branchId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findByBranchAndName(
+    branchId: string,
+    name: string,
+  ): Promise<Room | null> {
+    return this.getRepository().findOne({
+      where: { branchId, name },
+    });
+  }
+
+  async findByIds(ids: string[]): Promise<Room[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.getRepository().find({ where: { id: In(ids) } });
+  }
+}
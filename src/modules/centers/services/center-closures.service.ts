@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { CenterClosuresRepository } from '../repositories/center-closures.repository';
+import { BranchesService } from './branches.service';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { CentersErrors } from '../exceptions/centers.errors';
+import { CreateCenterClosureDto } from '../dto/create-center-closure.dto';
+import { ListCenterClosuresDto } from '../dto/list-center-closures.dto';
+import { CenterClosure } from '../entities/center-closure.entity';
+import { ClosureSource } from '../enums/closure-source.enum';
+import { IcsCalendar } from '../utils/ics-calendar.util';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { CenterEvents } from '@/shared/events/center.events.enum';
+import { CenterClosuresCreatedEvent } from '../events/center.events';
+
+@Injectable()
+export class CenterClosuresService extends BaseService {
+  constructor(
+    private readonly centerClosuresRepository: CenterClosuresRepository,
+    private readonly branchesService: BranchesService,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  async listClosures(
+    query: ListCenterClosuresDto,
+    actor: ActorUser,
+  ): Promise<CenterClosure[]> {
+    if (query.branchId) {
+      // Validates branch existence and actor branch access
+      await this.branchesService.getBranch(query.branchId, actor);
+    }
+
+    return this.centerClosuresRepository.findForCenter(actor.centerId!, query);
+  }
+
+  async getClosure(
+    closureId: string,
+    actor: ActorUser,
+  ): Promise<CenterClosure> {
+    const closure = await this.centerClosuresRepository.findOne(closureId);
+    if (!closure || closure.centerId !== actor.centerId) {
+      throw CentersErrors.closureNotFound();
+    }
+
+    return closure;
+  }
+
+  /**
+   * Find closures overlapping a UTC range, for schedule calculations.
+   * The range is widened by a day on each side so callers can compare
+   * against calendar days in any center timezone.
+   */
+  async findClosuresInRange(
+    centerId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<CenterClosure[]> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    return this.centerClosuresRepository.findForCenter(centerId, {
+      from: new Date(startDate.getTime() - dayMs).toISOString().slice(0, 10),
+      to: new Date(endDate.getTime() + dayMs).toISOString().slice(0, 10),
+    });
+  }
+
+  /**
+   * Create a holiday/closure.
+   * Materialized sessions falling on the closure are canceled by the sessions module.
+   */
+  async createClosure(
+    dto: CreateCenterClosureDto,
+    actor: ActorUser,
+  ): Promise<CenterClosure> {
+    if (dto.branchId) {
+      await this.branchesService.getBranch(dto.branchId, actor);
+    }
+
+    const endDate = dto.endDate ?? dto.startDate;
+    if (endDate < dto.startDate) {
+      throw CentersErrors.closureInvalidDateRange();
+    }
+
+    const closure = await this.centerClosuresRepository.create({
+      centerId: actor.centerId!,
+      branchId: dto.branchId ?? null,
+      name: dto.name,
+      startDate: dto.startDate,
+      endDate,
+      source: ClosureSource.MANUAL,
+    });
+
+    await this.typeSafeEventEmitter.emitAsync(
+      CenterEvents.CLOSURES_CREATED,
+      new CenterClosuresCreatedEvent([closure], actor, actor.centerId!),
+    );
+
+    return closure;
+  }
+
+  /**
+   * Import holidays from an iCalendar (.ics) file.
+   * Events already imported (same UID) for the same branch, or center-wide
+   * when no branch is given, are skipped.
+   */
+  async importClosures(
+    content: string,
+    branchId: string | undefined,
+    actor: ActorUser,
+  ): Promise<{ imported: CenterClosure[]; skipped: number }> {
+    if (branchId) {
+      await this.branchesService.getBranch(branchId, actor);
+    }
+
+    const events = IcsCalendar.parseEvents(content);
+    if (events.length === 0) {
+      throw CentersErrors.closureInvalidCalendarFile();
+    }
+
+    const centerId = actor.centerId!;
+    const existingUids = new Set(
+      await this.centerClosuresRepository.findExternalUids(
+        centerId,
+        branchId ?? null,
+        events.map((event) => event.uid).filter((uid): uid is string => !!uid),
+      ),
+    );
+
+    const imported: CenterClosure[] = [];
+    for (const event of events) {
+      if (event.uid && existingUids.has(event.uid)) {
+        continue;
+      }
+
+      imported.push(
+        await this.centerClosuresRepository.create({
+          centerId,
+          branchId: branchId ?? null,
+          name: event.name,
+          startDate: event.startDate,
+          endDate: event.endDate,
+          source: ClosureSource.ICS_IMPORT,
+          externalUid: event.uid ?? null,
+        }),
+      );
+      if (event.uid) {
+        existingUids.add(event.uid);
+      }
+    }
+
+    if (imported.length > 0) {
+      await this.typeSafeEventEmitter.emitAsync(
+        CenterEvents.CLOSURES_CREATED,
+        new CenterClosuresCreatedEvent(imported, actor, centerId),
+      );
+    }
+
+    return { imported, skipped: events.length - imported.length };
+  }
+
+  /**
+   * Delete a closure. Sessions canceled because of it stay canceled.
+   */
+  async deleteClosure(closureId: string, actor: ActorUser): Promise<void> {
+    await this.getClosure(closureId, actor);
+    await this.centerClosuresRepository.softRemove(closureId);
+  }
+}
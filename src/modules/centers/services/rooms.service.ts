@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { RoomsRepository } from '../repositories/rooms.repository';
+import { BranchesService } from './branches.service';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { CentersErrors } from '../exceptions/centers.errors';
+import { CreateRoomDto } from '../dto/create-room.dto';
+import { UpdateRoomDto } from '../dto/update-room.dto';
+import { Room } from '../entities/room.entity';
+
+@Injectable()
+export class RoomsService extends BaseService {
+  constructor(
+    private readonly roomsRepository: RoomsRepository,
+    private readonly branchesService: BranchesService,
+  ) {
+    super();
+  }
+
+  async listRooms(branchId: string, actor: ActorUser): Promise<Room[]> {
+    // Validates branch existence and actor branch access
+    await this.branchesService.getBranch(branchId, actor);
+
+    return this.roomsRepository.findByBranchId(branchId);
+  }
+
+  async getRoom(roomId: string, actor: ActorUser): Promise<Room> {
+    const room = await this.roomsRepository.findOne(roomId);
+    if (!room || room.centerId !== actor.centerId) {
+      throw CentersErrors.roomNotFound();
+    }
+
+    await this.branchesService.getBranch(room.branchId, actor);
+
+    return room;
+  }
+
+  async createRoom(dto: CreateRoomDto, actor: ActorUser): Promise<Room> {
+    const branch = await this.branchesService.getBranch(dto.branchId, actor);
+    if (!branch.isActive) {
+      throw CentersErrors.branchInactive();
+    }
+
+    await this.ensureNameAvailable(dto.branchId, dto.name);
+
+    return this.roomsRepository.create({
+      centerId: branch.centerId,
+      branchId: branch.id,
+      name: dto.name,
+      capacity: dto.capacity ?? null,
+      isActive: dto.isActive ?? true,
+    });
+  }
+
+  async updateRoom(
+    roomId: string,
+    dto: UpdateRoomDto,
+    actor: ActorUser,
+  ): Promise<Room> {
+    const room = await this.getRoom(roomId, actor);
+
+    if (dto.name !== undefined && dto.name !== room.name) {
+      await this.ensureNameAvailable(room.branchId, dto.name);
+    }
+
+    return this.roomsRepository.updateThrow(roomId, dto);
+  }
+
+  async deleteRoom(roomId: string, actor: ActorUser): Promise<void> {
+    await this.getRoom(roomId, actor);
+    await this.roomsRepository.softRemove(roomId);
+  }
+
+  /**
+   * Validate that rooms referenced by a schedule are usable by the given branch.
+   * Rooms must exist, be active and belong to the same branch as the group.
+   *
+   * @param branchId - Branch of the group being scheduled
+   * @param roomIds - Room IDs referenced by schedule items or sessions
+   * @returns Map of room ID to room for further lookups
+   */
+  async validateRoomsForBranch(
+    branchId: string,
+    roomIds: string[],
+  ): Promise<Map<string, Room>> {
+    const uniqueIds = Array.from(new Set(roomIds));
+    const rooms = await this.roomsRepository.findByIds(uniqueIds);
+    const roomMap = new Map(rooms.map((room) => [room.id, room]));
+
+    for (const roomId of uniqueIds) {
+      const room = roomMap.get(roomId);
+      if (!room) {
+        throw CentersErrors.roomNotFound();
+      }
+      if (room.branchId !== branchId) {
+        throw CentersErrors.roomNotInBranch();
+      }
+      if (!room.isActive) {
+        throw CentersErrors.roomInactive();
+      }
+    }
+
+    return roomMap;
+  }
+
+  private async ensureNameAvailable(
+    branchId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.roomsRepository.findByBranchAndName(
+      branchId,
+      name,
+    );
+    if (existing) {
+      throw CentersErrors.roomNameAlreadyExists();
+    }
+  }
+}
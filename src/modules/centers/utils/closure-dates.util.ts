@@ -0,0 +1,58 @@
+import { TZDate } from '@date-fns/tz';
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+import { CenterClosure } from '../entities/center-closure.entity';
+
+/**
+ * Date utility functions for center closures
+ * Closure dates are YYYY-MM-DD calendar days in the center timezone
+ */
+export class ClosureDates {
+  /**
+   * Shift a YYYY-MM-DD date by a number of days
+   */
+  static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days))
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  /**
+   * Get the calendar day (YYYY-MM-DD) of a UTC moment in the given timezone
+   */
+  static toLocalDate(date: Date, timezone: string): string {
+    return TimezoneService.formatZoned(date, 'yyyy-MM-dd', timezone);
+  }
+
+  /**
+   * Get the UTC range covered by a closure: [start of first day, start of day after last day)
+   */
+  static getUtcRange(
+    closure: Pick<CenterClosure, 'startDate' | 'endDate'>,
+    timezone: string,
+  ): { start: Date; end: Date } {
+    const start = new TZDate(`${closure.startDate}T00:00:00`, timezone);
+    const end = new TZDate(
+      `${this.addDays(closure.endDate, 1)}T00:00:00`,
+      timezone,
+    );
+    return { start: new Date(start.getTime()), end: new Date(end.getTime()) };
+  }
+
+  /**
+   * Check whether a calendar day is closed for a branch.
+   * Center-wide closures (no branchId) apply to every branch.
+   */
+  static isClosed(
+    localDate: string,
+    branchId: string,
+    closures: Pick<CenterClosure, 'branchId' | 'startDate' | 'endDate'>[],
+  ): boolean {
+    return closures.some(
+      (closure) =>
+        (!closure.branchId || closure.branchId === branchId) &&
+        closure.startDate <= localDate &&
+        localDate <= closure.endDate,
+    );
+  }
+}
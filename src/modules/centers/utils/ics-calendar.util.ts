@@ -0,0 +1,105 @@
+import { ClosureDates } from './closure-dates.util';
+
+export interface IcsClosureEvent {
+  uid?: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for holiday calendars.
+ * Only single VEVENT occurrences are read, recurrence rules are not expanded.
+ */
+export class IcsCalendar {
+  static parseEvents(content: string): IcsClosureEvent[] {
+    // Unfold continuation lines (CRLF followed by a space or tab)
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+    const events: IcsClosureEvent[] = [];
+    let current: Map<string, { params: string; value: string }> | null = null;
+
+    for (const line of lines) {
+      if (line === 'BEGIN:VEVENT') {
+        current = new Map();
+        continue;
+      }
+
+      if (line === 'END:VEVENT') {
+        const event = current ? this.toClosureEvent(current) : null;
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      const separatorIndex = line.indexOf(':');
+      if (separatorIndex === -1) {
+        continue;
+      }
+
+      const [name, ...params] = line.slice(0, separatorIndex).split(';');
+      current.set(name.toUpperCase(), {
+        params: params.join(';').toUpperCase(),
+        value: line.slice(separatorIndex + 1).trim(),
+      });
+    }
+
+    return events;
+  }
+
+  private static toClosureEvent(
+    properties: Map<string, { params: string; value: string }>,
+  ): IcsClosureEvent | null {
+    const dtStart = properties.get('DTSTART');
+    if (!dtStart || properties.get('STATUS')?.value === 'CANCELLED') {
+      return null;
+    }
+
+    const startDate = this.toDate(dtStart.value);
+    if (!startDate) {
+      return null;
+    }
+
+    let endDate = startDate;
+    const dtEnd = properties.get('DTEND');
+    if (dtEnd) {
+      const parsedEnd = this.toDate(dtEnd.value);
+      const isAllDay =
+        dtEnd.params.includes('VALUE=DATE') || dtEnd.value.length === 8;
+      // All-day DTEND is exclusive
+      const inclusiveEnd =
+        parsedEnd && isAllDay ? ClosureDates.addDays(parsedEnd, -1) : parsedEnd;
+      if (inclusiveEnd && inclusiveEnd >= startDate) {
+        endDate = inclusiveEnd;
+      }
+    }
+
+    return {
+      uid: properties.get('UID')?.value || undefined,
+      name: this.unescapeText(
+        properties.get('SUMMARY')?.value || 'Holiday',
+      ).slice(0, 255),
+      startDate,
+      endDate,
+    };
+  }
+
+  // Accepts YYYYMMDD and YYYYMMDDTHHMMSS[Z] values
+  private static toDate(value: string): string | null {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  }
+
+  private static unescapeText(value: string): string {
+    return value
+      .replace(/\\n/gi, ' ')
+      .replace(/\\([,;\\])/g, '$1')
+      .trim();
+  }
+}
@@ -4,13 +4,21 @@ import { Class } from './entities/class.entity';
 import { Group } from './entities/group.entity';
 import { ScheduleItem } from './entities/schedule-item.entity';
 import { GroupStudent } from './entities/group-student.entity';
+import { GroupWaitlistEntry } from './entities/group-waitlist-entry.entity';
 import { StudentPaymentStrategy } from './entities/student-payment-strategy.entity';
 import { TeacherPaymentStrategy } from './entities/teacher-payment-strategy.entity';
+import { StudentPriceVersion } from './entities/student-price-version.entity';
+import { TeacherPriceVersion } from './entities/teacher-price-version.entity';
 import { ClassStaff } from './entities/class-staff.entity';
+import { ClassTemplate } from './entities/class-template.entity';
 import { ClassesService } from './services/classes.service';
+import { ClassRolloverService } from './services/class-rollover.service';
+import { ClassTemplatesService } from './services/class-templates.service';
 import { GroupsService } from './services/groups.service';
 import { GroupScheduleService } from './services/group-schedule.service';
 import { GroupStudentService } from './services/group-student.service';
+import { GroupWaitlistService } from './services/group-waitlist.service';
+import { GroupRescheduleService } from './services/group-reschedule.service';
 import { ScheduleService } from './services/schedule.service';
 import { ClassValidationService } from './services/class-validation.service';
 import { GroupValidationService } from './services/group-validation.service';
@@ -21,19 +29,28 @@ import { ClassesRepository } from './repositories/classes.repository';
 import { GroupsRepository } from './repositories/groups.repository';
 import { ScheduleItemsRepository } from './repositories/schedule-items.repository';
 import { GroupStudentsRepository } from './repositories/group-students.repository';
+import { GroupWaitlistEntriesRepository } from './repositories/group-waitlist-entries.repository';
 import { StudentPaymentStrategyRepository } from './repositories/student-payment-strategy.repository';
 import { TeacherPaymentStrategyRepository } from './repositories/teacher-payment-strategy.repository';
+import { StudentPriceVersionsRepository } from './repositories/student-price-versions.repository';
+import { TeacherPriceVersionsRepository } from './repositories/teacher-price-versions.repository';
 import { ClassStaffRepository } from './repositories/class-staff.repository';
+import { ClassTemplatesRepository } from './repositories/class-templates.repository';
 import { ClassesController } from './controllers/classes.controller';
 import { ClassesActionsController } from './controllers/classes-actions.controller';
 import { GroupsController } from './controllers/groups.controller';
 import { GroupsActionsController } from './controllers/groups-actions.controller';
 import { ClassStaffAccessController } from './controllers/class-staff-access.controller';
 import { GroupsStudentsAccessController } from './controllers/groups-students-access.controller';
+import { GroupsWaitlistController } from './controllers/groups-waitlist.controller';
+import { ClassTemplatesController } from './controllers/class-templates.controller';
+import { GroupWaitlistListener } from './listeners/group-waitlist.listener';
+import { ClassPriceVersionsJob } from './jobs/class-price-versions.job';
 import { AccessControlModule } from '@/modules/access-control/access-control.module';
 import { SharedModule } from '@/shared/shared.module';
 import { LevelsModule } from '@/modules/levels/levels.module';
 import { SubjectsModule } from '@/modules/subjects/subjects.module';
+import { AcademicTermsModule } from '@/modules/academic-terms/academic-terms.module';
 import { CentersModule } from '@/modules/centers/centers.module';
 import { UserProfileModule } from '@/modules/user-profile/user-profile.module';
 import { SessionsModule } from '@/modules/sessions/sessions.module';
@@ -48,9 +65,13 @@ import { TeacherPayoutModule } from '@/modules/teacher-payouts/teacher-payouts.m
       Group,
       ScheduleItem,
       GroupStudent,
+      GroupWaitlistEntry,
       StudentPaymentStrategy,
       TeacherPaymentStrategy,
+      StudentPriceVersion,
+      TeacherPriceVersion,
       ClassStaff,
+      ClassTemplate,
       Center,
     ]),
     forwardRef(() => AccessControlModule),
@@ -58,6 +79,7 @@ import { TeacherPayoutModule } from '@/modules/teacher-payouts/teacher-payouts.m
     SharedModule,
     LevelsModule,
     SubjectsModule,
+    AcademicTermsModule,
     CentersModule,
     UserProfileModule,
     forwardRef(() => TeacherPayoutModule),
@@ -69,12 +91,18 @@ import { TeacherPayoutModule } from '@/modules/teacher-payouts/teacher-payouts.m
     GroupsActionsController,
     ClassStaffAccessController,
     GroupsStudentsAccessController,
+    GroupsWaitlistController,
+    ClassTemplatesController,
   ],
   providers: [
     ClassesService,
+    ClassRolloverService,
+    ClassTemplatesService,
     GroupsService,
     GroupScheduleService,
     GroupStudentService,
+    GroupWaitlistService,
+    GroupRescheduleService,
     ScheduleService,
     ClassValidationService,
     GroupValidationService,
@@ -85,10 +113,16 @@ import { TeacherPayoutModule } from '@/modules/teacher-payouts/teacher-payouts.m
     GroupsRepository,
     ScheduleItemsRepository,
     GroupStudentsRepository,
+    GroupWaitlistEntriesRepository,
     StudentPaymentStrategyRepository,
     TeacherPaymentStrategyRepository,
+    StudentPriceVersionsRepository,
+    TeacherPriceVersionsRepository,
     ClassStaffRepository,
+    ClassTemplatesRepository,
     ClassStateMachine,
+    GroupWaitlistListener,
+    ClassPriceVersionsJob,
   ],
   exports: [
     ClassesService,
@@ -103,6 +137,7 @@ import { TeacherPayoutModule } from '@/modules/teacher-payouts/teacher-payouts.m
     GroupsRepository,
     ScheduleItemsRepository,
     GroupStudentsRepository,
+    GroupWaitlistEntriesRepository,
     StudentPaymentStrategyRepository,
     TeacherPaymentStrategyRepository,
     ClassStaffRepository,
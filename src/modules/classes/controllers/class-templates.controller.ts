@@ -0,0 +1,180 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { ClassTemplatesService } from '../services/class-templates.service';
+import { CreateClassTemplateDto } from '../dto/create-class-template.dto';
+import { UpdateClassTemplateDto } from '../dto/update-class-template.dto';
+import { PaginateClassTemplatesDto } from '../dto/paginate-class-templates.dto';
+import { ClassTemplateResponseDto } from '../dto/class-template-response.dto';
+import { ClassTemplateIdParamDto } from '../dto/class-template-id-param.dto';
+import { CreateClassFromTemplateDto } from '../dto/create-class-from-template.dto';
+import { ClassResponseDto } from '../dto/class-response.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Class Templates')
+@Controller('class-templates')
+@ManagerialOnly()
+export class ClassTemplatesController {
+  constructor(private readonly classTemplatesService: ClassTemplatesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get all class templates for a center with pagination',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Class templates retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.CLASSES.READ)
+  @SerializeOptions({ type: ClassTemplateResponseDto })
+  async paginateClassTemplates(
+    @Query() paginateDto: PaginateClassTemplatesDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.classTemplatesService.paginateClassTemplates(
+      paginateDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':templateId')
+  @ApiOperation({ summary: 'Get a specific class template' })
+  @ApiParam({ name: 'templateId', description: 'Class template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Class template retrieved successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Class template not found',
+  })
+  @Permissions(PERMISSIONS.CLASSES.READ)
+  @SerializeOptions({ type: ClassTemplateResponseDto })
+  async getClassTemplate(
+    @Param() params: ClassTemplateIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.classTemplatesService.getClassTemplate(
+      params.templateId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a new class template' })
+  @ApiResponse({
+    status: 201,
+    description: 'Class template created successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid input data',
+  })
+  @Permissions(PERMISSIONS.CLASSES.CREATE)
+  @Transactional()
+  @SerializeOptions({ type: ClassTemplateResponseDto })
+  async createClassTemplate(
+    @Body() dto: CreateClassTemplateDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.classTemplatesService.createClassTemplate(
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Put(':templateId')
+  @ApiOperation({ summary: 'Update a class template' })
+  @ApiParam({ name: 'templateId', description: 'Class template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Class template updated successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Class template not found',
+  })
+  @Permissions(PERMISSIONS.CLASSES.UPDATE)
+  @Transactional()
+  @SerializeOptions({ type: ClassTemplateResponseDto })
+  async updateClassTemplate(
+    @Param() params: ClassTemplateIdParamDto,
+    @Body() dto: UpdateClassTemplateDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.classTemplatesService.updateClassTemplate(
+      params.templateId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':templateId')
+  @ApiOperation({ summary: 'Delete a class template' })
+  @ApiParam({ name: 'templateId', description: 'Class template ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Class template deleted successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Class template not found',
+  })
+  @Permissions(PERMISSIONS.CLASSES.DELETE)
+  @Transactional()
+  async deleteClassTemplate(
+    @Param() params: ClassTemplateIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.classTemplatesService.deleteClassTemplate(
+      params.templateId,
+      actor,
+    );
+    return ControllerResponse.success(null);
+  }
+
+  @Post(':templateId/classes')
+  @ApiOperation({ summary: 'Create a class from a class template' })
+  @ApiParam({ name: 'templateId', description: 'Class template ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Class created successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Class template not found',
+  })
+  @Permissions(PERMISSIONS.CLASSES.CREATE)
+  @Transactional()
+  @SerializeOptions({ type: ClassResponseDto })
+  async createClassFromTemplate(
+    @Param() params: ClassTemplateIdParamDto,
+    @Body() dto: CreateClassFromTemplateDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.classTemplatesService.createClassFromTemplate(
+      params.templateId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
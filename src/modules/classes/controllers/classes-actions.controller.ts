@@ -24,6 +24,11 @@ import { ExportClassesDto } from '../dto/export-classes.dto';
 import { ExportResponseDto } from '@/shared/common/dto/export-response.dto';
 import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
 import { ManagerialOnly } from '@/shared/common/decorators';
+import {
+  ClassRolloverService,
+  TermRolloverResult,
+} from '../services/class-rollover.service';
+import { RollOverTermDto } from '../dto/roll-over-term.dto';
 
 @ApiBearerAuth()
 @ApiTags('Classes Actions')
@@ -34,6 +39,7 @@ export class ClassesActionsController {
     private readonly classesService: ClassesService,
     private readonly exportService: ExportService,
     private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+    private readonly classRolloverService: ClassRolloverService,
   ) {}
 
   @Get('export')
@@ -119,4 +125,26 @@ export class ClassesActionsController {
 
     return ControllerResponse.success(result);
   }
+
+  @Post('roll-over-term')
+  @ApiOperation({
+    summary: 'Roll over classes of an academic term into another term',
+    description:
+      'Clones classes with their groups, schedule items and payment strategies into the target term. Classes already present in the target term are skipped.',
+  })
+  @ApiBody({ type: RollOverTermDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Term rolled over successfully',
+  })
+  @Permissions(PERMISSIONS.ACADEMIC_TERMS.ROLL_OVER)
+  @Transactional()
+  async rollOverTerm(
+    @Body() dto: RollOverTermDto,
+    @GetUser() actor: ActorUser,
+  ): Promise<ControllerResponse<TermRolloverResult>> {
+    const result = await this.classRolloverService.rollOverTerm(dto, actor);
+
+    return ControllerResponse.success(result);
+  }
 }
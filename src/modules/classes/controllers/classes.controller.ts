@@ -27,8 +27,9 @@ import { UpdateApiResponses } from '@/shared/common/decorators';
 import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
 import { SerializeOptions } from '@nestjs/common';
 import { ClassResponseDto } from '../dto/class-response.dto';
-import { StudentPaymentStrategyDto } from '../dto/student-payment-strategy.dto';
-import { TeacherPaymentStrategyDto } from '../dto/teacher-payment-strategy.dto';
+import { UpdateStudentPaymentStrategyDto } from '../dto/update-student-payment-strategy.dto';
+import { UpdateTeacherPaymentStrategyDto } from '../dto/update-teacher-payment-strategy.dto';
+import { ClassPriceHistoryResponseDto } from '../dto/class-price-history-response.dto';
 import { ApiBody } from '@nestjs/swagger';
 
 @ApiTags('Classes')
@@ -226,10 +227,43 @@ export class ClassesController {
     return ControllerResponse.success(null);
   }
 
+  @Get(':classId/price-history')
+  @ApiOperation({
+    summary: 'Get the price history of a class',
+    description:
+      'Every student price and teacher rate version with the day it took effect, latest first. Charges and payouts reference the version they were priced with',
+  })
+  @ApiParam({ name: 'classId', description: 'Class ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Price history retrieved successfully',
+    type: ClassPriceHistoryResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Class not found',
+  })
+  @Permissions(PERMISSIONS.CLASSES.READ)
+  @SerializeOptions({ type: ClassPriceHistoryResponseDto })
+  async getClassPriceHistory(
+    @Param() params: ClassIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.classesService.getClassPriceHistory(
+      params.classId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Put(':classId/student-payment')
-  @ApiOperation({ summary: 'Update student payment strategy for a class' })
+  @ApiOperation({
+    summary: 'Update student payment strategy for a class',
+    description:
+      'Records a new price version taking effect on effectiveFrom, the class prices change on that day while installment settings apply right away. With grandfatherExistingStudents, students already enrolled keep their previous prices',
+  })
   @ApiParam({ name: 'classId', description: 'Class ID' })
-  @ApiBody({ type: StudentPaymentStrategyDto })
+  @ApiBody({ type: UpdateStudentPaymentStrategyDto })
   @ApiResponse({
     status: 200,
     description: 'Student payment strategy updated successfully',
@@ -243,7 +277,7 @@ export class ClassesController {
   @SerializeOptions({ type: ClassResponseDto })
   async updateStudentPayment(
     @Param() params: ClassIdParamDto,
-    @Body() dto: StudentPaymentStrategyDto,
+    @Body() dto: UpdateStudentPaymentStrategyDto,
     @GetUser() actor: ActorUser,
   ) {
     const result = await this.classesService.updateStudentPaymentStrategy(
@@ -255,9 +289,13 @@ export class ClassesController {
   }
 
   @Put(':classId/teacher-payment')
-  @ApiOperation({ summary: 'Update teacher payment strategy for a class' })
+  @ApiOperation({
+    summary: 'Update teacher payment strategy for a class',
+    description:
+      'Records a new rate version taking effect on effectiveFrom, the class rate changes on that day. Once the class has started only the amount may change',
+  })
   @ApiParam({ name: 'classId', description: 'Class ID' })
-  @ApiBody({ type: TeacherPaymentStrategyDto })
+  @ApiBody({ type: UpdateTeacherPaymentStrategyDto })
   @ApiResponse({
     status: 200,
     description: 'Teacher payment strategy updated successfully',
@@ -271,7 +309,7 @@ export class ClassesController {
   @SerializeOptions({ type: ClassResponseDto })
   async updateTeacherPayment(
     @Param() params: ClassIdParamDto,
-    @Body() dto: TeacherPaymentStrategyDto,
+    @Body() dto: UpdateTeacherPaymentStrategyDto,
     @GetUser() actor: ActorUser,
   ) {
     const result = await this.classesService.updateTeacherPaymentStrategy(
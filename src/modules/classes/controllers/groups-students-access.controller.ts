@@ -6,6 +6,7 @@ import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
 import { Permissions } from '@/shared/common/decorators/permissions.decorator';
 import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
 import { GroupStudentAccessDto } from '../dto/group-student-access.dto';
+import { TransferGroupStudentDto } from '../dto/transfer-group-student.dto';
 import { BulkOperationResultDto } from '@/shared/common/dto/bulk-operation-result.dto';
 import { BulkOperationResult } from '@/shared/common/services/bulk-operation.service';
 import { BulkGrantGroupStudentDto } from '../dto/bulk-grant-group-student.dto';
@@ -74,6 +75,35 @@ export class GroupsStudentsAccessController {
     return ControllerResponse.success(null);
   }
 
+  @Post('transfer')
+  @ApiOperation({
+    summary: 'Transfer student between groups',
+    description:
+      'Moves a student from one group to another atomically. Charges stay valid within the same class; across classes they are carried over with a prorated credit or debit.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Student transferred successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Target group is full or student already assigned to it',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Student is not assigned to the source group',
+  })
+  @Permissions(PERMISSIONS.GROUPS.MANAGE_GROUP_STUDENT_ACCESS)
+  @SerializeOptions({ type: GroupStudent })
+  @Transactional()
+  async transferStudent(
+    @Body() dto: TransferGroupStudentDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.groupStudentService.transferStudent(dto, actor);
+    return ControllerResponse.success(result);
+  }
+
   @Post('bulk/grant')
   @ApiOperation({
     summary: 'Bulk grant group student access to multiple users',
@@ -0,0 +1,83 @@
+import { Controller, Post, Delete, Get, Body, Param } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { GetUser } from '@/shared/common/decorators/get-user.decorator';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GroupStudentAccessDto } from '../dto/group-student-access.dto';
+import { GroupIdParamDto } from '../dto/group-id-param.dto';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+import { GroupWaitlistService } from '../services/group-waitlist.service';
+import { ManagerialOnly } from '@/shared/common/decorators';
+
+@ApiTags('Groups - Waitlist')
+@Controller('groups/students/waitlist')
+@ManagerialOnly()
+export class GroupsWaitlistController {
+  constructor(private readonly groupWaitlistService: GroupWaitlistService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Add student to the waitlist of a full group' })
+  @ApiResponse({
+    status: 201,
+    description: 'Student added to waitlist successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Group has available capacity or student already waitlisted',
+  })
+  @Permissions(PERMISSIONS.GROUPS.MANAGE_GROUP_STUDENT_ACCESS)
+  @Transactional()
+  async addStudentToWaitlist(
+    @Body() groupStudentAccessDto: GroupStudentAccessDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.groupWaitlistService.addStudentToWaitlist(
+      groupStudentAccessDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Remove student from group waitlist' })
+  @ApiResponse({
+    status: 200,
+    description: 'Student removed from waitlist successfully',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Waitlist entry not found',
+  })
+  @Permissions(PERMISSIONS.GROUPS.MANAGE_GROUP_STUDENT_ACCESS)
+  @Transactional()
+  async removeStudentFromWaitlist(
+    @Body() groupStudentAccessDto: GroupStudentAccessDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.groupWaitlistService.removeStudentFromWaitlist(
+      groupStudentAccessDto,
+      actor,
+    );
+    return ControllerResponse.success(null);
+  }
+
+  @Get(':groupId')
+  @ApiOperation({ summary: 'Get group waitlist ordered by join time' })
+  @ApiResponse({
+    status: 200,
+    description: 'Waitlist retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.GROUPS.READ)
+  async getGroupWaitlist(
+    @Param() params: GroupIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.groupWaitlistService.getGroupWaitlist(
+      params.groupId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
@@ -18,8 +18,10 @@ import {
 } from '@nestjs/swagger';
 import { Transactional } from '@nestjs-cls/transactional';
 import { GroupsService } from '../services/groups.service';
+import { GroupRescheduleService } from '../services/group-reschedule.service';
 import { CreateGroupDto } from '../dto/create-group.dto';
 import { UpdateGroupDto } from '../dto/update-group.dto';
+import { RescheduleGroupDto } from '../dto/reschedule-group.dto';
 import { PaginateGroupsDto } from '../dto/paginate-groups.dto';
 import { GroupIdParamDto } from '../dto/group-id-param.dto';
 import { DeletedGroupIdParamDto } from '../dto/deleted-group-id-param.dto';
@@ -38,7 +40,10 @@ import { CreateApiResponses } from '@/shared/common/decorators';
 @Controller('groups')
 @ManagerialOnly()
 export class GroupsController {
-  constructor(private readonly groupsService: GroupsService) {}
+  constructor(
+    private readonly groupsService: GroupsService,
+    private readonly groupRescheduleService: GroupRescheduleService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all groups for a center with pagination' })
@@ -129,6 +134,57 @@ export class GroupsController {
     return ControllerResponse.success(result);
   }
 
+  @Post(':groupId/reschedule/preview')
+  @ApiOperation({
+    summary: 'Preview rescheduling a group',
+    description:
+      'Shows which future sessions would move, be canceled or be kept with new schedule items, and any teacher, room or student conflicts. Nothing is saved.',
+  })
+  @ApiParam({ name: 'groupId', description: 'Group ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Reschedule preview generated successfully',
+  })
+  @Permissions(PERMISSIONS.GROUPS.UPDATE)
+  async previewReschedule(
+    @Param() params: GroupIdParamDto,
+    @Body() dto: RescheduleGroupDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.groupRescheduleService.previewReschedule(
+      params.groupId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post(':groupId/reschedule')
+  @ApiOperation({
+    summary: 'Reschedule a group',
+    description:
+      'Replaces the schedule items and moves, cancels or keeps future sessions as the preview shows. Affected students are notified.',
+  })
+  @ApiParam({ name: 'groupId', description: 'Group ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Group rescheduled successfully',
+  })
+  @Permissions(PERMISSIONS.GROUPS.UPDATE)
+  @Transactional()
+  async applyReschedule(
+    @Param() params: GroupIdParamDto,
+    @Body() dto: RescheduleGroupDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.groupRescheduleService.applyReschedule(
+      params.groupId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Delete(':groupId')
   @ApiOperation({ summary: 'Delete a group' })
   @ApiParam({ name: 'groupId', description: 'Group ID' })
@@ -0,0 +1,90 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { TeacherPaymentUnit } from '../enums/teacher-payment-unit.enum';
+
+export class StudentPriceVersionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 2 })
+  versionNumber: number;
+
+  @ApiProperty({ description: 'YYYY-MM-DD', example: '2026-11-01' })
+  effectiveFrom: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  sessionPrice?: number | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  monthPrice?: number | null;
+
+  @ApiProperty({ required: false, nullable: true })
+  classPrice?: number | null;
+
+  @ApiProperty({
+    description:
+      'Students enrolled before effectiveFrom keep the previous prices',
+  })
+  grandfatherExistingStudents: boolean;
+
+  @ApiProperty({
+    description:
+      'When the class payment strategy switched to this version, null while it is scheduled',
+    required: false,
+    nullable: true,
+  })
+  appliedAt?: Date | null;
+
+  @ApiProperty()
+  createdByProfileId: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class TeacherPriceVersionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 2 })
+  versionNumber: number;
+
+  @ApiProperty({ description: 'YYYY-MM-DD', example: '2026-11-01' })
+  effectiveFrom: string;
+
+  @ApiProperty({ enum: TeacherPaymentUnit })
+  per: TeacherPaymentUnit;
+
+  @ApiProperty()
+  amount: number;
+
+  @ApiProperty({
+    description:
+      'When the class payment strategy switched to this version, null while it is scheduled',
+    required: false,
+    nullable: true,
+  })
+  appliedAt?: Date | null;
+
+  @ApiProperty()
+  createdByProfileId: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class ClassPriceHistoryResponseDto {
+  @ApiProperty()
+  classId: string;
+
+  @ApiProperty({
+    type: [StudentPriceVersionResponseDto],
+    description: 'Student price versions, latest first',
+  })
+  student: StudentPriceVersionResponseDto[];
+
+  @ApiProperty({
+    type: [TeacherPriceVersionResponseDto],
+    description: 'Teacher rate versions, latest first',
+  })
+  teacher: TeacherPriceVersionResponseDto[];
+}
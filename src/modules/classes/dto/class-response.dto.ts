@@ -4,6 +4,7 @@ import {
   StudentPaymentStrategy,
 } from '../interfaces/payment-strategy.interface';
 import { ClassStatus } from '../enums/class-status.enum';
+import { AcademicTermResponseDto } from '@/modules/academic-terms/dto/academic-term-response.dto';
 
 export class ClassResponseDto {
   @ApiProperty()
@@ -27,6 +28,9 @@ export class ClassResponseDto {
   @ApiProperty()
   centerId: string;
 
+  @ApiProperty({ required: false, nullable: true })
+  termId?: string | null;
+
   @ApiProperty()
   studentPaymentStrategy: StudentPaymentStrategy;
 
@@ -72,4 +76,7 @@ export class ClassResponseDto {
 
   @ApiProperty({ required: false })
   center?: any;
+
+  @ApiProperty({ required: false, type: AcademicTermResponseDto })
+  term?: AcademicTermResponseDto;
 }
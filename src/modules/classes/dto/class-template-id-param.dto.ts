@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { ClassTemplate } from '../entities/class-template.entity';
+
+export class ClassTemplateIdParamDto {
+  @ApiProperty({
+    description: 'Class template ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(ClassTemplate)
+  templateId: string;
+}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  TeacherPaymentStrategy,
+  StudentPaymentStrategy,
+} from '../interfaces/payment-strategy.interface';
+import { ClassTemplateScheduleItemDto } from './class-template-schedule-item.dto';
+
+export class ClassTemplateResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  centerId: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  levelId: string;
+
+  @ApiProperty()
+  subjectId: string;
+
+  @ApiProperty({ description: 'Class duration in minutes' })
+  duration: number;
+
+  @ApiProperty()
+  studentPaymentStrategy: StudentPaymentStrategy;
+
+  @ApiProperty()
+  teacherPaymentStrategy: TeacherPaymentStrategy;
+
+  @ApiProperty({ type: [ClassTemplateScheduleItemDto] })
+  scheduleItems: ClassTemplateScheduleItemDto[];
+
+  @ApiProperty({ required: false, nullable: true })
+  maxCapacity?: number | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
@@ -0,0 +1,7 @@
+import { OmitType } from '@nestjs/swagger';
+import { ScheduleItemDto } from './schedule-item.dto';
+
+// Templates are center-wide, rooms are chosen once the class has a branch
+export class ClassTemplateScheduleItemDto extends OmitType(ScheduleItemDto, [
+  'roomId',
+] as const) {}
@@ -0,0 +1,52 @@
+import { IsOptional, IsUUID, Validate } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
+import { IsoUtcDate } from '@/shared/common/decorators/is-iso-datetime.decorator';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+import { Branch } from '@/modules/centers/entities/branch.entity';
+
+export class CreateClassFromTemplateDto {
+  @ApiProperty({
+    description: 'Teacher user profile ID',
+    example: 'uuid',
+  })
+  @IsUUID(4)
+  @IsUserProfile(ProfileType.TEACHER)
+  teacherUserProfileId: string;
+
+  @ApiProperty({
+    description: "Branch ID (optional, defaults to actor's branch)",
+    example: 'uuid',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToCenter(Branch)
+  branchId?: string;
+
+  @ApiProperty({
+    description:
+      'Class start date (ISO 8601 format with timezone, e.g., 2024-01-01T00:00:00+02:00)',
+    example: '2024-01-01T00:00:00+02:00',
+    type: Date,
+  })
+  @IsoUtcDate()
+  startDate: Date;
+
+  @ApiProperty({
+    description:
+      'Class end date (optional, ISO 8601 format with timezone, e.g., 2024-12-31T23:59:59+02:00)',
+    example: '2024-12-31T23:59:59+02:00',
+    required: false,
+    type: Date,
+  })
+  @IsOptional()
+  @IsoUtcDate()
+  @Validate((object: CreateClassFromTemplateDto, value: Date) => {
+    if (!value || !object.startDate) return true;
+
+    // endDate must be after startDate
+    return value.getTime() > object.startDate.getTime();
+  })
+  endDate?: Date;
+}
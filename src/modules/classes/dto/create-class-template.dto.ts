@@ -0,0 +1,95 @@
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TeacherPaymentStrategyDto } from './teacher-payment-strategy.dto';
+import { StudentPaymentStrategyDto } from './student-payment-strategy.dto';
+import { ClassTemplateScheduleItemDto } from './class-template-schedule-item.dto';
+import { BelongsToCenter } from '@/shared/common/decorators';
+import { Level } from '@/modules/levels/entities/level.entity';
+import { Subject } from '@/modules/subjects/entities/subject.entity';
+
+export class CreateClassTemplateDto {
+  @ApiProperty({
+    description: 'Template name, also used as the name of created classes',
+    example: 'Math Primary 3',
+    maxLength: 255,
+  })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'Level ID',
+    example: 'uuid',
+  })
+  @IsUUID(4)
+  @BelongsToCenter(Level)
+  levelId: string;
+
+  @ApiProperty({
+    description: 'Subject ID',
+    example: 'uuid',
+  })
+  @IsUUID(4)
+  @BelongsToCenter(Subject)
+  subjectId: string;
+
+  @ApiProperty({
+    description: 'Class duration in minutes',
+    example: 60,
+    minimum: 10,
+    maximum: 24 * 60,
+  })
+  @IsInt()
+  @Min(10)
+  @Max(24 * 60) // 24 hours maximum
+  duration: number;
+
+  @ApiProperty({
+    description: 'Student payment strategy',
+    type: StudentPaymentStrategyDto,
+  })
+  @ValidateNested()
+  @Type(() => StudentPaymentStrategyDto)
+  studentPaymentStrategy: StudentPaymentStrategyDto;
+
+  @ApiProperty({
+    description: 'Teacher payment strategy',
+    type: TeacherPaymentStrategyDto,
+  })
+  @ValidateNested()
+  @Type(() => TeacherPaymentStrategyDto)
+  teacherPaymentStrategy: TeacherPaymentStrategyDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Default group schedule. Classes created from the template get a group with these slots.',
+    type: [ClassTemplateScheduleItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ClassTemplateScheduleItemDto)
+  scheduleItems?: ClassTemplateScheduleItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Maximum number of enrolled students of the default group. Omit for unlimited capacity.',
+    example: 30,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxCapacity?: number;
+}
@@ -19,6 +19,7 @@ import { ProfileType } from '@/shared/common/enums/profile-type.enum';
 import { Level } from '@/modules/levels/entities/level.entity';
 import { Subject } from '@/modules/subjects/entities/subject.entity';
 import { Branch } from '@/modules/centers/entities/branch.entity';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
 
 export class CreateClassDto {
   @ApiProperty({
@@ -64,6 +65,16 @@ export class CreateClassDto {
   @BelongsToCenter(Branch)
   branchId?: string;
 
+  @ApiProperty({
+    description: 'Academic term ID (optional, class is not scoped to a term)',
+    example: 'uuid',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToCenter(AcademicTerm)
+  termId?: string;
+
   @ApiProperty({
     description: 'Student payment strategy',
     type: StudentPaymentStrategyDto,
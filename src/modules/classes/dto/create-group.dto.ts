@@ -2,11 +2,14 @@ import {
   IsString,
   IsUUID,
   IsArray,
+  IsInt,
+  IsOptional,
   MaxLength,
+  Min,
   ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ScheduleItemDto } from './schedule-item.dto';
 import { BelongsToBranch } from '@/shared/common/decorators/belongs-to-branch.decorator';
 import { Class } from '../entities/class.entity';
@@ -29,6 +32,17 @@ export class CreateGroupDto {
   @MaxLength(255)
   name: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Maximum number of enrolled students. Omit for unlimited capacity.',
+    example: 30,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxCapacity?: number;
+
   @ApiProperty({
     description: 'Schedule items',
     type: [ScheduleItemDto],
@@ -0,0 +1,35 @@
+import { RescheduleSessionAction } from '../enums/reschedule-session-action.enum';
+import { RescheduleSessionReason } from '../enums/reschedule-session-reason.enum';
+import {
+  TeacherConflictDto,
+  StudentConflictDto,
+  RoomConflictDto,
+} from './schedule-conflict.dto';
+
+export interface RescheduledSessionDto {
+  sessionId: string;
+  action: RescheduleSessionAction;
+  reason?: RescheduleSessionReason;
+  startTime: Date;
+  endTime: Date;
+  roomId: string | null;
+  newStartTime?: Date;
+  newEndTime?: Date;
+  newRoomId?: string | null;
+  hasAttendance: boolean;
+  hasCharges: boolean; // Charges move with the session, sessions with charges are never canceled
+  conflictingSessionId?: string;
+}
+
+export interface GroupReschedulePreviewDto {
+  groupId: string;
+  sessions: RescheduledSessionDto[];
+  summary: {
+    moved: number;
+    dropped: number;
+    kept: number;
+  };
+  teacherConflict: TeacherConflictDto | null;
+  studentConflicts: StudentConflictDto[];
+  roomConflicts: RoomConflictDto[];
+}
@@ -17,6 +17,9 @@ export class GroupResponseDto {
   @ApiProperty({ required: false })
   name?: string;
 
+  @ApiProperty({ required: false, nullable: true })
+  maxCapacity?: number | null;
+
   @ApiProperty()
   createdAt: Date;
 
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class InstallmentPlanStepDto {
+  @ApiProperty({
+    description:
+      'Share of the class price due in this installment, the steps of a plan sum to 100',
+    example: 40,
+    minimum: 0.01,
+    maximum: 100,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  @Max(100)
+  percentage: number;
+
+  @ApiProperty({
+    description:
+      'Fixed due date (YYYY-MM-DD), set either this or daysAfterClassStart',
+    example: '2026-11-01',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'dueDate must be in YYYY-MM-DD format',
+  })
+  dueDate?: string;
+
+  @ApiProperty({
+    description:
+      'Days after the class start date the installment is due, set either this or dueDate',
+    example: 30,
+    minimum: 0,
+    maximum: 730,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(730)
+  daysAfterClassStart?: number;
+}
@@ -0,0 +1,21 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+
+export class PaginateClassTemplatesDto extends BasePaginationDto {
+  @ApiProperty({
+    description: 'Filter by level ID',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  levelId?: string;
+
+  @ApiProperty({
+    description: 'Filter by subject ID',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  subjectId?: string;
+}
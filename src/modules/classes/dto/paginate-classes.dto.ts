@@ -4,6 +4,7 @@ import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
 import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
 import { ProfileType } from '@/shared/common/enums/profile-type.enum';
 import { Branch } from '@/modules/centers/entities/branch.entity';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
 import { ClassStatus } from '../enums/class-status.enum';
 import { StudentPaymentType } from '../enums/student-payment-type.enum';
 import { Transform } from 'class-transformer';
@@ -18,6 +19,15 @@ export class PaginateClassesDto extends BasePaginationDto {
   @BelongsToCenter(Branch)
   branchId?: string;
 
+  @ApiProperty({
+    description: 'Filter by academic term ID',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToCenter(AcademicTerm)
+  termId?: string;
+
   @ApiProperty({
     description: 'Filter by level ID',
     required: false,
@@ -0,0 +1,33 @@
+import {
+  IsArray,
+  ArrayMinSize,
+  ValidateNested,
+  IsOptional,
+  IsBoolean,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ScheduleItemDto } from './schedule-item.dto';
+
+export class RescheduleGroupDto {
+  @ApiProperty({
+    description:
+      'New schedule items of the group. Future sessions of removed slots move to the added slots in weekday order.',
+    type: [ScheduleItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ScheduleItemDto)
+  scheduleItems: ScheduleItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Skip student conflict warnings. If true, student schedule conflicts will be ignored and operation will proceed.',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipWarning?: boolean;
+}
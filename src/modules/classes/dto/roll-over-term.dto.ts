@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
+import { Branch } from '@/modules/centers/entities/branch.entity';
+
+export class RollOverTermDto {
+  @ApiProperty({
+    description: 'Academic term to copy classes from',
+    example: 'uuid',
+  })
+  @IsUUID(4)
+  @BelongsToCenter(AcademicTerm)
+  sourceTermId: string;
+
+  @ApiProperty({
+    description: 'Academic term to copy classes into',
+    example: 'uuid',
+  })
+  @IsUUID(4)
+  @BelongsToCenter(AcademicTerm)
+  targetTermId: string;
+
+  @ApiProperty({
+    description: 'Only roll over classes of this branch (optional)',
+    example: 'uuid',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToCenter(Branch)
+  branchId?: string;
+}
@@ -16,3 +16,9 @@ export interface StudentConflictDto {
   studentName: string;
   conflicts: ConflictTimeRange[];
 }
+
+export interface RoomConflictDto {
+  roomId: string;
+  roomName: string;
+  conflicts: ConflictTimeRange[];
+}
@@ -22,6 +22,13 @@ export class ScheduleItemResponseDto {
   })
   endTime?: string;
 
+  @ApiProperty({
+    description: 'Room the schedule item takes place in',
+    required: false,
+    nullable: true,
+  })
+  roomId?: string | null;
+
   @ApiProperty()
   createdAt: Date;
 
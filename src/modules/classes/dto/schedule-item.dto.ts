@@ -1,6 +1,8 @@
-import { IsEnum, IsString, Matches } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, IsUUID, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { DayOfWeek } from '../enums/day-of-week.enum';
+import { BelongsToBranch } from '@/shared/common/decorators/belongs-to-branch.decorator';
+import { Room } from '@/modules/centers/entities/room.entity';
 
 export class ScheduleItemDto {
   @ApiProperty({
@@ -20,4 +22,15 @@ export class ScheduleItemDto {
     message: 'startTime must be in HH:mm format',
   })
   startTime: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Room for this schedule slot. Must belong to the group branch; the room cannot be double-booked.',
+    example: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToBranch(Room)
+  roomId?: string | null;
 }
@@ -1,11 +1,18 @@
 import {
+  ArrayMaxSize,
+  IsArray,
   IsBoolean,
+  IsInt,
   IsOptional,
   IsNumber,
+  Max,
   Min,
   Validate,
+  ValidateNested,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { InstallmentPlanStepDto } from './installment-plan-step.dto';
 
 export class StudentPaymentStrategyDto {
   @ApiProperty({
@@ -120,4 +127,45 @@ export class StudentPaymentStrategyDto {
   @IsNumber()
   @Min(0)
   classPrice?: number;
+
+  @ApiProperty({
+    type: [InstallmentPlanStepDto],
+    description:
+      'Installments the class charge is due in (only when includeClass is true). Percentages sum to 100 and each step sets either dueDate or daysAfterClassStart',
+    required: false,
+    nullable: true,
+    maxItems: 12,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(12)
+  @ValidateNested({ each: true })
+  @Type(() => InstallmentPlanStepDto)
+  installmentPlan?: InstallmentPlanStepDto[] | null;
+
+  @ApiProperty({
+    description:
+      'Days an installment may be overdue before attendance is blocked',
+    example: 3,
+    minimum: 0,
+    maximum: 90,
+    default: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(90)
+  installmentGraceDays?: number;
+
+  @ApiProperty({
+    description:
+      'Deny attendance while an installment is overdue beyond the grace days',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  blockAttendanceWhenOverdue?: boolean;
 }
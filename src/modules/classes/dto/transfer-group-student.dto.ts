@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsUUID, IsOptional, IsBoolean, IsIn } from 'class-validator';
+import { BelongsToBranch, IsUserProfile } from '@/shared/common/decorators';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
+import { Group } from '../entities/group.entity';
+
+export class TransferGroupStudentDto {
+  @ApiProperty({
+    description: 'The ID of the user profile (student) to transfer',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @IsUserProfile(ProfileType.STUDENT)
+  userProfileId: string;
+
+  @ApiProperty({
+    description: 'The ID of the group the student is currently assigned to',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToBranch(Group)
+  fromGroupId: string;
+
+  @ApiProperty({
+    description: 'The ID of the group to transfer the student to',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToBranch(Group)
+  toGroupId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Payment method used to settle the prorated billing difference when transferring across classes',
+    enum: [PaymentMethod.WALLET, PaymentMethod.CASH],
+    default: PaymentMethod.WALLET,
+  })
+  @IsOptional()
+  @IsIn([PaymentMethod.WALLET, PaymentMethod.CASH])
+  paymentMethod?: PaymentMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'Skip student conflict warnings. If true, student schedule conflicts will be ignored and operation will proceed.',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  skipWarning?: boolean;
+}
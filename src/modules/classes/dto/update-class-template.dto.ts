@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateClassTemplateDto } from './create-class-template.dto';
+
+export class UpdateClassTemplateDto extends PartialType(
+  CreateClassTemplateDto,
+) {}
@@ -6,6 +6,8 @@ import {
   ValidateNested,
   ArrayMinSize,
   IsBoolean,
+  IsInt,
+  Min,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -23,6 +25,18 @@ export class UpdateGroupDto {
   @MaxLength(255)
   name?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Maximum number of enrolled students. Send null to remove the limit. Cannot be lower than the current enrollment.',
+    example: 30,
+    minimum: 1,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxCapacity?: number | null;
+
   @ApiProperty({
     description: 'Schedule items (optional)',
     type: [ScheduleItemDto],
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, Matches } from 'class-validator';
+import { StudentPaymentStrategyDto } from './student-payment-strategy.dto';
+
+export class UpdateStudentPaymentStrategyDto extends StudentPaymentStrategyDto {
+  @ApiProperty({
+    description:
+      'Day the new prices take effect (YYYY-MM-DD), today or later. Defaults to today',
+    example: '2026-11-01',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'effectiveFrom must be in YYYY-MM-DD format',
+  })
+  effectiveFrom?: string;
+
+  @ApiProperty({
+    description:
+      'Apply the new prices only to students enrolling from effectiveFrom on, students already enrolled keep paying the previous prices',
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  grandfatherExistingStudents?: boolean;
+}
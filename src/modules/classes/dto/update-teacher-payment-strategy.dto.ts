@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, Matches } from 'class-validator';
+import { TeacherPaymentStrategyDto } from './teacher-payment-strategy.dto';
+
+export class UpdateTeacherPaymentStrategyDto extends TeacherPaymentStrategyDto {
+  @ApiProperty({
+    description:
+      'Day the new rate takes effect (YYYY-MM-DD), today or later. Defaults to today',
+    example: '2026-11-01',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'effectiveFrom must be in YYYY-MM-DD format',
+  })
+  effectiveFrom?: string;
+}
@@ -0,0 +1,66 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { SoftBaseEntity } from '@/shared/common/entities/soft-base.entity';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { Level } from '@/modules/levels/entities/level.entity';
+import { Subject } from '@/modules/subjects/entities/subject.entity';
+import { StudentPaymentStrategyDto } from '../dto/student-payment-strategy.dto';
+import { TeacherPaymentStrategyDto } from '../dto/teacher-payment-strategy.dto';
+import { DayOfWeek } from '../enums/day-of-week.enum';
+
+export interface ClassTemplateScheduleItem {
+  day: DayOfWeek;
+  startTime: string;
+}
+
+/**
+ * Reusable class shape for a center.
+ * Classes created from a template copy its level, subject, duration,
+ * payment strategies and default group schedule.
+ */
+@Entity('class_templates')
+@Index(['centerId'])
+@Index(['name', 'centerId'], { where: '"deletedAt" IS NULL', unique: true })
+@Index(['levelId'])
+@Index(['subjectId'])
+export class ClassTemplate extends SoftBaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'uuid' })
+  levelId: string;
+
+  @Column({ type: 'uuid' })
+  subjectId: string;
+
+  @Column({ type: 'int' })
+  duration: number;
+
+  @Column({ type: 'jsonb' })
+  studentPaymentStrategy: StudentPaymentStrategyDto;
+
+  @Column({ type: 'jsonb' })
+  teacherPaymentStrategy: TeacherPaymentStrategyDto;
+
+  // Weekly slots of the default group, rooms are picked per branch
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  scheduleItems: ClassTemplateScheduleItem[];
+
+  @Column({ type: 'int', nullable: true })
+  maxCapacity?: number | null;
+
+  // Relations
+  @ManyToOne(() => Center, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @ManyToOne(() => Level, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'levelId' })
+  level: Level;
+
+  @ManyToOne(() => Subject, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subjectId' })
+  subject: Subject;
+}
@@ -9,6 +9,7 @@ import {
 } from 'typeorm';
 import { Level } from '@/modules/levels/entities/level.entity';
 import { Subject } from '@/modules/subjects/entities/subject.entity';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
 import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
 import { Branch } from '@/modules/centers/entities/branch.entity';
 import { Center } from '@/modules/centers/entities/center.entity';
@@ -33,8 +34,13 @@ import { TeacherPayoutRecord } from '@/modules/teacher-payouts/entities/teacher-
 @Index(['centerId', 'branchId'])
 @Index(['status'])
 @Index(['centerId', 'status'])
+@Index(['termId'])
 @Index(['name', 'centerId', 'branchId'], {
-  where: '"deletedAt" IS NULL',
+  where: '"deletedAt" IS NULL AND "termId" IS NULL',
+  unique: true,
+})
+@Index(['name', 'centerId', 'branchId', 'termId'], {
+  where: '"deletedAt" IS NULL AND "termId" IS NOT NULL',
   unique: true,
 })
 export class Class extends SoftBaseEntity {
@@ -63,6 +69,9 @@ export class Class extends SoftBaseEntity {
   @Column({ type: 'uuid' })
   centerId: string;
 
+  @Column({ type: 'uuid', nullable: true })
+  termId?: string | null; // Academic term the class belongs to (null = not scoped to a term)
+
   @Column({ type: 'timestamptz' })
   startDate: Date;
 
@@ -103,6 +112,12 @@ export class Class extends SoftBaseEntity {
   @JoinColumn({ name: 'centerId' })
   center: Center;
 
+  @ManyToOne(() => AcademicTerm, (term) => term.classes, {
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'termId' })
+  term?: AcademicTerm;
+
   @OneToMany(() => Group, (group) => group.class)
   groups: Group[];
 
@@ -0,0 +1,44 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Group } from './group.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+
+@Entity('group_waitlist_entries')
+@Index(['groupId', 'joinedAt'])
+@Index(['groupId', 'studentUserProfileId'], { unique: true })
+@Index(['studentUserProfileId'])
+@Index(['centerId', 'branchId'])
+export class GroupWaitlistEntry extends BaseEntity {
+  @Column({ type: 'uuid' })
+  groupId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'uuid' })
+  classId: string; // Denormalized from group
+
+  @Column({ type: 'uuid' })
+  centerId: string; // Denormalized from Group for performance and snapshot
+
+  @Column({ type: 'uuid' })
+  branchId: string; // Denormalized from Group for performance and snapshot
+
+  // Waitlist order - earliest entry is promoted first
+  @Column({
+    type: 'timestamptz',
+    default: () => 'CURRENT_TIMESTAMP',
+  })
+  joinedAt: Date;
+
+  // Relations
+  @ManyToOne(() => Group, (group) => group.waitlistEntries, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'groupId' })
+  group: Group;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student: UserProfile;
+}
@@ -11,6 +11,7 @@ import { Branch } from '@/modules/centers/entities/branch.entity';
 import { Center } from '@/modules/centers/entities/center.entity';
 import { ScheduleItem } from './schedule-item.entity';
 import { GroupStudent } from './group-student.entity';
+import { GroupWaitlistEntry } from './group-waitlist-entry.entity';
 import { SoftBaseEntity } from '@/shared/common/entities/soft-base.entity';
 import { Session } from '@/modules/sessions/entities/session.entity';
 
@@ -34,6 +35,9 @@ export class Group extends SoftBaseEntity {
   @Column({ type: 'varchar', length: 255 })
   name: string;
 
+  @Column({ type: 'int', nullable: true })
+  maxCapacity?: number | null; // null = unlimited
+
   // Relations
   @ManyToOne(() => Class, (classEntity) => classEntity.groups, {
     onDelete: 'CASCADE',
@@ -63,6 +67,9 @@ export class Group extends SoftBaseEntity {
   })
   groupStudents: GroupStudent[];
 
+  @OneToMany(() => GroupWaitlistEntry, (entry) => entry.group)
+  waitlistEntries: GroupWaitlistEntry[];
+
   @OneToMany(() => Session, (session) => session.group)
   sessions: Session[];
 }
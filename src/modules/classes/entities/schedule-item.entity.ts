@@ -15,10 +15,12 @@ import { Branch } from '@/modules/centers/entities/branch.entity';
 import { Teacher } from '@/modules/teachers/entities/teacher.entity';
 import { Center } from '@/modules/centers/entities/center.entity';
 import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { Room } from '@/modules/centers/entities/room.entity';
 
 @Entity('schedule_items')
 @Index(['groupId'])
 @Index(['groupId', 'day'])
+@Index(['roomId', 'day'])
 export class ScheduleItem extends BaseEntity {
   @Column({ type: 'uuid' })
   groupId: string;
@@ -38,6 +40,9 @@ export class ScheduleItem extends BaseEntity {
   @Column({ type: 'varchar', length: 8 })
   startTime: string; // Format: "HH:mm"
 
+  @Column({ type: 'uuid', nullable: true })
+  roomId?: string | null;
+
   // Relations
   @ManyToOne(() => Group, (group) => group.scheduleItems, {
     onDelete: 'CASCADE',
@@ -65,4 +70,10 @@ export class ScheduleItem extends BaseEntity {
   })
   @JoinColumn({ name: 'centerId' })
   center: Center;
+
+  @ManyToOne(() => Room, (room) => room.scheduleItems, {
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'roomId' })
+  room?: Room;
 }
@@ -1,6 +1,7 @@
 import { Entity, Column, OneToOne, JoinColumn, Index } from 'typeorm';
 import { BaseEntity } from '@/shared/common/entities/base.entity';
 import { Class } from './class.entity';
+import { InstallmentPlanStep } from '../interfaces/payment-strategy.interface';
 
 @Entity('student_payment_strategies')
 @Index(['classId'])
@@ -49,6 +50,15 @@ export class StudentPaymentStrategy extends BaseEntity {
   })
   classPrice?: number; // One-time class charge price (when includeClass = true)
 
+  @Column({ type: 'jsonb', nullable: true })
+  installmentPlan?: InstallmentPlanStep[] | null; // Due dates of class charge installments (when includeClass = true)
+
+  @Column({ type: 'int', default: 0 })
+  installmentGraceDays: number; // Days an installment may be overdue before attendance is blocked
+
+  @Column({ type: 'boolean', default: false })
+  blockAttendanceWhenOverdue: boolean; // Deny attendance while an installment is overdue beyond the grace days
+
   // Relations
   @OneToOne(() => Class, (classEntity) => classEntity.studentPaymentStrategy, {
     onDelete: 'CASCADE',
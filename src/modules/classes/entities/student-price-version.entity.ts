@@ -0,0 +1,43 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Class } from './class.entity';
+
+@Entity('student_price_versions')
+@Index(['classId', 'versionNumber'], { unique: true })
+@Index(['classId', 'effectiveFrom'])
+export class StudentPriceVersion extends BaseEntity {
+  @Column({ type: 'uuid' })
+  classId: string;
+
+  @Column({ type: 'uuid' })
+  centerId: string; // Denormalized from Class for performance and snapshot
+
+  @Column({ type: 'uuid' })
+  branchId: string; // Denormalized from Class for performance and snapshot
+
+  @Column({ type: 'int' })
+  versionNumber: number; // 1 for the prices the class was created with
+
+  @Column({ type: 'date' })
+  effectiveFrom: string; // YYYY-MM-DD in the center timezone
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  sessionPrice?: number | null; // Null when per-session payments were off
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  monthPrice?: number | null; // Null when monthly subscriptions were off
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, nullable: true })
+  classPrice?: number | null; // Null when one-time class charges were off
+
+  @Column({ type: 'boolean', default: false })
+  grandfatherExistingStudents: boolean; // Students enrolled before effectiveFrom keep the previous prices
+
+  @Column({ type: 'timestamptz', nullable: true })
+  appliedAt?: Date | null; // When the prices were written to the class payment strategy, null while scheduled
+
+  // Relations
+  @ManyToOne(() => Class, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'classId' })
+  class: Class;
+}
@@ -0,0 +1,55 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Class } from './class.entity';
+import { TeacherPaymentUnit } from '../enums/teacher-payment-unit.enum';
+
+@Entity('teacher_price_versions')
+@Index(['classId', 'versionNumber'], { unique: true })
+@Index(['classId', 'effectiveFrom'])
+export class TeacherPriceVersion extends BaseEntity {
+  @Column({ type: 'uuid' })
+  classId: string;
+
+  @Column({ type: 'uuid' })
+  centerId: string; // Denormalized from Class for performance and snapshot
+
+  @Column({ type: 'uuid' })
+  branchId: string; // Denormalized from Class for performance and snapshot
+
+  @Column({ type: 'int' })
+  versionNumber: number; // 1 for the rate the class was created with
+
+  @Column({ type: 'date' })
+  effectiveFrom: string; // YYYY-MM-DD in the center timezone
+
+  @Column({
+    type: 'enum',
+    enum: TeacherPaymentUnit,
+  })
+  per: TeacherPaymentUnit;
+
+  @Column({
+    type: 'decimal',
+    precision: 10,
+    scale: 2,
+    transformer: {
+      // Convert database string to number when reading
+      from: (value: string | null): number | null => {
+        return value === null ? null : parseFloat(value);
+      },
+      // Convert number to string when writing
+      to: (value: number | null): string | null => {
+        return value === null ? null : value.toString();
+      },
+    },
+  })
+  amount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  appliedAt?: Date | null; // When the rate was written to the class payment strategy, null while scheduled
+
+  // Relations
+  @ManyToOne(() => Class, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'classId' })
+  class: Class;
+}
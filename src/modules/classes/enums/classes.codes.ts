@@ -36,6 +36,17 @@ export enum ClassErrorCode {
   RESOURCE_ACCESS_DENIED = 'CLS_054',
   CLASS_STAFF_ACCESS_NOT_FOUND = 'CLS_055',
 
+  // Group capacity and waitlist errors
+  GROUP_CAPACITY_REACHED = 'CLS_060',
+  GROUP_CAPACITY_BELOW_ENROLLMENT = 'CLS_061',
+  GROUP_HAS_AVAILABLE_CAPACITY = 'CLS_062',
+  STUDENT_ALREADY_WAITLISTED = 'CLS_063',
+  WAITLIST_ENTRY_NOT_FOUND = 'CLS_064',
+  ROOM_SCHEDULE_CONFLICT = 'CLS_065',
+  TRANSFER_SAME_GROUP = 'CLS_066',
+  CLASS_TEMPLATE_NOT_FOUND = 'CLS_067',
+  CLASS_TEMPLATE_NAME_ALREADY_EXISTS = 'CLS_068',
+
   // Validation errors
   CLASS_VALIDATION_FAILED = 'CLS_046',
   GROUP_VALIDATION_FAILED = 'CLS_047',
@@ -45,4 +56,6 @@ export enum ClassErrorCode {
   GROUP_CREATION_NOT_ALLOWED_FOR_CLASS_STATUS = 'CLS_051',
   CLASS_BRANCH_REQUIRED = 'CLS_058',
   CLASS_ID_REQUIRED = 'CLS_059',
+  INSTALLMENT_PLAN_INVALID = 'CLS_069',
+  PRICE_EFFECTIVE_DATE_INVALID = 'CLS_070',
 }
@@ -0,0 +1,5 @@
+export enum RescheduleSessionAction {
+  MOVE = 'MOVE', // Session moves to its new slot (time and/or room)
+  DROP = 'DROP', // Session is canceled
+  KEEP = 'KEEP', // Session stays as it is
+}
@@ -0,0 +1,9 @@
+export enum RescheduleSessionReason {
+  SCHEDULE_ITEM_REMOVED = 'SCHEDULE_ITEM_REMOVED', // No new slot replaces the session's slot
+  TIME_IN_PAST = 'TIME_IN_PAST', // New slot of that week has already passed
+  CLOSURE_DATE = 'CLOSURE_DATE', // New slot falls on a center/branch closure
+  SLOT_TAKEN = 'SLOT_TAKEN', // Group already has a session at the new time
+  HAS_ATTENDANCE = 'HAS_ATTENDANCE', // Attendance was already recorded
+  HAS_CHARGES = 'HAS_CHARGES', // Students were charged for the session, it is not canceled
+  TEACHER_CONFLICT = 'TEACHER_CONFLICT', // Teacher has another session at the new time
+}
@@ -1,5 +1,6 @@
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { Group } from '../entities/group.entity';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
 
 /**
  * Event emitted when a student is added to a group
@@ -26,3 +27,32 @@ export class StudentRemovedFromGroupEvent {
     public readonly centerId: string,
   ) {}
 }
+
+/**
+ * Event emitted when a waitlisted student is promoted into a group
+ * after a seat is freed
+ */
+export class StudentPromotedFromWaitlistEvent {
+  constructor(
+    public readonly studentUserProfileId: string,
+    public readonly group: Group,
+    public readonly actor: ActorUser,
+    public readonly centerId: string,
+  ) {}
+}
+
+/**
+ * Event emitted when a student is moved from one group to another.
+ * Billing listeners carry the student's charges over when the groups
+ * belong to different classes.
+ */
+export class StudentTransferredBetweenGroupsEvent {
+  constructor(
+    public readonly studentUserProfileId: string,
+    public readonly fromGroup: Group,
+    public readonly toGroup: Group,
+    public readonly actor: ActorUser,
+    public readonly centerId: string,
+    public readonly paymentMethod?: PaymentMethod,
+  ) {}
+}
@@ -98,6 +98,19 @@ export class ClassesErrors extends BaseErrorHelpers {
     });
   }
 
+  // Detailed room schedule conflicts
+  static roomScheduleConflict(
+    roomName: string,
+    roomId: string,
+    conflicts: Array<{ day: string; timeRange: string }>,
+  ): DomainException {
+    return this.createWithDetails(ClassErrorCode.ROOM_SCHEDULE_CONFLICT, {
+      roomName,
+      roomId,
+      conflicts,
+    });
+  }
+
   // Group errors
   static groupNotFound(): DomainException {
     return this.createNoDetails(ClassErrorCode.GROUP_NOT_FOUND);
@@ -127,6 +140,28 @@ export class ClassesErrors extends BaseErrorHelpers {
     );
   }
 
+  static transferSameGroup(): DomainException {
+    return this.createNoDetails(ClassErrorCode.TRANSFER_SAME_GROUP);
+  }
+
+  static classTemplateNotFound(): DomainException {
+    return this.createNoDetails(ClassErrorCode.CLASS_TEMPLATE_NOT_FOUND);
+  }
+
+  static classTemplateNameAlreadyExists(): DomainException {
+    return this.createNoDetails(
+      ClassErrorCode.CLASS_TEMPLATE_NAME_ALREADY_EXISTS,
+    );
+  }
+
+  static installmentPlanInvalid(): DomainException {
+    return this.createNoDetails(ClassErrorCode.INSTALLMENT_PLAN_INVALID);
+  }
+
+  static priceEffectiveDateInvalid(): DomainException {
+    return this.createNoDetails(ClassErrorCode.PRICE_EFFECTIVE_DATE_INVALID);
+  }
+
   static resourceAccessDenied(): DomainException {
     return this.createNoDetails(ClassErrorCode.RESOURCE_ACCESS_DENIED);
   }
@@ -147,6 +182,35 @@ export class ClassesErrors extends BaseErrorHelpers {
     return this.createNoDetails(ClassErrorCode.CLASS_STAFF_ACCESS_NOT_FOUND);
   }
 
+  // Group capacity and waitlist errors
+  static groupCapacityReached(maxCapacity: number): DomainException {
+    return this.createWithDetails(ClassErrorCode.GROUP_CAPACITY_REACHED, {
+      maxCapacity,
+    });
+  }
+
+  static groupCapacityBelowEnrollment(
+    maxCapacity: number,
+    studentsCount: number,
+  ): DomainException {
+    return this.createWithDetails(
+      ClassErrorCode.GROUP_CAPACITY_BELOW_ENROLLMENT,
+      { maxCapacity, studentsCount },
+    );
+  }
+
+  static groupHasAvailableCapacity(): DomainException {
+    return this.createNoDetails(ClassErrorCode.GROUP_HAS_AVAILABLE_CAPACITY);
+  }
+
+  static studentAlreadyWaitlisted(): DomainException {
+    return this.createNoDetails(ClassErrorCode.STUDENT_ALREADY_WAITLISTED);
+  }
+
+  static waitlistEntryNotFound(): DomainException {
+    return this.createNoDetails(ClassErrorCode.WAITLIST_ENTRY_NOT_FOUND);
+  }
+
   // Validation errors
   static classValidationFailed(): DomainException {
     return this.createNoDetails(ClassErrorCode.CLASS_VALIDATION_FAILED);
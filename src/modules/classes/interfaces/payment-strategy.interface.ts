@@ -24,3 +24,14 @@ export interface StudentPaymentStrategy {
   includeMonth: boolean;
   monthPrice?: number;
 }
+
+/**
+ * One installment of a class charge plan, due either on a fixed date or a
+ * number of days after the class starts
+ * - percentage: share of the class price, the steps of a plan sum to 100
+ */
+export interface InstallmentPlanStep {
+  percentage: number;
+  dueDate?: string; // YYYY-MM-DD
+  daysAfterClassStart?: number;
+}
@@ -0,0 +1,101 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { RequestContext } from '@/shared/common/context/request.context';
+import { Locale } from '@/shared/common/enums/locale.enum';
+import { SYSTEM_USER_ID } from '@/shared/common/constants/system-actor.constant';
+import { PaymentStrategyService } from '../services/payment-strategy.service';
+import { StudentPriceVersionsRepository } from '../repositories/student-price-versions.repository';
+import { TeacherPriceVersionsRepository } from '../repositories/teacher-price-versions.repository';
+
+@Injectable()
+export class ClassPriceVersionsJob {
+  private readonly logger = new Logger(ClassPriceVersionsJob.name);
+
+  constructor(
+    private readonly paymentStrategyService: PaymentStrategyService,
+    private readonly studentPriceVersionsRepository: StudentPriceVersionsRepository,
+    private readonly teacherPriceVersionsRepository: TeacherPriceVersionsRepository,
+  ) {}
+
+  /**
+   * Runs hourly and writes scheduled price changes that took effect to the
+   * payment strategies of their classes. Hourly so centers in every timezone
+   * get their new prices shortly after their local midnight.
+   */
+  @Cron('20 * * * *') // Every hour at minute 20
+  async applyScheduledPriceChanges(): Promise<void> {
+    const startMs = Date.now();
+    const jobId = `class-price-versions:${new Date().toISOString()}`;
+
+    this.logger.log('Starting class price versions job', { jobId });
+
+    try {
+      await RequestContext.run(
+        {
+          userId: SYSTEM_USER_ID,
+          locale: Locale.EN,
+          userProfileId: SYSTEM_USER_ID,
+        },
+        async () => {
+          const { applied, failed } = await this.processClasses();
+
+          this.logger.log('Class price versions job completed', {
+            jobId,
+            durationMs: Date.now() - startMs,
+            applied,
+            failed,
+          });
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        'Class price versions job failed',
+        error instanceof Error ? error.stack : String(error),
+        {
+          jobId,
+          durationMs: Date.now() - startMs,
+        },
+      );
+      throw error;
+    }
+  }
+
+  private async processClasses(): Promise<{
+    applied: number;
+    failed: number;
+  }> {
+    let applied = 0;
+    let failed = 0;
+
+    const asOf = new Date();
+    const studentClassIds =
+      await this.studentPriceVersionsRepository.findClassIdsWithDueVersions(
+        asOf,
+      );
+    const teacherClassIds =
+      await this.teacherPriceVersionsRepository.findClassIdsWithDueVersions(
+        asOf,
+      );
+    const classIds = new Set([...studentClassIds, ...teacherClassIds]);
+
+    this.logger.debug(
+      `Found ${classIds.size} classes with scheduled price changes due`,
+    );
+
+    for (const classId of classIds) {
+      try {
+        await this.paymentStrategyService.applyDuePriceVersions(classId, asOf);
+        applied++;
+      } catch (error) {
+        failed++;
+        this.logger.error(
+          `Failed to apply scheduled price changes for class ${classId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+        // Continue with other classes even if one fails
+      }
+    }
+
+    return { applied, failed };
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { GroupEvents } from '@/shared/events/groups.events.enum';
+import {
+  StudentRemovedFromGroupEvent,
+  StudentTransferredBetweenGroupsEvent,
+} from '../events/group-student.events';
+import { GroupWaitlistService } from '../services/group-waitlist.service';
+
+@Injectable()
+export class GroupWaitlistListener {
+  constructor(private readonly groupWaitlistService: GroupWaitlistService) {}
+
+  // A seat was freed - promote the next waitlisted student
+  @OnEvent(GroupEvents.STUDENT_REMOVED)
+  async handleStudentRemoved(event: StudentRemovedFromGroupEvent) {
+    await this.groupWaitlistService.promoteFromWaitlist(
+      event.groupId,
+      event.actor,
+    );
+  }
+
+  // A transfer frees a seat in the group the student left
+  @OnEvent(GroupEvents.STUDENT_TRANSFERRED)
+  async handleStudentTransferred(event: StudentTransferredBetweenGroupsEvent) {
+    await this.groupWaitlistService.promoteFromWaitlist(
+      event.fromGroup.id,
+      event.actor,
+    );
+  }
+}
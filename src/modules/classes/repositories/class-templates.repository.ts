@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { ClassTemplate } from '../entities/class-template.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { PaginateClassTemplatesDto } from '../dto/paginate-class-templates.dto';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { CLASS_TEMPLATE_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
+
+@Injectable()
+export class ClassTemplatesRepository extends BaseRepository<ClassTemplate> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof ClassTemplate {
+    return ClassTemplate;
+  }
+
+  async paginateClassTemplates(
+    paginateDto: PaginateClassTemplatesDto,
+    centerId: string,
+  ): Promise<Pagination<ClassTemplate>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('template')
+      .where('template.centerId = :centerId', { centerId });
+
+    if (paginateDto.levelId) {
+      queryBuilder.andWhere('template.levelId = :levelId', {
+        levelId: paginateDto.levelId,
+      });
+    }
+
+    if (paginateDto.subjectId) {
+      queryBuilder.andWhere('template.subjectId = :subjectId', {
+        subjectId: paginateDto.subjectId,
+      });
+    }
+
+    return this.paginate(
+      paginateDto,
+      CLASS_TEMPLATE_PAGINATION_COLUMNS,
+      'class-templates',
+      queryBuilder,
+    );
+  }
+
+  async findByCenterAndName(
+    centerId: string,
+    name: string,
+  ): Promise<ClassTemplate | null> {
+    return this.getRepository().findOne({
+      where: { centerId, name },
+    });
+  }
+}
@@ -1,10 +1,14 @@
 import { Injectable } from '@nestjs/common';
+import { IsNull } from 'typeorm';
 import { Class } from '../entities/class.entity';
 import { BaseRepository } from '@/shared/common/repositories/base.repository';
 import { PaginateClassesDto } from '../dto/paginate-classes.dto';
 import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
 import { TransactionHost } from '@nestjs-cls/transactional';
-import { ScheduleConflictQueryBuilder } from '../utils/schedule-conflict-query-builder';
+import {
+  ScheduleConflictQueryBuilder,
+  ScheduleDateRange,
+} from '../utils/schedule-conflict-query-builder';
 import { Group } from '../entities/group.entity';
 import { GroupStudent } from '../entities/group-student.entity';
 import { TeacherConflictDto } from '../dto/schedule-conflict.dto';
@@ -14,6 +18,7 @@ import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { CLASS_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
 import { ProfileType } from '@/shared/common/enums/profile-type.enum';
 import { StudentPaymentType } from '../enums/student-payment-type.enum';
+import { ClassStatus } from '../enums/class-status.enum';
 
 /**
  * Class entity with groups relation and student count
@@ -60,6 +65,7 @@ export class ClassesRepository extends BaseRepository<Class> {
       .leftJoin('teacher.user', 'teacherUser')
       .leftJoin('class.branch', 'branch')
       .leftJoin('class.center', 'center')
+      .leftJoin('class.term', 'term')
       .leftJoinAndSelect(
         'class.studentPaymentStrategy',
         'studentPaymentStrategy',
@@ -78,6 +84,8 @@ export class ClassesRepository extends BaseRepository<Class> {
         'teacherUser.name',
         'branch.id',
         'branch.city',
+        'term.id',
+        'term.name',
       ])
       // Add count subqueries
       .addSelect(
@@ -141,6 +149,12 @@ export class ClassesRepository extends BaseRepository<Class> {
       });
     }
 
+    if (paginateDto.termId) {
+      queryBuilder.andWhere('class.termId = :termId', {
+        termId: paginateDto.termId,
+      });
+    }
+
     if (paginateDto.levelId) {
       queryBuilder.andWhere('class.levelId = :levelId', {
         levelId: paginateDto.levelId,
@@ -237,6 +251,7 @@ export class ClassesRepository extends BaseRepository<Class> {
       .leftJoin('teacher.user', 'teacherUser')
       .leftJoin('class.branch', 'branch')
       .leftJoin('class.center', 'center')
+      .leftJoin('class.term', 'term')
       // Load full payment strategies
       .leftJoinAndSelect(
         'class.studentPaymentStrategy',
@@ -266,6 +281,8 @@ export class ClassesRepository extends BaseRepository<Class> {
         'branch.city',
         'center.id',
         'center.name',
+        'term.id',
+        'term.name',
         // Audit fields
         'creator.id',
         'creatorUser.id',
@@ -330,6 +347,7 @@ export class ClassesRepository extends BaseRepository<Class> {
    * @param teacherUserProfileId - The teacher's user profile ID
    * @param newScheduleItems - Array of new schedule items to check for conflicts (with duration)
    * @param excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param dateRange - Optional dates of the class, classes not running in them are ignored
    * @returns Teacher conflict data with all conflicts aggregated, or null if no conflicts
    */
   async findAllTeacherScheduleConflictsForDurationUpdate(
@@ -340,6 +358,7 @@ export class ClassesRepository extends BaseRepository<Class> {
       duration: number;
     }>,
     excludeGroupIds?: string[],
+    dateRange?: ScheduleDateRange,
   ): Promise<TeacherConflictDto | null> {
     if (newScheduleItems.length === 0) {
       return null;
@@ -361,6 +380,11 @@ export class ClassesRepository extends BaseRepository<Class> {
       params.length,
     );
     ScheduleConflictQueryBuilder.addExcludeParameter(params, excludeGroupIds);
+    const dateRangeInfo = ScheduleConflictQueryBuilder.buildDateRangeCondition(
+      dateRange,
+      params.length,
+    );
+    ScheduleConflictQueryBuilder.addDateRangeParameters(params, dateRange);
 
     const query = `
       WITH distinct_conflicts AS (
@@ -382,6 +406,7 @@ export class ClassesRepository extends BaseRepository<Class> {
           AND c."deletedAt" IS NULL
           AND g."deletedAt" IS NULL
           ${excludeInfo.condition}
+          ${dateRangeInfo.condition}
           AND (${conflictConditions})
       ),
       conflict_data AS (
@@ -552,6 +577,7 @@ export class ClassesRepository extends BaseRepository<Class> {
     teacherUserProfileId: string,
     levelId: string,
     subjectId: string,
+    termId?: string | null,
   ): Promise<Class | null> {
     return this.getRepository().findOne({
       where: {
@@ -560,17 +586,58 @@ export class ClassesRepository extends BaseRepository<Class> {
         teacherUserProfileId,
         levelId,
         subjectId,
+        // Same combination may repeat across terms
+        termId: termId ?? IsNull(),
       },
     });
   }
 
-  async countActiveTeachersForCenter(centerId: string): Promise<number> {
+  /**
+   * Find classes of a term that can be rolled over into another term,
+   * with payment strategies and groups (including schedule items).
+   */
+  async findClassesForTermRollover(
+    termId: string,
+    centerId: string,
+    branchId?: string,
+  ): Promise<Class[]> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('class')
+      .leftJoinAndSelect(
+        'class.studentPaymentStrategy',
+        'studentPaymentStrategy',
+      )
+      .leftJoinAndSelect(
+        'class.teacherPaymentStrategy',
+        'teacherPaymentStrategy',
+      )
+      .leftJoinAndSelect('class.groups', 'groups', 'groups.deletedAt IS NULL')
+      .leftJoinAndSelect('groups.scheduleItems', 'scheduleItems')
+      .where('class.termId = :termId', { termId })
+      .andWhere('class.centerId = :centerId', { centerId })
+      .andWhere('class.status != :canceled', {
+        canceled: ClassStatus.CANCELED,
+      })
+      .orderBy('class.createdAt', 'ASC');
+
+    if (branchId) {
+      queryBuilder.andWhere('class.branchId = :branchId', { branchId });
+    }
+
+    return queryBuilder.getMany();
+  }
+
+  async countActiveTeachersForCenter(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     const result = await this.getRepository()
       .createQueryBuilder('class')
       .select('COUNT(DISTINCT class.teacherUserProfileId)', 'count')
       .where('class.centerId = :centerId', { centerId })
       .andWhere('class.status = :status', { status: 'ACTIVE' })
       .andWhere('class.teacherUserProfileId IS NOT NULL')
+      .andWhere(termId ? 'class.termId = :termId' : '1=1', { termId })
       .getRawOne<CountRawResult>();
 
     return parseInt(result?.count ?? '0', 10);
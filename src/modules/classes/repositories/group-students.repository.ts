@@ -3,7 +3,10 @@ import { GroupStudent } from '../entities/group-student.entity';
 import { BaseRepository } from '@/shared/common/repositories/base.repository';
 import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
 import { TransactionHost } from '@nestjs-cls/transactional';
-import { ScheduleConflictQueryBuilder } from '../utils/schedule-conflict-query-builder';
+import {
+  ScheduleConflictQueryBuilder,
+  ScheduleDateRange,
+} from '../utils/schedule-conflict-query-builder';
 import { StudentConflictDto } from '../dto/schedule-conflict.dto';
 import { IsNull } from 'typeorm';
 
@@ -35,6 +38,15 @@ export class GroupStudentsRepository extends BaseRepository<GroupStudent> {
     });
   }
 
+  /**
+   * Count students currently enrolled in a group (leftAt IS NULL)
+   */
+  async countActiveByGroupId(groupId: string): Promise<number> {
+    return this.getRepository().count({
+      where: { groupId, leftAt: IsNull() },
+    });
+  }
+
   /**
    * Find all student IDs for multiple groups - optimized query
    */
@@ -95,6 +107,7 @@ export class GroupStudentsRepository extends BaseRepository<GroupStudent> {
    * @param studentIds - Array of student user profile IDs to check
    * @param newScheduleItems - Array of new schedule items to check for conflicts (with duration)
    * @param excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param dateRange - Optional dates of the class, classes not running in them are ignored
    * @returns Array of student conflict data, each with student info and their conflicts
    */
   async findAllStudentScheduleConflictsForDurationUpdate(
@@ -105,6 +118,7 @@ export class GroupStudentsRepository extends BaseRepository<GroupStudent> {
       duration: number;
     }>,
     excludeGroupIds?: string[],
+    dateRange?: ScheduleDateRange,
   ): Promise<StudentConflictDto[]> {
     if (newScheduleItems.length === 0 || studentIds.length === 0) {
       return [];
@@ -162,6 +176,11 @@ export class GroupStudentsRepository extends BaseRepository<GroupStudent> {
         : [excludeGroupIds];
       params.push(...excludeIds);
     }
+    const dateRangeInfo = ScheduleConflictQueryBuilder.buildDateRangeCondition(
+      dateRange,
+      params.length,
+    );
+    ScheduleConflictQueryBuilder.addDateRangeParameters(params, dateRange);
 
     const query = `
       WITH distinct_conflicts AS (
@@ -184,6 +203,7 @@ export class GroupStudentsRepository extends BaseRepository<GroupStudent> {
           AND gs."leftAt" IS NULL
           AND g."deletedAt" IS NULL
           ${excludeInfo.condition}
+          ${dateRangeInfo.condition}
           AND (${adjustedConflictConditions})
       ),
       conflict_data AS (
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { GroupWaitlistEntry } from '../entities/group-waitlist-entry.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+
+@Injectable()
+export class GroupWaitlistEntriesRepository extends BaseRepository<GroupWaitlistEntry> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof GroupWaitlistEntry {
+    return GroupWaitlistEntry;
+  }
+
+  /**
+   * Find waitlist entries of a group in promotion order (earliest first)
+   */
+  async findByGroupId(groupId: string): Promise<GroupWaitlistEntry[]> {
+    return this.getRepository()
+      .createQueryBuilder('entry')
+      .leftJoin('entry.student', 'student')
+      .leftJoin('student.user', 'studentUser')
+      .addSelect([
+        'student.id',
+        'student.code',
+        'studentUser.id',
+        'studentUser.name',
+      ])
+      .where('entry.groupId = :groupId', { groupId })
+      .orderBy('entry.joinedAt', 'ASC')
+      .addOrderBy('entry.createdAt', 'ASC')
+      .getMany();
+  }
+
+  async findByGroupAndStudent(
+    groupId: string,
+    studentUserProfileId: string,
+  ): Promise<GroupWaitlistEntry | null> {
+    return this.getRepository().findOne({
+      where: { groupId, studentUserProfileId },
+    });
+  }
+}
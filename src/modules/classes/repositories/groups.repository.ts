@@ -249,6 +249,21 @@ export class GroupsRepository extends BaseRepository<Group> {
     });
   }
 
+  /**
+   * Find group with pessimistic write lock.
+   * Serializes concurrent enrollments so capacity checks cannot be raced.
+   */
+  async findOneWithLock(id: string): Promise<Group> {
+    const group = await this.getRepository().findOne({
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!group) {
+      throw ClassesErrors.groupNotFound();
+    }
+    return group;
+  }
+
   /**
    * Find a group by ID optimized for API responses, throws if not found.
    * Selects only necessary fields (id, name, etc.) from relations for serialization.
@@ -362,7 +377,10 @@ export class GroupsRepository extends BaseRepository<Group> {
     });
   }
 
-  async countActiveStudentsForCenter(centerId: string): Promise<number> {
+  async countActiveStudentsForCenter(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     const result = await this.getRepository()
       .createQueryBuilder('group')
       .leftJoin('group.class', 'class')
@@ -371,6 +389,7 @@ export class GroupsRepository extends BaseRepository<Group> {
       .where('class.centerId = :centerId', { centerId })
       .andWhere('class.status = :status', { status: 'ACTIVE' })
       .andWhere('groupStudent.leftAt IS NULL')
+      .andWhere(termId ? 'class.termId = :termId' : '1=1', { termId })
       .getRawOne<CountRawResult>();
 
     return parseInt(result?.count ?? '0', 10);
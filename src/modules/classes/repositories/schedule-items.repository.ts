@@ -9,6 +9,11 @@ import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { GroupsRepository } from './groups.repository';
 import { ClassAccessService } from '../services/class-access.service';
 import { ClassStaffAccessDto } from '../dto/class-staff-access.dto';
+import {
+  ScheduleConflictQueryBuilder,
+  ScheduleDateRange,
+} from '../utils/schedule-conflict-query-builder';
+import { RoomConflictDto } from '../dto/schedule-conflict.dto';
 
 @Injectable()
 export class ScheduleItemsRepository extends BaseRepository<ScheduleItem> {
@@ -87,11 +92,13 @@ export class ScheduleItemsRepository extends BaseRepository<ScheduleItem> {
       centerId,
       groupId,
       classId,
+      roomId,
     }: {
       teacherProfileId?: string;
       centerId?: string;
       groupId?: string;
       classId?: string;
+      roomId?: string;
     },
     actor: ActorUser,
   ): Promise<ScheduleItem[]> {
@@ -135,6 +142,10 @@ export class ScheduleItemsRepository extends BaseRepository<ScheduleItem> {
       queryBuilder.where('scheduleItem.classId = :classId', { classId });
     }
 
+    if (roomId) {
+      queryBuilder.andWhere('scheduleItem.roomId = :roomId', { roomId });
+    }
+
     // Filter out schedule items where related entities are deleted (check if entity exists)
     queryBuilder
       .andWhere('group.id IS NOT NULL')
@@ -144,4 +155,108 @@ export class ScheduleItemsRepository extends BaseRepository<ScheduleItem> {
 
     return queryBuilder.getMany();
   }
+
+  /**
+   * Find all schedule items booked in a room that overlap the given schedule.
+   * Mirrors the teacher conflict query, keyed by room instead of teacher.
+   *
+   * @param roomId - The room ID
+   * @param newScheduleItems - Schedule items to check (with duration)
+   * @param excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param dateRange - Optional dates of the class, classes not running in them are ignored
+   * @returns Room conflict data with all conflicts aggregated, or null if no conflicts
+   */
+  async findAllRoomScheduleConflicts(
+    roomId: string,
+    newScheduleItems: Array<{
+      day: string;
+      startTime: string;
+      duration: number;
+    }>,
+    excludeGroupIds?: string[],
+    dateRange?: ScheduleDateRange,
+  ): Promise<RoomConflictDto | null> {
+    if (newScheduleItems.length === 0) {
+      return null;
+    }
+
+    const params = ScheduleConflictQueryBuilder.buildParameters(
+      roomId,
+      newScheduleItems,
+    );
+    const conflictConditions =
+      ScheduleConflictQueryBuilder.buildRoomConflictConditions(
+        newScheduleItems,
+      );
+    const excludeInfo = ScheduleConflictQueryBuilder.buildExcludeCondition(
+      excludeGroupIds,
+      params.length,
+    );
+    ScheduleConflictQueryBuilder.addExcludeParameter(params, excludeGroupIds);
+    const dateRangeInfo = ScheduleConflictQueryBuilder.buildDateRangeCondition(
+      dateRange,
+      params.length,
+    );
+    ScheduleConflictQueryBuilder.addDateRangeParameters(params, dateRange);
+
+    const query = `
+      WITH distinct_conflicts AS (
+        SELECT DISTINCT
+          r.id as "roomId",
+          r.name as "roomName",
+          existing.day,
+          existing."startTime" || '-' || 
+            TO_CHAR(
+              TO_TIMESTAMP(existing."startTime", 'HH24:MI') + (COALESCE(c.duration, 60) || ' minutes')::INTERVAL,
+              'HH24:MI'
+            ) as "timeRange"
+        FROM schedule_items existing
+        INNER JOIN rooms r ON r.id = existing."roomId"
+        INNER JOIN groups g ON g.id = existing."groupId"
+        INNER JOIN classes c ON c.id = g."classId"
+        WHERE c."deletedAt" IS NULL
+          AND g."deletedAt" IS NULL
+          AND ${conflictConditions}
+          ${excludeInfo.condition}
+          ${dateRangeInfo.condition}
+      ),
+      conflict_data AS (
+        SELECT *
+        FROM distinct_conflicts
+        ORDER BY day, "timeRange"
+      )
+      SELECT 
+        "roomId",
+        "roomName",
+        JSON_AGG(
+          JSON_BUILD_OBJECT(
+            'day', day,
+            'timeRange', "timeRange"
+          )
+        ) as conflicts
+      FROM conflict_data
+      GROUP BY "roomId", "roomName"
+    `;
+
+    interface ConflictResult {
+      roomId: string;
+      roomName: string;
+      conflicts: Array<{ day: string; timeRange: string }> | null;
+    }
+
+    const result = await this.getEntityManager().query<ConflictResult[]>(
+      query,
+      params,
+    );
+
+    if (result && result.length > 0 && result[0].conflicts) {
+      return {
+        roomId: result[0].roomId,
+        roomName: result[0].roomName,
+        conflicts: result[0].conflicts,
+      };
+    }
+
+    return null;
+  }
 }
@@ -0,0 +1,97 @@
+import { Injectable } from '@nestjs/common';
+import { TeacherPriceVersion } from '../entities/teacher-price-version.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { IsNull, LessThanOrEqual } from 'typeorm';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { effectiveOnCondition } from '../utils/price-version.util';
+
+@Injectable()
+export class TeacherPriceVersionsRepository extends BaseRepository<TeacherPriceVersion> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof TeacherPriceVersion {
+    return TeacherPriceVersion;
+  }
+
+  /**
+   * Rate history of a class, latest version first
+   */
+  async findByClassId(classId: string): Promise<TeacherPriceVersion[]> {
+    return this.getRepository().find({
+      where: { classId },
+      order: { versionNumber: 'DESC' },
+    });
+  }
+
+  async findLatestVersionNumber(classId: string): Promise<number> {
+    const result = await this.getRepository()
+      .createQueryBuilder('version')
+      .select('MAX(version.versionNumber)', 'max')
+      .where('version.classId = :classId', { classId })
+      .getRawOne<{ max: number | null }>();
+
+    return result?.max ?? 0;
+  }
+
+  async findFirstVersion(classId: string): Promise<TeacherPriceVersion | null> {
+    return this.getRepository().findOne({
+      where: { classId },
+      order: { versionNumber: 'ASC' },
+    });
+  }
+
+  /**
+   * Teacher rate of a class on a given day: the latest version in effect by then
+   *
+   * @param asOf - a moment, or a YYYY-MM-DD day in the center timezone
+   */
+  async findEffective(
+    classId: string,
+    asOf: Date | string,
+  ): Promise<TeacherPriceVersion | null> {
+    return this.getRepository()
+      .createQueryBuilder('version')
+      .innerJoin(Center, 'center', 'center.id = version.centerId')
+      .where('version.classId = :classId', { classId })
+      .andWhere(effectiveOnCondition(asOf), { asOf })
+      .orderBy('version.effectiveFrom', 'DESC')
+      .addOrderBy('version.versionNumber', 'DESC')
+      .getOne();
+  }
+
+  /**
+   * Classes with scheduled versions that took effect by asOf but were not
+   * written to their payment strategy yet
+   */
+  async findClassIdsWithDueVersions(asOf: Date): Promise<string[]> {
+    const rows = await this.getRepository()
+      .createQueryBuilder('version')
+      .innerJoin(Center, 'center', 'center.id = version.centerId')
+      .select('DISTINCT version.classId', 'classId')
+      .where('version.appliedAt IS NULL')
+      .andWhere(effectiveOnCondition(asOf), { asOf })
+      .getRawMany<{ classId: string }>();
+
+    return rows.map((row) => row.classId);
+  }
+
+  /**
+   * Mark the versions of a class taking effect on or before a day as applied
+   */
+  async markAppliedUpTo(classId: string, effectiveFrom: string): Promise<void> {
+    await this.getRepository().update(
+      {
+        classId,
+        appliedAt: IsNull(),
+        effectiveFrom: LessThanOrEqual(effectiveFrom),
+      },
+      { appliedAt: new Date() },
+    );
+  }
+}
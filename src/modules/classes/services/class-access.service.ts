@@ -11,6 +11,11 @@ import { ClassStaffAccessDto } from '../dto/class-staff-access.dto';
 import { ClassStaff } from '../entities/class-staff.entity';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
 import { ClassesRepository } from '../repositories/classes.repository';
+import { SessionsRepository } from '@/modules/sessions/repositories/sessions.repository';
+
+export interface SessionAccessData extends ClassStaffAccessDto {
+  sessionId: string;
+}
 
 @Injectable()
 export class ClassAccessService extends BaseService {
@@ -22,6 +27,7 @@ export class ClassAccessService extends BaseService {
     private readonly userProfileService: UserProfileService,
     private readonly accessControlHelperService: AccessControlHelperService,
     private readonly classesRepository: ClassesRepository,
+    private readonly sessionsRepository: SessionsRepository,
   ) {
     super();
   }
@@ -114,6 +120,60 @@ export class ClassAccessService extends BaseService {
     }
   }
 
+  /**
+   * Check if a user can access a single session of a class.
+   * Besides regular class access, the class teacher and the substitute teacher
+   * assigned to the session have access to it; a substitute to that session only.
+   *
+   * @param data - SessionAccessData
+   * @returns true if user has access, false otherwise
+   */
+  async canSessionAccess(data: SessionAccessData): Promise<boolean> {
+    if (await this.canClassAccess(data)) {
+      return true;
+    }
+
+    const session = await this.sessionsRepository.findOne(data.sessionId);
+    if (!session || session.classId !== data.classId) {
+      return false;
+    }
+
+    return (
+      session.teacherUserProfileId === data.userProfileId ||
+      session.substituteTeacherUserProfileId === data.userProfileId
+    );
+  }
+
+  /**
+   * Validates that a user can access a single session of a class.
+   * Only validates STAFF and TEACHER users, see canSessionAccess().
+   *
+   * @param data - SessionAccessData
+   * @throws DomainException if user doesn't have access to the session
+   */
+  async validateSessionAccess(data: SessionAccessData): Promise<void> {
+    const profile = await this.userProfileService.findOne(data.userProfileId);
+    if (!profile) {
+      return;
+    }
+    if (
+      profile.profileType !== ProfileType.STAFF &&
+      profile.profileType !== ProfileType.TEACHER
+    ) {
+      return;
+    }
+
+    const canAccess = await this.canSessionAccess(data);
+    if (!canAccess) {
+      this.logger.warn('Session access validation failed', {
+        userProfileId: data.userProfileId,
+        classId: data.classId,
+        sessionId: data.sessionId,
+      });
+      throw ClassesErrors.cannotAccessClass();
+    }
+  }
+
   /**
    * Get accessible staff profile IDs for a class.
    * Filters an array of profile IDs to return only those that have class staff access (via ClassStaff).
@@ -0,0 +1,249 @@
+jest.mock('@nestjs-cls/transactional', () => ({
+  ...jest.requireActual<object>('@nestjs-cls/transactional'),
+  Transactional: () => () => undefined,
+}));
+// Collaborators are replaced below, keep their entity graphs out of the suite
+jest.mock('../repositories/classes.repository', () => ({
+  ClassesRepository: class {},
+}));
+jest.mock('../repositories/group-students.repository', () => ({
+  GroupStudentsRepository: class {},
+}));
+jest.mock('../repositories/schedule-items.repository', () => ({
+  ScheduleItemsRepository: class {},
+}));
+jest.mock('../dto/roll-over-term.dto', () => ({ RollOverTermDto: class {} }));
+jest.mock('./classes.service', () => ({ ClassesService: class {} }));
+jest.mock('./groups.service', () => ({ GroupsService: class {} }));
+jest.mock('@/modules/academic-terms/services/academic-terms.service', () => ({
+  AcademicTermsService: class {},
+}));
+jest.mock('@/modules/centers/services/rooms.service', () => ({
+  RoomsService: class {},
+}));
+
+import { ClassRolloverService } from './class-rollover.service';
+import { GroupValidationService } from './group-validation.service';
+import { ScheduleService } from './schedule.service';
+import { ClassesRepository } from '../repositories/classes.repository';
+import { GroupStudentsRepository } from '../repositories/group-students.repository';
+import { ScheduleItemsRepository } from '../repositories/schedule-items.repository';
+import { ClassesService } from './classes.service';
+import { GroupsService } from './groups.service';
+import { Class } from '../entities/class.entity';
+import { CreateGroupDto } from '../dto/create-group.dto';
+import { DayOfWeek } from '../enums/day-of-week.enum';
+import { ScheduleDateRange } from '../utils/schedule-conflict-query-builder';
+import { AcademicTermsService } from '@/modules/academic-terms/services/academic-terms.service';
+import { RoomsService } from '@/modules/centers/services/rooms.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+
+describe('ClassRolloverService', () => {
+  const actor = {
+    userProfileId: 'actor-1',
+    centerId: 'center-1',
+  } as ActorUser;
+
+  const sourceTerm = {
+    id: 'term-1',
+    startDate: new Date('2026-02-01T00:00:00.000Z'),
+    endDate: new Date('2026-06-30T00:00:00.000Z'),
+  };
+  const targetTerm = {
+    id: 'term-2',
+    startDate: new Date('2026-09-01T00:00:00.000Z'),
+    endDate: new Date('2027-01-31T00:00:00.000Z'),
+  };
+
+  const sourceClass = {
+    id: 'class-1',
+    name: 'Math',
+    centerId: 'center-1',
+    branchId: 'branch-1',
+    levelId: 'level-1',
+    subjectId: 'subject-1',
+    teacherUserProfileId: 'teacher-1',
+    termId: sourceTerm.id,
+    startDate: sourceTerm.startDate,
+    endDate: sourceTerm.endDate,
+    duration: 90,
+    studentPaymentStrategy: {
+      includeSession: false,
+      includeMonth: true,
+      monthPrice: '300.00',
+      includeClass: false,
+    },
+    teacherPaymentStrategy: { per: 'SESSION', amount: '100.00' },
+    groups: [
+      {
+        id: 'group-1',
+        name: 'Group A',
+        maxCapacity: 20,
+        scheduleItems: [
+          { day: DayOfWeek.MON, startTime: '10:00', roomId: 'room-1' },
+        ],
+      },
+    ],
+  } as unknown as Class;
+
+  const clonedClass = {
+    ...sourceClass,
+    id: 'class-2',
+    termId: targetTerm.id,
+    startDate: targetTerm.startDate,
+    endDate: new Date(
+      sourceTerm.endDate.getTime() +
+        (targetTerm.startDate.getTime() - sourceTerm.startDate.getTime()),
+    ),
+    groups: [],
+  } as unknown as Class;
+
+  // Like the conflict queries, the source class keeps the teacher, room and
+  // slot of its group, so it conflicts unless it doesn't run in the date range
+  const sourceClassRunsIn = (dateRange?: ScheduleDateRange) =>
+    !dateRange || dateRange.startDate <= sourceClass.endDate!;
+
+  let findTeacherConflicts: jest.Mock;
+  let findRoomConflicts: jest.Mock;
+  let createGroup: jest.Mock;
+  let service: ClassRolloverService;
+
+  beforeEach(() => {
+    findTeacherConflicts = jest.fn(
+      (
+        teacherUserProfileId: string,
+        _items: unknown,
+        _excludeGroupIds?: string[],
+        dateRange?: ScheduleDateRange,
+      ) =>
+        Promise.resolve(
+          sourceClassRunsIn(dateRange)
+            ? {
+                teacherUserProfileId,
+                teacherName: 'Teacher',
+                conflicts: [{ day: DayOfWeek.MON, timeRange: '10:00-11:30' }],
+              }
+            : null,
+        ),
+    );
+    findRoomConflicts = jest.fn(
+      (
+        roomId: string,
+        _items: unknown,
+        _excludeGroupIds?: string[],
+        dateRange?: ScheduleDateRange,
+      ) =>
+        Promise.resolve(
+          sourceClassRunsIn(dateRange)
+            ? {
+                roomId,
+                roomName: 'Room 1',
+                conflicts: [{ day: DayOfWeek.MON, timeRange: '10:00-11:30' }],
+              }
+            : null,
+        ),
+    );
+
+    const classesRepository = {
+      findClassesForTermRollover: jest.fn().mockResolvedValue([sourceClass]),
+      findClassByUniqueCombination: jest.fn().mockResolvedValue(null),
+      findOneOrThrow: jest.fn().mockResolvedValue(clonedClass),
+      findAllTeacherScheduleConflictsForDurationUpdate: findTeacherConflicts,
+    } as unknown as ClassesRepository;
+    const scheduleItemsRepository = {
+      findAllRoomScheduleConflicts: findRoomConflicts,
+    } as unknown as ScheduleItemsRepository;
+
+    const groupStudentsRepository = {
+      findByGroupId: jest.fn().mockResolvedValue([]),
+    } as unknown as GroupStudentsRepository;
+    const roomsService = {
+      validateRoomsForBranch: jest.fn().mockResolvedValue(undefined),
+    } as unknown as RoomsService;
+
+    const scheduleService = new ScheduleService(
+      classesRepository,
+      groupStudentsRepository,
+      scheduleItemsRepository,
+    );
+    const groupValidationService = new GroupValidationService(
+      classesRepository,
+      groupStudentsRepository,
+      scheduleService,
+      roomsService,
+    );
+
+    // Group creation starts by validating the schedule against the new class
+    createGroup = jest.fn(async (dto: CreateGroupDto) => {
+      await groupValidationService.validateGroupSchedule(
+        dto.classId,
+        dto.scheduleItems,
+      );
+      return { id: 'group-2', classId: dto.classId };
+    });
+    const groupsService = { createGroup } as unknown as GroupsService;
+
+    const classesService = {
+      createClass: jest.fn().mockResolvedValue(clonedClass),
+    } as unknown as ClassesService;
+    const academicTermsService = {
+      getAcademicTerm: jest.fn().mockResolvedValue(sourceTerm),
+      getOpenAcademicTerm: jest.fn().mockResolvedValue(targetTerm),
+    } as unknown as AcademicTermsService;
+
+    service = new ClassRolloverService(
+      classesRepository,
+      classesService,
+      groupsService,
+      academicTermsService,
+    );
+  });
+
+  it('rolls over a class with a scheduled group', async () => {
+    const result = await service.rollOverTerm(
+      { sourceTermId: sourceTerm.id, targetTermId: targetTerm.id },
+      actor,
+    );
+
+    expect(result).toEqual({
+      createdClassIds: [clonedClass.id],
+      created: 1,
+      skipped: 0,
+    });
+    expect(createGroup).toHaveBeenCalledWith(
+      {
+        classId: clonedClass.id,
+        name: 'Group A',
+        maxCapacity: 20,
+        scheduleItems: [
+          { day: DayOfWeek.MON, startTime: '10:00', roomId: 'room-1' },
+        ],
+      },
+      actor,
+    );
+  });
+
+  it('limits the group conflict checks to classes running in the new term', async () => {
+    await service.rollOverTerm(
+      { sourceTermId: sourceTerm.id, targetTermId: targetTerm.id },
+      actor,
+    );
+
+    const dateRange = {
+      startDate: clonedClass.startDate,
+      endDate: clonedClass.endDate,
+    };
+    expect(findTeacherConflicts).toHaveBeenCalledWith(
+      sourceClass.teacherUserProfileId,
+      [{ day: DayOfWeek.MON, startTime: '10:00', duration: 90 }],
+      undefined,
+      dateRange,
+    );
+    expect(findRoomConflicts).toHaveBeenCalledWith(
+      'room-1',
+      [{ day: DayOfWeek.MON, startTime: '10:00', duration: 90 }],
+      undefined,
+      dateRange,
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { ClassesRepository } from '../repositories/classes.repository';
+import { ClassesService } from './classes.service';
+import { GroupsService } from './groups.service';
+import { Class } from '../entities/class.entity';
+import { RollOverTermDto } from '../dto/roll-over-term.dto';
+import { StudentPaymentStrategyDto } from '../dto/student-payment-strategy.dto';
+import { TeacherPaymentStrategyDto } from '../dto/teacher-payment-strategy.dto';
+import { AcademicTermsService } from '@/modules/academic-terms/services/academic-terms.service';
+import { AcademicTermsErrors } from '@/modules/academic-terms/exceptions/academic-terms.errors';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+
+export interface TermRolloverResult {
+  createdClassIds: string[];
+  created: number;
+  skipped: number;
+}
+
+/**
+ * Copies the classes of one academic term into another.
+ *
+ * Every non-canceled class is cloned with its payment strategies, groups and
+ * schedule items, dates are shifted by the gap between the two term starts.
+ * Enrollments, sessions and billing are not copied. Classes that already exist
+ * in the target term are skipped, so the roll-over can be safely re-run.
+ */
+@Injectable()
+export class ClassRolloverService {
+  private readonly logger = new Logger(ClassRolloverService.name);
+
+  constructor(
+    private readonly classesRepository: ClassesRepository,
+    private readonly classesService: ClassesService,
+    private readonly groupsService: GroupsService,
+    private readonly academicTermsService: AcademicTermsService,
+  ) {}
+
+  @Transactional()
+  async rollOverTerm(
+    dto: RollOverTermDto,
+    actor: ActorUser,
+  ): Promise<TermRolloverResult> {
+    if (dto.sourceTermId === dto.targetTermId) {
+      throw AcademicTermsErrors.academicTermRolloverSameTerm();
+    }
+
+    const sourceTerm = await this.academicTermsService.getAcademicTerm(
+      dto.sourceTermId,
+      actor,
+    );
+    const targetTerm = await this.academicTermsService.getOpenAcademicTerm(
+      dto.targetTermId,
+      actor,
+    );
+
+    const offsetMs =
+      targetTerm.startDate.getTime() - sourceTerm.startDate.getTime();
+
+    const classes = await this.classesRepository.findClassesForTermRollover(
+      sourceTerm.id,
+      actor.centerId!,
+      dto.branchId,
+    );
+
+    const result: TermRolloverResult = {
+      createdClassIds: [],
+      created: 0,
+      skipped: 0,
+    };
+
+    for (const sourceClass of classes) {
+      const existing =
+        await this.classesRepository.findClassByUniqueCombination(
+          sourceClass.centerId,
+          sourceClass.branchId,
+          sourceClass.teacherUserProfileId,
+          sourceClass.levelId,
+          sourceClass.subjectId,
+          targetTerm.id,
+        );
+      if (existing) {
+        result.skipped++;
+        continue;
+      }
+
+      const clonedClass = await this.cloneClass(
+        sourceClass,
+        targetTerm.id,
+        offsetMs,
+        actor,
+      );
+      result.createdClassIds.push(clonedClass.id);
+      result.created++;
+    }
+
+    this.logger.log(`Academic term rolled over`, {
+      sourceTermId: sourceTerm.id,
+      targetTermId: targetTerm.id,
+      created: result.created,
+      skipped: result.skipped,
+    });
+
+    return result;
+  }
+
+  private async cloneClass(
+    sourceClass: Class,
+    targetTermId: string,
+    offsetMs: number,
+    actor: ActorUser,
+  ): Promise<Class> {
+    const clonedClass = await this.classesService.createClass(
+      {
+        name: sourceClass.name,
+        levelId: sourceClass.levelId,
+        subjectId: sourceClass.subjectId,
+        teacherUserProfileId: sourceClass.teacherUserProfileId,
+        branchId: sourceClass.branchId,
+        termId: targetTermId,
+        startDate: new Date(sourceClass.startDate.getTime() + offsetMs),
+        endDate: sourceClass.endDate
+          ? new Date(sourceClass.endDate.getTime() + offsetMs)
+          : undefined,
+        duration: sourceClass.duration,
+        studentPaymentStrategy: this.toStudentStrategyDto(sourceClass),
+        teacherPaymentStrategy: this.toTeacherStrategyDto(sourceClass),
+      },
+      actor,
+    );
+
+    for (const group of sourceClass.groups ?? []) {
+      await this.groupsService.createGroup(
+        {
+          classId: clonedClass.id,
+          name: group.name,
+          maxCapacity: group.maxCapacity ?? undefined,
+          scheduleItems: (group.scheduleItems ?? []).map((item) => ({
+            day: item.day,
+            startTime: item.startTime,
+            roomId: item.roomId ?? null,
+          })),
+        },
+        actor,
+      );
+    }
+
+    return clonedClass;
+  }
+
+  private toStudentStrategyDto(sourceClass: Class): StudentPaymentStrategyDto {
+    const strategy = sourceClass.studentPaymentStrategy;
+    return {
+      includeSession: strategy.includeSession,
+      sessionPrice: this.toOptionalNumber(strategy.sessionPrice),
+      includeMonth: strategy.includeMonth,
+      monthPrice: this.toOptionalNumber(strategy.monthPrice),
+      includeClass: strategy.includeClass,
+      classPrice: this.toOptionalNumber(strategy.classPrice),
+      // Fixed due dates belong to the source term, only relative plans carry over
+      installmentPlan: strategy.installmentPlan?.every(
+        (step) => step.dueDate === undefined,
+      )
+        ? strategy.installmentPlan
+        : undefined,
+      installmentGraceDays: strategy.installmentGraceDays,
+      blockAttendanceWhenOverdue: strategy.blockAttendanceWhenOverdue,
+    };
+  }
+
+  private toTeacherStrategyDto(sourceClass: Class): TeacherPaymentStrategyDto {
+    const strategy = sourceClass.teacherPaymentStrategy;
+    return {
+      per: strategy.per,
+      amount: Number(strategy.amount),
+    };
+  }
+
+  // Decimal columns are returned as strings by the driver
+  private toOptionalNumber(value?: number | null): number | undefined {
+    return value === null || value === undefined ? undefined : Number(value);
+  }
+}
@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { ClassTemplatesRepository } from '../repositories/class-templates.repository';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { ClassesErrors } from '../exceptions/classes.errors';
+import { CreateClassTemplateDto } from '../dto/create-class-template.dto';
+import { UpdateClassTemplateDto } from '../dto/update-class-template.dto';
+import { PaginateClassTemplatesDto } from '../dto/paginate-class-templates.dto';
+import { CreateClassFromTemplateDto } from '../dto/create-class-from-template.dto';
+import { ClassTemplate } from '../entities/class-template.entity';
+import { Class } from '../entities/class.entity';
+import { ScheduleService } from './schedule.service';
+import { ClassValidationService } from './class-validation.service';
+import { ClassesService } from './classes.service';
+import { GroupsService } from './groups.service';
+
+@Injectable()
+export class ClassTemplatesService extends BaseService {
+  constructor(
+    private readonly classTemplatesRepository: ClassTemplatesRepository,
+    private readonly scheduleService: ScheduleService,
+    private readonly classValidationService: ClassValidationService,
+    private readonly classesService: ClassesService,
+    private readonly groupsService: GroupsService,
+  ) {
+    super();
+  }
+
+  async paginateClassTemplates(
+    paginateDto: PaginateClassTemplatesDto,
+    actor: ActorUser,
+  ): Promise<Pagination<ClassTemplate>> {
+    return this.classTemplatesRepository.paginateClassTemplates(
+      paginateDto,
+      actor.centerId!,
+    );
+  }
+
+  async getClassTemplate(
+    templateId: string,
+    actor: ActorUser,
+  ): Promise<ClassTemplate> {
+    const template = await this.classTemplatesRepository.findOne(templateId);
+    if (!template || template.centerId !== actor.centerId) {
+      throw ClassesErrors.classTemplateNotFound();
+    }
+
+    return template;
+  }
+
+  async createClassTemplate(
+    dto: CreateClassTemplateDto,
+    actor: ActorUser,
+  ): Promise<ClassTemplate> {
+    const scheduleItems = dto.scheduleItems ?? [];
+    this.scheduleService.validateScheduleItems(scheduleItems, dto.duration);
+    await this.ensureNameAvailable(actor.centerId!, dto.name);
+
+    return this.classTemplatesRepository.create({
+      ...dto,
+      scheduleItems,
+      centerId: actor.centerId!,
+    });
+  }
+
+  async updateClassTemplate(
+    templateId: string,
+    dto: UpdateClassTemplateDto,
+    actor: ActorUser,
+  ): Promise<ClassTemplate> {
+    const template = await this.getClassTemplate(templateId, actor);
+
+    this.scheduleService.validateScheduleItems(
+      dto.scheduleItems ?? template.scheduleItems,
+      dto.duration ?? template.duration,
+    );
+
+    if (dto.name !== undefined && dto.name !== template.name) {
+      await this.ensureNameAvailable(template.centerId, dto.name);
+    }
+
+    return this.classTemplatesRepository.updateThrow(templateId, dto);
+  }
+
+  async deleteClassTemplate(
+    templateId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    await this.getClassTemplate(templateId, actor);
+    await this.classTemplatesRepository.softRemove(templateId);
+  }
+
+  /**
+   * Create a class (and its default group) from a template.
+   * Only the teacher, branch and dates are taken from the request,
+   * everything else is copied from the template.
+   *
+   * @param templateId - Class template ID
+   * @param dto - Teacher, branch and dates of the new class
+   * @param actor - The user performing the action
+   * @returns Created class entity with all relations loaded
+   */
+  @Transactional()
+  async createClassFromTemplate(
+    templateId: string,
+    dto: CreateClassFromTemplateDto,
+    actor: ActorUser,
+  ): Promise<Class> {
+    const template = await this.getClassTemplate(templateId, actor);
+
+    await this.classValidationService.validateClassFromTemplate(
+      template,
+      dto.teacherUserProfileId,
+    );
+
+    const classEntity = await this.classesService.createClass(
+      {
+        name: template.name,
+        levelId: template.levelId,
+        subjectId: template.subjectId,
+        teacherUserProfileId: dto.teacherUserProfileId,
+        branchId: dto.branchId,
+        startDate: dto.startDate,
+        endDate: dto.endDate,
+        duration: template.duration,
+        studentPaymentStrategy: template.studentPaymentStrategy,
+        teacherPaymentStrategy: template.teacherPaymentStrategy,
+      },
+      actor,
+    );
+
+    if (template.scheduleItems.length > 0) {
+      await this.groupsService.createGroup(
+        {
+          classId: classEntity.id,
+          name: template.name,
+          maxCapacity: template.maxCapacity ?? undefined,
+          scheduleItems: template.scheduleItems.map((item) => ({
+            day: item.day,
+            startTime: item.startTime,
+          })),
+        },
+        actor,
+      );
+    }
+
+    return classEntity;
+  }
+
+  private async ensureNameAvailable(
+    centerId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.classTemplatesRepository.findByCenterAndName(
+      centerId,
+      name,
+    );
+    if (existing) {
+      throw ClassesErrors.classTemplateNameAlreadyExists();
+    }
+  }
+}
@@ -7,6 +7,7 @@ import { ScheduleItemDto } from '../dto/schedule-item.dto';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { BaseService } from '@/shared/common/services/base.service';
 import { Class } from '../entities/class.entity';
+import { ClassTemplate } from '../entities/class-template.entity';
 import { ClassesErrors } from '../exceptions/classes.errors';
 import { ClassStatus } from '../enums/class-status.enum';
 import { TimezoneService } from '@/shared/common/services/timezone.service';
@@ -84,9 +85,10 @@ export class ClassValidationService extends BaseService {
     for (const group of groups) {
       if (group.scheduleItems && group.scheduleItems.length > 0) {
         const scheduleItems: ScheduleItemDto[] = group.scheduleItems.map(
-          (item: any) => ({
+          (item: ScheduleItemDto) => ({
             day: item.day,
             startTime: item.startTime,
+            roomId: item.roomId,
           }),
         );
         allScheduleItems.push(...scheduleItems);
@@ -114,4 +116,27 @@ export class ClassValidationService extends BaseService {
       },
     );
   }
+
+  /**
+   * Validates a class about to be created from a template.
+   * The template default group schedule must fit the chosen teacher's schedule.
+   *
+   * @param template - The class template
+   * @param teacherUserProfileId - The teacher of the new class
+   * @throws ScheduleConflictException if the teacher has conflicting groups
+   */
+  async validateClassFromTemplate(
+    template: ClassTemplate,
+    teacherUserProfileId: string,
+  ): Promise<void> {
+    if (template.scheduleItems.length === 0) {
+      return;
+    }
+
+    await this.scheduleService.validateScheduleConflicts(
+      template.scheduleItems,
+      template.duration,
+      { teacherUserProfileId },
+    );
+  }
 }
@@ -28,8 +28,9 @@ import { ClassAccessService } from './class-access.service';
 import { Transactional } from '@nestjs-cls/transactional';
 import { BulkOperationService } from '@/shared/common/services/bulk-operation.service';
 import { BulkOperationResult } from '@/shared/common/services/bulk-operation.service';
-import { StudentPaymentStrategyDto } from '../dto/student-payment-strategy.dto';
-import { TeacherPaymentStrategyDto } from '../dto/teacher-payment-strategy.dto';
+import { UpdateStudentPaymentStrategyDto } from '../dto/update-student-payment-strategy.dto';
+import { UpdateTeacherPaymentStrategyDto } from '../dto/update-teacher-payment-strategy.dto';
+import { ClassPriceHistoryResponseDto } from '../dto/class-price-history-response.dto';
 import { TeacherPaymentUnit } from '../enums/teacher-payment-unit.enum';
 import { TeacherPayoutService } from '@/modules/teacher-payouts/services/teacher-payout.service';
 import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
@@ -37,6 +38,7 @@ import { CentersService } from '@/modules/centers/services/centers.service';
 import { BranchesService } from '@/modules/centers/services/branches.service';
 import { UserProfileErrors } from '@/modules/user-profile/exceptions/user-profile.errors';
 import { CentersErrors } from '@/modules/centers/exceptions/centers.errors';
+import { AcademicTermsService } from '@/modules/academic-terms/services/academic-terms.service';
 
 @Injectable()
 export class ClassesService extends BaseService {
@@ -56,6 +58,7 @@ export class ClassesService extends BaseService {
     private readonly userProfileService: UserProfileService,
     private readonly centersService: CentersService,
     private readonly branchesService: BranchesService,
+    private readonly academicTermsService: AcademicTermsService,
   ) {
     super();
   }
@@ -188,6 +191,14 @@ export class ClassesService extends BaseService {
       throw CentersErrors.branchInactive();
     }
 
+    // Validate term is open for new classes
+    if (createClassDto.termId) {
+      await this.academicTermsService.getOpenAcademicTerm(
+        createClassDto.termId,
+        actor,
+      );
+    }
+
     // Check if a class with the same combination already exists
     const existingClass =
       await this.classesRepository.findClassByUniqueCombination(
@@ -196,6 +207,7 @@ export class ClassesService extends BaseService {
         createClassDto.teacherUserProfileId,
         createClassDto.levelId,
         createClassDto.subjectId,
+        createClassDto.termId,
       );
 
     if (existingClass) {
@@ -288,6 +300,11 @@ export class ClassesService extends BaseService {
       classEntity,
     );
 
+    // Validate term is open when moving the class to a term
+    if (data.termId && data.termId !== classEntity.termId) {
+      await this.academicTermsService.getOpenAcademicTerm(data.termId, actor);
+    }
+
     // Extract skipWarning from DTO (not part of class data) - used in validation above
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { skipWarning, ...classUpdateData } = data;
@@ -320,10 +337,28 @@ export class ClassesService extends BaseService {
     return classEntity;
   }
 
+  /**
+   * Get the student price and teacher rate history of a class.
+   *
+   * @param classId - The class ID
+   * @param actor - The user performing the action
+   * @returns Price versions of the class, latest first
+   * @throws ClassesErrors.classNotFound() if class doesn't exist
+   */
+  async getClassPriceHistory(
+    classId: string,
+    actor: ActorUser,
+  ): Promise<ClassPriceHistoryResponseDto> {
+    await this.findClassAndValidateAccess(classId, actor);
+
+    return this.paymentStrategyService.getPriceHistory(classId);
+  }
+
   /**
    * Update student payment strategy for a class.
    * Only updates existing strategy (throws error if missing).
-   * Only allowed if class status is PENDING_TEACHER_APPROVAL or NOT_STARTED.
+   * Not allowed once the class is FINISHED or CANCELED. New prices take
+   * effect from the given day, charges made before keep their prices.
    *
    * @param classId - The class ID
    * @param studentStrategy - Student payment strategy data
@@ -332,11 +367,12 @@ export class ClassesService extends BaseService {
    * @throws ClassesErrors.classNotFound() if class doesn't exist
    * @throws ClassesErrors.paymentStrategyNotFound() if payment strategy doesn't exist
    * @throws ClassesErrors.paymentStrategyUpdateDenied() if class status doesn't allow payment updates
+   * @throws ClassesErrors.priceEffectiveDateInvalid() if effectiveFrom is in the past
    */
   @Transactional()
   async updateStudentPaymentStrategy(
     classId: string,
-    studentStrategy: StudentPaymentStrategyDto,
+    studentStrategy: UpdateStudentPaymentStrategyDto,
     actor: ActorUser,
   ): Promise<Class> {
     const classEntity =
@@ -359,8 +395,8 @@ export class ClassesService extends BaseService {
 
     // Validate class status allows payment strategy updates
     if (
-      classEntity.status !== ClassStatus.PENDING_TEACHER_APPROVAL &&
-      classEntity.status !== ClassStatus.NOT_STARTED
+      classEntity.status === ClassStatus.FINISHED ||
+      classEntity.status === ClassStatus.CANCELED
     ) {
       throw ClassesErrors.paymentStrategyUpdateDenied();
     }
@@ -381,7 +417,9 @@ export class ClassesService extends BaseService {
   /**
    * Update teacher payment strategy for a class.
    * Only updates existing strategy (throws error if missing).
-   * Only allowed if class status is PENDING_TEACHER_APPROVAL or NOT_STARTED.
+   * Any change is allowed if class status is PENDING_TEACHER_APPROVAL or
+   * NOT_STARTED. Once the class has started only the amount may change, and
+   * not for CLASS payouts which are created with the class.
    *
    * @param classId - The class ID
    * @param teacherStrategy - Teacher payment strategy data
@@ -390,11 +428,12 @@ export class ClassesService extends BaseService {
    * @throws ClassesErrors.classNotFound() if class doesn't exist
    * @throws ClassesErrors.paymentStrategyNotFound() if payment strategy doesn't exist
    * @throws ClassesErrors.paymentStrategyUpdateDenied() if class status doesn't allow payment updates
+   * @throws ClassesErrors.priceEffectiveDateInvalid() if effectiveFrom is in the past
    */
   @Transactional()
   async updateTeacherPaymentStrategy(
     classId: string,
-    teacherStrategy: TeacherPaymentStrategyDto,
+    teacherStrategy: UpdateTeacherPaymentStrategyDto,
     actor: ActorUser,
   ): Promise<Class> {
     const classEntity = await this.findClassAndValidateAccess(
@@ -405,8 +444,21 @@ export class ClassesService extends BaseService {
 
     // Validate class status allows payment strategy updates
     if (
+      classEntity.status === ClassStatus.FINISHED ||
+      classEntity.status === ClassStatus.CANCELED
+    ) {
+      throw ClassesErrors.paymentStrategyUpdateDenied();
+    }
+
+    const hasStarted =
       classEntity.status !== ClassStatus.PENDING_TEACHER_APPROVAL &&
-      classEntity.status !== ClassStatus.NOT_STARTED
+      classEntity.status !== ClassStatus.NOT_STARTED;
+    const currentStrategy = classEntity.teacherPaymentStrategy;
+    if (
+      hasStarted &&
+      currentStrategy &&
+      (currentStrategy.per !== teacherStrategy.per ||
+        currentStrategy.per === TeacherPaymentUnit.CLASS)
     ) {
       throw ClassesErrors.paymentStrategyUpdateDenied();
     }
@@ -0,0 +1,499 @@
+import { Injectable } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { addDays, addMinutes } from 'date-fns';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+import { DEFAULT_TIMEZONE } from '@/shared/common/constants/timezone.constants';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { GroupEvents } from '@/shared/events/groups.events.enum';
+import { GroupUpdatedEvent } from '../events/group.events';
+import { GroupsRepository } from '../repositories/groups.repository';
+import { ScheduleItemsRepository } from '../repositories/schedule-items.repository';
+import { GroupStudentsRepository } from '../repositories/group-students.repository';
+import { GroupScheduleService } from './group-schedule.service';
+import { GroupValidationService } from './group-validation.service';
+import { ScheduleService } from './schedule.service';
+import { ClassAccessService } from './class-access.service';
+import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
+import { CenterClosuresService } from '@/modules/centers/services/center-closures.service';
+import { ClosureDates } from '@/modules/centers/utils/closure-dates.util';
+import { CenterClosure } from '@/modules/centers/entities/center-closure.entity';
+import { SessionsService } from '@/modules/sessions/services/sessions.service';
+import { SessionsRepository } from '@/modules/sessions/repositories/sessions.repository';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { SessionStatus } from '@/modules/sessions/enums/session-status.enum';
+import { Group } from '../entities/group.entity';
+import { ScheduleItem } from '../entities/schedule-item.entity';
+import { ScheduleItemDto } from '../dto/schedule-item.dto';
+import { RescheduleGroupDto } from '../dto/reschedule-group.dto';
+import {
+  GroupReschedulePreviewDto,
+  RescheduledSessionDto,
+} from '../dto/group-reschedule-preview.dto';
+import { DayOfWeek } from '../enums/day-of-week.enum';
+import { RescheduleSessionAction } from '../enums/reschedule-session-action.enum';
+import { RescheduleSessionReason } from '../enums/reschedule-session-reason.enum';
+
+const DAY_INDEX: Record<DayOfWeek, number> = {
+  [DayOfWeek.MON]: 0,
+  [DayOfWeek.TUE]: 1,
+  [DayOfWeek.WED]: 2,
+  [DayOfWeek.THU]: 3,
+  [DayOfWeek.FRI]: 4,
+  [DayOfWeek.SAT]: 5,
+  [DayOfWeek.SUN]: 6,
+};
+
+interface PlannedSession {
+  session: Session;
+  result: RescheduledSessionDto;
+  targetKey?: string; // `${day}-${startTime}` of the slot the session moves to
+}
+
+/**
+ * Reschedules a group's future materialized sessions when its schedule items change.
+ *
+ * Slots kept in the new schedule keep their sessions (only the room may change).
+ * Removed slots are paired with added slots in weekday order, and each future
+ * session of a removed slot moves to the paired slot of the same week.
+ * Removed slots without a pair drop their sessions. Sessions with attendance
+ * or charges are never dropped, they stay where they are instead.
+ *
+ * Virtual sessions follow the schedule automatically and are not part of the plan.
+ */
+@Injectable()
+export class GroupRescheduleService extends BaseService {
+  constructor(
+    private readonly groupsRepository: GroupsRepository,
+    private readonly scheduleItemsRepository: ScheduleItemsRepository,
+    private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly groupScheduleService: GroupScheduleService,
+    private readonly groupValidationService: GroupValidationService,
+    private readonly scheduleService: ScheduleService,
+    private readonly classAccessService: ClassAccessService,
+    private readonly branchAccessService: BranchAccessService,
+    private readonly centerClosuresService: CenterClosuresService,
+    private readonly sessionsService: SessionsService,
+    private readonly sessionsRepository: SessionsRepository,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  /**
+   * Preview what a schedule change does to the group's future sessions,
+   * along with teacher, room and student conflicts of the new schedule.
+   *
+   * @param groupId - The group ID
+   * @param dto - New schedule items
+   * @param actor - The user performing the action
+   */
+  async previewReschedule(
+    groupId: string,
+    dto: RescheduleGroupDto,
+    actor: ActorUser,
+  ): Promise<GroupReschedulePreviewDto> {
+    const group = await this.getGroupForReschedule(groupId, actor);
+    const plan = await this.buildPlan(group, dto.scheduleItems);
+
+    const duration = group.class.duration;
+    const groupStudents = await this.groupStudentsRepository.findByGroupId(
+      group.id,
+    );
+    const studentIds = groupStudents.map((gs) => gs.studentUserProfileId);
+
+    const teacherConflict = group.class.teacherUserProfileId
+      ? await this.scheduleService.checkTeacherScheduleConflicts(
+          group.class.teacherUserProfileId,
+          dto.scheduleItems,
+          duration,
+          [group.id],
+        )
+      : null;
+    const roomConflicts = await this.scheduleService.checkRoomScheduleConflicts(
+      dto.scheduleItems,
+      duration,
+      [group.id],
+    );
+    const studentConflicts =
+      studentIds.length > 0
+        ? await this.scheduleService.checkStudentScheduleConflicts(
+            studentIds,
+            dto.scheduleItems,
+            duration,
+            [group.id],
+          )
+        : [];
+
+    return this.toPreview(group.id, plan, {
+      teacherConflict,
+      roomConflicts,
+      studentConflicts,
+    });
+  }
+
+  /**
+   * Replace the group's schedule items and move, cancel or keep its future sessions
+   * exactly as the preview describes, in a single transaction.
+   * Teacher and room conflicts block the change, student conflicts block it unless skipWarning is set.
+   *
+   * @param groupId - The group ID
+   * @param dto - New schedule items
+   * @param actor - The user performing the action
+   */
+  @Transactional()
+  async applyReschedule(
+    groupId: string,
+    dto: RescheduleGroupDto,
+    actor: ActorUser,
+  ): Promise<GroupReschedulePreviewDto> {
+    const group = await this.getGroupForReschedule(groupId, actor);
+
+    await this.groupValidationService.validateScheduleCore(
+      group.class,
+      dto.scheduleItems,
+      [group.id],
+      group.id,
+      dto.skipWarning,
+    );
+
+    const plan = await this.buildPlan(group, dto.scheduleItems);
+
+    await this.groupScheduleService.updateScheduleItems(
+      group.id,
+      dto.scheduleItems,
+    );
+
+    const newItems = await this.scheduleItemsRepository.findByGroupId(group.id);
+    const newItemIds = new Map(
+      newItems.map((item) => [this.getSlotKey(item), item.id]),
+    );
+
+    const moves = plan
+      .filter((entry) => entry.result.action === RescheduleSessionAction.MOVE)
+      .map((entry) => ({
+        session: entry.session,
+        startTime: entry.result.newStartTime!,
+        endTime: entry.result.newEndTime!,
+        scheduleItemId: newItemIds.get(entry.targetKey!)!,
+        roomId: entry.result.newRoomId ?? null,
+      }));
+    const drops = plan
+      .filter((entry) => entry.result.action === RescheduleSessionAction.DROP)
+      .map((entry) => entry.session);
+
+    await this.sessionsService.applyGroupReschedule(moves, drops, actor);
+
+    const updatedGroup =
+      await this.groupsRepository.findGroupForResponseOrThrow(group.id, false);
+    await this.typeSafeEventEmitter.emitAsync(
+      GroupEvents.UPDATED,
+      new GroupUpdatedEvent(updatedGroup, actor, actor.centerId!, [
+        'scheduleItems',
+      ]),
+    );
+
+    return this.toPreview(group.id, plan, {
+      teacherConflict: null,
+      roomConflicts: [],
+      studentConflicts: [],
+    });
+  }
+
+  private async getGroupForReschedule(
+    groupId: string,
+    actor: ActorUser,
+  ): Promise<Group> {
+    const group = await this.groupsRepository.findByIdOrThrow(groupId, [
+      'class',
+      'class.center', // Center relation for timezone
+    ]);
+
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: actor.centerId!,
+      branchId: group.branchId,
+    });
+
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId: group.classId,
+    });
+
+    return group;
+  }
+
+  /**
+   * Decide what happens to each future scheduled session of the group.
+   * Sessions on unchanged slots with an unchanged room are left out.
+   */
+  private async buildPlan(
+    group: Group,
+    scheduleItems: ScheduleItemDto[],
+  ): Promise<PlannedSession[]> {
+    const now = new Date();
+    const timezone = group.class.center?.timezone || DEFAULT_TIMEZONE;
+
+    const oldItems = await this.scheduleItemsRepository.findByGroupId(group.id);
+    const oldItemIds = new Set(oldItems.map((item) => item.id));
+    const targets = this.pairSlots(oldItems, scheduleItems);
+
+    // Extra sessions are not tied to the weekly schedule and never move
+    const sessions = (
+      await this.sessionsRepository.findByGroupId(group.id, {
+        status: SessionStatus.SCHEDULED,
+        startTimeFrom: now,
+      })
+    ).filter(
+      (session) =>
+        session.scheduleItemId && oldItemIds.has(session.scheduleItemId),
+    );
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    const sessionIds = sessions.map((session) => session.id);
+    const withAttendance =
+      await this.sessionsRepository.findSessionIdsWithAttendance(sessionIds);
+    const withCharges =
+      await this.sessionsRepository.findSessionIdsWithCharges(sessionIds);
+
+    const lastStartTime = new Date(
+      Math.max(...sessions.map((session) => session.startTime.getTime())),
+    );
+    const closures = await this.centerClosuresService.findClosuresInRange(
+      group.centerId,
+      now,
+      addDays(lastStartTime, 7),
+    );
+
+    const plan: PlannedSession[] = [];
+    for (const session of sessions) {
+      const oldItem = oldItems.find(
+        (item) => item.id === session.scheduleItemId,
+      )!;
+      const target = targets.get(oldItem.id);
+
+      const result: RescheduledSessionDto = {
+        sessionId: session.id,
+        action: RescheduleSessionAction.KEEP,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        roomId: session.roomId ?? null,
+        hasAttendance: withAttendance.has(session.id),
+        hasCharges: withCharges.has(session.id),
+      };
+      const entry: PlannedSession = { session, result };
+
+      if (!target) {
+        // Slot removed without replacement
+        if (result.hasAttendance) {
+          result.reason = RescheduleSessionReason.HAS_ATTENDANCE;
+        } else if (result.hasCharges) {
+          result.reason = RescheduleSessionReason.HAS_CHARGES;
+        } else {
+          result.action = RescheduleSessionAction.DROP;
+          result.reason = RescheduleSessionReason.SCHEDULE_ITEM_REMOVED;
+        }
+        plan.push(entry);
+        continue;
+      }
+
+      const targetKey = this.getSlotKey(target);
+      const newRoomId = target.roomId ?? null;
+      const sameSlot = targetKey === this.getSlotKey(oldItem);
+
+      if (sameSlot && newRoomId === result.roomId) {
+        continue;
+      }
+
+      // Same week, new weekday and time in center timezone
+      const newStartTime = sameSlot
+        ? session.startTime
+        : TimezoneService.combineDateAndTime(
+            addDays(
+              session.startTime,
+              DAY_INDEX[target.day] - DAY_INDEX[oldItem.day],
+            ),
+            target.startTime,
+            timezone,
+          );
+      const newEndTime = addMinutes(newStartTime, group.class.duration);
+
+      result.newStartTime = newStartTime;
+      result.newEndTime = newEndTime;
+      result.newRoomId = newRoomId;
+      entry.targetKey = targetKey;
+
+      result.reason = await this.getBlockingReason(
+        group,
+        session,
+        result,
+        sameSlot,
+        closures,
+        timezone,
+        now,
+      );
+      if (!result.reason) {
+        result.action = RescheduleSessionAction.MOVE;
+      } else if (
+        result.reason === RescheduleSessionReason.TIME_IN_PAST ||
+        result.reason === RescheduleSessionReason.CLOSURE_DATE ||
+        result.reason === RescheduleSessionReason.SLOT_TAKEN
+      ) {
+        if (result.hasCharges) {
+          // Canceling would strand the charges, keep the session instead
+          result.reason = RescheduleSessionReason.HAS_CHARGES;
+        } else {
+          result.action = RescheduleSessionAction.DROP;
+        }
+      }
+
+      plan.push(entry);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Get the reason a session cannot simply move to its new slot, if any.
+   * Sessions with attendance or a teacher conflict are kept, the others are
+   * dropped unless they have charges.
+   */
+  private async getBlockingReason(
+    group: Group,
+    session: Session,
+    result: RescheduledSessionDto,
+    sameSlot: boolean,
+    closures: CenterClosure[],
+    timezone: string,
+    now: Date,
+  ): Promise<RescheduleSessionReason | undefined> {
+    if (result.hasAttendance) {
+      return RescheduleSessionReason.HAS_ATTENDANCE;
+    }
+
+    // Only the room changes - nothing else to check
+    if (sameSlot) {
+      return undefined;
+    }
+
+    const newStartTime = result.newStartTime!;
+    if (newStartTime.getTime() <= now.getTime()) {
+      return RescheduleSessionReason.TIME_IN_PAST;
+    }
+
+    if (
+      ClosureDates.isClosed(
+        ClosureDates.toLocalDate(newStartTime, timezone),
+        group.branchId,
+        closures,
+      )
+    ) {
+      return RescheduleSessionReason.CLOSURE_DATE;
+    }
+
+    const existingSession =
+      await this.sessionsRepository.findByGroupIdAndStartTime(
+        group.id,
+        newStartTime,
+      );
+    if (existingSession && existingSession.id !== session.id) {
+      return RescheduleSessionReason.SLOT_TAKEN;
+    }
+
+    if (group.class.teacherUserProfileId) {
+      const overlapping = await this.sessionsRepository.findOverlappingSessions(
+        group.class.teacherUserProfileId,
+        newStartTime,
+        result.newEndTime!,
+        session.id,
+      );
+      const conflict = overlapping.find(
+        (other) => other.status !== SessionStatus.CANCELED,
+      );
+      if (conflict) {
+        result.conflictingSessionId = conflict.id;
+        return RescheduleSessionReason.TEACHER_CONFLICT;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Map each old schedule item to the new slot its sessions go to.
+   * Kept slots map to themselves, removed slots are paired with added slots
+   * in weekday/time order. Removed slots without a pair are not in the map.
+   */
+  private pairSlots(
+    oldItems: ScheduleItem[],
+    newItems: ScheduleItemDto[],
+  ): Map<string, ScheduleItemDto> {
+    const targets = new Map<string, ScheduleItemDto>();
+    const newByKey = new Map(
+      newItems.map((item) => [this.getSlotKey(item), item]),
+    );
+    const oldKeys = new Set(oldItems.map((item) => this.getSlotKey(item)));
+
+    const removed: ScheduleItem[] = [];
+    for (const item of oldItems) {
+      const kept = newByKey.get(this.getSlotKey(item));
+      if (kept) {
+        targets.set(item.id, kept);
+      } else {
+        removed.push(item);
+      }
+    }
+
+    const added = newItems.filter(
+      (item) => !oldKeys.has(this.getSlotKey(item)),
+    );
+
+    const bySlotOrder = (
+      a: { day: DayOfWeek; startTime: string },
+      b: { day: DayOfWeek; startTime: string },
+    ) =>
+      DAY_INDEX[a.day] - DAY_INDEX[b.day] ||
+      a.startTime.localeCompare(b.startTime);
+    removed.sort(bySlotOrder);
+    added.sort(bySlotOrder);
+
+    removed.forEach((item, index) => {
+      if (added[index]) {
+        targets.set(item.id, added[index]);
+      }
+    });
+
+    return targets;
+  }
+
+  private getSlotKey(item: { day: DayOfWeek; startTime: string }): string {
+    return `${item.day}-${item.startTime}`;
+  }
+
+  private toPreview(
+    groupId: string,
+    plan: PlannedSession[],
+    conflicts: Pick<
+      GroupReschedulePreviewDto,
+      'teacherConflict' | 'roomConflicts' | 'studentConflicts'
+    >,
+  ): GroupReschedulePreviewDto {
+    const sessions = plan.map((entry) => entry.result);
+    const count = (action: RescheduleSessionAction) =>
+      sessions.filter((session) => session.action === action).length;
+
+    return {
+      groupId,
+      sessions,
+      summary: {
+        moved: count(RescheduleSessionAction.MOVE),
+        dropped: count(RescheduleSessionAction.DROP),
+        kept: count(RescheduleSessionAction.KEEP),
+      },
+      ...conflicts,
+    };
+  }
+}
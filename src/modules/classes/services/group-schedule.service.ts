@@ -54,10 +54,7 @@ export class GroupScheduleService extends BaseService {
     for (const [key, dto] of newItemsMap.entries()) {
       const oldItem = oldItemsMap.get(key);
       if (oldItem) {
-        // Item exists in both - check if it needs updating
-        // Since schedule items only have day and startTime (no other mutable fields),
-        // we don't need to update if they match
-        // But we'll keep the logic for future extensibility
+        // Item exists in both - its room may still have changed
         itemsToUpdate.push({ item: oldItem, dto });
       } else {
         // Item is new
@@ -89,8 +86,13 @@ export class GroupScheduleService extends BaseService {
       );
     }
 
-    // Note: Items that match exactly don't need updating since day and startTime are the only fields
-    // If we add more mutable fields in the future, we would update them here
+    // Perform update operations (room is the only mutable field of a matched slot)
+    for (const { item, dto } of itemsToUpdate) {
+      const roomId = dto.roomId ?? null;
+      if ((item.roomId ?? null) !== roomId) {
+        await this.scheduleItemsRepository.update(item.id, { roomId });
+      }
+    }
 
     // Fetch new items after all operations
     const newItems = await this.scheduleItemsRepository.findByGroupId(groupId);
@@ -14,8 +14,10 @@ import { ClassStaffAccessDto } from '../dto/class-staff-access.dto';
 import { ScheduleItemDto } from '../dto/schedule-item.dto';
 import { Transactional } from '@nestjs-cls/transactional';
 import { GroupStudent } from '../entities/group-student.entity';
+import { Group } from '../entities/group.entity';
 import { BulkOperationResult } from '@/shared/common/services/bulk-operation.service';
 import { GroupStudentAccessDto } from '../dto/group-student-access.dto';
+import { TransferGroupStudentDto } from '../dto/transfer-group-student.dto';
 import { ClassStatus } from '../enums/class-status.enum';
 import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
 import { CentersService } from '@/modules/centers/services/centers.service';
@@ -28,6 +30,7 @@ import { GroupEvents } from '@/shared/events/groups.events.enum';
 import {
   StudentAddedToGroupEvent,
   StudentRemovedFromGroupEvent,
+  StudentTransferredBetweenGroupsEvent,
 } from '../events/group-student.events';
 
 @Injectable()
@@ -52,6 +55,48 @@ export class GroupStudentService extends BaseService {
 
   /**
    * Assigns a student to a group with comprehensive validation.
+   * Performs the enrollment validations (see validateStudentEnrollment)
+   * and enforces the group's max capacity.
+   *
+   * @param data - GroupStudentAccessDto containing groupId and userProfileId
+   * @param actor - The user performing the action
+   * @throws ClassesErrors.groupNotFound() if group doesn't exist or actor lacks access
+   * @throws ClassesErrors.studentAlreadyAssignedToGroup() if student is already assigned
+   * @throws ClassesErrors.studentInvalidTypeForGroupAssignment() if wrong profile type
+   * @throws ClassesErrors.groupCapacityReached() if the group is full
+   */
+  async assignStudentToGroup(
+    data: GroupStudentAccessDto,
+    actor: ActorUser,
+  ): Promise<void> {
+    const group = await this.validateStudentEnrollment(data, actor);
+
+    await this.ensureGroupHasCapacity(group.id);
+
+    // Extract centerId and branchId from validated group entity for snapshot
+    await this.groupStudentsRepository.create({
+      groupId: data.groupId,
+      studentUserProfileId: data.userProfileId,
+      classId: group.classId,
+      centerId: group.centerId,
+      branchId: group.branchId,
+      joinedAt: new Date(),
+    });
+
+    // Emit event for notification
+    await this.typeSafeEventEmitter.emitAsync(
+      GroupEvents.STUDENT_ADDED,
+      new StudentAddedToGroupEvent(
+        data.userProfileId,
+        group,
+        actor,
+        group.centerId,
+      ),
+    );
+  }
+
+  /**
+   * Validates that a student can be enrolled in a group.
    * Performs the following validations:
    * 1. Group exists and actor has access (validated by DTO)
    * 2. Student is not already assigned to this group
@@ -60,16 +105,18 @@ export class GroupStudentService extends BaseService {
    * 5. Student is not already in another group of the same class
    * 6. Student's schedule doesn't conflict with other assigned groups
    *
+   * Does not check capacity - also used before adding a student to the waitlist.
+   *
    * @param data - GroupStudentAccessDto containing groupId and userProfileId
    * @param actor - The user performing the action
-   * @throws ClassesErrors.groupNotFound() if group doesn't exist or actor lacks access
-   * @throws ClassesErrors.studentAlreadyAssignedToGroup() if student is already assigned
-   * @throws ClassesErrors.studentInvalidTypeForGroupAssignment() if wrong profile type
+   * @param excludeGroupId - Group the student is leaving (transfers), ignored in steps 5 and 6
+   * @returns The group with its class relation loaded
    */
-  async assignStudentToGroup(
+  async validateStudentEnrollment(
     data: GroupStudentAccessDto,
     actor: ActorUser,
-  ): Promise<void> {
+    excludeGroupId?: string,
+  ): Promise<Group> {
     // Self-protection check - applies to ALL operations
     this.selfProtectionService.validateNotSelf(
       actor.userProfileId,
@@ -152,57 +199,152 @@ export class GroupStudentService extends BaseService {
       await this.groupStudentsRepository.findStudentGroupIdsByClassId(
         data.userProfileId,
         group.classId,
-        undefined, // Not excluding any group (new assignment)
+        excludeGroupId,
       );
 
     if (existingGroupIds.length > 0) {
       throw ClassesErrors.studentAlreadyAssignedToGroup();
     }
 
+    await this.validateStudentSchedule(group, data.userProfileId, {
+      excludeGroupId,
+      skipWarning: data.skipWarning,
+    });
+
+    return group;
+  }
+
+  /**
+   * Validates the group's schedule doesn't conflict with the student's
+   * other groups. Also used when promoting a student from the waitlist.
+   *
+   * @param group - The group with its class relation loaded
+   * @param studentUserProfileId - The student joining the group
+   * @param options - Group the student is leaving and whether to skip the student conflict warning
+   */
+  async validateStudentSchedule(
+    group: Group,
+    studentUserProfileId: string,
+    options: { excludeGroupId?: string; skipWarning?: boolean } = {},
+  ): Promise<void> {
     const scheduleItems = await this.scheduleItemsRepository.findByGroupId(
-      data.groupId,
+      group.id,
     );
-    if (scheduleItems && scheduleItems.length > 0) {
-      const scheduleItemsDto: ScheduleItemDto[] = scheduleItems.map((item) => ({
-        day: item.day,
-        startTime: item.startTime,
-      }));
-
-      if (!group.class || !group.class.duration) {
-        throw ClassesErrors.groupValidationFailed();
-      }
+    if (!scheduleItems || scheduleItems.length === 0) {
+      return;
+    }
 
-      await this.scheduleService.validateScheduleConflicts(
-        scheduleItemsDto,
-        group.class.duration,
-        {
-          studentIds: [data.userProfileId],
-          excludeGroupIds: undefined,
-          skipWarning: data.skipWarning,
+    const scheduleItemsDto: ScheduleItemDto[] = scheduleItems.map((item) => ({
+      day: item.day,
+      startTime: item.startTime,
+    }));
+
+    if (!group.class || !group.class.duration) {
+      throw ClassesErrors.groupValidationFailed();
+    }
+
+    await this.scheduleService.validateScheduleConflicts(
+      scheduleItemsDto,
+      group.class.duration,
+      {
+        studentIds: [studentUserProfileId],
+        excludeGroupIds: options.excludeGroupId
+          ? [options.excludeGroupId]
+          : undefined,
+        dateRange: {
+          startDate: group.class.startDate,
+          endDate: group.class.endDate,
         },
+        skipWarning: options.skipWarning,
+      },
+    );
+  }
+
+  /**
+   * Transfers a student from one group to another in a single transaction.
+   * The source assignment is closed and the target assignment is created with
+   * the same enrollment validations and capacity check as a direct assignment,
+   * ignoring the group being left.
+   *
+   * Student charges are keyed by class, so transfers within the same class keep
+   * paid subscriptions and class installments as they are. Transfers across
+   * classes are carried over by the billing listeners of the transfer event.
+   *
+   * @param data - TransferGroupStudentDto containing the student and both groups
+   * @param actor - The user performing the action
+   * @throws ClassesErrors.transferSameGroup() if both groups are the same
+   * @throws ClassesErrors.groupStudentNotAssigned() if student is not in the source group
+   * @throws ClassesErrors.groupCapacityReached() if the target group is full
+   */
+  @Transactional()
+  async transferStudent(
+    data: TransferGroupStudentDto,
+    actor: ActorUser,
+  ): Promise<GroupStudent> {
+    if (data.fromGroupId === data.toGroupId) {
+      throw ClassesErrors.transferSameGroup();
+    }
+
+    const fromGroup = await this.groupsRepository.findByIdOrThrow(
+      data.fromGroupId,
+      ['class'],
+    );
+
+    // Validate actor has ClassStaff access to the class being left
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId: fromGroup.classId,
+    });
+
+    const currentAssignment =
+      await this.groupStudentsRepository.findByGroupAndStudent(
+        data.fromGroupId,
+        data.userProfileId,
       );
+    if (!currentAssignment) {
+      throw ClassesErrors.groupStudentNotAssigned();
     }
 
-    // Extract centerId and branchId from validated group entity for snapshot
-    await this.groupStudentsRepository.create({
-      groupId: data.groupId,
+    const toGroup = await this.validateStudentEnrollment(
+      {
+        groupId: data.toGroupId,
+        userProfileId: data.userProfileId,
+        skipWarning: data.skipWarning,
+      },
+      actor,
+      data.fromGroupId,
+    );
+
+    await this.ensureGroupHasCapacity(toGroup.id);
+
+    const transferredAt = new Date();
+
+    await this.groupStudentsRepository.update(currentAssignment.id, {
+      leftAt: transferredAt,
+    });
+
+    const newAssignment = await this.groupStudentsRepository.create({
+      groupId: toGroup.id,
       studentUserProfileId: data.userProfileId,
-      classId: group.classId,
-      centerId: group.centerId,
-      branchId: group.branchId,
-      joinedAt: new Date(),
+      classId: toGroup.classId,
+      centerId: toGroup.centerId,
+      branchId: toGroup.branchId,
+      joinedAt: transferredAt,
     });
 
-    // Emit event for notification
     await this.typeSafeEventEmitter.emitAsync(
-      GroupEvents.STUDENT_ADDED,
-      new StudentAddedToGroupEvent(
+      GroupEvents.STUDENT_TRANSFERRED,
+      new StudentTransferredBetweenGroupsEvent(
         data.userProfileId,
-        group,
+        fromGroup,
+        toGroup,
         actor,
-        group.centerId,
+        toGroup.centerId,
+        data.paymentMethod,
       ),
     );
+
+    return newAssignment;
   }
 
   /**
@@ -367,4 +509,19 @@ export class GroupStudentService extends BaseService {
       },
     );
   }
+
+  /**
+   * Locks the group row and ensures it has a free seat.
+   * The lock keeps concurrent enrollments from exceeding capacity.
+   */
+  private async ensureGroupHasCapacity(groupId: string): Promise<void> {
+    const lockedGroup = await this.groupsRepository.findOneWithLock(groupId);
+    if (lockedGroup.maxCapacity != null) {
+      const studentsCount =
+        await this.groupStudentsRepository.countActiveByGroupId(groupId);
+      if (studentsCount >= lockedGroup.maxCapacity) {
+        throw ClassesErrors.groupCapacityReached(lockedGroup.maxCapacity);
+      }
+    }
+  }
 }
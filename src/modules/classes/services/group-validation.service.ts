@@ -5,6 +5,7 @@ import { GroupStudentsRepository } from '../repositories/group-students.reposito
 import { ScheduleService } from './schedule.service';
 import { Class } from '../entities/class.entity';
 import { BaseService } from '@/shared/common/services/base.service';
+import { RoomsService } from '@/modules/centers/services/rooms.service';
 
 @Injectable()
 export class GroupValidationService extends BaseService {
@@ -12,12 +13,13 @@ export class GroupValidationService extends BaseService {
     private readonly classesRepository: ClassesRepository,
     private readonly groupStudentsRepository: GroupStudentsRepository,
     private readonly scheduleService: ScheduleService,
+    private readonly roomsService: RoomsService,
   ) {
     super();
   }
 
   /**
-   * Validates schedule conflicts for teacher and students.
+   * Validates schedule rooms and conflicts for teacher, rooms and students.
    *
    * @param classEntity - The class entity (must have duration and teacherUserProfileId)
    * @param scheduleItems - Schedule items to validate
@@ -43,6 +45,16 @@ export class GroupValidationService extends BaseService {
       studentIds = groupStudents.map((gs) => gs.studentUserProfileId);
     }
 
+    const roomIds = scheduleItems
+      .map((item) => item.roomId)
+      .filter((roomId): roomId is string => !!roomId);
+    if (roomIds.length > 0) {
+      await this.roomsService.validateRoomsForBranch(
+        classEntity.branchId,
+        roomIds,
+      );
+    }
+
     await this.scheduleService.validateScheduleConflicts(
       scheduleItems,
       classEntity.duration,
@@ -50,7 +62,13 @@ export class GroupValidationService extends BaseService {
         teacherUserProfileId: classEntity.teacherUserProfileId,
         studentIds:
           studentIds && studentIds.length > 0 ? studentIds : undefined,
-        excludeGroupIds,
+        // When updating a group, its own current slots must not conflict with the new ones
+        excludeGroupIds: excludeGroupIds ?? (groupId ? [groupId] : undefined),
+        // Classes that never run at the same time (e.g. other terms) can share slots
+        dateRange: {
+          startDate: classEntity.startDate,
+          endDate: classEntity.endDate,
+        },
         skipWarning,
       },
     );
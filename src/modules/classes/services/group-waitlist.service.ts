@@ -0,0 +1,259 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { GroupsRepository } from '../repositories/groups.repository';
+import { GroupStudentsRepository } from '../repositories/group-students.repository';
+import { GroupWaitlistEntriesRepository } from '../repositories/group-waitlist-entries.repository';
+import { GroupWaitlistEntry } from '../entities/group-waitlist-entry.entity';
+import { Group } from '../entities/group.entity';
+import { GroupStudentAccessDto } from '../dto/group-student-access.dto';
+import { GroupStudentService } from './group-student.service';
+import { ClassAccessService } from './class-access.service';
+import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { ClassesErrors } from '../exceptions/classes.errors';
+import { DomainException } from '@/shared/common/exceptions/domain.exception';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { GroupEvents } from '@/shared/events/groups.events.enum';
+import { StudentPromotedFromWaitlistEvent } from '../events/group-student.events';
+
+@Injectable()
+export class GroupWaitlistService extends BaseService {
+  private readonly logger: Logger = new Logger(GroupWaitlistService.name);
+
+  constructor(
+    private readonly groupsRepository: GroupsRepository,
+    private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly groupWaitlistEntriesRepository: GroupWaitlistEntriesRepository,
+    private readonly groupStudentService: GroupStudentService,
+    private readonly classAccessService: ClassAccessService,
+    private readonly branchAccessService: BranchAccessService,
+    private readonly userProfileService: UserProfileService,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  /**
+   * Adds a student to the waitlist of a full group.
+   * Runs the same enrollment validations as a direct assignment.
+   *
+   * @param data - GroupStudentAccessDto containing groupId and userProfileId
+   * @param actor - The user performing the action
+   * @returns The created waitlist entry
+   * @throws ClassesErrors.studentAlreadyWaitlisted() if student is already on the waitlist
+   * @throws ClassesErrors.groupHasAvailableCapacity() if the group still has free seats
+   */
+  async addStudentToWaitlist(
+    data: GroupStudentAccessDto,
+    actor: ActorUser,
+  ): Promise<GroupWaitlistEntry> {
+    const group = await this.groupStudentService.validateStudentEnrollment(
+      data,
+      actor,
+    );
+
+    const existingEntry =
+      await this.groupWaitlistEntriesRepository.findByGroupAndStudent(
+        data.groupId,
+        data.userProfileId,
+      );
+    if (existingEntry) {
+      throw ClassesErrors.studentAlreadyWaitlisted();
+    }
+
+    // Waitlist is only for full groups - otherwise assign directly
+    const lockedGroup = await this.groupsRepository.findOneWithLock(group.id);
+    const studentsCount =
+      await this.groupStudentsRepository.countActiveByGroupId(group.id);
+    if (
+      lockedGroup.maxCapacity == null ||
+      studentsCount < lockedGroup.maxCapacity
+    ) {
+      throw ClassesErrors.groupHasAvailableCapacity();
+    }
+
+    return this.groupWaitlistEntriesRepository.create({
+      groupId: group.id,
+      studentUserProfileId: data.userProfileId,
+      classId: group.classId,
+      centerId: group.centerId,
+      branchId: group.branchId,
+      joinedAt: new Date(),
+    });
+  }
+
+  /**
+   * Removes a student from a group's waitlist.
+   *
+   * @param data - GroupStudentAccessDto containing groupId and userProfileId
+   * @param actor - The user performing the action
+   * @throws ClassesErrors.waitlistEntryNotFound() if student is not on the waitlist
+   */
+  async removeStudentFromWaitlist(
+    data: GroupStudentAccessDto,
+    actor: ActorUser,
+  ): Promise<void> {
+    await this.validateGroupAccess(data.groupId, actor);
+
+    const entry =
+      await this.groupWaitlistEntriesRepository.findByGroupAndStudent(
+        data.groupId,
+        data.userProfileId,
+      );
+    if (!entry) {
+      throw ClassesErrors.waitlistEntryNotFound();
+    }
+
+    await this.groupWaitlistEntriesRepository.remove(entry.id);
+  }
+
+  /**
+   * Gets the waitlist of a group in promotion order.
+   *
+   * @param groupId - The group ID
+   * @param actor - The user performing the action
+   * @returns Waitlist entries, earliest first
+   */
+  async getGroupWaitlist(
+    groupId: string,
+    actor: ActorUser,
+  ): Promise<GroupWaitlistEntry[]> {
+    await this.validateGroupAccess(groupId, actor);
+    return this.groupWaitlistEntriesRepository.findByGroupId(groupId);
+  }
+
+  /**
+   * Promotes waitlisted students into the group until it is full.
+   * Called when a seat is freed (student left) or the capacity is raised.
+   * Runs the capacity lock and the student schedule-conflict validation of a
+   * direct assignment. Entries that are no longer eligible (inactive profile,
+   * already enrolled in another group of the class, schedule conflict) are
+   * dropped from the waitlist.
+   *
+   * @param groupId - The group ID
+   * @param actor - The user whose action freed the seat
+   * @returns Number of promoted students
+   */
+  async promoteFromWaitlist(
+    groupId: string,
+    actor: ActorUser,
+  ): Promise<number> {
+    const entries =
+      await this.groupWaitlistEntriesRepository.findByGroupId(groupId);
+    if (entries.length === 0) {
+      return 0;
+    }
+
+    const lockedGroup = await this.groupsRepository.findOneWithLock(groupId);
+    const studentsCount =
+      await this.groupStudentsRepository.countActiveByGroupId(groupId);
+    let availableSeats =
+      lockedGroup.maxCapacity == null
+        ? entries.length
+        : lockedGroup.maxCapacity - studentsCount;
+    const group = await this.groupsRepository.findByIdOrThrow(groupId, [
+      'class',
+    ]);
+
+    let promotedCount = 0;
+    for (const entry of entries) {
+      if (availableSeats <= 0) {
+        break;
+      }
+
+      const isEligible = await this.isEligibleForPromotion(entry, group);
+      await this.groupWaitlistEntriesRepository.remove(entry.id);
+      if (!isEligible) {
+        this.logger.warn(
+          `Dropped ineligible waitlist entry ${entry.id} for group ${groupId}`,
+        );
+        continue;
+      }
+
+      await this.groupStudentsRepository.create({
+        groupId: group.id,
+        studentUserProfileId: entry.studentUserProfileId,
+        classId: group.classId,
+        centerId: group.centerId,
+        branchId: group.branchId,
+        joinedAt: new Date(),
+      });
+
+      await this.typeSafeEventEmitter.emitAsync(
+        GroupEvents.STUDENT_PROMOTED_FROM_WAITLIST,
+        new StudentPromotedFromWaitlistEvent(
+          entry.studentUserProfileId,
+          group,
+          actor,
+          group.centerId,
+        ),
+      );
+
+      availableSeats--;
+      promotedCount++;
+    }
+
+    return promotedCount;
+  }
+
+  /**
+   * Check the waitlisted student can still take the seat
+   * @private
+   */
+  private async isEligibleForPromotion(
+    entry: GroupWaitlistEntry,
+    group: Group,
+  ): Promise<boolean> {
+    const userProfile = await this.userProfileService.findOne(
+      entry.studentUserProfileId,
+    );
+    if (!userProfile || !userProfile.isActive) {
+      return false;
+    }
+
+    const existingGroupIds =
+      await this.groupStudentsRepository.findStudentGroupIdsByClassId(
+        entry.studentUserProfileId,
+        entry.classId,
+      );
+    if (existingGroupIds.length > 0) {
+      return false;
+    }
+
+    try {
+      await this.groupStudentService.validateStudentSchedule(
+        group,
+        entry.studentUserProfileId,
+      );
+    } catch (error) {
+      if (!(error instanceof DomainException)) {
+        throw error;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Validate actor has branch and class access to the group
+   * @private
+   */
+  private async validateGroupAccess(
+    groupId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    const group = await this.groupsRepository.findByIdOrThrow(groupId);
+
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: actor.centerId!,
+      branchId: group.branchId,
+    });
+
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId: group.classId,
+    });
+  }
+}
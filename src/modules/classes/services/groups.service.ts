@@ -31,6 +31,7 @@ import { SessionsService } from '@/modules/sessions/services/sessions.service';
 import { CentersService } from '@/modules/centers/services/centers.service';
 import { BranchesService } from '@/modules/centers/services/branches.service';
 import { CentersErrors } from '@/modules/centers/exceptions/centers.errors';
+import { GroupWaitlistService } from './group-waitlist.service';
 
 @Injectable()
 export class GroupsService extends BaseService {
@@ -46,6 +47,7 @@ export class GroupsService extends BaseService {
     private readonly sessionsService: SessionsService,
     private readonly centersService: CentersService,
     private readonly branchesService: BranchesService,
+    private readonly groupWaitlistService: GroupWaitlistService,
   ) {
     super();
   }
@@ -170,6 +172,7 @@ export class GroupsService extends BaseService {
       branchId: classEntity.branchId,
       centerId: classEntity.centerId,
       name: createGroupDto.name,
+      maxCapacity: createGroupDto.maxCapacity ?? null,
     });
 
     await this.groupScheduleService.createScheduleItems(
@@ -247,6 +250,33 @@ export class GroupsService extends BaseService {
       changedFields.push('name');
     }
 
+    let capacityIncreased = false;
+    if (
+      groupUpdateData.maxCapacity !== undefined &&
+      groupUpdateData.maxCapacity !== group.maxCapacity
+    ) {
+      if (
+        groupUpdateData.maxCapacity !== null &&
+        groupUpdateData.maxCapacity < group.studentsCount
+      ) {
+        throw ClassesErrors.groupCapacityBelowEnrollment(
+          groupUpdateData.maxCapacity,
+          group.studentsCount,
+        );
+      }
+
+      capacityIncreased =
+        group.maxCapacity != null &&
+        (groupUpdateData.maxCapacity === null ||
+          groupUpdateData.maxCapacity > group.maxCapacity);
+
+      await this.groupsRepository.update(groupId, {
+        maxCapacity: groupUpdateData.maxCapacity,
+      });
+      group.maxCapacity = groupUpdateData.maxCapacity;
+      changedFields.push('maxCapacity');
+    }
+
     if (groupUpdateData.scheduleItems) {
       // Fetch old schedule items for comparison
       const oldScheduleItems =
@@ -288,6 +318,11 @@ export class GroupsService extends BaseService {
       new GroupUpdatedEvent(group, actor, actor.centerId!, changedFields),
     );
 
+    // Newly freed seats go to the waitlist in order
+    if (capacityIncreased) {
+      await this.groupWaitlistService.promoteFromWaitlist(groupId, actor);
+    }
+
     return group;
   }
 
@@ -305,12 +340,17 @@ export class GroupsService extends BaseService {
       return false;
     }
 
-    // Create maps for comparison (day + startTime is unique)
+    // Create maps for comparison (day + startTime is unique, room must match too)
     const oldMap = new Map(
-      oldItems.map((item) => [`${item.day}-${item.startTime}`, item]),
+      oldItems.map((item) => [
+        `${item.day}-${item.startTime}-${item.roomId ?? ''}`,
+        item,
+      ]),
     );
     const newSet = new Set(
-      newItems.map((item) => `${item.day}-${item.startTime}`),
+      newItems.map(
+        (item) => `${item.day}-${item.startTime}-${item.roomId ?? ''}`,
+      ),
     );
 
     // Check if all old items exist in new items
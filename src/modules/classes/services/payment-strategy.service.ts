@@ -1,16 +1,30 @@
 import { Injectable } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
 import { StudentPaymentStrategyDto } from '../dto/student-payment-strategy.dto';
 import { TeacherPaymentStrategyDto } from '../dto/teacher-payment-strategy.dto';
+import { UpdateStudentPaymentStrategyDto } from '../dto/update-student-payment-strategy.dto';
+import { UpdateTeacherPaymentStrategyDto } from '../dto/update-teacher-payment-strategy.dto';
+import { ClassPriceHistoryResponseDto } from '../dto/class-price-history-response.dto';
 import { StudentPaymentStrategyRepository } from '../repositories/student-payment-strategy.repository';
 import { TeacherPaymentStrategyRepository } from '../repositories/teacher-payment-strategy.repository';
+import { StudentPriceVersionsRepository } from '../repositories/student-price-versions.repository';
+import { TeacherPriceVersionsRepository } from '../repositories/teacher-price-versions.repository';
+import { StudentPriceVersion } from '../entities/student-price-version.entity';
+import { TeacherPriceVersion } from '../entities/teacher-price-version.entity';
+import { StudentPaymentStrategy } from '../entities/student-payment-strategy.entity';
+import { TeacherPaymentStrategy } from '../entities/teacher-payment-strategy.entity';
 import { ClassesErrors } from '../exceptions/classes.errors';
 import { BaseService } from '@/shared/common/services/base.service';
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+import { Money } from '@/shared/common/utils/money.util';
 
 @Injectable()
 export class PaymentStrategyService extends BaseService {
   constructor(
     private readonly studentPaymentStrategyRepository: StudentPaymentStrategyRepository,
     private readonly teacherPaymentStrategyRepository: TeacherPaymentStrategyRepository,
+    private readonly studentPriceVersionsRepository: StudentPriceVersionsRepository,
+    private readonly teacherPriceVersionsRepository: TeacherPriceVersionsRepository,
   ) {
     super();
   }
@@ -37,6 +51,72 @@ export class PaymentStrategyService extends BaseService {
     return this.teacherPaymentStrategyRepository.findByClassId(classId);
   }
 
+  /**
+   * Get the student prices in effect for a student of a class on a day.
+   * Falls back to the first version for days before the class was priced.
+   *
+   * @param classId - The class ID
+   * @param studentUserProfileId - The student being charged
+   * @param asOf - A moment, or a YYYY-MM-DD day in the center timezone
+   * @returns Price version or null if the class has no price history
+   */
+  async resolveStudentPriceVersion(
+    classId: string,
+    studentUserProfileId: string,
+    asOf: Date | string,
+  ): Promise<StudentPriceVersion | null> {
+    const version =
+      await this.studentPriceVersionsRepository.findEffectiveForStudent(
+        classId,
+        studentUserProfileId,
+        asOf,
+      );
+
+    return (
+      version ??
+      (await this.studentPriceVersionsRepository.findFirstVersion(classId))
+    );
+  }
+
+  /**
+   * Get the teacher rate in effect for a class on a day.
+   * Falls back to the first version for days before the class was priced.
+   *
+   * @param classId - The class ID
+   * @param asOf - A moment, or a YYYY-MM-DD day in the center timezone
+   * @returns Price version or null if the class has no price history
+   */
+  async resolveTeacherPriceVersion(
+    classId: string,
+    asOf: Date | string,
+  ): Promise<TeacherPriceVersion | null> {
+    const version = await this.teacherPriceVersionsRepository.findEffective(
+      classId,
+      asOf,
+    );
+
+    return (
+      version ??
+      (await this.teacherPriceVersionsRepository.findFirstVersion(classId))
+    );
+  }
+
+  /**
+   * Get the student and teacher price versions of a class, latest first
+   *
+   * @param classId - The class ID
+   */
+  async getPriceHistory(
+    classId: string,
+  ): Promise<ClassPriceHistoryResponseDto> {
+    const student =
+      await this.studentPriceVersionsRepository.findByClassId(classId);
+    const teacher =
+      await this.teacherPriceVersionsRepository.findByClassId(classId);
+
+    return { classId, student, teacher };
+  }
+
   /**
    * Create payment strategies for a class.
    * Creates both student and teacher payment strategies.
@@ -55,19 +135,39 @@ export class PaymentStrategyService extends BaseService {
     studentStrategy: StudentPaymentStrategyDto,
     teacherStrategy: TeacherPaymentStrategyDto,
   ): Promise<void> {
-    await this.studentPaymentStrategyRepository.create({
-      classId,
-      centerId,
-      branchId,
-      ...studentStrategy,
-    });
+    this.validateInstallmentPlan(studentStrategy);
 
-    await this.teacherPaymentStrategyRepository.create({
-      classId,
-      centerId,
-      branchId,
-      ...teacherStrategy,
-    });
+    const studentPaymentStrategy =
+      await this.studentPaymentStrategyRepository.create({
+        classId,
+        centerId,
+        branchId,
+        ...studentStrategy,
+      });
+
+    const teacherPaymentStrategy =
+      await this.teacherPaymentStrategyRepository.create({
+        classId,
+        centerId,
+        branchId,
+        ...teacherStrategy,
+      });
+
+    // The prices the class is created with are the first version, already in effect
+    const today = this.getToday();
+    await this.recordStudentPriceVersion(
+      studentPaymentStrategy,
+      studentStrategy,
+      today,
+      false,
+    );
+    await this.studentPriceVersionsRepository.markAppliedUpTo(classId, today);
+    await this.recordTeacherPriceVersion(
+      teacherPaymentStrategy,
+      teacherStrategy,
+      today,
+    );
+    await this.teacherPriceVersionsRepository.markAppliedUpTo(classId, today);
   }
 
   /**
@@ -75,15 +175,28 @@ export class PaymentStrategyService extends BaseService {
    * Only updates existing strategy (throws error if missing).
    * Used by the dedicated student payment endpoint.
    * Validation is handled automatically by NestJS validation pipe via DTO decorators.
+   * A changed installment plan applies to class charges created afterwards,
+   * existing charges keep their installment schedule.
+   * The prices are recorded as a new price version taking effect on
+   * effectiveFrom, charges keep referencing the version they were priced with.
+   * Prices taking effect later are written to the strategy by
+   * ClassPriceVersionsJob on that day, installment settings apply right away.
    *
    * @param classId - The class ID
    * @param strategy - Student payment strategy data
    * @throws ClassesErrors.paymentStrategyNotFound() if payment strategy doesn't exist
+   * @throws ClassesErrors.installmentPlanInvalid() if the installment plan is invalid
+   * @throws ClassesErrors.priceEffectiveDateInvalid() if effectiveFrom is in the past
    */
   async updateStudentStrategy(
     classId: string,
-    strategy: StudentPaymentStrategyDto,
+    strategy: UpdateStudentPaymentStrategyDto,
   ): Promise<void> {
+    this.validateInstallmentPlan(strategy);
+    const versionEffectiveFrom = this.validateEffectiveFrom(
+      strategy.effectiveFrom,
+    );
+
     const existingStrategy =
       await this.studentPaymentStrategyRepository.findByClassId(classId);
 
@@ -91,10 +204,25 @@ export class PaymentStrategyService extends BaseService {
       throw ClassesErrors.paymentStrategyNotFound();
     }
 
-    await this.studentPaymentStrategyRepository.update(
+    await this.studentPaymentStrategyRepository.updateThrow(
       existingStrategy.id,
+      {
+        installmentPlan: strategy.installmentPlan,
+        installmentGraceDays: strategy.installmentGraceDays,
+        blockAttendanceWhenOverdue: strategy.blockAttendanceWhenOverdue,
+      },
+    );
+
+    const version = await this.recordStudentPriceVersion(
+      existingStrategy,
       strategy,
+      versionEffectiveFrom,
+      strategy.grandfatherExistingStudents ?? false,
     );
+
+    if (versionEffectiveFrom === this.getToday()) {
+      await this.applyStudentPriceVersion(version);
+    }
   }
 
   /**
@@ -103,14 +231,22 @@ export class PaymentStrategyService extends BaseService {
    * Used by the dedicated teacher payment endpoint.
    * Validation is handled automatically by NestJS validation pipe via DTO decorators.
    *
+   * The rate is recorded as a new price version taking effect on
+   * effectiveFrom, payouts keep referencing the version they were paid with.
+   * A rate taking effect later is written to the strategy by
+   * ClassPriceVersionsJob on that day.
+   *
    * @param classId - The class ID
    * @param strategy - Teacher payment strategy data
    * @throws ClassesErrors.paymentStrategyNotFound() if payment strategy doesn't exist
+   * @throws ClassesErrors.priceEffectiveDateInvalid() if effectiveFrom is in the past
    */
   async updateTeacherStrategy(
     classId: string,
-    strategy: TeacherPaymentStrategyDto,
+    strategy: UpdateTeacherPaymentStrategyDto,
   ): Promise<void> {
+    const effectiveFrom = this.validateEffectiveFrom(strategy.effectiveFrom);
+
     const existingStrategy =
       await this.teacherPaymentStrategyRepository.findByClassId(classId);
 
@@ -118,9 +254,199 @@ export class PaymentStrategyService extends BaseService {
       throw ClassesErrors.paymentStrategyNotFound();
     }
 
-    await this.teacherPaymentStrategyRepository.update(
-      existingStrategy.id,
+    const version = await this.recordTeacherPriceVersion(
+      existingStrategy,
       strategy,
+      effectiveFrom,
     );
+
+    if (effectiveFrom === this.getToday()) {
+      await this.applyTeacherPriceVersion(version);
+    }
+  }
+
+  /**
+   * Write the price versions of a class that took effect by asOf to its
+   * payment strategies. Only the latest version in effect is written, the
+   * older scheduled versions it supersedes are marked applied with it.
+   *
+   * @param classId - The class ID
+   * @param asOf - The moment to apply versions up to
+   */
+  @Transactional()
+  async applyDuePriceVersions(classId: string, asOf: Date): Promise<void> {
+    const studentVersion =
+      await this.studentPriceVersionsRepository.findEffective(classId, asOf);
+    if (studentVersion) {
+      await this.applyStudentPriceVersion(studentVersion);
+    }
+
+    const teacherVersion =
+      await this.teacherPriceVersionsRepository.findEffective(classId, asOf);
+    if (teacherVersion) {
+      await this.applyTeacherPriceVersion(teacherVersion);
+    }
+  }
+
+  private async recordStudentPriceVersion(
+    strategy: StudentPaymentStrategy,
+    prices: StudentPaymentStrategyDto,
+    effectiveFrom: string,
+    grandfatherExistingStudents: boolean,
+  ): Promise<StudentPriceVersion> {
+    const latestVersionNumber =
+      await this.studentPriceVersionsRepository.findLatestVersionNumber(
+        strategy.classId,
+      );
+
+    return this.studentPriceVersionsRepository.create({
+      classId: strategy.classId,
+      centerId: strategy.centerId,
+      branchId: strategy.branchId,
+      versionNumber: latestVersionNumber + 1,
+      effectiveFrom,
+      sessionPrice: prices.includeSession ? prices.sessionPrice : null,
+      monthPrice: prices.includeMonth ? prices.monthPrice : null,
+      classPrice: prices.includeClass ? prices.classPrice : null,
+      grandfatherExistingStudents,
+    });
+  }
+
+  private async recordTeacherPriceVersion(
+    strategy: TeacherPaymentStrategy,
+    rate: TeacherPaymentStrategyDto,
+    effectiveFrom: string,
+  ): Promise<TeacherPriceVersion> {
+    const latestVersionNumber =
+      await this.teacherPriceVersionsRepository.findLatestVersionNumber(
+        strategy.classId,
+      );
+
+    return this.teacherPriceVersionsRepository.create({
+      classId: strategy.classId,
+      centerId: strategy.centerId,
+      branchId: strategy.branchId,
+      versionNumber: latestVersionNumber + 1,
+      effectiveFrom,
+      per: rate.per,
+      amount: rate.amount,
+    });
+  }
+
+  /**
+   * Make the prices of a version the live student payment strategy. A null
+   * price turns its payment type off and keeps the last configured price.
+   */
+  private async applyStudentPriceVersion(
+    version: StudentPriceVersion,
+  ): Promise<void> {
+    if (!version.appliedAt) {
+      const strategy =
+        await this.studentPaymentStrategyRepository.findByClassId(
+          version.classId,
+        );
+      if (strategy) {
+        await this.studentPaymentStrategyRepository.updateThrow(strategy.id, {
+          includeSession: version.sessionPrice != null,
+          sessionPrice: version.sessionPrice ?? strategy.sessionPrice,
+          includeMonth: version.monthPrice != null,
+          monthPrice: version.monthPrice ?? strategy.monthPrice,
+          includeClass: version.classPrice != null,
+          classPrice: version.classPrice ?? strategy.classPrice,
+        });
+      }
+    }
+
+    await this.studentPriceVersionsRepository.markAppliedUpTo(
+      version.classId,
+      version.effectiveFrom,
+    );
+  }
+
+  /**
+   * Make the rate of a version the live teacher payment strategy
+   */
+  private async applyTeacherPriceVersion(
+    version: TeacherPriceVersion,
+  ): Promise<void> {
+    if (!version.appliedAt) {
+      const strategy =
+        await this.teacherPaymentStrategyRepository.findByClassId(
+          version.classId,
+        );
+      if (strategy) {
+        await this.teacherPaymentStrategyRepository.updateThrow(strategy.id, {
+          per: version.per,
+          amount: version.amount,
+        });
+      }
+    }
+
+    await this.teacherPriceVersionsRepository.markAppliedUpTo(
+      version.classId,
+      version.effectiveFrom,
+    );
+  }
+
+  /**
+   * Price changes take effect today or later, never retroactively, so the
+   * charges and payouts already made stay explained by their version
+   *
+   * @returns effectiveFrom, or today when not given
+   * @throws ClassesErrors.priceEffectiveDateInvalid() if effectiveFrom is in the past
+   */
+  private validateEffectiveFrom(effectiveFrom?: string): string {
+    const today = this.getToday();
+    if (!effectiveFrom) {
+      return today;
+    }
+
+    if (effectiveFrom < today) {
+      throw ClassesErrors.priceEffectiveDateInvalid();
+    }
+
+    return effectiveFrom;
+  }
+
+  /**
+   * Today as YYYY-MM-DD in the timezone of the request's center
+   */
+  private getToday(): string {
+    return TimezoneService.formatZoned(new Date(), 'yyyy-MM-dd');
+  }
+
+  /**
+   * An installment plan only applies to class charges, its percentages must
+   * add up to the full class price and each step needs exactly one due date
+   * kind (fixed date or days after the class start).
+   *
+   * @throws ClassesErrors.installmentPlanInvalid() if the plan is invalid
+   */
+  private validateInstallmentPlan(strategy: StudentPaymentStrategyDto): void {
+    const plan = strategy.installmentPlan;
+    if (!plan || plan.length === 0) {
+      return;
+    }
+
+    if (!strategy.includeClass) {
+      throw ClassesErrors.installmentPlanInvalid();
+    }
+
+    const hasInvalidStep = plan.some(
+      (step) =>
+        (step.dueDate === undefined) ===
+        (step.daysAfterClassStart === undefined),
+    );
+    if (hasInvalidStep) {
+      throw ClassesErrors.installmentPlanInvalid();
+    }
+
+    const totalPercentage = plan.reduce(
+      (total, step) => total.add(Money.from(step.percentage)),
+      Money.zero(),
+    );
+    if (!totalPercentage.equals(Money.from(100))) {
+      throw ClassesErrors.installmentPlanInvalid();
+    }
   }
 }
@@ -6,10 +6,16 @@ import { DayOfWeek } from '../enums/day-of-week.enum';
 import { BaseService } from '@/shared/common/services/base.service';
 import { ClassesRepository } from '../repositories/classes.repository';
 import { GroupStudentsRepository } from '../repositories/group-students.repository';
+import { ScheduleItemsRepository } from '../repositories/schedule-items.repository';
 import {
   TeacherConflictDto,
   StudentConflictDto,
+  RoomConflictDto,
 } from '../dto/schedule-conflict.dto';
+import {
+  ScheduleConflictQueryBuilder,
+  ScheduleDateRange,
+} from '../utils/schedule-conflict-query-builder';
 import {
   areIntervalsOverlapping,
   parse,
@@ -24,6 +30,7 @@ export class ScheduleService extends BaseService {
   constructor(
     private readonly classesRepository: ClassesRepository,
     private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly scheduleItemsRepository: ScheduleItemsRepository,
   ) {
     super();
   }
@@ -87,6 +94,7 @@ export class ScheduleService extends BaseService {
    * @param scheduleItems - New schedule items to check for conflicts
    * @param duration - Duration in minutes (from class)
    * @param excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param dateRange - Optional dates of the class, classes not running in them are ignored
    * @returns Teacher conflict data with all conflicts, or null if no conflicts
    */
   async checkTeacherScheduleConflicts(
@@ -94,6 +102,7 @@ export class ScheduleService extends BaseService {
     scheduleItems: ScheduleItemDto[],
     duration: number,
     excludeGroupIds?: string[],
+    dateRange?: ScheduleDateRange,
   ): Promise<TeacherConflictDto | null> {
     const items = this.mapScheduleItemsWithDuration(scheduleItems, duration);
 
@@ -101,6 +110,7 @@ export class ScheduleService extends BaseService {
       teacherUserProfileId,
       items,
       excludeGroupIds,
+      dateRange,
     );
   }
 
@@ -112,6 +122,7 @@ export class ScheduleService extends BaseService {
    * @param scheduleItems - New schedule items to check for conflicts
    * @param duration - Duration in minutes (from class)
    * @param excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param dateRange - Optional dates of the class, classes not running in them are ignored
    * @returns Array of student conflict data, each with student info and their conflicts
    */
   async checkStudentScheduleConflicts(
@@ -119,6 +130,7 @@ export class ScheduleService extends BaseService {
     scheduleItems: ScheduleItemDto[],
     duration: number,
     excludeGroupIds?: string[],
+    dateRange?: ScheduleDateRange,
   ): Promise<StudentConflictDto[]> {
     const items = this.mapScheduleItemsWithDuration(scheduleItems, duration);
 
@@ -126,12 +138,49 @@ export class ScheduleService extends BaseService {
       studentIds,
       items,
       excludeGroupIds,
+      dateRange,
     );
   }
 
   /**
-   * Validates schedule items and checks for conflicts with teachers and/or students.
-   * Teacher conflicts always throw errors (blocking).
+   * Check for room double-booking across all groups.
+   * Items are grouped by room and each room is checked separately.
+   *
+   * @param scheduleItems - New schedule items to check (items without roomId are ignored)
+   * @param duration - Duration in minutes (from class)
+   * @param excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param dateRange - Optional dates of the class, classes not running in them are ignored
+   * @returns Array of room conflict data, one entry per conflicting room
+   */
+  async checkRoomScheduleConflicts(
+    scheduleItems: ScheduleItemDto[],
+    duration: number,
+    excludeGroupIds?: string[],
+    dateRange?: ScheduleDateRange,
+  ): Promise<RoomConflictDto[]> {
+    const conflicts: RoomConflictDto[] = [];
+    const itemsByRoom =
+      ScheduleConflictQueryBuilder.groupItemsByRoom(scheduleItems);
+
+    for (const [roomId, roomItems] of itemsByRoom.entries()) {
+      const roomConflict =
+        await this.scheduleItemsRepository.findAllRoomScheduleConflicts(
+          roomId,
+          this.mapScheduleItemsWithDuration(roomItems, duration),
+          excludeGroupIds,
+          dateRange,
+        );
+      if (roomConflict) {
+        conflicts.push(roomConflict);
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Validates schedule items and checks for conflicts with teachers, rooms and/or students.
+   * Teacher and room conflicts always throw errors (blocking).
    * Student conflicts throw errors unless skipWarning is true (non-blocking).
    *
    * @param scheduleItems - Schedule items to validate and check for conflicts
@@ -140,8 +189,9 @@ export class ScheduleService extends BaseService {
    * @param options.teacherUserProfileId - Optional teacher ID to check conflicts for
    * @param options.studentIds - Optional array of student IDs to check conflicts for
    * @param options.excludeGroupIds - Optional group IDs to exclude from conflict check
+   * @param options.dateRange - Optional dates of the class, classes not running in them are ignored
    * @param options.skipWarning - If true, student conflicts are silently skipped (not logged, not thrown)
-   * @throws ScheduleConflictException if teacher conflicts are detected, or if student conflicts are detected and skipWarning is false/undefined
+   * @throws ScheduleConflictException if teacher or room conflicts are detected, or if student conflicts are detected and skipWarning is false/undefined
    */
   async validateScheduleConflicts(
     scheduleItems: ScheduleItemDto[],
@@ -150,6 +200,7 @@ export class ScheduleService extends BaseService {
       teacherUserProfileId?: string;
       studentIds?: string[];
       excludeGroupIds?: string[];
+      dateRange?: ScheduleDateRange;
       skipWarning?: boolean;
     },
   ): Promise<void> {
@@ -162,6 +213,7 @@ export class ScheduleService extends BaseService {
         scheduleItems,
         duration,
         options.excludeGroupIds,
+        options.dateRange,
       );
 
       if (teacherConflict) {
@@ -173,6 +225,22 @@ export class ScheduleService extends BaseService {
       }
     }
 
+    // Check room double-booking - always throw if found (blocking)
+    const roomConflicts = await this.checkRoomScheduleConflicts(
+      scheduleItems,
+      duration,
+      options.excludeGroupIds,
+      options.dateRange,
+    );
+    if (roomConflicts.length > 0) {
+      const firstConflict = roomConflicts[0];
+      throw ClassesErrors.roomScheduleConflict(
+        firstConflict.roomName,
+        firstConflict.roomId,
+        firstConflict.conflicts,
+      );
+    }
+
     // Check student conflicts - only throw if skipWarning is false/undefined
     if (options.studentIds && options.studentIds.length > 0) {
       const studentConflicts = await this.checkStudentScheduleConflicts(
@@ -180,6 +248,7 @@ export class ScheduleService extends BaseService {
         scheduleItems,
         duration,
         options.excludeGroupIds,
+        options.dateRange,
       );
 
       if (studentConflicts.length > 0) {
@@ -0,0 +1,20 @@
+/**
+ * Where-condition matching price versions already in effect on a day, for
+ * query builders aliasing the version as "version" and joining its center
+ * as "center". A moment is first converted to its day in the center
+ * timezone, a YYYY-MM-DD string is taken as that day.
+ * Bind the value as the :asOf parameter.
+ */
+export function effectiveOnCondition(asOf: Date | string): string {
+  return typeof asOf === 'string'
+    ? 'version.effectiveFrom <= CAST(:asOf AS date)'
+    : 'version.effectiveFrom <= (CAST(:asOf AS timestamptz) AT TIME ZONE center.timezone)::date';
+}
+
+/**
+ * First day of a billing month as YYYY-MM-DD, the day month-based prices
+ * and payouts are resolved on
+ */
+export function firstDayOfMonth(month: number, year: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-01`;
+}
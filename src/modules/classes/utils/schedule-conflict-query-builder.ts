@@ -1,13 +1,21 @@
+/**
+ * Dates a class runs between. A class without an end date runs indefinitely.
+ */
+export interface ScheduleDateRange {
+  startDate: Date;
+  endDate?: Date | null;
+}
+
 /**
  * Utility class for building SQL queries to check schedule conflicts.
- * Consolidates the common logic used in both student and teacher conflict detection.
+ * Consolidates the common logic used in student, teacher and room conflict detection.
  */
 export class ScheduleConflictQueryBuilder {
   /**
    * SQL parameter indices constants
    */
   private static readonly SQL_PARAMS = {
-    USER_ID: 1, // $1 is always the user ID (student or teacher)
+    USER_ID: 1, // $1 is always the owner ID (student, teacher or room)
     SCHEDULE_ITEM_BASE: 2, // $2 is the start of schedule items
     SCHEDULE_ITEM_SIZE: 3, // Each schedule item takes 3 parameters (day, startTime, duration)
   } as const;
@@ -15,7 +23,7 @@ export class ScheduleConflictQueryBuilder {
   /**
    * Builds SQL parameters array for schedule conflict queries.
    *
-   * @param userId - The user ID (student or teacher)
+   * @param userId - The owner ID (student, teacher or room)
    * @param scheduleItems - Array of schedule items to check (with duration instead of endTime)
    * @returns Array of parameters for SQL query
    */
@@ -63,6 +71,44 @@ export class ScheduleConflictQueryBuilder {
       .join(' OR ');
   }
 
+  /**
+   * Builds the room double-booking conditions for schedule items.
+   * Reuses the time overlap conditions and restricts existing items to the
+   * room in $1. Soft-deleted rooms no longer block their old slots.
+   *
+   * @param scheduleItems - Array of schedule items to check (with duration instead of endTime)
+   * @returns SQL condition string for room conflict detection
+   */
+  static buildRoomConflictConditions(
+    scheduleItems: Array<{ day: string; startTime: string; duration: number }>,
+  ): string {
+    return `existing."roomId" = $${this.SQL_PARAMS.USER_ID}
+          AND r."deletedAt" IS NULL
+          AND (${this.buildConflictConditions(scheduleItems)})`;
+  }
+
+  /**
+   * Groups schedule items by room so each room can be checked with its own query.
+   * Items without a room are skipped since they cannot double-book a room.
+   *
+   * @param scheduleItems - Schedule items carrying an optional roomId
+   * @returns Map of room ID to the schedule items booked in that room
+   */
+  static groupItemsByRoom<T extends { roomId?: string | null }>(
+    scheduleItems: T[],
+  ): Map<string, T[]> {
+    const itemsByRoom = new Map<string, T[]>();
+    for (const item of scheduleItems) {
+      if (!item.roomId) {
+        continue;
+      }
+      const roomItems = itemsByRoom.get(item.roomId) || [];
+      roomItems.push(item);
+      itemsByRoom.set(item.roomId, roomItems);
+    }
+    return itemsByRoom;
+  }
+
   /**
    * Builds exclude condition for group ID(s) if provided.
    * Supports both single group ID and multiple group IDs for backward compatibility.
@@ -131,4 +177,59 @@ export class ScheduleConflictQueryBuilder {
     params.push(...groupIds);
     return params;
   }
+
+  /**
+   * Builds the class date overlap condition if a date range is provided.
+   * Slots of classes that never run at the same time as the range (e.g. a
+   * previous academic term) are not conflicts. Existing classes without an
+   * end date end with their academic term, if they have one.
+   *
+   * @param dateRange - Optional dates of the class the new items belong to
+   * @param currentParamIndex - Current parameter index (after all other parameters)
+   * @returns SQL condition string and updated parameter index
+   */
+  static buildDateRangeCondition(
+    dateRange: ScheduleDateRange | undefined,
+    currentParamIndex: number,
+  ): { condition: string; nextParamIndex: number } {
+    if (!dateRange) {
+      return { condition: '', nextParamIndex: currentParamIndex };
+    }
+
+    const startParamIndex = currentParamIndex + 1;
+    let condition = `AND COALESCE(
+            c."endDate",
+            (SELECT t."endDate" FROM academic_terms t WHERE t.id = c."termId"),
+            'infinity'::timestamptz
+          ) >= $${startParamIndex}`;
+    if (!dateRange.endDate) {
+      return { condition, nextParamIndex: startParamIndex };
+    }
+
+    const endParamIndex = startParamIndex + 1;
+    condition += ` AND c."startDate" <= $${endParamIndex}`;
+    return { condition, nextParamIndex: endParamIndex };
+  }
+
+  /**
+   * Adds the date range bounds to parameters array if provided.
+   *
+   * @param params - Current parameters array
+   * @param dateRange - Optional dates of the class the new items belong to
+   * @returns Updated parameters array
+   */
+  static addDateRangeParameters(
+    params: (string | number)[],
+    dateRange: ScheduleDateRange | undefined,
+  ): (string | number)[] {
+    if (!dateRange) {
+      return params;
+    }
+
+    params.push(dateRange.startDate.toISOString());
+    if (dateRange.endDate) {
+      params.push(dateRange.endDate.toISOString());
+    }
+    return params;
+  }
 }
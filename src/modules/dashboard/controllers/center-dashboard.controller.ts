@@ -1,4 +1,4 @@
-import { Controller, Get } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
@@ -9,6 +9,7 @@ import { GetUser, Permissions } from '@/shared/common/decorators';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { CenterDashboardService } from '../services/center-dashboard.service';
 import { CenterOverviewDto } from '../dto/center-overview.dto';
+import { CenterOverviewQueryDto } from '../dto/center-overview-query.dto';
 import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
 import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
 
@@ -31,9 +32,10 @@ export class CenterDashboardController {
   })
   @Permissions(PERMISSIONS.DASHBOARD.READ)
   async getOverview(
+    @Query() query: CenterOverviewQueryDto,
     @GetUser() actor: ActorUser,
   ): Promise<ControllerResponse<CenterOverviewDto>> {
-    const result = await this.dashboardService.getCenterOverview(actor);
+    const result = await this.dashboardService.getCenterOverview(actor, query);
     return ControllerResponse.success(result);
   }
 }
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
+
+export class CenterOverviewQueryDto {
+  @ApiProperty({
+    description:
+      'Filter class activity metrics (active teachers and students) by academic term',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToCenter(AcademicTerm)
+  termId?: string;
+}
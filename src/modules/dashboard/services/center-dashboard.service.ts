@@ -16,6 +16,7 @@ import {
   CurrentMonthMetricsDto,
   AllTimeMetricsDto,
 } from '../dto/center-overview.dto';
+import { CenterOverviewQueryDto } from '../dto/center-overview-query.dto';
 
 @Injectable()
 export class CenterDashboardService {
@@ -31,7 +32,10 @@ export class CenterDashboardService {
     private readonly groupsRepository: GroupsRepository,
   ) {}
 
-  async getCenterOverview(actor: ActorUser): Promise<CenterOverviewDto> {
+  async getCenterOverview(
+    actor: ActorUser,
+    query: CenterOverviewQueryDto = {},
+  ): Promise<CenterOverviewDto> {
     const centerId = actor.centerId;
     if (!centerId) {
       throw new Error('User must be associated with a center');
@@ -39,6 +43,9 @@ export class CenterDashboardService {
 
     this.logger.debug(`Getting dashboard overview for center ${centerId}`);
 
+    // Class-based activity metrics can be narrowed down to an academic term
+    const { termId } = query;
+
     // Get treasury stats first to get both cash and wallet balances
     const treasuryStats = await this.cashboxService.getCenterTreasuryStats(
       centerId,
@@ -62,10 +69,10 @@ export class CenterDashboardService {
       this.getTotalStudents(centerId),
       this.getTotalTeachers(centerId),
       this.getTotalStaff(centerId),
-      this.getActiveTeachers(centerId), // Monthly active
-      this.getActiveStudents(centerId), // Monthly active
-      this.getAllTimeActiveTeachers(centerId), // Currently active (no time bound)
-      this.getAllTimeActiveStudents(centerId), // Currently active (no time bound)
+      this.getActiveTeachers(centerId, termId), // Monthly active
+      this.getActiveStudents(centerId, termId), // Monthly active
+      this.getAllTimeActiveTeachers(centerId, termId), // Currently active (no time bound)
+      this.getAllTimeActiveStudents(centerId, termId), // Currently active (no time bound)
     ]);
 
     const currentMonth: CurrentMonthMetricsDto = {
@@ -240,9 +247,15 @@ export class CenterDashboardService {
     }
   }
 
-  private async getActiveTeachers(centerId: string): Promise<number> {
+  private async getActiveTeachers(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     try {
-      return await this.sessionsService.countActiveTeachersForCenter(centerId);
+      return await this.sessionsService.countActiveTeachersForCenter(
+        centerId,
+        termId,
+      );
     } catch (error) {
       this.logger.error(
         `Failed to get active teachers for center ${centerId}`,
@@ -252,9 +265,15 @@ export class CenterDashboardService {
     }
   }
 
-  private async getActiveStudents(centerId: string): Promise<number> {
+  private async getActiveStudents(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     try {
-      return await this.sessionsService.countActiveStudentsForCenter(centerId);
+      return await this.sessionsService.countActiveStudentsForCenter(
+        centerId,
+        termId,
+      );
     } catch (error) {
       this.logger.error(
         `Failed to get active students for center ${centerId}`,
@@ -264,10 +283,14 @@ export class CenterDashboardService {
     }
   }
 
-  private async getAllTimeActiveTeachers(centerId: string): Promise<number> {
+  private async getAllTimeActiveTeachers(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     try {
       return await this.classesRepository.countActiveTeachersForCenter(
         centerId,
+        termId,
       );
     } catch (error) {
       this.logger.error(
@@ -278,9 +301,15 @@ export class CenterDashboardService {
     }
   }
 
-  private async getAllTimeActiveStudents(centerId: string): Promise<number> {
+  private async getAllTimeActiveStudents(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     try {
-      return await this.groupsRepository.countActiveStudentsForCenter(centerId);
+      return await this.groupsRepository.countActiveStudentsForCenter(
+        centerId,
+        termId,
+      );
     } catch (error) {
       this.logger.error(
         `Failed to get all-time active students for center ${centerId}`,
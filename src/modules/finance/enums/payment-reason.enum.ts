@@ -3,6 +3,7 @@ export enum PaymentReason {
   SESSION_FEE = 'SESSION_FEE',
   MONTHLY_FEE = 'MONTHLY_FEE',
   CLASS_FEE = 'CLASS_FEE',
+  STUDENT_REFUND = 'STUDENT_REFUND', // Money returned to a student for a charge
 
   // Teacher payouts
   TEACHER_STUDENT_PAYOUT = 'TEACHER_STUDENT_PAYOUT',
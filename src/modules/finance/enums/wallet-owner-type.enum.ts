@@ -2,4 +2,5 @@ export enum WalletOwnerType {
   USER_PROFILE = 'USER_PROFILE',
   BRANCH = 'BRANCH',
   SYSTEM = 'SYSTEM',
+  BILLING_ACCOUNT = 'BILLING_ACCOUNT', // Family wallet shared by the students of a billing account
 }
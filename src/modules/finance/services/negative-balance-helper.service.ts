@@ -36,4 +36,21 @@ export class NegativeBalanceHelperService {
     // Get maxNegativeBalance directly from global settings
     return await this.settingsService.getMaxNegativeBalance();
   }
+
+  /**
+   * Get the maximum allowed negative balance for the sender of a wallet payment
+   * Only payments created with allowNegativeBalance (e.g. attendance auto-charge) qualify
+   */
+  async getSenderAllowNegativeUpTo(
+    payment: Payment,
+  ): Promise<Money | undefined> {
+    if (
+      payment.paymentMethod !== PaymentMethod.WALLET ||
+      payment.metadata?.allowNegativeBalance !== true
+    ) {
+      return undefined;
+    }
+
+    return await this.settingsService.getMaxNegativeBalance();
+  }
 }
@@ -58,7 +58,9 @@ export class PaymentCreatorService {
         request.paymentMethod,
       ),
       correlationId: request.correlationId,
-      metadata: request.metadata,
+      metadata: request.allowNegativeBalance
+        ? { ...request.metadata, allowNegativeBalance: true }
+        : request.metadata,
       referenceType: request.referenceType,
       referenceId: request.referenceId,
       createdByProfileId: actor.userProfileId,
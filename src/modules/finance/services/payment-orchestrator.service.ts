@@ -114,6 +114,34 @@ export class PaymentOrchestratorService {
     };
   }
 
+  /**
+   * Orchestrate taking part of an external payment back from the ledger
+   */
+  async reverseExternalPaymentAmount(
+    paymentId: string,
+    amount: Money,
+  ): Promise<Payment> {
+    return await this.paymentRefunder.reverseExternalPaymentAmount(
+      paymentId,
+      amount,
+    );
+  }
+
+  /**
+   * Orchestrate returning a reversed amount through the payment gateway
+   */
+  async sendGatewayRefund(
+    paymentId: string,
+    amount: Money,
+    reason?: string,
+  ): Promise<string> {
+    return await this.paymentRefunder.sendGatewayRefund(
+      paymentId,
+      amount,
+      reason,
+    );
+  }
+
   /**
    * Orchestrate external payment initiation
    */
@@ -11,8 +11,18 @@ import { PaymentRepository } from '../repositories/payment.repository';
 import { PaymentGatewayService } from '../adapters/payment-gateway.service';
 import { PaymentService } from './payment.service';
 import { CashTransactionService } from './cash-transaction.service';
+import { Money } from '@/shared/common/utils/money.util';
+import { PaymentGatewayType } from '../adapters/interfaces/payment-gateway.interface';
 import { randomUUID } from 'crypto';
 
+/** Gateway details and refunded totals kept in external payment metadata */
+interface GatewayRefundMetadata {
+  gatewayType?: PaymentGatewayType;
+  gatewayResponse?: { gatewayPaymentId?: string };
+  refundedAmount?: string;
+  gatewayRefundIds?: string[];
+}
+
 @Injectable()
 export class PaymentRefundService {
   private readonly logger = new Logger(PaymentRefundService.name);
@@ -83,6 +93,112 @@ export class PaymentRefundService {
     return await this.paymentRepository.savePayment(payment);
   }
 
+  /**
+   * Take part (or the rest) of a completed external payment back from the
+   * receiver's wallet before it is returned through the gateway with
+   * sendGatewayRefund. Refunded totals are kept in metadata; the payment
+   * becomes REFUNDED once nothing is left to return.
+   */
+  @Transactional()
+  async reverseExternalPaymentAmount(
+    paymentId: string,
+    amount: Money,
+  ): Promise<Payment> {
+    const payment = await this.paymentRepository.findOneOrThrow(paymentId);
+
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw FinanceErrors.paymentNotRefundable(payment.id, payment.status);
+    }
+
+    if (!PaymentService.isAsyncPayment(payment)) {
+      throw FinanceErrors.paymentNotExternal(payment.id);
+    }
+
+    const metadata = (payment.metadata ?? {}) as GatewayRefundMetadata;
+    if (!metadata.gatewayResponse?.gatewayPaymentId) {
+      throw FinanceErrors.paymentMissingGatewayId(payment.id);
+    }
+
+    const alreadyRefunded = Money.from(metadata.refundedAmount ?? 0);
+    const refundable = payment.amount.subtract(alreadyRefunded);
+    if (amount.greaterThan(refundable)) {
+      throw FinanceErrors.refundAmountExceedsPayment(
+        amount.toString(),
+        refundable.toString(),
+      );
+    }
+
+    // Take the amount back from whoever received the payment
+    const receiverWallet = await this.walletService.getWallet(
+      payment.receiverId,
+      payment.receiverType,
+    );
+    const updatedReceiverWallet = await this.walletService.updateBalance(
+      receiverWallet.id,
+      amount.multiply(-1),
+    );
+    await this.transactionService.createTransaction(
+      receiverWallet.id,
+      null, // Money leaves the system through the gateway
+      amount.multiply(-1),
+      TransactionType.REFUND,
+      randomUUID(),
+      updatedReceiverWallet.balance,
+      payment.id,
+    );
+
+    const refundedAmount = alreadyRefunded.add(amount);
+    payment.metadata = {
+      ...payment.metadata,
+      refundedAmount: refundedAmount.toString(),
+    };
+    if (refundedAmount.equals(payment.amount)) {
+      payment.status = PaymentStatus.REFUNDED;
+    }
+
+    return await this.paymentRepository.savePayment(payment);
+  }
+
+  /**
+   * Return an amount taken back with reverseExternalPaymentAmount to the
+   * payer through the gateway the payment came from. Money that leaves
+   * through the gateway cannot be rolled back, so callers run this last,
+   * once everything else in their transaction succeeded.
+   */
+  @Transactional()
+  async sendGatewayRefund(
+    paymentId: string,
+    amount: Money,
+    reason?: string,
+  ): Promise<string> {
+    const payment = await this.paymentRepository.findOneOrThrow(paymentId);
+    const metadata = (payment.metadata ?? {}) as GatewayRefundMetadata;
+    const gatewayPaymentId = metadata.gatewayResponse?.gatewayPaymentId;
+    if (!gatewayPaymentId) {
+      throw FinanceErrors.paymentMissingGatewayId(payment.id);
+    }
+
+    const gatewayRefund = await this.paymentGatewayService.refundPayment(
+      { gatewayPaymentId, amount, reason },
+      metadata.gatewayType,
+    );
+
+    payment.metadata = {
+      ...payment.metadata,
+      gatewayRefundIds: [
+        ...(metadata.gatewayRefundIds ?? []),
+        gatewayRefund.gatewayRefundId,
+      ],
+    };
+    await this.paymentRepository.savePayment(payment);
+
+    this.logger.log(
+      `Refunded ${amount.toString()} of external payment ${payment.id} via gateway refund ${gatewayRefund.gatewayRefundId}`,
+    );
+
+    return gatewayRefund.gatewayRefundId;
+  }
+
   /**
    * Reverse wallet balances for internal payment refund
    * Reverses all transactions (main payment + fees) by finding all transactions for the payment
@@ -45,6 +45,8 @@ export interface ExecutePaymentRequest {
   metadata?: Record<string, any>;
   referenceType?: PaymentReferenceType;
   referenceId?: string;
+  // Let a WALLET sender go negative down to the maxNegativeBalance setting
+  allowNegativeBalance?: boolean;
 }
 
 export interface ExecutePaymentResponse {
@@ -220,6 +222,30 @@ export class PaymentService extends BaseService {
     return await this.paymentOrchestrator.refundPayment(paymentId);
   }
 
+  async reverseExternalPaymentAmount(
+    paymentId: string,
+    amount: Money,
+  ): Promise<Payment> {
+    // Delegate to the orchestrator service
+    return await this.paymentOrchestrator.reverseExternalPaymentAmount(
+      paymentId,
+      amount,
+    );
+  }
+
+  async sendGatewayRefund(
+    paymentId: string,
+    amount: Money,
+    reason?: string,
+  ): Promise<string> {
+    // Delegate to the orchestrator service
+    return await this.paymentOrchestrator.sendGatewayRefund(
+      paymentId,
+      amount,
+      reason,
+    );
+  }
+
   async getUserPaymentsPaginated(
     dto: PaginatePaymentDto,
     actor: ActorUser,
@@ -39,8 +39,16 @@ export class WalletPaymentStrategy implements PaymentExecutionStrategy {
       ? await this.negativeBalanceHelper.getAllowNegativeUpTo(payment)
       : undefined;
 
+    // Payments allowed to overdraw the sender are capped in updateBalance instead
+    const senderAllowNegativeUpTo =
+      await this.negativeBalanceHelper.getSenderAllowNegativeUpTo(payment);
+
     // If negative balance is not allowed, check sufficient balance
-    if (!allowNegativeUpTo && senderWallet.balance.lessThan(payment.amount)) {
+    if (
+      !allowNegativeUpTo &&
+      !senderAllowNegativeUpTo &&
+      senderWallet.balance.lessThan(payment.amount)
+    ) {
       this.logger.error(
         `Insufficient balance for wallet payment: ${senderWallet.balance.toString()} < ${payment.amount.toString()}`,
       );
@@ -77,7 +85,8 @@ export class WalletPaymentStrategy implements PaymentExecutionStrategy {
     // Standard payment without fees - 2 transactions
     // Get negative balance allowance if applicable (shouldn't be needed for non-fee payments, but keep for safety)
     const allowNegativeUpTo =
-      await this.negativeBalanceHelper.getAllowNegativeUpTo(payment);
+      (await this.negativeBalanceHelper.getAllowNegativeUpTo(payment)) ??
+      (await this.negativeBalanceHelper.getSenderAllowNegativeUpTo(payment));
 
     // Execute balance transfers: Move from sender's balance to receiver's balance
     const [updatedSenderWallet, updatedReceiverWallet] = await Promise.all([
@@ -152,6 +161,8 @@ export class WalletPaymentStrategy implements PaymentExecutionStrategy {
     const updatedSenderWallet = await this.walletService.updateBalance(
       senderWalletId,
       payment.amount.multiply(-1), // Debit full amount from student
+      undefined, // retryCount
+      await this.negativeBalanceHelper.getSenderAllowNegativeUpTo(payment),
     );
 
     // Step 2: Credit center (netAmount - what center actually receives)
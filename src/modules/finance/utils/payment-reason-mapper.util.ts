@@ -25,6 +25,8 @@ export function mapPaymentReasonToTransactionType(
     case PaymentReason.TEACHER_MONTHLY_PAYOUT:
     case PaymentReason.TEACHER_CLASS_PAYOUT:
       return TransactionType.TEACHER_PAYOUT;
+    case PaymentReason.STUDENT_REFUND:
+      return TransactionType.REFUND;
     case PaymentReason.EXPENSE:
       return TransactionType.EXPENSE;
     case PaymentReason.SYSTEM_FEE:
@@ -51,14 +51,20 @@ export enum NotificationType {
   GROUP_DELETED = 'GROUP_DELETED',
   STUDENT_ADDED_TO_GROUP = 'STUDENT_ADDED_TO_GROUP',
   STUDENT_REMOVED_FROM_GROUP = 'STUDENT_REMOVED_FROM_GROUP',
+  STUDENT_PROMOTED_FROM_WAITLIST = 'STUDENT_PROMOTED_FROM_WAITLIST',
 
   // Attendance notifications
   STUDENT_ABSENT = 'STUDENT_ABSENT',
+  STUDENT_ABSENCE_STREAK = 'STUDENT_ABSENCE_STREAK',
 
   // Student billing notifications
   CHARGE_COMPLETED = 'CHARGE_COMPLETED',
   CHARGE_INSTALLMENT_PAID = 'CHARGE_INSTALLMENT_PAID',
   CHARGE_REFUNDED = 'CHARGE_REFUNDED',
+  SUBSCRIPTION_RENEWED = 'SUBSCRIPTION_RENEWED',
+  SUBSCRIPTION_RENEWAL_FAILED = 'SUBSCRIPTION_RENEWAL_FAILED',
+  PAYMENT_REMINDER = 'PAYMENT_REMINDER',
+  PAYMENT_FINAL_NOTICE = 'PAYMENT_FINAL_NOTICE',
 
   // Teacher payout notifications
   PAYOUT_CREATED = 'PAYOUT_CREATED',
@@ -14,6 +14,7 @@ import { BranchRestoredResolver } from './resolvers/branches/branch-restored.res
 
 // Attendance resolvers
 import { StudentAbsentResolver } from './resolvers/attendance/student-absent.resolver';
+import { StudentAbsenceStreakResolver } from './resolvers/attendance/student-absence-streak.resolver';
 import { OtpResolver } from './resolvers/otp.resolver';
 import { PhoneVerifiedResolver } from './resolvers/phone-verified.resolver';
 import { NewDeviceLoginResolver } from './resolvers/new-device-login.resolver';
@@ -49,12 +50,17 @@ import { GroupCreatedResolver } from './resolvers/groups/group-created.resolver'
 import { GroupUpdatedResolver } from './resolvers/groups/group-updated.resolver';
 import { GroupDeletedResolver } from './resolvers/groups/group-deleted.resolver';
 import { StudentAddedToGroupResolver } from './resolvers/groups/student-added-to-group.resolver';
+import { StudentPromotedFromWaitlistResolver } from './resolvers/groups/student-promoted-from-waitlist.resolver';
 import { StudentRemovedFromGroupResolver } from './resolvers/groups/student-removed-from-group.resolver';
 
 // Student billing resolvers
 import { ChargeCompletedResolver } from './resolvers/student-billing/charge-completed.resolver';
 import { ChargeInstallmentPaidResolver } from './resolvers/student-billing/charge-installment-paid.resolver';
 import { ChargeRefundedResolver } from './resolvers/student-billing/charge-refunded.resolver';
+import { SubscriptionRenewedResolver } from './resolvers/student-billing/subscription-renewed.resolver';
+import { SubscriptionRenewalFailedResolver } from './resolvers/student-billing/subscription-renewal-failed.resolver';
+import { PaymentReminderResolver } from './resolvers/student-billing/payment-reminder.resolver';
+import { PaymentFinalNoticeResolver } from './resolvers/student-billing/payment-final-notice.resolver';
 
 // Teacher payout resolvers
 import { PayoutCreatedResolver } from './resolvers/teacher-payout/payout-created.resolver';
@@ -93,6 +99,7 @@ export class NotificationIntentResolverRegistryService implements OnModuleInit {
     private readonly branchDeletedResolver: BranchDeletedResolver,
     private readonly branchRestoredResolver: BranchRestoredResolver,
     private readonly studentAbsentResolver: StudentAbsentResolver,
+    private readonly studentAbsenceStreakResolver: StudentAbsenceStreakResolver,
     private readonly otpResolver: OtpResolver,
     private readonly phoneVerifiedResolver: PhoneVerifiedResolver,
     private readonly newDeviceLoginResolver: NewDeviceLoginResolver,
@@ -126,10 +133,15 @@ export class NotificationIntentResolverRegistryService implements OnModuleInit {
     private readonly groupDeletedResolver: GroupDeletedResolver,
     private readonly studentAddedToGroupResolver: StudentAddedToGroupResolver,
     private readonly studentRemovedFromGroupResolver: StudentRemovedFromGroupResolver,
+    private readonly studentPromotedFromWaitlistResolver: StudentPromotedFromWaitlistResolver,
     // Student billing resolvers
     private readonly chargeCompletedResolver: ChargeCompletedResolver,
     private readonly chargeInstallmentPaidResolver: ChargeInstallmentPaidResolver,
     private readonly chargeRefundedResolver: ChargeRefundedResolver,
+    private readonly subscriptionRenewedResolver: SubscriptionRenewedResolver,
+    private readonly subscriptionRenewalFailedResolver: SubscriptionRenewalFailedResolver,
+    private readonly paymentReminderResolver: PaymentReminderResolver,
+    private readonly paymentFinalNoticeResolver: PaymentFinalNoticeResolver,
     // Teacher payout resolvers
     private readonly payoutCreatedResolver: PayoutCreatedResolver,
     private readonly payoutPaidResolver: PayoutPaidResolver,
@@ -156,6 +168,10 @@ export class NotificationIntentResolverRegistryService implements OnModuleInit {
     this.register(NotificationType.BRANCH_DELETED, this.branchDeletedResolver);
     this.register(NotificationType.BRANCH_RESTORED, this.branchRestoredResolver);
     this.register(NotificationType.STUDENT_ABSENT, this.studentAbsentResolver);
+    this.register(
+      NotificationType.STUDENT_ABSENCE_STREAK,
+      this.studentAbsenceStreakResolver,
+    );
     this.register(NotificationType.OTP, this.otpResolver);
     this.register(NotificationType.PHONE_VERIFIED, this.phoneVerifiedResolver);
     this.register(NotificationType.NEW_DEVICE_LOGIN, this.newDeviceLoginResolver);
@@ -225,6 +241,10 @@ export class NotificationIntentResolverRegistryService implements OnModuleInit {
       NotificationType.STUDENT_REMOVED_FROM_GROUP,
       this.studentRemovedFromGroupResolver,
     );
+    this.register(
+      NotificationType.STUDENT_PROMOTED_FROM_WAITLIST,
+      this.studentPromotedFromWaitlistResolver,
+    );
 
     // Student billing notifications
     this.register(
@@ -236,6 +256,22 @@ export class NotificationIntentResolverRegistryService implements OnModuleInit {
       this.chargeInstallmentPaidResolver,
     );
     this.register(NotificationType.CHARGE_REFUNDED, this.chargeRefundedResolver);
+    this.register(
+      NotificationType.SUBSCRIPTION_RENEWED,
+      this.subscriptionRenewedResolver,
+    );
+    this.register(
+      NotificationType.SUBSCRIPTION_RENEWAL_FAILED,
+      this.subscriptionRenewalFailedResolver,
+    );
+    this.register(
+      NotificationType.PAYMENT_REMINDER,
+      this.paymentReminderResolver,
+    );
+    this.register(
+      NotificationType.PAYMENT_FINAL_NOTICE,
+      this.paymentFinalNoticeResolver,
+    );
 
     // Teacher payout notifications
     this.register(
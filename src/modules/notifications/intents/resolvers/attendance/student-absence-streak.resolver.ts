@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationType } from '../../../enums/notification-type.enum';
+import { NotificationIntentResolver } from '../../interfaces/notification-intent-resolver.interface';
+import { BaseIntentResolver } from '../../base/base-intent-resolver.abstract';
+import { IntentForNotification } from '../../../types/notification-intent.map';
+import { AudienceIdForNotification } from '../../../types/audience-id.types';
+import { RecipientInfo } from '../../../types/recipient-info.interface';
+import { UserService } from '@/modules/user/services/user.service';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
+import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
+
+/**
+ * Resolver for STUDENT_ABSENCE_STREAK notification
+ *
+ * TARGET = student. PARENTS = parents linked to the student.
+ */
+@Injectable()
+export class StudentAbsenceStreakResolver
+  extends BaseIntentResolver
+  implements NotificationIntentResolver<NotificationType.STUDENT_ABSENCE_STREAK>
+{
+  constructor(
+    private readonly userService: UserService,
+    private readonly userProfileService: UserProfileService,
+    private readonly groupsRepository: GroupsRepository,
+    private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
+  ) {
+    super();
+  }
+
+  async resolveIntent(
+    intent: IntentForNotification<NotificationType.STUDENT_ABSENCE_STREAK>,
+    audience: AudienceIdForNotification<NotificationType.STUDENT_ABSENCE_STREAK>,
+  ) {
+    const group = await this.groupsRepository.findById(intent.groupId, [
+      'class',
+    ]);
+    if (!group) {
+      throw new Error(
+        `STUDENT_ABSENCE_STREAK: Group not found: ${intent.groupId}`,
+      );
+    }
+
+    const center = await this.centersRepository.findOne(intent.centerId);
+    if (!center) {
+      throw new Error(
+        `STUDENT_ABSENCE_STREAK: Center not found: ${intent.centerId}`,
+      );
+    }
+
+    const studentProfile = await this.userProfileService.findOne(
+      intent.studentUserProfileId,
+    );
+    if (!studentProfile) {
+      throw new Error(
+        `STUDENT_ABSENCE_STREAK: Student profile not found: ${intent.studentUserProfileId}`,
+      );
+    }
+
+    const studentUser = await this.userService.findOne(studentProfile.userId);
+    if (!studentUser) {
+      throw new Error(
+        `STUDENT_ABSENCE_STREAK: Student user not found: ${studentProfile.userId}`,
+      );
+    }
+
+    const templateVariables = {
+      studentName: studentUser.name,
+      className: group.class?.name ?? '',
+      groupName: group.name,
+      centerName: center.name,
+      consecutiveAbsences: String(intent.consecutiveAbsences),
+    };
+
+    const recipients: RecipientInfo[] = [];
+
+    switch (audience) {
+      case 'TARGET':
+        recipients.push({
+          userId: studentUser.id,
+          profileId: studentProfile.id,
+          profileType: studentProfile.profileType,
+          phone: studentUser.getPhone(),
+          email: null,
+          locale: this.extractLocale(studentUser),
+        });
+        break;
+      case 'PARENTS':
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForStudents([
+            intent.studentUserProfileId,
+          ])),
+        );
+        break;
+    }
+
+    return { templateVariables, recipients };
+  }
+}
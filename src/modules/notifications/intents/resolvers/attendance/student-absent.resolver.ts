@@ -9,11 +9,12 @@ import { UserService } from '@/modules/user/services/user.service';
 import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
 import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for STUDENT_ABSENT notification
  *
- * TARGET = student. PARENTS = stub (TODO: parent–student resolution).
+ * TARGET = student. PARENTS = parents linked to the student.
  */
 @Injectable()
 export class StudentAbsentResolver
@@ -27,6 +28,7 @@ export class StudentAbsentResolver
     private readonly userProfileService: UserProfileService,
     private readonly groupsRepository: GroupsRepository,
     private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -95,7 +97,11 @@ export class StudentAbsentResolver
         });
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent–student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForStudents([
+            intent.studentUserProfileId,
+          ])),
+        );
         break;
     }
 
@@ -12,6 +12,7 @@ import { CentersRepository } from '@/modules/centers/repositories/centers.reposi
 import { ClassStaffRepository } from '@/modules/classes/repositories/class-staff.repository';
 import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
 import { GroupStudentsRepository } from '@/modules/classes/repositories/group-students.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for CLASS_UPDATED notification (INFORMATIONAL)
@@ -33,6 +34,7 @@ export class ClassUpdatedResolver
     private readonly classStaffRepository: ClassStaffRepository,
     private readonly groupsRepository: GroupsRepository,
     private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -75,7 +77,11 @@ export class ClassUpdatedResolver
         await this.addStudentRecipients(recipients, intent.classId);
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForClass(
+            intent.classId,
+          )),
+        );
         break;
     }
 
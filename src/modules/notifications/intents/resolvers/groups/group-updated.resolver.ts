@@ -11,6 +11,7 @@ import { GroupsRepository } from '@/modules/classes/repositories/groups.reposito
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
 import { ClassStaffRepository } from '@/modules/classes/repositories/class-staff.repository';
 import { GroupStudentsRepository } from '@/modules/classes/repositories/group-students.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for GROUP_UPDATED notification
@@ -31,6 +32,7 @@ export class GroupUpdatedResolver
     private readonly centersRepository: CentersRepository,
     private readonly classStaffRepository: ClassStaffRepository,
     private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -74,7 +76,11 @@ export class GroupUpdatedResolver
         await this.addStudentRecipients(recipients, intent.groupId);
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForGroup(
+            intent.groupId,
+          )),
+        );
         break;
     }
 
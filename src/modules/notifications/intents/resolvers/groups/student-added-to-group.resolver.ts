@@ -9,6 +9,7 @@ import { UserService } from '@/modules/user/services/user.service';
 import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
 import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for STUDENT_ADDED_TO_GROUP notification (OPERATIONAL)
@@ -27,6 +28,7 @@ export class StudentAddedToGroupResolver
     private readonly userProfileService: UserProfileService,
     private readonly groupsRepository: GroupsRepository,
     private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -86,7 +88,11 @@ export class StudentAddedToGroupResolver
         });
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForStudents([
+            intent.studentUserProfileId,
+          ])),
+        );
         break;
     }
 
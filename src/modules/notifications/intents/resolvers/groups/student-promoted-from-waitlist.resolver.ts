@@ -0,0 +1,107 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationType } from '../../../enums/notification-type.enum';
+import { NotificationIntentResolver } from '../../interfaces/notification-intent-resolver.interface';
+import { BaseIntentResolver } from '../../base/base-intent-resolver.abstract';
+import { IntentForNotification } from '../../../types/notification-intent.map';
+import { AudienceIdForNotification } from '../../../types/audience-id.types';
+import { RecipientInfo } from '../../../types/recipient-info.interface';
+import { UserService } from '@/modules/user/services/user.service';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
+import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
+
+/**
+ * Resolver for STUDENT_PROMOTED_FROM_WAITLIST notification (OPERATIONAL)
+ *
+ * Seat freed in a full group - student moved off the waitlist and enrolled.
+ * Push + In-App for student and parents
+ */
+@Injectable()
+export class StudentPromotedFromWaitlistResolver
+  extends BaseIntentResolver
+  implements
+    NotificationIntentResolver<NotificationType.STUDENT_PROMOTED_FROM_WAITLIST>
+{
+  private readonly logger: Logger = new Logger(
+    StudentPromotedFromWaitlistResolver.name,
+  );
+
+  constructor(
+    private readonly userService: UserService,
+    private readonly userProfileService: UserProfileService,
+    private readonly groupsRepository: GroupsRepository,
+    private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
+  ) {
+    super();
+  }
+
+  async resolveIntent(
+    intent: IntentForNotification<NotificationType.STUDENT_PROMOTED_FROM_WAITLIST>,
+    audience: AudienceIdForNotification<NotificationType.STUDENT_PROMOTED_FROM_WAITLIST>,
+  ) {
+    const group = await this.groupsRepository.findById(intent.groupId, [
+      'class',
+    ]);
+    if (!group) {
+      throw new Error(
+        `STUDENT_PROMOTED_FROM_WAITLIST: Group not found: ${intent.groupId}`,
+      );
+    }
+
+    const center = await this.centersRepository.findOne(intent.centerId);
+    if (!center) {
+      throw new Error(
+        `STUDENT_PROMOTED_FROM_WAITLIST: Center not found: ${intent.centerId}`,
+      );
+    }
+
+    const studentProfile = await this.userProfileService.findOne(
+      intent.studentUserProfileId,
+    );
+    if (!studentProfile) {
+      throw new Error(
+        `STUDENT_PROMOTED_FROM_WAITLIST: Student profile not found: ${intent.studentUserProfileId}`,
+      );
+    }
+
+    const studentUser = await this.userService.findOne(studentProfile.userId);
+    if (!studentUser) {
+      throw new Error(
+        `STUDENT_PROMOTED_FROM_WAITLIST: Student user not found: ${studentProfile.userId}`,
+      );
+    }
+
+    const templateVariables = {
+      studentName: studentUser.name,
+      groupName: group.name,
+      className: group.class?.name || '',
+      centerName: center.name,
+    };
+
+    const recipients: RecipientInfo[] = [];
+
+    switch (audience) {
+      case 'TARGET':
+        recipients.push({
+          userId: studentUser.id,
+          profileId: studentProfile.id,
+          profileType: studentProfile.profileType,
+          phone: studentUser.getPhone(),
+          email: null,
+          locale: this.extractLocale(studentUser),
+        });
+        break;
+      case 'PARENTS':
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForStudents([
+            intent.studentUserProfileId,
+          ])),
+        );
+        break;
+    }
+
+    return { templateVariables, recipients };
+  }
+}
@@ -8,6 +8,7 @@ import { RecipientInfo } from '../../../types/recipient-info.interface';
 import { UserService } from '@/modules/user/services/user.service';
 import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for STUDENT_REMOVED_FROM_GROUP notification (OPERATIONAL)
@@ -25,6 +26,7 @@ export class StudentRemovedFromGroupResolver
     private readonly userService: UserService,
     private readonly userProfileService: UserProfileService,
     private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -81,7 +83,11 @@ export class StudentRemovedFromGroupResolver
         });
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForStudents([
+            intent.studentUserProfileId,
+          ])),
+        );
         break;
     }
 
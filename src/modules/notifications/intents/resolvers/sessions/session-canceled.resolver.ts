@@ -14,6 +14,7 @@ import { ClassStaffRepository } from '@/modules/classes/repositories/class-staff
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
 import { format } from 'date-fns';
 import { ar } from 'date-fns/locale';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for SESSION_CANCELED notification intent - CRITICAL
@@ -39,6 +40,7 @@ export class SessionCanceledResolver
     private readonly groupStudentsRepository: GroupStudentsRepository,
     private readonly classStaffRepository: ClassStaffRepository,
     private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -96,8 +98,11 @@ export class SessionCanceledResolver
         await this.addStudentRecipients(recipients, intent.groupId);
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
-        // For now, skip parents as the relationship needs to be clarified
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForGroup(
+            intent.groupId,
+          )),
+        );
         break;
       case 'TEACHER':
         await this.addTeacherRecipient(recipients, session.teacherUserProfileId);
@@ -63,7 +63,12 @@ export class SessionConflictDetectedResolver
       );
     }
 
-    const conflictTypeAr = intent.conflictType === 'TEACHER' ? 'المدرس' : 'المجموعة';
+    const conflictTypeLabels: Record<typeof intent.conflictType, string> = {
+      TEACHER: 'المدرس',
+      GROUP: 'المجموعة',
+      ROOM: 'القاعة',
+    };
+    const conflictTypeAr = conflictTypeLabels[intent.conflictType];
 
     const templateVariables = {
       groupName: group.name,
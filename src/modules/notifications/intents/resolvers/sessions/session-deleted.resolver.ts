@@ -12,6 +12,7 @@ import { GroupStudentsRepository } from '@/modules/classes/repositories/group-st
 import { ClassStaffRepository } from '@/modules/classes/repositories/class-staff.repository';
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
 import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for SESSION_DELETED notification intent - CRITICAL
@@ -40,6 +41,7 @@ export class SessionDeletedResolver
     private readonly classStaffRepository: ClassStaffRepository,
     private readonly centersRepository: CentersRepository,
     private readonly classesRepository: ClassesRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -89,7 +91,11 @@ export class SessionDeletedResolver
         await this.addStudentRecipients(recipients, intent.groupId);
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForGroup(
+            intent.groupId,
+          )),
+        );
         break;
       case 'TEACHER':
         if (group.class?.teacherUserProfileId) {
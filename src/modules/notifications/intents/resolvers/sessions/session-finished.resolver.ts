@@ -14,6 +14,7 @@ import { ClassStaffRepository } from '@/modules/classes/repositories/class-staff
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
 import { format } from 'date-fns';
 import { ar } from 'date-fns/locale';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for SESSION_FINISHED notification intent - PARENT-FOCUSED
@@ -40,6 +41,7 @@ export class SessionFinishedResolver
     private readonly groupStudentsRepository: GroupStudentsRepository,
     private readonly classStaffRepository: ClassStaffRepository,
     private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -84,8 +86,11 @@ export class SessionFinishedResolver
         await this.addStudentRecipients(recipients, intent.groupId);
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
-        // This is the most important audience for this notification
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForGroup(
+            intent.groupId,
+          )),
+        );
         break;
       case 'TEACHER':
         await this.addTeacherRecipient(recipients, session.teacherUserProfileId);
@@ -14,6 +14,7 @@ import { ClassStaffRepository } from '@/modules/classes/repositories/class-staff
 import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
 import { format } from 'date-fns';
 import { ar } from 'date-fns/locale';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
 
 /**
  * Resolver for SESSION_UPDATED notification intent - HIGH PRIORITY
@@ -39,6 +40,7 @@ export class SessionUpdatedResolver
     private readonly groupStudentsRepository: GroupStudentsRepository,
     private readonly classStaffRepository: ClassStaffRepository,
     private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
   ) {
     super();
   }
@@ -96,7 +98,11 @@ export class SessionUpdatedResolver
         await this.addStudentRecipients(recipients, intent.groupId);
         break;
       case 'PARENTS':
-        // TODO: Implement parent recipients based on parent-student relationship
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForGroup(
+            intent.groupId,
+          )),
+        );
         break;
       case 'TEACHER':
         await this.addTeacherRecipient(recipients, session.teacherUserProfileId);
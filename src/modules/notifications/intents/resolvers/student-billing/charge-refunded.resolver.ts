@@ -68,7 +68,7 @@ export class ChargeRefundedResolver
     const templateVariables = {
       className: charge.class?.name ?? '',
       centerName: charge.center?.name ?? '',
-      amount: String(charge.amount),
+      amount: intent.amount ?? String(charge.amount),
       chargeType: charge.chargeType,
       actorName,
       refundReason,
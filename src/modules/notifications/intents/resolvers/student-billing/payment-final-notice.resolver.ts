@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationType } from '../../../enums/notification-type.enum';
+import { NotificationIntentResolver } from '../../interfaces/notification-intent-resolver.interface';
+import { BaseIntentResolver } from '../../base/base-intent-resolver.abstract';
+import { IntentForNotification } from '../../../types/notification-intent.map';
+import { AudienceIdForNotification } from '../../../types/audience-id.types';
+import { RecipientInfo } from '../../../types/recipient-info.interface';
+import { UserService } from '@/modules/user/services/user.service';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { ParentRecipientResolverService } from '../../../services/parent-recipient-resolver.service';
+import { StudentChargeRemindersRepository } from '@/modules/student-billing/repositories/student-charge-reminders.repository';
+import { StudentChargeStatus } from '@/modules/student-billing/enums';
+
+/**
+ * Resolver for PAYMENT_FINAL_NOTICE notification
+ *
+ * Dunning FINAL_NOTICE step. TARGET = student. PARENTS = parents linked
+ * to the student. No recipients once the charge is no longer in installments.
+ */
+@Injectable()
+export class PaymentFinalNoticeResolver
+  extends BaseIntentResolver
+  implements NotificationIntentResolver<NotificationType.PAYMENT_FINAL_NOTICE>
+{
+  constructor(
+    private readonly userService: UserService,
+    private readonly userProfileService: UserProfileService,
+    private readonly centersRepository: CentersRepository,
+    private readonly parentRecipientResolver: ParentRecipientResolverService,
+    private readonly remindersRepository: StudentChargeRemindersRepository,
+  ) {
+    super();
+  }
+
+  async resolveIntent(
+    intent: IntentForNotification<NotificationType.PAYMENT_FINAL_NOTICE>,
+    audience: AudienceIdForNotification<NotificationType.PAYMENT_FINAL_NOTICE>,
+  ) {
+    const reminder = await this.remindersRepository.findById(
+      intent.reminderId,
+      ['charge', 'charge.class'],
+    );
+    if (!reminder) {
+      throw new Error(
+        `PAYMENT_FINAL_NOTICE: Reminder not found: ${intent.reminderId}`,
+      );
+    }
+
+    const center = await this.centersRepository.findOne(reminder.centerId);
+    if (!center) {
+      throw new Error(
+        `PAYMENT_FINAL_NOTICE: Center not found: ${reminder.centerId}`,
+      );
+    }
+
+    const studentProfile = await this.userProfileService.findOne(
+      reminder.studentUserProfileId,
+    );
+    if (!studentProfile) {
+      throw new Error(
+        `PAYMENT_FINAL_NOTICE: Student profile not found: ${reminder.studentUserProfileId}`,
+      );
+    }
+
+    const studentUser = await this.userService.findOne(studentProfile.userId);
+    if (!studentUser) {
+      throw new Error(
+        `PAYMENT_FINAL_NOTICE: Student user not found: ${studentProfile.userId}`,
+      );
+    }
+
+    const templateVariables = {
+      studentName: studentUser.name,
+      className: reminder.charge.class?.name ?? '',
+      centerName: center.name,
+      remainingAmount: String(reminder.remainingAmount),
+      totalAmount: String(reminder.charge.amount),
+    };
+
+    const recipients: RecipientInfo[] = [];
+
+    // Paid in full (or refunded) after the notice was queued
+    if (reminder.charge.status !== StudentChargeStatus.INSTALLMENT) {
+      return { templateVariables, recipients };
+    }
+
+    switch (audience) {
+      case 'TARGET':
+        recipients.push({
+          userId: studentUser.id,
+          profileId: studentProfile.id,
+          profileType: studentProfile.profileType,
+          phone: studentUser.getPhone(),
+          email: null,
+          locale: this.extractLocale(studentUser),
+        });
+        break;
+      case 'PARENTS':
+        recipients.push(
+          ...(await this.parentRecipientResolver.resolveForStudents([
+            reminder.studentUserProfileId,
+          ])),
+        );
+        break;
+    }
+
+    return { templateVariables, recipients };
+  }
+}
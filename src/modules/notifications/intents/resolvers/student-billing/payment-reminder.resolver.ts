@@ -0,0 +1,99 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationType } from '../../../enums/notification-type.enum';
+import { NotificationIntentResolver } from '../../interfaces/notification-intent-resolver.interface';
+import { BaseIntentResolver } from '../../base/base-intent-resolver.abstract';
+import { IntentForNotification } from '../../../types/notification-intent.map';
+import { AudienceIdForNotification } from '../../../types/audience-id.types';
+import { RecipientInfo } from '../../../types/recipient-info.interface';
+import { UserService } from '@/modules/user/services/user.service';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { StudentChargeRemindersRepository } from '@/modules/student-billing/repositories/student-charge-reminders.repository';
+import { StudentChargeStatus } from '@/modules/student-billing/enums';
+
+/**
+ * Resolver for PAYMENT_REMINDER notification
+ *
+ * Dunning REMINDER step – TARGET only (student). WhatsApp.
+ * No recipients once the charge is no longer in installments.
+ */
+@Injectable()
+export class PaymentReminderResolver
+  extends BaseIntentResolver
+  implements NotificationIntentResolver<NotificationType.PAYMENT_REMINDER>
+{
+  constructor(
+    private readonly userService: UserService,
+    private readonly userProfileService: UserProfileService,
+    private readonly centersRepository: CentersRepository,
+    private readonly remindersRepository: StudentChargeRemindersRepository,
+  ) {
+    super();
+  }
+
+  async resolveIntent(
+    intent: IntentForNotification<NotificationType.PAYMENT_REMINDER>,
+    audience: AudienceIdForNotification<NotificationType.PAYMENT_REMINDER>,
+  ) {
+    const reminder = await this.remindersRepository.findById(
+      intent.reminderId,
+      ['charge', 'charge.class'],
+    );
+    if (!reminder) {
+      throw new Error(
+        `PAYMENT_REMINDER: Reminder not found: ${intent.reminderId}`,
+      );
+    }
+
+    const center = await this.centersRepository.findOne(reminder.centerId);
+    if (!center) {
+      throw new Error(
+        `PAYMENT_REMINDER: Center not found: ${reminder.centerId}`,
+      );
+    }
+
+    const studentProfile = await this.userProfileService.findOne(
+      reminder.studentUserProfileId,
+    );
+    if (!studentProfile) {
+      throw new Error(
+        `PAYMENT_REMINDER: Student profile not found: ${reminder.studentUserProfileId}`,
+      );
+    }
+
+    const studentUser = await this.userService.findOne(studentProfile.userId);
+    if (!studentUser) {
+      throw new Error(
+        `PAYMENT_REMINDER: Student user not found: ${studentProfile.userId}`,
+      );
+    }
+
+    const templateVariables = {
+      studentName: studentUser.name,
+      className: reminder.charge.class?.name ?? '',
+      centerName: center.name,
+      remainingAmount: String(reminder.remainingAmount),
+      totalAmount: String(reminder.charge.amount),
+    };
+
+    const recipients: RecipientInfo[] = [];
+
+    // Paid in full (or refunded) after the reminder was queued
+    if (reminder.charge.status !== StudentChargeStatus.INSTALLMENT) {
+      return { templateVariables, recipients };
+    }
+
+    if (audience === 'TARGET') {
+      recipients.push({
+        userId: studentUser.id,
+        profileId: studentProfile.id,
+        profileType: studentProfile.profileType,
+        phone: studentUser.getPhone(),
+        email: null,
+        locale: this.extractLocale(studentUser),
+      });
+    }
+
+    return { templateVariables, recipients };
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationType } from '../../../enums/notification-type.enum';
+import { NotificationIntentResolver } from '../../interfaces/notification-intent-resolver.interface';
+import { BaseIntentResolver } from '../../base/base-intent-resolver.abstract';
+import { IntentForNotification } from '../../../types/notification-intent.map';
+import { AudienceIdForNotification } from '../../../types/audience-id.types';
+import { RecipientInfo } from '../../../types/recipient-info.interface';
+import { UserService } from '@/modules/user/services/user.service';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { CentersRepository } from '@/modules/centers/repositories/centers.repository';
+import { SubscriptionAutoRenewalsRepository } from '@/modules/student-billing/repositories/subscription-auto-renewals.repository';
+
+/**
+ * Resolver for SUBSCRIPTION_RENEWAL_FAILED notification
+ *
+ * Wallet auto-renewal failed – TARGET only (student). Push + In-App.
+ */
+@Injectable()
+export class SubscriptionRenewalFailedResolver
+  extends BaseIntentResolver
+  implements
+    NotificationIntentResolver<NotificationType.SUBSCRIPTION_RENEWAL_FAILED>
+{
+  constructor(
+    private readonly userService: UserService,
+    private readonly userProfileService: UserProfileService,
+    private readonly centersRepository: CentersRepository,
+    private readonly renewalsRepository: SubscriptionAutoRenewalsRepository,
+  ) {
+    super();
+  }
+
+  async resolveIntent(
+    intent: IntentForNotification<NotificationType.SUBSCRIPTION_RENEWAL_FAILED>,
+    audience: AudienceIdForNotification<NotificationType.SUBSCRIPTION_RENEWAL_FAILED>,
+  ) {
+    const renewal = await this.renewalsRepository.findById(
+      intent.autoRenewalId,
+      ['class'],
+    );
+    if (!renewal) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWAL_FAILED: Auto-renewal not found: ${intent.autoRenewalId}`,
+      );
+    }
+
+    const center = await this.centersRepository.findOne(renewal.centerId);
+    if (!center) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWAL_FAILED: Center not found: ${renewal.centerId}`,
+      );
+    }
+
+    const studentProfile = await this.userProfileService.findOne(
+      renewal.studentUserProfileId,
+    );
+    if (!studentProfile) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWAL_FAILED: Student profile not found: ${renewal.studentUserProfileId}`,
+      );
+    }
+
+    const studentUser = await this.userService.findOne(studentProfile.userId);
+    if (!studentUser) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWAL_FAILED: Student user not found: ${studentProfile.userId}`,
+      );
+    }
+
+    const templateVariables = {
+      className: renewal.class?.name ?? '',
+      centerName: center.name,
+      period: `${intent.month}/${intent.year}`,
+    };
+
+    const recipients: RecipientInfo[] = [];
+
+    if (audience === 'TARGET') {
+      recipients.push({
+        userId: studentUser.id,
+        profileId: studentProfile.id,
+        profileType: studentProfile.profileType,
+        phone: studentUser.getPhone(),
+        email: null,
+        locale: this.extractLocale(studentUser),
+      });
+    }
+
+    return { templateVariables, recipients };
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationType } from '../../../enums/notification-type.enum';
+import { NotificationIntentResolver } from '../../interfaces/notification-intent-resolver.interface';
+import { BaseIntentResolver } from '../../base/base-intent-resolver.abstract';
+import { IntentForNotification } from '../../../types/notification-intent.map';
+import { AudienceIdForNotification } from '../../../types/audience-id.types';
+import { RecipientInfo } from '../../../types/recipient-info.interface';
+import { UserService } from '@/modules/user/services/user.service';
+import { StudentChargesRepository } from '@/modules/student-billing/repositories/student-charges.repository';
+
+/**
+ * Resolver for SUBSCRIPTION_RENEWED notification
+ *
+ * Monthly subscription auto-renewed – TARGET only (student). In-App.
+ */
+@Injectable()
+export class SubscriptionRenewedResolver
+  extends BaseIntentResolver
+  implements NotificationIntentResolver<NotificationType.SUBSCRIPTION_RENEWED>
+{
+  constructor(
+    private readonly userService: UserService,
+    private readonly chargesRepository: StudentChargesRepository,
+  ) {
+    super();
+  }
+
+  async resolveIntent(
+    intent: IntentForNotification<NotificationType.SUBSCRIPTION_RENEWED>,
+    audience: AudienceIdForNotification<NotificationType.SUBSCRIPTION_RENEWED>,
+  ) {
+    const charge =
+      await this.chargesRepository.findStudentChargeWithFullRelations(
+        intent.chargeId,
+      );
+    if (!charge) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWED: Charge not found: ${intent.chargeId}`,
+      );
+    }
+
+    const studentProfile = charge.student;
+    if (!studentProfile) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWED: Student profile not found for charge: ${intent.chargeId}`,
+      );
+    }
+
+    const studentUser = await this.userService.findOne(studentProfile.userId);
+    if (!studentUser) {
+      throw new Error(
+        `SUBSCRIPTION_RENEWED: Student user not found: ${studentProfile.userId}`,
+      );
+    }
+
+    const templateVariables = {
+      className: charge.class?.name ?? '',
+      centerName: charge.center?.name ?? '',
+      amount: String(charge.amount),
+      period: `${charge.month}/${charge.year}`,
+    };
+
+    const recipients: RecipientInfo[] = [];
+
+    if (audience === 'TARGET') {
+      recipients.push({
+        userId: studentUser.id,
+        profileId: studentProfile.id,
+        profileType: studentProfile.profileType,
+        phone: studentUser.getPhone(),
+        email: null,
+        locale: this.extractLocale(studentUser),
+      });
+    }
+
+    return { templateVariables, recipients };
+  }
+}
@@ -19,7 +19,10 @@ import {
   BranchDeletedEvent,
   BranchRestoredEvent,
 } from '@/modules/centers/events/branch.events';
-import { StudentsMarkedAbsentEvent } from '@/modules/attendance/events/attendance.events';
+import {
+  StudentsMarkedAbsentEvent,
+  AbsenceStreakReachedEvent,
+} from '@/modules/attendance/events/attendance.events';
 import {
   OtpEvent,
   PhoneVerifiedEvent,
@@ -63,6 +66,7 @@ import {
 import {
   StudentAddedToGroupEvent,
   StudentRemovedFromGroupEvent,
+  StudentPromotedFromWaitlistEvent,
 } from '@/modules/classes/events/group-student.events';
 import { StudentBillingEvents } from '@/shared/events/student-billing.events.enum';
 import { TeacherPayoutEvents } from '@/shared/events/teacher-payouts.events.enum';
@@ -70,7 +74,11 @@ import {
   StudentChargeCompletedEvent,
   StudentChargeInstallmentPaidEvent,
   StudentChargeRefundedEvent,
+  SubscriptionRenewedEvent,
+  SubscriptionRenewalFailedEvent,
+  PaymentReminderDueEvent,
 } from '@/modules/student-billing/events/student-billing.events';
+import { DunningReminderLevel } from '@/modules/student-billing/enums/dunning-reminder-level.enum';
 import {
   TeacherPayoutCreatedEvent,
   TeacherPayoutPaidEvent,
@@ -145,6 +153,12 @@ export class NotificationListener implements OnModuleInit {
     this.typeSafeEventEmitter.on(AttendanceEvents.MARKED_ABSENT, (event) => {
       void this.handleStudentsMarkedAbsent(event);
     });
+    this.typeSafeEventEmitter.on(
+      AttendanceEvents.ABSENCE_STREAK_REACHED,
+      (event) => {
+        void this.handleAbsenceStreakReached(event);
+      },
+    );
 
     this.typeSafeEventEmitter.on(AuthEvents.OTP, (event) => {
       void this.handleOtp(event);
@@ -268,6 +282,12 @@ export class NotificationListener implements OnModuleInit {
     this.typeSafeEventEmitter.on(GroupEvents.STUDENT_REMOVED, (event) => {
       void this.handleStudentRemovedFromGroup(event);
     });
+    this.typeSafeEventEmitter.on(
+      GroupEvents.STUDENT_PROMOTED_FROM_WAITLIST,
+      (event) => {
+        void this.handleStudentPromotedFromWaitlist(event);
+      },
+    );
 
     // Student billing events (skip CHARGE_CREATED – avoid double notification when create+pay same flow)
     this.typeSafeEventEmitter.on(
@@ -288,6 +308,24 @@ export class NotificationListener implements OnModuleInit {
         void this.handleChargeRefunded(event);
       },
     );
+    this.typeSafeEventEmitter.on(
+      StudentBillingEvents.SUBSCRIPTION_RENEWED,
+      (event) => {
+        void this.handleSubscriptionRenewed(event);
+      },
+    );
+    this.typeSafeEventEmitter.on(
+      StudentBillingEvents.SUBSCRIPTION_RENEWAL_FAILED,
+      (event) => {
+        void this.handleSubscriptionRenewalFailed(event);
+      },
+    );
+    this.typeSafeEventEmitter.on(
+      StudentBillingEvents.PAYMENT_REMINDER_DUE,
+      (event) => {
+        void this.handlePaymentReminderDue(event);
+      },
+    );
 
     // Teacher payout events (skip PAYOUT_STATUS_UPDATED – use PAYOUT_PAID only)
     this.typeSafeEventEmitter.on(
@@ -408,6 +446,15 @@ export class NotificationListener implements OnModuleInit {
     }
   }
 
+  private async handleAbsenceStreakReached(event: AbsenceStreakReachedEvent) {
+    await this.intentService.enqueue(NotificationType.STUDENT_ABSENCE_STREAK, {
+      studentUserProfileId: event.studentUserProfileId,
+      groupId: event.groupId,
+      centerId: event.centerId,
+      consecutiveAbsences: event.consecutiveAbsences,
+    });
+  }
+
   private async handleOtp(event: OtpEvent) {
     // Emit intent with template variables (otpCode, expiresIn)
     // Resolver will fetch user and resolve recipients
@@ -725,6 +772,20 @@ export class NotificationListener implements OnModuleInit {
     );
   }
 
+  private async handleStudentPromotedFromWaitlist(
+    event: StudentPromotedFromWaitlistEvent,
+  ) {
+    await this.intentService.enqueue(
+      NotificationType.STUDENT_PROMOTED_FROM_WAITLIST,
+      {
+        studentUserProfileId: event.studentUserProfileId,
+        groupId: event.group.id,
+        centerId: event.centerId,
+        actorId: event.actor.userProfileId,
+      },
+    );
+  }
+
   private async handleChargeCompleted(event: StudentChargeCompletedEvent) {
     await this.intentService.enqueue(NotificationType.CHARGE_COMPLETED, {
       chargeId: event.charge.id,
@@ -746,6 +807,38 @@ export class NotificationListener implements OnModuleInit {
       chargeId: event.charge.id,
       actorId: event.actor.userProfileId,
       refundReason: event.refundReason ?? '',
+      amount: String(event.refund.amount),
+    });
+  }
+
+  private async handleSubscriptionRenewed(event: SubscriptionRenewedEvent) {
+    await this.intentService.enqueue(NotificationType.SUBSCRIPTION_RENEWED, {
+      chargeId: event.charge.id,
+    });
+  }
+
+  private async handleSubscriptionRenewalFailed(
+    event: SubscriptionRenewalFailedEvent,
+  ) {
+    await this.intentService.enqueue(
+      NotificationType.SUBSCRIPTION_RENEWAL_FAILED,
+      {
+        autoRenewalId: event.renewal.id,
+        month: event.month,
+        year: event.year,
+        reason: event.reason,
+      },
+    );
+  }
+
+  private async handlePaymentReminderDue(event: PaymentReminderDueEvent) {
+    const type =
+      event.reminder.level === DunningReminderLevel.FINAL_NOTICE
+        ? NotificationType.PAYMENT_FINAL_NOTICE
+        : NotificationType.PAYMENT_REMINDER;
+
+    await this.intentService.enqueue(type, {
+      reminderId: event.reminder.id,
     });
   }
 
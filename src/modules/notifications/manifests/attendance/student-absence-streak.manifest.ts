@@ -0,0 +1,37 @@
+import { NotificationManifest } from '../types/manifest.types';
+import { NotificationType } from '../../enums/notification-type.enum';
+import { NotificationChannel } from '../../enums/notification-channel.enum';
+import { NotificationGroup } from '../../enums/notification-group.enum';
+
+/**
+ * Manifest for STUDENT_ABSENCE_STREAK notification
+ *
+ * Push + In-App for PARENTS and TARGET (student) when consecutive
+ * absences in a group reach the attendance policy threshold.
+ */
+export const studentAbsenceStreakManifest = {
+  type: NotificationType.STUDENT_ABSENCE_STREAK,
+  group: NotificationGroup.MANAGEMENT,
+  priority: 4,
+  requiredVariables: [
+    'studentName',
+    'className',
+    'groupName',
+    'centerName',
+    'consecutiveAbsences',
+  ],
+  audiences: {
+    TARGET: {
+      channels: {
+        [NotificationChannel.PUSH]: {},
+        [NotificationChannel.IN_APP]: {},
+      },
+    },
+    PARENTS: {
+      channels: {
+        [NotificationChannel.PUSH]: {},
+        [NotificationChannel.IN_APP]: {},
+      },
+    },
+  },
+} as const satisfies NotificationManifest;
@@ -0,0 +1,31 @@
+import { NotificationManifest } from '../types/manifest.types';
+import { NotificationType } from '../../enums/notification-type.enum';
+import { NotificationChannel } from '../../enums/notification-channel.enum';
+import { NotificationGroup } from '../../enums/notification-group.enum';
+
+/**
+ * Manifest for STUDENT_PROMOTED_FROM_WAITLIST notification (OPERATIONAL)
+ *
+ * A seat was freed and the student moved off the waitlist into the group.
+ * Push + In-App for student and parents
+ */
+export const studentPromotedFromWaitlistManifest = {
+  type: NotificationType.STUDENT_PROMOTED_FROM_WAITLIST,
+  group: NotificationGroup.MANAGEMENT,
+  priority: 3, // Medium
+  requiredVariables: ['studentName', 'groupName', 'className', 'centerName'],
+  audiences: {
+    TARGET: {
+      channels: {
+        [NotificationChannel.PUSH]: {},
+        [NotificationChannel.IN_APP]: {},
+      },
+    },
+    PARENTS: {
+      channels: {
+        [NotificationChannel.PUSH]: {},
+        [NotificationChannel.IN_APP]: {},
+      },
+    },
+  },
+} as const satisfies NotificationManifest;
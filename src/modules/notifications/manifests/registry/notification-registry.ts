@@ -43,6 +43,7 @@ import { groupUpdatedManifest } from '../groups/group-updated.manifest';
 import { groupDeletedManifest } from '../groups/group-deleted.manifest';
 import { studentAddedToGroupManifest } from '../groups/student-added-to-group.manifest';
 import { studentRemovedFromGroupManifest } from '../groups/student-removed-from-group.manifest';
+import { studentPromotedFromWaitlistManifest } from '../groups/student-promoted-from-waitlist.manifest';
 
 // Branch manifests
 import { branchCreatedManifest } from '../branches/branch-created.manifest';
@@ -52,11 +53,16 @@ import { branchRestoredManifest } from '../branches/branch-restored.manifest';
 
 // Attendance manifests
 import { studentAbsentManifest } from '../attendance/student-absent.manifest';
+import { studentAbsenceStreakManifest } from '../attendance/student-absence-streak.manifest';
 
 // Student billing manifests
 import { chargeCompletedManifest } from '../student-billing/charge-completed.manifest';
 import { chargeInstallmentPaidManifest } from '../student-billing/charge-installment-paid.manifest';
 import { chargeRefundedManifest } from '../student-billing/charge-refunded.manifest';
+import { subscriptionRenewedManifest } from '../student-billing/subscription-renewed.manifest';
+import { subscriptionRenewalFailedManifest } from '../student-billing/subscription-renewal-failed.manifest';
+import { paymentReminderManifest } from '../student-billing/payment-reminder.manifest';
+import { paymentFinalNoticeManifest } from '../student-billing/payment-final-notice.manifest';
 
 // Teacher payout manifests
 import { payoutCreatedManifest } from '../teacher-payout/payout-created.manifest';
@@ -111,6 +117,7 @@ export const NotificationRegistry = {
 
   // Attendance notifications
   [NotificationType.STUDENT_ABSENT]: studentAbsentManifest,
+  [NotificationType.STUDENT_ABSENCE_STREAK]: studentAbsenceStreakManifest,
 
   // Access Control notifications
   [NotificationType.CENTER_ACCESS_ACTIVATED]: centerAccessActivatedManifest,
@@ -143,11 +150,18 @@ export const NotificationRegistry = {
   [NotificationType.GROUP_DELETED]: groupDeletedManifest,
   [NotificationType.STUDENT_ADDED_TO_GROUP]: studentAddedToGroupManifest,
   [NotificationType.STUDENT_REMOVED_FROM_GROUP]: studentRemovedFromGroupManifest,
+  [NotificationType.STUDENT_PROMOTED_FROM_WAITLIST]:
+    studentPromotedFromWaitlistManifest,
 
   // Student billing notifications
   [NotificationType.CHARGE_COMPLETED]: chargeCompletedManifest,
   [NotificationType.CHARGE_INSTALLMENT_PAID]: chargeInstallmentPaidManifest,
   [NotificationType.CHARGE_REFUNDED]: chargeRefundedManifest,
+  [NotificationType.SUBSCRIPTION_RENEWED]: subscriptionRenewedManifest,
+  [NotificationType.SUBSCRIPTION_RENEWAL_FAILED]:
+    subscriptionRenewalFailedManifest,
+  [NotificationType.PAYMENT_REMINDER]: paymentReminderManifest,
+  [NotificationType.PAYMENT_FINAL_NOTICE]: paymentFinalNoticeManifest,
 
   // Teacher payout notifications
   [NotificationType.PAYOUT_CREATED]: payoutCreatedManifest,
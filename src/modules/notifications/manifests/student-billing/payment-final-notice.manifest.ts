@@ -0,0 +1,45 @@
+import { NotificationManifest } from '../types/manifest.types';
+import { NotificationType } from '../../enums/notification-type.enum';
+import { NotificationChannel } from '../../enums/notification-channel.enum';
+import { NotificationGroup } from '../../enums/notification-group.enum';
+
+/**
+ * Manifest for PAYMENT_FINAL_NOTICE notification
+ *
+ * Dunning schedule FINAL_NOTICE step for a partly paid class charge.
+ * TARGET (student) and PARENTS. WhatsApp + SMS.
+ */
+export const paymentFinalNoticeManifest = {
+  type: NotificationType.PAYMENT_FINAL_NOTICE,
+  group: NotificationGroup.MANAGEMENT,
+  priority: 4,
+  requiredVariables: [
+    'studentName',
+    'className',
+    'centerName',
+    'remainingAmount',
+    'totalAmount',
+  ],
+  audiences: {
+    TARGET: {
+      channels: {
+        [NotificationChannel.WHATSAPP]: {
+          template: 'payment_final_notice',
+        },
+        [NotificationChannel.SMS]: {
+          template: 'sms/student-billing/payment-final-notice',
+        },
+      },
+    },
+    PARENTS: {
+      channels: {
+        [NotificationChannel.WHATSAPP]: {
+          template: 'payment_final_notice_parent',
+        },
+        [NotificationChannel.SMS]: {
+          template: 'sms/student-billing/payment-final-notice-parent',
+        },
+      },
+    },
+  },
+} as const satisfies NotificationManifest;
@@ -0,0 +1,32 @@
+import { NotificationManifest } from '../types/manifest.types';
+import { NotificationType } from '../../enums/notification-type.enum';
+import { NotificationChannel } from '../../enums/notification-channel.enum';
+import { NotificationGroup } from '../../enums/notification-group.enum';
+
+/**
+ * Manifest for PAYMENT_REMINDER notification
+ *
+ * Dunning schedule REMINDER step for a partly paid class charge.
+ * TARGET only (student). WhatsApp.
+ */
+export const paymentReminderManifest = {
+  type: NotificationType.PAYMENT_REMINDER,
+  group: NotificationGroup.MANAGEMENT,
+  priority: 3,
+  requiredVariables: [
+    'studentName',
+    'className',
+    'centerName',
+    'remainingAmount',
+    'totalAmount',
+  ],
+  audiences: {
+    TARGET: {
+      channels: {
+        [NotificationChannel.WHATSAPP]: {
+          template: 'payment_reminder',
+        },
+      },
+    },
+  },
+} as const satisfies NotificationManifest;
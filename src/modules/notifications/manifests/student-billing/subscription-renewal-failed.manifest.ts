@@ -0,0 +1,25 @@
+import { NotificationManifest } from '../types/manifest.types';
+import { NotificationType } from '../../enums/notification-type.enum';
+import { NotificationChannel } from '../../enums/notification-channel.enum';
+import { NotificationGroup } from '../../enums/notification-group.enum';
+
+/**
+ * Manifest for SUBSCRIPTION_RENEWAL_FAILED notification
+ *
+ * Wallet auto-renewal failed – student must top up before the month starts
+ * or attendance gets blocked. TARGET only (student). Push + In-App.
+ */
+export const subscriptionRenewalFailedManifest = {
+  type: NotificationType.SUBSCRIPTION_RENEWAL_FAILED,
+  group: NotificationGroup.MANAGEMENT,
+  priority: 4,
+  requiredVariables: ['className', 'centerName', 'period'],
+  audiences: {
+    TARGET: {
+      channels: {
+        [NotificationChannel.PUSH]: {},
+        [NotificationChannel.IN_APP]: {},
+      },
+    },
+  },
+} as const satisfies NotificationManifest;
@@ -0,0 +1,24 @@
+import { NotificationManifest } from '../types/manifest.types';
+import { NotificationType } from '../../enums/notification-type.enum';
+import { NotificationChannel } from '../../enums/notification-channel.enum';
+import { NotificationGroup } from '../../enums/notification-group.enum';
+
+/**
+ * Manifest for SUBSCRIPTION_RENEWED notification
+ *
+ * Monthly subscription auto-renewed from the wallet. TARGET only (student).
+ * In-App only – CHARGE_COMPLETED already pushes for the same charge.
+ */
+export const subscriptionRenewedManifest = {
+  type: NotificationType.SUBSCRIPTION_RENEWED,
+  group: NotificationGroup.MANAGEMENT,
+  priority: 3,
+  requiredVariables: ['className', 'centerName', 'amount', 'period'],
+  audiences: {
+    TARGET: {
+      channels: {
+        [NotificationChannel.IN_APP]: {},
+      },
+    },
+  },
+} as const satisfies NotificationManifest;
@@ -73,6 +73,7 @@ import { BranchUpdatedResolver } from './intents/resolvers/branches/branch-updat
 import { BranchDeletedResolver } from './intents/resolvers/branches/branch-deleted.resolver';
 import { BranchRestoredResolver } from './intents/resolvers/branches/branch-restored.resolver';
 import { StudentAbsentResolver } from './intents/resolvers/attendance/student-absent.resolver';
+import { StudentAbsenceStreakResolver } from './intents/resolvers/attendance/student-absence-streak.resolver';
 import { NewDeviceLoginResolver } from './intents/resolvers/new-device-login.resolver';
 import { PasswordChangedResolver } from './intents/resolvers/password-changed.resolver';
 import { LoginFailedResolver } from './intents/resolvers/login-failed.resolver';
@@ -84,6 +85,7 @@ import { CenterAccessRevokedResolver } from './intents/resolvers/access-control/
 import { RoleAssignedResolver } from './intents/resolvers/access-control/role-assigned.resolver';
 import { RoleRevokedResolver } from './intents/resolvers/access-control/role-revoked.resolver';
 import { NotificationIntentResolverRegistryService } from './intents/notification-intent-resolver-registry.service';
+import { ParentRecipientResolverService } from './services/parent-recipient-resolver.service';
 import { NotificationIntentService } from './services/notification-intent.service';
 import { ProfileRole } from '@/modules/access-control/entities/profile-role.entity';
 import { Role } from '@/modules/access-control/entities/role.entity';
@@ -112,11 +114,16 @@ import { GroupUpdatedResolver } from './intents/resolvers/groups/group-updated.r
 import { GroupDeletedResolver } from './intents/resolvers/groups/group-deleted.resolver';
 import { StudentAddedToGroupResolver } from './intents/resolvers/groups/student-added-to-group.resolver';
 import { StudentRemovedFromGroupResolver } from './intents/resolvers/groups/student-removed-from-group.resolver';
+import { StudentPromotedFromWaitlistResolver } from './intents/resolvers/groups/student-promoted-from-waitlist.resolver';
 
 // Student billing resolvers
 import { ChargeCompletedResolver } from './intents/resolvers/student-billing/charge-completed.resolver';
 import { ChargeInstallmentPaidResolver } from './intents/resolvers/student-billing/charge-installment-paid.resolver';
 import { ChargeRefundedResolver } from './intents/resolvers/student-billing/charge-refunded.resolver';
+import { SubscriptionRenewedResolver } from './intents/resolvers/student-billing/subscription-renewed.resolver';
+import { SubscriptionRenewalFailedResolver } from './intents/resolvers/student-billing/subscription-renewal-failed.resolver';
+import { PaymentReminderResolver } from './intents/resolvers/student-billing/payment-reminder.resolver';
+import { PaymentFinalNoticeResolver } from './intents/resolvers/student-billing/payment-final-notice.resolver';
 
 // Teacher payout resolvers
 import { PayoutCreatedResolver } from './intents/resolvers/teacher-payout/payout-created.resolver';
@@ -140,6 +147,7 @@ import { ClassesModule } from '@/modules/classes/classes.module';
 import { StudentBillingModule } from '@/modules/student-billing/student-billing.module';
 import { TeacherPayoutModule } from '@/modules/teacher-payouts/teacher-payouts.module';
 import { ExpensesModule } from '@/modules/expenses/expenses.module';
+import { ParentsModule } from '@/modules/parents/parents.module';
 
 @Module({
   imports: [
@@ -157,6 +165,7 @@ import { ExpensesModule } from '@/modules/expenses/expenses.module';
     StudentBillingModule, // Needed for charge resolvers (StudentChargesRepository)
     TeacherPayoutModule, // Needed for payout resolvers (TeacherPayoutRecordsRepository)
     ExpensesModule, // Needed for expense resolvers (ExpenseRepository)
+    ParentsModule, // Needed for parent audiences (ParentStudentLinksRepository)
     JwtModule,
     AuthModule,
     BullModule.registerQueueAsync({
@@ -237,6 +246,7 @@ import { ExpensesModule } from '@/modules/expenses/expenses.module';
     // Intent system
     NotificationIntentService,
     NotificationIntentResolverRegistryService,
+    ParentRecipientResolverService, // Shared PARENTS audience for intent resolvers
     CenterCreatedResolver,
     CenterUpdatedResolver,
     CenterDeletedResolver,
@@ -246,6 +256,7 @@ import { ExpensesModule } from '@/modules/expenses/expenses.module';
     BranchDeletedResolver,
     BranchRestoredResolver,
     StudentAbsentResolver,
+    StudentAbsenceStreakResolver,
     OtpResolver,
     PhoneVerifiedResolver,
     NewDeviceLoginResolver,
@@ -279,10 +290,15 @@ import { ExpensesModule } from '@/modules/expenses/expenses.module';
     GroupDeletedResolver,
     StudentAddedToGroupResolver,
     StudentRemovedFromGroupResolver,
+    StudentPromotedFromWaitlistResolver,
     // Student billing resolvers
     ChargeCompletedResolver,
     ChargeInstallmentPaidResolver,
     ChargeRefundedResolver,
+    SubscriptionRenewedResolver,
+    SubscriptionRenewalFailedResolver,
+    PaymentReminderResolver,
+    PaymentFinalNoticeResolver,
     // Teacher payout resolvers
     PayoutCreatedResolver,
     PayoutPaidResolver,
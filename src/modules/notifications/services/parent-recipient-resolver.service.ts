@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import { UserService } from '@/modules/user/services/user.service';
+import { GroupsRepository } from '@/modules/classes/repositories/groups.repository';
+import { GroupStudentsRepository } from '@/modules/classes/repositories/group-students.repository';
+import { ParentStudentLinksRepository } from '@/modules/parents/repositories/parent-student-links.repository';
+import { RecipientInfo } from '../types/recipient-info.interface';
+
+/**
+ * Resolves the PARENTS audience shared by intent resolvers: the parents
+ * linked to a student, to the students of a group or to the students of
+ * every group of a class.
+ */
+@Injectable()
+export class ParentRecipientResolverService {
+  constructor(
+    private readonly userService: UserService,
+    private readonly groupsRepository: GroupsRepository,
+    private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly parentStudentLinksRepository: ParentStudentLinksRepository,
+  ) {}
+
+  async resolveForStudents(
+    studentUserProfileIds: string[],
+  ): Promise<RecipientInfo[]> {
+    const parentLinks =
+      await this.parentStudentLinksRepository.findParentLinksByStudentIds(
+        studentUserProfileIds,
+      );
+
+    const recipients: RecipientInfo[] = [];
+    for (const link of parentLinks) {
+      const user = await this.userService.findOne(link.parent.userId);
+      if (user) {
+        recipients.push({
+          userId: user.id,
+          profileId: link.parent.id,
+          profileType: link.parent.profileType,
+          phone: user.getPhone(),
+          email: null,
+          locale: user.userInfo?.locale || 'ar',
+        });
+      }
+    }
+    return recipients;
+  }
+
+  async resolveForGroup(groupId: string): Promise<RecipientInfo[]> {
+    const groupStudents =
+      await this.groupStudentsRepository.findByGroupId(groupId);
+    return this.resolveForStudents(
+      groupStudents.map((gs) => gs.studentUserProfileId),
+    );
+  }
+
+  async resolveForClass(classId: string): Promise<RecipientInfo[]> {
+    const studentUserProfileIds: string[] = [];
+    const groups = await this.groupsRepository.findByClassId(classId);
+    for (const group of groups) {
+      const groupStudents = await this.groupStudentsRepository.findByGroupId(
+        group.id,
+      );
+      studentUserProfileIds.push(
+        ...groupStudents.map((gs) => gs.studentUserProfileId),
+      );
+    }
+    return this.resolveForStudents(studentUserProfileIds);
+  }
+}
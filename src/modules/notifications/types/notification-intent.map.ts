@@ -141,7 +141,7 @@ export type NotificationIntentMap = {
     groupId: string;
     scheduleItemId: string;
     centerId: string;
-    conflictType: 'TEACHER' | 'GROUP';
+    conflictType: 'TEACHER' | 'GROUP' | 'ROOM';
     conflictingSessionId: string;
     proposedStartTime: Date;
     proposedEndTime: Date;
@@ -220,6 +220,12 @@ export type NotificationIntentMap = {
     centerId: string;
     actorId: string;
   };
+  [NotificationType.STUDENT_PROMOTED_FROM_WAITLIST]: {
+    studentUserProfileId: string;
+    groupId: string;
+    centerId: string;
+    actorId: string;
+  };
 
   // Attendance notifications
   [NotificationType.STUDENT_ABSENT]: {
@@ -229,6 +235,12 @@ export type NotificationIntentMap = {
     centerId: string;
     actorId: string;
   };
+  [NotificationType.STUDENT_ABSENCE_STREAK]: {
+    studentUserProfileId: string;
+    groupId: string;
+    centerId: string;
+    consecutiveAbsences: number;
+  };
 
   // Student billing notifications
   [NotificationType.CHARGE_COMPLETED]: {
@@ -243,6 +255,22 @@ export type NotificationIntentMap = {
     chargeId: string;
     actorId: string;
     refundReason?: string;
+    amount?: string; // Refunded amount; partial refunds are less than the charge
+  };
+  [NotificationType.SUBSCRIPTION_RENEWED]: {
+    chargeId: string;
+  };
+  [NotificationType.SUBSCRIPTION_RENEWAL_FAILED]: {
+    autoRenewalId: string;
+    month: number;
+    year: number;
+    reason: string;
+  };
+  [NotificationType.PAYMENT_REMINDER]: {
+    reminderId: string;
+  };
+  [NotificationType.PAYMENT_FINAL_NOTICE]: {
+    reminderId: string;
   };
 
   // Teacher payout notifications
@@ -0,0 +1,211 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  MaxFileSizeValidator,
+  ParseFilePipe,
+  SerializeOptions,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiTags, ApiBody, ApiParam, ApiConsumes } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Transactional } from '@nestjs-cls/transactional';
+import {
+  CreateApiResponses,
+  DeleteApiResponses,
+  GetUser,
+  ParentOnly,
+  ReadApiResponses,
+  UpdateApiResponses,
+} from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+import { RateLimit } from '@/modules/rate-limit/decorators/rate-limit.decorator';
+import { ParentService } from '../services/parent.service';
+import { ParentLinkService } from '../services/parent-link.service';
+import { RequestChildLinkOtpDto } from '../dto/request-child-link-otp.dto';
+import { VerifyChildLinkDto } from '../dto/verify-child-link.dto';
+import { ChildIdParamDto } from '../dto/child-id-param.dto';
+import { PaginateChildSessionsDto } from '../dto/paginate-child-sessions.dto';
+import { PaginateChildAttendanceDto } from '../dto/paginate-child-attendance.dto';
+import { CreateAbsenceRequestDto } from '@/modules/attendance/dto/create-absence-request.dto';
+import { PaginateAbsenceRequestsDto } from '@/modules/attendance/dto/paginate-absence-requests.dto';
+import { AbsenceRequestResponseDto } from '@/modules/attendance/dto/absence-request-response.dto';
+import { ABSENCE_REQUEST_ATTACHMENT_MAX_SIZE } from '@/modules/attendance/constants/attendance.constants';
+import { createFileValidationException } from '@/modules/file/exceptions/file.errors';
+
+@ApiTags('Parents')
+@Controller('parents')
+@ParentOnly()
+export class ParentController {
+  constructor(
+    private readonly parentService: ParentService,
+    private readonly parentLinkService: ParentLinkService,
+  ) {}
+
+  @Post('children/request-otp')
+  @RateLimit({ limit: 3, windowSeconds: 60 }) // 3 requests per minute
+  @UpdateApiResponses('Send link OTP to the student phone')
+  @ApiBody({ type: RequestChildLinkOtpDto })
+  async requestChildLinkOtp(
+    @Body() dto: RequestChildLinkOtpDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.parentLinkService.requestChildLinkOtp(dto, actor);
+    return ControllerResponse.success(null);
+  }
+
+  @Post('children/verify')
+  @RateLimit({ limit: 5, windowSeconds: 60 }) // 5 attempts per minute
+  @CreateApiResponses('Verify link OTP and link the student')
+  @ApiBody({ type: VerifyChildLinkDto })
+  @Transactional()
+  async verifyChildLink(
+    @Body() dto: VerifyChildLinkDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.parentLinkService.verifyChildLink(dto, actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Get('children')
+  @ReadApiResponses('Get linked children')
+  async getChildren(@GetUser() actor: ActorUser) {
+    const result = await this.parentService.getChildren(actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Delete('children/:studentUserProfileId')
+  @DeleteApiResponses('Unlink a child')
+  @ApiParam({ name: 'studentUserProfileId', type: String })
+  @Transactional()
+  async unlinkChild(
+    @Param() params: ChildIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.parentLinkService.unlinkChild(
+      params.studentUserProfileId,
+      actor,
+    );
+    return ControllerResponse.success(null);
+  }
+
+  @Get('children/:studentUserProfileId/sessions')
+  @ReadApiResponses("Get child's sessions")
+  @ApiParam({ name: 'studentUserProfileId', type: String })
+  async getChildSessions(
+    @Param() params: ChildIdParamDto,
+    @Query() query: PaginateChildSessionsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.parentService.paginateChildSessions(
+      params.studentUserProfileId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('children/:studentUserProfileId/attendance')
+  @ReadApiResponses("Get child's attendance")
+  @ApiParam({ name: 'studentUserProfileId', type: String })
+  async getChildAttendance(
+    @Param() params: ChildIdParamDto,
+    @Query() query: PaginateChildAttendanceDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.parentService.paginateChildAttendance(
+      params.studentUserProfileId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('children/:studentUserProfileId/balances')
+  @ReadApiResponses("Get child's charge balances")
+  @ApiParam({ name: 'studentUserProfileId', type: String })
+  async getChildBalances(
+    @Param() params: ChildIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.parentService.getChildBalances(
+      params.studentUserProfileId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post('children/:studentUserProfileId/absence-requests')
+  @CreateApiResponses('Request to excuse the child from upcoming sessions')
+  @ApiParam({ name: 'studentUserProfileId', type: String })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['sessionIds', 'reason'],
+      properties: {
+        sessionIds: {
+          type: 'string',
+          description: 'Comma-separated session IDs (UUID or virtual ID)',
+        },
+        reason: { type: 'string' },
+        attachment: {
+          type: 'string',
+          format: 'binary',
+          description: 'Optional supporting document',
+        },
+      },
+    },
+  })
+  @UseInterceptors(FileInterceptor('attachment'))
+  @Transactional()
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async createChildAbsenceRequest(
+    @Param() params: ChildIdParamDto,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({
+            maxSize: ABSENCE_REQUEST_ATTACHMENT_MAX_SIZE,
+          }),
+        ],
+        fileIsRequired: false,
+        exceptionFactory: createFileValidationException,
+      }),
+    )
+    attachment: Express.Multer.File | undefined,
+    @Body() dto: CreateAbsenceRequestDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.parentService.createChildAbsenceRequest(
+      params.studentUserProfileId,
+      dto,
+      attachment,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('children/:studentUserProfileId/absence-requests')
+  @ReadApiResponses("Get child's absence requests")
+  @ApiParam({ name: 'studentUserProfileId', type: String })
+  @SerializeOptions({ type: AbsenceRequestResponseDto })
+  async getChildAbsenceRequests(
+    @Param() params: ChildIdParamDto,
+    @Query() query: PaginateAbsenceRequestsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.parentService.paginateChildAbsenceRequests(
+      params.studentUserProfileId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
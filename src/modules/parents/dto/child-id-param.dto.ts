@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class ChildIdParamDto {
+  @ApiProperty({ description: 'Student user profile ID (UUID)' })
+  @IsUUID()
+  studentUserProfileId: string;
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+import { AttendanceStatus } from '@/modules/attendance/enums/attendance-status.enum';
+
+export class PaginateChildAttendanceDto extends BasePaginationDto {
+  @ApiProperty({
+    description: 'Filter by attendance status',
+    enum: AttendanceStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AttendanceStatus)
+  status?: AttendanceStatus;
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+import { SessionStatus } from '@/modules/sessions/enums/session-status.enum';
+
+export class PaginateChildSessionsDto extends BasePaginationDto {
+  @ApiProperty({
+    description: 'Filter by session status',
+    enum: SessionStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(SessionStatus)
+  status?: SessionStatus;
+}
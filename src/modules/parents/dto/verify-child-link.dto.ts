@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Matches } from 'class-validator';
+
+export class VerifyChildLinkDto {
+  @ApiProperty({
+    description:
+      "Student's phone number that received the OTP (format: Egyptian mobile number)",
+    example: '01234567890',
+  })
+  @IsString()
+  @Matches(/^(01)[0-2,5]\d{8}$/, {
+    message: 'Phone number must be a valid Egyptian mobile number',
+  })
+  phone: string;
+
+  @ApiProperty({
+    description: 'OTP code received by the student via SMS',
+    example: '123456',
+  })
+  @IsString()
+  @Matches(/^\d{6}$/, {
+    message: 'OTP code must be exactly 6 digits',
+  })
+  code: string;
+}
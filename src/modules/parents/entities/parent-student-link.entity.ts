@@ -0,0 +1,26 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+
+@Entity('parent_student_links')
+@Index(['parentUserProfileId', 'studentUserProfileId'], { unique: true })
+@Index(['studentUserProfileId'])
+export class ParentStudentLink extends BaseEntity {
+  @Column({ type: 'uuid' })
+  parentUserProfileId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  // Set when the student confirmed the link with the OTP sent to their phone
+  @Column({ type: 'timestamptz' })
+  verifiedAt: Date;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parentUserProfileId' })
+  parent: UserProfile;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student: UserProfile;
+}
@@ -0,0 +1,5 @@
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Entity } from 'typeorm';
+
+@Entity('parents')
+export class Parent extends BaseEntity {}
@@ -0,0 +1,10 @@
+/**
+ * Parent-related error codes (PAR_xxx)
+ * Range: PAR_001 - PAR_049
+ */
+export enum ParentErrorCode {
+  CHILD_NOT_FOUND = 'PAR_001',
+  CHILD_ALREADY_LINKED = 'PAR_002',
+  CHILD_NOT_LINKED = 'PAR_003',
+  CANNOT_LINK_SELF = 'PAR_004',
+}
@@ -0,0 +1,26 @@
+import {
+  DomainException,
+  BaseErrorHelpers,
+} from '@/shared/common/exceptions/domain.exception';
+import { ParentErrorCode } from '../enums/parents.codes';
+
+/**
+ * Parent module error helpers
+ */
+export class ParentsErrors extends BaseErrorHelpers {
+  static childNotFound(): DomainException {
+    return this.createNoDetails(ParentErrorCode.CHILD_NOT_FOUND);
+  }
+
+  static childAlreadyLinked(): DomainException {
+    return this.createNoDetails(ParentErrorCode.CHILD_ALREADY_LINKED);
+  }
+
+  static childNotLinked(): DomainException {
+    return this.createNoDetails(ParentErrorCode.CHILD_NOT_LINKED, 403);
+  }
+
+  static cannotLinkSelf(): DomainException {
+    return this.createNoDetails(ParentErrorCode.CANNOT_LINK_SELF);
+  }
+}
@@ -0,0 +1,38 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Parent } from './entities/parent.entity';
+import { ParentStudentLink } from './entities/parent-student-link.entity';
+import { UserModule } from '@/modules/user/user.module';
+import { AuthModule } from '@/modules/auth/auth.module';
+import { SessionsModule } from '@/modules/sessions/sessions.module';
+import { AttendanceModule } from '@/modules/attendance/attendance.module';
+import { StudentBillingModule } from '@/modules/student-billing/student-billing.module';
+import { SharedModule } from '@/shared/shared.module';
+import { ParentController } from './controllers/parent.controller';
+import { ParentService } from './services/parent.service';
+import { ParentLinkService } from './services/parent-link.service';
+import { ParentRepository } from './repositories/parent.repository';
+import { ParentStudentLinksRepository } from './repositories/parent-student-links.repository';
+import { UserProfileModule } from '../user-profile/user-profile.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Parent, ParentStudentLink]),
+    forwardRef(() => UserModule),
+    forwardRef(() => AuthModule),
+    forwardRef(() => SessionsModule),
+    forwardRef(() => AttendanceModule),
+    forwardRef(() => StudentBillingModule),
+    UserProfileModule,
+    SharedModule,
+  ],
+  controllers: [ParentController],
+  providers: [
+    ParentService,
+    ParentLinkService,
+    ParentRepository,
+    ParentStudentLinksRepository,
+  ],
+  exports: [ParentService, ParentRepository, ParentStudentLinksRepository],
+})
+export class ParentsModule {}
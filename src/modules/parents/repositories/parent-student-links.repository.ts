@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import { In } from 'typeorm';
+import { ParentStudentLink } from '../entities/parent-student-link.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+
+@Injectable()
+export class ParentStudentLinksRepository extends BaseRepository<ParentStudentLink> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof ParentStudentLink {
+    return ParentStudentLink;
+  }
+
+  async findLink(
+    parentUserProfileId: string,
+    studentUserProfileId: string,
+  ): Promise<ParentStudentLink | null> {
+    return this.getRepository().findOne({
+      where: { parentUserProfileId, studentUserProfileId },
+    });
+  }
+
+  /**
+   * Find all children linked to a parent, with the student's name and code
+   * @param parentUserProfileId - Parent user profile ID
+   * @returns Links with selective student fields
+   */
+  async findChildrenForParent(
+    parentUserProfileId: string,
+  ): Promise<ParentStudentLink[]> {
+    return this.getRepository()
+      .createQueryBuilder('link')
+      .leftJoin('link.student', 'student')
+      .leftJoin('student.user', 'studentUser')
+      .addSelect([
+        'student.id',
+        'student.code',
+        'student.isActive',
+        'studentUser.id',
+        'studentUser.name',
+      ])
+      .where('link.parentUserProfileId = :parentUserProfileId', {
+        parentUserProfileId,
+      })
+      .andWhere('student.id IS NOT NULL')
+      .orderBy('link.createdAt', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Find links for a set of students with the parent profile loaded.
+   * Used by notification resolvers to fan out to linked parents.
+   * Inactive or deleted parent profiles are excluded.
+   * @param studentUserProfileIds - Student user profile IDs
+   * @returns Links with the parent relation loaded
+   */
+  async findParentLinksByStudentIds(
+    studentUserProfileIds: string[],
+  ): Promise<ParentStudentLink[]> {
+    if (studentUserProfileIds.length === 0) {
+      return [];
+    }
+
+    return this.getRepository().find({
+      where: {
+        studentUserProfileId: In(studentUserProfileIds),
+        parent: { isActive: true },
+      },
+      relations: ['parent'],
+    });
+  }
+}
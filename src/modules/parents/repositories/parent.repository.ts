@@ -0,0 +1,18 @@
+import { Injectable } from '@nestjs/common';
+import { Parent } from '../entities/parent.entity';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+
+@Injectable()
+export class ParentRepository extends BaseRepository<Parent> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof Parent {
+    return Parent;
+  }
+}
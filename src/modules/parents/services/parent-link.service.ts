@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { User } from '@/modules/user/entities/user.entity';
+import { UserService } from '@/modules/user/services/user.service';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { UserProfileService } from '@/modules/user-profile/services/user-profile.service';
+import { VerificationService } from '@/modules/auth/services/verification.service';
+import { VerificationType } from '@/modules/auth/enums/verification-type.enum';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+import { Config } from '@/shared/config/config';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { AuthEvents } from '@/shared/events/auth.events.enum';
+import { OtpEvent } from '@/modules/auth/events/auth.events';
+import { ParentStudentLinksRepository } from '../repositories/parent-student-links.repository';
+import { ParentStudentLink } from '../entities/parent-student-link.entity';
+import { ParentsErrors } from '../exceptions/parents.errors';
+import { RequestChildLinkOtpDto } from '../dto/request-child-link-otp.dto';
+import { VerifyChildLinkDto } from '../dto/verify-child-link.dto';
+
+@Injectable()
+export class ParentLinkService extends BaseService {
+  constructor(
+    private readonly userService: UserService,
+    private readonly userProfileService: UserProfileService,
+    private readonly verificationService: VerificationService,
+    private readonly parentStudentLinksRepository: ParentStudentLinksRepository,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  /**
+   * Send an OTP to the student's phone to confirm a parent link request
+   * @param dto Student phone number
+   * @param actor Parent requesting the link
+   * @throws DomainException if the student is not found or is already linked
+   */
+  async requestChildLinkOtp(
+    dto: RequestChildLinkOtpDto,
+    actor: ActorUser,
+  ): Promise<void> {
+    const { user } = await this.resolveLinkableStudent(dto.phone, actor);
+
+    const verificationToken =
+      await this.verificationService.getOrCreateVerificationToken({
+        userId: user.id,
+        type: VerificationType.PARENT_LINK_OTP,
+      });
+
+    const expiresInMinutes = Config.auth.phoneVerificationExpiresMinutes;
+
+    // OTP goes to the student, not the parent - the student confirms the link
+    if (verificationToken.code) {
+      await this.typeSafeEventEmitter.emitAsync(
+        AuthEvents.OTP,
+        new OtpEvent(user.id, verificationToken.code, expiresInMinutes),
+      );
+    }
+  }
+
+  /**
+   * Verify the OTP received by the student and create the parent-student link
+   * @param dto Student phone number and OTP code
+   * @param actor Parent requesting the link
+   * @returns The created link
+   */
+  async verifyChildLink(
+    dto: VerifyChildLinkDto,
+    actor: ActorUser,
+  ): Promise<ParentStudentLink> {
+    const { user, studentProfile } = await this.resolveLinkableStudent(
+      dto.phone,
+      actor,
+    );
+
+    await this.verificationService.verifyCode(
+      dto.code,
+      VerificationType.PARENT_LINK_OTP,
+      user.id,
+    );
+
+    return this.parentStudentLinksRepository.create({
+      parentUserProfileId: actor.userProfileId,
+      studentUserProfileId: studentProfile.id,
+      verifiedAt: new Date(),
+    });
+  }
+
+  /**
+   * Remove a link between the parent and one of their children
+   * @param studentUserProfileId Student user profile ID
+   * @param actor Parent removing the link
+   */
+  async unlinkChild(
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    const link = await this.parentStudentLinksRepository.findLink(
+      actor.userProfileId,
+      studentUserProfileId,
+    );
+    if (!link) {
+      throw ParentsErrors.childNotLinked();
+    }
+
+    await this.parentStudentLinksRepository.remove(link.id);
+  }
+
+  /**
+   * Resolve the student behind a phone number and make sure it can be linked
+   * @private
+   */
+  private async resolveLinkableStudent(
+    phone: string,
+    actor: ActorUser,
+  ): Promise<{ user: User; studentProfile: UserProfile }> {
+    const user = await this.userService.findUserByPhone(phone);
+    if (!user) {
+      throw ParentsErrors.childNotFound();
+    }
+
+    if (user.id === actor.id) {
+      throw ParentsErrors.cannotLinkSelf();
+    }
+
+    const studentProfile = await this.userProfileService.findUserProfileByType(
+      user.id,
+      ProfileType.STUDENT,
+    );
+    if (!studentProfile) {
+      throw ParentsErrors.childNotFound();
+    }
+
+    const existingLink = await this.parentStudentLinksRepository.findLink(
+      actor.userProfileId,
+      studentProfile.id,
+    );
+    if (existingLink) {
+      throw ParentsErrors.childAlreadyLinked();
+    }
+
+    return { user, studentProfile };
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { SessionsRepository } from '@/modules/sessions/repositories/sessions.repository';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { AttendanceRepository } from '@/modules/attendance/repositories/attendance.repository';
+import { Attendance } from '@/modules/attendance/entities/attendance.entity';
+import {
+  StudentBillingQueryService,
+  StudentBillingSummary,
+} from '@/modules/student-billing/services/student-billing-query.service';
+import { ParentStudentLinksRepository } from '../repositories/parent-student-links.repository';
+import { ParentStudentLink } from '../entities/parent-student-link.entity';
+import { ParentsErrors } from '../exceptions/parents.errors';
+import { PaginateChildSessionsDto } from '../dto/paginate-child-sessions.dto';
+import { PaginateChildAttendanceDto } from '../dto/paginate-child-attendance.dto';
+import { AbsenceRequestsService } from '@/modules/attendance/services/absence-requests.service';
+import { AbsenceRequest } from '@/modules/attendance/entities/absence-request.entity';
+import { CreateAbsenceRequestDto } from '@/modules/attendance/dto/create-absence-request.dto';
+import { PaginateAbsenceRequestsDto } from '@/modules/attendance/dto/paginate-absence-requests.dto';
+
+@Injectable()
+export class ParentService extends BaseService {
+  constructor(
+    private readonly parentStudentLinksRepository: ParentStudentLinksRepository,
+    private readonly sessionsRepository: SessionsRepository,
+    private readonly attendanceRepository: AttendanceRepository,
+    private readonly studentBillingQueryService: StudentBillingQueryService,
+    private readonly absenceRequestsService: AbsenceRequestsService,
+  ) {
+    super();
+  }
+
+  /**
+   * Get all children linked to the parent
+   * @param actor Parent
+   * @returns Linked children with basic student info
+   */
+  async getChildren(actor: ActorUser): Promise<ParentStudentLink[]> {
+    return this.parentStudentLinksRepository.findChildrenForParent(
+      actor.userProfileId,
+    );
+  }
+
+  /**
+   * Paginate sessions of the child's active groups (read-only)
+   */
+  async paginateChildSessions(
+    studentUserProfileId: string,
+    paginateDto: PaginateChildSessionsDto,
+    actor: ActorUser,
+  ): Promise<Pagination<Session>> {
+    await this.validateChildLink(studentUserProfileId, actor);
+    return this.sessionsRepository.paginateStudentSessions(
+      studentUserProfileId,
+      paginateDto,
+    );
+  }
+
+  /**
+   * Paginate attendance records of the child (read-only)
+   */
+  async paginateChildAttendance(
+    studentUserProfileId: string,
+    paginateDto: PaginateChildAttendanceDto,
+    actor: ActorUser,
+  ): Promise<Pagination<Attendance>> {
+    await this.validateChildLink(studentUserProfileId, actor);
+    return this.attendanceRepository.paginateStudentAttendance(
+      studentUserProfileId,
+      paginateDto,
+    );
+  }
+
+  /**
+   * Get the child's charge balances across all centers (read-only)
+   */
+  async getChildBalances(
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<StudentBillingSummary> {
+    await this.validateChildLink(studentUserProfileId, actor);
+    return this.studentBillingQueryService.getStudentBillingSummary(
+      studentUserProfileId,
+      actor,
+    );
+  }
+
+  /**
+   * Submit an absence request for the child's upcoming sessions
+   */
+  async createChildAbsenceRequest(
+    studentUserProfileId: string,
+    dto: CreateAbsenceRequestDto,
+    attachment: Express.Multer.File | undefined,
+    actor: ActorUser,
+  ): Promise<AbsenceRequest> {
+    await this.validateChildLink(studentUserProfileId, actor);
+    return this.absenceRequestsService.createAbsenceRequest(
+      studentUserProfileId,
+      dto,
+      attachment,
+      actor,
+    );
+  }
+
+  /**
+   * Paginate the child's absence requests (read-only)
+   */
+  async paginateChildAbsenceRequests(
+    studentUserProfileId: string,
+    paginateDto: PaginateAbsenceRequestsDto,
+    actor: ActorUser,
+  ): Promise<Pagination<AbsenceRequest>> {
+    await this.validateChildLink(studentUserProfileId, actor);
+    return this.absenceRequestsService.paginateStudentAbsenceRequests(
+      studentUserProfileId,
+      paginateDto,
+      `/parents/children/${studentUserProfileId}/absence-requests`,
+    );
+  }
+
+  /**
+   * Ensure the student is linked to the requesting parent
+   * @private
+   */
+  private async validateChildLink(
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    const link = await this.parentStudentLinksRepository.findLink(
+      actor.userProfileId,
+      studentUserProfileId,
+    );
+    if (!link) {
+      throw ParentsErrors.childNotLinked();
+    }
+  }
+}
@@ -14,6 +14,8 @@ import { Transactional } from '@nestjs-cls/transactional';
 import { SessionsService } from '../services/sessions.service';
 import { CreateSessionDto } from '../dto/create-session.dto';
 import { UpdateSessionDto } from '../dto/update-session.dto';
+import { CreateMakeupSessionDto } from '../dto/create-makeup-session.dto';
+import { AssignSubstituteTeacherDto } from '../dto/assign-substitute-teacher.dto';
 import { CalendarSessionsDto } from '../dto/calendar-sessions.dto';
 import { PaginateSessionsDto } from '../dto/paginate-sessions.dto';
 import { SessionIdParamDto } from '../dto/session-id-param.dto';
@@ -28,6 +30,7 @@ import { ControllerResponse } from '@/shared/common/dto/controller-response.dto'
 import { SerializeOptions } from '@nestjs/common';
 import { SessionResponseDto } from '../dto/session-response.dto';
 import { NoContext } from '@/shared/common/decorators/no-context';
+import { RoomIdParamDto } from '@/modules/centers/dto/room-id-param.dto';
 
 @ApiTags('Sessions')
 @Controller('sessions')
@@ -108,6 +111,39 @@ export class SessionsController {
     return ControllerResponse.success(result);
   }
 
+  @Get('calendar/rooms/:roomId')
+  @ApiOperation({
+    summary: 'Get sessions booked in a room for calendar view',
+    description:
+      'Returns real and scheduled sessions held in the room, in the same format as the sessions calendar. Date range is required and must not exceed 45 days.',
+  })
+  @ApiParam({ name: 'roomId', description: 'Room ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Room calendar sessions retrieved successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid date range or filters',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Room not found',
+  })
+  // @Permissions(PERMISSIONS.SESSIONS.READ)
+  async getRoomCalendarSessions(
+    @Param() params: RoomIdParamDto,
+    @Query() calendarDto: CalendarSessionsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.sessionsService.getRoomCalendarSessions(
+      params.roomId,
+      calendarDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Get(':sessionId')
   @ApiOperation({
     summary: 'Get a specific session (real or virtual)',
@@ -179,6 +215,85 @@ export class SessionsController {
     return ControllerResponse.success(result);
   }
 
+  @Post(':sessionId/makeup')
+  @ApiOperation({ summary: 'Create a makeup session for a canceled session' })
+  @ApiParam({ name: 'sessionId', description: 'Canceled session ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Makeup session created successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Session is not canceled, already has a makeup, or scheduling conflict',
+  })
+  @Permissions(PERMISSIONS.SESSIONS.CREATE)
+  @Transactional()
+  @SerializeOptions({ type: SessionResponseDto })
+  async createMakeupSession(
+    @Param() params: SessionIdParamDto,
+    @Body() dto: CreateMakeupSessionDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.sessionsService.createMakeupSession(
+      params.sessionId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Put(':sessionId/substitute')
+  @ApiOperation({ summary: 'Assign a substitute teacher to a session' })
+  @ApiParam({
+    name: 'sessionId',
+    description:
+      'Session ID - either a real session UUID or a virtual session ID (virtual sessions are materialized)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Substitute teacher assigned successfully',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid session status or substitute schedule conflict',
+  })
+  @Permissions(PERMISSIONS.SESSIONS.UPDATE)
+  @Transactional()
+  @SerializeOptions({ type: SessionResponseDto })
+  async assignSubstituteTeacher(
+    @Param() params: SessionIdParamDto,
+    @Body() dto: AssignSubstituteTeacherDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.sessionsService.assignSubstituteTeacher(
+      params.sessionId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':sessionId/substitute')
+  @ApiOperation({ summary: 'Remove the substitute teacher from a session' })
+  @ApiResponse({
+    status: 200,
+    description: 'Substitute teacher removed successfully',
+  })
+  @Permissions(PERMISSIONS.SESSIONS.UPDATE)
+  @Transactional()
+  @SerializeOptions({ type: SessionResponseDto })
+  async removeSubstituteTeacher(
+    @Param() params: SessionIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.sessionsService.removeSubstituteTeacher(
+      params.sessionId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Patch(':sessionId/status')
   @ApiOperation({
     summary: 'Transition session status with business logic',
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { IsUserProfile } from '@/shared/common/decorators';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+
+export class AssignSubstituteTeacherDto {
+  @ApiProperty({
+    description: 'Teacher user profile ID taking this session',
+    example: 'uuid',
+  })
+  @IsUUID(4)
+  @IsUserProfile(ProfileType.TEACHER)
+  substituteTeacherUserProfileId: string;
+}
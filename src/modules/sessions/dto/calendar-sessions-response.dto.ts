@@ -36,6 +36,14 @@ export class CalendarSessionItem {
   @ApiProperty({ description: 'Group ID', example: 'uuid' })
   groupId: string;
 
+  @ApiProperty({
+    description: 'Room ID (null when no room is assigned)',
+    example: 'uuid',
+    required: false,
+    nullable: true,
+  })
+  roomId?: string | null;
+
   @ApiProperty({
     description: 'Whether this is an extra session',
     example: false,
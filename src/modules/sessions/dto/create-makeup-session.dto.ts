@@ -0,0 +1,6 @@
+import { OmitType } from '@nestjs/swagger';
+import { CreateSessionDto } from './create-session.dto';
+
+export class CreateMakeupSessionDto extends OmitType(CreateSessionDto, [
+  'groupId',
+] as const) {}
@@ -10,6 +10,7 @@ import {
 import { BelongsToBranch } from '@/shared/common/decorators/belongs-to-branch.decorator';
 import { IsoUtcDate } from '@/shared/common/decorators/is-iso-datetime.decorator';
 import { Group } from '@/modules/classes/entities/group.entity';
+import { Room } from '@/modules/centers/entities/room.entity';
 
 export class CreateSessionDto {
   @ApiProperty({
@@ -47,4 +48,15 @@ export class CreateSessionDto {
   @IsInt()
   @Min(1)
   duration: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Room for the session. Must belong to the group branch and be free during the session.',
+    example: 'uuid',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID(4)
+  @BelongsToBranch(Room)
+  roomId?: string | null;
 }
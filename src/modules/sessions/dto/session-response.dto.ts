@@ -11,6 +11,15 @@ export class SessionResponseDto {
   @ApiPropertyOptional({ description: 'Schedule Item ID' })
   scheduleItemId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Substitute teacher profile ID for this session only',
+    nullable: true,
+  })
+  substituteTeacherUserProfileId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Room ID', nullable: true })
+  roomId?: string | null;
+
   @ApiPropertyOptional({ description: 'Session title/topic name' })
   title?: string;
 
@@ -41,6 +50,12 @@ export class SessionResponseDto {
   @ApiProperty({ description: 'Whether this is an extra/manual session' })
   isExtraSession: boolean;
 
+  @ApiPropertyOptional({
+    description: 'Canceled session this makeup session replaces',
+    nullable: true,
+  })
+  makeupForSessionId?: string | null;
+
   @ApiProperty({ description: 'Created at timestamp' })
   createdAt: Date;
 
@@ -5,6 +5,7 @@ import {
   JoinColumn,
   Index,
   OneToMany,
+  OneToOne,
 } from 'typeorm';
 import { BaseEntity } from '@/shared/common/entities/base.entity';
 import { Group } from '@/modules/classes/entities/group.entity';
@@ -16,6 +17,7 @@ import { Center } from '@/modules/centers/entities/center.entity';
 import { Branch } from '@/modules/centers/entities/branch.entity';
 import { StudentCharge } from '@/modules/student-billing/entities/student-charge.entity';
 import { TeacherPayoutRecord } from '@/modules/teacher-payouts/entities/teacher-payout-record.entity';
+import { Room } from '@/modules/centers/entities/room.entity';
 
 @Entity('sessions')
 @Index(['groupId'])
@@ -29,6 +31,12 @@ import { TeacherPayoutRecord } from '@/modules/teacher-payouts/entities/teacher-
 @Index(['centerId', 'classId'])
 @Index(['centerId', 'branchId', 'classId'])
 @Index(['classId'])
+@Index(['roomId', 'startTime'])
+@Index(['substituteTeacherUserProfileId', 'startTime'])
+@Index(['makeupForSessionId'], {
+  unique: true,
+  where: '"makeupForSessionId" IS NOT NULL',
+})
 export class Session extends BaseEntity {
   @Column({ type: 'uuid' })
   groupId: string;
@@ -45,9 +53,15 @@ export class Session extends BaseEntity {
   @Column({ type: 'uuid' })
   teacherUserProfileId: string;
 
+  @Column({ type: 'uuid', nullable: true })
+  substituteTeacherUserProfileId?: string | null; // Teaches (and is paid for) this session instead of the class teacher
+
   @Column({ type: 'uuid', nullable: true })
   scheduleItemId?: string;
 
+  @Column({ type: 'uuid', nullable: true })
+  roomId?: string | null; // Copied from ScheduleItem on materialization, overridable per session
+
   @Column({ type: 'varchar', length: 255, nullable: true })
   title?: string;
 
@@ -73,6 +87,9 @@ export class Session extends BaseEntity {
   @Column({ type: 'boolean', default: false })
   isExtraSession: boolean;
 
+  @Column({ type: 'uuid', nullable: true })
+  makeupForSessionId?: string | null; // Canceled session this (extra) session replaces
+
   // Attendance Statistics (calculated when session finishes)
   @Column({ type: 'integer', default: 0 })
   presentCount: number;
@@ -99,6 +116,10 @@ export class Session extends BaseEntity {
   @JoinColumn({ name: 'teacherUserProfileId' })
   teacher: UserProfile;
 
+  @ManyToOne(() => UserProfile, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'substituteTeacherUserProfileId' })
+  substituteTeacher?: UserProfile;
+
   @ManyToOne(() => Center, (center) => center.sessions)
   @JoinColumn({ name: 'centerId' })
   center: Center;
@@ -111,6 +132,21 @@ export class Session extends BaseEntity {
   @JoinColumn({ name: 'scheduleItemId' })
   scheduleItem: ScheduleItem;
 
+  @ManyToOne(() => Room, (room) => room.sessions, {
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'roomId' })
+  room?: Room;
+
+  @OneToOne(() => Session, (session) => session.makeupSession, {
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'makeupForSessionId' })
+  makeupFor?: Session;
+
+  @OneToOne(() => Session, (session) => session.makeupFor)
+  makeupSession?: Session;
+
   @OneToMany(() => StudentCharge, (studentCharge) => studentCharge.session)
   studentCharges: StudentCharge[];
 
@@ -25,4 +25,10 @@ export enum SessionErrorCode {
   SESSION_INVALID_ID_FORMAT = 'SES_029',
   SESSION_CANNOT_FINISH_WITH_UNMARKED_STUDENTS = 'SES_030',
   SESSION_ID_REQUIRED = 'SES_031',
+  SESSION_ON_CLOSURE_DATE = 'SES_032',
+  SESSION_MAKEUP_REQUIRES_CANCELED = 'SES_033',
+  SESSION_MAKEUP_ALREADY_EXISTS = 'SES_034',
+  SESSION_MAKEUP_CANNOT_DELETE = 'SES_035',
+  SESSION_SUBSTITUTE_SAME_AS_TEACHER = 'SES_036',
+  SESSION_SUBSTITUTE_NOT_ASSIGNED = 'SES_037',
 }
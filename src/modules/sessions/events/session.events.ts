@@ -69,7 +69,7 @@ export class SessionConflictDetectedEvent {
     public readonly scheduleItemId: string,
     public readonly proposedStartTime: Date,
     public readonly proposedEndTime: Date,
-    public readonly conflictType: 'TEACHER' | 'GROUP',
+    public readonly conflictType: 'TEACHER' | 'GROUP' | 'ROOM',
     public readonly conflictingSessionId: string,
     public readonly conflictingSessionStartTime: Date,
     public readonly conflictingSessionEndTime: Date,
@@ -77,3 +77,12 @@ export class SessionConflictDetectedEvent {
     public readonly centerId: string,
   ) {}
 }
+
+export class SessionMakeupCreatedEvent {
+  constructor(
+    public readonly makeupSession: Session,
+    public readonly canceledSession: Session,
+    public readonly actor: ActorUser,
+    public readonly centerId: string,
+  ) {}
+}
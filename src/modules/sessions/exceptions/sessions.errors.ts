@@ -118,4 +118,34 @@ export class SessionsErrors extends BaseErrorHelpers {
   static sessionIdRequired(): DomainException {
     return this.createNoDetails(SessionErrorCode.SESSION_ID_REQUIRED);
   }
+
+  static sessionOnClosureDate(): DomainException {
+    return this.createNoDetails(SessionErrorCode.SESSION_ON_CLOSURE_DATE);
+  }
+
+  static sessionMakeupRequiresCanceled(): DomainException {
+    return this.createNoDetails(
+      SessionErrorCode.SESSION_MAKEUP_REQUIRES_CANCELED,
+    );
+  }
+
+  static sessionMakeupAlreadyExists(): DomainException {
+    return this.createNoDetails(SessionErrorCode.SESSION_MAKEUP_ALREADY_EXISTS);
+  }
+
+  static sessionMakeupCannotDelete(): DomainException {
+    return this.createNoDetails(SessionErrorCode.SESSION_MAKEUP_CANNOT_DELETE);
+  }
+
+  static sessionSubstituteSameAsTeacher(): DomainException {
+    return this.createNoDetails(
+      SessionErrorCode.SESSION_SUBSTITUTE_SAME_AS_TEACHER,
+    );
+  }
+
+  static sessionSubstituteNotAssigned(): DomainException {
+    return this.createNoDetails(
+      SessionErrorCode.SESSION_SUBSTITUTE_NOT_ASSIGNED,
+    );
+  }
 }
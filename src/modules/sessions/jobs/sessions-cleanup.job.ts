@@ -22,6 +22,7 @@ type ScheduleItemForCleanup = {
   centerId: string;
   branchId: string;
   classId: string;
+  roomId: string | null;
   teacherUserProfileId: string;
   day: DayOfWeek;
   startTime: string; // HH:mm
@@ -117,6 +118,7 @@ export class SessionsCleanupJob {
         'si.centerId as "centerId"',
         'si.branchId as "branchId"',
         'si.classId as "classId"',
+        'si.roomId as "roomId"',
         'si.day as "day"',
         'si.startTime as "startTime"',
         'c.duration as "classDuration"',
@@ -180,6 +182,7 @@ export class SessionsCleanupJob {
           classId: si.classId,
           teacherUserProfileId: si.teacherUserProfileId,
           scheduleItemId: si.id,
+          roomId: si.roomId,
           startTime: normalized,
           endTime,
           status: SessionStatus.MISSED,
@@ -0,0 +1,21 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { CenterEvents } from '@/shared/events/center.events.enum';
+import { CenterClosuresCreatedEvent } from '@/modules/centers/events/center.events';
+import { SessionsService } from '../services/sessions.service';
+
+@Injectable()
+export class CenterClosureListener {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  // Runs inside the closure transaction; errors are not suppressed so a
+  // failed cancellation rolls back the closure
+  @OnEvent(CenterEvents.CLOSURES_CREATED, { suppressErrors: false })
+  async handleClosuresCreated(event: CenterClosuresCreatedEvent) {
+    await this.sessionsService.cancelSessionsForClosures(
+      event.closures,
+      event.centerId,
+      event.actor,
+    );
+  }
+}
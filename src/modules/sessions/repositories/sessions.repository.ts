@@ -7,17 +7,22 @@ import { SessionStatus } from '../enums/session-status.enum';
 import { CalendarSessionsDto } from '../dto/calendar-sessions.dto';
 import { PaginateSessionsDto } from '../dto/paginate-sessions.dto';
 import { Pagination } from '@/shared/common/types/pagination.types';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
 import { SessionsErrors } from '../exceptions/sessions.errors';
 import { SESSION_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
 import { StudentPaymentType } from '@/modules/classes/enums/student-payment-type.enum';
+import { Attendance } from '@/modules/attendance/entities/attendance.entity';
+import { StudentCharge } from '@/modules/student-billing/entities/student-charge.entity';
+import { StudentChargeStatus } from '@/modules/student-billing/enums';
 
 /**
  * Raw query result from schedule item lookup queries
  */
 interface ScheduleItemRawResult {
   scheduleItemId: string;
+  roomId?: string | null;
   calculatedStartTime: string | Date;
   calculatedEndTime: string | Date;
   existingSessionId?: string | null;
@@ -156,6 +161,36 @@ export class SessionsRepository extends BaseRepository<Session> {
     return queryBuilder.getMany();
   }
 
+  /**
+   * Find sessions booked in a room that overlap a time range.
+   * Canceled sessions release their room and are ignored.
+   */
+  async findOverlappingSessionsByRoom(
+    roomId: string,
+    startTime: Date,
+    endTime: Date,
+    excludeSessionId?: string,
+  ): Promise<Session[]> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('session')
+      .where('session.roomId = :roomId', { roomId })
+      .andWhere('session.status != :canceled', {
+        canceled: SessionStatus.CANCELED,
+      })
+      .andWhere(
+        '(session.startTime < :endTime AND session.endTime > :startTime)',
+        { startTime, endTime },
+      );
+
+    if (excludeSessionId) {
+      queryBuilder.andWhere('session.id != :excludeSessionId', {
+        excludeSessionId,
+      });
+    }
+
+    return queryBuilder.getMany();
+  }
+
   /**
    * Find a session by ID optimized for API responses.
    * Selects only necessary fields (id, name, etc.) from relations for serialization.
@@ -178,6 +213,9 @@ export class SessionsRepository extends BaseRepository<Session> {
       .leftJoin('session.center', 'center')
       .leftJoin('session.teacher', 'teacher')
       .leftJoin('teacher.user', 'teacherUser')
+      .leftJoin('session.substituteTeacher', 'substituteTeacher')
+      .leftJoin('substituteTeacher.user', 'substituteTeacherUser')
+      .leftJoin('session.room', 'room')
       // Audit relations
       .leftJoin('session.creator', 'creator')
       .leftJoin('creator.user', 'creatorUser')
@@ -196,6 +234,11 @@ export class SessionsRepository extends BaseRepository<Session> {
         'teacher.id',
         'teacherUser.id',
         'teacherUser.name',
+        'substituteTeacher.id',
+        'substituteTeacherUser.id',
+        'substituteTeacherUser.name',
+        'room.id',
+        'room.name',
         // Audit fields
         'creator.id',
         'creatorUser.id',
@@ -302,6 +345,7 @@ export class SessionsRepository extends BaseRepository<Session> {
   async getCalendarSessions(
     dto: CalendarSessionsDto,
     actor: ActorUser,
+    roomId?: string,
   ): Promise<Session[]> {
     const centerId = actor.centerId!;
     const queryBuilder = this.getRepository()
@@ -372,9 +416,9 @@ export class SessionsRepository extends BaseRepository<Session> {
     }
 
     if (dto.teacherUserProfileId) {
-      // Filter by teacher user profile ID (now denormalized on session)
+      // Filter by teacher user profile ID (now denormalized on session), including substituted sessions
       queryBuilder.andWhere(
-        'session.teacherUserProfileId = :teacherUserProfileId',
+        '(session.teacherUserProfileId = :teacherUserProfileId OR session.substituteTeacherUserProfileId = :teacherUserProfileId)',
         {
           teacherUserProfileId: dto.teacherUserProfileId,
         },
@@ -395,6 +439,15 @@ export class SessionsRepository extends BaseRepository<Session> {
         .andWhere('groupStudents.leftAt IS NULL');
     }
 
+    if (roomId) {
+      // Include sessions of the room's schedule slots even if they were moved to another room,
+      // so they override their virtual counterparts when merging
+      queryBuilder.andWhere(
+        '(session.roomId = :roomId OR session.scheduleItemId IN (SELECT id FROM schedule_items WHERE "roomId" = :roomId))',
+        { roomId },
+      );
+    }
+
     if (dto.status !== undefined && dto.status !== null) {
       queryBuilder.andWhere('session.status = :status', {
         status: dto.status,
@@ -496,9 +549,9 @@ export class SessionsRepository extends BaseRepository<Session> {
     }
 
     if (paginateDto.teacherUserProfileId) {
-      // Filter by teacher user profile ID (now denormalized on session)
+      // Filter by teacher user profile ID (now denormalized on session), including substituted sessions
       queryBuilder.andWhere(
-        'session.teacherUserProfileId = :teacherUserProfileId',
+        '(session.teacherUserProfileId = :teacherUserProfileId OR session.substituteTeacherUserProfileId = :teacherUserProfileId)',
         {
           teacherUserProfileId: paginateDto.teacherUserProfileId,
         },
@@ -562,6 +615,62 @@ export class SessionsRepository extends BaseRepository<Session> {
     );
   }
 
+  /**
+   * Paginate sessions of the groups a student is currently enrolled in.
+   * Used by the parent-facing API, so no staff access filtering is applied.
+   *
+   * @param studentUserProfileId - Student user profile ID
+   * @param paginateDto - Pagination parameters with optional status filter
+   * @returns Paginated list of sessions
+   */
+  async paginateStudentSessions(
+    studentUserProfileId: string,
+    paginateDto: BasePaginationDto & { status?: SessionStatus },
+  ): Promise<Pagination<Session>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('session')
+      .leftJoin('session.group', 'group')
+      .leftJoin('session.class', 'class')
+      .leftJoin('session.branch', 'branch')
+      .leftJoin('session.center', 'center')
+      .leftJoin('session.teacher', 'teacher')
+      .leftJoin('teacher.user', 'teacherUser')
+      .addSelect([
+        'group.id',
+        'group.name',
+        'class.id',
+        'class.name',
+        'branch.id',
+        'branch.city',
+        'center.id',
+        'center.name',
+        'teacher.id',
+        'teacherUser.id',
+        'teacherUser.name',
+      ])
+      .innerJoin(
+        'group.groupStudents',
+        'groupStudents',
+        'groupStudents.studentUserProfileId = :studentUserProfileId AND groupStudents.leftAt IS NULL',
+        { studentUserProfileId },
+      )
+      .where('group.id IS NOT NULL')
+      .andWhere('class.id IS NOT NULL');
+
+    if (paginateDto.status !== undefined && paginateDto.status !== null) {
+      queryBuilder.andWhere('session.status = :status', {
+        status: paginateDto.status,
+      });
+    }
+
+    return this.paginate(
+      paginateDto,
+      SESSION_PAGINATION_COLUMNS,
+      `/parents/children/${studentUserProfileId}/sessions`,
+      queryBuilder,
+    );
+  }
+
   async findByGroupId(
     groupId: string,
     options?: {
@@ -591,9 +700,11 @@ export class SessionsRepository extends BaseRepository<Session> {
   ): Promise<Session[]> {
     const queryBuilder = this.getRepository()
       .createQueryBuilder('session')
-      .where('session.teacherUserProfileId = :teacherUserProfileId', {
-        teacherUserProfileId,
-      })
+      // A substituted session belongs to the substitute, not the class teacher
+      .where(
+        '((session.teacherUserProfileId = :teacherUserProfileId AND session.substituteTeacherUserProfileId IS NULL) OR session.substituteTeacherUserProfileId = :teacherUserProfileId)',
+        { teacherUserProfileId },
+      )
       .andWhere(
         '(session.startTime < :endTime AND session.endTime > :startTime)',
         { startTime, endTime },
@@ -615,6 +726,91 @@ export class SessionsRepository extends BaseRepository<Session> {
     return queryBuilder.getMany();
   }
 
+  /**
+   * Find scheduled sessions of a center starting within a time range
+   * Used to cancel sessions falling on a center/branch closure
+   *
+   * @param centerId - Center ID
+   * @param branchId - Branch ID (null = every branch of the center)
+   * @param startTime - Range start (inclusive, UTC)
+   * @param endTime - Range end (exclusive, UTC)
+   */
+  async findScheduledSessionsInRange(
+    centerId: string,
+    branchId: string | null | undefined,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<Session[]> {
+    return this.getRepository()
+      .createQueryBuilder('session')
+      .where('session.centerId = :centerId', { centerId })
+      .andWhere(branchId ? 'session.branchId = :branchId' : '1=1', {
+        branchId,
+      })
+      .andWhere('session.status = :status', {
+        status: SessionStatus.SCHEDULED,
+      })
+      .andWhere('session.startTime >= :startTime', { startTime })
+      .andWhere('session.startTime < :endTime', { endTime })
+      .getMany();
+  }
+
+  /**
+   * Find the makeup session created for a canceled session
+   *
+   * @param sessionId - Canceled session ID
+   */
+  async findMakeupSession(sessionId: string): Promise<Session | null> {
+    return this.getRepository().findOne({
+      where: { makeupForSessionId: sessionId },
+    });
+  }
+
+  /**
+   * Find which of the given sessions already have attendance records
+   *
+   * @param sessionIds - Session IDs to check
+   * @returns Set of session IDs with at least one attendance record
+   */
+  async findSessionIdsWithAttendance(
+    sessionIds: string[],
+  ): Promise<Set<string>> {
+    if (sessionIds.length === 0) {
+      return new Set();
+    }
+
+    const rows = await this.getEntityManager()
+      .createQueryBuilder(Attendance, 'attendance')
+      .select('DISTINCT attendance.sessionId', 'sessionId')
+      .where('attendance.sessionId IN (:...sessionIds)', { sessionIds })
+      .getRawMany<{ sessionId: string }>();
+
+    return new Set(rows.map((row) => row.sessionId));
+  }
+
+  /**
+   * Find which of the given sessions have non-refunded student charges
+   *
+   * @param sessionIds - Session IDs to check
+   * @returns Set of session IDs with at least one active charge
+   */
+  async findSessionIdsWithCharges(sessionIds: string[]): Promise<Set<string>> {
+    if (sessionIds.length === 0) {
+      return new Set();
+    }
+
+    const rows = await this.getEntityManager()
+      .createQueryBuilder(StudentCharge, 'charge')
+      .select('DISTINCT charge.sessionId', 'sessionId')
+      .where('charge.sessionId IN (:...sessionIds)', { sessionIds })
+      .andWhere('charge.status != :refunded', {
+        refunded: StudentChargeStatus.REFUNDED,
+      })
+      .getRawMany<{ sessionId: string }>();
+
+    return new Set(rows.map((row) => row.sessionId));
+  }
+
   /**
    * Find a session by groupId and exact startTime
    * Used for materialization logic to check if a session already exists
@@ -688,6 +884,7 @@ export class SessionsRepository extends BaseRepository<Session> {
     now: Date,
   ): Promise<{
     scheduleItemId: string;
+    roomId?: string | null;
     calculatedStartTime: Date;
     calculatedEndTime: Date;
     existingSessionId?: string;
@@ -703,6 +900,7 @@ export class SessionsRepository extends BaseRepository<Session> {
         SELECT 
           si.id,
           si."groupId",
+          si."roomId",
           si.day,
           -- DST-safe time calculation:
           -- 1. Convert UTC timestamp to center timezone
@@ -742,6 +940,7 @@ export class SessionsRepository extends BaseRepository<Session> {
       )
       SELECT 
         sc.id as "scheduleItemId",
+        sc."roomId",
         sc.calculated_start_time AS "calculatedStartTime",
         sc.calculated_end_time AS "calculatedEndTime",
         s.id as "existingSessionId",
@@ -765,6 +964,7 @@ export class SessionsRepository extends BaseRepository<Session> {
     const row: ScheduleItemRawResult = result[0];
     return {
       scheduleItemId: row.scheduleItemId,
+      roomId: row.roomId ?? null,
       calculatedStartTime: new Date(row.calculatedStartTime),
       calculatedEndTime: new Date(row.calculatedEndTime),
       existingSessionId: row.existingSessionId ?? undefined,
@@ -791,6 +991,7 @@ export class SessionsRepository extends BaseRepository<Session> {
     scheduledStartTime: Date,
   ): Promise<{
     scheduleItemId: string;
+    roomId?: string | null;
     calculatedStartTime: Date;
     calculatedEndTime: Date;
     existingSessionId?: string;
@@ -805,6 +1006,7 @@ export class SessionsRepository extends BaseRepository<Session> {
         SELECT 
           si.id,
           si."groupId",
+          si."roomId",
           si.day,
           -- DST-safe time calculation:
           -- 1. Convert UTC timestamp to center timezone
@@ -841,6 +1043,7 @@ export class SessionsRepository extends BaseRepository<Session> {
       )
       SELECT 
         sc.id as "scheduleItemId",
+        sc."roomId",
         sc.calculated_start_time AS "calculatedStartTime",
         sc.calculated_end_time AS "calculatedEndTime",
         s.id as "existingSessionId",
@@ -864,6 +1067,7 @@ export class SessionsRepository extends BaseRepository<Session> {
     const row: ScheduleItemRawResult = result[0];
     return {
       scheduleItemId: row.scheduleItemId,
+      roomId: row.roomId ?? null,
       calculatedStartTime: new Date(row.calculatedStartTime),
       calculatedEndTime: new Date(row.calculatedEndTime),
       existingSessionId: row.existingSessionId ?? undefined,
@@ -910,7 +1114,10 @@ export class SessionsRepository extends BaseRepository<Session> {
     return Number(row?.totalStudents ?? 0);
   }
 
-  async countActiveTeachersForCenter(centerId: string): Promise<number> {
+  async countActiveTeachersForCenter(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     // Count distinct teachers assigned to classes that have sessions in the current month
     const currentMonth = new Date();
     currentMonth.setDate(1); // Start of current month
@@ -933,12 +1140,16 @@ export class SessionsRepository extends BaseRepository<Session> {
       .andWhere('session.status IN (:...statuses)', {
         statuses: ['COMPLETED', 'IN_PROGRESS', 'SCHEDULED'],
       })
+      .andWhere(termId ? 'class.termId = :termId' : '1=1', { termId })
       .getRawOne<CountRawResult>();
 
     return parseInt(result?.count ?? '0', 10);
   }
 
-  async countActiveStudentsForCenter(centerId: string): Promise<number> {
+  async countActiveStudentsForCenter(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
     // Count distinct students enrolled in groups that have classes with sessions in the current month
     const currentMonth = new Date();
     currentMonth.setDate(1); // Start of current month
@@ -957,6 +1168,7 @@ export class SessionsRepository extends BaseRepository<Session> {
       INNER JOIN classes c ON g."classId" = c.id
       WHERE c."centerId" = $1::uuid
         AND gs."leftAt" IS NULL
+        AND ($4::uuid IS NULL OR c."termId" = $4::uuid)
         AND EXISTS (
           SELECT 1 FROM sessions s
           WHERE s."classId" = c.id
@@ -965,7 +1177,7 @@ export class SessionsRepository extends BaseRepository<Session> {
             AND s.status IN ('COMPLETED', 'IN_PROGRESS', 'SCHEDULED')
         )
       `,
-      [centerId, currentMonth, nextMonth],
+      [centerId, currentMonth, nextMonth, termId ?? null],
     );
 
     return Number(result[0]?.count || 0);
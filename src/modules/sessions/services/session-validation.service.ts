@@ -79,6 +79,41 @@ export class SessionValidationService extends BaseService {
     return null;
   }
 
+  /**
+   * Validate room conflict for a session time slot
+   * Ensures a room isn't booked by two sessions at the same time
+   * @param roomId - The room ID
+   * @param startTime - Session start time
+   * @param endTime - Session end time
+   * @param excludeSessionId - Optional session ID to exclude from conflict check (for updates)
+   * @returns Conflict data if found, null otherwise
+   */
+  async validateRoomConflict(
+    roomId: string,
+    startTime: Date,
+    endTime: Date,
+    excludeSessionId?: string,
+  ): Promise<{ sessionId: string; startTime: Date; endTime: Date } | null> {
+    const overlappingSessions =
+      await this.sessionsRepository.findOverlappingSessionsByRoom(
+        roomId,
+        startTime,
+        endTime,
+        excludeSessionId,
+      );
+
+    if (overlappingSessions.length > 0) {
+      const conflict = overlappingSessions[0];
+      return {
+        sessionId: conflict.id,
+        startTime: conflict.startTime,
+        endTime: conflict.endTime,
+      };
+    }
+
+    return null;
+  }
+
   /**
    * Validate if a session can be deleted
    * Only SCHEDULED extra sessions (isExtraSession: true) can be deleted
@@ -101,6 +136,11 @@ export class SessionValidationService extends BaseService {
       throw SessionsErrors.sessionCannotModifyCompleted();
     }
 
+    // Makeup sessions may carry charges over from the canceled session
+    if (session.makeupForSessionId) {
+      throw SessionsErrors.sessionMakeupCannotDelete();
+    }
+
     // TODO: Check if payments exist
     // TODO: Check if attendance exists
     // If payments or attendance exist, throw SessionsErrors.sessionCannotModifyCompleted()
@@ -8,6 +8,8 @@ import { TimezoneService } from '@/shared/common/services/timezone.service';
 import { DEFAULT_TIMEZONE } from '@/shared/common/constants/timezone.constants';
 import { addMinutes, getDay, addDays, startOfDay } from 'date-fns';
 import { DayOfWeek } from '@/modules/classes/enums/day-of-week.enum';
+import { CenterClosure } from '@/modules/centers/entities/center-closure.entity';
+import { ClosureDates } from '@/modules/centers/utils/closure-dates.util';
 
 /**
  * Virtual session interface for sessions calculated from schedule items
@@ -16,6 +18,7 @@ export interface VirtualSession {
   id: undefined;
   groupId: string;
   scheduleItemId: string;
+  roomId?: string | null;
   title?: string;
   startTime: Date;
   endTime: Date;
@@ -42,6 +45,7 @@ export class SessionVirtualizationService {
    * @param groupMap - Map of groups with class relations loaded
    * @param startDate - Start date (inclusive, UTC)
    * @param endDate - End date (exclusive, UTC)
+   * @param closures - Center/branch closures, sessions falling on them are skipped
    * @returns Array of virtual sessions
    */
   calculateVirtualSessions(
@@ -49,6 +53,7 @@ export class SessionVirtualizationService {
     groupMap: Map<string, Group>,
     startDate: Date,
     endDate: Date,
+    closures: CenterClosure[] = [],
   ): VirtualSession[] {
     const virtualSessions: VirtualSession[] = [];
 
@@ -106,10 +111,23 @@ export class SessionVirtualizationService {
           classEntity.duration,
         );
 
+        // Holidays/closures are checked against the calendar day in center timezone
+        if (
+          closures.length > 0 &&
+          ClosureDates.isClosed(
+            ClosureDates.toLocalDate(sessionStartTime, timezone),
+            group.branchId,
+            closures,
+          )
+        ) {
+          continue;
+        }
+
         virtualSessions.push({
           id: undefined,
           groupId: scheduleItem.groupId,
           scheduleItemId: scheduleItem.id,
+          roomId: scheduleItem.roomId ?? null,
           title: undefined,
           startTime: sessionStartTime,
           endTime: sessionEndTime,
@@ -13,9 +13,12 @@ import {
   SessionFinishedEvent,
   SessionCheckedInEvent,
   SessionConflictDetectedEvent,
+  SessionMakeupCreatedEvent,
 } from '../events/session.events';
 import { Session } from '../entities/session.entity';
 import { CreateSessionDto } from '../dto/create-session.dto';
+import { CreateMakeupSessionDto } from '../dto/create-makeup-session.dto';
+import { AssignSubstituteTeacherDto } from '../dto/assign-substitute-teacher.dto';
 import { UpdateSessionDto } from '../dto/update-session.dto';
 import { CalendarSessionsDto } from '../dto/calendar-sessions.dto';
 import { PaginateSessionsDto } from '../dto/paginate-sessions.dto';
@@ -28,7 +31,7 @@ import { SessionVirtualizationService } from './session-virtualization.service';
 import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
 import { ClassAccessService } from '@/modules/classes/services/class-access.service';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
-import { addMinutes, isBefore } from 'date-fns';
+import { addMinutes, differenceInMinutes, isBefore } from 'date-fns';
 import { ScheduleItemsRepository } from '@/modules/classes/repositories/schedule-items.repository';
 import { ClassStatus } from '@/modules/classes/enums/class-status.enum';
 import {
@@ -46,6 +49,23 @@ import { CentersService } from '@/modules/centers/services/centers.service';
 import { BranchesService } from '@/modules/centers/services/branches.service';
 import { UserProfileErrors } from '@/modules/user-profile/exceptions/user-profile.errors';
 import { CentersErrors } from '@/modules/centers/exceptions/centers.errors';
+import { RoomsService } from '@/modules/centers/services/rooms.service';
+import { CenterClosuresService } from '@/modules/centers/services/center-closures.service';
+import { CenterClosure } from '@/modules/centers/entities/center-closure.entity';
+import { ClosureDates } from '@/modules/centers/utils/closure-dates.util';
+import { DEFAULT_TIMEZONE } from '@/shared/common/constants/timezone.constants';
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+import { ScheduleService } from '@/modules/classes/services/schedule.service';
+import { ClassesErrors } from '@/modules/classes/exceptions/classes.errors';
+import { DayOfWeek } from '@/modules/classes/enums/day-of-week.enum';
+
+export interface SessionRescheduleMove {
+  session: Session;
+  startTime: Date;
+  endTime: Date;
+  scheduleItemId: string;
+  roomId: string | null;
+}
 
 @Injectable()
 export class SessionsService extends BaseService {
@@ -63,6 +83,9 @@ export class SessionsService extends BaseService {
     private readonly userProfileService: UserProfileService,
     private readonly centersService: CentersService,
     private readonly branchesService: BranchesService,
+    private readonly roomsService: RoomsService,
+    private readonly centerClosuresService: CenterClosuresService,
+    private readonly scheduleService: ScheduleService,
   ) {
     super();
   }
@@ -92,12 +115,14 @@ export class SessionsService extends BaseService {
    * @param groupId - Group ID
    * @param createSessionDto - Session data
    * @param actor - Actor performing the action
+   * @param makeupFor - Canceled session this extra session replaces (optional)
    */
   @Transactional()
   async createExtraSession(
     groupId: string,
-    createSessionDto: CreateSessionDto,
+    createSessionDto: Omit<CreateSessionDto, 'groupId'>,
     actor: ActorUser,
+    makeupFor?: Session,
   ): Promise<Session> {
     // DTO validation (@BelongsToBranch decorator) already ensures group belongs to actor's branch
     // Fetch group with class to get teacherUserProfileId and denormalized fields for snapshot
@@ -175,6 +200,13 @@ export class SessionsService extends BaseService {
     // Calculate endTime from startTime + duration using date-fns
     const endTime = addMinutes(startTime, createSessionDto.duration);
 
+    await this.ensureNotOnClosureDate(
+      group.centerId,
+      group.branchId,
+      startTime,
+      center.timezone || DEFAULT_TIMEZONE,
+    );
+
     // Validate teacher conflict
     const teacherConflict =
       await this.sessionValidationService.validateTeacherConflict(
@@ -229,6 +261,21 @@ export class SessionsService extends BaseService {
       throw SessionsErrors.sessionScheduleConflict();
     }
 
+    // Validate room belongs to the group's branch and is not double-booked
+    const roomId = createSessionDto.roomId ?? null;
+    if (roomId) {
+      await this.validateSessionRoom(
+        roomId,
+        group.branchId,
+        groupId,
+        '',
+        startTime,
+        endTime,
+        actor,
+        group.centerId,
+      );
+    }
+
     // Extract centerId, branchId, and classId from validated group entity for snapshot
     const session = await this.sessionsRepository.create({
       groupId,
@@ -237,11 +284,13 @@ export class SessionsService extends BaseService {
       classId: group.classId,
       teacherUserProfileId,
       scheduleItemId: undefined, // Extra sessions don't have scheduleItemId
+      roomId,
       title: createSessionDto.title,
       startTime,
       endTime,
       status: SessionStatus.SCHEDULED,
       isExtraSession: true,
+      makeupForSessionId: makeupFor?.id ?? null,
     });
 
     await this.typeSafeEventEmitter.emitAsync(
@@ -249,9 +298,58 @@ export class SessionsService extends BaseService {
       new SessionCreatedEvent(session, actor, actor.centerId!),
     );
 
+    if (makeupFor) {
+      await this.typeSafeEventEmitter.emitAsync(
+        SessionEvents.MAKEUP_CREATED,
+        new SessionMakeupCreatedEvent(
+          session,
+          makeupFor,
+          actor,
+          actor.centerId!,
+        ),
+      );
+    }
+
     return session;
   }
 
+  /**
+   * Create a makeup session for a canceled session
+   * The makeup is an extra session in the same group linked to the canceled one;
+   * session charges and teacher payouts follow the makeup instead of the canceled session
+   * @param sessionId - Canceled session ID
+   * @param dto - Makeup session data
+   * @param actor - Actor performing the action
+   */
+  @Transactional()
+  async createMakeupSession(
+    sessionId: string,
+    dto: CreateMakeupSessionDto,
+    actor: ActorUser,
+  ): Promise<Session> {
+    const resolved = await this.resolveSessionFromId(sessionId, actor);
+
+    // Virtual sessions are never canceled - cancellation always materializes a record
+    const canceledSession = resolved.realSession;
+    if (!canceledSession || canceledSession.status !== SessionStatus.CANCELED) {
+      throw SessionsErrors.sessionMakeupRequiresCanceled();
+    }
+
+    const existingMakeup = await this.sessionsRepository.findMakeupSession(
+      canceledSession.id,
+    );
+    if (existingMakeup) {
+      throw SessionsErrors.sessionMakeupAlreadyExists();
+    }
+
+    return this.createExtraSession(
+      canceledSession.groupId,
+      dto,
+      actor,
+      canceledSession,
+    );
+  }
+
   /**
    * Check-in a session (materialize virtual to real or update existing)
    * Handles both real sessions (UUID) and virtual sessions (virtual ID)
@@ -340,6 +438,7 @@ export class SessionsService extends BaseService {
         now,
       )) as {
         scheduleItemId: string;
+        roomId?: string | null;
         calculatedStartTime: Date;
         calculatedEndTime: Date;
         existingSessionId?: string;
@@ -373,6 +472,7 @@ export class SessionsService extends BaseService {
       classId: group.classId,
       teacherUserProfileId: group.class.teacherUserProfileId,
       scheduleItemId: match.scheduleItemId,
+      roomId: match.roomId ?? null,
       startTime: normalizedStartTime,
       endTime: match.calculatedEndTime,
       status: SessionStatus.CHECKING_IN,
@@ -513,6 +613,7 @@ export class SessionsService extends BaseService {
         normalizedStartTime,
       )) as {
         scheduleItemId: string;
+        roomId?: string | null;
         calculatedStartTime: Date;
         calculatedEndTime: Date;
         existingSessionId?: string;
@@ -552,6 +653,7 @@ export class SessionsService extends BaseService {
       classId: group.classId,
       teacherUserProfileId: group.class.teacherUserProfileId,
       scheduleItemId: match.scheduleItemId,
+      roomId: match.roomId ?? null,
       startTime: normalizedStartTime,
       endTime: match.calculatedEndTime,
       status: SessionStatus.CANCELED,
@@ -627,6 +729,12 @@ export class SessionsService extends BaseService {
       newStartTime.getTime() !== session.startTime.getTime() ||
       newEndTime.getTime() !== session.endTime.getTime();
 
+    const newRoomId =
+      updateSessionDto.roomId !== undefined
+        ? updateSessionDto.roomId
+        : (session.roomId ?? null);
+    const roomChanged = newRoomId !== (session.roomId ?? null);
+
     if (timeChanged) {
       if (teacherUserProfileId) {
         const teacherConflict =
@@ -685,15 +793,34 @@ export class SessionsService extends BaseService {
       }
     }
 
+    if (newRoomId && (timeChanged || roomChanged)) {
+      await this.validateSessionRoom(
+        newRoomId,
+        group.branchId,
+        session.groupId,
+        session.scheduleItemId ?? '',
+        newStartTime,
+        newEndTime,
+        actor,
+        group.centerId,
+        sessionId,
+      );
+    }
+
     const updateData: {
       title?: string;
       startTime: Date;
       endTime: Date;
+      roomId?: string | null;
     } = {
       startTime: newStartTime,
       endTime: newEndTime,
     };
 
+    if (roomChanged) {
+      updateData.roomId = newRoomId;
+    }
+
     if (updateSessionDto.title !== undefined) {
       updateData.title = updateSessionDto.title;
     }
@@ -756,10 +883,11 @@ export class SessionsService extends BaseService {
       branchId: group.branchId,
     });
 
-    // Validate class staff access (for STAFF users)
-    await this.classAccessService.validateClassAccess({
+    // Validate class staff access (for STAFF users, substitutes only get this session)
+    await this.classAccessService.validateSessionAccess({
       userProfileId: actor.userProfileId,
       classId: group.classId,
+      sessionId: session.id,
     });
 
     // Update status to FINISHED and capture actual finish time
@@ -805,6 +933,12 @@ export class SessionsService extends BaseService {
       throw SessionsErrors.sessionStatusInvalidForOperation();
     }
 
+    // A canceled session that was made up must stay canceled
+    const makeup = await this.sessionsRepository.findMakeupSession(sessionId);
+    if (makeup) {
+      throw SessionsErrors.sessionMakeupAlreadyExists();
+    }
+
     // Fetch group with class for access validation
     const group = await this.groupsRepository.findByIdOrThrow(session.groupId, [
       'class',
@@ -881,6 +1015,440 @@ export class SessionsService extends BaseService {
     );
   }
 
+  /**
+   * Assign a substitute teacher to a single session
+   * Virtual sessions are materialized as SCHEDULED sessions first.
+   * The substitute only gets access to this session and is paid for it
+   * instead of the class teacher.
+   *
+   * @param sessionId - Session ID (UUID or virtual ID)
+   * @param dto - Substitute teacher data
+   * @param actor - Actor performing the action
+   * @returns Updated session
+   */
+  @Transactional()
+  async assignSubstituteTeacher(
+    sessionId: string,
+    dto: AssignSubstituteTeacherDto,
+    actor: ActorUser,
+  ): Promise<Session> {
+    const resolved = await this.resolveSessionFromId(sessionId, actor);
+    const session =
+      resolved.isReal && resolved.realSession
+        ? resolved.realSession
+        : await this.materializeScheduledSession(resolved, actor);
+
+    this.ensureSubstitutableStatus(session);
+
+    const substituteId = dto.substituteTeacherUserProfileId;
+    if (substituteId === session.teacherUserProfileId) {
+      throw SessionsErrors.sessionSubstituteSameAsTeacher();
+    }
+
+    const substitute = await this.userProfileService.findOne(substituteId);
+    if (!substitute) {
+      throw UserProfileErrors.userProfileNotFound();
+    }
+    if (!substitute.isActive) {
+      throw UserProfileErrors.userProfileInactive();
+    }
+
+    await this.validateSubstituteSchedule(session, substituteId, actor);
+
+    const updatedSession = await this.sessionsRepository.updateThrow(
+      session.id,
+      { substituteTeacherUserProfileId: substituteId },
+    );
+
+    await this.typeSafeEventEmitter.emitAsync(
+      SessionEvents.UPDATED,
+      new SessionUpdatedEvent(updatedSession, actor, actor.centerId!),
+    );
+
+    return updatedSession;
+  }
+
+  /**
+   * Remove the substitute teacher from a session
+   * The class teacher takes the session (and its payout) back.
+   *
+   * @param sessionId - Session ID
+   * @param actor - Actor performing the action
+   * @returns Updated session
+   */
+  @Transactional()
+  async removeSubstituteTeacher(
+    sessionId: string,
+    actor: ActorUser,
+  ): Promise<Session> {
+    const resolved = await this.resolveSessionFromId(sessionId, actor);
+    const session = resolved.realSession;
+
+    // Virtual sessions never have a substitute
+    if (!session?.substituteTeacherUserProfileId) {
+      throw SessionsErrors.sessionSubstituteNotAssigned();
+    }
+
+    this.ensureSubstitutableStatus(session);
+
+    const updatedSession = await this.sessionsRepository.updateThrow(
+      session.id,
+      { substituteTeacherUserProfileId: null },
+    );
+
+    await this.typeSafeEventEmitter.emitAsync(
+      SessionEvents.UPDATED,
+      new SessionUpdatedEvent(updatedSession, actor, actor.centerId!),
+    );
+
+    return updatedSession;
+  }
+
+  /**
+   * Substitutes can only be changed before the session is finished or canceled
+   */
+  private ensureSubstitutableStatus(session: Session): void {
+    if (
+      session.status !== SessionStatus.SCHEDULED &&
+      session.status !== SessionStatus.CHECKING_IN
+    ) {
+      throw SessionsErrors.sessionStatusInvalidForOperation();
+    }
+  }
+
+  /**
+   * Validate the substitute is free during the session.
+   * Checks the substitute's weekly class schedule via ScheduleService and
+   * their concrete sessions (as class teacher or substitute).
+   */
+  private async validateSubstituteSchedule(
+    session: Session,
+    substituteId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    const center = await this.centersService.findCenterById(
+      session.centerId,
+      actor,
+    );
+    const timezone = center.timezone || DEFAULT_TIMEZONE;
+    const duration = differenceInMinutes(session.endTime, session.startTime);
+
+    const teacherConflict =
+      await this.scheduleService.checkTeacherScheduleConflicts(
+        substituteId,
+        [
+          {
+            day: TimezoneService.formatZoned(
+              session.startTime,
+              'EEE',
+              timezone,
+            ) as DayOfWeek,
+            startTime: TimezoneService.formatZoned(
+              session.startTime,
+              'HH:mm',
+              timezone,
+            ),
+          },
+        ],
+        duration,
+      );
+    if (teacherConflict) {
+      throw ClassesErrors.teacherScheduleConflict(
+        teacherConflict.teacherName,
+        teacherConflict.teacherUserProfileId,
+        teacherConflict.conflicts,
+      );
+    }
+
+    const sessionConflict =
+      await this.sessionValidationService.validateTeacherConflict(
+        substituteId,
+        session.startTime,
+        session.endTime,
+        session.id,
+      );
+    if (sessionConflict) {
+      await this.typeSafeEventEmitter.emitAsync(
+        SessionEvents.CONFLICT_DETECTED,
+        new SessionConflictDetectedEvent(
+          session.groupId,
+          session.scheduleItemId ?? '',
+          session.startTime,
+          session.endTime,
+          'TEACHER',
+          sessionConflict.sessionId,
+          sessionConflict.startTime,
+          sessionConflict.endTime,
+          actor,
+          session.centerId,
+        ),
+      );
+      throw SessionsErrors.sessionScheduleConflict();
+    }
+  }
+
+  /**
+   * Materialize a virtual session as a SCHEDULED session record
+   * Used when a per-session change is made ahead of time (e.g. a substitute teacher)
+   */
+  private async materializeScheduledSession(
+    resolved: { groupId: string; startTime: Date },
+    actor: ActorUser,
+  ): Promise<Session> {
+    const group = await this.groupsRepository.findByIdOrThrow(
+      resolved.groupId,
+      ['class'],
+    );
+
+    if (group.class.status !== ClassStatus.ACTIVE) {
+      throw SessionsErrors.sessionClassNotActive();
+    }
+
+    const match =
+      (await this.sessionsRepository.findMatchingScheduleItemForCancelSession(
+        resolved.groupId,
+        resolved.startTime,
+      )) as {
+        scheduleItemId: string;
+        roomId?: string | null;
+        calculatedStartTime: Date;
+        calculatedEndTime: Date;
+        existingSessionId?: string;
+      } | null;
+
+    if (!match) {
+      throw SessionsErrors.sessionScheduleItemNotFound();
+    }
+
+    // Another request materialized it in the meantime
+    if (match.existingSessionId) {
+      return this.sessionsRepository.findOneOrThrow(match.existingSessionId);
+    }
+
+    const session = await this.sessionsRepository.create({
+      groupId: resolved.groupId,
+      centerId: group.centerId,
+      branchId: group.branchId,
+      classId: group.classId,
+      teacherUserProfileId: group.class.teacherUserProfileId,
+      scheduleItemId: match.scheduleItemId,
+      roomId: match.roomId ?? null,
+      startTime: resolved.startTime,
+      endTime: match.calculatedEndTime,
+      status: SessionStatus.SCHEDULED,
+      isExtraSession: false, // Always false since we matched a schedule item
+    });
+
+    await this.typeSafeEventEmitter.emitAsync(
+      SessionEvents.CREATED,
+      new SessionCreatedEvent(session, actor, actor.centerId!),
+    );
+
+    return session;
+  }
+
+  /**
+   * Validate a room for a concrete session slot.
+   * The room must belong to the group's branch and be free during the slot.
+   * Emits SESSION_CONFLICT_DETECTED with ROOM type before throwing on double-booking.
+   */
+  private async validateSessionRoom(
+    roomId: string,
+    branchId: string,
+    groupId: string,
+    scheduleItemId: string,
+    startTime: Date,
+    endTime: Date,
+    actor: ActorUser,
+    centerId: string,
+    excludeSessionId?: string,
+  ): Promise<void> {
+    await this.roomsService.validateRoomsForBranch(branchId, [roomId]);
+
+    const roomConflict =
+      await this.sessionValidationService.validateRoomConflict(
+        roomId,
+        startTime,
+        endTime,
+        excludeSessionId,
+      );
+
+    if (roomConflict) {
+      await this.typeSafeEventEmitter.emitAsync(
+        SessionEvents.CONFLICT_DETECTED,
+        new SessionConflictDetectedEvent(
+          groupId,
+          scheduleItemId,
+          startTime,
+          endTime,
+          'ROOM',
+          roomConflict.sessionId,
+          roomConflict.startTime,
+          roomConflict.endTime,
+          actor,
+          centerId,
+        ),
+      );
+      throw SessionsErrors.sessionScheduleConflict();
+    }
+  }
+
+  /**
+   * Cancel scheduled sessions falling on newly created closures
+   * Each canceled session emits SessionEvents.CANCELED so students get notified
+   *
+   * @param closures - Created closures of the center
+   * @param centerId - Center ID
+   * @param actor - Actor performing the action
+   * @returns Canceled sessions
+   */
+  @Transactional()
+  async cancelSessionsForClosures(
+    closures: CenterClosure[],
+    centerId: string,
+    actor: ActorUser,
+  ): Promise<Session[]> {
+    const center = await this.centersService.findCenterById(centerId);
+    const timezone = center.timezone || DEFAULT_TIMEZONE;
+
+    const canceledSessions: Session[] = [];
+    const canceledIds = new Set<string>();
+
+    for (const closure of closures) {
+      const { start, end } = ClosureDates.getUtcRange(closure, timezone);
+      const sessions =
+        await this.sessionsRepository.findScheduledSessionsInRange(
+          centerId,
+          closure.branchId,
+          start,
+          end,
+        );
+
+      for (const session of sessions) {
+        // Overlapping closures may match the same session
+        if (canceledIds.has(session.id)) {
+          continue;
+        }
+        canceledIds.add(session.id);
+
+        await this.sessionsRepository.update(session.id, {
+          status: SessionStatus.CANCELED,
+        });
+        session.status = SessionStatus.CANCELED;
+
+        await this.typeSafeEventEmitter.emitAsync(
+          SessionEvents.CANCELED,
+          new SessionCanceledEvent(session, actor, centerId),
+        );
+
+        canceledSessions.push(session);
+      }
+    }
+
+    if (canceledSessions.length > 0) {
+      this.logger.log(`Canceled sessions falling on center closures`, {
+        centerId,
+        closureIds: closures.map((closure) => closure.id),
+        canceledCount: canceledSessions.length,
+      });
+    }
+
+    return canceledSessions;
+  }
+
+  /**
+   * Apply a group reschedule to its materialized sessions
+   * Moved sessions emit SessionEvents.UPDATED and dropped ones SessionEvents.CANCELED,
+   * so students are notified either way. Dropped sessions are canceled, never deleted,
+   * to keep their attendance and charges intact.
+   *
+   * @param moves - Sessions to move to a new time/room
+   * @param drops - Sessions to cancel
+   * @param actor - Actor performing the action
+   */
+  @Transactional()
+  async applyGroupReschedule(
+    moves: SessionRescheduleMove[],
+    drops: Session[],
+    actor: ActorUser,
+  ): Promise<void> {
+    for (const move of moves) {
+      const updatedSession = await this.sessionsRepository.updateThrow(
+        move.session.id,
+        {
+          startTime: move.startTime,
+          endTime: move.endTime,
+          scheduleItemId: move.scheduleItemId,
+          roomId: move.roomId,
+        },
+      );
+
+      await this.typeSafeEventEmitter.emitAsync(
+        SessionEvents.UPDATED,
+        new SessionUpdatedEvent(updatedSession, actor, actor.centerId!),
+      );
+    }
+
+    for (const session of drops) {
+      await this.sessionsRepository.update(session.id, {
+        status: SessionStatus.CANCELED,
+      });
+      session.status = SessionStatus.CANCELED;
+
+      await this.typeSafeEventEmitter.emitAsync(
+        SessionEvents.CANCELED,
+        new SessionCanceledEvent(session, actor, actor.centerId!),
+      );
+    }
+  }
+
+  /**
+   * Reject sessions on a holiday/closure of the center or the group's branch
+   *
+   * @throws SessionsErrors.sessionOnClosureDate() if the day is closed
+   */
+  private async ensureNotOnClosureDate(
+    centerId: string,
+    branchId: string,
+    startTime: Date,
+    timezone: string,
+  ): Promise<void> {
+    const closures = await this.centerClosuresService.findClosuresInRange(
+      centerId,
+      startTime,
+      startTime,
+    );
+
+    if (
+      ClosureDates.isClosed(
+        ClosureDates.toLocalDate(startTime, timezone),
+        branchId,
+        closures,
+      )
+    ) {
+      throw SessionsErrors.sessionOnClosureDate();
+    }
+  }
+
+  /**
+   * Get calendar sessions booked in a single room.
+   * Real sessions use their own room, virtual sessions use their schedule item room.
+   *
+   * @param roomId - Room ID
+   * @param dto - Calendar filters and date range
+   * @param actor - Actor performing the action
+   */
+  async getRoomCalendarSessions(
+    roomId: string,
+    dto: CalendarSessionsDto,
+    actor: ActorUser,
+  ): Promise<CalendarSessionsResponseDto> {
+    // Validates room existence and actor branch access
+    await this.roomsService.getRoom(roomId, actor);
+
+    return this.getCalendarSessions(dto, actor, roomId);
+  }
+
   /**
    * Get sessions for calendar view
    * Returns sessions in calendar-friendly format with all necessary metadata
@@ -888,11 +1456,13 @@ export class SessionsService extends BaseService {
    *
    * @param dto - Calendar sessions DTO with filters and date range
    * @param actor - Actor performing the action
+   * @param roomId - Only return sessions booked in this room
    * @returns Calendar sessions response with items, dateRange, and total
    */
   async getCalendarSessions(
     dto: CalendarSessionsDto,
     actor: ActorUser,
+    roomId?: string,
   ): Promise<CalendarSessionsResponseDto> {
     // dto.dateFrom and dto.dateTo are already UTC Date objects (converted by @IsoUtcDate decorator)
     // Use them directly - no timezone conversion needed
@@ -903,6 +1473,7 @@ export class SessionsService extends BaseService {
     const realSessions = await this.sessionsRepository.getCalendarSessions(
       dto,
       actor,
+      roomId,
     );
 
     // Get schedule items with group relations
@@ -911,6 +1482,7 @@ export class SessionsService extends BaseService {
         centerId: actor.centerId!,
         groupId: dto.groupId,
         classId: dto.classId,
+        roomId,
       },
       actor,
     );
@@ -939,12 +1511,20 @@ export class SessionsService extends BaseService {
       return group?.class?.status === ClassStatus.ACTIVE;
     });
 
+    // Holidays/closures hide the virtual sessions falling on them
+    const closures = await this.centerClosuresService.findClosuresInRange(
+      actor.centerId!,
+      startDate,
+      endDate,
+    );
+
     const virtualSessions =
       this.sessionVirtualizationService.calculateVirtualSessions(
         activeScheduleItems,
         groupMap,
         startDate,
         endDate,
+        closures,
       );
 
     // Merge real and virtual sessions (real sessions override virtual ones)
@@ -959,6 +1539,12 @@ export class SessionsService extends BaseService {
       filteredSessions = mergedSessions.filter((s) => s.status === dto.status);
     }
 
+    // Real sessions moved out of the room still override their virtual slot above,
+    // drop them here so only sessions actually held in the room remain
+    if (roomId) {
+      filteredSessions = filteredSessions.filter((s) => s.roomId === roomId);
+    }
+
     // Sort by startTime
     filteredSessions.sort(
       (a, b) => a.startTime.getTime() - b.startTime.getTime(),
@@ -990,6 +1576,7 @@ export class SessionsService extends BaseService {
         endTime: session.endTime.toISOString(),
         status: session.status,
         groupId: session.groupId,
+        roomId: session.roomId ?? null,
         actualStartTime:
           'actualStartTime' in session ? session.actualStartTime : undefined,
         actualFinishTime:
@@ -1040,6 +1627,7 @@ export class SessionsService extends BaseService {
       // 3. CRITICAL: Validate actor has access to groupId (security check)
       const group = await this.groupsRepository.findByIdOrThrow(groupId, [
         'class',
+        'class.center', // Center relation for timezone
       ]);
 
       // Verify group belongs to actor's center
@@ -1091,6 +1679,14 @@ export class SessionsService extends BaseService {
         };
       }
 
+      // Virtual sessions don't exist on holidays/closures
+      await this.ensureNotOnClosureDate(
+        group.centerId,
+        group.branchId,
+        normalizedStartTime,
+        group.class.center?.timezone || DEFAULT_TIMEZONE,
+      );
+
       // No real session exists - return virtual session info
       return {
         isReal: false,
@@ -1130,10 +1726,11 @@ export class SessionsService extends BaseService {
           branchId: group.branchId,
         });
 
-        // Validate class staff access
-        await this.classAccessService.validateClassAccess({
+        // Validate class staff access (substitutes only get this session)
+        await this.classAccessService.validateSessionAccess({
           userProfileId: actor.userProfileId,
           classId: group.classId,
+          sessionId: realSession.id,
         });
       }
 
@@ -1179,6 +1776,11 @@ export class SessionsService extends BaseService {
     // Calculate endTime from startTime + class duration
     const endTime = addMinutes(resolved.startTime, group.class.duration);
 
+    // Virtual sessions take their room from the schedule item
+    const scheduleItem = await this.scheduleItemsRepository.findOne(
+      resolved.scheduleItemId,
+    );
+
     // Construct virtual Session object with all required relations
     // Note: This is a virtual session, so some fields (id, createdAt, updatedAt, etc.) are placeholders
     const virtualSession = {
@@ -1189,6 +1791,7 @@ export class SessionsService extends BaseService {
       classId: group.classId,
       teacherUserProfileId: group.class.teacher.id, // From class teacher
       scheduleItemId: resolved.scheduleItemId,
+      roomId: scheduleItem?.roomId ?? null,
       title: undefined,
       startTime: resolved.startTime,
       endTime: endTime,
@@ -1223,11 +1826,23 @@ export class SessionsService extends BaseService {
     return virtualSession;
   }
 
-  async countActiveTeachersForCenter(centerId: string): Promise<number> {
-    return this.sessionsRepository.countActiveTeachersForCenter(centerId);
+  async countActiveTeachersForCenter(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
+    return this.sessionsRepository.countActiveTeachersForCenter(
+      centerId,
+      termId,
+    );
   }
 
-  async countActiveStudentsForCenter(centerId: string): Promise<number> {
-    return this.sessionsRepository.countActiveStudentsForCenter(centerId);
+  async countActiveStudentsForCenter(
+    centerId: string,
+    termId?: string,
+  ): Promise<number> {
+    return this.sessionsRepository.countActiveStudentsForCenter(
+      centerId,
+      termId,
+    );
   }
 }
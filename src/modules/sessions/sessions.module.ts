@@ -11,6 +11,7 @@ import { SessionsService } from './services/sessions.service';
 import { SessionsRepository } from './repositories/sessions.repository';
 import { SessionValidationService } from './services/session-validation.service';
 import { SessionPaymentListener } from './listeners/session-payment-listener';
+import { CenterClosureListener } from './listeners/center-closure.listener';
 import { SessionVirtualizationService } from './services/session-virtualization.service';
 import { SessionsCleanupJob } from './jobs/sessions-cleanup.job';
 import { SessionStateMachine } from './state-machines/session-state-machine';
@@ -32,6 +33,7 @@ import { UserProfileModule } from '../user-profile/user-profile.module';
     SessionStateMachine,
     SessionsCleanupJob,
     SessionPaymentListener,
+    CenterClosureListener,
   ],
   exports: [SessionsService, SessionsRepository],
 })
@@ -0,0 +1,21 @@
+import { DunningReminderLevel } from '../enums/dunning-reminder-level.enum';
+import { DunningStep } from '../interfaces/dunning-step.interface';
+
+/** Days before a month starts during which its subscriptions are auto-renewed */
+export const SUBSCRIPTION_RENEWAL_DAYS_BEFORE_MONTH = 3;
+
+/** Renewal attempts per month; the job retries a failed renewal once a day */
+export const SUBSCRIPTION_RENEWAL_MAX_ATTEMPTS = 3;
+
+/** Upper bounds (days, inclusive) of the receivables aging buckets; older debt falls in 90+ */
+export const RECEIVABLES_AGING_BUCKET_DAYS = [30, 60, 90] as const;
+
+/** Built-in dunning steps used until a center saves its own schedule */
+export const DEFAULT_DUNNING_STEPS: DunningStep[] = [
+  { afterDays: 7, level: DunningReminderLevel.REMINDER },
+  { afterDays: 21, level: DunningReminderLevel.REMINDER },
+  { afterDays: 45, level: DunningReminderLevel.FINAL_NOTICE },
+];
+
+/** Most steps a dunning schedule may have */
+export const DUNNING_MAX_STEPS = 10;
@@ -0,0 +1,218 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { BillingAccountsService } from '../services/billing-accounts.service';
+import { CreateBillingAccountDto } from '../dto/create-billing-account.dto';
+import { UpdateBillingAccountDto } from '../dto/update-billing-account.dto';
+import { PaginateBillingAccountsDto } from '../dto/paginate-billing-accounts.dto';
+import { BillingAccountIdParamDto } from '../dto/billing-account-id-param.dto';
+import { BillingAccountMemberParamsDto } from '../dto/billing-account-member-params.dto';
+import { AddBillingAccountMemberDto } from '../dto/add-billing-account-member.dto';
+import { FundBillingAccountDto } from '../dto/fund-billing-account.dto';
+import { BillingAccountStatementQueryDto } from '../dto/billing-account-statement-query.dto';
+import { BillingAccountResponseDto } from '../dto/billing-account-response.dto';
+import { BillingAccountStatementDto } from '../dto/billing-account-statement-response.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Billing Accounts')
+@Controller('billing/accounts')
+@ManagerialOnly()
+export class BillingAccountsController {
+  constructor(
+    private readonly billingAccountsService: BillingAccountsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the family billing accounts of the center' })
+  @ApiResponse({
+    status: 200,
+    description: 'Billing accounts retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: BillingAccountResponseDto })
+  async paginateBillingAccounts(
+    @Query() paginateDto: PaginateBillingAccountsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.paginateBillingAccounts(
+      paginateDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':billingAccountId')
+  @ApiOperation({ summary: 'Get a billing account with its students' })
+  @ApiParam({ name: 'billingAccountId', description: 'Billing account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Billing account retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Billing account not found' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: BillingAccountResponseDto })
+  async getBillingAccount(
+    @Param() params: BillingAccountIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.getBillingAccount(
+      params.billingAccountId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':billingAccountId/statement')
+  @ApiOperation({
+    summary: 'Get the consolidated statement of a billing account',
+    description:
+      'Charges of every student of the account with per-student and overall totals, and the shared wallet balance',
+  })
+  @ApiParam({ name: 'billingAccountId', description: 'Billing account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Statement retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: BillingAccountStatementDto })
+  async getStatement(
+    @Param() params: BillingAccountIdParamDto,
+    @Query() query: BillingAccountStatementQueryDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.getStatement(
+      params.billingAccountId,
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a billing account',
+    description:
+      "Groups students under one payer with a shared wallet. Members' charges are paid from it only when payMemberCharges is enabled",
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Billing account created successfully',
+  })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_BILLING_ACCOUNTS)
+  @Transactional()
+  @SerializeOptions({ type: BillingAccountResponseDto })
+  async createBillingAccount(
+    @Body() dto: CreateBillingAccountDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.createBillingAccount(
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Put(':billingAccountId')
+  @ApiOperation({ summary: 'Update a billing account' })
+  @ApiParam({ name: 'billingAccountId', description: 'Billing account ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Billing account updated successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Billing account not found' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_BILLING_ACCOUNTS)
+  @Transactional()
+  @SerializeOptions({ type: BillingAccountResponseDto })
+  async updateBillingAccount(
+    @Param() params: BillingAccountIdParamDto,
+    @Body() dto: UpdateBillingAccountDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.updateBillingAccount(
+      params.billingAccountId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post(':billingAccountId/members')
+  @ApiOperation({ summary: 'Add a student to a billing account' })
+  @ApiParam({ name: 'billingAccountId', description: 'Billing account ID' })
+  @ApiResponse({ status: 201, description: 'Student added successfully' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_BILLING_ACCOUNTS)
+  @Transactional()
+  @SerializeOptions({ type: BillingAccountResponseDto })
+  async addMember(
+    @Param() params: BillingAccountIdParamDto,
+    @Body() dto: AddBillingAccountMemberDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.addMember(
+      params.billingAccountId,
+      dto.studentUserProfileId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':billingAccountId/members/:studentUserProfileId')
+  @ApiOperation({ summary: 'Remove a student from a billing account' })
+  @ApiParam({ name: 'billingAccountId', description: 'Billing account ID' })
+  @ApiParam({
+    name: 'studentUserProfileId',
+    description: 'Student user profile ID',
+  })
+  @ApiResponse({ status: 200, description: 'Student removed successfully' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_BILLING_ACCOUNTS)
+  @Transactional()
+  @SerializeOptions({ type: BillingAccountResponseDto })
+  async removeMember(
+    @Param() params: BillingAccountMemberParamsDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.removeMember(
+      params.billingAccountId,
+      params.studentUserProfileId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post(':billingAccountId/fund')
+  @ApiOperation({
+    summary: 'Fund the shared wallet of a billing account',
+    description:
+      "Moves money from the payer's or a student's wallet into the shared wallet",
+  })
+  @ApiParam({ name: 'billingAccountId', description: 'Billing account ID' })
+  @ApiResponse({ status: 201, description: 'Wallet funded successfully' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_BILLING_ACCOUNTS)
+  @Transactional()
+  async fundBillingAccount(
+    @Param() params: BillingAccountIdParamDto,
+    @Body() dto: FundBillingAccountDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.billingAccountsService.fundBillingAccount(
+      params.billingAccountId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { DiscountRulesService } from '../services/discount-rules.service';
+import { CreateDiscountRuleDto } from '../dto/create-discount-rule.dto';
+import { UpdateDiscountRuleDto } from '../dto/update-discount-rule.dto';
+import { PaginateDiscountRulesDto } from '../dto/paginate-discount-rules.dto';
+import { DiscountRuleResponseDto } from '../dto/discount-rule-response.dto';
+import { DiscountRuleIdParamDto } from '../dto/discount-rule-id-param.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Billing Discounts')
+@Controller('billing/discounts')
+@ManagerialOnly()
+export class DiscountRulesController {
+  constructor(private readonly discountRulesService: DiscountRulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the discount rules of the center' })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount rules retrieved successfully',
+  })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: DiscountRuleResponseDto })
+  async paginateDiscountRules(
+    @Query() paginateDto: PaginateDiscountRulesDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.discountRulesService.paginateDiscountRules(
+      paginateDto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get(':discountRuleId')
+  @ApiOperation({ summary: 'Get a discount rule' })
+  @ApiParam({ name: 'discountRuleId', description: 'Discount rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount rule retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Discount rule not found' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: DiscountRuleResponseDto })
+  async getDiscountRule(
+    @Param() params: DiscountRuleIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.discountRulesService.getDiscountRule(
+      params.discountRuleId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a discount rule',
+    description:
+      'General, scholarship and sibling rules apply automatically to new charges, promo code rules only when the code is entered',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Discount rule created successfully',
+  })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_DISCOUNTS)
+  @Transactional()
+  @SerializeOptions({ type: DiscountRuleResponseDto })
+  async createDiscountRule(
+    @Body() dto: CreateDiscountRuleDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.discountRulesService.createDiscountRule(
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Put(':discountRuleId')
+  @ApiOperation({ summary: 'Update a discount rule' })
+  @ApiParam({ name: 'discountRuleId', description: 'Discount rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount rule updated successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Discount rule not found' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_DISCOUNTS)
+  @Transactional()
+  @SerializeOptions({ type: DiscountRuleResponseDto })
+  async updateDiscountRule(
+    @Param() params: DiscountRuleIdParamDto,
+    @Body() dto: UpdateDiscountRuleDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.discountRulesService.updateDiscountRule(
+      params.discountRuleId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Delete(':discountRuleId')
+  @ApiOperation({ summary: 'Delete a discount rule' })
+  @ApiParam({ name: 'discountRuleId', description: 'Discount rule ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Discount rule deleted successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Discount rule not found' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_DISCOUNTS)
+  @Transactional()
+  async deleteDiscountRule(
+    @Param() params: DiscountRuleIdParamDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    await this.discountRulesService.deleteDiscountRule(
+      params.discountRuleId,
+      actor,
+    );
+    return ControllerResponse.success(null);
+  }
+}
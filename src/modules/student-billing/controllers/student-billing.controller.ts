@@ -2,6 +2,7 @@ import {
   Controller,
   Post,
   Get,
+  Put,
   Body,
   Param,
   Query,
@@ -11,12 +12,23 @@ import {
 import { Transactional } from '@nestjs-cls/transactional';
 import { StudentBillingService } from '../services/student-billing.service';
 import { StudentBillingRefundService } from '../services/student-billing-refund.service';
+import { BillingDocumentsService } from '../services/billing-documents.service';
+import { SubscriptionRenewalService } from '../services/subscription-renewal.service';
+import { StudentInstallmentsService } from '../services/student-installments.service';
 import { CreateStudentChargeDto } from '../dto/create-student-charge.dto';
 import { RefundStudentBillingDto } from '../dto/refund-student-billing.dto';
+import { StudentChargeRefund } from '../entities/student-charge-refund.entity';
+import { StudentChargeInstallment } from '../entities/student-charge-installment.entity';
 import { PayClassInstallmentDto } from '../dto/pay-class-installment.dto';
 import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
 import { StudentCharge } from '../entities/student-charge.entity';
 import { PaginateStudentBillingRecordsDto } from '../dto/paginate-student-billing-records.dto';
+import { StudentBillingSummaryQueryDto } from '../dto/student-billing-summary-query.dto';
+import { BillingDocumentDownloadQueryDto } from '../dto/billing-document-download-query.dto';
+import { BillingDocument } from '../entities/billing-document.entity';
+import { SubscriptionAutoRenewal } from '../entities/subscription-auto-renewal.entity';
+import { UpdateSubscriptionAutoRenewalDto } from '../dto/update-subscription-auto-renewal.dto';
+import { Locale } from '@/shared/common/enums/locale.enum';
 import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
 import { Pagination } from '@/shared/common/types/pagination.types';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
@@ -30,6 +42,9 @@ export class StudentBillingController {
   constructor(
     private readonly billingService: StudentBillingService,
     private readonly billingRefundService: StudentBillingRefundService,
+    private readonly billingDocumentsService: BillingDocumentsService,
+    private readonly subscriptionRenewalService: SubscriptionRenewalService,
+    private readonly studentInstallmentsService: StudentInstallmentsService,
   ) {}
 
   @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_CHARGE)
@@ -91,6 +106,38 @@ export class StudentBillingController {
     return ControllerResponse.success(record);
   }
 
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @Get('records/:id/documents')
+  async getBillingRecordDocuments(
+    @Param('id') id: string,
+    @GetUser() actor: ActorUser,
+  ): Promise<ControllerResponse<BillingDocument[]>> {
+    const documents = await this.billingDocumentsService.listChargeDocuments(
+      id,
+      actor,
+    );
+    return ControllerResponse.success(documents);
+  }
+
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @Get('records/:id/documents/:documentId/download')
+  async downloadBillingRecordDocument(
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Query() query: BillingDocumentDownloadQueryDto,
+    @GetUser() actor: ActorUser,
+  ): Promise<
+    ControllerResponse<{ documentNumber: string; locale: Locale; url: string }>
+  > {
+    const result = await this.billingDocumentsService.getDocumentDownloadUrl(
+      id,
+      documentId,
+      query.locale ?? Locale.EN,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Permissions(PERMISSIONS.STUDENT_BILLING.REFUND_BILLING)
   @Post('records/:id/refund')
   @HttpCode(HttpStatus.OK)
@@ -101,12 +148,35 @@ export class StudentBillingController {
   ): Promise<ControllerResponse<StudentCharge>> {
     const result = await this.billingRefundService.refundStudentBilling(
       billingRecordId,
-      dto.reason,
+      dto,
       actor,
     );
     return ControllerResponse.success(result);
   }
 
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @Get('records/:id/refunds')
+  async getBillingRecordRefunds(
+    @Param('id') id: string,
+    @GetUser() actor: ActorUser,
+  ): Promise<ControllerResponse<StudentChargeRefund[]>> {
+    const refunds = await this.billingRefundService.listRefunds(id, actor);
+    return ControllerResponse.success(refunds);
+  }
+
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @Get('records/:id/installments')
+  async getBillingRecordInstallments(
+    @Param('id') id: string,
+    @GetUser() actor: ActorUser,
+  ): Promise<ControllerResponse<StudentChargeInstallment[]>> {
+    const installments = await this.studentInstallmentsService.listForCharge(
+      id,
+      actor,
+    );
+    return ControllerResponse.success(installments);
+  }
+
   @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_CHARGE)
   @Post('classes/pay-installment/cash')
   @Transactional()
@@ -158,15 +228,49 @@ export class StudentBillingController {
     return ControllerResponse.success(result);
   }
 
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @Get('classes/:classId/students/:studentUserProfileId/auto-renewal')
+  async getSubscriptionAutoRenewal(
+    @Param('classId') classId: string,
+    @Param('studentUserProfileId') studentUserProfileId: string,
+    @GetUser() actor: ActorUser,
+  ): Promise<ControllerResponse<SubscriptionAutoRenewal>> {
+    const result = await this.subscriptionRenewalService.getAutoRenewal(
+      classId,
+      studentUserProfileId,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_CHARGE)
+  @Put('classes/:classId/students/:studentUserProfileId/auto-renewal')
+  async setSubscriptionAutoRenewal(
+    @Param('classId') classId: string,
+    @Param('studentUserProfileId') studentUserProfileId: string,
+    @Body() dto: UpdateSubscriptionAutoRenewalDto,
+    @GetUser() actor: ActorUser,
+  ): Promise<ControllerResponse<SubscriptionAutoRenewal>> {
+    const result = await this.subscriptionRenewalService.setAutoRenewal(
+      classId,
+      studentUserProfileId,
+      dto,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
   @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
   @Get('students/:studentUserProfileId/progress/summary')
   async getStudentBillingSummary(
     @Param('studentUserProfileId') studentUserProfileId: string,
+    @Query() query: StudentBillingSummaryQueryDto,
     @GetUser() actor: ActorUser,
   ): Promise<ControllerResponse<any>> {
     const result = await this.billingService.getStudentBillingSummary(
       studentUserProfileId,
       actor,
+      query.termId,
     );
     return ControllerResponse.success(result);
   }
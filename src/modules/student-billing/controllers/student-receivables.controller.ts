@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Put,
+  Query,
+  SerializeOptions,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Transactional } from '@nestjs-cls/transactional';
+import { StudentReceivablesService } from '../services/student-receivables.service';
+import { StudentDunningService } from '../services/student-dunning.service';
+import { ReceivablesAgingQueryDto } from '../dto/receivables-aging-query.dto';
+import { ReceivablesAgingReportDto } from '../dto/receivables-aging-response.dto';
+import { DunningScheduleDto } from '../dto/dunning-schedule.dto';
+import { DunningScheduleResponseDto } from '../dto/dunning-schedule-response.dto';
+import { Permissions } from '@/shared/common/decorators/permissions.decorator';
+import { PERMISSIONS } from '@/modules/access-control/constants/permissions';
+import { GetUser, ManagerialOnly } from '@/shared/common/decorators';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ControllerResponse } from '@/shared/common/dto/controller-response.dto';
+
+@ApiTags('Billing Receivables')
+@Controller('billing/receivables')
+@ManagerialOnly()
+export class StudentReceivablesController {
+  constructor(
+    private readonly studentReceivablesService: StudentReceivablesService,
+    private readonly studentDunningService: StudentDunningService,
+  ) {}
+
+  @Get('aging')
+  @ApiOperation({
+    summary: 'Get the accounts-receivable aging report',
+    description:
+      'Partly paid class charges, lapsed monthly subscriptions and attended but unpaid sessions, in 0-30/31-60/61-90/90+ day buckets with totals per student',
+  })
+  @ApiResponse({ status: 200, description: 'Report retrieved successfully' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: ReceivablesAgingReportDto })
+  async getAgingReport(
+    @Query() query: ReceivablesAgingQueryDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.studentReceivablesService.getAgingReport(
+      query,
+      actor,
+    );
+    return ControllerResponse.success(result);
+  }
+
+  @Get('dunning-schedule')
+  @ApiOperation({ summary: 'Get the payment reminder schedule of the center' })
+  @ApiResponse({ status: 200, description: 'Schedule retrieved successfully' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.READ_STUDENT_RECORDS)
+  @SerializeOptions({ type: DunningScheduleResponseDto })
+  async getDunningSchedule(@GetUser() actor: ActorUser) {
+    const result = await this.studentDunningService.getSchedule(actor);
+    return ControllerResponse.success(result);
+  }
+
+  @Put('dunning-schedule')
+  @ApiOperation({
+    summary: 'Set the payment reminder schedule of the center',
+    description:
+      'Reminders are sent daily for partly paid class charges and stop once the charge is fully paid',
+  })
+  @ApiBody({ type: DunningScheduleDto })
+  @ApiResponse({ status: 200, description: 'Schedule saved successfully' })
+  @Permissions(PERMISSIONS.STUDENT_BILLING.MANAGE_DUNNING)
+  @Transactional()
+  @SerializeOptions({ type: DunningScheduleResponseDto })
+  async upsertDunningSchedule(
+    @Body() dto: DunningScheduleDto,
+    @GetUser() actor: ActorUser,
+  ) {
+    const result = await this.studentDunningService.upsertSchedule(dto, actor);
+    return ControllerResponse.success(result);
+  }
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { IsUserProfile } from '@/shared/common/decorators';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+
+export class AddBillingAccountMemberDto {
+  @ApiProperty({ description: 'Student to add to the account' })
+  @IsUUID()
+  @IsUserProfile(ProfileType.STUDENT)
+  studentUserProfileId: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { BillingAccount } from '../entities/billing-account.entity';
+
+export class BillingAccountIdParamDto {
+  @ApiProperty({
+    description: 'Billing account ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(BillingAccount)
+  billingAccountId: string;
+}
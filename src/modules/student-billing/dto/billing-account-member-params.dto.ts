@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BillingAccountIdParamDto } from './billing-account-id-param.dto';
+
+export class BillingAccountMemberParamsDto extends BillingAccountIdParamDto {
+  @ApiProperty({
+    description: 'Student user profile ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  studentUserProfileId: string;
+}
@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+export class BillingAccountMemberResponseDto {
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ description: 'Added at timestamp' })
+  @Expose()
+  createdAt: Date;
+}
+
+export class BillingAccountResponseDto {
+  @ApiProperty({ description: 'Billing account ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Center ID' })
+  @Expose()
+  centerId: string;
+
+  @ApiProperty({ description: 'Account name' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Paying parent or guardian', nullable: true })
+  @Expose()
+  payerUserProfileId: string | null;
+
+  @ApiProperty({
+    description: "Whether members' charges are paid from the shared wallet",
+  })
+  @Expose()
+  payMemberCharges: boolean;
+
+  @ApiProperty({
+    type: [BillingAccountMemberResponseDto],
+    description: 'Students of the account (single account only)',
+    required: false,
+  })
+  @Expose()
+  @Type(() => BillingAccountMemberResponseDto)
+  members?: BillingAccountMemberResponseDto[];
+
+  @ApiProperty({ description: 'Created at timestamp' })
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Updated at timestamp' })
+  @Expose()
+  updatedAt: Date;
+}
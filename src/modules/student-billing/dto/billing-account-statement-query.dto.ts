@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class BillingAccountStatementQueryDto {
+  @ApiProperty({
+    description: 'Only include charges created on or after this date',
+    example: '2026-09-01',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiProperty({
+    description: 'Only include charges created on or before this date',
+    example: '2026-09-30',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+}
@@ -0,0 +1,107 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { StudentChargeStatus, StudentChargeType } from '../enums';
+
+export class StatementTotalsDto {
+  @ApiProperty({ description: 'Sum of charge amounts' })
+  @Expose()
+  amount: number;
+
+  @ApiProperty({ description: 'Sum paid on the charges' })
+  @Expose()
+  paid: number;
+
+  @ApiProperty({ description: 'Sum refunded on the charges' })
+  @Expose()
+  refunded: number;
+
+  @ApiProperty({ description: 'Still owed on open class charges' })
+  @Expose()
+  outstanding: number;
+}
+
+export class StatementChargeDto {
+  @ApiProperty({ description: 'Charge ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ enum: StudentChargeType, description: 'Charge type' })
+  @Expose()
+  chargeType: StudentChargeType;
+
+  @ApiProperty({ enum: StudentChargeStatus, description: 'Charge status' })
+  @Expose()
+  status: StudentChargeStatus;
+
+  @ApiProperty({ description: 'Class ID' })
+  @Expose()
+  classId: string;
+
+  @ApiProperty({ description: 'Class name', nullable: true })
+  @Expose()
+  className: string | null;
+
+  @ApiProperty({ description: 'Charge amount' })
+  @Expose()
+  amount: number;
+
+  @ApiProperty({ description: 'Paid so far' })
+  @Expose()
+  totalPaid: number;
+
+  @ApiProperty({ description: 'Refunded so far' })
+  @Expose()
+  totalRefunded: number;
+
+  @ApiProperty({ description: 'Created at timestamp' })
+  @Expose()
+  createdAt: Date;
+}
+
+export class StatementStudentDto {
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ description: 'Student name' })
+  @Expose()
+  studentName: string;
+
+  @ApiProperty({ description: 'Student code' })
+  @Expose()
+  studentCode: string;
+
+  @ApiProperty({ type: StatementTotalsDto })
+  @Expose()
+  @Type(() => StatementTotalsDto)
+  totals: StatementTotalsDto;
+
+  @ApiProperty({ type: [StatementChargeDto] })
+  @Expose()
+  @Type(() => StatementChargeDto)
+  charges: StatementChargeDto[];
+}
+
+export class BillingAccountStatementDto {
+  @ApiProperty({ description: 'Billing account ID' })
+  @Expose()
+  billingAccountId: string;
+
+  @ApiProperty({ description: 'Account name' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Current balance of the shared wallet' })
+  @Expose()
+  walletBalance: number;
+
+  @ApiProperty({ type: StatementTotalsDto, description: 'All students' })
+  @Expose()
+  @Type(() => StatementTotalsDto)
+  totals: StatementTotalsDto;
+
+  @ApiProperty({ type: [StatementStudentDto] })
+  @Expose()
+  @Type(() => StatementStudentDto)
+  students: StatementStudentDto[];
+}
@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Locale } from '@/shared/common/enums/locale.enum';
+
+export class BillingDocumentDownloadQueryDto {
+  @ApiProperty({
+    description: 'Language of the rendered PDF',
+    enum: Locale,
+    required: false,
+    default: Locale.EN,
+  })
+  @IsOptional()
+  @IsEnum(Locale)
+  locale?: Locale;
+}
@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { IsUserProfile } from '@/shared/common/decorators';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+
+export class CreateBillingAccountDto {
+  @ApiProperty({ description: 'Account name', example: 'Hassan family' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'Parent or guardian paying for the account',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID()
+  @IsUserProfile(ProfileType.PARENT)
+  payerUserProfileId?: string | null;
+
+  @ApiProperty({
+    description:
+      "Pay members' wallet charges from the shared wallet when its balance covers them, otherwise they are paid from the student's own wallet",
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  payMemberCharges?: boolean;
+
+  @ApiProperty({
+    description: 'Students to add to the account',
+    type: [String],
+    required: false,
+    maxItems: 20,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsUserProfile(ProfileType.STUDENT, { each: true })
+  studentUserProfileIds?: string[];
+}
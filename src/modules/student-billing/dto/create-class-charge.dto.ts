@@ -1,4 +1,12 @@
-import { IsUUID, IsEnum, IsNumber, Min, IsOptional } from 'class-validator';
+import {
+  IsUUID,
+  IsEnum,
+  IsNumber,
+  Min,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
 import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
 import { ProfileType } from '@/shared/common/enums/profile-type.enum';
@@ -23,4 +31,9 @@ export class CreateClassChargeDto {
   @IsOptional()
   @IsUUID()
   idempotencyKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  promoCode?: string;
 }
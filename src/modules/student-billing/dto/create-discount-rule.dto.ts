@@ -0,0 +1,163 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
+import { IsoUtcDate } from '@/shared/common/decorators/is-iso-datetime.decorator';
+import { ProfileType } from '@/shared/common/enums/profile-type.enum';
+import { Class } from '@/modules/classes/entities/class.entity';
+import { StudentChargeType } from '../enums';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+import { DiscountValueType } from '../enums/discount-value-type.enum';
+
+export const DISCOUNTABLE_CHARGE_TYPES = [
+  StudentChargeType.SUBSCRIPTION,
+  StudentChargeType.SESSION,
+  StudentChargeType.CLASS,
+];
+
+export class CreateDiscountRuleDto {
+  @ApiProperty({
+    description: 'Name of the discount shown on charges',
+    example: 'Early bird 10%',
+    maxLength: 255,
+  })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'How the rule is matched to a charge',
+    enum: DiscountRuleKind,
+    example: DiscountRuleKind.GENERAL,
+  })
+  @IsEnum(DiscountRuleKind)
+  kind: DiscountRuleKind;
+
+  @ApiProperty({
+    description: 'Whether the value is a percentage or a fixed amount',
+    enum: DiscountValueType,
+    example: DiscountValueType.PERCENTAGE,
+  })
+  @IsEnum(DiscountValueType)
+  valueType: DiscountValueType;
+
+  @ApiProperty({
+    description: 'Percent (up to 100) or fixed amount taken off the price',
+    example: 10,
+    minimum: 0.01,
+  })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  value: number;
+
+  @ApiProperty({
+    description:
+      'Charge types the rule applies to (SUBSCRIPTION is the monthly charge). Defaults to all.',
+    enum: DISCOUNTABLE_CHARGE_TYPES,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(DISCOUNTABLE_CHARGE_TYPES, { each: true })
+  chargeTypes?: StudentChargeType[];
+
+  @ApiProperty({
+    description: 'Limit the rule to one class',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(Class)
+  classId?: string;
+
+  @ApiProperty({
+    description: 'Scholarship student (required for SCHOLARSHIP rules)',
+    required: false,
+  })
+  @ValidateIf(
+    (o: CreateDiscountRuleDto) =>
+      o.kind === DiscountRuleKind.SCHOLARSHIP ||
+      o.studentUserProfileId !== undefined,
+  )
+  @IsUUID()
+  @IsUserProfile(ProfileType.STUDENT)
+  studentUserProfileId?: string;
+
+  @ApiProperty({
+    description:
+      'Enrolled siblings the student needs for a SIBLING rule to apply',
+    required: false,
+    default: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minSiblings?: number;
+
+  @ApiProperty({
+    description: 'Promo code (required for PROMO_CODE rules), case-insensitive',
+    example: 'SUMMER25',
+    required: false,
+  })
+  @ValidateIf(
+    (o: CreateDiscountRuleDto) =>
+      o.kind === DiscountRuleKind.PROMO_CODE || o.promoCode !== undefined,
+  )
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : value,
+  )
+  @IsString()
+  @Matches(/^[A-Z0-9_-]{3,50}$/)
+  promoCode?: string;
+
+  @ApiProperty({
+    description: 'Maximum number of charges a promo code can be used on',
+    required: false,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
+
+  @ApiProperty({
+    description: 'Rule is ignored before this date',
+    required: false,
+    type: Date,
+  })
+  @IsOptional()
+  @IsoUtcDate()
+  startsAt?: Date;
+
+  @ApiProperty({
+    description: 'Rule is ignored from this date on',
+    required: false,
+    type: Date,
+  })
+  @IsOptional()
+  @IsoUtcDate()
+  expiresAt?: Date;
+
+  @ApiProperty({ required: false, default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -1,4 +1,13 @@
-import { IsUUID, IsEnum, IsInt, Min, Max, IsOptional } from 'class-validator';
+import {
+  IsUUID,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
 import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
 import { ProfileType } from '@/shared/common/enums/profile-type.enum';
@@ -60,4 +69,14 @@ export class CreateMonthlySubscriptionDto {
   @IsOptional()
   @IsUUID()
   idempotencyKey?: string;
+
+  @ApiProperty({
+    description: 'Promo code to apply on top of automatic discounts',
+    example: 'SUMMER25',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  promoCode?: string;
 }
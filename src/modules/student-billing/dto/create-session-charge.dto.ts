@@ -1,4 +1,10 @@
-import { IsUUID, IsEnum, IsOptional } from 'class-validator';
+import {
+  IsUUID,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
 import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
 import { ProfileType } from '@/shared/common/enums/profile-type.enum';
@@ -19,4 +25,9 @@ export class CreateSessionChargeDto {
   @IsOptional()
   @IsUUID()
   idempotencyKey?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  promoCode?: string;
 }
@@ -7,6 +7,8 @@ import {
   Max,
   ValidateIf,
   IsOptional,
+  IsString,
+  MaxLength,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { BelongsToCenter, IsUserProfile } from '@/shared/common/decorators';
@@ -106,4 +108,14 @@ export class CreateStudentChargeDto {
   @IsOptional()
   @IsUUID()
   idempotencyKey?: string;
+
+  @ApiProperty({
+    description: 'Promo code to apply on top of automatic discounts',
+    example: 'SUMMER25',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  promoCode?: string;
 }
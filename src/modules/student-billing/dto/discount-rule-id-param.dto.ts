@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+import { BelongsToCenter } from '@/shared/common/decorators/belongs-to-center.decorator';
+import { DiscountRule } from '../entities/discount-rule.entity';
+
+export class DiscountRuleIdParamDto {
+  @ApiProperty({
+    description: 'Discount rule ID',
+    example: 'uuid',
+    format: 'uuid',
+  })
+  @IsUUID()
+  @BelongsToCenter(DiscountRule)
+  discountRuleId: string;
+}
@@ -0,0 +1,83 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose } from 'class-transformer';
+import { StudentChargeType } from '../enums';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+import { DiscountValueType } from '../enums/discount-value-type.enum';
+
+export class DiscountRuleResponseDto {
+  @ApiProperty({ description: 'Discount rule ID' })
+  @Expose()
+  id: string;
+
+  @ApiProperty({ description: 'Center ID' })
+  @Expose()
+  centerId: string;
+
+  @ApiProperty({ description: 'Rule name' })
+  @Expose()
+  name: string;
+
+  @ApiProperty({ description: 'Rule kind', enum: DiscountRuleKind })
+  @Expose()
+  kind: DiscountRuleKind;
+
+  @ApiProperty({ description: 'Value type', enum: DiscountValueType })
+  @Expose()
+  valueType: DiscountValueType;
+
+  @ApiProperty({ description: 'Percent or fixed amount' })
+  @Expose()
+  value: number;
+
+  @ApiProperty({
+    description: 'Charge types the rule applies to',
+    enum: StudentChargeType,
+    isArray: true,
+  })
+  @Expose()
+  chargeTypes: StudentChargeType[];
+
+  @ApiProperty({ description: 'Class the rule is limited to', nullable: true })
+  @Expose()
+  classId: string | null;
+
+  @ApiProperty({ description: 'Scholarship student', nullable: true })
+  @Expose()
+  studentUserProfileId: string | null;
+
+  @ApiProperty({ description: 'Required enrolled siblings', nullable: true })
+  @Expose()
+  minSiblings: number | null;
+
+  @ApiProperty({ description: 'Promo code', nullable: true })
+  @Expose()
+  promoCode: string | null;
+
+  @ApiProperty({ description: 'Promo code usage limit', nullable: true })
+  @Expose()
+  maxUses: number | null;
+
+  @ApiProperty({ description: 'Charges the promo code was used on' })
+  @Expose()
+  usedCount: number;
+
+  @ApiProperty({ description: 'Start date', nullable: true })
+  @Expose()
+  startsAt: Date | null;
+
+  @ApiProperty({ description: 'Expiry date', nullable: true })
+  @Expose()
+  expiresAt: Date | null;
+
+  @ApiProperty({ description: 'Whether the rule is active' })
+  @Expose()
+  isActive: boolean;
+
+  @ApiProperty({ description: 'Created at timestamp' })
+  @Expose()
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Updated at timestamp' })
+  @Expose()
+  updatedAt: Date;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { DunningReminderLevel } from '../enums/dunning-reminder-level.enum';
+
+export class DunningStepResponseDto {
+  @ApiProperty({ description: 'Days after charge creation' })
+  @Expose()
+  afterDays: number;
+
+  @ApiProperty({ enum: DunningReminderLevel })
+  @Expose()
+  level: DunningReminderLevel;
+}
+
+export class DunningScheduleResponseDto {
+  @ApiProperty({ description: 'Whether reminders are sent' })
+  @Expose()
+  isEnabled: boolean;
+
+  @ApiProperty({ type: [DunningStepResponseDto] })
+  @Expose()
+  @Type(() => DunningStepResponseDto)
+  steps: DunningStepResponseDto[];
+
+  @ApiProperty({
+    description: 'True while the center has not saved its own schedule',
+  })
+  @Expose()
+  isDefault: boolean;
+}
@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { DunningReminderLevel } from '../enums/dunning-reminder-level.enum';
+import { DUNNING_MAX_STEPS } from '../constants/student-billing.constants';
+
+export class DunningStepDto {
+  @ApiProperty({
+    description:
+      'Days after the charge was created before the reminder is sent',
+    example: 7,
+    minimum: 1,
+    maximum: 365,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  afterDays: number;
+
+  @ApiProperty({
+    enum: DunningReminderLevel,
+    description:
+      'REMINDER goes to the student over WhatsApp, FINAL_NOTICE to the student and parents over WhatsApp and SMS',
+    example: DunningReminderLevel.REMINDER,
+  })
+  @IsEnum(DunningReminderLevel)
+  level: DunningReminderLevel;
+}
+
+export class DunningScheduleDto {
+  @ApiProperty({
+    description: 'Send the reminders for partly paid class charges',
+    example: true,
+  })
+  @IsBoolean()
+  isEnabled: boolean;
+
+  @ApiProperty({
+    type: [DunningStepDto],
+    description: 'Reminder steps, each with distinct afterDays',
+    maxItems: DUNNING_MAX_STEPS,
+  })
+  @IsArray()
+  @ArrayMaxSize(DUNNING_MAX_STEPS)
+  @ValidateNested({ each: true })
+  @Type(() => DunningStepDto)
+  steps: DunningStepDto[];
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsOptional, IsUUID, Min } from 'class-validator';
+
+export class FundBillingAccountDto {
+  @ApiProperty({
+    description:
+      "Payer or member whose wallet the amount is moved from into the account's shared wallet",
+  })
+  @IsUUID()
+  fromUserProfileId: string;
+
+  @ApiProperty({ description: 'Amount to move', example: 500, minimum: 0.01 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({
+    description: 'Idempotency key to prevent duplicate transfers',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  idempotencyKey?: string;
+}
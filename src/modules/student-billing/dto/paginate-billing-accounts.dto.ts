@@ -0,0 +1,3 @@
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+
+export class PaginateBillingAccountsDto extends BasePaginationDto {}
@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BasePaginationDto } from '@/shared/common/dto/base-pagination.dto';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+
+export class PaginateDiscountRulesDto extends BasePaginationDto {
+  @ApiProperty({
+    description: 'Filter by rule kind',
+    enum: DiscountRuleKind,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(DiscountRuleKind)
+  kind?: DiscountRuleKind;
+}
@@ -55,4 +55,12 @@ export class PaginateStudentBillingRecordsDto extends BasePaginationDto {
   @IsOptional()
   @IsUUID()
   branchId?: string;
+
+  @ApiProperty({
+    description: 'Filter by academic term ID',
+    type: String,
+  })
+  @IsOptional()
+  @IsUUID()
+  termId?: string;
 }
@@ -0,0 +1,27 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BelongsToCenter } from '@/shared/common/decorators';
+import { Branch } from '@/modules/centers/entities/branch.entity';
+import { Class } from '@/modules/classes/entities/class.entity';
+
+export class ReceivablesAgingQueryDto {
+  @ApiProperty({
+    description: 'Only include receivables of this branch',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(Branch)
+  branchId?: string;
+
+  @ApiProperty({
+    description: 'Only include receivables of this class',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(Class)
+  classId?: string;
+}
@@ -0,0 +1,126 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { ReceivableSource } from '../enums/receivable-source.enum';
+
+export class AgingBucketsDto {
+  @ApiProperty({ description: 'Outstanding for 0-30 days' })
+  @Expose()
+  days0To30: number;
+
+  @ApiProperty({ description: 'Outstanding for 31-60 days' })
+  @Expose()
+  days31To60: number;
+
+  @ApiProperty({ description: 'Outstanding for 61-90 days' })
+  @Expose()
+  days61To90: number;
+
+  @ApiProperty({ description: 'Outstanding for more than 90 days' })
+  @Expose()
+  over90Days: number;
+
+  @ApiProperty({ description: 'Total outstanding' })
+  @Expose()
+  total: number;
+}
+
+export class ReceivableItemDto {
+  @ApiProperty({ enum: ReceivableSource, description: 'What is owed' })
+  @Expose()
+  source: ReceivableSource;
+
+  @ApiProperty({ description: 'Class ID' })
+  @Expose()
+  classId: string;
+
+  @ApiProperty({ description: 'Class name' })
+  @Expose()
+  className: string;
+
+  @ApiProperty({ description: 'Branch ID' })
+  @Expose()
+  branchId: string;
+
+  @ApiProperty({
+    description: 'Installment charge ID (INSTALLMENT_CHARGE only)',
+    nullable: true,
+  })
+  @Expose()
+  chargeId: string | null;
+
+  @ApiProperty({
+    description: 'Attended session ID (UNPAID_SESSION only)',
+    nullable: true,
+  })
+  @Expose()
+  sessionId: string | null;
+
+  @ApiProperty({
+    description: 'Unpaid month 1-12 (LAPSED_SUBSCRIPTION only)',
+    nullable: true,
+  })
+  @Expose()
+  month: number | null;
+
+  @ApiProperty({
+    description: 'Unpaid year (LAPSED_SUBSCRIPTION only)',
+    nullable: true,
+  })
+  @Expose()
+  year: number | null;
+
+  @ApiProperty({ description: 'Amount owed' })
+  @Expose()
+  amount: number;
+
+  @ApiProperty({ description: 'Date the debt started aging from' })
+  @Expose()
+  since: Date;
+
+  @ApiProperty({ description: 'Days since the debt started aging' })
+  @Expose()
+  daysOutstanding: number;
+}
+
+export class StudentReceivablesDto {
+  @ApiProperty({ description: 'Student user profile ID' })
+  @Expose()
+  studentUserProfileId: string;
+
+  @ApiProperty({ description: 'Student full name' })
+  @Expose()
+  studentName: string;
+
+  @ApiProperty({ description: 'Student code', nullable: true })
+  @Expose()
+  studentCode: string | null;
+
+  @ApiProperty({ type: AgingBucketsDto })
+  @Expose()
+  @Type(() => AgingBucketsDto)
+  aging: AgingBucketsDto;
+
+  @ApiProperty({ type: [ReceivableItemDto] })
+  @Expose()
+  @Type(() => ReceivableItemDto)
+  items: ReceivableItemDto[];
+}
+
+export class ReceivablesAgingReportDto {
+  @ApiProperty({ description: 'Time the report was computed at' })
+  @Expose()
+  asOf: Date;
+
+  @ApiProperty({ type: AgingBucketsDto })
+  @Expose()
+  @Type(() => AgingBucketsDto)
+  aging: AgingBucketsDto;
+
+  @ApiProperty({
+    type: [StudentReceivablesDto],
+    description: 'Students with an outstanding balance, largest first',
+  })
+  @Expose()
+  @Type(() => StudentReceivablesDto)
+  students: StudentReceivablesDto[];
+}
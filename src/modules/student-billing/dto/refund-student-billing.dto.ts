@@ -1,7 +1,34 @@
-import { IsString, IsOptional, IsNotEmpty } from 'class-validator';
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsEnum,
+  IsNumber,
+  IsPositive,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RefundDestination } from '../enums/refund-destination.enum';
 
 export class RefundStudentBillingDto {
+  @ApiPropertyOptional({
+    description:
+      'Amount to refund. Defaults to everything paid and not yet refunded.',
+    example: 150,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  amount?: number;
+
+  @ApiProperty({
+    description:
+      "Where the money goes: the wallet that paid (the student's or their family billing account's), cash from the branch cashbox, or back through the payment gateway",
+    enum: RefundDestination,
+    example: RefundDestination.WALLET,
+  })
+  @IsEnum(RefundDestination)
+  destination: RefundDestination;
+
   @ApiPropertyOptional({
     description: 'Reason for the refund request (optional)',
     example: 'Student cancelled before attending any sessions',
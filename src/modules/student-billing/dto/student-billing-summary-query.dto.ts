@@ -0,0 +1,16 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BelongsToCenter } from '@/shared/common/decorators';
+import { AcademicTerm } from '@/modules/academic-terms/entities/academic-term.entity';
+
+export class StudentBillingSummaryQueryDto {
+  @ApiProperty({
+    description: 'Only include charges of classes in this academic term',
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID()
+  @BelongsToCenter(AcademicTerm)
+  termId?: string;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateBillingAccountDto } from './create-billing-account.dto';
+
+// Members are managed through the member endpoints
+export class UpdateBillingAccountDto extends PartialType(
+  OmitType(CreateBillingAccountDto, ['studentUserProfileIds'] as const),
+) {}
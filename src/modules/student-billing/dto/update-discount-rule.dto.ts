@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateDiscountRuleDto } from './create-discount-rule.dto';
+
+export class UpdateDiscountRuleDto extends PartialType(
+  OmitType(CreateDiscountRuleDto, ['kind'] as const),
+) {}
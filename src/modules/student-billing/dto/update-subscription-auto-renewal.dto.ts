@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class UpdateSubscriptionAutoRenewalDto {
+  @ApiProperty({
+    description:
+      'Renew the monthly subscription from the student wallet before each month starts',
+    example: true,
+  })
+  @IsBoolean()
+  isActive: boolean;
+}
@@ -0,0 +1,33 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { BillingAccount } from './billing-account.entity';
+
+/**
+ * A student of a billing account. A student belongs to at most one billing
+ * account per center.
+ */
+@Entity('billing_account_members')
+@Index(['centerId', 'studentUserProfileId'], { unique: true })
+@Index(['billingAccountId'])
+export class BillingAccountMember extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  billingAccountId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  // Relations
+  @ManyToOne(() => BillingAccount, (account) => account.members, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'billingAccountId' })
+  billingAccount: BillingAccount;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student: UserProfile;
+}
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  Column,
+  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { BillingAccountMember } from './billing-account-member.entity';
+
+/**
+ * A family account that groups students of a center under one payer. It owns
+ * a shared wallet (WalletOwnerType.BILLING_ACCOUNT) the charges of its
+ * members can be paid from.
+ */
+@Entity('billing_accounts')
+@Index(['centerId'])
+export class BillingAccount extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  // Parent or guardian paying for the account, may fund the shared wallet
+  @Column({ type: 'uuid', nullable: true })
+  payerUserProfileId?: string | null;
+
+  // Pay member wallet charges from the shared wallet when its balance covers them
+  @Column({ type: 'boolean', default: false })
+  payMemberCharges: boolean;
+
+  // Relations
+  @ManyToOne(() => UserProfile, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'payerUserProfileId' })
+  payer?: UserProfile;
+
+  @OneToMany(() => BillingAccountMember, (member) => member.billingAccount)
+  members: BillingAccountMember[];
+}
@@ -0,0 +1,27 @@
+import {
+  Entity,
+  Column,
+  Index,
+  BaseEntity,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { BillingDocumentType } from '../enums/billing-document-type.enum';
+
+@Entity('billing_document_counters')
+@Index(['branchId', 'documentType', 'yearYY'], { unique: true })
+export class BillingDocumentCounter extends BaseEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  branchId: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  documentType: BillingDocumentType;
+
+  @Column({ type: 'varchar', length: 2 })
+  yearYY: string;
+
+  @Column({ type: 'int', default: 0 })
+  currentValue: number;
+}
@@ -0,0 +1,49 @@
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Entity, Column, Index, JoinColumn, ManyToOne } from 'typeorm';
+import { Branch } from '@/modules/centers/entities/branch.entity';
+import { StudentCharge } from './student-charge.entity';
+import { BillingDocumentType } from '../enums/billing-document-type.enum';
+
+@Entity('billing_documents')
+@Index(['branchId', 'documentNumber'], { unique: true })
+export class BillingDocument extends BaseEntity {
+  @Column('uuid')
+  @Index()
+  centerId: string;
+
+  @Column('uuid')
+  branchId: string;
+
+  @Column('uuid')
+  @Index()
+  studentChargeId: string;
+
+  @Column('uuid')
+  @Index()
+  studentUserProfileId: string;
+
+  // Payment the receipt or credit note was issued for (null for invoices)
+  @Column('uuid', { nullable: true })
+  paymentId?: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  documentType: BillingDocumentType;
+
+  // Per-branch sequence, e.g. INV-26-000001
+  @Column({ type: 'varchar', length: 20 })
+  documentNumber: string;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount: number;
+
+  @Column('timestamptz')
+  issuedAt: Date;
+
+  @ManyToOne(() => StudentCharge)
+  @JoinColumn({ name: 'studentChargeId' })
+  studentCharge: StudentCharge;
+
+  @ManyToOne(() => Branch)
+  @JoinColumn({ name: 'branchId' })
+  branch: Branch;
+}
@@ -0,0 +1,80 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { SoftBaseEntity } from '@/shared/common/entities/soft-base.entity';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { Class } from '@/modules/classes/entities/class.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { StudentChargeType } from '../enums';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+import { DiscountValueType } from '../enums/discount-value-type.enum';
+
+@Entity('discount_rules')
+@Index(['centerId', 'kind'])
+@Index(['studentUserProfileId'])
+@Index(['centerId', 'promoCode'], {
+  where: '"deletedAt" IS NULL AND "promoCode" IS NOT NULL',
+  unique: true,
+})
+@Index(['createdAt']) // For chronological sorting
+export class DiscountRule extends SoftBaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  kind: DiscountRuleKind;
+
+  @Column({ type: 'varchar', length: 20 })
+  valueType: DiscountValueType;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  value: number;
+
+  @Column({ type: 'jsonb' })
+  chargeTypes: StudentChargeType[];
+
+  // Limits the rule to one class, applies to all classes of the center when null
+  @Column({ type: 'uuid', nullable: true })
+  classId?: string | null;
+
+  // SCHOLARSHIP only
+  @Column({ type: 'uuid', nullable: true })
+  studentUserProfileId?: string | null;
+
+  // SIBLING only: enrolled siblings the student needs for the rule to apply
+  @Column({ type: 'int', nullable: true })
+  minSiblings?: number | null;
+
+  // PROMO_CODE only, stored upper-cased
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  promoCode?: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  maxUses?: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  usedCount: number;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  startsAt?: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  // Relations
+  @ManyToOne(() => Center, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+
+  @ManyToOne(() => Class, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'classId' })
+  class?: Class;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student?: UserProfile;
+}
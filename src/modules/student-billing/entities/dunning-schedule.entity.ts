@@ -0,0 +1,26 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Center } from '@/modules/centers/entities/center.entity';
+import { DunningStep } from '../interfaces/dunning-step.interface';
+
+/**
+ * Payment reminders a center sends for partly paid charges.
+ * Steps are kept sorted by afterDays.
+ */
+@Entity('dunning_schedules')
+@Index(['centerId'], { unique: true })
+export class DunningSchedule extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'boolean', default: false })
+  isEnabled: boolean;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  steps: DunningStep[];
+
+  // Relations
+  @ManyToOne(() => Center, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'centerId' })
+  center: Center;
+}
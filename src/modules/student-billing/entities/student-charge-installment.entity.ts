@@ -0,0 +1,50 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { StudentCharge } from './student-charge.entity';
+import { InstallmentStatus } from '../enums/installment-status.enum';
+
+/**
+ * One scheduled installment of a class charge, generated from the
+ * installment plan of the class payment strategy. Payments of the charge
+ * cover the installments in sequence order.
+ */
+@Entity('student_charge_installments')
+@Index(['centerId', 'status'])
+@Index(['studentChargeId', 'sequence'], { unique: true })
+export class StudentChargeInstallment extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  studentChargeId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'int' })
+  sequence: number; // 1-based, in due date order
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount: number;
+
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  paidAmount: number;
+
+  @Column({ type: 'date' })
+  dueDate: string; // YYYY-MM-DD in the center timezone
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: InstallmentStatus.PENDING,
+  })
+  status: InstallmentStatus;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  paidAt?: Date | null;
+
+  // Relations
+  @ManyToOne(() => StudentCharge, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentChargeId' })
+  charge: StudentCharge;
+}
@@ -0,0 +1,46 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { StudentCharge } from './student-charge.entity';
+import { RefundDestination } from '../enums/refund-destination.enum';
+
+/**
+ * One refund against a student charge. A charge can be refunded in several
+ * parts until the refunds add up to what was paid.
+ */
+@Entity('student_charge_refunds')
+@Index(['centerId'])
+@Index(['studentChargeId'])
+export class StudentChargeRefund extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  branchId: string;
+
+  @Column({ type: 'uuid' })
+  studentChargeId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  destination: RefundDestination;
+
+  @Column('text', { nullable: true })
+  reason?: string;
+
+  // Refund payment for WALLET/CASH, the refunded gateway payment for GATEWAY
+  @Column({ type: 'uuid', nullable: true })
+  paymentId?: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  gatewayRefundId?: string;
+
+  // Relations
+  @ManyToOne(() => StudentCharge, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentChargeId' })
+  charge: StudentCharge;
+}
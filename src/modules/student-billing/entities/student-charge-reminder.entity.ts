@@ -0,0 +1,36 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { StudentCharge } from './student-charge.entity';
+import { DunningReminderLevel } from '../enums/dunning-reminder-level.enum';
+
+/**
+ * Payment reminder sent for a charge by the dunning schedule.
+ * A step is identified by its afterDays, so each one is sent once per charge.
+ */
+@Entity('student_charge_reminders')
+@Index(['centerId'])
+@Index(['studentChargeId', 'afterDays'], { unique: true })
+export class StudentChargeReminder extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  studentChargeId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'int' })
+  afterDays: number;
+
+  @Column({ type: 'varchar', length: 20 })
+  level: DunningReminderLevel;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  remainingAmount: number; // Outstanding when the reminder was sent
+
+  // Relations
+  @ManyToOne(() => StudentCharge, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentChargeId' })
+  charge: StudentCharge;
+}
@@ -15,6 +15,7 @@ import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity
 import { Session } from '@/modules/sessions/entities/session.entity';
 import { Branch } from '@/modules/centers/entities/branch.entity';
 import { Center } from '@/modules/centers/entities/center.entity';
+import { AppliedDiscount } from '../interfaces/applied-discount.interface';
 
 @Entity('student_charges')
 @Index(['amount']) // For amount-based sorting
@@ -44,7 +45,21 @@ export class StudentCharge extends BaseEntity {
 
   // Common payment fields
   @Column('decimal', { precision: 10, scale: 2 })
-  amount: number;
+  amount: number; // Net price after discounts
+
+  // Discount audit: price before discounts and the rules that reduced it
+  @Column('decimal', { precision: 10, scale: 2 })
+  originalAmount: number;
+
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  discountAmount: number;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  appliedDiscounts: AppliedDiscount[];
+
+  // Class price version the list price was taken from, null for charges made before prices were versioned
+  @Column('uuid', { nullable: true })
+  studentPriceVersionId?: string | null;
 
   @Column('decimal', { precision: 10, scale: 2, default: 0 })
   totalPaid: number;
@@ -52,6 +67,10 @@ export class StudentCharge extends BaseEntity {
   @Column('decimal', { precision: 10, scale: 2, nullable: true })
   lastPaymentAmount?: number;
 
+  // Sum of partial and full refunds, never more than totalPaid
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  totalRefunded: number;
+
   @Column({
     type: 'simple-enum',
     enum: StudentChargeStatus,
@@ -83,6 +102,17 @@ export class StudentCharge extends BaseEntity {
   @Column('text', { nullable: true })
   refundReason?: string;
 
+  // Set when the charge was carried over from another class on a group transfer
+  @Column('uuid', { nullable: true })
+  transferredFromClassId?: string;
+
+  @Column('timestamptz', { nullable: true })
+  transferredAt?: Date;
+
+  // Set when a SESSION charge was carried over from a canceled session to its makeup
+  @Column('uuid', { nullable: true })
+  carriedOverFromSessionId?: string;
+
   @ManyToOne(() => Class, (classEntity) => classEntity.studentCharges)
   @JoinColumn({ name: 'classId' })
   class: Class;
@@ -0,0 +1,60 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { BaseEntity } from '@/shared/common/entities/base.entity';
+import { Class } from '@/modules/classes/entities/class.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import { SubscriptionRenewalFailureReason } from '../enums/subscription-renewal-failure-reason.enum';
+
+/**
+ * Opt-in renewal of a student's monthly subscription to a class from the
+ * student wallet. periodMonth/periodYear is the month of the latest attempt,
+ * failedAttempts counts the failures for that month only.
+ */
+@Entity('subscription_auto_renewals')
+@Index(['centerId'])
+@Index(['studentUserProfileId', 'classId'], { unique: true })
+export class SubscriptionAutoRenewal extends BaseEntity {
+  @Column({ type: 'uuid' })
+  centerId: string;
+
+  @Column({ type: 'uuid' })
+  branchId: string;
+
+  @Column({ type: 'uuid' })
+  classId: string;
+
+  @Column({ type: 'uuid' })
+  studentUserProfileId: string;
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @Column({ type: 'int', nullable: true })
+  periodMonth?: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  periodYear?: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  failedAttempts: number;
+
+  @Column({ type: 'varchar', length: 40, nullable: true })
+  lastFailureReason?: SubscriptionRenewalFailureReason | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  lastErrorCode?: string | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastAttemptAt?: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  lastRenewedChargeId?: string | null;
+
+  // Relations
+  @ManyToOne(() => Class, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'classId' })
+  class: Class;
+
+  @ManyToOne(() => UserProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'studentUserProfileId' })
+  student: UserProfile;
+}
@@ -0,0 +1,8 @@
+/**
+ * Kind of printable billing document issued for a student charge
+ */
+export enum BillingDocumentType {
+  INVOICE = 'INVOICE', // Issued when the charge is created
+  RECEIPT = 'RECEIPT', // Issued for every payment received
+  CREDIT_NOTE = 'CREDIT_NOTE', // Issued when a payment is refunded
+}
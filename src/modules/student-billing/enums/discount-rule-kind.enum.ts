@@ -0,0 +1,9 @@
+/**
+ * How a discount rule is matched to a charge
+ */
+export enum DiscountRuleKind {
+  GENERAL = 'GENERAL', // Every student of the center (or of one class)
+  SCHOLARSHIP = 'SCHOLARSHIP', // One specific student
+  SIBLING = 'SIBLING', // Students with enrolled siblings linked through a parent
+  PROMO_CODE = 'PROMO_CODE', // Only when the code is entered on the charge
+}
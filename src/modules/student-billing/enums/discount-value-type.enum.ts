@@ -0,0 +1,7 @@
+/**
+ * How the value of a discount rule is applied to the price
+ */
+export enum DiscountValueType {
+  PERCENTAGE = 'PERCENTAGE', // Percent of the original price
+  FIXED = 'FIXED', // Fixed amount off the original price
+}
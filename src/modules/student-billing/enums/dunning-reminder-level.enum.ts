@@ -0,0 +1,7 @@
+/**
+ * How insistent a payment reminder of the dunning schedule is
+ */
+export enum DunningReminderLevel {
+  REMINDER = 'REMINDER', // Student only, WhatsApp
+  FINAL_NOTICE = 'FINAL_NOTICE', // Student and parents, WhatsApp + SMS
+}
@@ -0,0 +1,8 @@
+/**
+ * Status of one scheduled installment of a class charge
+ */
+export enum InstallmentStatus {
+  PENDING = 'PENDING', // Not fully paid, due date not passed yet
+  OVERDUE = 'OVERDUE', // Not fully paid after its due date
+  PAID = 'PAID', // Fully covered by the payments of the charge
+}
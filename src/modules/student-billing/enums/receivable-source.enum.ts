@@ -0,0 +1,8 @@
+/**
+ * What a student owes money for in the accounts-receivable report
+ */
+export enum ReceivableSource {
+  INSTALLMENT_CHARGE = 'INSTALLMENT_CHARGE', // CLASS charge paid in part
+  LAPSED_SUBSCRIPTION = 'LAPSED_SUBSCRIPTION', // Month not renewed after a paid one
+  UNPAID_SESSION = 'UNPAID_SESSION', // Attended a session nothing paid for
+}
@@ -0,0 +1,8 @@
+/**
+ * Where the money of a student charge refund is returned
+ */
+export enum RefundDestination {
+  WALLET = 'WALLET', // Credited to the student's wallet from the branch wallet
+  CASH = 'CASH', // Handed out in cash from the branch cashbox
+  GATEWAY = 'GATEWAY', // Returned through the payment gateway it was paid with
+}
@@ -36,4 +36,34 @@ export enum StudentBillingErrorCode {
   SUBSCRIPTION_NOT_FOUND = 'SBL_025',
   SESSION_CHARGE_NOT_FOUND = 'SBL_026',
   INVALID_PAYMENT_TYPE = 'SBL_027',
+
+  // Discount errors
+  DISCOUNT_RULE_NOT_FOUND = 'SBL_028',
+  DISCOUNT_PERCENTAGE_OUT_OF_RANGE = 'SBL_029',
+  DISCOUNT_RULE_INVALID_DATE_RANGE = 'SBL_030',
+  PROMO_CODE_ALREADY_EXISTS = 'SBL_031',
+  PROMO_CODE_NOT_FOUND = 'SBL_032',
+  PROMO_CODE_EXPIRED = 'SBL_033',
+  PROMO_CODE_USAGE_LIMIT_REACHED = 'SBL_034',
+  PROMO_CODE_NOT_APPLICABLE = 'SBL_035',
+
+  // Billing document errors
+  BILLING_DOCUMENT_NOT_FOUND = 'SBL_036',
+  BILLING_DOCUMENT_RENDER_FAILED = 'SBL_037',
+
+  // Subscription auto-renewal errors
+  STUDENT_NOT_ENROLLED_IN_CLASS = 'SBL_038',
+  SUBSCRIPTION_AUTO_RENEWAL_NOT_FOUND = 'SBL_039',
+
+  // Dunning errors
+  DUNNING_SCHEDULE_INVALID = 'SBL_040',
+
+  // Partial refund errors
+  REFUND_AMOUNT_EXCEEDS_REFUNDABLE = 'SBL_041',
+
+  // Billing account errors
+  BILLING_ACCOUNT_NOT_FOUND = 'SBL_042',
+  STUDENT_ALREADY_IN_BILLING_ACCOUNT = 'SBL_043',
+  BILLING_ACCOUNT_MEMBER_NOT_FOUND = 'SBL_044',
+  BILLING_ACCOUNT_FUNDER_INVALID = 'SBL_045',
 }
@@ -0,0 +1,11 @@
+/**
+ * Why renewing a monthly subscription from the student wallet failed
+ */
+export enum SubscriptionRenewalFailureReason {
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE', // beyond maxNegativeBalance
+  SUBSCRIPTIONS_NOT_ALLOWED = 'SUBSCRIPTIONS_NOT_ALLOWED',
+  WALLET_NOT_FOUND = 'WALLET_NOT_FOUND',
+  STUDENT_INACTIVE = 'STUDENT_INACTIVE',
+  CENTER_INACTIVE = 'CENTER_INACTIVE', // center or branch deactivated
+  OTHER = 'OTHER',
+}
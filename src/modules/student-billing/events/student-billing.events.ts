@@ -1,7 +1,12 @@
 import { StudentCharge } from '../entities/student-charge.entity';
+import { SubscriptionAutoRenewal } from '../entities/subscription-auto-renewal.entity';
+import { StudentChargeReminder } from '../entities/student-charge-reminder.entity';
+import { StudentChargeRefund } from '../entities/student-charge-refund.entity';
+import { SubscriptionRenewalFailureReason } from '../enums/subscription-renewal-failure-reason.enum';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { BaseEvent } from '@/shared/common/base/base-event';
 import { Money } from '@/shared/common/utils/money.util';
+import { Payment } from '@/modules/finance/entities/payment.entity';
 
 export class StudentChargeCreatedEvent extends BaseEvent {
   constructor(
@@ -38,8 +43,42 @@ export class StudentChargeRefundedEvent extends BaseEvent {
   constructor(
     actor: ActorUser,
     public readonly charge: StudentCharge,
+    public readonly refund: StudentChargeRefund,
+    public readonly refundedPayment: Payment,
     public readonly refundReason?: string,
   ) {
     super(actor);
   }
 }
+
+export class SubscriptionRenewedEvent extends BaseEvent {
+  constructor(
+    actor: ActorUser,
+    public readonly renewal: SubscriptionAutoRenewal,
+    public readonly charge: StudentCharge,
+  ) {
+    super(actor);
+  }
+}
+
+export class SubscriptionRenewalFailedEvent extends BaseEvent {
+  constructor(
+    actor: ActorUser,
+    public readonly renewal: SubscriptionAutoRenewal,
+    public readonly month: number,
+    public readonly year: number,
+    public readonly reason: SubscriptionRenewalFailureReason,
+    public readonly willRetry: boolean,
+  ) {
+    super(actor);
+  }
+}
+
+export class PaymentReminderDueEvent extends BaseEvent {
+  constructor(
+    actor: ActorUser,
+    public readonly reminder: StudentChargeReminder,
+  ) {
+    super(actor);
+  }
+}
@@ -130,6 +130,16 @@ export class StudentBillingErrors extends BaseErrorHelpers {
     );
   }
 
+  static refundAmountExceedsRefundable(
+    refundAmount: number | string,
+    refundableAmount: number | string,
+  ): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.REFUND_AMOUNT_EXCEEDS_REFUNDABLE,
+      { refundAmount, refundableAmount },
+    );
+  }
+
   // Installment payment errors
   static classChargeNotFound(): DomainException {
     return this.createNoDetails(StudentBillingErrorCode.CLASS_CHARGE_NOT_FOUND);
@@ -169,4 +179,115 @@ export class StudentBillingErrors extends BaseErrorHelpers {
   static invalidPaymentType(): DomainException {
     return this.createNoDetails(StudentBillingErrorCode.INVALID_PAYMENT_TYPE);
   }
+
+  // Discount errors
+  static discountRuleNotFound(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.DISCOUNT_RULE_NOT_FOUND,
+    );
+  }
+
+  static discountPercentageOutOfRange(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.DISCOUNT_PERCENTAGE_OUT_OF_RANGE,
+    );
+  }
+
+  static discountRuleInvalidDateRange(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.DISCOUNT_RULE_INVALID_DATE_RANGE,
+    );
+  }
+
+  static promoCodeAlreadyExists(promoCode: string): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.PROMO_CODE_ALREADY_EXISTS,
+      { promoCode },
+    );
+  }
+
+  static promoCodeNotFound(promoCode: string): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.PROMO_CODE_NOT_FOUND,
+      { promoCode },
+    );
+  }
+
+  static promoCodeExpired(promoCode: string): DomainException {
+    return this.createWithDetails(StudentBillingErrorCode.PROMO_CODE_EXPIRED, {
+      promoCode,
+    });
+  }
+
+  static promoCodeUsageLimitReached(promoCode: string): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.PROMO_CODE_USAGE_LIMIT_REACHED,
+      { promoCode },
+    );
+  }
+
+  static promoCodeNotApplicable(promoCode: string): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.PROMO_CODE_NOT_APPLICABLE,
+      { promoCode },
+    );
+  }
+
+  static billingDocumentNotFound(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.BILLING_DOCUMENT_NOT_FOUND,
+    );
+  }
+
+  static billingDocumentRenderFailed(documentNumber: string): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.BILLING_DOCUMENT_RENDER_FAILED,
+      { documentNumber },
+    );
+  }
+
+  static studentNotEnrolledInClass(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.STUDENT_NOT_ENROLLED_IN_CLASS,
+    );
+  }
+
+  static subscriptionAutoRenewalNotFound(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.SUBSCRIPTION_AUTO_RENEWAL_NOT_FOUND,
+    );
+  }
+
+  static dunningScheduleInvalid(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.DUNNING_SCHEDULE_INVALID,
+    );
+  }
+
+  static billingAccountNotFound(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.BILLING_ACCOUNT_NOT_FOUND,
+    );
+  }
+
+  static studentAlreadyInBillingAccount(
+    studentUserProfileId: string,
+  ): DomainException {
+    return this.createWithDetails(
+      StudentBillingErrorCode.STUDENT_ALREADY_IN_BILLING_ACCOUNT,
+      { studentUserProfileId },
+    );
+  }
+
+  static billingAccountMemberNotFound(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.BILLING_ACCOUNT_MEMBER_NOT_FOUND,
+    );
+  }
+
+  static billingAccountFunderInvalid(): DomainException {
+    return this.createNoDetails(
+      StudentBillingErrorCode.BILLING_ACCOUNT_FUNDER_INVALID,
+    );
+  }
 }
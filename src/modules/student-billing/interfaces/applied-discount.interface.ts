@@ -0,0 +1,23 @@
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+import { DiscountValueType } from '../enums/discount-value-type.enum';
+
+/**
+ * Snapshot of a discount rule as applied to a charge.
+ * Kept on the charge so later edits to the rule don't rewrite history.
+ */
+export interface AppliedDiscount {
+  discountRuleId: string;
+  name: string;
+  kind: DiscountRuleKind;
+  valueType: DiscountValueType;
+  value: number;
+  amount: number;
+  promoCode?: string;
+}
+
+export interface DiscountedPrice {
+  originalAmount: number;
+  discountAmount: number;
+  netAmount: number;
+  appliedDiscounts: AppliedDiscount[];
+}
@@ -0,0 +1,16 @@
+import { DunningReminderLevel } from '../enums/dunning-reminder-level.enum';
+
+/**
+ * One reminder of a dunning schedule, sent once a charge has been
+ * outstanding for afterDays days
+ */
+export interface DunningStep {
+  afterDays: number;
+  level: DunningReminderLevel;
+}
+
+export interface EffectiveDunningSchedule {
+  isEnabled: boolean;
+  steps: DunningStep[];
+  isDefault: boolean; // true when the center has not saved a schedule yet
+}
@@ -0,0 +1,53 @@
+import { ReceivableSource } from '../enums/receivable-source.enum';
+import { StudentCharge } from '../entities/student-charge.entity';
+
+export interface ReceivablesFilter {
+  centerId: string;
+  branchId?: string;
+  classId?: string;
+  staffUserProfileId?: string; // only classes this staff member works in
+}
+
+/**
+ * Money a student owes; since is the date the debt started aging from
+ */
+export interface Receivable {
+  source: ReceivableSource;
+  studentUserProfileId: string;
+  studentName: string;
+  studentCode: string | null;
+  classId: string;
+  className: string;
+  branchId: string;
+  chargeId: string | null;
+  sessionId: string | null;
+  month: number | null;
+  year: number | null;
+  amount: number;
+  since: Date;
+}
+
+/**
+ * Enrolled student whose latest paid monthly subscription to a class is
+ * for an earlier month than the current one
+ */
+export interface LapsedSubscription {
+  studentUserProfileId: string;
+  studentName: string;
+  studentCode: string | null;
+  classId: string;
+  className: string;
+  branchId: string;
+  classEndDate: Date | null;
+  monthPrice: number;
+  lastPaidMonth: number;
+  lastPaidYear: number;
+}
+
+/**
+ * Installment charge still owed; since is the date it started aging from
+ */
+export interface OutstandingInstallmentCharge {
+  charge: StudentCharge;
+  since: Date;
+}
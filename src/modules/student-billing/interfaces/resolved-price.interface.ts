@@ -0,0 +1,8 @@
+/**
+ * List price of a charge and the class price version it was taken from.
+ * The version is null for classes priced before prices were versioned.
+ */
+export interface ResolvedPrice {
+  price: number;
+  studentPriceVersionId: string | null;
+}
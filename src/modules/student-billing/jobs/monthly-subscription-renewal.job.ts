@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { RequestContext } from '@/shared/common/context/request.context';
+import { Locale } from '@/shared/common/enums/locale.enum';
+import { SYSTEM_USER_ID } from '@/shared/common/constants/system-actor.constant';
+import { SubscriptionRenewalService } from '../services/subscription-renewal.service';
+import { SubscriptionAutoRenewalsRepository } from '../repositories/subscription-auto-renewals.repository';
+import {
+  SUBSCRIPTION_RENEWAL_DAYS_BEFORE_MONTH,
+  SUBSCRIPTION_RENEWAL_MAX_ATTEMPTS,
+} from '../constants/student-billing.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class MonthlySubscriptionRenewalJob {
+  private readonly logger = new Logger(MonthlySubscriptionRenewalJob.name);
+
+  constructor(
+    private readonly subscriptionRenewalService: SubscriptionRenewalService,
+    private readonly renewalsRepository: SubscriptionAutoRenewalsRepository,
+  ) {}
+
+  /**
+   * Runs daily and, during the last days before a month starts, renews the
+   * opted-in monthly subscriptions for that month from the student wallets.
+   * A renewal that failed is retried on the next run until attempts run out.
+   */
+  @Cron('0 1 * * *') // Every day at 01:00
+  async renewMonthlySubscriptions(): Promise<void> {
+    const startMs = Date.now();
+    const jobId = `monthly-subscription-renewals:${new Date().toISOString()}`;
+
+    // Calculate next month
+    const now = new Date();
+    const nextMonth = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    const month = nextMonth.getMonth() + 1; // JS months are 0-based
+    const year = nextMonth.getFullYear();
+
+    const daysUntilMonth = Math.ceil(
+      (nextMonth.getTime() - now.getTime()) / DAY_MS,
+    );
+    if (daysUntilMonth > SUBSCRIPTION_RENEWAL_DAYS_BEFORE_MONTH) {
+      return;
+    }
+
+    this.logger.log('Starting monthly subscription renewals job', {
+      jobId,
+      targetMonth: month,
+      targetYear: year,
+    });
+
+    try {
+      await RequestContext.run(
+        {
+          userId: SYSTEM_USER_ID,
+          locale: Locale.EN,
+          userProfileId: SYSTEM_USER_ID,
+        },
+        async () => {
+          const { renewed, failed } = await this.processRenewals(month, year);
+
+          this.logger.log('Monthly subscription renewals job completed', {
+            jobId,
+            durationMs: Date.now() - startMs,
+            renewed,
+            failed,
+            targetMonth: month,
+            targetYear: year,
+          });
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        'Monthly subscription renewals job failed',
+        error instanceof Error ? error.stack : String(error),
+        {
+          jobId,
+          durationMs: Date.now() - startMs,
+          targetMonth: month,
+          targetYear: year,
+        },
+      );
+      throw error;
+    }
+  }
+
+  private async processRenewals(
+    month: number,
+    year: number,
+  ): Promise<{ renewed: number; failed: number }> {
+    let renewed = 0;
+    let failed = 0;
+
+    const dueRenewals = await this.renewalsRepository.findDueRenewals(
+      month,
+      year,
+      SUBSCRIPTION_RENEWAL_MAX_ATTEMPTS,
+    );
+
+    this.logger.debug(
+      `Found ${dueRenewals.length} subscriptions due for renewal for ${month}/${year}`,
+    );
+
+    for (const renewal of dueRenewals) {
+      try {
+        const succeeded =
+          await this.subscriptionRenewalService.renewSubscription(
+            renewal,
+            month,
+            year,
+          );
+        if (succeeded) {
+          renewed++;
+        } else {
+          failed++;
+        }
+      } catch (error) {
+        failed++;
+        this.logger.error(
+          `Failed to renew subscription ${renewal.id}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+        // Continue with other renewals even if one fails
+      }
+    }
+
+    return { renewed, failed };
+  }
+}
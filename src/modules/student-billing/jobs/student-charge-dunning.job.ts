@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { RequestContext } from '@/shared/common/context/request.context';
+import { Locale } from '@/shared/common/enums/locale.enum';
+import { SYSTEM_USER_ID } from '@/shared/common/constants/system-actor.constant';
+import { StudentDunningService } from '../services/student-dunning.service';
+import { DunningSchedulesRepository } from '../repositories/dunning-schedules.repository';
+
+@Injectable()
+export class StudentChargeDunningJob {
+  private readonly logger = new Logger(StudentChargeDunningJob.name);
+
+  constructor(
+    private readonly studentDunningService: StudentDunningService,
+    private readonly dunningSchedulesRepository: DunningSchedulesRepository,
+  ) {}
+
+  /**
+   * Runs daily and sends the payment reminders that became due for the
+   * installment charges of every center with an enabled dunning schedule.
+   * Runs in the morning so WhatsApp and SMS messages arrive at a decent hour.
+   */
+  @Cron('0 10 * * *') // Every day at 10:00
+  async sendPaymentReminders(): Promise<void> {
+    const startMs = Date.now();
+    const jobId = `student-charge-dunning:${new Date().toISOString()}`;
+
+    this.logger.log('Starting student charge dunning job', { jobId });
+
+    try {
+      await RequestContext.run(
+        {
+          userId: SYSTEM_USER_ID,
+          locale: Locale.EN,
+          userProfileId: SYSTEM_USER_ID,
+        },
+        async () => {
+          const { centers, sent, failed } = await this.processSchedules();
+
+          this.logger.log('Student charge dunning job completed', {
+            jobId,
+            durationMs: Date.now() - startMs,
+            centers,
+            sent,
+            failed,
+          });
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        'Student charge dunning job failed',
+        error instanceof Error ? error.stack : String(error),
+        {
+          jobId,
+          durationMs: Date.now() - startMs,
+        },
+      );
+      throw error;
+    }
+  }
+
+  private async processSchedules(): Promise<{
+    centers: number;
+    sent: number;
+    failed: number;
+  }> {
+    let sent = 0;
+    let failed = 0;
+
+    const schedules = await this.dunningSchedulesRepository.findEnabled();
+
+    this.logger.debug(`Found ${schedules.length} enabled dunning schedules`);
+
+    for (const schedule of schedules) {
+      try {
+        sent += await this.studentDunningService.sendDueReminders(schedule);
+      } catch (error) {
+        failed++;
+        this.logger.error(
+          `Failed to send payment reminders for center ${schedule.centerId}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+        // Continue with other centers even if one fails
+      }
+    }
+
+    return { centers: schedules.length, sent, failed };
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { RequestContext } from '@/shared/common/context/request.context';
+import { Locale } from '@/shared/common/enums/locale.enum';
+import { SYSTEM_USER_ID } from '@/shared/common/constants/system-actor.constant';
+import { StudentInstallmentsService } from '../services/student-installments.service';
+
+@Injectable()
+export class StudentInstallmentsOverdueJob {
+  private readonly logger = new Logger(StudentInstallmentsOverdueJob.name);
+
+  constructor(
+    private readonly studentInstallmentsService: StudentInstallmentsService,
+  ) {}
+
+  /**
+   * Runs hourly and flags the class charge installments that passed their
+   * due date. Hourly so centers in every timezone are flagged shortly after
+   * their local midnight.
+   */
+  @Cron('5 * * * *') // Every hour at minute 5
+  async flagOverdueInstallments(): Promise<void> {
+    const startMs = Date.now();
+    const jobId = `student-installments-overdue:${new Date().toISOString()}`;
+
+    this.logger.log('Starting overdue installments job', { jobId });
+
+    try {
+      await RequestContext.run(
+        {
+          userId: SYSTEM_USER_ID,
+          locale: Locale.EN,
+          userProfileId: SYSTEM_USER_ID,
+        },
+        async () => {
+          const flagged =
+            await this.studentInstallmentsService.flagOverdueInstallments();
+
+          this.logger.log('Overdue installments job completed', {
+            jobId,
+            durationMs: Date.now() - startMs,
+            flagged,
+          });
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        'Overdue installments job failed',
+        error instanceof Error ? error.stack : String(error),
+        {
+          jobId,
+          durationMs: Date.now() - startMs,
+        },
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { StudentBillingEvents } from '@/shared/events/student-billing.events.enum';
+import {
+  StudentChargeCreatedEvent,
+  StudentChargeInstallmentPaidEvent,
+  StudentChargeRefundedEvent,
+} from '../events/student-billing.events';
+import { BillingDocumentsService } from '../services/billing-documents.service';
+import { Money } from '@/shared/common/utils/money.util';
+
+@Injectable()
+export class BillingDocumentsListener {
+  constructor(
+    private readonly billingDocumentsService: BillingDocumentsService,
+  ) {}
+
+  // Runs inside the charge and refund transactions; errors are not suppressed
+  // so a charge or refund is never saved without its document, and a rollback
+  // also releases the document numbers
+  @OnEvent(StudentBillingEvents.CHARGE_CREATED, { suppressErrors: false })
+  async handleChargeCreated(event: StudentChargeCreatedEvent) {
+    await this.billingDocumentsService.issueInvoice(event.charge);
+
+    if (event.amount.isPositive()) {
+      await this.billingDocumentsService.issueReceiptForLatestPayment(
+        event.charge,
+      );
+    }
+  }
+
+  @OnEvent(StudentBillingEvents.INSTALLMENT_PAID, { suppressErrors: false })
+  async handleInstallmentPaid(event: StudentChargeInstallmentPaidEvent) {
+    await this.billingDocumentsService.issueReceiptForLatestPayment(
+      event.charge,
+    );
+  }
+
+  @OnEvent(StudentBillingEvents.CHARGE_REFUNDED, { suppressErrors: false })
+  async handleChargeRefunded(event: StudentChargeRefundedEvent) {
+    await this.billingDocumentsService.issueCreditNote(
+      event.charge,
+      Money.from(event.refund.amount),
+      event.refundedPayment,
+    );
+  }
+}
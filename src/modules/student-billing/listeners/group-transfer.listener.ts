@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { GroupEvents } from '@/shared/events/groups.events.enum';
+import { StudentTransferredBetweenGroupsEvent } from '@/modules/classes/events/group-student.events';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
+import { StudentBillingTransferService } from '../services/student-billing-transfer.service';
+
+@Injectable()
+export class GroupTransferListener {
+  constructor(
+    private readonly studentBillingTransferService: StudentBillingTransferService,
+  ) {}
+
+  // Runs inside the transfer transaction; errors are not suppressed so a
+  // failed carry-over rejects emitAsync and rolls back the transfer
+  @OnEvent(GroupEvents.STUDENT_TRANSFERRED, { suppressErrors: false })
+  async handleStudentTransferred(event: StudentTransferredBetweenGroupsEvent) {
+    await this.studentBillingTransferService.carryOverChargesOnTransfer(
+      {
+        studentUserProfileId: event.studentUserProfileId,
+        fromGroup: event.fromGroup,
+        toGroup: event.toGroup,
+        paymentMethod: event.paymentMethod ?? PaymentMethod.WALLET,
+        transferredAt: new Date(),
+      },
+      event.actor,
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { SessionEvents } from '@/shared/events/sessions.events.enum';
+import { SessionMakeupCreatedEvent } from '@/modules/sessions/events/session.events';
+import { StudentBillingTransferService } from '../services/student-billing-transfer.service';
+
+@Injectable()
+export class SessionMakeupListener {
+  constructor(
+    private readonly studentBillingTransferService: StudentBillingTransferService,
+  ) {}
+
+  // Runs inside the makeup creation transaction; errors are not suppressed so
+  // a failed carry-over rolls back the makeup session
+  @OnEvent(SessionEvents.MAKEUP_CREATED, { suppressErrors: false })
+  async handleMakeupCreated(event: SessionMakeupCreatedEvent) {
+    await this.studentBillingTransferService.carryOverSessionChargesToMakeup(
+      event.canceledSession,
+      event.makeupSession,
+    );
+  }
+}
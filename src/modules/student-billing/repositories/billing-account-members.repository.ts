@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { BillingAccountMember } from '../entities/billing-account-member.entity';
+
+@Injectable()
+export class BillingAccountMembersRepository extends BaseRepository<BillingAccountMember> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof BillingAccountMember {
+    return BillingAccountMember;
+  }
+
+  async findByStudent(
+    centerId: string,
+    studentUserProfileId: string,
+  ): Promise<BillingAccountMember | null> {
+    return this.getRepository().findOne({
+      where: { centerId, studentUserProfileId },
+      relations: ['billingAccount'],
+    });
+  }
+
+  /**
+   * Members of the account with the student's name and code
+   */
+  async findByAccountWithStudents(
+    billingAccountId: string,
+  ): Promise<BillingAccountMember[]> {
+    return this.getRepository().find({
+      where: { billingAccountId },
+      relations: ['student', 'student.user'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { BILLING_ACCOUNT_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
+import { BillingAccount } from '../entities/billing-account.entity';
+import { PaginateBillingAccountsDto } from '../dto/paginate-billing-accounts.dto';
+
+@Injectable()
+export class BillingAccountsRepository extends BaseRepository<BillingAccount> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof BillingAccount {
+    return BillingAccount;
+  }
+
+  async paginateBillingAccounts(
+    paginateDto: PaginateBillingAccountsDto,
+    centerId: string,
+  ): Promise<Pagination<BillingAccount>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('account')
+      .where('account.centerId = :centerId', { centerId });
+
+    return this.paginate(
+      paginateDto,
+      BILLING_ACCOUNT_PAGINATION_COLUMNS,
+      'billing/accounts',
+      queryBuilder,
+    );
+  }
+
+  async findWithMembers(
+    billingAccountId: string,
+  ): Promise<BillingAccount | null> {
+    return this.getRepository().findOne({
+      where: { id: billingAccountId },
+      relations: ['members'],
+    });
+  }
+}
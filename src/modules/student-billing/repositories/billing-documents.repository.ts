@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { BillingDocument } from '../entities/billing-document.entity';
+
+@Injectable()
+export class BillingDocumentsRepository extends BaseRepository<BillingDocument> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof BillingDocument {
+    return BillingDocument;
+  }
+
+  async findByCharge(studentChargeId: string): Promise<BillingDocument[]> {
+    return this.getRepository().find({
+      where: { studentChargeId },
+      order: { issuedAt: 'ASC' },
+    });
+  }
+
+  async findChargeDocument(
+    studentChargeId: string,
+    documentId: string,
+  ): Promise<BillingDocument | null> {
+    return this.getRepository().findOne({
+      where: { id: documentId, studentChargeId },
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { DISCOUNT_RULE_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
+import { ParentStudentLink } from '@/modules/parents/entities/parent-student-link.entity';
+import { GroupStudent } from '@/modules/classes/entities/group-student.entity';
+import { DiscountRule } from '../entities/discount-rule.entity';
+import { PaginateDiscountRulesDto } from '../dto/paginate-discount-rules.dto';
+import { StudentChargeType } from '../enums';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+
+@Injectable()
+export class DiscountRulesRepository extends BaseRepository<DiscountRule> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof DiscountRule {
+    return DiscountRule;
+  }
+
+  async paginateDiscountRules(
+    paginateDto: PaginateDiscountRulesDto,
+    centerId: string,
+  ): Promise<Pagination<DiscountRule>> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('rule')
+      .where('rule.centerId = :centerId', { centerId });
+
+    if (paginateDto.kind) {
+      queryBuilder.andWhere('rule.kind = :kind', { kind: paginateDto.kind });
+    }
+
+    this.applyIsActiveFilter(queryBuilder, paginateDto, 'rule.isActive');
+
+    return this.paginate(
+      paginateDto,
+      DISCOUNT_RULE_PAGINATION_COLUMNS,
+      'billing/discounts',
+      queryBuilder,
+    );
+  }
+
+  async findByCenterAndPromoCode(
+    centerId: string,
+    promoCode: string,
+  ): Promise<DiscountRule | null> {
+    return this.getRepository().findOne({
+      where: { centerId, promoCode },
+    });
+  }
+
+  /**
+   * Active rules applied without a promo code (general, scholarship and
+   * sibling) that cover the charge type, class and student at the given time.
+   * Sibling rules are returned unfiltered, the caller checks the sibling count.
+   */
+  async findAutomaticRules(params: {
+    centerId: string;
+    classId: string;
+    studentUserProfileId: string;
+    chargeType: StudentChargeType;
+    at: Date;
+  }): Promise<DiscountRule[]> {
+    return this.getRepository()
+      .createQueryBuilder('rule')
+      .where('rule.centerId = :centerId', { centerId: params.centerId })
+      .andWhere('rule.isActive = true')
+      .andWhere('rule.kind IN (:...kinds)', {
+        kinds: [
+          DiscountRuleKind.GENERAL,
+          DiscountRuleKind.SCHOLARSHIP,
+          DiscountRuleKind.SIBLING,
+        ],
+      })
+      .andWhere(
+        '(rule.kind != :scholarship OR rule.studentUserProfileId = :studentUserProfileId)',
+        {
+          scholarship: DiscountRuleKind.SCHOLARSHIP,
+          studentUserProfileId: params.studentUserProfileId,
+        },
+      )
+      .andWhere('(rule.classId IS NULL OR rule.classId = :classId)', {
+        classId: params.classId,
+      })
+      .andWhere('rule.chargeTypes @> :chargeTypes::jsonb', {
+        chargeTypes: JSON.stringify([params.chargeType]),
+      })
+      .andWhere('(rule.startsAt IS NULL OR rule.startsAt <= :at)', {
+        at: params.at,
+      })
+      .andWhere('(rule.expiresAt IS NULL OR rule.expiresAt > :at)', {
+        at: params.at,
+      })
+      .orderBy('rule.createdAt', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Count a promo code use, unless the usage limit is already reached.
+   * The check and increment run in one statement so concurrent charges
+   * can't push the count past maxUses.
+   * @returns false when the limit was reached
+   */
+  async incrementPromoCodeUsage(discountRuleId: string): Promise<boolean> {
+    const result = await this.getRepository()
+      .createQueryBuilder()
+      .update(DiscountRule)
+      .set({ usedCount: () => '"usedCount" + 1' })
+      .where('id = :discountRuleId', { discountRuleId })
+      .andWhere('("maxUses" IS NULL OR "usedCount" < "maxUses")')
+      .execute();
+
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Count the student's siblings (students sharing a linked parent) that are
+   * currently enrolled in a group of the center
+   */
+  async countEnrolledSiblings(
+    studentUserProfileId: string,
+    centerId: string,
+  ): Promise<number> {
+    const result = await this.getEntityManager()
+      .createQueryBuilder(ParentStudentLink, 'own')
+      .innerJoin(
+        ParentStudentLink,
+        'sibling',
+        'sibling.parentUserProfileId = own.parentUserProfileId AND sibling.studentUserProfileId != own.studentUserProfileId',
+      )
+      .innerJoin(
+        GroupStudent,
+        'enrollment',
+        'enrollment.studentUserProfileId = sibling.studentUserProfileId AND enrollment.centerId = :centerId AND enrollment.leftAt IS NULL',
+        { centerId },
+      )
+      .select('COUNT(DISTINCT sibling.studentUserProfileId)', 'count')
+      .where('own.studentUserProfileId = :studentUserProfileId', {
+        studentUserProfileId,
+      })
+      .getRawOne<{ count: string }>();
+
+    return Number(result?.count ?? 0);
+  }
+}
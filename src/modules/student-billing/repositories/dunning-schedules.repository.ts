@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { DunningSchedule } from '../entities/dunning-schedule.entity';
+
+@Injectable()
+export class DunningSchedulesRepository extends BaseRepository<DunningSchedule> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof DunningSchedule {
+    return DunningSchedule;
+  }
+
+  async findByCenterId(centerId: string): Promise<DunningSchedule | null> {
+    return this.getRepository().findOne({
+      where: { centerId },
+    });
+  }
+
+  /**
+   * Enabled schedules of active centers
+   */
+  async findEnabled(): Promise<DunningSchedule[]> {
+    return this.getRepository()
+      .createQueryBuilder('schedule')
+      .innerJoin('schedule.center', 'center')
+      .where('schedule.isEnabled = true')
+      .andWhere('center.isActive = true')
+      .orderBy('schedule.createdAt', 'ASC')
+      .getMany();
+  }
+}
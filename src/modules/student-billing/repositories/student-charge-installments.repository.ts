@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { In } from 'typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { StudentChargeInstallment } from '../entities/student-charge-installment.entity';
+import { InstallmentStatus } from '../enums/installment-status.enum';
+import { StudentChargeStatus } from '../enums/student-charge-status.enum';
+
+@Injectable()
+export class StudentChargeInstallmentsRepository extends BaseRepository<StudentChargeInstallment> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof StudentChargeInstallment {
+    return StudentChargeInstallment;
+  }
+
+  async findByCharge(
+    studentChargeId: string,
+  ): Promise<StudentChargeInstallment[]> {
+    return this.getRepository().find({
+      where: { studentChargeId },
+      order: { sequence: 'ASC' },
+    });
+  }
+
+  async deleteByCharge(studentChargeId: string): Promise<void> {
+    await this.getRepository().delete({ studentChargeId });
+  }
+
+  /**
+   * Pending installments of open installment charges whose due date is
+   * before today in the center's timezone
+   */
+  async findPendingPastDue(): Promise<StudentChargeInstallment[]> {
+    return this.getRepository()
+      .createQueryBuilder('installment')
+      .innerJoin('installment.charge', 'charge')
+      .innerJoin('charge.center', 'center')
+      .where('installment.status = :pendingStatus', {
+        pendingStatus: InstallmentStatus.PENDING,
+      })
+      .andWhere('charge.status = :installmentStatus', {
+        installmentStatus: StudentChargeStatus.INSTALLMENT,
+      })
+      .andWhere(
+        `installment.dueDate < (NOW() AT TIME ZONE center.timezone)::date`,
+      )
+      .getMany();
+  }
+
+  async markOverdue(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.getRepository().update(
+      { id: In(ids) },
+      { status: InstallmentStatus.OVERDUE },
+    );
+  }
+
+  /**
+   * Whether the charge has an unpaid installment that was due more than
+   * graceDays days ago in the center's timezone
+   */
+  async hasUnpaidDueBefore(
+    studentChargeId: string,
+    graceDays: number,
+  ): Promise<boolean> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('installment')
+      .innerJoin('installment.charge', 'charge')
+      .innerJoin('charge.center', 'center')
+      .where('installment.studentChargeId = :studentChargeId', {
+        studentChargeId,
+      })
+      .andWhere('installment.status != :paidStatus', {
+        paidStatus: InstallmentStatus.PAID,
+      })
+      .andWhere(
+        `installment.dueDate < (NOW() AT TIME ZONE center.timezone)::date - CAST(:graceDays AS int)`,
+        { graceDays },
+      );
+
+    return (await queryBuilder.getCount()) > 0;
+  }
+}
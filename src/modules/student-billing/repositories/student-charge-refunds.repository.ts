@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { StudentChargeRefund } from '../entities/student-charge-refund.entity';
+
+@Injectable()
+export class StudentChargeRefundsRepository extends BaseRepository<StudentChargeRefund> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof StudentChargeRefund {
+    return StudentChargeRefund;
+  }
+
+  async findByCharge(studentChargeId: string): Promise<StudentChargeRefund[]> {
+    return this.getRepository().find({
+      where: { studentChargeId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { In } from 'typeorm';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { StudentChargeReminder } from '../entities/student-charge-reminder.entity';
+
+@Injectable()
+export class StudentChargeRemindersRepository extends BaseRepository<StudentChargeReminder> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof StudentChargeReminder {
+    return StudentChargeReminder;
+  }
+
+  async findByChargeIds(
+    studentChargeIds: string[],
+  ): Promise<StudentChargeReminder[]> {
+    if (studentChargeIds.length === 0) {
+      return [];
+    }
+
+    return this.getRepository().find({
+      where: { studentChargeId: In(studentChargeIds) },
+    });
+  }
+}
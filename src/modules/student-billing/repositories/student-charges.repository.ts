@@ -4,11 +4,36 @@ import { StudentChargeType, StudentChargeStatus } from '../enums';
 import { BaseRepository } from '@/shared/common/repositories/base.repository';
 import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
 import { TransactionHost } from '@nestjs-cls/transactional';
+import { Not, SelectQueryBuilder, ObjectLiteral } from 'typeorm';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { PaginateStudentBillingRecordsDto } from '../dto/paginate-student-billing-records.dto';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
 import { STUDENT_BILLING_PAGINATION_COLUMNS } from '@/shared/common/constants/pagination-columns';
 import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { Attendance } from '@/modules/attendance/entities/attendance.entity';
+import { AttendanceStatus } from '@/modules/attendance/enums/attendance-status.enum';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { SessionStatus } from '@/modules/sessions/enums/session-status.enum';
+import { Class } from '@/modules/classes/entities/class.entity';
+import { ClassStatus } from '@/modules/classes/enums/class-status.enum';
+import { GroupStudent } from '@/modules/classes/entities/group-student.entity';
+import { StudentPaymentStrategy } from '@/modules/classes/entities/student-payment-strategy.entity';
+import { UserProfile } from '@/modules/user-profile/entities/user-profile.entity';
+import {
+  LapsedSubscription,
+  OutstandingInstallmentCharge,
+  Receivable,
+  ReceivablesFilter,
+} from '../interfaces/receivable.interface';
+import { ReceivableSource } from '../enums/receivable-source.enum';
+import { InstallmentStatus } from '../enums/installment-status.enum';
+
+/**
+ * When an installment charge started aging: the due date of its earliest
+ * unpaid installment in the center's timezone, or its creation when it has
+ * no installment rows. Needs "charge" joined to "center".
+ */
+const INSTALLMENT_CHARGE_AGING_START = `COALESCE((SELECT MIN(installment."dueDate") FROM student_charge_installments installment WHERE installment."studentChargeId" = "charge"."id" AND installment."status" != '${InstallmentStatus.PAID}')::timestamp AT TIME ZONE "center"."timezone", "charge"."createdAt")`;
 
 @Injectable()
 export class StudentChargesRepository extends BaseRepository<StudentCharge> {
@@ -38,6 +63,21 @@ export class StudentChargesRepository extends BaseRepository<StudentCharge> {
     });
   }
 
+  /**
+   * Find all non-refunded SESSION charges of a session
+   */
+  async findActiveSessionChargesBySession(
+    sessionId: string,
+  ): Promise<StudentCharge[]> {
+    return this.getRepository().find({
+      where: {
+        sessionId,
+        chargeType: StudentChargeType.SESSION,
+        status: Not(StudentChargeStatus.REFUNDED),
+      },
+    });
+  }
+
   // Monthly subscription queries
   async findActiveMonthlySubscription(
     studentUserProfileId: string,
@@ -83,8 +123,9 @@ export class StudentChargesRepository extends BaseRepository<StudentCharge> {
   // Find all active charges for a student (for summary)
   async findActiveChargesByStudent(
     studentUserProfileId: string,
+    termId?: string,
   ): Promise<StudentCharge[]> {
-    return this.getRepository()
+    const queryBuilder = this.getRepository()
       .createQueryBuilder('charge')
       .where('charge.studentUserProfileId = :studentId', {
         studentId: studentUserProfileId,
@@ -94,8 +135,48 @@ export class StudentChargesRepository extends BaseRepository<StudentCharge> {
           StudentChargeStatus.COMPLETED,
           StudentChargeStatus.INSTALLMENT,
         ],
-      })
-      .getMany();
+      });
+
+    if (termId) {
+      queryBuilder
+        .innerJoin('charge.class', 'class')
+        .andWhere('class.termId = :termId', { termId });
+    }
+
+    return queryBuilder.getMany();
+  }
+
+  /**
+   * Charges of several students in a center with their class name, newest
+   * first, optionally limited to those created in [from, to]
+   */
+  async findChargesForStatement(
+    centerId: string,
+    studentUserProfileIds: string[],
+    from?: Date,
+    to?: Date,
+  ): Promise<StudentCharge[]> {
+    if (studentUserProfileIds.length === 0) {
+      return [];
+    }
+
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('charge')
+      .leftJoin('charge.class', 'class')
+      .addSelect(['class.id', 'class.name'])
+      .where('charge.centerId = :centerId', { centerId })
+      .andWhere('charge.studentUserProfileId IN (:...studentUserProfileIds)', {
+        studentUserProfileIds,
+      });
+
+    if (from) {
+      queryBuilder.andWhere('charge.createdAt >= :from', { from });
+    }
+    if (to) {
+      queryBuilder.andWhere('charge.createdAt <= :to', { to });
+    }
+
+    return queryBuilder.orderBy('charge.createdAt', 'DESC').getMany();
   }
 
   // Generic charge creation
@@ -133,6 +214,20 @@ export class StudentChargesRepository extends BaseRepository<StudentCharge> {
     });
   }
 
+  /**
+   * Find charge with pessimistic write lock.
+   * Serializes concurrent refunds so the refundable amount cannot be raced.
+   */
+  async findOneWithLock(id: string): Promise<StudentCharge> {
+    const charge = await this.getRepository().findOne({
+      where: { id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!charge) {
+      throw StudentBillingErrors.billingRecordNotFound();
+    }
+    return charge;
+  }
 
   /**
    * Get paginated charges with filtering for a specific center
@@ -219,6 +314,12 @@ export class StudentChargesRepository extends BaseRepository<StudentCharge> {
       });
     }
 
+    if (paginateDto.termId) {
+      queryBuilder.andWhere('class.termId = :termId', {
+        termId: paginateDto.termId,
+      });
+    }
+
     // Apply date filters to createdAt field
     if (paginateDto.dateFrom) {
       queryBuilder.andWhere('charge.createdAt >= :dateFrom', {
@@ -376,4 +477,280 @@ export class StudentChargesRepository extends BaseRepository<StudentCharge> {
     }
     return charge;
   }
+
+  // Receivables queries
+
+  /**
+   * CLASS charges paid in installments with an outstanding remainder,
+   * aging from the charge creation
+   */
+  async findInstallmentReceivables(
+    filter: ReceivablesFilter,
+  ): Promise<Receivable[]> {
+    const queryBuilder = this.getRepository()
+      .createQueryBuilder('charge')
+      .innerJoin('charge.class', 'class')
+      .innerJoin('charge.center', 'center')
+      .innerJoin('charge.student', 'student')
+      .innerJoin('student.user', 'studentUser')
+      .select([
+        'charge.id AS "chargeId"',
+        'charge.studentUserProfileId AS "studentUserProfileId"',
+        'studentUser.name AS "studentName"',
+        'student.code AS "studentCode"',
+        'class.id AS "classId"',
+        'class.name AS "className"',
+        'class.branchId AS "branchId"',
+        '"charge"."amount" - "charge"."totalPaid" AS "amount"',
+        `${INSTALLMENT_CHARGE_AGING_START} AS "since"`,
+      ])
+      .where('charge.centerId = :centerId', { centerId: filter.centerId })
+      .andWhere('charge.chargeType = :chargeType', {
+        chargeType: StudentChargeType.CLASS,
+      })
+      .andWhere('charge.status = :status', {
+        status: StudentChargeStatus.INSTALLMENT,
+      })
+      .andWhere('"charge"."amount" > "charge"."totalPaid"');
+
+    this.applyReceivablesFilter(queryBuilder, filter);
+
+    const rows = await queryBuilder
+      .orderBy('charge.createdAt', 'ASC')
+      .getRawMany<Omit<Receivable, 'source'>>();
+
+    return rows.map((row) => ({
+      ...row,
+      source: ReceivableSource.INSTALLMENT_CHARGE,
+      sessionId: null,
+      month: null,
+      year: null,
+      amount: Number(row.amount),
+      since: new Date(row.since),
+    }));
+  }
+
+  /**
+   * Students still enrolled in an active monthly-billed class whose latest
+   * paid subscription is for a month before the given one
+   */
+  async findLapsedSubscriptions(
+    filter: ReceivablesFilter,
+    month: number,
+    year: number,
+  ): Promise<LapsedSubscription[]> {
+    const lastPaidPeriod = 'MAX("charge"."year" * 12 + "charge"."month" - 1)';
+
+    const queryBuilder = this.getEntityManager()
+      .createQueryBuilder()
+      .from(GroupStudent, 'gs')
+      .innerJoin(Class, 'class', 'class.id = gs.classId')
+      .innerJoin(
+        StudentPaymentStrategy,
+        'strategy',
+        'strategy.classId = gs.classId',
+      )
+      .innerJoin(
+        StudentCharge,
+        'charge',
+        'charge.studentUserProfileId = gs.studentUserProfileId AND charge.classId = gs.classId',
+      )
+      .innerJoin(UserProfile, 'student', 'student.id = gs.studentUserProfileId')
+      .innerJoin('student.user', 'studentUser')
+      .select([
+        'gs.studentUserProfileId AS "studentUserProfileId"',
+        'studentUser.name AS "studentName"',
+        'student.code AS "studentCode"',
+        'class.id AS "classId"',
+        'class.name AS "className"',
+        'class.branchId AS "branchId"',
+        'class.endDate AS "classEndDate"',
+        'strategy.monthPrice AS "monthPrice"',
+        `${lastPaidPeriod} AS "lastPaidPeriod"`,
+      ])
+      .where('gs.centerId = :centerId', { centerId: filter.centerId })
+      .andWhere('gs.leftAt IS NULL')
+      .andWhere('class.status = :classStatus', {
+        classStatus: ClassStatus.ACTIVE,
+      })
+      .andWhere('strategy.includeMonth = true')
+      .andWhere('strategy.monthPrice > 0')
+      .andWhere('charge.chargeType = :chargeType', {
+        chargeType: StudentChargeType.SUBSCRIPTION,
+      })
+      .andWhere('charge.status = :status', {
+        status: StudentChargeStatus.COMPLETED,
+      });
+
+    this.applyReceivablesFilter(queryBuilder, filter);
+
+    const rows = await queryBuilder
+      .groupBy('gs.studentUserProfileId')
+      .addGroupBy('studentUser.name')
+      .addGroupBy('student.code')
+      .addGroupBy('class.id')
+      .addGroupBy('strategy.monthPrice')
+      .having(`${lastPaidPeriod} < :currentPeriod`, {
+        currentPeriod: year * 12 + month - 1,
+      })
+      .getRawMany<
+        Omit<LapsedSubscription, 'lastPaidMonth' | 'lastPaidYear'> & {
+          lastPaidPeriod: number;
+        }
+      >();
+
+    return rows.map(({ lastPaidPeriod: period, ...row }) => ({
+      ...row,
+      classEndDate: row.classEndDate ? new Date(row.classEndDate) : null,
+      monthPrice: Number(row.monthPrice),
+      lastPaidMonth: (Number(period) % 12) + 1,
+      lastPaidYear: Math.floor(Number(period) / 12),
+    }));
+  }
+
+  /**
+   * Sessions a student attended (present or late) in a class billed per
+   * session, without a session charge, class charge or subscription for the
+   * session month. Aging starts at the session.
+   */
+  async findUnpaidSessionReceivables(
+    filter: ReceivablesFilter,
+  ): Promise<Receivable[]> {
+    const queryBuilder = this.getEntityManager()
+      .createQueryBuilder()
+      .from(Attendance, 'attendance')
+      .innerJoin(Session, 'session', 'session.id = attendance.sessionId')
+      .innerJoin(Class, 'class', 'class.id = session.classId')
+      .innerJoin(
+        StudentPaymentStrategy,
+        'strategy',
+        'strategy.classId = session.classId',
+      )
+      .innerJoin(
+        UserProfile,
+        'student',
+        'student.id = attendance.studentUserProfileId',
+      )
+      .innerJoin('student.user', 'studentUser')
+      .innerJoin('centers', 'center', 'center.id = attendance.centerId')
+      .select([
+        'attendance.studentUserProfileId AS "studentUserProfileId"',
+        'studentUser.name AS "studentName"',
+        'student.code AS "studentCode"',
+        'class.id AS "classId"',
+        'class.name AS "className"',
+        'class.branchId AS "branchId"',
+        'session.id AS "sessionId"',
+        'strategy.sessionPrice AS "amount"',
+        'session.startTime AS "since"',
+      ])
+      .where('attendance.centerId = :centerId', { centerId: filter.centerId })
+      .andWhere('attendance.status IN (:...attendedStatuses)', {
+        attendedStatuses: [AttendanceStatus.PRESENT, AttendanceStatus.LATE],
+      })
+      .andWhere('session.status != :canceledStatus', {
+        canceledStatus: SessionStatus.CANCELED,
+      })
+      .andWhere('strategy.includeSession = true')
+      .andWhere('strategy.sessionPrice > 0')
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM student_charges sc WHERE sc."studentUserProfileId" = "attendance"."studentUserProfileId" AND sc."sessionId" = "session"."id" AND sc."chargeType" = :sessionChargeType AND sc."status" = :completedStatus)`,
+      )
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM student_charges sc WHERE sc."studentUserProfileId" = "attendance"."studentUserProfileId" AND sc."classId" = "session"."classId" AND sc."chargeType" = :classChargeType AND sc."status" IN (:...classChargeStatuses))`,
+      )
+      .andWhere(
+        `NOT EXISTS (SELECT 1 FROM student_charges sc WHERE sc."studentUserProfileId" = "attendance"."studentUserProfileId" AND sc."classId" = "session"."classId" AND sc."chargeType" = :subscriptionChargeType AND sc."status" = :completedStatus AND sc."year" = EXTRACT(YEAR FROM "session"."startTime" AT TIME ZONE "center"."timezone") AND sc."month" = EXTRACT(MONTH FROM "session"."startTime" AT TIME ZONE "center"."timezone"))`,
+      )
+      .setParameters({
+        sessionChargeType: StudentChargeType.SESSION,
+        classChargeType: StudentChargeType.CLASS,
+        subscriptionChargeType: StudentChargeType.SUBSCRIPTION,
+        completedStatus: StudentChargeStatus.COMPLETED,
+        classChargeStatuses: [
+          StudentChargeStatus.COMPLETED,
+          StudentChargeStatus.INSTALLMENT,
+        ],
+      });
+
+    this.applyReceivablesFilter(queryBuilder, filter);
+
+    const rows = await queryBuilder
+      .orderBy('session.startTime', 'ASC')
+      .getRawMany<Omit<Receivable, 'source' | 'chargeId' | 'month' | 'year'>>();
+
+    return rows.map((row) => ({
+      ...row,
+      source: ReceivableSource.UNPAID_SESSION,
+      chargeId: null,
+      month: null,
+      year: null,
+      amount: Number(row.amount),
+      since: new Date(row.since),
+    }));
+  }
+
+  /**
+   * Installment CLASS charges of a center that started aging on or before
+   * the given date, from the due date of their earliest unpaid installment
+   */
+  async findOutstandingInstallmentCharges(
+    centerId: string,
+    agingSince: Date,
+  ): Promise<OutstandingInstallmentCharge[]> {
+    const { entities, raw } = await this.getRepository()
+      .createQueryBuilder('charge')
+      .innerJoin('charge.center', 'center')
+      .addSelect(INSTALLMENT_CHARGE_AGING_START, 'agingStart')
+      .where('charge.centerId = :centerId', { centerId })
+      .andWhere('charge.chargeType = :chargeType', {
+        chargeType: StudentChargeType.CLASS,
+      })
+      .andWhere('charge.status = :status', {
+        status: StudentChargeStatus.INSTALLMENT,
+      })
+      .andWhere('"charge"."amount" > "charge"."totalPaid"')
+      .andWhere(`${INSTALLMENT_CHARGE_AGING_START} <= :agingSince`, {
+        agingSince,
+      })
+      .orderBy('charge.createdAt', 'ASC')
+      .getRawAndEntities<{ agingStart: Date | string }>();
+
+    return entities.map((charge, index) => ({
+      charge,
+      since: new Date(raw[index].agingStart),
+    }));
+  }
+
+  /**
+   * Narrow a receivables query joined to "class" by branch, class and,
+   * for staff without center-wide access, the classes they work in
+   */
+  private applyReceivablesFilter<T extends ObjectLiteral>(
+    queryBuilder: SelectQueryBuilder<T>,
+    filter: ReceivablesFilter,
+  ): void {
+    if (filter.branchId) {
+      queryBuilder.andWhere('class.branchId = :branchId', {
+        branchId: filter.branchId,
+      });
+    }
+
+    if (filter.classId) {
+      queryBuilder.andWhere('class.id = :classId', {
+        classId: filter.classId,
+      });
+    }
+
+    if (filter.staffUserProfileId) {
+      queryBuilder
+        .andWhere(
+          'EXISTS (SELECT 1 FROM class_staff cs WHERE cs."classId" = "class"."id" AND cs."userProfileId" = :staffUserProfileId AND cs."leftAt" IS NULL)',
+        )
+        .andWhere(
+          'EXISTS (SELECT 1 FROM branch_access ba WHERE ba."branchId" = "class"."branchId" AND ba."userProfileId" = :staffUserProfileId)',
+          { staffUserProfileId: filter.staffUserProfileId },
+        );
+    }
+  }
 }
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BaseRepository } from '@/shared/common/repositories/base.repository';
+import { ClassStatus } from '@/modules/classes/enums/class-status.enum';
+import { SubscriptionAutoRenewal } from '../entities/subscription-auto-renewal.entity';
+
+@Injectable()
+export class SubscriptionAutoRenewalsRepository extends BaseRepository<SubscriptionAutoRenewal> {
+  constructor(
+    protected readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {
+    super(txHost);
+  }
+
+  protected getEntityClass(): typeof SubscriptionAutoRenewal {
+    return SubscriptionAutoRenewal;
+  }
+
+  async findByStudentAndClass(
+    studentUserProfileId: string,
+    classId: string,
+  ): Promise<SubscriptionAutoRenewal | null> {
+    return this.getRepository().findOne({
+      where: { studentUserProfileId, classId },
+    });
+  }
+
+  /**
+   * Active renewals still owing the given month: not attempted for it yet, or
+   * failed with attempts left. Only students still enrolled in a class that
+   * runs into that month are returned.
+   */
+  async findDueRenewals(
+    month: number,
+    year: number,
+    maxAttempts: number,
+  ): Promise<SubscriptionAutoRenewal[]> {
+    const periodStart = new Date(Date.UTC(year, month - 1, 1));
+
+    return this.getRepository()
+      .createQueryBuilder('renewal')
+      .innerJoin('renewal.class', 'class')
+      .where('renewal.isActive = true')
+      .andWhere('class.status IN (:...statuses)', {
+        statuses: [ClassStatus.NOT_STARTED, ClassStatus.ACTIVE],
+      })
+      .andWhere('(class.endDate IS NULL OR class.endDate >= :periodStart)', {
+        periodStart,
+      })
+      .andWhere(
+        '(renewal.periodYear IS DISTINCT FROM :year OR renewal.periodMonth IS DISTINCT FROM :month OR (renewal.failedAttempts > 0 AND renewal.failedAttempts < :maxAttempts))',
+        { year, month, maxAttempts },
+      )
+      .andWhere(
+        'EXISTS (SELECT 1 FROM group_students gs WHERE gs."studentUserProfileId" = renewal."studentUserProfileId" AND gs."classId" = renewal."classId" AND gs."leftAt" IS NULL)',
+      )
+      .orderBy('renewal.createdAt', 'ASC')
+      .getMany();
+  }
+}
@@ -0,0 +1,322 @@
+import { Injectable } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { Money } from '@/shared/common/utils/money.util';
+import { WalletService } from '@/modules/finance/services/wallet.service';
+import {
+  ExecutePaymentRequest,
+  PaymentService,
+} from '@/modules/finance/services/payment.service';
+import { Wallet } from '@/modules/finance/entities/wallet.entity';
+import { WalletOwnerType } from '@/modules/finance/enums/wallet-owner-type.enum';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
+import { PaymentReason } from '@/modules/finance/enums/payment-reason.enum';
+import { BillingAccountsRepository } from '../repositories/billing-accounts.repository';
+import { BillingAccountMembersRepository } from '../repositories/billing-account-members.repository';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { BillingAccount } from '../entities/billing-account.entity';
+import { BillingAccountMember } from '../entities/billing-account-member.entity';
+import { StudentCharge } from '../entities/student-charge.entity';
+import { CreateBillingAccountDto } from '../dto/create-billing-account.dto';
+import { UpdateBillingAccountDto } from '../dto/update-billing-account.dto';
+import { PaginateBillingAccountsDto } from '../dto/paginate-billing-accounts.dto';
+import { FundBillingAccountDto } from '../dto/fund-billing-account.dto';
+import { BillingAccountStatementQueryDto } from '../dto/billing-account-statement-query.dto';
+import {
+  BillingAccountStatementDto,
+  StatementTotalsDto,
+} from '../dto/billing-account-statement-response.dto';
+import { StudentChargeStatus } from '../enums';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+
+@Injectable()
+export class BillingAccountsService extends BaseService {
+  constructor(
+    private readonly billingAccountsRepository: BillingAccountsRepository,
+    private readonly membersRepository: BillingAccountMembersRepository,
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly walletService: WalletService,
+    private readonly paymentService: PaymentService,
+  ) {
+    super();
+  }
+
+  async paginateBillingAccounts(
+    paginateDto: PaginateBillingAccountsDto,
+    actor: ActorUser,
+  ): Promise<Pagination<BillingAccount>> {
+    return this.billingAccountsRepository.paginateBillingAccounts(
+      paginateDto,
+      actor.centerId!,
+    );
+  }
+
+  async getBillingAccount(
+    billingAccountId: string,
+    actor: ActorUser,
+  ): Promise<BillingAccount> {
+    const account =
+      await this.billingAccountsRepository.findWithMembers(billingAccountId);
+    if (!account || account.centerId !== actor.centerId) {
+      throw StudentBillingErrors.billingAccountNotFound();
+    }
+
+    return account;
+  }
+
+  async createBillingAccount(
+    dto: CreateBillingAccountDto,
+    actor: ActorUser,
+  ): Promise<BillingAccount> {
+    const { studentUserProfileIds, ...accountData } = dto;
+
+    const account = await this.billingAccountsRepository.create({
+      ...accountData,
+      payMemberCharges: dto.payMemberCharges ?? false,
+      centerId: actor.centerId!,
+    });
+
+    for (const studentUserProfileId of studentUserProfileIds ?? []) {
+      await this.createMember(account, studentUserProfileId);
+    }
+
+    return this.getBillingAccount(account.id, actor);
+  }
+
+  async updateBillingAccount(
+    billingAccountId: string,
+    dto: UpdateBillingAccountDto,
+    actor: ActorUser,
+  ): Promise<BillingAccount> {
+    await this.getBillingAccount(billingAccountId, actor);
+    await this.billingAccountsRepository.update(billingAccountId, dto);
+
+    return this.getBillingAccount(billingAccountId, actor);
+  }
+
+  async addMember(
+    billingAccountId: string,
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<BillingAccount> {
+    const account = await this.getBillingAccount(billingAccountId, actor);
+    await this.createMember(account, studentUserProfileId);
+
+    return this.getBillingAccount(billingAccountId, actor);
+  }
+
+  /**
+   * Remove a student from the account. Their charges are paid from their own
+   * wallet again, what the shared wallet already paid is not moved back.
+   */
+  async removeMember(
+    billingAccountId: string,
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<BillingAccount> {
+    const account = await this.getBillingAccount(billingAccountId, actor);
+
+    const member = account.members.find(
+      (candidate) => candidate.studentUserProfileId === studentUserProfileId,
+    );
+    if (!member) {
+      throw StudentBillingErrors.billingAccountMemberNotFound();
+    }
+
+    await this.membersRepository.remove(member.id);
+
+    return this.getBillingAccount(billingAccountId, actor);
+  }
+
+  /**
+   * Move money from the payer's or a member's wallet into the shared wallet
+   */
+  async fundBillingAccount(
+    billingAccountId: string,
+    dto: FundBillingAccountDto,
+    actor: ActorUser,
+  ): Promise<Wallet> {
+    const account = await this.getBillingAccount(billingAccountId, actor);
+
+    const isFunder =
+      dto.fromUserProfileId === account.payerUserProfileId ||
+      account.members.some(
+        (member) => member.studentUserProfileId === dto.fromUserProfileId,
+      );
+    if (!isFunder) {
+      throw StudentBillingErrors.billingAccountFunderInvalid();
+    }
+
+    await this.paymentService.createAndExecutePayment(
+      {
+        amount: Money.from(dto.amount),
+        senderId: dto.fromUserProfileId,
+        senderType: WalletOwnerType.USER_PROFILE,
+        receiverId: account.id,
+        receiverType: WalletOwnerType.BILLING_ACCOUNT,
+        reason: PaymentReason.INTERNAL_TRANSFER,
+        paymentMethod: PaymentMethod.WALLET,
+        idempotencyKey: dto.idempotencyKey,
+      },
+      actor,
+    );
+
+    return this.walletService.getWallet(
+      account.id,
+      WalletOwnerType.BILLING_ACCOUNT,
+    );
+  }
+
+  /**
+   * Charges of all students of the account, per student and in total, with
+   * the balance of the shared wallet
+   */
+  async getStatement(
+    billingAccountId: string,
+    query: BillingAccountStatementQueryDto,
+    actor: ActorUser,
+  ): Promise<BillingAccountStatementDto> {
+    const account = await this.getBillingAccount(billingAccountId, actor);
+
+    const members =
+      await this.membersRepository.findByAccountWithStudents(billingAccountId);
+    const charges = await this.chargesRepository.findChargesForStatement(
+      account.centerId,
+      members.map((member) => member.studentUserProfileId),
+      query.dateFrom ? new Date(query.dateFrom) : undefined,
+      query.dateTo ? new Date(query.dateTo) : undefined,
+    );
+    const wallet = await this.walletService.getWallet(
+      account.id,
+      WalletOwnerType.BILLING_ACCOUNT,
+    );
+
+    const students = members.map((member) => {
+      const studentCharges = charges.filter(
+        (charge) => charge.studentUserProfileId === member.studentUserProfileId,
+      );
+
+      return {
+        studentUserProfileId: member.studentUserProfileId,
+        studentName: member.student?.user?.name,
+        studentCode: member.student?.code,
+        totals: this.sumCharges(studentCharges),
+        charges: studentCharges.map((charge) => ({
+          id: charge.id,
+          chargeType: charge.chargeType,
+          status: charge.status,
+          classId: charge.classId,
+          className: charge.class?.name ?? null,
+          amount: Number(charge.amount),
+          totalPaid: Number(charge.totalPaid),
+          totalRefunded: Number(charge.totalRefunded),
+          createdAt: charge.createdAt,
+        })),
+      };
+    });
+
+    return {
+      billingAccountId: account.id,
+      name: account.name,
+      walletBalance: wallet.balance.toNumber(),
+      totals: this.sumCharges(charges),
+      students,
+    };
+  }
+
+  /**
+   * Pay a student's wallet charge from their billing account instead when
+   * the account pays for its members and the shared wallet covers the whole
+   * amount. Any other payment is returned unchanged, so students outside an
+   * account keep paying from their own wallet.
+   */
+  async routeChargePayment(
+    request: ExecutePaymentRequest,
+    centerId: string,
+  ): Promise<ExecutePaymentRequest> {
+    if (
+      request.paymentMethod !== PaymentMethod.WALLET ||
+      request.senderType !== WalletOwnerType.USER_PROFILE
+    ) {
+      return request;
+    }
+
+    const member = await this.membersRepository.findByStudent(
+      centerId,
+      request.senderId,
+    );
+    if (!member?.billingAccount.payMemberCharges) {
+      return request;
+    }
+
+    const wallet = await this.walletService.getWallet(
+      member.billingAccountId,
+      WalletOwnerType.BILLING_ACCOUNT,
+    );
+    if (wallet.balance.lessThan(request.amount)) {
+      return request;
+    }
+
+    return {
+      ...request,
+      senderId: member.billingAccountId,
+      senderType: WalletOwnerType.BILLING_ACCOUNT,
+      allowNegativeBalance: false,
+      metadata: {
+        ...request.metadata,
+        studentUserProfileId: request.senderId,
+      },
+    };
+  }
+
+  private async createMember(
+    account: BillingAccount,
+    studentUserProfileId: string,
+  ): Promise<BillingAccountMember> {
+    const existing = await this.membersRepository.findByStudent(
+      account.centerId,
+      studentUserProfileId,
+    );
+    if (existing) {
+      throw StudentBillingErrors.studentAlreadyInBillingAccount(
+        studentUserProfileId,
+      );
+    }
+
+    return this.membersRepository.create({
+      centerId: account.centerId,
+      billingAccountId: account.id,
+      studentUserProfileId,
+    });
+  }
+
+  private sumCharges(charges: StudentCharge[]): StatementTotalsDto {
+    let amount = Money.zero();
+    let paid = Money.zero();
+    let refunded = Money.zero();
+    let outstanding = Money.zero();
+
+    for (const charge of charges) {
+      if (charge.status === StudentChargeStatus.PENDING) {
+        continue;
+      }
+
+      amount = amount.add(Money.from(charge.amount));
+      paid = paid.add(Money.from(charge.totalPaid));
+      refunded = refunded.add(Money.from(charge.totalRefunded));
+      if (charge.status === StudentChargeStatus.INSTALLMENT) {
+        outstanding = outstanding.add(
+          Money.from(charge.amount).subtract(Money.from(charge.totalPaid)),
+        );
+      }
+    }
+
+    return {
+      amount: amount.toNumber(),
+      paid: paid.toNumber(),
+      refunded: refunded.toNumber(),
+      outstanding: outstanding.toNumber(),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { TransactionHost } from '@nestjs-cls/transactional';
+import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
+import { BillingDocumentType } from '../enums/billing-document-type.enum';
+
+const PREFIX_MAP: Record<BillingDocumentType, string> = {
+  [BillingDocumentType.INVOICE]: 'INV',
+  [BillingDocumentType.RECEIPT]: 'RCP',
+  [BillingDocumentType.CREDIT_NOTE]: 'CRN',
+};
+
+@Injectable()
+export class BillingDocumentNumberService {
+  constructor(
+    private readonly txHost: TransactionHost<TransactionalAdapterTypeOrm>,
+  ) {}
+
+  /**
+   * Generate a new document number in format: PREFIX-YY-000001
+   * - PREFIX: derived from BillingDocumentType
+   * - YY: UTC year (2 digits)
+   * - Counter: per branch+type+yearYY. The counter row stays locked until the
+   *   surrounding transaction ends and rolls back with it, so numbers are gap-free.
+   */
+  async generate(
+    branchId: string,
+    documentType: BillingDocumentType,
+  ): Promise<string> {
+    const prefix = PREFIX_MAP[documentType];
+    const yearYY = String(new Date().getUTCFullYear()).slice(-2);
+
+    if (!this.txHost?.tx) {
+      throw new Error('Transaction context is not available');
+    }
+
+    const rows: Array<{ currentValue: number }> = await this.txHost.tx.query(
+      `
+      INSERT INTO "billing_document_counters" ("branchId", "documentType", "yearYY", "currentValue")
+      VALUES ($1, $2, $3, 1)
+      ON CONFLICT ("branchId", "documentType", "yearYY")
+      DO UPDATE SET "currentValue" = "billing_document_counters"."currentValue" + 1
+      RETURNING "currentValue";
+      `,
+      [branchId, documentType, yearYY],
+    );
+
+    const currentValue = rows?.[0]?.currentValue;
+    if (!currentValue || currentValue < 1) {
+      throw new Error('Failed to allocate billing document counter value');
+    }
+
+    const seq = String(currentValue).padStart(6, '0');
+    return `${prefix}-${yearYY}-${seq}`;
+  }
+}
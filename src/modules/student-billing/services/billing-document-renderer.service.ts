@@ -0,0 +1,246 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import * as PDFDocument from 'pdfkit';
+import { Locale } from '@/shared/common/enums/locale.enum';
+import { Money } from '@/shared/common/utils/money.util';
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+import { Payment } from '@/modules/finance/entities/payment.entity';
+import { PaymentStatus } from '@/modules/finance/enums/payment-status.enum';
+import { BillingDocument } from '../entities/billing-document.entity';
+import { StudentCharge } from '../entities/student-charge.entity';
+import { StudentChargeType } from '../enums';
+import { BillingDocumentType } from '../enums/billing-document-type.enum';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+const PAGE_MARGIN = 50;
+const LABEL_WIDTH = 250;
+const ROW_GAP = 6;
+
+// Payments refunded later were still paid when their receipt was issued
+const PAID_STATUSES = [PaymentStatus.COMPLETED, PaymentStatus.REFUNDED];
+
+interface BillingTranslations {
+  DOCUMENT_TYPE: Record<string, string>;
+  CHARGE_TYPE: Record<string, string>;
+  PAYMENT_METHOD: Record<string, string>;
+  FIELDS: Record<string, string>;
+  CURRENCY: string;
+  FOOTER: string;
+}
+
+/**
+ * Renders invoices, receipts and credit notes as A4 PDFs.
+ * Arabic documents mirror the layout: labels on the right, values on the left.
+ * Numbers are always drawn as their own text run, the bidi layout would
+ * otherwise reverse digits embedded in an Arabic run.
+ */
+@Injectable()
+export class BillingDocumentRendererService {
+  private readonly logger = new Logger(BillingDocumentRendererService.name);
+  private readonly translations = new Map<Locale, BillingTranslations>();
+
+  /**
+   * @param charge - Charge with full relations (student, class, session, branch, center, payments)
+   */
+  async render(
+    document: BillingDocument,
+    charge: StudentCharge,
+    locale: Locale,
+  ): Promise<Buffer> {
+    const t = await this.loadTranslations(locale);
+
+    try {
+      return await this.renderPdf(document, charge, locale, t);
+    } catch (error) {
+      this.logger.error(
+        `Failed to render billing document ${document.documentNumber}`,
+        error,
+      );
+      throw StudentBillingErrors.billingDocumentRenderFailed(
+        document.documentNumber,
+      );
+    }
+  }
+
+  private renderPdf(
+    document: BillingDocument,
+    charge: StudentCharge,
+    locale: Locale,
+    t: BillingTranslations,
+  ): Promise<Buffer> {
+    const pdf = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: { Title: document.documentNumber },
+    });
+    pdf.registerFont('regular', FONT_REGULAR);
+    pdf.registerFont('bold', FONT_BOLD);
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+      pdf.on('end', () => resolve(Buffer.concat(chunks)));
+      pdf.on('error', reject);
+    });
+
+    const rtl = locale === Locale.AR;
+    const timezone = charge.center?.timezone;
+    const formatDate = (date: Date) =>
+      TimezoneService.formatZoned(date, 'yyyy-MM-dd', timezone);
+    const formatAmount = (value: number | string | Money) =>
+      `${Money.from(value.toString()).toString()} ${t.CURRENCY}`;
+
+    const contentWidth = pdf.page.width - PAGE_MARGIN * 2;
+    const startAlign = rtl ? 'right' : 'left';
+
+    const row = (label: string, value: string, bold = false) => {
+      const y = pdf.y;
+      const valueWidth = contentWidth - LABEL_WIDTH;
+      const labelX = rtl ? PAGE_MARGIN + valueWidth : PAGE_MARGIN;
+      const valueX = rtl ? PAGE_MARGIN : PAGE_MARGIN + LABEL_WIDTH;
+
+      pdf.font(bold ? 'bold' : 'regular').fontSize(11);
+      pdf.text(label, labelX, y, { width: LABEL_WIDTH, align: startAlign });
+      const labelBottom = pdf.y;
+      pdf.text(value, valueX, y, {
+        width: valueWidth,
+        align: rtl ? 'left' : 'right',
+      });
+      pdf.y = Math.max(labelBottom, pdf.y) + ROW_GAP;
+    };
+
+    const divider = () => {
+      pdf.moveDown(0.5);
+      pdf
+        .moveTo(PAGE_MARGIN, pdf.y)
+        .lineTo(PAGE_MARGIN + contentWidth, pdf.y)
+        .strokeColor('#cccccc')
+        .stroke();
+      pdf.moveDown(0.5);
+    };
+
+    // Header
+    pdf
+      .font('bold')
+      .fontSize(18)
+      .text(charge.center?.name ?? '', PAGE_MARGIN, PAGE_MARGIN, {
+        width: contentWidth,
+        align: startAlign,
+      });
+    pdf
+      .font('regular')
+      .fontSize(11)
+      .text(charge.branch?.name ?? '', {
+        width: contentWidth,
+        align: startAlign,
+      });
+    pdf.moveDown();
+    pdf
+      .font('bold')
+      .fontSize(16)
+      .text(t.DOCUMENT_TYPE[document.documentType], PAGE_MARGIN, pdf.y, {
+        width: contentWidth,
+        align: 'center',
+      });
+    pdf.moveDown();
+
+    row(t.FIELDS.documentNumber, document.documentNumber);
+    row(t.FIELDS.issuedAt, formatDate(document.issuedAt));
+    divider();
+
+    // Charge details
+    row(t.FIELDS.student, charge.student?.user?.name ?? '');
+    row(t.FIELDS.studentCode, charge.student?.code ?? '');
+    row(t.FIELDS.class, charge.class?.name ?? '');
+    row(t.FIELDS.chargeType, t.CHARGE_TYPE[charge.chargeType]);
+
+    if (charge.chargeType === StudentChargeType.SUBSCRIPTION && charge.month) {
+      row(
+        t.FIELDS.period,
+        `${charge.year}-${String(charge.month).padStart(2, '0')}`,
+      );
+    } else if (charge.session?.startTime) {
+      row(t.FIELDS.period, formatDate(charge.session.startTime));
+    }
+    divider();
+
+    // Pricing
+    row(t.FIELDS.originalAmount, formatAmount(charge.originalAmount));
+    for (const discount of charge.appliedDiscounts ?? []) {
+      row(
+        `${t.FIELDS.discount} - ${discount.name}`,
+        `-${formatAmount(discount.amount)}`,
+      );
+    }
+    row(t.FIELDS.netAmount, formatAmount(charge.amount), true);
+
+    // Payment or refund details
+    const payment = charge.payments?.find((p) => p.id === document.paymentId);
+
+    if (document.documentType === BillingDocumentType.RECEIPT && payment) {
+      // Totals as of this payment, so reprints don't pick up later installments
+      const paidSoFar = this.sumPaymentsUntil(charge.payments, payment);
+      divider();
+      row(t.FIELDS.amountPaid, formatAmount(document.amount), true);
+      row(t.FIELDS.paymentMethod, t.PAYMENT_METHOD[payment.paymentMethod]);
+      row(t.FIELDS.totalPaid, formatAmount(paidSoFar));
+      row(
+        t.FIELDS.remaining,
+        formatAmount(Money.from(charge.amount).subtract(paidSoFar)),
+      );
+    }
+
+    if (document.documentType === BillingDocumentType.CREDIT_NOTE) {
+      divider();
+      row(t.FIELDS.refundedAmount, formatAmount(document.amount), true);
+      if (charge.refundReason) {
+        row(t.FIELDS.refundReason, charge.refundReason);
+      }
+    }
+
+    // Footer
+    pdf
+      .font('regular')
+      .fontSize(9)
+      .fillColor('#666666')
+      .text(t.FOOTER, PAGE_MARGIN, pdf.page.height - PAGE_MARGIN - 20, {
+        width: contentWidth,
+        align: 'center',
+      });
+
+    pdf.end();
+    return done;
+  }
+
+  private sumPaymentsUntil(payments: Payment[], payment: Payment): Money {
+    return payments
+      .filter(
+        (p) =>
+          PAID_STATUSES.includes(p.status) &&
+          p.createdAt.getTime() <= payment.createdAt.getTime(),
+      )
+      .reduce((total, p) => total.add(p.amount), Money.zero());
+  }
+
+  /**
+   * Load billing document translations for a locale from JSON file
+   * Caches translations in memory for performance
+   */
+  private async loadTranslations(locale: Locale): Promise<BillingTranslations> {
+    const cached = this.translations.get(locale);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = join(process.cwd(), 'src', 'i18n', locale, 'billing.json');
+    const content = await readFile(filePath, 'utf-8');
+    const translations = JSON.parse(content) as BillingTranslations;
+
+    this.translations.set(locale, translations);
+    return translations;
+  }
+}
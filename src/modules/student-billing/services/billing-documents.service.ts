@@ -0,0 +1,208 @@
+import { Injectable } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Locale } from '@/shared/common/enums/locale.enum';
+import { Money } from '@/shared/common/utils/money.util';
+import { FileService } from '@/modules/file/services/file.service';
+import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
+import { Payment } from '@/modules/finance/entities/payment.entity';
+import { BillingDocumentsRepository } from '../repositories/billing-documents.repository';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { BillingDocumentNumberService } from './billing-document-number.service';
+import { BillingDocumentRendererService } from './billing-document-renderer.service';
+import { BillingDocument } from '../entities/billing-document.entity';
+import { StudentCharge } from '../entities/student-charge.entity';
+import { BillingDocumentType } from '../enums/billing-document-type.enum';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+
+const BILLING_DOCUMENT_ENTITY_TYPE = 'billing_document';
+
+@Injectable()
+export class BillingDocumentsService {
+  constructor(
+    private readonly billingDocumentsRepository: BillingDocumentsRepository,
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly billingDocumentNumberService: BillingDocumentNumberService,
+    private readonly billingDocumentRendererService: BillingDocumentRendererService,
+    private readonly fileService: FileService,
+    private readonly accessControlHelperService: AccessControlHelperService,
+  ) {}
+
+  /**
+   * Issue the invoice of a newly created charge
+   */
+  @Transactional()
+  async issueInvoice(charge: StudentCharge): Promise<BillingDocument> {
+    return this.issueDocument(
+      charge,
+      BillingDocumentType.INVOICE,
+      Money.from(charge.amount),
+    );
+  }
+
+  /**
+   * Issue a receipt for the latest payment of a charge
+   */
+  @Transactional()
+  async issueReceiptForLatestPayment(
+    charge: StudentCharge,
+  ): Promise<BillingDocument | null> {
+    const payment = await this.findLatestPayment(charge.id);
+    if (!payment) {
+      return null;
+    }
+
+    return this.issueDocument(
+      charge,
+      BillingDocumentType.RECEIPT,
+      payment.amount,
+      payment,
+    );
+  }
+
+  /**
+   * Issue a credit note for a full or partial refund
+   */
+  @Transactional()
+  async issueCreditNote(
+    charge: StudentCharge,
+    amount: Money,
+    refundedPayment: Payment,
+  ): Promise<BillingDocument> {
+    return this.issueDocument(
+      charge,
+      BillingDocumentType.CREDIT_NOTE,
+      amount,
+      refundedPayment,
+    );
+  }
+
+  async listChargeDocuments(
+    chargeId: string,
+    actor: ActorUser,
+  ): Promise<BillingDocument[]> {
+    await this.findChargeAndValidateAccess(chargeId, actor);
+    return this.billingDocumentsRepository.findByCharge(chargeId);
+  }
+
+  /**
+   * Temporary download URL of a document in the given locale.
+   * The PDF is rendered and stored on first download, later downloads reuse it.
+   */
+  async getDocumentDownloadUrl(
+    chargeId: string,
+    documentId: string,
+    locale: Locale,
+    actor: ActorUser,
+  ): Promise<{ documentNumber: string; locale: Locale; url: string }> {
+    await this.findChargeAndValidateAccess(chargeId, actor);
+
+    const document = await this.billingDocumentsRepository.findChargeDocument(
+      chargeId,
+      documentId,
+    );
+    if (!document) {
+      throw StudentBillingErrors.billingDocumentNotFound();
+    }
+
+    const fileType = `pdf_${locale}`;
+    const [existing] = await this.fileService.getFilesByEntity(
+      BILLING_DOCUMENT_ENTITY_TYPE,
+      document.id,
+      fileType,
+    );
+
+    const fileId = existing
+      ? existing.id
+      : (await this.renderAndStore(document, locale, fileType)).id;
+
+    return {
+      documentNumber: document.documentNumber,
+      locale,
+      url: await this.fileService.getPresignedUrl(fileId),
+    };
+  }
+
+  private async issueDocument(
+    charge: StudentCharge,
+    documentType: BillingDocumentType,
+    amount: Money,
+    payment?: Payment,
+  ): Promise<BillingDocument> {
+    const documentNumber = await this.billingDocumentNumberService.generate(
+      charge.branchId,
+      documentType,
+    );
+
+    return this.billingDocumentsRepository.create({
+      centerId: charge.centerId,
+      branchId: charge.branchId,
+      studentChargeId: charge.id,
+      studentUserProfileId: charge.studentUserProfileId,
+      paymentId: payment?.id,
+      documentType,
+      documentNumber,
+      amount: amount.toNumber(),
+      issuedAt: new Date(),
+    });
+  }
+
+  private async renderAndStore(
+    document: BillingDocument,
+    locale: Locale,
+    fileType: string,
+  ) {
+    const charge =
+      await this.chargesRepository.findStudentChargeWithFullRelationsOrThrow(
+        document.studentChargeId,
+      );
+    const buffer = await this.billingDocumentRendererService.render(
+      document,
+      charge,
+      locale,
+    );
+
+    return this.fileService.uploadFile(
+      {
+        fieldname: 'file',
+        originalname: `${document.documentNumber}.pdf`,
+        encoding: '7bit',
+        mimetype: 'application/pdf',
+        size: buffer.length,
+        buffer,
+      } as Express.Multer.File,
+      {
+        entityType: BILLING_DOCUMENT_ENTITY_TYPE,
+        entityId: document.id,
+        fileType,
+        description: `${document.documentType} ${document.documentNumber} (${locale})`,
+      },
+    );
+  }
+
+  private async findLatestPayment(chargeId: string): Promise<Payment | null> {
+    const charge = await this.chargesRepository.findByIdWithPayments(chargeId);
+    const payments = charge?.payments ?? [];
+
+    return (
+      payments.sort(
+        (a: Payment, b: Payment) =>
+          b.createdAt.getTime() - a.createdAt.getTime(),
+      )[0] ?? null
+    );
+  }
+
+  private async findChargeAndValidateAccess(
+    chargeId: string,
+    actor: ActorUser,
+  ): Promise<StudentCharge> {
+    const charge = await this.chargesRepository.findOneOrThrow(chargeId);
+
+    await this.accessControlHelperService.validateCenterAccess({
+      userProfileId: actor.userProfileId,
+      centerId: charge.centerId,
+    });
+
+    return charge;
+  }
+}
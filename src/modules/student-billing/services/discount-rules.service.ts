@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Pagination } from '@/shared/common/types/pagination.types';
+import { DiscountRulesRepository } from '../repositories/discount-rules.repository';
+import { DiscountRule } from '../entities/discount-rule.entity';
+import {
+  CreateDiscountRuleDto,
+  DISCOUNTABLE_CHARGE_TYPES,
+} from '../dto/create-discount-rule.dto';
+import { UpdateDiscountRuleDto } from '../dto/update-discount-rule.dto';
+import { PaginateDiscountRulesDto } from '../dto/paginate-discount-rules.dto';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+import { DiscountValueType } from '../enums/discount-value-type.enum';
+
+@Injectable()
+export class DiscountRulesService extends BaseService {
+  constructor(
+    private readonly discountRulesRepository: DiscountRulesRepository,
+  ) {
+    super();
+  }
+
+  async paginateDiscountRules(
+    paginateDto: PaginateDiscountRulesDto,
+    actor: ActorUser,
+  ): Promise<Pagination<DiscountRule>> {
+    return this.discountRulesRepository.paginateDiscountRules(
+      paginateDto,
+      actor.centerId!,
+    );
+  }
+
+  async getDiscountRule(
+    discountRuleId: string,
+    actor: ActorUser,
+  ): Promise<DiscountRule> {
+    const rule = await this.discountRulesRepository.findOne(discountRuleId);
+    if (!rule || rule.centerId !== actor.centerId) {
+      throw StudentBillingErrors.discountRuleNotFound();
+    }
+
+    return rule;
+  }
+
+  async createDiscountRule(
+    dto: CreateDiscountRuleDto,
+    actor: ActorUser,
+  ): Promise<DiscountRule> {
+    this.validateValue(dto.valueType, dto.value);
+    this.validateDateRange(dto.startsAt, dto.expiresAt);
+
+    const kindFields = this.pickKindFields(dto.kind, dto);
+    if (kindFields.promoCode) {
+      await this.ensurePromoCodeAvailable(
+        actor.centerId!,
+        kindFields.promoCode,
+      );
+    }
+
+    return this.discountRulesRepository.create({
+      ...dto,
+      ...kindFields,
+      chargeTypes: dto.chargeTypes ?? DISCOUNTABLE_CHARGE_TYPES,
+      isActive: dto.isActive ?? true,
+      centerId: actor.centerId!,
+    });
+  }
+
+  async updateDiscountRule(
+    discountRuleId: string,
+    dto: UpdateDiscountRuleDto,
+    actor: ActorUser,
+  ): Promise<DiscountRule> {
+    const rule = await this.getDiscountRule(discountRuleId, actor);
+
+    this.validateValue(
+      dto.valueType ?? rule.valueType,
+      dto.value ?? Number(rule.value),
+    );
+    this.validateDateRange(
+      dto.startsAt ?? rule.startsAt,
+      dto.expiresAt ?? rule.expiresAt,
+    );
+
+    const kindFields = this.pickKindFields(rule.kind, { ...rule, ...dto });
+    if (kindFields.promoCode && kindFields.promoCode !== rule.promoCode) {
+      await this.ensurePromoCodeAvailable(rule.centerId, kindFields.promoCode);
+    }
+
+    return this.discountRulesRepository.updateThrow(discountRuleId, {
+      ...dto,
+      ...kindFields,
+    });
+  }
+
+  /**
+   * Charges keep a snapshot of the rules applied to them,
+   * so deleting a rule doesn't change past charges
+   */
+  async deleteDiscountRule(
+    discountRuleId: string,
+    actor: ActorUser,
+  ): Promise<void> {
+    await this.getDiscountRule(discountRuleId, actor);
+    await this.discountRulesRepository.softRemove(discountRuleId);
+  }
+
+  private validateValue(valueType: DiscountValueType, value: number): void {
+    if (valueType === DiscountValueType.PERCENTAGE && value > 100) {
+      throw StudentBillingErrors.discountPercentageOutOfRange();
+    }
+  }
+
+  private validateDateRange(
+    startsAt?: Date | null,
+    expiresAt?: Date | null,
+  ): void {
+    if (startsAt && expiresAt && expiresAt.getTime() <= startsAt.getTime()) {
+      throw StudentBillingErrors.discountRuleInvalidDateRange();
+    }
+  }
+
+  /**
+   * Keep only the fields used by the rule kind, so a stray promo code or
+   * student on a general rule can't change how it is matched
+   */
+  private pickKindFields(
+    kind: DiscountRuleKind,
+    data: Partial<
+      Pick<
+        DiscountRule,
+        'studentUserProfileId' | 'minSiblings' | 'promoCode' | 'maxUses'
+      >
+    >,
+  ): Pick<
+    DiscountRule,
+    'studentUserProfileId' | 'minSiblings' | 'promoCode' | 'maxUses'
+  > {
+    const isPromoCode = kind === DiscountRuleKind.PROMO_CODE;
+
+    return {
+      studentUserProfileId:
+        kind === DiscountRuleKind.SCHOLARSHIP
+          ? data.studentUserProfileId
+          : null,
+      minSiblings:
+        kind === DiscountRuleKind.SIBLING ? (data.minSiblings ?? 1) : null,
+      promoCode: isPromoCode ? data.promoCode : null,
+      maxUses: isPromoCode ? (data.maxUses ?? null) : null,
+    };
+  }
+
+  private async ensurePromoCodeAvailable(
+    centerId: string,
+    promoCode: string,
+  ): Promise<void> {
+    const existing =
+      await this.discountRulesRepository.findByCenterAndPromoCode(
+        centerId,
+        promoCode,
+      );
+    if (existing) {
+      throw StudentBillingErrors.promoCodeAlreadyExists(promoCode);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import { Money } from '@/shared/common/utils/money.util';
+import { DiscountRulesRepository } from '../repositories/discount-rules.repository';
+import { DiscountRule } from '../entities/discount-rule.entity';
+import { StudentChargeType } from '../enums';
+import { DiscountRuleKind } from '../enums/discount-rule-kind.enum';
+import { DiscountValueType } from '../enums/discount-value-type.enum';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import {
+  AppliedDiscount,
+  DiscountedPrice,
+} from '../interfaces/applied-discount.interface';
+
+export interface DiscountContext {
+  centerId: string;
+  classId: string;
+  studentUserProfileId: string;
+  chargeType: StudentChargeType;
+}
+
+@Injectable()
+export class StudentBillingDiscountService {
+  constructor(
+    private readonly discountRulesRepository: DiscountRulesRepository,
+  ) {}
+
+  /**
+   * Apply the center's discount rules to the price of a new charge.
+   * Every matching rule is computed on the original price and the total
+   * discount is capped at the price. The promo code use is counted here,
+   * so this must run inside the transaction that creates the charge.
+   */
+  async applyDiscounts(
+    context: DiscountContext,
+    originalAmount: number,
+    promoCode?: string,
+  ): Promise<DiscountedPrice> {
+    const now = new Date();
+
+    const rules = await this.findEligibleRules(context, now);
+    if (promoCode) {
+      rules.push(await this.redeemPromoCode(context, promoCode, now));
+    }
+
+    const original = Money.from(originalAmount);
+    let remaining = original;
+    const appliedDiscounts: AppliedDiscount[] = [];
+
+    for (const rule of rules) {
+      const value = Number(rule.value);
+      let amount =
+        rule.valueType === DiscountValueType.PERCENTAGE
+          ? original.multiply(value).divide(100).round()
+          : Money.from(value);
+      if (amount.greaterThan(remaining)) {
+        amount = remaining;
+      }
+
+      remaining = remaining.subtract(amount);
+      appliedDiscounts.push({
+        discountRuleId: rule.id,
+        name: rule.name,
+        kind: rule.kind,
+        valueType: rule.valueType,
+        value,
+        amount: amount.toNumber(),
+        ...(rule.promoCode && { promoCode: rule.promoCode }),
+      });
+    }
+
+    return {
+      originalAmount: original.toNumber(),
+      discountAmount: original.subtract(remaining).toNumber(),
+      netAmount: remaining.toNumber(),
+      appliedDiscounts,
+    };
+  }
+
+  private async findEligibleRules(
+    context: DiscountContext,
+    at: Date,
+  ): Promise<DiscountRule[]> {
+    const rules = await this.discountRulesRepository.findAutomaticRules({
+      ...context,
+      at,
+    });
+
+    if (!rules.some((rule) => rule.kind === DiscountRuleKind.SIBLING)) {
+      return rules;
+    }
+
+    const siblings = await this.discountRulesRepository.countEnrolledSiblings(
+      context.studentUserProfileId,
+      context.centerId,
+    );
+
+    return rules.filter(
+      (rule) =>
+        rule.kind !== DiscountRuleKind.SIBLING ||
+        siblings >= (rule.minSiblings ?? 1),
+    );
+  }
+
+  private async redeemPromoCode(
+    context: DiscountContext,
+    promoCode: string,
+    at: Date,
+  ): Promise<DiscountRule> {
+    const code = promoCode.trim().toUpperCase();
+    const rule = await this.discountRulesRepository.findByCenterAndPromoCode(
+      context.centerId,
+      code,
+    );
+
+    if (!rule || !rule.isActive) {
+      throw StudentBillingErrors.promoCodeNotFound(code);
+    }
+
+    if (rule.expiresAt && rule.expiresAt.getTime() <= at.getTime()) {
+      throw StudentBillingErrors.promoCodeExpired(code);
+    }
+
+    if (
+      (rule.startsAt && rule.startsAt.getTime() > at.getTime()) ||
+      (rule.classId && rule.classId !== context.classId) ||
+      !rule.chargeTypes.includes(context.chargeType)
+    ) {
+      throw StudentBillingErrors.promoCodeNotApplicable(code);
+    }
+
+    const redeemed = await this.discountRulesRepository.incrementPromoCodeUsage(
+      rule.id,
+    );
+    if (!redeemed) {
+      throw StudentBillingErrors.promoCodeUsageLimitReached(code);
+    }
+
+    return rule;
+  }
+}
@@ -10,6 +10,7 @@ import { Money } from '@/shared/common/utils/money.util';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { StudentBillingErrors } from '../exceptions/student-billing.errors';
 import { DateHelpers } from '../utils/date-helpers.util';
+import { StudentInstallmentsService } from './student-installments.service';
 
 export interface StudentBillingSummary {
   totalCharges: number;
@@ -36,6 +37,7 @@ export class StudentBillingQueryService {
     private readonly classesService: ClassesService,
     private readonly branchAccessService: BranchAccessService,
     private readonly classAccessService: ClassAccessService,
+    private readonly studentInstallmentsService: StudentInstallmentsService,
   ) {}
 
   /**
@@ -115,12 +117,13 @@ export class StudentBillingQueryService {
   async getStudentBillingSummary(
     studentUserProfileId: string,
     actor: ActorUser,
+    termId?: string,
   ): Promise<StudentBillingSummary> {
-    // Get all active charges for the student
-    const charges =
-      await this.chargesRepository.findActiveChargesByStudent(
-        studentUserProfileId,
-      );
+    // Get all active charges for the student (optionally within a term)
+    const charges = await this.chargesRepository.findActiveChargesByStudent(
+      studentUserProfileId,
+      termId,
+    );
 
     const summary = {
       totalCharges: charges.length,
@@ -282,7 +285,17 @@ export class StudentBillingQueryService {
           studentUserProfileId,
           classId,
         );
-      if (classCharge) {
+      // An installment overdue beyond the grace days suspends the class
+      // charge when the class blocks attendance for it
+      const isBlockedByOverdueInstallment =
+        !!classCharge &&
+        paymentStrategy.blockAttendanceWhenOverdue &&
+        classCharge.status === StudentChargeStatus.INSTALLMENT &&
+        (await this.studentInstallmentsService.hasOverdueBeyondGrace(
+          classCharge.id,
+          paymentStrategy.installmentGraceDays,
+        ));
+      if (classCharge && !isBlockedByOverdueInstallment) {
         return true;
       }
     }
@@ -1,14 +1,28 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Transactional } from '@nestjs-cls/transactional';
+import { randomUUID } from 'crypto';
 import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { StudentChargeRefundsRepository } from '../repositories/student-charge-refunds.repository';
 import { StudentCharge } from '../entities/student-charge.entity';
+import { StudentChargeRefund } from '../entities/student-charge-refund.entity';
 import { StudentChargeType, StudentChargeStatus } from '../enums';
+import { RefundDestination } from '../enums/refund-destination.enum';
+import { RefundStudentBillingDto } from '../dto/refund-student-billing.dto';
 import { AttendanceRepository } from '@/modules/attendance/repositories/attendance.repository';
 import { PaymentService } from '@/modules/finance/services/payment.service';
 import { Payment } from '@/modules/finance/entities/payment.entity';
 import { PaymentStatus } from '@/modules/finance/enums/payment-status.enum';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
+import { PaymentReason } from '@/modules/finance/enums/payment-reason.enum';
+import { PaymentReferenceType } from '@/modules/finance/enums/payment-reference-type.enum';
+import { WalletOwnerType } from '@/modules/finance/enums/wallet-owner-type.enum';
+import { Money } from '@/shared/common/utils/money.util';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import {
+  findHoldingBranchId,
+  findPayingBillingAccountId,
+} from '../utils/charge-payments.util';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
 import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
 import { StudentBillingEvents } from '@/shared/events/student-billing.events.enum';
@@ -20,20 +34,30 @@ export class StudentBillingRefundService {
 
   constructor(
     private readonly chargesRepo: StudentChargesRepository,
+    private readonly refundsRepo: StudentChargeRefundsRepository,
     private readonly attendanceRepo: AttendanceRepository,
     private readonly paymentService: PaymentService,
     private readonly accessControlHelperService: AccessControlHelperService,
     private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
   ) {}
 
+  /**
+   * Refund all or part of what was paid for a charge to the destination the
+   * staff member picked. Each refund is recorded separately; the charge only
+   * becomes REFUNDED once the refunds add up to what was paid. Attendance
+   * rules apply to every refund, partial or not. The charge row is locked so
+   * concurrent refunds cannot exceed what was paid. Gateway refunds call the
+   * gateway last, so a failure anywhere before it rolls the whole refund back
+   * before any money leaves.
+   */
   @Transactional()
   async refundStudentBilling(
     chargeId: string,
-    reason: string | undefined,
+    dto: RefundStudentBillingDto,
     actor: ActorUser,
   ): Promise<StudentCharge> {
-    // 1. Get and validate charge
-    const charge = await this.chargesRepo.findOneOrThrow(chargeId);
+    // 1. Get and lock the charge
+    const charge = await this.chargesRepo.findOneWithLock(chargeId);
 
     // 2. Validate center access
     await this.accessControlHelperService.validateCenterAccess({
@@ -46,41 +70,86 @@ export class StudentBillingRefundService {
       throw StudentBillingErrors.alreadyRefunded();
     }
 
-    // 3. Load charge with payments relationship
-    const chargeWithPayments =
-      await this.chargesRepo.findByIdWithPayments(chargeId);
-    if (!chargeWithPayments) {
-      throw StudentBillingErrors.refundValidationFailed(
-        StudentChargeType.CLASS,
-      );
+    // 4. Resolve the amount against what is left to refund
+    const refundable = Money.from(charge.totalPaid).subtract(
+      Money.from(charge.totalRefunded),
+    );
+    if (!refundable.isPositive()) {
+      throw StudentBillingErrors.refundPaymentNotFound(chargeId);
     }
 
-    // 4. Check if any payments exist
-    if (
-      !chargeWithPayments.payments ||
-      chargeWithPayments.payments.length === 0
-    ) {
-      throw StudentBillingErrors.refundPaymentNotFound(chargeId);
+    const amount =
+      dto.amount !== undefined ? Money.from(dto.amount) : refundable;
+    if (amount.greaterThan(refundable)) {
+      throw StudentBillingErrors.refundAmountExceedsRefundable(
+        amount.toString(),
+        refundable.toString(),
+      );
     }
 
-    // 5. Get the most recent payment (assuming we want to refund the latest one)
-    const payment = chargeWithPayments.payments.sort(
-      (a: Payment, b: Payment) => b.createdAt.getTime() - a.createdAt.getTime(),
-    )[0];
+    const isFullRefund = amount.equals(refundable);
+    const reason = dto.reason || 'Administrative refund';
 
-    // 5. Validate payment can be refunded
-    if (payment.status !== PaymentStatus.COMPLETED) {
-      throw StudentBillingErrors.refundValidationFailed(charge.chargeType);
+    // 5. Validate refund eligibility based on type (attendance rules)
+    await this.validateRefundEligibility(charge);
+
+    // 6. Move the money to the chosen destination
+    const payment = await this.executeRefund(
+      charge,
+      amount,
+      dto.destination,
+      reason,
+      actor,
+    );
+
+    // 7. Record the refund, update charge and finalize
+    const refund = await this.refundsRepo.create({
+      centerId: charge.centerId,
+      branchId:
+        payment.senderType === WalletOwnerType.BRANCH
+          ? payment.senderId
+          : charge.branchId,
+      studentChargeId: charge.id,
+      studentUserProfileId: charge.studentUserProfileId,
+      amount: amount.toNumber(),
+      destination: dto.destination,
+      reason,
+      paymentId: payment.id,
+    });
+
+    const updatedCharge = await this.finalizeRefund(
+      charge,
+      refund,
+      payment,
+      isFullRefund,
+      actor,
+    );
+
+    // 8. Return gateway refunds through the gateway once nothing else can fail
+    if (dto.destination === RefundDestination.GATEWAY) {
+      const gatewayRefundId = await this.paymentService.sendGatewayRefund(
+        payment.id,
+        amount,
+        reason,
+      );
+      await this.refundsRepo.update(refund.id, { gatewayRefundId });
     }
 
-    // 6. Validate refund eligibility based on type (attendance rules)
-    await this.validateRefundEligibility(charge);
+    return updatedCharge;
+  }
 
-    // 7. Execute appropriate refund based on payment type
-    await this.executeRefund(payment);
+  async listRefunds(
+    chargeId: string,
+    actor: ActorUser,
+  ): Promise<StudentChargeRefund[]> {
+    const charge = await this.chargesRepo.findOneOrThrow(chargeId);
 
-    // 8. Update charge and finalize
-    return await this.finalizeRefund(charge, reason || 'Administrative refund', actor);
+    await this.accessControlHelperService.validateCenterAccess({
+      userProfileId: actor.userProfileId,
+      centerId: charge.centerId,
+    });
+
+    return this.refundsRepo.findByCharge(chargeId);
   }
 
   private async validateMonthlyRefund(charge: StudentCharge): Promise<void> {
@@ -155,29 +224,115 @@ export class StudentBillingRefundService {
     }
   }
 
-  private async executeRefund(payment: Payment): Promise<void> {
-    // Check if payment is async (external) or sync (internal)
-    if (PaymentService.isAsyncPayment(payment)) {
-      await this.executeExternalRefund(payment);
-    } else {
-      await this.executeInternalRefund(payment);
+  private async executeRefund(
+    charge: StudentCharge,
+    amount: Money,
+    destination: RefundDestination,
+    reason: string,
+    actor: ActorUser,
+  ): Promise<Payment> {
+    switch (destination) {
+      case RefundDestination.WALLET:
+        return this.executeBranchRefund(
+          charge,
+          amount,
+          PaymentMethod.WALLET,
+          reason,
+          actor,
+        );
+      case RefundDestination.CASH:
+        return this.executeBranchRefund(
+          charge,
+          amount,
+          PaymentMethod.CASH,
+          reason,
+          actor,
+        );
+      case RefundDestination.GATEWAY:
+        return this.executeGatewayRefund(charge, amount);
     }
   }
 
-  private async executeInternalRefund(payment: Payment): Promise<void> {
-    try {
-      await this.paymentService.refundInternalPayment(payment.id);
-    } catch {
-      throw StudentBillingErrors.refundFailed('Refund processing failed');
-    }
+  /**
+   * Pay the amount back from the branch: wallet to wallet, or cash out of
+   * the branch cashbox. The branch is the one holding the money, so charges
+   * carried over to another branch are refunded from where they were paid.
+   * Wallet refunds go back to the wallet that paid, so charges paid from a
+   * family wallet are refunded to the billing account.
+   */
+  private async executeBranchRefund(
+    charge: StudentCharge,
+    amount: Money,
+    paymentMethod: PaymentMethod.WALLET | PaymentMethod.CASH,
+    reason: string,
+    actor: ActorUser,
+  ): Promise<Payment> {
+    const chargeWithPayments = await this.chargesRepo.findByIdWithPayments(
+      charge.id,
+    );
+    const payments = chargeWithPayments?.payments ?? [];
+    const billingAccountId =
+      paymentMethod === PaymentMethod.WALLET
+        ? findPayingBillingAccountId(payments)
+        : null;
+    const branchId = findHoldingBranchId(payments, amount, charge.branchId);
+
+    const { payment } = await this.paymentService.createAndExecutePayment(
+      {
+        amount,
+        senderId: branchId,
+        senderType: WalletOwnerType.BRANCH,
+        receiverId: billingAccountId ?? charge.studentUserProfileId,
+        receiverType: billingAccountId
+          ? WalletOwnerType.BILLING_ACCOUNT
+          : WalletOwnerType.USER_PROFILE,
+        reason: PaymentReason.STUDENT_REFUND,
+        paymentMethod,
+        referenceType: PaymentReferenceType.STUDENT_CHARGE,
+        referenceId: charge.id,
+        correlationId: randomUUID(),
+        metadata: {
+          refundReason: reason,
+          ...(billingAccountId && {
+            studentUserProfileId: charge.studentUserProfileId,
+          }),
+        },
+      },
+      actor,
+    );
+
+    return payment;
   }
 
-  private async executeExternalRefund(payment: Payment): Promise<void> {
-    try {
-      await this.paymentService.refundPayment(payment.id);
-    } catch {
-      throw StudentBillingErrors.refundFailed('Refund processing failed');
+  /**
+   * Take the amount back from the latest external payment made for the
+   * charge; the gateway is called once the refund is recorded
+   */
+  private async executeGatewayRefund(
+    charge: StudentCharge,
+    amount: Money,
+  ): Promise<Payment> {
+    const chargeWithPayments = await this.chargesRepo.findByIdWithPayments(
+      charge.id,
+    );
+    const externalPayment = (chargeWithPayments?.payments ?? [])
+      .filter(
+        (payment) =>
+          PaymentService.isAsyncPayment(payment) &&
+          payment.status === PaymentStatus.COMPLETED,
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+    if (!externalPayment) {
+      throw StudentBillingErrors.refundUnsupportedPaymentType(
+        RefundDestination.GATEWAY,
+      );
     }
+
+    return this.paymentService.reverseExternalPaymentAmount(
+      externalPayment.id,
+      amount,
+    );
   }
 
   private async validateRefundEligibility(
@@ -197,28 +352,43 @@ export class StudentBillingRefundService {
 
   private async finalizeRefund(
     charge: StudentCharge,
-    reason: string,
+    refund: StudentChargeRefund,
+    refundedPayment: Payment,
+    isFullRefund: boolean,
     actor: ActorUser,
   ): Promise<StudentCharge> {
-    charge.status = StudentChargeStatus.REFUNDED;
-    charge.refundedAt = new Date();
-    charge.refundReason = reason;
+    charge.totalRefunded = Money.from(charge.totalRefunded)
+      .add(Money.from(refund.amount))
+      .toNumber();
+    if (isFullRefund) {
+      charge.status = StudentChargeStatus.REFUNDED;
+      charge.refundedAt = new Date();
+    }
+    charge.refundReason = refund.reason;
 
     const updatedCharge = await this.chargesRepo.saveCharge(charge);
 
     // Emit refund event
     await this.typeSafeEventEmitter.emitAsync(
       StudentBillingEvents.CHARGE_REFUNDED,
-      new StudentChargeRefundedEvent(actor, updatedCharge, reason),
+      new StudentChargeRefundedEvent(
+        actor,
+        updatedCharge,
+        refund,
+        refundedPayment,
+        refund.reason,
+      ),
     );
 
     // Log successful refund
     this.logger.log(`Student charge refund completed`, {
       chargeId: charge.id,
       studentId: charge.studentUserProfileId,
-      amount: charge.amount.toString(),
+      amount: refund.amount.toString(),
+      destination: refund.destination,
       type: charge.chargeType,
-      reason,
+      isFullRefund,
+      reason: refund.reason,
     });
 
     return updatedCharge;
@@ -0,0 +1,337 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { StudentCharge } from '../entities/student-charge.entity';
+import { StudentChargeStatus } from '../enums';
+import { StudentBillingValidationService } from './student-billing-validation.service';
+import { StudentInstallmentsService } from './student-installments.service';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { DateHelpers } from '../utils/date-helpers.util';
+import {
+  findHoldingBranchId,
+  findPayingBillingAccountId,
+} from '../utils/charge-payments.util';
+import {
+  PaymentService,
+  ExecutePaymentRequest,
+} from '@/modules/finance/services/payment.service';
+import { Payment } from '@/modules/finance/entities/payment.entity';
+import { PaymentReason } from '@/modules/finance/enums/payment-reason.enum';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
+import { PaymentReferenceType } from '@/modules/finance/enums/payment-reference-type.enum';
+import { WalletOwnerType } from '@/modules/finance/enums/wallet-owner-type.enum';
+import { Group } from '@/modules/classes/entities/group.entity';
+import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { firstDayOfMonth } from '@/modules/classes/utils/price-version.util';
+import { Session } from '@/modules/sessions/entities/session.entity';
+import { Money } from '@/shared/common/utils/money.util';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+
+export interface ChargeTransferContext {
+  studentUserProfileId: string;
+  fromGroup: Group;
+  toGroup: Group;
+  paymentMethod: PaymentMethod;
+  transferredAt: Date;
+}
+
+/**
+ * Carries a student's active charges over when they are transferred between
+ * groups of different classes.
+ *
+ * - Current month subscription: moved to the new class, the price difference
+ *   for the rest of the month is debited from or credited to the student.
+ * - Class charge (paid or in installments): moved to the new class with its
+ *   paid amount, anything paid above the new class price is credited back.
+ *   Its installment schedule is regenerated from the new class's plan.
+ *
+ * Session charges belong to sessions of the old class and are left as they are.
+ *
+ * What was paid before the transfer stays in the branch that received it;
+ * credits and later refunds are paid back from the branch holding the money.
+ *
+ * Session charges of a canceled session are also moved to its makeup session,
+ * so students keep what they paid without a refund and a new charge.
+ */
+@Injectable()
+export class StudentBillingTransferService {
+  private readonly logger = new Logger(StudentBillingTransferService.name);
+
+  constructor(
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly validationService: StudentBillingValidationService,
+    private readonly paymentService: PaymentService,
+    private readonly studentInstallmentsService: StudentInstallmentsService,
+    private readonly classesRepository: ClassesRepository,
+  ) {}
+
+  @Transactional()
+  async carryOverChargesOnTransfer(
+    context: ChargeTransferContext,
+    actor: ActorUser,
+  ): Promise<StudentCharge[]> {
+    const { fromGroup, toGroup } = context;
+
+    // Charges are keyed by class - nothing to move within the same class
+    if (fromGroup.classId === toGroup.classId) {
+      return [];
+    }
+
+    const carriedOver: StudentCharge[] = [];
+
+    const subscription = await this.carryOverMonthlySubscription(
+      context,
+      actor,
+    );
+    if (subscription) {
+      carriedOver.push(subscription);
+    }
+
+    const classCharge = await this.carryOverClassCharge(context, actor);
+    if (classCharge) {
+      carriedOver.push(classCharge);
+    }
+
+    return carriedOver;
+  }
+
+  @Transactional()
+  async carryOverSessionChargesToMakeup(
+    canceledSession: Session,
+    makeupSession: Session,
+  ): Promise<StudentCharge[]> {
+    const charges =
+      await this.chargesRepository.findActiveSessionChargesBySession(
+        canceledSession.id,
+      );
+
+    const carriedOver: StudentCharge[] = [];
+    for (const charge of charges) {
+      charge.carriedOverFromSessionId = canceledSession.id;
+      charge.sessionId = makeupSession.id;
+      carriedOver.push(await this.chargesRepository.saveCharge(charge));
+    }
+
+    if (carriedOver.length > 0) {
+      this.logger.log(`Session charges carried over to makeup session`, {
+        fromSessionId: canceledSession.id,
+        toSessionId: makeupSession.id,
+        count: carriedOver.length,
+      });
+    }
+
+    return carriedOver;
+  }
+
+  private async carryOverMonthlySubscription(
+    context: ChargeTransferContext,
+    actor: ActorUser,
+  ): Promise<StudentCharge | null> {
+    const { studentUserProfileId, fromGroup, toGroup, transferredAt } = context;
+    // Month and proration follow the center's calendar, not the server's
+    const { center } = await this.classesRepository.findByIdOrThrow(
+      fromGroup.classId,
+      ['center'],
+    );
+    const { month, year } = DateHelpers.getZonedMonthYear(
+      transferredAt,
+      center.timezone,
+    );
+
+    const subscription =
+      await this.chargesRepository.findActiveMonthlySubscription(
+        studentUserProfileId,
+        fromGroup.classId,
+        month,
+        year,
+      );
+    if (!subscription) {
+      return null;
+    }
+
+    const target = await this.validationService.getValidatedPaymentPrice(
+      toGroup.classId,
+      'month',
+      studentUserProfileId,
+      firstDayOfMonth(month, year),
+    );
+    const targetPrice = Money.from(target.price);
+
+    const existingTarget =
+      await this.chargesRepository.findActiveMonthlySubscription(
+        studentUserProfileId,
+        toGroup.classId,
+        month,
+        year,
+      );
+    if (existingTarget) {
+      throw StudentBillingErrors.subscriptionAlreadyExists();
+    }
+
+    // Price difference only applies to the part of the month still ahead
+    const adjustment = targetPrice
+      .subtract(Money.from(subscription.amount))
+      .multiply(
+        DateHelpers.getRemainingMonthFraction(transferredAt, center.timezone),
+      )
+      .toCurrencyPrecision();
+
+    await this.settleAdjustment(
+      subscription,
+      adjustment,
+      PaymentReason.MONTHLY_FEE,
+      context,
+      actor,
+    );
+
+    subscription.amount = Money.from(subscription.amount)
+      .add(adjustment)
+      .toNumber();
+    subscription.totalPaid = Money.from(subscription.totalPaid)
+      .add(adjustment)
+      .toNumber();
+    subscription.studentPriceVersionId = target.studentPriceVersionId;
+
+    return this.moveCharge(subscription, context);
+  }
+
+  private async carryOverClassCharge(
+    context: ChargeTransferContext,
+    actor: ActorUser,
+  ): Promise<StudentCharge | null> {
+    const { studentUserProfileId, fromGroup, toGroup } = context;
+
+    const classCharge =
+      await this.chargesRepository.findActiveClassChargeByStudentAndClass(
+        studentUserProfileId,
+        fromGroup.classId,
+      );
+    if (!classCharge) {
+      return null;
+    }
+
+    const target = await this.validationService.getValidatedClassPrice(
+      toGroup.classId,
+      studentUserProfileId,
+    );
+    const targetPrice = Money.from(target.price);
+
+    const existingTarget =
+      await this.chargesRepository.findActiveClassChargeByStudentAndClass(
+        studentUserProfileId,
+        toGroup.classId,
+      );
+    if (existingTarget) {
+      throw StudentBillingErrors.classChargeAlreadyExists();
+    }
+
+    // Paid amount counts toward the new class price, any excess is credited back
+    let totalPaid = Money.from(classCharge.totalPaid);
+    if (totalPaid.greaterThan(targetPrice)) {
+      await this.settleAdjustment(
+        classCharge,
+        targetPrice.subtract(totalPaid),
+        PaymentReason.CLASS_FEE,
+        context,
+        actor,
+      );
+      totalPaid = targetPrice;
+    }
+
+    classCharge.amount = targetPrice.toNumber();
+    classCharge.totalPaid = totalPaid.toNumber();
+    classCharge.studentPriceVersionId = target.studentPriceVersionId;
+    classCharge.status = totalPaid.equals(targetPrice)
+      ? StudentChargeStatus.COMPLETED
+      : StudentChargeStatus.INSTALLMENT;
+
+    const movedCharge = await this.moveCharge(classCharge, context);
+    await this.studentInstallmentsService.rebuildSchedule(movedCharge);
+
+    return movedCharge;
+  }
+
+  /**
+   * Settle a billing difference between the student and the branches.
+   * A positive adjustment is a debit paid by the student to the new branch,
+   * a negative one is a credit paid back by the branch holding the money.
+   * Wallet credits go back to the wallet that paid, so charges paid from a
+   * family wallet are credited to the billing account.
+   */
+  private async settleAdjustment(
+    charge: StudentCharge,
+    adjustment: Money,
+    reason: PaymentReason,
+    context: ChargeTransferContext,
+    actor: ActorUser,
+  ): Promise<void> {
+    if (adjustment.isZero()) {
+      return;
+    }
+
+    const isDebit = adjustment.isPositive();
+    const payments = isDebit ? [] : await this.findChargePayments(charge);
+    const creditBranchId = isDebit
+      ? null
+      : findHoldingBranchId(payments, adjustment.abs(), charge.branchId);
+    const billingAccountId =
+      !isDebit && context.paymentMethod === PaymentMethod.WALLET
+        ? findPayingBillingAccountId(payments)
+        : null;
+    const creditReceiverType = billingAccountId
+      ? WalletOwnerType.BILLING_ACCOUNT
+      : WalletOwnerType.USER_PROFILE;
+    const paymentRequest: ExecutePaymentRequest = {
+      amount: adjustment.abs(),
+      senderId: creditBranchId ?? context.studentUserProfileId,
+      senderType: isDebit
+        ? WalletOwnerType.USER_PROFILE
+        : WalletOwnerType.BRANCH,
+      receiverId: isDebit
+        ? context.toGroup.branchId
+        : (billingAccountId ?? context.studentUserProfileId),
+      receiverType: isDebit ? WalletOwnerType.BRANCH : creditReceiverType,
+      reason,
+      paymentMethod: context.paymentMethod,
+      referenceType: PaymentReferenceType.STUDENT_CHARGE,
+      referenceId: charge.id,
+      ...(billingAccountId && {
+        metadata: { studentUserProfileId: context.studentUserProfileId },
+      }),
+    };
+
+    await this.paymentService.createAndExecutePayment(paymentRequest, actor);
+
+    if (isDebit) {
+      charge.lastPaymentAmount = adjustment.toNumber();
+    }
+  }
+
+  private async findChargePayments(charge: StudentCharge): Promise<Payment[]> {
+    const chargeWithPayments =
+      await this.chargesRepository.findByIdWithPayments(charge.id);
+    return chargeWithPayments?.payments ?? [];
+  }
+
+  private async moveCharge(
+    charge: StudentCharge,
+    context: ChargeTransferContext,
+  ): Promise<StudentCharge> {
+    charge.transferredFromClassId = charge.classId;
+    charge.transferredAt = context.transferredAt;
+    charge.classId = context.toGroup.classId;
+    charge.branchId = context.toGroup.branchId;
+
+    const savedCharge = await this.chargesRepository.saveCharge(charge);
+
+    this.logger.log(`Student charge carried over to new class`, {
+      chargeId: savedCharge.id,
+      studentId: savedCharge.studentUserProfileId,
+      fromClassId: savedCharge.transferredFromClassId,
+      toClassId: savedCharge.classId,
+      type: savedCharge.chargeType,
+    });
+
+    return savedCharge;
+  }
+}
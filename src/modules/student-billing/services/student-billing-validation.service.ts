@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { PaymentStrategyService } from '@/modules/classes/services/payment-strategy.service';
 import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { ResolvedPrice } from '../interfaces/resolved-price.interface';
 
 @Injectable()
 export class StudentBillingValidationService {
@@ -63,12 +64,17 @@ export class StudentBillingValidationService {
   }
 
   /**
-   * Get validated payment price for a class
+   * Get validated payment price for a class, from the price version in
+   * effect for the student on the given day
+   *
+   * @param asOf - A moment, or a YYYY-MM-DD day in the center timezone
    */
   async getValidatedPaymentPrice(
     classId: string,
     paymentType: 'session' | 'month',
-  ): Promise<number> {
+    studentUserProfileId: string,
+    asOf: Date | string,
+  ): Promise<ResolvedPrice> {
     const paymentStrategy =
       await this.paymentStrategyService.getStudentPaymentStrategyForClass(
         classId,
@@ -78,27 +84,42 @@ export class StudentBillingValidationService {
       throw StudentBillingErrors.subscriptionPaymentStrategyMissing();
     }
 
+    const version =
+      await this.paymentStrategyService.resolveStudentPriceVersion(
+        classId,
+        studentUserProfileId,
+        asOf,
+      );
+
     if (paymentType === 'session') {
-      if (!paymentStrategy.includeSession || !paymentStrategy.sessionPrice) {
+      const price = version
+        ? version.sessionPrice
+        : paymentStrategy.sessionPrice;
+      if (!paymentStrategy.includeSession || !price) {
         throw StudentBillingErrors.sessionPaymentsNotConfigured();
       }
-      return paymentStrategy.sessionPrice;
+      return { price, studentPriceVersionId: version?.id ?? null };
     }
 
     if (paymentType === 'month') {
-      if (!paymentStrategy.includeMonth || !paymentStrategy.monthPrice) {
+      const price = version ? version.monthPrice : paymentStrategy.monthPrice;
+      if (!paymentStrategy.includeMonth || !price) {
         throw StudentBillingErrors.monthlyPaymentsNotConfigured();
       }
-      return paymentStrategy.monthPrice;
+      return { price, studentPriceVersionId: version?.id ?? null };
     }
 
     throw StudentBillingErrors.invalidPaymentType();
   }
 
   /**
-   * Get validated class charge price for a class
+   * Get validated class charge price for a class, from the price version in
+   * effect for the student today
    */
-  async getValidatedClassPrice(classId: string): Promise<number> {
+  async getValidatedClassPrice(
+    classId: string,
+    studentUserProfileId: string,
+  ): Promise<ResolvedPrice> {
     const paymentStrategy =
       await this.paymentStrategyService.getStudentPaymentStrategyForClass(
         classId,
@@ -108,10 +129,18 @@ export class StudentBillingValidationService {
       throw StudentBillingErrors.subscriptionPaymentStrategyMissing();
     }
 
-    if (!paymentStrategy.includeClass || !paymentStrategy.classPrice) {
+    const version =
+      await this.paymentStrategyService.resolveStudentPriceVersion(
+        classId,
+        studentUserProfileId,
+        new Date(),
+      );
+
+    const price = version ? version.classPrice : paymentStrategy.classPrice;
+    if (!paymentStrategy.includeClass || !price) {
       throw StudentBillingErrors.classPaymentsNotConfigured();
     }
 
-    return paymentStrategy.classPrice;
+    return { price, studentPriceVersionId: version?.id ?? null };
   }
 }
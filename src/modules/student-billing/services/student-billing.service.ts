@@ -23,18 +23,23 @@ import { Money } from '@/shared/common/utils/money.util';
 import { ClassesService } from '@/modules/classes/services/classes.service';
 import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
 import { PaymentStrategyService } from '@/modules/classes/services/payment-strategy.service';
+import { firstDayOfMonth } from '@/modules/classes/utils/price-version.util';
 import { SessionsRepository } from '@/modules/sessions/repositories/sessions.repository';
 import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
 import { ClassAccessService } from '@/modules/classes/services/class-access.service';
 import { StudentChargesRepository } from '../repositories/student-charges.repository';
 import { BaseService } from '@/shared/common/services/base.service';
 import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { ResolvedPrice } from '../interfaces/resolved-price.interface';
 import { ActorUser } from '@/shared/common/types/actor-user.type';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
 import { ClassesErrors } from '@/modules/classes/exceptions/classes.errors';
 import { SessionsErrors } from '@/modules/sessions/exceptions/sessions.errors';
 import { Class } from '@/modules/classes/entities/class.entity';
 import { StudentBillingValidationService } from './student-billing-validation.service';
+import { StudentBillingDiscountService } from './student-billing-discount.service';
+import { BillingAccountsService } from './billing-accounts.service';
+import { StudentInstallmentsService } from './student-installments.service';
 import {
   StudentBillingQueryService,
   StudentBillingSummary,
@@ -63,9 +68,12 @@ export class StudentBillingService extends BaseService {
     private classAccessService: ClassAccessService,
     private accessControlHelperService: AccessControlHelperService,
     private validationService: StudentBillingValidationService,
+    private discountService: StudentBillingDiscountService,
     private queryService: StudentBillingQueryService,
     private typeSafeEventEmitter: TypeSafeEventEmitter,
     private readonly userProfileService: UserProfileService,
+    private readonly billingAccountsService: BillingAccountsService,
+    private readonly studentInstallmentsService: StudentInstallmentsService,
   ) {
     super();
   }
@@ -93,10 +101,14 @@ export class StudentBillingService extends BaseService {
   async getValidatedPaymentPrice(
     classId: string,
     paymentType: 'session' | 'month',
-  ): Promise<number> {
+    studentUserProfileId: string,
+    asOf: Date | string,
+  ): Promise<ResolvedPrice> {
     return this.validationService.getValidatedPaymentPrice(
       classId,
       paymentType,
+      studentUserProfileId,
+      asOf,
     );
   }
 
@@ -112,8 +124,14 @@ export class StudentBillingService extends BaseService {
    * Get validated class charge price for a class
    * Delegates to validation service
    */
-  async getValidatedClassPrice(classId: string): Promise<number> {
-    return this.validationService.getValidatedClassPrice(classId);
+  async getValidatedClassPrice(
+    classId: string,
+    studentUserProfileId: string,
+  ): Promise<ResolvedPrice> {
+    return this.validationService.getValidatedClassPrice(
+      classId,
+      studentUserProfileId,
+    );
   }
 
   /**
@@ -155,6 +173,24 @@ export class StudentBillingService extends BaseService {
     return classEntity;
   }
 
+  /**
+   * Execute a student's charge payment, paid from their family billing
+   * account's wallet instead when the account covers it
+   */
+  private async executeStudentPayment(
+    paymentRequest: ExecutePaymentRequest,
+    centerId: string,
+    actor: ActorUser,
+  ) {
+    return this.paymentService.createAndExecutePayment(
+      await this.billingAccountsService.routeChargePayment(
+        paymentRequest,
+        centerId,
+      ),
+      actor,
+    );
+  }
+
   /**
    * Create a monthly subscription for a student
    * Handles payment processing and billing record creation
@@ -163,6 +199,45 @@ export class StudentBillingService extends BaseService {
   async createMonthlySubscription(
     dto: CreateMonthlySubscriptionDto,
     actor: ActorUser,
+  ): Promise<StudentCharge> {
+    return this.chargeMonthlySubscription(dto, actor, {
+      validateActorAccess: true,
+      allowNegativeBalance: false,
+    });
+  }
+
+  /**
+   * Renew a monthly subscription from the student's wallet for auto-renewal
+   * The wallet may go negative down to the maxNegativeBalance setting
+   * Runs from the renewal job, so there is no staff actor to validate
+   */
+  @Transactional()
+  async createAutoRenewalSubscription(
+    studentUserProfileId: string,
+    classId: string,
+    month: number,
+    year: number,
+    idempotencyKey: string,
+    actor: ActorUser,
+  ): Promise<StudentCharge> {
+    return this.chargeMonthlySubscription(
+      {
+        studentUserProfileId,
+        classId,
+        month,
+        year,
+        idempotencyKey,
+        paymentMethod: PaymentMethod.WALLET,
+      },
+      actor,
+      { validateActorAccess: false, allowNegativeBalance: true },
+    );
+  }
+
+  private async chargeMonthlySubscription(
+    dto: CreateMonthlySubscriptionDto,
+    actor: ActorUser,
+    options: { validateActorAccess: boolean; allowNegativeBalance: boolean },
   ): Promise<StudentCharge> {
     // Idempotency check
     if (dto.idempotencyKey) {
@@ -187,10 +262,9 @@ export class StudentBillingService extends BaseService {
     }
 
     // ✅ VALIDATE: Access control for staff users
-    const classEntity = await this.validateClassAccessForActor(
-      dto.classId,
-      actor,
-    );
+    const classEntity = options.validateActorAccess
+      ? await this.validateClassAccessForActor(dto.classId, actor)
+      : await this.classesService.findOneOrThrow(dto.classId);
 
     // Validate related entities are active
     const classWithRelations =
@@ -205,8 +279,13 @@ export class StudentBillingService extends BaseService {
     // ✅ VALIDATE: Check if monthly subscriptions are allowed
     await this.validateMonthlySubscriptionAllowed(dto.classId);
 
-    // ✅ GET PRICE: Use validated class-configured price
-    const amount = await this.getValidatedPaymentPrice(dto.classId, 'month');
+    // ✅ GET PRICE: Use the class price in effect for the billed month
+    const listPrice = await this.getValidatedPaymentPrice(
+      dto.classId,
+      'month',
+      dto.studentUserProfileId,
+      firstDayOfMonth(dto.month, dto.year),
+    );
 
     // Check for duplicate subscription for the same month
     const existingSubscription =
@@ -221,6 +300,19 @@ export class StudentBillingService extends BaseService {
       throw StudentBillingErrors.subscriptionAlreadyExists();
     }
 
+    // Apply center discount rules, the student pays the net amount
+    const price = await this.discountService.applyDiscounts(
+      {
+        centerId: classEntity.centerId,
+        classId: dto.classId,
+        studentUserProfileId: dto.studentUserProfileId,
+        chargeType: StudentChargeType.SUBSCRIPTION,
+      },
+      listPrice.price,
+      dto.promoCode,
+    );
+    const amount = price.netAmount;
+
     // Create the charge record first (in PENDING status)
     const charge = await this.chargesRepository.createCharge({
       idempotencyKey: dto.idempotencyKey,
@@ -232,30 +324,38 @@ export class StudentBillingService extends BaseService {
       month: dto.month,
       year: dto.year,
       amount,
+      originalAmount: price.originalAmount,
+      discountAmount: price.discountAmount,
+      appliedDiscounts: price.appliedDiscounts,
+      studentPriceVersionId: listPrice.studentPriceVersionId,
       status: StudentChargeStatus.PENDING, // Start as pending
     });
 
-    // Execute payment using unified API with charge reference
-    const paymentRequest: ExecutePaymentRequest = {
-      amount: Money.from(amount),
-      senderId: dto.studentUserProfileId,
-      senderType: WalletOwnerType.USER_PROFILE,
-      receiverId: classEntity.branchId,
-      receiverType: WalletOwnerType.BRANCH,
-      reason: PaymentReason.MONTHLY_FEE,
-      paymentMethod:
-        dto.paymentMethod === PaymentMethod.WALLET
-          ? PaymentMethod.WALLET
-          : PaymentMethod.CASH,
-      referenceType: PaymentReferenceType.STUDENT_CHARGE,
-      referenceId: charge.id, // Now we have the charge ID
-    };
+    // Fully discounted charges have nothing to collect
+    if (price.netAmount > 0) {
+      // Execute payment using unified API with charge reference
+      const paymentRequest: ExecutePaymentRequest = {
+        amount: Money.from(amount),
+        senderId: dto.studentUserProfileId,
+        senderType: WalletOwnerType.USER_PROFILE,
+        receiverId: classEntity.branchId,
+        receiverType: WalletOwnerType.BRANCH,
+        reason: PaymentReason.MONTHLY_FEE,
+        paymentMethod:
+          dto.paymentMethod === PaymentMethod.WALLET
+            ? PaymentMethod.WALLET
+            : PaymentMethod.CASH,
+        referenceType: PaymentReferenceType.STUDENT_CHARGE,
+        referenceId: charge.id, // Now we have the charge ID
+        allowNegativeBalance: options.allowNegativeBalance,
+      };
 
-    const paymentResult = await this.paymentService.createAndExecutePayment(
-      paymentRequest,
-      actor,
-    );
-    const payment = paymentResult.payment;
+      await this.executeStudentPayment(
+        paymentRequest,
+        classEntity.centerId,
+        actor,
+      );
+    }
 
     // Update charge status to COMPLETED after successful payment
     charge.status = StudentChargeStatus.COMPLETED;
@@ -337,8 +437,9 @@ export class StudentBillingService extends BaseService {
       referenceId: classCharge.id,
     };
 
-    const paymentResult = await this.paymentService.createAndExecutePayment(
+    const paymentResult = await this.executeStudentPayment(
       paymentRequest,
+      classEntity.centerId,
       actor,
     );
     const payment = paymentResult.payment;
@@ -355,6 +456,7 @@ export class StudentBillingService extends BaseService {
     }
 
     const savedCharge = await this.chargesRepository.saveCharge(classCharge);
+    await this.studentInstallmentsService.applyPayments(savedCharge);
 
     // Emit installment paid event
     const remainingAmount = Money.from(classCharge.amount).subtract(
@@ -412,10 +514,12 @@ export class StudentBillingService extends BaseService {
   async getStudentBillingSummary(
     studentUserProfileId: string,
     actor: ActorUser,
+    termId?: string,
   ): Promise<StudentBillingSummary> {
     return this.queryService.getStudentBillingSummary(
       studentUserProfileId,
       actor,
+      termId,
     );
   }
 
@@ -427,6 +531,39 @@ export class StudentBillingService extends BaseService {
   async createSessionCharge(
     dto: CreateSessionChargeDto,
     actor: ActorUser,
+  ): Promise<StudentCharge> {
+    return this.chargeSession(dto, actor, {
+      validateActorAccess: true,
+      allowNegativeBalance: false,
+    });
+  }
+
+  /**
+   * Charge a session to the student's wallet while attendance is being marked
+   * The wallet may go negative down to the maxNegativeBalance setting
+   * Access is validated by the attendance flow, whose actor may be the student
+   */
+  @Transactional()
+  async createAttendanceSessionCharge(
+    studentUserProfileId: string,
+    sessionId: string,
+    actor: ActorUser,
+  ): Promise<StudentCharge> {
+    return this.chargeSession(
+      {
+        studentUserProfileId,
+        sessionId,
+        paymentMethod: PaymentMethod.WALLET,
+      },
+      actor,
+      { validateActorAccess: false, allowNegativeBalance: true },
+    );
+  }
+
+  private async chargeSession(
+    dto: CreateSessionChargeDto,
+    actor: ActorUser,
+    options: { validateActorAccess: boolean; allowNegativeBalance: boolean },
   ): Promise<StudentCharge> {
     // Get session information
     const session = await this.sessionsRepository.findOneOrThrow(dto.sessionId);
@@ -459,7 +596,9 @@ export class StudentBillingService extends BaseService {
     }
 
     // ✅ VALIDATE: Access control for staff users
-    await this.validateClassAccessForActor(classId, actor);
+    if (options.validateActorAccess) {
+      await this.validateClassAccessForActor(classId, actor);
+    }
 
     // Idempotency check
     if (dto.idempotencyKey) {
@@ -475,8 +614,13 @@ export class StudentBillingService extends BaseService {
     // ✅ VALIDATE: Check if session charges are allowed
     await this.validateSessionChargeAllowed(classId);
 
-    // ✅ GET PRICE: Use validated class-configured price
-    const amount = await this.getValidatedPaymentPrice(classId, 'session');
+    // ✅ GET PRICE: Use the class price in effect when the session is held
+    const listPrice = await this.getValidatedPaymentPrice(
+      classId,
+      'session',
+      dto.studentUserProfileId,
+      session.startTime,
+    );
 
     // Check if student already paid for this session
     const existingCharge =
@@ -489,6 +633,19 @@ export class StudentBillingService extends BaseService {
       throw StudentBillingErrors.sessionChargeAlreadyExists();
     }
 
+    // Apply center discount rules, the student pays the net amount
+    const price = await this.discountService.applyDiscounts(
+      {
+        centerId: session.centerId,
+        classId,
+        studentUserProfileId: dto.studentUserProfileId,
+        chargeType: StudentChargeType.SESSION,
+      },
+      listPrice.price,
+      dto.promoCode,
+    );
+    const amount = price.netAmount;
+
     // Create the charge record first (in PENDING status)
     const charge = await this.chargesRepository.createCharge({
       idempotencyKey: dto.idempotencyKey,
@@ -499,30 +656,34 @@ export class StudentBillingService extends BaseService {
       classId,
       sessionId: dto.sessionId,
       amount,
+      originalAmount: price.originalAmount,
+      discountAmount: price.discountAmount,
+      appliedDiscounts: price.appliedDiscounts,
+      studentPriceVersionId: listPrice.studentPriceVersionId,
       status: StudentChargeStatus.PENDING, // Start as pending
     });
 
-    // Execute payment using unified API with charge reference
-    const paymentRequest: ExecutePaymentRequest = {
-      amount: Money.from(amount),
-      senderId: dto.studentUserProfileId,
-      senderType: WalletOwnerType.USER_PROFILE,
-      receiverId: session.branchId,
-      receiverType: WalletOwnerType.BRANCH,
-      reason: PaymentReason.SESSION_FEE,
-      paymentMethod:
-        dto.paymentMethod === PaymentMethod.WALLET
-          ? PaymentMethod.WALLET
-          : PaymentMethod.CASH,
-      referenceType: PaymentReferenceType.STUDENT_CHARGE,
-      referenceId: charge.id, // Now we have the charge ID
-    };
+    // Fully discounted charges have nothing to collect
+    if (price.netAmount > 0) {
+      // Execute payment using unified API with charge reference
+      const paymentRequest: ExecutePaymentRequest = {
+        amount: Money.from(amount),
+        senderId: dto.studentUserProfileId,
+        senderType: WalletOwnerType.USER_PROFILE,
+        receiverId: session.branchId,
+        receiverType: WalletOwnerType.BRANCH,
+        reason: PaymentReason.SESSION_FEE,
+        paymentMethod:
+          dto.paymentMethod === PaymentMethod.WALLET
+            ? PaymentMethod.WALLET
+            : PaymentMethod.CASH,
+        referenceType: PaymentReferenceType.STUDENT_CHARGE,
+        referenceId: charge.id, // Now we have the charge ID
+        allowNegativeBalance: options.allowNegativeBalance,
+      };
 
-    const paymentResult = await this.paymentService.createAndExecutePayment(
-      paymentRequest,
-      actor,
-    );
-    const payment = paymentResult.payment;
+      await this.executeStudentPayment(paymentRequest, session.centerId, actor);
+    }
 
     // Update charge status to COMPLETED after successful payment
     charge.status = StudentChargeStatus.COMPLETED;
@@ -594,8 +755,11 @@ export class StudentBillingService extends BaseService {
     // ✅ VALIDATE: Check if class charges are allowed
     await this.validateClassChargeAllowed(dto.classId);
 
-    // ✅ GET PRICE: Use validated class-configured price
-    const totalAmount = await this.getValidatedClassPrice(dto.classId);
+    // ✅ GET PRICE: Use the class price in effect for the student today
+    const listPrice = await this.getValidatedClassPrice(
+      dto.classId,
+      dto.studentUserProfileId,
+    );
 
     // Check if student already paid for this class
     const existingCharge =
@@ -608,6 +772,19 @@ export class StudentBillingService extends BaseService {
       throw StudentBillingErrors.classChargeAlreadyExists();
     }
 
+    // Apply center discount rules, installments are paid towards the net amount
+    const price = await this.discountService.applyDiscounts(
+      {
+        centerId: classEntity.centerId,
+        classId: dto.classId,
+        studentUserProfileId: dto.studentUserProfileId,
+        chargeType: StudentChargeType.CLASS,
+      },
+      listPrice.price,
+      dto.promoCode,
+    );
+    const totalAmount = price.netAmount;
+
     // Initial payment amount is required and provided by the client
     const initialPaymentAmount = dto.initialPaymentAmount;
 
@@ -632,35 +809,43 @@ export class StudentBillingService extends BaseService {
       centerId: classEntity.centerId,
       branchId: classEntity.branchId,
       classId: dto.classId,
-      amount: totalAmount, // Total class cost
+      amount: totalAmount, // Total class cost after discounts
+      originalAmount: price.originalAmount,
+      discountAmount: price.discountAmount,
+      appliedDiscounts: price.appliedDiscounts,
+      studentPriceVersionId: listPrice.studentPriceVersionId,
       totalPaid: initialPaymentAmount, // Initial payment made
       lastPaymentAmount: initialPaymentAmount, // Initial payment amount
       status: initialStatus, // COMPLETED if fully paid, INSTALLMENT if partial
     });
 
-    // Execute payment using unified API with charge reference
-    const paymentRequest: ExecutePaymentRequest = {
-      amount: Money.from(initialPaymentAmount),
-      senderId: dto.studentUserProfileId,
-      senderType: WalletOwnerType.USER_PROFILE,
-      receiverId: classEntity.branchId,
-      receiverType: WalletOwnerType.BRANCH,
-      reason: PaymentReason.CLASS_FEE,
-      paymentMethod:
-        dto.paymentMethod === PaymentMethod.WALLET
-          ? PaymentMethod.WALLET
-          : PaymentMethod.CASH,
-      referenceType: PaymentReferenceType.STUDENT_CHARGE,
-      referenceId: charge.id, // Now we have the charge ID
-    };
+    // Fully discounted charges have nothing to collect
+    if (price.netAmount > 0) {
+      // Execute payment using unified API with charge reference
+      const paymentRequest: ExecutePaymentRequest = {
+        amount: Money.from(initialPaymentAmount),
+        senderId: dto.studentUserProfileId,
+        senderType: WalletOwnerType.USER_PROFILE,
+        receiverId: classEntity.branchId,
+        receiverType: WalletOwnerType.BRANCH,
+        reason: PaymentReason.CLASS_FEE,
+        paymentMethod:
+          dto.paymentMethod === PaymentMethod.WALLET
+            ? PaymentMethod.WALLET
+            : PaymentMethod.CASH,
+        referenceType: PaymentReferenceType.STUDENT_CHARGE,
+        referenceId: charge.id, // Now we have the charge ID
+      };
 
-    const paymentResult = await this.paymentService.createAndExecutePayment(
-      paymentRequest,
-      actor,
-    );
-    const payment = paymentResult.payment;
+      await this.executeStudentPayment(
+        paymentRequest,
+        classEntity.centerId,
+        actor,
+      );
+    }
 
     const savedCharge = await this.chargesRepository.saveCharge(charge);
+    await this.studentInstallmentsService.rebuildSchedule(savedCharge);
 
     // Emit events
     await this.typeSafeEventEmitter.emitAsync(
@@ -724,6 +909,7 @@ export class StudentBillingService extends BaseService {
         year: dto.year,
         month: dto.month,
         idempotencyKey: dto.idempotencyKey,
+        promoCode: dto.promoCode,
       };
 
       return this.createMonthlySubscription(subscriptionDto, actor);
@@ -737,6 +923,7 @@ export class StudentBillingService extends BaseService {
         sessionId: dto.sessionId,
         paymentMethod,
         idempotencyKey: dto.idempotencyKey,
+        promoCode: dto.promoCode,
       };
 
       return this.createSessionCharge(chargeDto, actor);
@@ -751,6 +938,7 @@ export class StudentBillingService extends BaseService {
         paymentMethod,
         initialPaymentAmount: dto.initialPaymentAmount!,
         idempotencyKey: dto.idempotencyKey,
+        promoCode: dto.promoCode,
       };
 
       return this.createClassCharge(chargeDto, actor);
@@ -0,0 +1,174 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { SYSTEM_ACTOR } from '@/shared/common/constants/system-actor.constant';
+import { Money } from '@/shared/common/utils/money.util';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { StudentBillingEvents } from '@/shared/events/student-billing.events.enum';
+import { DunningSchedulesRepository } from '../repositories/dunning-schedules.repository';
+import { StudentChargeRemindersRepository } from '../repositories/student-charge-reminders.repository';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { DunningSchedule } from '../entities/dunning-schedule.entity';
+import { DunningScheduleDto } from '../dto/dunning-schedule.dto';
+import {
+  DunningStep,
+  EffectiveDunningSchedule,
+} from '../interfaces/dunning-step.interface';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { PaymentReminderDueEvent } from '../events/student-billing.events';
+import { DEFAULT_DUNNING_STEPS } from '../constants/student-billing.constants';
+import { getDaysOutstanding } from '../utils/receivables-aging.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class StudentDunningService extends BaseService {
+  private readonly logger = new Logger(StudentDunningService.name);
+
+  constructor(
+    private readonly dunningSchedulesRepository: DunningSchedulesRepository,
+    private readonly remindersRepository: StudentChargeRemindersRepository,
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  async getSchedule(actor: ActorUser): Promise<EffectiveDunningSchedule> {
+    const schedule = await this.dunningSchedulesRepository.findByCenterId(
+      actor.centerId!,
+    );
+    if (!schedule) {
+      return {
+        isEnabled: false,
+        steps: DEFAULT_DUNNING_STEPS,
+        isDefault: true,
+      };
+    }
+
+    return this.toEffectiveSchedule(schedule);
+  }
+
+  /**
+   * Create or replace the dunning schedule of the center
+   */
+  async upsertSchedule(
+    dto: DunningScheduleDto,
+    actor: ActorUser,
+  ): Promise<EffectiveDunningSchedule> {
+    const afterDays = new Set(dto.steps.map((step) => step.afterDays));
+    if (afterDays.size !== dto.steps.length) {
+      throw StudentBillingErrors.dunningScheduleInvalid();
+    }
+
+    const steps: DunningStep[] = dto.steps
+      .map((step) => ({ afterDays: step.afterDays, level: step.level }))
+      .sort((a, b) => a.afterDays - b.afterDays);
+
+    const existing = await this.dunningSchedulesRepository.findByCenterId(
+      actor.centerId!,
+    );
+    const schedule = existing
+      ? await this.dunningSchedulesRepository.updateThrow(existing.id, {
+          isEnabled: dto.isEnabled,
+          steps,
+        })
+      : await this.dunningSchedulesRepository.create({
+          centerId: actor.centerId!,
+          isEnabled: dto.isEnabled,
+          steps,
+        });
+
+    return this.toEffectiveSchedule(schedule);
+  }
+
+  /**
+   * Record and announce the reminders due today for the installment charges
+   * of the schedule's center. Only the latest step a charge has reached is
+   * sent, so a charge that passed several steps at once (e.g. the schedule
+   * was enabled late) gets one reminder instead of a burst. Charges age from
+   * the due date of their earliest unpaid installment. Charges that are
+   * COMPLETED or REFUNDED are no longer picked up.
+   *
+   * @returns number of reminders sent
+   */
+  async sendDueReminders(
+    schedule: DunningSchedule,
+    asOf: Date = new Date(),
+  ): Promise<number> {
+    if (schedule.steps.length === 0) {
+      return 0;
+    }
+
+    const firstStepDays = Math.min(
+      ...schedule.steps.map((step) => step.afterDays),
+    );
+    const outstanding =
+      await this.chargesRepository.findOutstandingInstallmentCharges(
+        schedule.centerId,
+        new Date(asOf.getTime() - firstStepDays * DAY_MS),
+      );
+
+    const sentSteps = new Map<string, Set<number>>();
+    const reminders = await this.remindersRepository.findByChargeIds(
+      outstanding.map(({ charge }) => charge.id),
+    );
+    for (const reminder of reminders) {
+      const steps = sentSteps.get(reminder.studentChargeId) ?? new Set();
+      steps.add(reminder.afterDays);
+      sentSteps.set(reminder.studentChargeId, steps);
+    }
+
+    const actor = {
+      ...SYSTEM_ACTOR,
+      centerId: schedule.centerId,
+    } as ActorUser;
+    const stepsLatestFirst = [...schedule.steps].sort(
+      (a, b) => b.afterDays - a.afterDays,
+    );
+    let sent = 0;
+
+    for (const { charge, since } of outstanding) {
+      const daysOutstanding = getDaysOutstanding(since, asOf);
+      const step = stepsLatestFirst.find(
+        (candidate) => candidate.afterDays <= daysOutstanding,
+      );
+      if (!step || sentSteps.get(charge.id)?.has(step.afterDays)) {
+        continue;
+      }
+
+      const reminder = await this.remindersRepository.create({
+        centerId: charge.centerId,
+        studentChargeId: charge.id,
+        studentUserProfileId: charge.studentUserProfileId,
+        afterDays: step.afterDays,
+        level: step.level,
+        remainingAmount: Money.from(charge.amount)
+          .subtract(Money.from(charge.totalPaid))
+          .toNumber(),
+      });
+
+      await this.typeSafeEventEmitter.emitAsync(
+        StudentBillingEvents.PAYMENT_REMINDER_DUE,
+        new PaymentReminderDueEvent(actor, reminder),
+      );
+      sent++;
+    }
+
+    this.logger.debug(
+      `Sent ${sent} payment reminders for center ${schedule.centerId}`,
+    );
+
+    return sent;
+  }
+
+  private toEffectiveSchedule(
+    schedule: DunningSchedule,
+  ): EffectiveDunningSchedule {
+    return {
+      isEnabled: schedule.isEnabled,
+      steps: schedule.steps,
+      isDefault: false,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { Money } from '@/shared/common/utils/money.util';
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { PaymentStrategyService } from '@/modules/classes/services/payment-strategy.service';
+import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
+import { StudentChargeInstallmentsRepository } from '../repositories/student-charge-installments.repository';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { StudentCharge } from '../entities/student-charge.entity';
+import { StudentChargeInstallment } from '../entities/student-charge-installment.entity';
+import { InstallmentStatus } from '../enums/installment-status.enum';
+import {
+  allocateInstallmentPayments,
+  buildInstallmentSchedule,
+} from '../utils/installment-schedule.util';
+
+@Injectable()
+export class StudentInstallmentsService extends BaseService {
+  private readonly logger = new Logger(StudentInstallmentsService.name);
+
+  constructor(
+    private readonly installmentsRepository: StudentChargeInstallmentsRepository,
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly classesRepository: ClassesRepository,
+    private readonly paymentStrategyService: PaymentStrategyService,
+    private readonly accessControlHelperService: AccessControlHelperService,
+  ) {
+    super();
+  }
+
+  /**
+   * Generate the installment schedule of a class charge from the installment
+   * plan of its class, replacing any previous schedule. What was paid on the
+   * charge so far is spread over the new installments. Classes without a
+   * plan leave the charge without a schedule.
+   */
+  async rebuildSchedule(
+    charge: StudentCharge,
+  ): Promise<StudentChargeInstallment[]> {
+    await this.installmentsRepository.deleteByCharge(charge.id);
+
+    const strategy =
+      await this.paymentStrategyService.getStudentPaymentStrategyForClass(
+        charge.classId,
+      );
+    if (!strategy?.installmentPlan?.length) {
+      return [];
+    }
+
+    const classEntity = await this.classesRepository.findByIdOrThrow(
+      charge.classId,
+      ['center'],
+    );
+    const classStartDate = TimezoneService.formatZoned(
+      classEntity.startDate,
+      'yyyy-MM-dd',
+      classEntity.center.timezone,
+    );
+
+    const schedule = buildInstallmentSchedule(
+      strategy.installmentPlan,
+      Money.from(charge.amount),
+      classStartDate,
+    );
+    const paidAmounts = allocateInstallmentPayments(
+      schedule.map((installment) => installment.amount),
+      Money.from(charge.totalPaid),
+    );
+
+    const installments: StudentChargeInstallment[] = [];
+    for (const [index, installment] of schedule.entries()) {
+      const isPaid = paidAmounts[index].equals(installment.amount);
+      installments.push(
+        await this.installmentsRepository.create({
+          centerId: charge.centerId,
+          studentChargeId: charge.id,
+          studentUserProfileId: charge.studentUserProfileId,
+          sequence: installment.sequence,
+          amount: installment.amount.toNumber(),
+          paidAmount: paidAmounts[index].toNumber(),
+          dueDate: installment.dueDate,
+          status: isPaid ? InstallmentStatus.PAID : InstallmentStatus.PENDING,
+          paidAt: isPaid ? new Date() : null,
+        }),
+      );
+    }
+
+    return installments;
+  }
+
+  /**
+   * Spread the charge's total paid over its installments after a payment.
+   * Installments that become fully paid are marked PAID, the others keep
+   * their PENDING or OVERDUE status.
+   */
+  async applyPayments(charge: StudentCharge): Promise<void> {
+    const installments = await this.installmentsRepository.findByCharge(
+      charge.id,
+    );
+    if (installments.length === 0) {
+      return;
+    }
+
+    const paidAmounts = allocateInstallmentPayments(
+      installments.map((installment) => Money.from(installment.amount)),
+      Money.from(charge.totalPaid),
+    );
+
+    for (const [index, installment] of installments.entries()) {
+      const paidAmount = paidAmounts[index];
+      if (paidAmount.equals(Money.from(installment.paidAmount))) {
+        continue;
+      }
+
+      const isPaid = paidAmount.equals(Money.from(installment.amount));
+      await this.installmentsRepository.update(installment.id, {
+        paidAmount: paidAmount.toNumber(),
+        ...(isPaid && {
+          status: InstallmentStatus.PAID,
+          paidAt: installment.paidAt ?? new Date(),
+        }),
+      });
+    }
+  }
+
+  async listForCharge(
+    chargeId: string,
+    actor: ActorUser,
+  ): Promise<StudentChargeInstallment[]> {
+    const charge = await this.chargesRepository.findOneOrThrow(chargeId);
+
+    await this.accessControlHelperService.validateCenterAccess({
+      userProfileId: actor.userProfileId,
+      centerId: charge.centerId,
+    });
+
+    return this.installmentsRepository.findByCharge(chargeId);
+  }
+
+  /**
+   * Flag the pending installments of open class charges whose due date has
+   * passed in their center's timezone
+   *
+   * @returns number of installments flagged
+   */
+  async flagOverdueInstallments(): Promise<number> {
+    const installments = await this.installmentsRepository.findPendingPastDue();
+
+    await this.installmentsRepository.markOverdue(
+      installments.map((installment) => installment.id),
+    );
+
+    this.logger.debug(`Flagged ${installments.length} overdue installments`);
+
+    return installments.length;
+  }
+
+  /**
+   * Whether an installment of the charge is unpaid more than graceDays days
+   * after its due date
+   */
+  async hasOverdueBeyondGrace(
+    chargeId: string,
+    graceDays: number,
+  ): Promise<boolean> {
+    return this.installmentsRepository.hasUnpaidDueBefore(chargeId, graceDays);
+  }
+}
@@ -0,0 +1,250 @@
+import { Injectable } from '@nestjs/common';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { ClassAccessService } from '@/modules/classes/services/class-access.service';
+import { PaymentStrategyService } from '@/modules/classes/services/payment-strategy.service';
+import { firstDayOfMonth } from '@/modules/classes/utils/price-version.util';
+import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
+import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { ReceivablesAgingQueryDto } from '../dto/receivables-aging-query.dto';
+import {
+  ReceivableItemDto,
+  ReceivablesAgingReportDto,
+  StudentReceivablesDto,
+} from '../dto/receivables-aging-response.dto';
+import {
+  LapsedSubscription,
+  Receivable,
+  ReceivablesFilter,
+} from '../interfaces/receivable.interface';
+import { ReceivableSource } from '../enums/receivable-source.enum';
+import { DateHelpers } from '../utils/date-helpers.util';
+import {
+  getDaysOutstanding,
+  summarizeAging,
+} from '../utils/receivables-aging.util';
+
+@Injectable()
+export class StudentReceivablesService extends BaseService {
+  constructor(
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly classesRepository: ClassesRepository,
+    private readonly paymentStrategyService: PaymentStrategyService,
+    private readonly branchAccessService: BranchAccessService,
+    private readonly classAccessService: ClassAccessService,
+    private readonly accessControlHelperService: AccessControlHelperService,
+  ) {
+    super();
+  }
+
+  /**
+   * What students of the center owe, bucketed by age: partly paid class
+   * charges, months not renewed after a paid subscription, and attended
+   * sessions nothing was paid for, at the prices in effect for the student. Staff without center-wide access only
+   * see the classes they work in.
+   */
+  async getAgingReport(
+    query: ReceivablesAgingQueryDto,
+    actor: ActorUser,
+  ): Promise<ReceivablesAgingReportDto> {
+    if (query.branchId) {
+      await this.branchAccessService.validateBranchAccess({
+        userProfileId: actor.userProfileId,
+        centerId: actor.centerId!,
+        branchId: query.branchId,
+      });
+    }
+
+    if (query.classId) {
+      await this.findClassAndValidateAccess(query.classId, actor);
+    }
+
+    const canBypassCenterInternalAccess =
+      await this.accessControlHelperService.bypassCenterInternalAccess(
+        actor.userProfileId,
+        actor.centerId,
+      );
+
+    const filter: ReceivablesFilter = {
+      centerId: actor.centerId!,
+      branchId: query.branchId,
+      classId: query.classId,
+      staffUserProfileId: canBypassCenterInternalAccess
+        ? undefined
+        : actor.userProfileId,
+    };
+
+    const asOf = new Date();
+    const { month, year } = DateHelpers.getCurrentMonthYear();
+
+    const installments =
+      await this.chargesRepository.findInstallmentReceivables(filter);
+    const lapsedSubscriptions =
+      await this.chargesRepository.findLapsedSubscriptions(filter, month, year);
+    const unpaidSessions =
+      await this.chargesRepository.findUnpaidSessionReceivables(filter);
+
+    const receivables = [
+      ...installments,
+      ...(await this.applyEffectivePrices([
+        ...lapsedSubscriptions.flatMap((lapsed) =>
+          this.toUnpaidMonths(lapsed, month, year),
+        ),
+        ...unpaidSessions,
+      ])),
+    ];
+
+    const students = this.groupByStudent(receivables, asOf).sort(
+      (a, b) => b.aging.total - a.aging.total,
+    );
+
+    return {
+      asOf,
+      aging: summarizeAging(students.flatMap((student) => student.items)),
+      students,
+    };
+  }
+
+  /**
+   * One receivable per month from the one after the last paid month up to
+   * the given month, skipping months that start after the class ends
+   */
+  private toUnpaidMonths(
+    lapsed: LapsedSubscription,
+    month: number,
+    year: number,
+  ): Receivable[] {
+    const receivables: Receivable[] = [];
+    const until = new Date(year, month - 1, 1);
+
+    for (
+      let monthStart = new Date(lapsed.lastPaidYear, lapsed.lastPaidMonth, 1);
+      monthStart <= until;
+      monthStart = new Date(
+        monthStart.getFullYear(),
+        monthStart.getMonth() + 1,
+        1,
+      )
+    ) {
+      if (lapsed.classEndDate && monthStart > lapsed.classEndDate) {
+        break;
+      }
+
+      receivables.push({
+        source: ReceivableSource.LAPSED_SUBSCRIPTION,
+        studentUserProfileId: lapsed.studentUserProfileId,
+        studentName: lapsed.studentName,
+        studentCode: lapsed.studentCode,
+        classId: lapsed.classId,
+        className: lapsed.className,
+        branchId: lapsed.branchId,
+        chargeId: null,
+        sessionId: null,
+        month: monthStart.getMonth() + 1, // JS months are 0-based
+        year: monthStart.getFullYear(),
+        amount: lapsed.monthPrice,
+        since: monthStart,
+      });
+    }
+
+    return receivables;
+  }
+
+  /**
+   * Price unpaid months and sessions from the price version in effect for
+   * the student, like the charges they would become: months on their first
+   * day, sessions on their start. Classes without price history keep the
+   * payment strategy price; receivables priced at zero are dropped.
+   */
+  private async applyEffectivePrices(
+    receivables: Receivable[],
+  ): Promise<Receivable[]> {
+    const priced: Receivable[] = [];
+
+    for (const receivable of receivables) {
+      const isMonth =
+        receivable.source === ReceivableSource.LAPSED_SUBSCRIPTION;
+      const version =
+        await this.paymentStrategyService.resolveStudentPriceVersion(
+          receivable.classId,
+          receivable.studentUserProfileId,
+          isMonth
+            ? firstDayOfMonth(receivable.month!, receivable.year!)
+            : receivable.since,
+        );
+
+      const amount = version
+        ? Number((isMonth ? version.monthPrice : version.sessionPrice) ?? 0)
+        : receivable.amount;
+      if (amount > 0) {
+        priced.push({ ...receivable, amount });
+      }
+    }
+
+    return priced;
+  }
+
+  private groupByStudent(
+    receivables: Receivable[],
+    asOf: Date,
+  ): StudentReceivablesDto[] {
+    const byStudent = new Map<string, StudentReceivablesDto>();
+
+    for (const receivable of receivables) {
+      let student = byStudent.get(receivable.studentUserProfileId);
+      if (!student) {
+        student = {
+          studentUserProfileId: receivable.studentUserProfileId,
+          studentName: receivable.studentName,
+          studentCode: receivable.studentCode,
+          aging: summarizeAging([]),
+          items: [],
+        };
+        byStudent.set(receivable.studentUserProfileId, student);
+      }
+      student.items.push(this.toItem(receivable, asOf));
+    }
+
+    for (const student of byStudent.values()) {
+      student.items.sort((a, b) => a.since.getTime() - b.since.getTime());
+      student.aging = summarizeAging(student.items);
+    }
+
+    return [...byStudent.values()];
+  }
+
+  private toItem(receivable: Receivable, asOf: Date): ReceivableItemDto {
+    return {
+      source: receivable.source,
+      classId: receivable.classId,
+      className: receivable.className,
+      branchId: receivable.branchId,
+      chargeId: receivable.chargeId,
+      sessionId: receivable.sessionId,
+      month: receivable.month,
+      year: receivable.year,
+      amount: receivable.amount,
+      since: receivable.since,
+      daysOutstanding: getDaysOutstanding(receivable.since, asOf),
+    };
+  }
+
+  private async findClassAndValidateAccess(classId: string, actor: ActorUser) {
+    const classEntity = await this.classesRepository.findOneOrThrow(classId);
+
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: actor.centerId!,
+      branchId: classEntity.branchId,
+    });
+
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId,
+    });
+
+    return classEntity;
+  }
+}
@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Transactional } from '@nestjs-cls/transactional';
+import { BaseService } from '@/shared/common/services/base.service';
+import { ActorUser } from '@/shared/common/types/actor-user.type';
+import { SYSTEM_ACTOR } from '@/shared/common/constants/system-actor.constant';
+import { DomainException } from '@/shared/common/exceptions/domain.exception';
+import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
+import { StudentBillingEvents } from '@/shared/events/student-billing.events.enum';
+import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { GroupStudentsRepository } from '@/modules/classes/repositories/group-students.repository';
+import { ClassAccessService } from '@/modules/classes/services/class-access.service';
+import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
+import { CentersErrorCode } from '@/modules/centers/enums/centers.codes';
+import { FinanceErrorCode } from '@/modules/finance/enums/finance.codes';
+import { UserProfileErrorCode } from '@/modules/user-profile/enums/user-profile.codes';
+import { StudentBillingService } from './student-billing.service';
+import { SubscriptionAutoRenewalsRepository } from '../repositories/subscription-auto-renewals.repository';
+import { StudentChargesRepository } from '../repositories/student-charges.repository';
+import { SubscriptionAutoRenewal } from '../entities/subscription-auto-renewal.entity';
+import { UpdateSubscriptionAutoRenewalDto } from '../dto/update-subscription-auto-renewal.dto';
+import { StudentBillingErrors } from '../exceptions/student-billing.errors';
+import { StudentBillingErrorCode } from '../enums/student-billing.codes';
+import { SubscriptionRenewalFailureReason } from '../enums/subscription-renewal-failure-reason.enum';
+import { SUBSCRIPTION_RENEWAL_MAX_ATTEMPTS } from '../constants/student-billing.constants';
+import {
+  SubscriptionRenewalFailedEvent,
+  SubscriptionRenewedEvent,
+} from '../events/student-billing.events';
+
+@Injectable()
+export class SubscriptionRenewalService extends BaseService {
+  private readonly logger = new Logger(SubscriptionRenewalService.name);
+
+  constructor(
+    private readonly renewalsRepository: SubscriptionAutoRenewalsRepository,
+    private readonly chargesRepository: StudentChargesRepository,
+    private readonly studentBillingService: StudentBillingService,
+    private readonly classesRepository: ClassesRepository,
+    private readonly groupStudentsRepository: GroupStudentsRepository,
+    private readonly branchAccessService: BranchAccessService,
+    private readonly classAccessService: ClassAccessService,
+    private readonly typeSafeEventEmitter: TypeSafeEventEmitter,
+  ) {
+    super();
+  }
+
+  /**
+   * Opt a student in or out of monthly subscription auto-renewal for a class
+   */
+  @Transactional()
+  async setAutoRenewal(
+    classId: string,
+    studentUserProfileId: string,
+    dto: UpdateSubscriptionAutoRenewalDto,
+    actor: ActorUser,
+  ): Promise<SubscriptionAutoRenewal> {
+    const classEntity = await this.findClassAndValidateAccess(classId, actor);
+
+    if (dto.isActive) {
+      const groupIds =
+        await this.groupStudentsRepository.findStudentGroupIdsByClassId(
+          studentUserProfileId,
+          classId,
+        );
+      if (groupIds.length === 0) {
+        throw StudentBillingErrors.studentNotEnrolledInClass();
+      }
+
+      await this.studentBillingService.validateMonthlySubscriptionAllowed(
+        classId,
+      );
+    }
+
+    const existing = await this.renewalsRepository.findByStudentAndClass(
+      studentUserProfileId,
+      classId,
+    );
+
+    if (existing) {
+      return this.renewalsRepository.updateThrow(existing.id, {
+        isActive: dto.isActive,
+      });
+    }
+
+    return this.renewalsRepository.create({
+      centerId: classEntity.centerId,
+      branchId: classEntity.branchId,
+      classId,
+      studentUserProfileId,
+      isActive: dto.isActive,
+    });
+  }
+
+  async getAutoRenewal(
+    classId: string,
+    studentUserProfileId: string,
+    actor: ActorUser,
+  ): Promise<SubscriptionAutoRenewal> {
+    await this.findClassAndValidateAccess(classId, actor);
+
+    const renewal = await this.renewalsRepository.findByStudentAndClass(
+      studentUserProfileId,
+      classId,
+    );
+    if (!renewal) {
+      throw StudentBillingErrors.subscriptionAutoRenewalNotFound();
+    }
+
+    return renewal;
+  }
+
+  /**
+   * Charge the student wallet for the given month of an auto-renewal.
+   * The charge runs in its own transaction; on a business failure the attempt
+   * is recorded and retried by the next job run until attempts run out.
+   *
+   * @returns true when the month is covered (renewed now or paid before)
+   */
+  async renewSubscription(
+    renewal: SubscriptionAutoRenewal,
+    month: number,
+    year: number,
+  ): Promise<boolean> {
+    const actor = { ...SYSTEM_ACTOR, centerId: renewal.centerId } as ActorUser;
+
+    // Already subscribed for that month, e.g. paid at the front desk
+    const existing = await this.chargesRepository.findActiveMonthlySubscription(
+      renewal.studentUserProfileId,
+      renewal.classId,
+      month,
+      year,
+    );
+    if (existing) {
+      await this.recordRenewalSuccess(renewal, month, year, existing.id);
+      return true;
+    }
+
+    try {
+      const charge =
+        await this.studentBillingService.createAutoRenewalSubscription(
+          renewal.studentUserProfileId,
+          renewal.classId,
+          month,
+          year,
+          `subscription-renewal:${renewal.id}:${year}-${month}`,
+          actor,
+        );
+
+      await this.recordRenewalSuccess(renewal, month, year, charge.id);
+      await this.typeSafeEventEmitter.emitAsync(
+        StudentBillingEvents.SUBSCRIPTION_RENEWED,
+        new SubscriptionRenewedEvent(actor, renewal, charge),
+      );
+      return true;
+    } catch (error) {
+      if (!(error instanceof DomainException)) {
+        throw error;
+      }
+
+      const samePeriod =
+        renewal.periodMonth === month && renewal.periodYear === year;
+      const failedAttempts = (samePeriod ? renewal.failedAttempts : 0) + 1;
+      const reason = this.toRenewalFailureReason(error.errorCode);
+
+      await this.renewalsRepository.update(renewal.id, {
+        periodMonth: month,
+        periodYear: year,
+        failedAttempts,
+        lastFailureReason: reason,
+        lastErrorCode: error.errorCode,
+        lastAttemptAt: new Date(),
+      });
+
+      this.logger.warn(
+        `Subscription renewal ${renewal.id} failed for ${month}/${year}`,
+        { reason, errorCode: error.errorCode, failedAttempts },
+      );
+
+      await this.typeSafeEventEmitter.emitAsync(
+        StudentBillingEvents.SUBSCRIPTION_RENEWAL_FAILED,
+        new SubscriptionRenewalFailedEvent(
+          actor,
+          renewal,
+          month,
+          year,
+          reason,
+          failedAttempts < SUBSCRIPTION_RENEWAL_MAX_ATTEMPTS,
+        ),
+      );
+      return false;
+    }
+  }
+
+  private async recordRenewalSuccess(
+    renewal: SubscriptionAutoRenewal,
+    month: number,
+    year: number,
+    chargeId: string,
+  ): Promise<void> {
+    await this.renewalsRepository.update(renewal.id, {
+      periodMonth: month,
+      periodYear: year,
+      failedAttempts: 0,
+      lastFailureReason: null,
+      lastErrorCode: null,
+      lastAttemptAt: new Date(),
+      lastRenewedChargeId: chargeId,
+    });
+  }
+
+  private toRenewalFailureReason(
+    errorCode: DomainException['errorCode'],
+  ): SubscriptionRenewalFailureReason {
+    switch (errorCode) {
+      case FinanceErrorCode.INSUFFICIENT_WALLET_BALANCE:
+      case FinanceErrorCode.MAX_NEGATIVE_BALANCE_EXCEEDED:
+        return SubscriptionRenewalFailureReason.INSUFFICIENT_BALANCE;
+      case FinanceErrorCode.WALLET_NOT_FOUND:
+        return SubscriptionRenewalFailureReason.WALLET_NOT_FOUND;
+      case StudentBillingErrorCode.SUBSCRIPTION_PAYMENT_STRATEGY_MISSING:
+      case StudentBillingErrorCode.MONTHLY_SUBSCRIPTIONS_NOT_ALLOWED:
+      case StudentBillingErrorCode.MONTHLY_PAYMENTS_NOT_CONFIGURED:
+        return SubscriptionRenewalFailureReason.SUBSCRIPTIONS_NOT_ALLOWED;
+      case UserProfileErrorCode.USER_PROFILE_INACTIVE:
+        return SubscriptionRenewalFailureReason.STUDENT_INACTIVE;
+      case CentersErrorCode.CENTER_INACTIVE:
+      case CentersErrorCode.BRANCH_INACTIVE:
+        return SubscriptionRenewalFailureReason.CENTER_INACTIVE;
+      default:
+        return SubscriptionRenewalFailureReason.OTHER;
+    }
+  }
+
+  private async findClassAndValidateAccess(classId: string, actor: ActorUser) {
+    const classEntity = await this.classesRepository.findOneOrThrow(classId);
+
+    await this.branchAccessService.validateBranchAccess({
+      userProfileId: actor.userProfileId,
+      centerId: actor.centerId!,
+      branchId: classEntity.branchId,
+    });
+
+    await this.classAccessService.validateClassAccess({
+      userProfileId: actor.userProfileId,
+      classId,
+    });
+
+    return classEntity;
+  }
+}
@@ -4,40 +4,127 @@ import { StudentBillingService } from './services/student-billing.service';
 import { StudentBillingRefundService } from './services/student-billing-refund.service';
 import { StudentBillingValidationService } from './services/student-billing-validation.service';
 import { StudentBillingQueryService } from './services/student-billing-query.service';
+import { StudentBillingTransferService } from './services/student-billing-transfer.service';
+import { StudentBillingDiscountService } from './services/student-billing-discount.service';
+import { DiscountRulesService } from './services/discount-rules.service';
+import { BillingDocumentsService } from './services/billing-documents.service';
+import { BillingDocumentNumberService } from './services/billing-document-number.service';
+import { BillingDocumentRendererService } from './services/billing-document-renderer.service';
+import { SubscriptionRenewalService } from './services/subscription-renewal.service';
+import { StudentReceivablesService } from './services/student-receivables.service';
+import { StudentDunningService } from './services/student-dunning.service';
+import { StudentInstallmentsService } from './services/student-installments.service';
+import { BillingAccountsService } from './services/billing-accounts.service';
+import { MonthlySubscriptionRenewalJob } from './jobs/monthly-subscription-renewal.job';
+import { StudentChargeDunningJob } from './jobs/student-charge-dunning.job';
+import { StudentInstallmentsOverdueJob } from './jobs/student-installments-overdue.job';
+import { GroupTransferListener } from './listeners/group-transfer.listener';
+import { SessionMakeupListener } from './listeners/session-makeup.listener';
+import { BillingDocumentsListener } from './listeners/billing-documents.listener';
 import { StudentBillingController } from './controllers/student-billing.controller';
+import { DiscountRulesController } from './controllers/discount-rules.controller';
+import { StudentReceivablesController } from './controllers/student-receivables.controller';
+import { BillingAccountsController } from './controllers/billing-accounts.controller';
 import { StudentCharge } from './entities/student-charge.entity';
+import { DiscountRule } from './entities/discount-rule.entity';
+import { BillingDocument } from './entities/billing-document.entity';
+import { BillingDocumentCounter } from './entities/billing-document-counter.entity';
+import { SubscriptionAutoRenewal } from './entities/subscription-auto-renewal.entity';
+import { DunningSchedule } from './entities/dunning-schedule.entity';
+import { StudentChargeReminder } from './entities/student-charge-reminder.entity';
+import { StudentChargeRefund } from './entities/student-charge-refund.entity';
+import { StudentChargeInstallment } from './entities/student-charge-installment.entity';
+import { BillingAccount } from './entities/billing-account.entity';
+import { BillingAccountMember } from './entities/billing-account-member.entity';
 import { StudentChargesRepository } from './repositories/student-charges.repository';
+import { DiscountRulesRepository } from './repositories/discount-rules.repository';
+import { BillingDocumentsRepository } from './repositories/billing-documents.repository';
+import { SubscriptionAutoRenewalsRepository } from './repositories/subscription-auto-renewals.repository';
+import { DunningSchedulesRepository } from './repositories/dunning-schedules.repository';
+import { StudentChargeRemindersRepository } from './repositories/student-charge-reminders.repository';
+import { StudentChargeRefundsRepository } from './repositories/student-charge-refunds.repository';
+import { StudentChargeInstallmentsRepository } from './repositories/student-charge-installments.repository';
+import { BillingAccountsRepository } from './repositories/billing-accounts.repository';
+import { BillingAccountMembersRepository } from './repositories/billing-account-members.repository';
 import { FinanceModule } from '@/modules/finance/finance.module';
 import { SessionsModule } from '@/modules/sessions/sessions.module';
 import { ClassesModule } from '@/modules/classes/classes.module';
 import { CentersModule } from '../centers/centers.module';
 import { AttendanceModule } from '@/modules/attendance/attendance.module';
 import { UserProfileModule } from '../user-profile/user-profile.module';
+import { FileModule } from '@/modules/file/file.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([StudentCharge]),
+    TypeOrmModule.forFeature([
+      StudentCharge,
+      DiscountRule,
+      BillingDocument,
+      BillingDocumentCounter,
+      SubscriptionAutoRenewal,
+      DunningSchedule,
+      StudentChargeReminder,
+      StudentChargeRefund,
+      StudentChargeInstallment,
+      BillingAccount,
+      BillingAccountMember,
+    ]),
     FinanceModule,
     forwardRef(() => SessionsModule),
     forwardRef(() => ClassesModule),
     CentersModule,
     forwardRef(() => AttendanceModule),
     UserProfileModule,
+    FileModule,
+  ],
+  controllers: [
+    StudentBillingController,
+    DiscountRulesController,
+    StudentReceivablesController,
+    BillingAccountsController,
   ],
-  controllers: [StudentBillingController],
   providers: [
     StudentBillingService,
     StudentBillingRefundService,
     StudentBillingValidationService,
     StudentBillingQueryService,
+    StudentBillingTransferService,
+    StudentBillingDiscountService,
+    DiscountRulesService,
+    BillingDocumentsService,
+    BillingDocumentNumberService,
+    BillingDocumentRendererService,
+    SubscriptionRenewalService,
+    StudentReceivablesService,
+    StudentDunningService,
+    StudentInstallmentsService,
+    BillingAccountsService,
     StudentChargesRepository,
+    DiscountRulesRepository,
+    BillingDocumentsRepository,
+    SubscriptionAutoRenewalsRepository,
+    DunningSchedulesRepository,
+    StudentChargeRemindersRepository,
+    StudentChargeRefundsRepository,
+    StudentChargeInstallmentsRepository,
+    BillingAccountsRepository,
+    BillingAccountMembersRepository,
+    GroupTransferListener,
+    SessionMakeupListener,
+    BillingDocumentsListener,
+    MonthlySubscriptionRenewalJob,
+    StudentChargeDunningJob,
+    StudentInstallmentsOverdueJob,
   ],
   exports: [
     StudentBillingService,
     StudentBillingRefundService,
     StudentBillingValidationService,
     StudentBillingQueryService,
+    StudentBillingTransferService,
     StudentChargesRepository,
+    SubscriptionAutoRenewalsRepository,
+    StudentChargeRemindersRepository,
   ],
 })
 export class StudentBillingModule {}
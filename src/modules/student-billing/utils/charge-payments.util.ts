@@ -0,0 +1,75 @@
+import { Payment } from '@/modules/finance/entities/payment.entity';
+import { PaymentStatus } from '@/modules/finance/enums/payment-status.enum';
+import { PaymentMethod } from '@/modules/finance/enums/payment-method.enum';
+import { PaymentReason } from '@/modules/finance/enums/payment-reason.enum';
+import { WalletOwnerType } from '@/modules/finance/enums/wallet-owner-type.enum';
+import { Money } from '@/shared/common/utils/money.util';
+
+/**
+ * What each branch still holds for a charge: completed payments it received
+ * minus completed payments it sent back (refunds, transfer credits).
+ * A charge moved to another branch keeps what was paid before the transfer
+ * in the branch that received it.
+ */
+function getHeldAmountsByBranch(payments: Payment[]): Map<string, Money> {
+  const held = new Map<string, Money>();
+  for (const payment of payments) {
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      continue;
+    }
+    if (payment.receiverType === WalletOwnerType.BRANCH) {
+      const current = held.get(payment.receiverId) ?? Money.zero();
+      held.set(payment.receiverId, current.add(payment.amount));
+    }
+    if (payment.senderType === WalletOwnerType.BRANCH) {
+      const current = held.get(payment.senderId) ?? Money.zero();
+      held.set(payment.senderId, current.subtract(payment.amount));
+    }
+  }
+  return held;
+}
+
+/**
+ * Branch to pay an amount back from: the charge's branch when it holds
+ * enough, otherwise the branch holding the most for the charge.
+ */
+export function findHoldingBranchId(
+  payments: Payment[],
+  amount: Money,
+  chargeBranchId: string,
+): string {
+  const held = getHeldAmountsByBranch(payments);
+  const chargeBranchHeld = held.get(chargeBranchId) ?? Money.zero();
+  if (chargeBranchHeld.greaterThanOrEqual(amount)) {
+    return chargeBranchId;
+  }
+
+  let holdingBranchId = chargeBranchId;
+  let holdingAmount = chargeBranchHeld;
+  for (const [branchId, branchHeld] of held) {
+    if (branchHeld.greaterThan(holdingAmount)) {
+      holdingBranchId = branchId;
+      holdingAmount = branchHeld;
+    }
+  }
+  return holdingBranchId;
+}
+
+/**
+ * Billing account whose shared wallet made the latest completed wallet
+ * payment for a charge, if any
+ */
+export function findPayingBillingAccountId(payments: Payment[]): string | null {
+  const latestPayment = payments
+    .filter(
+      (payment) =>
+        payment.paymentMethod === PaymentMethod.WALLET &&
+        payment.status === PaymentStatus.COMPLETED &&
+        payment.reason !== PaymentReason.STUDENT_REFUND,
+    )
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+  return latestPayment?.senderType === WalletOwnerType.BILLING_ACCOUNT
+    ? latestPayment.senderId
+    : null;
+}
@@ -1,3 +1,5 @@
+import { TimezoneService } from '@/shared/common/services/timezone.service';
+
 /**
  * Date utility functions for student billing module
  * Provides consistent date calculations for monthly subscriptions
@@ -27,4 +29,35 @@ export class DateHelpers {
       year: this.getCurrentYear(),
     };
   }
+
+  /**
+   * Get the month (1-12) and year of a moment in the given timezone
+   */
+  static getZonedMonthYear(
+    date: Date,
+    timezone: string,
+  ): { month: number; year: number } {
+    const [year, month] = TimezoneService.formatZoned(date, 'yyyy-MM', timezone)
+      .split('-')
+      .map(Number);
+    return { month, year };
+  }
+
+  /**
+   * Get the share of the month that is still ahead (0-1], the day of `date`
+   * in the given timezone included
+   * Used to prorate monthly subscriptions
+   */
+  static getRemainingMonthFraction(date: Date, timezone: string): number {
+    const [year, month, day] = TimezoneService.formatZoned(
+      date,
+      'yyyy-MM-dd',
+      timezone,
+    )
+      .split('-')
+      .map(Number);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const remainingDays = daysInMonth - day + 1;
+    return remainingDays / daysInMonth;
+  }
 }
@@ -0,0 +1,65 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { Money } from '@/shared/common/utils/money.util';
+import { InstallmentPlanStep } from '@/modules/classes/interfaces/payment-strategy.interface';
+
+export interface ScheduledInstallment {
+  sequence: number;
+  amount: Money;
+  dueDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Split a class charge total by the steps of an installment plan. Amounts
+ * are rounded to cents and the last step takes the remainder so they add up
+ * to the total. Relative steps are counted from the class start date.
+ *
+ * @param classStartDate - class start date (YYYY-MM-DD) in the center timezone
+ * @returns installments in due date order, sequence starting at 1
+ */
+export function buildInstallmentSchedule(
+  plan: InstallmentPlanStep[],
+  total: Money,
+  classStartDate: string,
+): ScheduledInstallment[] {
+  let allocated = Money.zero();
+
+  const installments = plan.map((step, index) => {
+    const amount =
+      index === plan.length - 1
+        ? total.subtract(allocated)
+        : total.multiply(step.percentage).divide(100).round();
+    allocated = allocated.add(amount);
+
+    const dueDate =
+      step.dueDate ??
+      format(
+        addDays(parseISO(classStartDate), step.daysAfterClassStart ?? 0),
+        'yyyy-MM-dd',
+      );
+
+    return { amount, dueDate };
+  });
+
+  return installments
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    .map((installment, index) => ({ ...installment, sequence: index + 1 }));
+}
+
+/**
+ * Spread what was paid on a charge over its installments in order, each one
+ * filled up before the next
+ *
+ * @returns paid amount per installment, in the given order
+ */
+export function allocateInstallmentPayments(
+  amounts: Money[],
+  totalPaid: Money,
+): Money[] {
+  let remaining = totalPaid;
+
+  return amounts.map((amount) => {
+    const paid = remaining.greaterThan(amount) ? amount : remaining;
+    remaining = remaining.subtract(paid);
+    return paid.isNegative() ? Money.zero() : paid;
+  });
+}
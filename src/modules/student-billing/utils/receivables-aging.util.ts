@@ -0,0 +1,59 @@
+import { Money } from '@/shared/common/utils/money.util';
+import { RECEIVABLES_AGING_BUCKET_DAYS } from '../constants/student-billing.constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bucket keys in the order of RECEIVABLES_AGING_BUCKET_DAYS, then 90+ */
+const AGING_BUCKET_KEYS = [
+  'days0To30',
+  'days31To60',
+  'days61To90',
+  'over90Days',
+] as const;
+
+export type AgingBucketKey = (typeof AGING_BUCKET_KEYS)[number];
+
+export type AgingBuckets = Record<AgingBucketKey, number> & { total: number };
+
+/**
+ * Whole days between the date a debt started aging and asOf, never negative
+ */
+export function getDaysOutstanding(since: Date, asOf: Date): number {
+  return Math.max(0, Math.floor((asOf.getTime() - since.getTime()) / DAY_MS));
+}
+
+export function getAgingBucket(daysOutstanding: number): AgingBucketKey {
+  const index = RECEIVABLES_AGING_BUCKET_DAYS.findIndex(
+    (upperBound) => daysOutstanding <= upperBound,
+  );
+  return AGING_BUCKET_KEYS[
+    index === -1 ? RECEIVABLES_AGING_BUCKET_DAYS.length : index
+  ];
+}
+
+/**
+ * Sum amounts into the aging buckets by their days outstanding
+ */
+export function summarizeAging(
+  items: { amount: number; daysOutstanding: number }[],
+): AgingBuckets {
+  const sums = new Map<AgingBucketKey, Money>(
+    AGING_BUCKET_KEYS.map((key) => [key, Money.zero()]),
+  );
+  let total = Money.zero();
+
+  for (const item of items) {
+    const key = getAgingBucket(item.daysOutstanding);
+    const amount = Money.from(item.amount);
+    sums.set(key, sums.get(key)!.add(amount));
+    total = total.add(amount);
+  }
+
+  return {
+    days0To30: sums.get('days0To30')!.toNumber(),
+    days31To60: sums.get('days31To60')!.toNumber(),
+    days61To90: sums.get('days61To90')!.toNumber(),
+    over90Days: sums.get('over90Days')!.toNumber(),
+    total: total.toNumber(),
+  };
+}
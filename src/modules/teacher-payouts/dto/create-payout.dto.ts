@@ -111,6 +111,14 @@ export class CreatePayoutDto {
   @IsOptional()
   lastPaymentAmount?: Money;
 
+  @ApiPropertyOptional({
+    description: 'Class rate version the unit price was taken from',
+    example: '550e8400-e29b-41d4-a716-446655440005',
+  })
+  @IsOptional()
+  @IsUUID()
+  teacherPriceVersionId?: string;
+
   @ApiPropertyOptional({
     description: 'Idempotency key to prevent duplicate payouts',
     example: '550e8400-e29b-41d4-a716-446655440000',
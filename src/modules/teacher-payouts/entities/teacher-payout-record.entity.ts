@@ -50,6 +50,10 @@ export class TeacherPayoutRecord extends BaseEntity {
   @Column({ type: 'int', nullable: true })
   year?: number;
 
+  // Class rate version unitPrice was taken from, null for CLASS payouts made before rates were versioned
+  @Column({ type: 'uuid', nullable: true })
+  teacherPriceVersionId?: string | null;
+
   @Column({ type: 'enum', enum: PayoutStatus, default: PayoutStatus.PENDING })
   status: PayoutStatus;
 
@@ -9,6 +9,8 @@ import { TeacherPayoutService } from '../services/teacher-payout.service';
 import { TeacherPaymentStrategyRepository } from '@/modules/classes/repositories/teacher-payment-strategy.repository';
 import { TeacherPaymentUnit } from '@/modules/classes/enums/teacher-payment-unit.enum';
 import { ClassStatus } from '@/modules/classes/enums/class-status.enum';
+import { PaymentStrategyService } from '@/modules/classes/services/payment-strategy.service';
+import { firstDayOfMonth } from '@/modules/classes/utils/price-version.util';
 import {
   calculateProratedMonthlyPayout,
   wasClassActiveInMonth,
@@ -21,6 +23,7 @@ export class MonthlyTeacherPayoutJob {
   constructor(
     private readonly teacherPayoutService: TeacherPayoutService,
     private readonly teacherPaymentStrategyRepository: TeacherPaymentStrategyRepository,
+    private readonly paymentStrategyService: PaymentStrategyService,
   ) {}
 
   /**
@@ -116,9 +119,14 @@ export class MonthlyTeacherPayoutJob {
           continue;
         }
 
-        // Calculate prorated amount based on active days
+        // Prorate the rate in effect at the start of the month by active days
+        const priceVersion =
+          await this.paymentStrategyService.resolveTeacherPriceVersion(
+            strategy.classId,
+            firstDayOfMonth(month, year),
+          );
         const proration = calculateProratedMonthlyPayout(
-          strategy.amount,
+          priceVersion?.amount ?? strategy.amount,
           classStartDate,
           classEndDate,
           month,
@@ -158,6 +166,7 @@ export class MonthlyTeacherPayoutJob {
             classId: strategy.classId,
             month,
             year,
+            teacherPriceVersionId: priceVersion?.id,
             branchId: strategy.branchId,
             centerId: strategy.centerId,
           },
@@ -145,6 +145,14 @@ export class TeacherPayoutRecordsRepository extends BaseRepository<TeacherPayout
     });
   }
 
+  async findBySessionId(
+    sessionId: string,
+  ): Promise<TeacherPayoutRecord | null> {
+    return this.getRepository().findOne({
+      where: { sessionId },
+    });
+  }
+
   async findPendingPayouts(): Promise<TeacherPayoutRecord[]> {
     return this.getRepository().find({
       where: { status: PayoutStatus.PENDING },
@@ -10,6 +10,7 @@ import { PaymentStrategyService } from '@/modules/classes/services/payment-strat
 import { TypeSafeEventEmitter } from '@/shared/services/type-safe-event-emitter.service';
 import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
 import { ClassStatus } from '@/modules/classes/enums/class-status.enum';
+import { firstDayOfMonth } from '@/modules/classes/utils/price-version.util';
 import {
   calculateProratedMonthlyPayout,
   wasClassActiveInMonth,
@@ -156,9 +157,14 @@ export class ClassPayoutListener implements OnModuleInit {
         return;
       }
 
-      // Calculate prorated amount for current month (up to endDate)
+      // Prorate the rate in effect at the start of the month (up to endDate)
+      const priceVersion =
+        await this.paymentStrategyService.resolveTeacherPriceVersion(
+          event.classId,
+          firstDayOfMonth(currentMonth, currentYear),
+        );
       const proration = calculateProratedMonthlyPayout(
-        classEntity.teacherPaymentStrategy.amount,
+        priceVersion?.amount ?? classEntity.teacherPaymentStrategy.amount,
         classEntity.startDate,
         classEntity.endDate || null,
         currentMonth,
@@ -183,6 +189,7 @@ export class ClassPayoutListener implements OnModuleInit {
           classId: event.classId,
           month: currentMonth,
           year: currentYear,
+          teacherPriceVersionId: priceVersion?.id,
           branchId: classEntity.branchId,
           centerId: classEntity.centerId,
         },
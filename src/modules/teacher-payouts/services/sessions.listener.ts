@@ -3,6 +3,7 @@ import { InjectDataSource } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
 import { OnEvent } from '@nestjs/event-emitter';
 import { TeacherPayoutService } from './teacher-payout.service';
+import { TeacherPayoutRecordsRepository } from '../repositories/teacher-payout-records.repository';
 import { SessionFinishedEvent } from '@/modules/sessions/events/session.events';
 import { SessionEvents } from '@/shared/events/sessions.events.enum';
 import { SessionStatus } from '@/modules/sessions/enums/session-status.enum';
@@ -19,6 +20,7 @@ export class SessionsListener {
   constructor(
     private readonly teacherPayoutService: TeacherPayoutService,
     private readonly paymentStrategyService: PaymentStrategyService,
+    private readonly payoutRepository: TeacherPayoutRecordsRepository,
     @InjectDataSource() private readonly dataSource: DataSource,
   ) {}
 
@@ -59,6 +61,14 @@ export class SessionsListener {
       return; // No payout strategy configured
     }
 
+    // Pay the rate and unit in effect when the session was held
+    const priceVersion =
+      await this.paymentStrategyService.resolveTeacherPriceVersion(
+        session.classId,
+        session.startTime,
+      );
+    const per = priceVersion?.per ?? strategy.per;
+
     // Only handle session-based payout types (SESSION, STUDENT, HOUR)
     // MONTH payouts are handled by MonthlyTeacherPayoutJob
     // CLASS payouts are handled by class completion logic (TBD)
@@ -67,16 +77,27 @@ export class SessionsListener {
         TeacherPaymentUnit.SESSION,
         TeacherPaymentUnit.STUDENT,
         TeacherPaymentUnit.HOUR,
-      ].includes(strategy.per)
+      ].includes(per)
+    ) {
+      this.logger.debug(
+        `Skipping payout for non-session-based unit type: ${per}`,
+      );
+      return;
+    }
+
+    // A makeup replaces its canceled session: never pay both of them
+    if (
+      session.makeupForSessionId &&
+      (await this.payoutRepository.findBySessionId(session.makeupForSessionId))
     ) {
       this.logger.debug(
-        `Skipping payout for non-session-based unit type: ${strategy.per}`,
+        `Skipping payout for makeup session ${session.id}: canceled session ${session.makeupForSessionId} already paid out`,
       );
       return;
     }
 
     // Calculate unit count based on strategy
-    const unitCount = await this.calculateUnitCount(session, strategy.per);
+    const unitCount = await this.calculateUnitCount(session, per);
 
     if (unitCount <= 0) {
       this.logger.debug(
@@ -85,15 +106,21 @@ export class SessionsListener {
       return;
     }
 
+    const teacherUserProfileId =
+      this.teacherPayoutService.getSessionPayoutTeacherId(session, per);
+
+    const unitPrice = priceVersion?.amount ?? strategy.amount;
+
     // Create the payout
     await this.teacherPayoutService.createPayout(
       {
-        teacherUserProfileId: session.teacherUserProfileId,
-        unitType: strategy.per,
-        unitPrice: strategy.amount,
+        teacherUserProfileId,
+        unitType: per,
+        unitPrice,
         unitCount: unitCount,
         classId: session.classId,
         sessionId: session.id,
+        teacherPriceVersionId: priceVersion?.id,
         branchId: session.branchId, // Use session's denormalized branch
         centerId: session.centerId, // Use session's denormalized center
       },
@@ -101,8 +128,8 @@ export class SessionsListener {
     );
 
     this.logger.log(
-      `Created payout for teacher ${session.teacherUserProfileId}: ` +
-        `${unitCount} ${strategy.per} units × ${strategy.amount} = ${unitCount * strategy.amount}`,
+      `Created payout for teacher ${teacherUserProfileId}: ` +
+        `${unitCount} ${per} units × ${unitPrice} = ${unitCount * unitPrice}`,
     );
   }
 
@@ -26,6 +26,7 @@ import { WalletOwnerType } from '@/modules/finance/enums/wallet-owner-type.enum'
 import { Money } from '@/shared/common/utils/money.util';
 import { TeacherPaymentUnit } from '@/modules/classes/enums/teacher-payment-unit.enum';
 import { Class } from '@/modules/classes/entities/class.entity';
+import { Session } from '@/modules/sessions/entities/session.entity';
 import { TeacherPaymentStrategyDto } from '@/modules/classes/dto/teacher-payment-strategy.dto';
 import { BranchAccessService } from '@/modules/centers/services/branch-access.service';
 import { ClassAccessService } from '@/modules/classes/services/class-access.service';
@@ -43,6 +44,7 @@ import { BranchesService } from '@/modules/centers/services/branches.service';
 import { UserProfileErrors } from '@/modules/user-profile/exceptions/user-profile.errors';
 import { CentersErrors } from '@/modules/centers/exceptions/centers.errors';
 import { ClassesRepository } from '@/modules/classes/repositories/classes.repository';
+import { PaymentStrategyService } from '@/modules/classes/services/payment-strategy.service';
 
 @Injectable()
 export class TeacherPayoutService extends BaseService {
@@ -58,6 +60,7 @@ export class TeacherPayoutService extends BaseService {
     private readonly branchesService: BranchesService,
     private readonly classesRepository: ClassesRepository,
     private readonly userProfileService: UserProfileService,
+    private readonly paymentStrategyService: PaymentStrategyService,
   ) {
     super();
   }
@@ -132,6 +135,7 @@ export class TeacherPayoutService extends BaseService {
       sessionId: dto.sessionId,
       month: dto.month,
       year: dto.year,
+      teacherPriceVersionId: dto.teacherPriceVersionId,
       branchId: dto.branchId,
       centerId: dto.centerId,
       status:
@@ -152,6 +156,26 @@ export class TeacherPayoutService extends BaseService {
     return payout;
   }
 
+  /**
+   * Resolve the teacher paid for a finished session.
+   * A substitute teacher is paid instead of the class teacher for
+   * SESSION and HOUR based strategies.
+   */
+  getSessionPayoutTeacherId(
+    session: Session,
+    unitType: TeacherPaymentUnit,
+  ): string {
+    if (
+      session.substituteTeacherUserProfileId &&
+      (unitType === TeacherPaymentUnit.SESSION ||
+        unitType === TeacherPaymentUnit.HOUR)
+    ) {
+      return session.substituteTeacherUserProfileId;
+    }
+
+    return session.teacherUserProfileId;
+  }
+
   // CLASS payout specific methods
   async createClassPayout(
     classEntity: Class,
@@ -192,6 +216,12 @@ export class TeacherPayoutService extends BaseService {
       throw CentersErrors.branchInactive();
     }
 
+    const priceVersion =
+      await this.paymentStrategyService.resolveTeacherPriceVersion(
+        classEntity.id,
+        new Date(),
+      );
+
     const payout = await this.createPayout(
       {
         teacherUserProfileId: classEntity.teacherUserProfileId,
@@ -199,6 +229,7 @@ export class TeacherPayoutService extends BaseService {
         unitPrice: strategy.amount, // Total class amount
         unitCount: 1,
         classId: classEntity.id,
+        teacherPriceVersionId: priceVersion?.id,
         branchId: classEntity.branchId,
         centerId: classEntity.centerId,
         totalPaid: Money.zero(), // Start with zero paid
@@ -6,6 +6,7 @@ import { Admin } from '@/modules/admin/entities/admin.entity';
 import { Staff } from '@/modules/staff/entities/staff.entity';
 import { Teacher } from '@/modules/teachers/entities/teacher.entity';
 import { Student } from '@/modules/students/entities/student.entity';
+import { Parent } from '@/modules/parents/entities/parent.entity';
 import { TransactionHost } from '@nestjs-cls/transactional';
 import { TransactionalAdapterTypeOrm } from '@nestjs-cls/transactional-adapter-typeorm';
 import { isUUID } from 'class-validator';
@@ -49,10 +50,10 @@ export class UserProfileRepository extends BaseRepository<UserProfile> {
         return manager.getRepository(Teacher);
       case ProfileType.STUDENT:
         return manager.getRepository(Student);
-      // case ProfileType.PARENT:
-      //   return manager.getRepository(Parent);
+      case ProfileType.PARENT:
+        return manager.getRepository(Parent);
       default:
-        throw new Error(`Unknown profile type: ${profileType}`);
+        throw new Error(`Unknown profile type: ${String(profileType)}`);
     }
   }
 
@@ -128,7 +129,7 @@ export class UserProfileRepository extends BaseRepository<UserProfile> {
   async getProfileRefEntity(
     profileRefId: string,
     profileType: ProfileType,
-  ): Promise<Staff | Admin | Teacher | Student> {
+  ): Promise<Staff | Admin | Teacher | Student | Parent> {
     const repository = this.getProfileTypeRepository(profileType);
     const entity = await repository.findOne({ where: { id: profileRefId } });
 
@@ -148,7 +149,7 @@ export class UserProfileRepository extends BaseRepository<UserProfile> {
    */
   async createProfileRefEntity(profileType: ProfileType): Promise<string> {
     const manager = this.getEntityManager();
-    let entity: Staff | Admin | Teacher | Student;
+    let entity: Staff | Admin | Teacher | Student | Parent;
 
     switch (profileType) {
       case ProfileType.STAFF:
@@ -164,8 +165,8 @@ export class UserProfileRepository extends BaseRepository<UserProfile> {
         entity = manager.create(Student, {});
         break;
       case ProfileType.PARENT:
-        // TODO: Implement when Parent entity is created
-        throw new Error('Parent profile type is not yet implemented');
+        entity = manager.create(Parent, {});
+        break;
       default:
         throw new Error(`Unknown profile type: ${String(profileType)}`);
     }
@@ -6,6 +6,7 @@ import { Staff } from '@/modules/staff/entities/staff.entity';
 import { Admin } from '@/modules/admin/entities/admin.entity';
 import { Teacher } from '@/modules/teachers/entities/teacher.entity';
 import { Student } from '@/modules/students/entities/student.entity';
+import { Parent } from '@/modules/parents/entities/parent.entity';
 import { ProfileCodeCounter } from './entities/profile-code-counter.entity';
 // Modules needed for services
 import { AccessControlModule } from '@/modules/access-control/access-control.module'; // AccessControlHelperService
@@ -30,6 +31,7 @@ import { UserProfileRepository } from './repositories/user-profile.repository';
       Admin,
       Teacher,
       Student,
+      Parent,
     ]),
     // Modules for services
     forwardRef(() => AccessControlModule), // AccessControlHelperService
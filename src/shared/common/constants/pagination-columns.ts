@@ -12,8 +12,13 @@ import {
   PAYMENT_SORTABLE_COLUMNS,
   SUBJECT_SORTABLE_COLUMNS,
   LEVEL_SORTABLE_COLUMNS,
+  ACADEMIC_TERM_SORTABLE_COLUMNS,
+  CLASS_TEMPLATE_SORTABLE_COLUMNS,
+  DISCOUNT_RULE_SORTABLE_COLUMNS,
+  BILLING_ACCOUNT_SORTABLE_COLUMNS,
   BRANCH_SORTABLE_COLUMNS,
   ATTENDANCE_SORTABLE_COLUMNS,
+  ABSENCE_REQUEST_SORTABLE_COLUMNS,
   NOTIFICATION_SORTABLE_COLUMNS,
   EXPENSE_SORTABLE_COLUMNS,
 } from './sortable-columns';
@@ -139,6 +144,38 @@ export const LEVEL_PAGINATION_COLUMNS: PaginationColumns = {
   dateRangeFields: ['createdAt', 'updatedAt'],
 };
 
+// Academic terms module pagination columns
+export const ACADEMIC_TERM_PAGINATION_COLUMNS: PaginationColumns = {
+  searchableColumns: ['name'],
+  sortableColumns: [...ACADEMIC_TERM_SORTABLE_COLUMNS],
+  defaultSortBy: ['startDate', 'DESC'] as [string, 'ASC' | 'DESC'],
+  dateRangeFields: ['startDate', 'endDate', 'createdAt', 'updatedAt'],
+};
+
+// Class templates module pagination columns
+export const CLASS_TEMPLATE_PAGINATION_COLUMNS: PaginationColumns = {
+  searchableColumns: ['name'],
+  sortableColumns: [...CLASS_TEMPLATE_SORTABLE_COLUMNS],
+  defaultSortBy: ['name', 'ASC'] as [string, 'ASC' | 'DESC'],
+  dateRangeFields: ['createdAt', 'updatedAt'],
+};
+
+// Discount rules pagination columns
+export const DISCOUNT_RULE_PAGINATION_COLUMNS: PaginationColumns = {
+  searchableColumns: ['name', 'promoCode'],
+  sortableColumns: [...DISCOUNT_RULE_SORTABLE_COLUMNS],
+  defaultSortBy: ['createdAt', 'DESC'] as [string, 'ASC' | 'DESC'],
+  dateRangeFields: ['startsAt', 'expiresAt', 'createdAt', 'updatedAt'],
+};
+
+// Billing accounts pagination columns
+export const BILLING_ACCOUNT_PAGINATION_COLUMNS: PaginationColumns = {
+  searchableColumns: ['name'],
+  sortableColumns: [...BILLING_ACCOUNT_SORTABLE_COLUMNS],
+  defaultSortBy: ['name', 'ASC'] as [string, 'ASC' | 'DESC'],
+  dateRangeFields: ['createdAt', 'updatedAt'],
+};
+
 // Branches module pagination columns
 export const BRANCH_PAGINATION_COLUMNS: PaginationColumns = {
   searchableColumns: ['city', 'address'],
@@ -155,6 +192,22 @@ export const ATTENDANCE_PAGINATION_COLUMNS: PaginationColumns = {
   dateRangeFields: ['createdAt', 'updatedAt'],
 };
 
+// Student attendance history (parent-facing) pagination columns
+export const STUDENT_ATTENDANCE_PAGINATION_COLUMNS: PaginationColumns = {
+  searchableColumns: ['session.title', 'group.name', 'class.name'],
+  sortableColumns: [...ATTENDANCE_SORTABLE_COLUMNS],
+  defaultSortBy: ['createdAt', 'DESC'] as [string, 'ASC' | 'DESC'],
+  dateRangeFields: ['createdAt', 'updatedAt'],
+};
+
+// Absence requests pagination columns
+export const ABSENCE_REQUEST_PAGINATION_COLUMNS: PaginationColumns = {
+  searchableColumns: ['reason'],
+  sortableColumns: [...ABSENCE_REQUEST_SORTABLE_COLUMNS],
+  defaultSortBy: ['createdAt', 'DESC'] as [string, 'ASC' | 'DESC'],
+  dateRangeFields: ['createdAt', 'updatedAt'],
+};
+
 // Notifications module pagination columns
 export const NOTIFICATION_PAGINATION_COLUMNS: PaginationColumns = {
   searchableColumns: ['recipient'],
@@ -104,6 +104,39 @@ export const LEVEL_SORTABLE_COLUMNS = [
   'updatedAt',
 ] as const;
 
+// Academic Terms
+export const ACADEMIC_TERM_SORTABLE_COLUMNS = [
+  'name',
+  'startDate',
+  'endDate',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+// Discount Rules
+export const DISCOUNT_RULE_SORTABLE_COLUMNS = [
+  'name',
+  'value',
+  'expiresAt',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+// Billing Accounts
+export const BILLING_ACCOUNT_SORTABLE_COLUMNS = [
+  'name',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+// Class Templates
+export const CLASS_TEMPLATE_SORTABLE_COLUMNS = [
+  'name',
+  'duration',
+  'createdAt',
+  'updatedAt',
+] as const;
+
 // Branches
 export const BRANCH_SORTABLE_COLUMNS = [
   'city',
@@ -118,6 +151,14 @@ export const ATTENDANCE_SORTABLE_COLUMNS = [
   'status',
 ] as const;
 
+// Absence requests
+export const ABSENCE_REQUEST_SORTABLE_COLUMNS = [
+  'createdAt',
+  'updatedAt',
+  'status',
+  'reviewedAt',
+] as const;
+
 // Notifications module pagination columns
 export const NOTIFICATION_SORTABLE_COLUMNS = [
   'createdAt',
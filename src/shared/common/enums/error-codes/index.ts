@@ -11,6 +11,7 @@ export { CentersErrorCode } from '@/modules/centers/enums/centers.codes';
 export { SessionErrorCode } from '@/modules/sessions/enums/sessions.codes';
 export { AttendanceErrorCode } from '@/modules/attendance/enums/attendance.codes';
 export { LevelErrorCode } from '@/modules/levels/enums/levels.codes';
+export { AcademicTermErrorCode } from '@/modules/academic-terms/enums/academic-terms.codes';
 export { SubjectErrorCode } from '@/modules/subjects/enums/subjects.codes';
 export { StaffErrorCode } from '@/modules/staff/enums/staff.codes';
 export { StudentErrorCode } from '@/modules/students/enums/students.codes';
@@ -23,6 +24,7 @@ export { ExpenseErrorCode } from '@/modules/expenses/enums/expenses.codes';
 export { NotificationErrorCode } from '@/modules/notifications/enums/notification.codes';
 export { R2ErrorCode } from '@/modules/r2/enums/r2.codes';
 export { FileErrorCode } from '@/modules/file/enums/file.codes';
+export { ParentErrorCode } from '@/modules/parents/enums/parents.codes';
 
 // Import types for union
 import { CommonErrorCode as CommonCode } from './common.codes';
@@ -35,6 +37,7 @@ import { CentersErrorCode as CentersCode } from '@/modules/centers/enums/centers
 import { SessionErrorCode as SessionCode } from '@/modules/sessions/enums/sessions.codes';
 import { AttendanceErrorCode as AttendanceCode } from '@/modules/attendance/enums/attendance.codes';
 import { LevelErrorCode as LevelCode } from '@/modules/levels/enums/levels.codes';
+import { AcademicTermErrorCode as AcademicTermCode } from '@/modules/academic-terms/enums/academic-terms.codes';
 import { SubjectErrorCode as SubjectCode } from '@/modules/subjects/enums/subjects.codes';
 import { StaffErrorCode as StaffCode } from '@/modules/staff/enums/staff.codes';
 import { StudentErrorCode as StudentCode } from '@/modules/students/enums/students.codes';
@@ -47,6 +50,7 @@ import { ExpenseErrorCode as ExpenseCode } from '@/modules/expenses/enums/expens
 import { NotificationErrorCode as NotificationCode } from '@/modules/notifications/enums/notification.codes';
 import { R2ErrorCode as R2Code } from '@/modules/r2/enums/r2.codes';
 import { FileErrorCode as FileCode } from '@/modules/file/enums/file.codes';
+import { ParentErrorCode as ParentCode } from '@/modules/parents/enums/parents.codes';
 
 // Create the union type for type safety
 export type AllErrorCodes =
@@ -60,6 +64,7 @@ export type AllErrorCodes =
   | SessionCode
   | AttendanceCode
   | LevelCode
+  | AcademicTermCode
   | SubjectCode
   | StaffCode
   | StudentCode
@@ -71,4 +76,5 @@ export type AllErrorCodes =
   | ExpenseCode
   | NotificationCode
   | R2Code
-  | FileCode;
+  | FileCode
+  | ParentCode;
@@ -66,6 +66,10 @@ export const Config = {
     ],
   },
 
+  attendance: {
+    checkInSecret: env.ATTENDANCE_CHECK_IN_SECRET,
+  },
+
   payment: {
     gatewayType: env.PAYMENT_GATEWAY_TYPE,
     paymob: {
@@ -83,6 +83,11 @@ export const env = cleanEnv(process.env, {
     desc: 'WhatsApp Webhook App Secret for signature verification',
   }),
 
+  // Attendance
+  ATTENDANCE_CHECK_IN_SECRET: str({
+    desc: 'HMAC secret for signing rotating attendance check-in QR tokens',
+  }),
+
   DB_ENABLE_QUERY_LOGGING: bool({
     desc: 'Enable database query logging for performance monitoring',
     default: false,
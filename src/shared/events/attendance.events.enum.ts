@@ -1,4 +1,5 @@
 export enum AttendanceEvents {
   MARKED = 'attendance.marked',
   MARKED_ABSENT = 'attendance.marked_absent',
+  ABSENCE_STREAK_REACHED = 'attendance.absence_streak_reached',
 }
@@ -6,4 +6,5 @@ export enum CenterEvents {
   CREATE_OWNER = 'center.create.owner',
   ASSIGN_OWNER = 'center.assigned.owner',
   CREATE_BRANCH = 'center.created.branch',
+  CLOSURES_CREATED = 'center.closures.created',
 }
@@ -37,6 +37,7 @@ import {
   CreateCenterOwnerEvent,
   AssignCenterOwnerEvent,
   CreateCenterBranchEvent,
+  CenterClosuresCreatedEvent,
 } from '@/modules/centers/events/center.events';
 import {
   BranchCreatedEvent,
@@ -79,6 +80,8 @@ import {
 import {
   StudentAddedToGroupEvent,
   StudentRemovedFromGroupEvent,
+  StudentPromotedFromWaitlistEvent,
+  StudentTransferredBetweenGroupsEvent,
 } from '@/modules/classes/events/group-student.events';
 import {
   PasswordResetRequestedEvent,
@@ -95,12 +98,16 @@ import {
   SessionCheckedInEvent,
   SessionsBulkDeletedEvent,
   SessionConflictDetectedEvent,
+  SessionMakeupCreatedEvent,
 } from '@/modules/sessions/events/session.events';
 import {
   StudentChargeCreatedEvent,
   StudentChargeCompletedEvent,
   StudentChargeInstallmentPaidEvent,
   StudentChargeRefundedEvent,
+  SubscriptionRenewedEvent,
+  SubscriptionRenewalFailedEvent,
+  PaymentReminderDueEvent,
 } from '@/modules/student-billing/events/student-billing.events';
 import {
   ExpenseCreatedEvent,
@@ -113,7 +120,10 @@ import {
   TeacherPayoutInstallmentPaidEvent,
   TeacherPayoutStatusUpdatedEvent,
 } from '@/modules/teacher-payouts/events/teacher-payout.events';
-import { StudentsMarkedAbsentEvent } from '@/modules/attendance/events/attendance.events';
+import {
+  StudentsMarkedAbsentEvent,
+  AbsenceStreakReachedEvent,
+} from '@/modules/attendance/events/attendance.events';
 import {
   UserProfileActivatedEvent,
   UserProfileDeactivatedEvent,
@@ -182,6 +192,7 @@ export type EventTypeMap = {
   [CenterEvents.CREATE_OWNER]: CreateCenterOwnerEvent;
   [CenterEvents.ASSIGN_OWNER]: AssignCenterOwnerEvent;
   [CenterEvents.CREATE_BRANCH]: CreateCenterBranchEvent;
+  [CenterEvents.CLOSURES_CREATED]: CenterClosuresCreatedEvent;
 
   // Branch Events
   [BranchEvents.CREATED]: BranchCreatedEvent;
@@ -228,6 +239,8 @@ export type EventTypeMap = {
   [GroupEvents.RESTORED]: GroupRestoredEvent;
   [GroupEvents.STUDENT_ADDED]: StudentAddedToGroupEvent;
   [GroupEvents.STUDENT_REMOVED]: StudentRemovedFromGroupEvent;
+  [GroupEvents.STUDENT_PROMOTED_FROM_WAITLIST]: StudentPromotedFromWaitlistEvent;
+  [GroupEvents.STUDENT_TRANSFERRED]: StudentTransferredBetweenGroupsEvent;
 
   // Additional Auth Events
   [AuthEvents.PASSWORD_RESET_REQUESTED]: PasswordResetRequestedEvent;
@@ -244,12 +257,16 @@ export type EventTypeMap = {
   [SessionEvents.FINISHED]: SessionFinishedEvent;
   [SessionEvents.BULK_DELETED]: SessionsBulkDeletedEvent;
   [SessionEvents.CONFLICT_DETECTED]: SessionConflictDetectedEvent;
+  [SessionEvents.MAKEUP_CREATED]: SessionMakeupCreatedEvent;
 
   // Student Billing Events
   [StudentBillingEvents.CHARGE_CREATED]: StudentChargeCreatedEvent;
   [StudentBillingEvents.CHARGE_COMPLETED]: StudentChargeCompletedEvent;
   [StudentBillingEvents.INSTALLMENT_PAID]: StudentChargeInstallmentPaidEvent;
   [StudentBillingEvents.CHARGE_REFUNDED]: StudentChargeRefundedEvent;
+  [StudentBillingEvents.SUBSCRIPTION_RENEWED]: SubscriptionRenewedEvent;
+  [StudentBillingEvents.SUBSCRIPTION_RENEWAL_FAILED]: SubscriptionRenewalFailedEvent;
+  [StudentBillingEvents.PAYMENT_REMINDER_DUE]: PaymentReminderDueEvent;
 
   // Expense Events
   [ExpenseEvents.CREATED]: ExpenseCreatedEvent;
@@ -264,6 +281,7 @@ export type EventTypeMap = {
 
   // Attendance Events
   [AttendanceEvents.MARKED_ABSENT]: StudentsMarkedAbsentEvent;
+  [AttendanceEvents.ABSENCE_STREAK_REACHED]: AbsenceStreakReachedEvent;
 
   // User Profile Events
   [UserProfileEvents.ACTIVATED]: UserProfileActivatedEvent;
@@ -6,4 +6,6 @@ export enum GroupEvents {
   RESTORED = 'group.restored',
   STUDENT_ADDED = 'group.student.added',
   STUDENT_REMOVED = 'group.student.removed',
+  STUDENT_PROMOTED_FROM_WAITLIST = 'group.student.promoted-from-waitlist',
+  STUDENT_TRANSFERRED = 'group.student.transferred',
 }
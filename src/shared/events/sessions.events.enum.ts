@@ -7,4 +7,5 @@ export enum SessionEvents {
   FINISHED = 'session.finished',
   BULK_DELETED = 'sessions.bulk.deleted',
   CONFLICT_DETECTED = 'sessions.conflict_detected',
+  MAKEUP_CREATED = 'session.makeup_created',
 }
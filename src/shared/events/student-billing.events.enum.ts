@@ -3,4 +3,7 @@ export enum StudentBillingEvents {
   CHARGE_COMPLETED = 'student.billing.charge.completed',
   INSTALLMENT_PAID = 'student.billing.installment.paid',
   CHARGE_REFUNDED = 'student.billing.charge.refunded',
+  SUBSCRIPTION_RENEWED = 'student.billing.subscription.renewed',
+  SUBSCRIPTION_RENEWAL_FAILED = 'student.billing.subscription.renewal_failed',
+  PAYMENT_REMINDER_DUE = 'student.billing.payment_reminder.due',
 }
@@ -116,4 +116,16 @@ export class ActivityLogTypesResponseDto {
     ],
   })
   groups: string[];
+
+  @ApiProperty({
+    description: 'Attendance activity types',
+    type: [String],
+    example: [
+      'ATTENDANCE_SELF_CHECK_IN',
+      'ATTENDANCE_CHECK_IN_TOKEN_REJECTED',
+      'ATTENDANCE_CORRECTED',
+      'ATTENDANCE_OFFLINE_SYNCED',
+    ],
+  })
+  attendance: string[];
 }
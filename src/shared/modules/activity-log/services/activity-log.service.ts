@@ -18,6 +18,7 @@ import { StaffActivityType } from '@/modules/staff/enums/staff-activity-type.enu
 import { AdminActivityType } from '@/modules/admin/enums/admin-activity-type.enum';
 import { ClassActivityType } from '@/modules/classes/enums/class-activity-type.enum';
 import { GroupActivityType } from '@/modules/classes/enums/group-activity-type.enum';
+import { AttendanceActivityType } from '@/modules/attendance/enums/attendance-activity-type.enum';
 import { AccessControlHelperService } from '@/modules/access-control/services/access-control-helper.service';
 
 @Injectable()
@@ -153,6 +154,7 @@ export class ActivityLogService extends BaseService {
       admin: Object.values(AdminActivityType),
       classes: Object.values(ClassActivityType),
       groups: Object.values(GroupActivityType),
+      attendance: Object.values(AttendanceActivityType),
     };
   }
 }